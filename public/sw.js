@@ -0,0 +1,45 @@
+// Web Push 通知の表示とクリック時の画面遷移
+// 送信内容（payload）は push_jobs.payload の { title, body, url, tag }
+
+self.addEventListener('install', () => {
+  self.skipWaiting()
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim())
+})
+
+self.addEventListener('push', (event) => {
+  let payload = {}
+  try {
+    payload = event.data ? event.data.json() : {}
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' }
+  }
+
+  // アプリを開いている場合と同じ tag にして、同じ通知が重複して表示されないようにする
+  event.waitUntil(
+    self.registration.showNotification(payload.title || '賢者の精算', {
+      body: payload.body || '',
+      icon: '/icon-192x192.png',
+      tag: payload.tag,
+      data: { url: payload.url || '/' }
+    })
+  )
+})
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href
+
+  // 開いているタブがあれば該当の画面に移動し、なければ新しく開く
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => new URL(client.url).origin === self.location.origin)
+      if (existing) {
+        return existing.navigate(url).then((client) => (client || existing).focus())
+      }
+      return self.clients.openWindow(url)
+    })
+  )
+})
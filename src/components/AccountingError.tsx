@@ -1,7 +1,11 @@
-import React, { useState } from 'react';
-import { ArrowLeft, AlertTriangle, RefreshCw, MessageCircle, Copy, CheckCircle, ExternalLink, Clock } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, AlertTriangle, RefreshCw, MessageCircle, Copy, CheckCircle, ExternalLink, Clock, XCircle } from 'lucide-react';
 import Sidebar from './Sidebar';
 import TopBar from './TopBar';
+import { getAccountingSyncJob } from '../lib/supabase';
+import { useAccountingSync } from '../hooks/useAccountingSync';
+import { ACCOUNTING_PROVIDER_LABELS } from '../lib/accountingAdapters';
+import { ACCOUNTING_SYNC_RESOLUTIONS, ACCOUNTING_SYNC_STATUS_LABELS, type AccountingSyncAttempt, type AccountingSyncJob } from '../lib/accountingSync';
 
 interface AccountingErrorProps {
   onNavigate: (view: string) => void;
@@ -20,14 +24,71 @@ interface ErrorDetail {
   nextRetryAt?: string;
   resolution?: string;
   affectedUsers: string[];
+  job?: AccountingSyncJob;
+  attempts: AccountingSyncAttempt[];
 }
 
+const formatJson = (value: unknown) => typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+
+// 送信1回分のリクエスト・レスポンスを技術詳細として整形する
+const formatAttempt = (attempt: AccountingSyncAttempt) => {
+  const lines = [`Attempt #${attempt.attempt_number} (${new Date(attempt.started_at).toLocaleString('ja-JP')}, ${attempt.duration_ms ?? 0}ms)`];
+  if (attempt.request) {
+    lines.push(
+      `Request: ${attempt.request.method} ${attempt.request.url}`,
+      ...Object.entries(attempt.request.headers).map(([name, value]) => `${name}: ${value}`),
+      `Request Body: ${formatJson(attempt.request.body)}`
+    );
+  }
+  if (attempt.response) {
+    lines.push(
+      `HTTP Status: ${attempt.response.status}`,
+      ...Object.entries(attempt.response.headers).map(([name, value]) => `${name}: ${value}`),
+      `Response Body: ${formatJson(attempt.response.body)}`
+    );
+  } else if (attempt.error_message) {
+    lines.push(`Error: ${attempt.error_message}`);
+  }
+  return lines.join('\n');
+};
+
+const toErrorDetail = (job: AccountingSyncJob): ErrorDetail => {
+  const attempts = job.accounting_sync_attempts || [];
+  const lastAttempt = attempts[attempts.length - 1];
+  return {
+    id: job.id,
+    applicationId: job.application_id,
+    service: ACCOUNTING_PROVIDER_LABELS[job.provider],
+    errorCode: job.error_code || ACCOUNTING_SYNC_STATUS_LABELS[job.status],
+    errorMessage: job.error_message || '',
+    technicalDetails: lastAttempt ? formatAttempt(lastAttempt) : '送信履歴がありません',
+    occurredAt: job.last_attempt_at || job.created_at,
+    retryCount: Math.max(job.attempt_count - 1, 0),
+    lastRetry: job.attempt_count > 1 && job.last_attempt_at ? job.last_attempt_at : undefined,
+    nextRetryAt: job.status === 'retrying' && job.next_retry_at ? job.next_retry_at : undefined,
+    resolution: job.error_code ? ACCOUNTING_SYNC_RESOLUTIONS[job.error_code] : undefined,
+    affectedUsers: [],
+    job,
+    attempts
+  };
+};
+
 function AccountingError({ onNavigate }: AccountingErrorProps) {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [copiedText, setCopiedText] = useState('');
+  const [job, setJob] = useState<AccountingSyncJob | null>(null);
+  const { retry } = useAccountingSync();
+
+  // 送信ログで選択したジョブと送信履歴を読み込む
+  useEffect(() => {
+    const jobId = localStorage.getItem('selectedSyncJobId');
+    if (jobId && localStorage.getItem('demoMode') !== 'true') {
+      getAccountingSyncJob(jobId).then(setJob);
+    }
+  }, []);
 
   // サンプルエラーデータ
-  const errorDetail: ErrorDetail = {
+  const sampleErrorDetail: ErrorDetail = {
     id: 'ERR-2024-001',
     applicationId: 'EX-2024-001',
     service: 'MoneyForward',
@@ -50,9 +111,12 @@ Request URL: https://api.moneyforward.com/v1/transactions`,
     lastRetry: '2024-07-20T15:45:00Z',
     nextRetryAt: '2024-07-20T17:00:00Z',
     resolution: 'OAuth認証の再実行が必要です。会計連携設定画面から再認証を行ってください。',
-    affectedUsers: ['佐藤花子', '田中太郎']
+    affectedUsers: ['佐藤花子', '田中太郎'],
+    attempts: []
   };
 
+  const errorDetail = job ? toErrorDetail(job) : sampleErrorDetail;
+
   const toggleSidebar = () => {
     setIsSidebarOpen(!isSidebarOpen);
   };
@@ -64,10 +128,20 @@ Request URL: https://api.moneyforward.com/v1/transactions`,
     });
   };
 
-  const handleRetry = () => {
-    if (confirm('この送信を再試行しますか？')) {
+  const handleRetry = async () => {
+    if (!confirm('この送信を再試行しますか？')) return;
+
+    if (!errorDetail.job) {
       alert('再送信を開始しました');
+      return;
     }
+    const result = await retry(errorDetail.job);
+    if (!result.success) {
+      alert(`再送信に失敗しました: ${result.error}`);
+      return;
+    }
+    setJob(await getAccountingSyncJob(errorDetail.job.id));
+    alert('再送信を開始しました');
   };
 
   const handleContactSupport = () => {
@@ -258,6 +332,32 @@ Request URL: https://api.moneyforward.com/v1/transactions`,
                 </div>
               </div>
 
+              {/* 送信履歴 */}
+              {errorDetail.attempts.length > 1 && (
+                <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl mb-6">
+                  <h3 className="text-lg font-semibold text-slate-800 mb-4">送信履歴</h3>
+                  <div className="space-y-3">
+                    {errorDetail.attempts.map(attempt => (
+                      <details key={attempt.id} className="bg-white/30 rounded-lg p-3">
+                        <summary className="flex items-center space-x-3 cursor-pointer text-sm">
+                          {attempt.success ? (
+                            <CheckCircle className="w-4 h-4 text-emerald-600" />
+                          ) : (
+                            <XCircle className="w-4 h-4 text-red-600" />
+                          )}
+                          <span className="font-medium text-slate-800">{attempt.attempt_number}回目</span>
+                          <span className="text-slate-600">{new Date(attempt.started_at).toLocaleString('ja-JP')}</span>
+                          <span className="text-slate-600">{attempt.http_status ? `HTTP ${attempt.http_status}` : attempt.error_code || ''}</span>
+                        </summary>
+                        <pre className="mt-3 bg-slate-900 text-slate-100 text-xs rounded-lg p-3 overflow-x-auto whitespace-pre-wrap font-mono">
+                          {formatAttempt(attempt)}
+                        </pre>
+                      </details>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* アクションボタン */}
               <div className="flex flex-col sm:flex-row gap-4 justify-center">
                 <button
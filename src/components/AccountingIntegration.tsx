@@ -1,25 +1,84 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Settings, CheckCircle, XCircle, AlertTriangle, RefreshCw, ExternalLink, Key, Shield } from 'lucide-react';
+import { ArrowLeft, Settings, CheckCircle, XCircle, AlertTriangle, RefreshCw, ExternalLink, Key, Shield, BookOpen } from 'lucide-react';
 import Sidebar from './Sidebar';
 import TopBar from './TopBar';
+import { useAuth } from '../hooks/useAuth';
+import { getAccountingSettings, getApprovedApplications, saveAccountingSettings } from '../lib/supabase';
+import { buildAccountingExportLines, summarizeInputTaxCredit, type AccountingExportLine, type ExportableApplication } from '../lib/accountingExport';
+import {
+  buildJournalRows,
+  exportJournalEntries,
+  getAccountingAdapter,
+  TAX_CATEGORY_KEYS,
+  type AccountingProvider,
+  type AccountingSendResult,
+  type AccountingSettings
+} from '../lib/accountingAdapters';
+import { downloadFile } from '../lib/documentGenerator';
+import { useAccountingSync } from '../hooks/useAccountingSync';
+import { INPUT_TAX_CREDIT_LABELS, type InputTaxCreditStatus } from '../lib/invoiceValidation';
 
 interface AccountingIntegrationProps {
   onNavigate: (view: string) => void;
 }
 
 interface ConnectionStatus {
+  provider: AccountingProvider;
   service: string;
   connected: boolean;
   lastSync: string;
   status: 'active' | 'error' | 'disconnected';
   apiVersion: string;
   permissions: string[];
+  exportLines?: AccountingExportLine[];
+  syncResults?: AccountingSendResult[];
 }
 
+const EXPENSE_CATEGORIES = ['交通費', '宿泊費', '日当', '雑費'];
+
+// デモモード用の送信対象明細
+const sampleExportLines: AccountingExportLine[] = [
+  {
+    applicationId: 'demo-1',
+    applicationTitle: '東京出張経費',
+    expenseItemId: 'demo-1-1',
+    source: 'expense_item',
+    category: '宿泊費',
+    date: '2026-10-10',
+    amount: 13200,
+    description: 'ホテル宿泊費',
+    counterparty: '株式会社サンプルホテル',
+    registrationNumber: 'T7000012050002',
+    taxBreakdown: [{ rate: 10, taxableAmount: 13200, taxAmount: 1200 }],
+    inputTaxCredit: 'full',
+    inputTaxCreditRatio: 1,
+    taxAmount: 1200,
+    deductibleTaxAmount: 1200
+  },
+  {
+    applicationId: 'demo-1',
+    applicationTitle: '東京出張経費',
+    expenseItemId: 'demo-1-2',
+    source: 'expense_item',
+    category: '雑費',
+    date: '2026-10-11',
+    amount: 3300,
+    description: '会食（個人店）',
+    counterparty: '居酒屋さんぷる',
+    registrationNumber: null,
+    taxBreakdown: [],
+    inputTaxCredit: 'transitional_50',
+    inputTaxCreditRatio: 0.5,
+    taxAmount: 300,
+    deductibleTaxAmount: 150
+  }
+];
+
 function AccountingIntegration({ onNavigate }: AccountingIntegrationProps) {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [connections, setConnections] = useState<ConnectionStatus[]>([
     {
+      provider: 'freee',
       service: 'freee',
       connected: true,
       lastSync: '2024-07-20T15:30:00Z',
@@ -28,6 +87,7 @@ function AccountingIntegration({ onNavigate }: AccountingIntegrationProps) {
       permissions: ['会計帳簿', '取引先', '品目']
     },
     {
+      provider: 'moneyforward',
       service: 'MoneyForward',
       connected: false,
       lastSync: '',
@@ -36,6 +96,7 @@ function AccountingIntegration({ onNavigate }: AccountingIntegrationProps) {
       permissions: []
     },
     {
+      provider: 'yayoi',
       service: '弥生会計',
       connected: true,
       lastSync: '2024-07-19T10:15:00Z',
@@ -47,6 +108,36 @@ function AccountingIntegration({ onNavigate }: AccountingIntegrationProps) {
 
   const [showOAuthModal, setShowOAuthModal] = useState(false);
   const [selectedService, setSelectedService] = useState('');
+  const [accountingSettings, setAccountingSettings] = useState<{ [provider in AccountingProvider]?: AccountingSettings }>({});
+  const [editingProvider, setEditingProvider] = useState<AccountingProvider | null>(null);
+  const [draftSettings, setDraftSettings] = useState<AccountingSettings | null>(null);
+  const [syncingProvider, setSyncingProvider] = useState<AccountingProvider | null>(null);
+  const { profile } = useAuth();
+  const { enqueue } = useAccountingSync();
+
+  // 勘定科目・税区分の対応表を読み込む（デモモードはローカルストレージに保存する）
+  useEffect(() => {
+    const loadSettings = async () => {
+      if (localStorage.getItem('demoMode') === 'true') {
+        const saved = localStorage.getItem('accountingSettings');
+        setAccountingSettings(saved ? JSON.parse(saved) : {});
+        return;
+      }
+      if (profile?.default_organization_id) {
+        setAccountingSettings(await getAccountingSettings(profile.default_organization_id));
+      }
+    };
+    loadSettings();
+  }, [profile?.default_organization_id]);
+
+  const getSettings = (provider: AccountingProvider): AccountingSettings => {
+    const adapter = getAccountingAdapter(provider);
+    const saved = accountingSettings[provider];
+    return {
+      mapping: { ...adapter.defaultMapping, ...(saved?.mapping || {}) },
+      connection: saved?.connection || {}
+    };
+  };
 
   const toggleSidebar = () => {
     setIsSidebarOpen(!isSidebarOpen);
@@ -131,13 +222,115 @@ function AccountingIntegration({ onNavigate }: AccountingIntegrationProps) {
     }, 2000);
   };
 
-  const handleSync = (service: string) => {
+  const handleOpenMapping = (provider: AccountingProvider) => {
+    setEditingProvider(provider);
+    setDraftSettings(getSettings(provider));
+  };
+
+  const updateDraftCategory = (category: string, field: 'account' | 'taxCategory', value: string) => {
+    setDraftSettings(prev => prev && {
+      ...prev,
+      mapping: {
+        ...prev.mapping,
+        categories: {
+          ...prev.mapping.categories,
+          [category]: { ...(prev.mapping.categories[category] || { account: '' }), [field]: value }
+        }
+      }
+    });
+  };
+
+  const handleSaveMapping = async () => {
+    if (!editingProvider || !draftSettings) return;
+
+    let nextSettings = { ...accountingSettings, [editingProvider]: draftSettings };
+    if (localStorage.getItem('demoMode') === 'true') {
+      localStorage.setItem('accountingSettings', JSON.stringify(nextSettings));
+    } else {
+      if (!profile?.default_organization_id) {
+        alert('組織が設定されていないため保存できません');
+        return;
+      }
+      const result = await saveAccountingSettings(profile.default_organization_id, editingProvider, draftSettings);
+      if (!result.success) {
+        alert(`連携設定の保存に失敗しました: ${result.error}`);
+        return;
+      }
+      // 保存後はアクセストークンを画面に残さず、設定済みかどうかだけを持つ
+      const { accessToken, ...connection } = draftSettings.connection;
+      nextSettings = {
+        ...accountingSettings,
+        [editingProvider]: {
+          ...draftSettings,
+          connection: { ...connection, hasAccessToken: Boolean(accessToken) || Boolean(connection.hasAccessToken) }
+        }
+      };
+    }
+
+    setAccountingSettings(nextSettings);
+    setEditingProvider(null);
+    setDraftSettings(null);
+  };
+
+  // 承認済み申請の経費明細・出張旅費を仕訳に変換し、会計ソフトへ送信またはインポートファイルを出力する
+  const handleSync = async (connection: ConnectionStatus) => {
+    const isDemoMode = localStorage.getItem('demoMode') === 'true';
+    let exportLines = sampleExportLines;
+    let applications: ExportableApplication[] = [];
+
+    if (!isDemoMode) {
+      if (!profile?.default_organization_id) {
+        alert('組織が設定されていないため同期できません');
+        return;
+      }
+      applications = (await getApprovedApplications(profile.default_organization_id)) as unknown as ExportableApplication[];
+      exportLines = applications.flatMap(buildAccountingExportLines);
+    }
+
+    const adapter = getAccountingAdapter(connection.provider);
+    const settings = getSettings(connection.provider);
+    let syncResults: AccountingSendResult[];
+    let message: string;
+
+    try {
+      setSyncingProvider(connection.provider);
+
+      if (adapter.delivery === 'api' && (isDemoMode || !(settings.connection.accessToken || settings.connection.hasAccessToken))) {
+        // 送信せずに仕訳への変換結果だけを確認する
+        const { rows, errors } = buildJournalRows(exportLines, settings.mapping);
+        syncResults = [];
+        message = `${connection.service}へ送信する仕訳を${rows.length}行作成しました（設定不足 ${errors.length}件）。アクセストークンを設定すると送信されます`;
+      } else if (connection.provider !== 'yayoi') {
+        // API連携は送信キューに登録し、失敗時は自動で再送する（同じ承認の申請は二重に登録されない）
+        const result = await enqueue(connection.provider, applications);
+        if (!result.success) {
+          alert(`送信キューへの登録に失敗しました: ${result.error}`);
+          return;
+        }
+        syncResults = [];
+        message = `${connection.service}への送信を開始しました（新規 ${result.jobs?.length ?? 0}件）。送信結果は送信ログで確認できます`;
+      } else {
+        const result = await exportJournalEntries(connection.provider, exportLines, {
+          mapping: settings.mapping,
+          connection: settings.connection
+        });
+        if (result.file) {
+          downloadFile(result.file);
+        }
+        syncResults = result.results;
+        const failed = result.results.filter(item => !item.success).length;
+        message = `${connection.service}との同期が完了しました（成功 ${result.results.length - failed}件 / 失敗 ${failed}件）`;
+      }
+    } finally {
+      setSyncingProvider(null);
+    }
+
     setConnections(prev => prev.map(conn => 
-      conn.service === service 
-        ? { ...conn, lastSync: new Date().toISOString() }
+      conn.provider === connection.provider 
+        ? { ...conn, lastSync: new Date().toISOString(), exportLines, syncResults }
         : conn
     ));
-    alert(`${service}との同期を開始しました`);
+    alert(message);
   };
 
   return (
@@ -233,6 +426,31 @@ function AccountingIntegration({ onNavigate }: AccountingIntegrationProps) {
                               </div>
                             </div>
                           </div>
+                          {connection.exportLines && connection.exportLines.length > 0 && (
+                            <div className="mt-4 pt-4 border-t border-white/40 text-sm">
+                              <p className="text-slate-600 mb-2">送信明細の仕入税額控除区分</p>
+                              <div className="flex flex-wrap gap-2">
+                                {Object.entries(summarizeInputTaxCredit(connection.exportLines)).map(([status, summary]) => (
+                                  <span key={status} className="px-2 py-1 bg-white/50 text-slate-700 rounded text-xs">
+                                    {INPUT_TAX_CREDIT_LABELS[status as InputTaxCreditStatus]}: {summary.count}件
+                                    （控除対象税額 ¥{summary.deductibleTaxAmount.toLocaleString()}）
+                                  </span>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+                          {connection.syncResults && connection.syncResults.some(result => !result.success) && (
+                            <div className="mt-4 pt-4 border-t border-white/40 text-sm">
+                              <p className="text-slate-600 mb-2">送信できなかった申請</p>
+                              <ul className="space-y-1">
+                                {connection.syncResults.filter(result => !result.success).map(result => (
+                                  <li key={result.applicationId} className="text-red-700 text-xs">
+                                    {result.applicationId}: {result.error}
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
+                          )}
                         </div>
                       )}
 
@@ -248,11 +466,19 @@ function AccountingIntegration({ onNavigate }: AccountingIntegrationProps) {
                         ) : (
                           <>
                             <button
-                              onClick={() => handleSync(connection.service)}
-                              className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-navy-600 to-navy-800 text-white rounded-lg font-medium hover:from-navy-700 hover:to-navy-900 transition-all duration-200"
+                              onClick={() => handleSync(connection)}
+                              disabled={syncingProvider === connection.provider}
+                              className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-navy-600 to-navy-800 text-white rounded-lg font-medium hover:from-navy-700 hover:to-navy-900 transition-all duration-200 disabled:opacity-50"
                             >
-                              <RefreshCw className="w-4 h-4" />
-                              <span>同期</span>
+                              <RefreshCw className={`w-4 h-4 ${syncingProvider === connection.provider ? 'animate-spin' : ''}`} />
+                              <span>{connection.provider === 'yayoi' ? '仕訳ファイル出力' : '同期'}</span>
+                            </button>
+                            <button
+                              onClick={() => handleOpenMapping(connection.provider)}
+                              className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-slate-600 to-slate-800 text-white rounded-lg font-medium hover:from-slate-700 hover:to-slate-900 transition-all duration-200"
+                            >
+                              <BookOpen className="w-4 h-4" />
+                              <span>科目設定</span>
                             </button>
                             <button
                               onClick={() => handleTestConnection(connection.service)}
@@ -280,6 +506,127 @@ function AccountingIntegration({ onNavigate }: AccountingIntegrationProps) {
         </div>
       </div>
 
+      {/* 勘定科目・税区分設定モーダル */}
+      {editingProvider && draftSettings && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <h3 className="text-lg font-semibold text-slate-800 mb-1">
+              {connections.find(conn => conn.provider === editingProvider)?.service}の科目設定
+            </h3>
+            <p className="text-sm text-slate-600 mb-6">
+              {editingProvider === 'freee'
+                ? '勘定科目ID・税区分コードを入力してください'
+                : '会計ソフトに登録されている勘定科目名・税区分名を入力してください'}
+            </p>
+
+            <h4 className="text-sm font-semibold text-slate-700 mb-2">経費区分ごとの借方科目</h4>
+            <div className="space-y-2 mb-6">
+              {EXPENSE_CATEGORIES.map(category => (
+                <div key={category} className="grid grid-cols-3 gap-2 items-center">
+                  <span className="text-sm text-slate-700">{category}</span>
+                  <input
+                    type="text"
+                    value={draftSettings.mapping.categories[category]?.account || ''}
+                    onChange={(e) => updateDraftCategory(category, 'account', e.target.value)}
+                    placeholder={`未設定時: ${draftSettings.mapping.defaultAccount || '—'}`}
+                    className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                  />
+                  <input
+                    type="text"
+                    value={draftSettings.mapping.categories[category]?.taxCategory || ''}
+                    onChange={(e) => updateDraftCategory(category, 'taxCategory', e.target.value)}
+                    placeholder="税区分（税率から自動）"
+                    className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                  />
+                </div>
+              ))}
+              <div className="grid grid-cols-3 gap-2 items-center">
+                <span className="text-sm text-slate-700">その他の区分</span>
+                <input
+                  type="text"
+                  value={draftSettings.mapping.defaultAccount}
+                  onChange={(e) => setDraftSettings({ ...draftSettings, mapping: { ...draftSettings.mapping, defaultAccount: e.target.value } })}
+                  className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-2 items-center">
+                <span className="text-sm text-slate-700">貸方科目</span>
+                <input
+                  type="text"
+                  value={draftSettings.mapping.creditAccount}
+                  onChange={(e) => setDraftSettings({ ...draftSettings, mapping: { ...draftSettings.mapping, creditAccount: e.target.value } })}
+                  className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                />
+                <input
+                  type="text"
+                  value={draftSettings.mapping.creditTaxCategory}
+                  onChange={(e) => setDraftSettings({ ...draftSettings, mapping: { ...draftSettings.mapping, creditTaxCategory: e.target.value } })}
+                  className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                />
+              </div>
+            </div>
+
+            <h4 className="text-sm font-semibold text-slate-700 mb-2">税率・仕入税額控除区分ごとの税区分</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mb-6">
+              {TAX_CATEGORY_KEYS.map(({ key, label }) => (
+                <label key={key} className="flex items-center justify-between space-x-2 text-sm text-slate-700">
+                  <span>{label}</span>
+                  <input
+                    type="text"
+                    value={draftSettings.mapping.taxCategories[key] || ''}
+                    onChange={(e) => setDraftSettings({
+                      ...draftSettings,
+                      mapping: { ...draftSettings.mapping, taxCategories: { ...draftSettings.mapping.taxCategories, [key]: e.target.value } }
+                    })}
+                    className="w-40 px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                  />
+                </label>
+              ))}
+            </div>
+
+            {editingProvider !== 'yayoi' && (
+              <>
+                <h4 className="text-sm font-semibold text-slate-700 mb-2">API接続</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mb-6">
+                  <input
+                    type="text"
+                    value={draftSettings.connection.companyId || ''}
+                    onChange={(e) => setDraftSettings({ ...draftSettings, connection: { ...draftSettings.connection, companyId: e.target.value } })}
+                    placeholder={editingProvider === 'freee' ? '事業所ID' : '事業者ID'}
+                    className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                  />
+                  <input
+                    type="password"
+                    value={draftSettings.connection.accessToken || ''}
+                    onChange={(e) => setDraftSettings({ ...draftSettings, connection: { ...draftSettings.connection, accessToken: e.target.value } })}
+                    placeholder={draftSettings.connection.hasAccessToken ? '設定済み（変更する場合のみ入力）' : 'アクセストークン'}
+                    className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                  />
+                </div>
+              </>
+            )}
+
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => {
+                  setEditingProvider(null);
+                  setDraftSettings(null);
+                }}
+                className="px-4 py-2 text-slate-600 hover:text-slate-800 transition-colors"
+              >
+                キャンセル
+              </button>
+              <button
+                onClick={handleSaveMapping}
+                className="px-4 py-2 bg-gradient-to-r from-navy-600 to-navy-800 text-white rounded-lg font-medium hover:from-navy-700 hover:to-navy-900 transition-all duration-200"
+              >
+                保存
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* OAuth接続モーダル */}
       {showOAuthModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -1,7 +1,14 @@
 import React, { useState } from 'react';
-import { ArrowLeft, Search, Filter, RefreshCw, CheckCircle, XCircle, AlertTriangle, Download, Eye } from 'lucide-react';
+import { ArrowLeft, Search, Filter, RefreshCw, CheckCircle, XCircle, AlertTriangle, Download, Eye, Clock } from 'lucide-react';
 import Sidebar from './Sidebar';
 import TopBar from './TopBar';
+import ExportDialog, { type ExportRequest } from './ExportDialog';
+import { useAccountingSync } from '../hooks/useAccountingSync';
+import { useAuth } from '../hooks/useAuth';
+import { ACCOUNTING_PROVIDER_LABELS } from '../lib/accountingAdapters';
+import { getAccountingSyncJobsPage } from '../lib/supabase';
+import { exportRows, paginate, type ExportColumn } from '../lib/dataExport';
+import type { AccountingSyncJob } from '../lib/accountingSync';
 
 interface AccountingLogProps {
   onNavigate: (view: string) => void;
@@ -13,79 +20,46 @@ interface LogEntry {
   service: string;
   type: 'expense' | 'business-trip';
   amount: number;
-  status: 'success' | 'failed' | 'pending';
+  status: 'success' | 'failed' | 'pending' | 'retrying';
   sentAt: string;
   errorMessage?: string;
   retryCount: number;
   lastRetry?: string;
+  nextRetryAt?: string;
+  job: AccountingSyncJob;
 }
 
+// 送信ジョブを一覧表示用の行に変換する
+const toLogEntry = (job: AccountingSyncJob): LogEntry => ({
+  id: job.id,
+  applicationId: job.application_id,
+  service: ACCOUNTING_PROVIDER_LABELS[job.provider],
+  type: job.application_type === 'business_trip' ? 'business-trip' : 'expense',
+  amount: Number(job.amount) || 0,
+  status: job.status === 'succeeded' ? 'success' : job.status === 'error' ? 'failed' : job.status === 'retrying' ? 'retrying' : 'pending',
+  sentAt: job.last_attempt_at || job.created_at,
+  errorMessage: job.error_message || undefined,
+  retryCount: Math.max(job.attempt_count - 1, 0),
+  lastRetry: job.attempt_count > 1 && job.last_attempt_at ? job.last_attempt_at : undefined,
+  nextRetryAt: job.status === 'retrying' && job.next_retry_at ? job.next_retry_at : undefined,
+  job
+});
+
 function AccountingLog({ onNavigate }: AccountingLogProps) {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [serviceFilter, setServiceFilter] = useState<string>('all');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [dateRange, setDateRange] = useState({ start: '', end: '' });
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const { profile } = useAuth();
+  const organizationId = profile?.default_organization_id || null;
+  const isDemoMode = localStorage.getItem('demoMode') === 'true';
 
-  const [logs] = useState<LogEntry[]>([
-    {
-      id: 'LOG-001',
-      applicationId: 'BT-2024-001',
-      service: 'freee',
-      type: 'business-trip',
-      amount: 52500,
-      status: 'success',
-      sentAt: '2024-07-20T16:30:00Z',
-      retryCount: 0
-    },
-    {
-      id: 'LOG-002',
-      applicationId: 'EX-2024-001',
-      service: 'MoneyForward',
-      type: 'expense',
-      amount: 12800,
-      status: 'failed',
-      sentAt: '2024-07-20T14:15:00Z',
-      errorMessage: 'API認証エラー: トークンの有効期限が切れています',
-      retryCount: 2,
-      lastRetry: '2024-07-20T15:45:00Z'
-    },
-    {
-      id: 'LOG-003',
-      applicationId: 'BT-2024-002',
-      service: '弥生会計',
-      type: 'business-trip',
-      amount: 35000,
-      status: 'pending',
-      sentAt: '2024-07-20T13:00:00Z',
-      retryCount: 1,
-      lastRetry: '2024-07-20T13:30:00Z'
-    },
-    {
-      id: 'LOG-004',
-      applicationId: 'EX-2024-002',
-      service: 'freee',
-      type: 'expense',
-      amount: 8500,
-      status: 'success',
-      sentAt: '2024-07-19T11:20:00Z',
-      retryCount: 0
-    },
-    {
-      id: 'LOG-005',
-      applicationId: 'BT-2024-003',
-      service: 'MoneyForward',
-      type: 'business-trip',
-      amount: 45000,
-      status: 'failed',
-      sentAt: '2024-07-18T09:45:00Z',
-      errorMessage: 'データ形式エラー: 必須フィールドが不足しています',
-      retryCount: 3,
-      lastRetry: '2024-07-18T16:20:00Z'
-    }
-  ]);
+  const { jobs, loading, retry, refetch } = useAccountingSync();
+  const logs = jobs.map(toLogEntry);
 
-  const services = ['freee', 'MoneyForward', '弥生会計'];
+  const services = [ACCOUNTING_PROVIDER_LABELS.freee, ACCOUNTING_PROVIDER_LABELS.moneyforward];
 
   const toggleSidebar = () => {
     setIsSidebarOpen(!isSidebarOpen);
@@ -99,6 +73,8 @@ function AccountingLog({ onNavigate }: AccountingLogProps) {
         return <XCircle className="w-4 h-4 text-red-600" />;
       case 'pending':
         return <AlertTriangle className="w-4 h-4 text-amber-600" />;
+      case 'retrying':
+        return <Clock className="w-4 h-4 text-amber-600" />;
       default:
         return <AlertTriangle className="w-4 h-4 text-slate-400" />;
     }
@@ -108,7 +84,8 @@ function AccountingLog({ onNavigate }: AccountingLogProps) {
     const labels = {
       'success': '成功',
       'failed': '失敗',
-      'pending': '処理中'
+      'pending': '処理中',
+      'retrying': '再試行待ち'
     };
     return labels[status as keyof typeof labels] || status;
   };
@@ -117,7 +94,8 @@ function AccountingLog({ onNavigate }: AccountingLogProps) {
     const colors = {
       'success': 'text-emerald-700 bg-emerald-100',
       'failed': 'text-red-700 bg-red-100',
-      'pending': 'text-amber-700 bg-amber-100'
+      'pending': 'text-amber-700 bg-amber-100',
+      'retrying': 'text-amber-700 bg-amber-100'
     };
     return colors[status as keyof typeof colors] || 'text-slate-700 bg-slate-100';
   };
@@ -143,31 +121,43 @@ function AccountingLog({ onNavigate }: AccountingLogProps) {
     return matchesSearch && matchesService && matchesStatus && matchesDate;
   });
 
-  const handleRetry = (logId: string) => {
+  const handleRetry = async (log: LogEntry) => {
     if (confirm('この送信を再試行しますか？')) {
-      alert('再送信を開始しました');
+      const result = await retry(log.job);
+      alert(result.success ? '再送信を開始しました' : `再送信に失敗しました: ${result.error}`);
     }
   };
 
   const handleViewError = (log: LogEntry) => {
+    localStorage.setItem('selectedSyncJobId', log.id);
     onNavigate('accounting-error');
   };
 
-  const handleExportCSV = () => {
-    const csvData = filteredLogs.map(log => ({
-      'ログID': log.id,
-      '申請ID': log.applicationId,
-      'サービス': log.service,
-      '種別': getTypeLabel(log.type),
-      '金額': log.amount,
-      'ステータス': getStatusLabel(log.status),
-      '送信日時': log.sentAt,
-      'エラーメッセージ': log.errorMessage || '',
-      '再試行回数': log.retryCount
-    }));
-    
-    console.log('CSV Export:', csvData);
-    alert('CSVファイルをダウンロードしました');
+  const exportColumns: ExportColumn<LogEntry>[] = [
+    { key: 'id', label: 'ログID', value: log => log.id, width: 38 },
+    { key: 'applicationId', label: '申請ID', value: log => log.applicationId, width: 38 },
+    { key: 'title', label: '申請タイトル', value: log => log.job.application_title || '', width: 30 },
+    { key: 'service', label: 'サービス', value: log => log.service },
+    { key: 'type', label: '種別', value: log => getTypeLabel(log.type), width: 10 },
+    { key: 'amount', label: '金額', value: log => log.amount, type: 'number' },
+    { key: 'status', label: 'ステータス', value: log => getStatusLabel(log.status), width: 10 },
+    { key: 'sentAt', label: '送信日時', value: log => new Date(log.sentAt).toLocaleString('ja-JP'), width: 20 },
+    { key: 'errorCode', label: 'エラーコード', value: log => log.job.error_code || '', width: 20 },
+    { key: 'errorMessage', label: 'エラーメッセージ', value: log => log.errorMessage || '', width: 40 },
+    { key: 'retryCount', label: '再試行回数', value: log => log.retryCount, type: 'number' },
+    { key: 'externalId', label: '会計ソフト側ID', value: log => log.job.external_id || '' }
+  ];
+
+  const handleExport = ({ format, columnKeys, scope, onProgress }: ExportRequest) => {
+    const columns = exportColumns.filter(column => columnKeys.includes(column.key));
+    const today = new Date().toISOString().slice(0, 10);
+
+    // 全履歴はページ単位で取得しながら出力する
+    if (scope === 'all' && organizationId) {
+      const pages = paginate(async (from, to) => (await getAccountingSyncJobsPage(organizationId, from, to)).map(toLogEntry));
+      return exportRows(pages, { columns, format, fileName: `会計連携ログ_全履歴_${today}`, sheetName: '会計連携ログ', onProgress });
+    }
+    return exportRows(filteredLogs, { columns, format, fileName: `会計連携ログ_${today}`, sheetName: '会計連携ログ', onProgress });
   };
 
   // 統計データの計算
@@ -175,7 +165,7 @@ function AccountingLog({ onNavigate }: AccountingLogProps) {
     total: filteredLogs.length,
     success: filteredLogs.filter(log => log.status === 'success').length,
     failed: filteredLogs.filter(log => log.status === 'failed').length,
-    pending: filteredLogs.filter(log => log.status === 'pending').length
+    pending: filteredLogs.filter(log => log.status === 'pending' || log.status === 'retrying').length
   };
 
   return (
@@ -216,13 +206,23 @@ function AccountingLog({ onNavigate }: AccountingLogProps) {
                   </button>
                   <h1 className="text-2xl lg:text-3xl font-bold text-slate-800">会計送信ログ</h1>
                 </div>
-                <button
-                  onClick={handleExportCSV}
-                  className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-emerald-600 to-emerald-800 text-white rounded-lg font-medium hover:from-emerald-700 hover:to-emerald-900 transition-all duration-200"
-                >
-                  <Download className="w-4 h-4" />
-                  <span>CSV出力</span>
-                </button>
+                <div className="flex space-x-3">
+                  <button
+                    onClick={() => refetch()}
+                    disabled={loading}
+                    className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-navy-600 to-navy-800 text-white rounded-lg font-medium hover:from-navy-700 hover:to-navy-900 transition-all duration-200 disabled:opacity-50"
+                  >
+                    <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+                    <span>再読み込み</span>
+                  </button>
+                  <button
+                    onClick={() => setShowExportDialog(true)}
+                    className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-emerald-600 to-emerald-800 text-white rounded-lg font-medium hover:from-emerald-700 hover:to-emerald-900 transition-all duration-200"
+                  >
+                    <Download className="w-4 h-4" />
+                    <span>CSV・Excel出力</span>
+                  </button>
+                </div>
               </div>
 
               {/* 統計カード */}
@@ -279,6 +279,7 @@ function AccountingLog({ onNavigate }: AccountingLogProps) {
                     <option value="success">成功</option>
                     <option value="failed">失敗</option>
                     <option value="pending">処理中</option>
+                    <option value="retrying">再試行待ち</option>
                   </select>
                   
                   <div className="flex space-x-2">
@@ -343,10 +344,13 @@ function AccountingLog({ onNavigate }: AccountingLogProps) {
                             </td>
                             <td className="py-4 px-6 text-slate-600 text-sm">
                               {log.retryCount > 0 ? `${log.retryCount}回` : '―'}
+                              {log.nextRetryAt && (
+                                <p className="text-xs text-amber-700">次回 {new Date(log.nextRetryAt).toLocaleString('ja-JP')}</p>
+                              )}
                             </td>
                             <td className="py-4 px-6">
                               <div className="flex items-center justify-center space-x-2">
-                                {log.status === 'failed' && (
+                                {(log.status === 'failed' || log.status === 'retrying') && (
                                   <>
                                     <button
                                       onClick={() => handleViewError(log)}
@@ -356,7 +360,7 @@ function AccountingLog({ onNavigate }: AccountingLogProps) {
                                       <Eye className="w-4 h-4" />
                                     </button>
                                     <button
-                                      onClick={() => handleRetry(log.id)}
+                                      onClick={() => handleRetry(log)}
                                       className="p-2 text-emerald-600 hover:text-emerald-800 hover:bg-emerald-50/30 rounded-lg transition-colors"
                                       title="再送信"
                                     >
@@ -377,6 +381,18 @@ function AccountingLog({ onNavigate }: AccountingLogProps) {
           </div>
         </div>
       </div>
+
+      {showExportDialog && (
+        <ExportDialog
+          title="会計連携ログの出力"
+          columns={exportColumns}
+          storageKey="exportColumns:accounting-log"
+          filteredCount={filteredLogs.length}
+          allowFullHistory={!isDemoMode && !!organizationId}
+          onExport={handleExport}
+          onClose={() => setShowExportDialog(false)}
+        />
+      )}
     </div>
   );
 }
@@ -2,6 +2,14 @@ import React, { useState } from 'react';
 import { ArrowLeft, Download, Filter, Search, Calendar, Users, TrendingUp, BarChart3 } from 'lucide-react';
 import Sidebar from './Sidebar';
 import TopBar from './TopBar';
+import ExportDialog, { type ExportRequest } from './ExportDialog';
+import AdvancedSearch from './AdvancedSearch';
+import { useAnalytics } from '../hooks/useAnalytics';
+import { useAuth } from '../hooks/useAuth';
+import { getApplicationsPage, searchApplications, type ApplicationListRow, type ApplicationSearchRow } from '../lib/supabase';
+import { exportRows, paginate, type ExportColumn } from '../lib/dataExport';
+import { hasSearchConditions, type SearchFilters } from '../lib/applicationSearch';
+import { getApplicationStatusColor, getApplicationStatusLabel, type ApplicationStatus } from '../lib/applicationLifecycle';
 
 interface AdminDashboardProps {
   onNavigate: (view: string) => void;
@@ -15,16 +23,46 @@ interface AdminApplication {
   department: string;
   amount: number;
   submittedDate: string;
-  status: 'pending' | 'approved' | 'rejected' | 'returned';
+  status: Exclude<ApplicationStatus, 'draft'>;
   approver: string;
+  tags?: string[];
 }
 
+const toAdminApplication = (application: ApplicationListRow | ApplicationSearchRow): AdminApplication => ({
+  id: application.id,
+  type: application.type === 'business_trip' ? 'business-trip' : 'expense',
+  title: application.title,
+  applicant: application.applicant_name || '',
+  department: application.applicant_department || '',
+  amount: Number(application.total_amount) || 0,
+  submittedDate: (application.submitted_at || application.created_at).slice(0, 10),
+  status: application.status === 'draft' ? 'pending' : application.status,
+  approver: application.approver_name || '',
+  tags: 'tags' in application ? application.tags.map(tag => tag.name) : undefined
+});
+
 function AdminDashboard({ onNavigate }: AdminDashboardProps) {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [departmentFilter, setDepartmentFilter] = useState<string>('all');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [dateRange, setDateRange] = useState({ start: '', end: '' });
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showAdvancedSearch, setShowAdvancedSearch] = useState(false);
+  // 詳細検索の条件と結果（データベース側で絞り込んだ申請）
+  const [advancedFilters, setAdvancedFilters] = useState<SearchFilters | null>(null);
+  const [searchResults, setSearchResults] = useState<{ applications: AdminApplication[]; totalCount: number } | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const { profile } = useAuth();
+  const organizationId = profile?.default_organization_id || null;
+  const isDemoMode = localStorage.getItem('demoMode') === 'true';
+  // 日付は日本時間の1日として集計する
+  const { analytics, error: analyticsError } = useAnalytics({
+    scope: 'organization',
+    dateRange: dateRange.start && dateRange.end
+      ? { start: `${dateRange.start}T00:00:00+09:00`, end: `${dateRange.end}T23:59:59.999+09:00` }
+      : undefined
+  });
 
   const [applications] = useState<AdminApplication[]>([
     {
@@ -84,37 +122,62 @@ function AdminDashboard({ onNavigate }: AdminDashboardProps) {
     }
   ]);
 
-  const departments = ['営業部', '総務部', '開発部', '企画部', '経理部'];
+  const departments = analytics
+    ? Object.keys(analytics.breakdowns.byDepartment)
+    : ['営業部', '総務部', '開発部', '企画部', '経理部'];
 
   const toggleSidebar = () => {
     setIsSidebarOpen(!isSidebarOpen);
   };
 
-  const getStatusLabel = (status: string) => {
-    const labels = {
-      'pending': '承認待ち',
-      'approved': '承認済み',
-      'rejected': '否認',
-      'returned': '差戻し'
-    };
-    return labels[status as keyof typeof labels] || status;
+  const getTypeLabel = (type: string) => {
+    return type === 'business-trip' ? '出張申請' : '経費申請';
   };
 
-  const getStatusColor = (status: string) => {
-    const colors = {
-      'pending': 'text-amber-700 bg-amber-100',
-      'approved': 'text-emerald-700 bg-emerald-100',
-      'rejected': 'text-red-700 bg-red-100',
-      'returned': 'text-orange-700 bg-orange-100'
-    };
-    return colors[status as keyof typeof colors] || 'text-slate-700 bg-slate-100';
+  const runAdvancedSearch = async (filters: SearchFilters, offset: number) => {
+    if (!organizationId) return;
+    try {
+      setIsSearching(true);
+      const result = await searchApplications(organizationId, filters, { offset });
+      const found = result.applications.map(toAdminApplication);
+      setSearchResults(prev => ({
+        applications: offset > 0 && prev ? [...prev.applications, ...found] : found,
+        totalCount: result.totalCount
+      }));
+    } catch (error) {
+      console.error('Advanced search failed:', error);
+      alert('検索に失敗しました: ' + (error instanceof Error ? error.message : 'Failed to search applications'));
+    } finally {
+      setIsSearching(false);
+    }
   };
 
-  const getTypeLabel = (type: string) => {
-    return type === 'business-trip' ? '出張申請' : '経費申請';
+  const clearAdvancedSearch = () => {
+    setAdvancedFilters(null);
+    setSearchResults(null);
   };
 
-  const filteredApplications = applications.filter(app => {
+  const handleAdvancedSearch = (filters: SearchFilters) => {
+    // デモモードでは一覧の絞り込み条件に反映する
+    if (isDemoMode || !organizationId) {
+      setSearchTerm(filters.keyword);
+      setDepartmentFilter(filters.department || 'all');
+      setStatusFilter(filters.status);
+      setDateRange(filters.dateRange);
+      return;
+    }
+
+    if (!hasSearchConditions(filters)) {
+      clearAdvancedSearch();
+      return;
+    }
+    setAdvancedFilters(filters);
+    runAdvancedSearch(filters, 0);
+  };
+
+  const listedApplications = searchResults ? searchResults.applications : applications;
+
+  const filteredApplications = listedApplications.filter(app => {
     const matchesSearch = app.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          app.applicant.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          app.id.toLowerCase().includes(searchTerm.toLowerCase());
@@ -132,32 +195,55 @@ function AdminDashboard({ onNavigate }: AdminDashboardProps) {
     return matchesSearch && matchesDepartment && matchesStatus && matchesDate;
   });
 
-  const handleCSVExport = () => {
-    const csvData = filteredApplications.map(app => ({
-      '申請ID': app.id,
-      '種別': getTypeLabel(app.type),
-      'タイトル': app.title,
-      '申請者': app.applicant,
-      '部署': app.department,
-      '金額': app.amount,
-      '申請日': app.submittedDate,
-      'ステータス': getStatusLabel(app.status),
-      '承認者': app.approver
-    }));
-    
-    // 実際の実装では、CSVファイルを生成してダウンロード
-    console.log('CSV Export:', csvData);
-    alert('CSVファイルをダウンロードしました');
-  };
+  const exportColumns: ExportColumn<AdminApplication>[] = [
+    { key: 'id', label: '申請ID', value: app => app.id, width: 38 },
+    { key: 'type', label: '種別', value: app => getTypeLabel(app.type), width: 10 },
+    { key: 'title', label: 'タイトル', value: app => app.title, width: 30 },
+    { key: 'applicant', label: '申請者', value: app => app.applicant },
+    { key: 'department', label: '部署', value: app => app.department },
+    { key: 'amount', label: '金額', value: app => app.amount, type: 'number' },
+    { key: 'submittedDate', label: '申請日', value: app => app.submittedDate, width: 12 },
+    { key: 'status', label: 'ステータス', value: app => getApplicationStatusLabel(app.status), width: 10 },
+    { key: 'approver', label: '承認者', value: app => app.approver },
+    { key: 'tags', label: 'タグ', value: app => (app.tags || []).join('、'), width: 20 }
+  ];
 
-  // 統計データの計算
-  const stats = {
-    totalApplications: filteredApplications.length,
-    totalAmount: filteredApplications.reduce((sum, app) => sum + app.amount, 0),
-    pendingCount: filteredApplications.filter(app => app.status === 'pending').length,
-    approvedCount: filteredApplications.filter(app => app.status === 'approved').length
+  const handleExport = ({ format, columnKeys, scope, onProgress }: ExportRequest) => {
+    const columns = exportColumns.filter(column => columnKeys.includes(column.key));
+    const today = new Date().toISOString().slice(0, 10);
+
+    // 全履歴はページ単位で取得しながら出力する
+    if (scope === 'all' && organizationId) {
+      const pages = paginate(async (from, to) => (await getApplicationsPage(organizationId, from, to)).map(toAdminApplication));
+      return exportRows(pages, { columns, format, fileName: `申請一覧_全履歴_${today}`, sheetName: '申請一覧', onProgress });
+    }
+    return exportRows(filteredApplications, { columns, format, fileName: `申請一覧_${today}`, sheetName: '申請一覧', onProgress });
   };
 
+  // 統計データ（組織全体の集計を取得できない場合は一覧のサンプルデータから計算）
+  const stats = analytics
+    ? {
+      totalApplications: analytics.summary.monthlyCount,
+      totalAmount: analytics.summary.monthlyTotal,
+      pendingCount: analytics.summary.pendingCount,
+      approvedCount: analytics.summary.approvedCount
+    }
+    : {
+      totalApplications: filteredApplications.length,
+      totalAmount: filteredApplications.reduce((sum, app) => sum + app.amount, 0),
+      pendingCount: filteredApplications.filter(app => app.status === 'pending').length,
+      approvedCount: filteredApplications.filter(app => app.status === 'approved').length
+    };
+
+  const monthlyTrends = analytics
+    ? Object.entries(analytics.trends.monthly).sort(([a], [b]) => a.localeCompare(b)).slice(-12)
+    : [];
+  const maxMonthlyTotal = Math.max(...monthlyTrends.map(([, month]) => month.total), 1);
+  const departmentBreakdown = analytics
+    ? Object.entries(analytics.breakdowns.byDepartment).sort(([, a], [, b]) => b - a)
+    : [];
+  const maxDepartmentTotal = Math.max(...departmentBreakdown.map(([, total]) => total), 1);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 relative overflow-hidden">
       <div className="absolute inset-0 bg-[url('data:image/svg+xml,%3Csvg width=%2260%22 height=%2260%22 viewBox=%220 0 60 60%22 xmlns=%22http://www.w3.org/2000/svg%22%3E%3Cg fill=%22none%22 fill-rule=%22evenodd%22%3E%3Cg fill=%22%23334155%22 fill-opacity=%220.03%22%3E%3Ccircle cx=%2230%22 cy=%2230%22 r=%221%22/%3E%3C/g%3E%3C/g%3E%3C/svg%3E')] opacity-40"></div>
@@ -197,11 +283,11 @@ function AdminDashboard({ onNavigate }: AdminDashboardProps) {
                   <h1 className="text-2xl lg:text-3xl font-bold text-slate-800">管理者ダッシュボード</h1>
                 </div>
                 <button
-                  onClick={handleCSVExport}
+                  onClick={() => setShowExportDialog(true)}
                   className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-emerald-600 to-emerald-800 text-white rounded-lg font-medium hover:from-emerald-700 hover:to-emerald-900 transition-all duration-200"
                 >
                   <Download className="w-4 h-4" />
-                  <span>CSV出力</span>
+                  <span>CSV・Excel出力</span>
                 </button>
               </div>
 
@@ -240,6 +326,70 @@ function AdminDashboard({ onNavigate }: AdminDashboardProps) {
                 </div>
               </div>
 
+              {analyticsError && (
+                <p className="mb-6 text-sm text-red-600">集計データを取得できませんでした: {analyticsError}</p>
+              )}
+
+              {/* 月次推移・部署別内訳 */}
+              {analytics && (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 lg:gap-6 mb-8">
+                  <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl">
+                    <h3 className="text-sm font-medium text-slate-600 mb-4">月次推移</h3>
+                    {monthlyTrends.length === 0 ? (
+                      <p className="text-sm text-slate-500">対象期間の申請はありません</p>
+                    ) : (
+                      <div className="flex items-end justify-between h-40 space-x-2">
+                        {monthlyTrends.map(([month, trend]) => (
+                          <div key={month} className="flex-1 flex flex-col items-center justify-end h-full">
+                            <div className="w-full flex flex-col justify-end" style={{ height: `${(trend.total / maxMonthlyTotal) * 100}%` }}>
+                              <div
+                                className="w-full bg-gradient-to-t from-navy-600 to-navy-800 rounded-t-sm"
+                                style={{ height: `${trend.total ? (trend.businessTrip / trend.total) * 100 : 0}%` }}
+                                title={`出張 ¥${trend.businessTrip.toLocaleString()}`}
+                              />
+                              <div
+                                className="w-full bg-gradient-to-t from-emerald-500 to-emerald-700"
+                                style={{ height: `${trend.total ? (trend.expense / trend.total) * 100 : 0}%` }}
+                                title={`経費 ¥${trend.expense.toLocaleString()}`}
+                              />
+                            </div>
+                            <span className="text-xs text-slate-500 mt-1">{month.slice(5)}月</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <div className="flex items-center space-x-4 mt-3 text-xs text-slate-600">
+                      <span className="flex items-center space-x-1"><span className="w-3 h-3 rounded-sm bg-navy-700 inline-block" /><span>出張</span></span>
+                      <span className="flex items-center space-x-1"><span className="w-3 h-3 rounded-sm bg-emerald-600 inline-block" /><span>経費</span></span>
+                    </div>
+                  </div>
+
+                  <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl">
+                    <h3 className="text-sm font-medium text-slate-600 mb-4">部署別内訳</h3>
+                    {departmentBreakdown.length === 0 ? (
+                      <p className="text-sm text-slate-500">対象期間の申請はありません</p>
+                    ) : (
+                      <div className="space-y-3">
+                        {departmentBreakdown.map(([department, total]) => (
+                          <div key={department}>
+                            <div className="flex justify-between text-sm mb-1">
+                              <span className="text-slate-700">{department}</span>
+                              <span className="font-medium text-slate-800">¥{total.toLocaleString()}</span>
+                            </div>
+                            <div className="h-2 bg-white/40 rounded-full overflow-hidden">
+                              <div
+                                className="h-full bg-gradient-to-r from-navy-600 to-navy-800 rounded-full"
+                                style={{ width: `${(total / maxDepartmentTotal) * 100}%` }}
+                              />
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
               {/* フィルター */}
               <div className="backdrop-blur-xl bg-white/20 rounded-xl p-4 border border-white/30 shadow-xl mb-6">
                 <div className="grid grid-cols-1 lg:grid-cols-5 gap-4">
@@ -275,6 +425,8 @@ function AdminDashboard({ onNavigate }: AdminDashboardProps) {
                     <option value="approved">承認済み</option>
                     <option value="rejected">否認</option>
                     <option value="returned">差戻し</option>
+                    <option value="withdrawn">取り下げ</option>
+                    <option value="cancelled">取消</option>
                   </select>
                   
                   <div className="flex space-x-2">
@@ -292,6 +444,29 @@ function AdminDashboard({ onNavigate }: AdminDashboardProps) {
                     />
                   </div>
                 </div>
+                <div className="flex flex-wrap items-center gap-3 mt-4">
+                  <button
+                    onClick={() => setShowAdvancedSearch(true)}
+                    className="flex items-center space-x-2 px-4 py-2 bg-white/50 hover:bg-white/70 text-slate-700 rounded-lg text-sm font-medium transition-colors"
+                  >
+                    <Filter className="w-4 h-4" />
+                    <span>詳細検索</span>
+                  </button>
+                  {searchResults && (
+                    <>
+                      <span className="text-sm text-slate-600">
+                        詳細検索の結果：{searchResults.totalCount}件中{searchResults.applications.length}件を表示
+                      </span>
+                      <button
+                        onClick={clearAdvancedSearch}
+                        className="text-sm text-navy-600 hover:text-navy-800 underline"
+                      >
+                        条件を解除
+                      </button>
+                    </>
+                  )}
+                  {isSearching && <span className="text-sm text-slate-500">検索中...</span>}
+                </div>
               </div>
 
               {/* 申請一覧 */}
@@ -323,7 +498,16 @@ function AdminDashboard({ onNavigate }: AdminDashboardProps) {
                           <tr key={app.id} className="border-b border-white/20 hover:bg-white/20 transition-colors">
                             <td className="py-4 px-6 text-slate-800 font-medium">{app.id}</td>
                             <td className="py-4 px-6 text-slate-700">{getTypeLabel(app.type)}</td>
-                            <td className="py-4 px-6 text-slate-800">{app.title}</td>
+                            <td className="py-4 px-6 text-slate-800">
+                              {app.title}
+                              {app.tags && app.tags.length > 0 && (
+                                <div className="flex flex-wrap gap-1 mt-1">
+                                  {app.tags.map(tag => (
+                                    <span key={tag} className="px-2 py-0.5 rounded-full text-xs text-navy-700 bg-navy-100">{tag}</span>
+                                  ))}
+                                </div>
+                              )}
+                            </td>
                             <td className="py-4 px-6 text-slate-800">{app.applicant}</td>
                             <td className="py-4 px-6 text-slate-700">{app.department}</td>
                             <td className="py-4 px-6 text-slate-800 font-medium">¥{app.amount.toLocaleString()}</td>
@@ -331,8 +515,8 @@ function AdminDashboard({ onNavigate }: AdminDashboardProps) {
                               {new Date(app.submittedDate).toLocaleDateString('ja-JP')}
                             </td>
                             <td className="py-4 px-6">
-                              <span className={`px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(app.status)}`}>
-                                {getStatusLabel(app.status)}
+                              <span className={`px-3 py-1 rounded-full text-xs font-medium ${getApplicationStatusColor(app.status)}`}>
+                                {getApplicationStatusLabel(app.status)}
                               </span>
                             </td>
                             <td className="py-4 px-6 text-slate-700">{app.approver}</td>
@@ -342,11 +526,43 @@ function AdminDashboard({ onNavigate }: AdminDashboardProps) {
                     </tbody>
                   </table>
                 </div>
+                {searchResults && advancedFilters && searchResults.applications.length < searchResults.totalCount && (
+                  <div className="p-4 text-center border-t border-white/30">
+                    <button
+                      onClick={() => runAdvancedSearch(advancedFilters, searchResults.applications.length)}
+                      disabled={isSearching}
+                      className="px-4 py-2 bg-white/50 hover:bg-white/70 text-slate-700 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                    >
+                      {isSearching ? '読み込み中...' : 'さらに読み込む'}
+                    </button>
+                  </div>
+                )}
               </div>
             </div>
           </div>
         </div>
       </div>
+
+      {showAdvancedSearch && (
+        <AdvancedSearch
+          onSearch={handleAdvancedSearch}
+          onClose={() => setShowAdvancedSearch(false)}
+          initialFilters={advancedFilters || undefined}
+          departments={departments}
+        />
+      )}
+
+      {showExportDialog && (
+        <ExportDialog
+          title="申請一覧の出力"
+          columns={exportColumns}
+          storageKey="exportColumns:admin-applications"
+          filteredCount={filteredApplications.length}
+          allowFullHistory={!isDemoMode && !!organizationId}
+          onExport={handleExport}
+          onClose={() => setShowExportDialog(false)}
+        />
+      )}
     </div>
   );
 }
@@ -1,122 +1,131 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Search, Filter, Save, Trash2, Calendar, User, FileText, Tag } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { deleteSavedSearchFilter, getApplicationTags, getSavedSearchFilters, saveSearchFilter } from '../lib/supabase';
+import {
+  APPLICATION_TAG_COLORS,
+  createEmptySearchFilters,
+  type ApplicationTag,
+  type SavedSearchFilter,
+  type SearchApplicationType,
+  type SearchFilters,
+  type SearchStatus
+} from '../lib/applicationSearch';
 
 interface AdvancedSearchProps {
   onSearch: (filters: SearchFilters) => void;
   onClose: () => void;
+  // 現在の検索条件（指定した場合はその条件から編集を始める）
+  initialFilters?: SearchFilters;
+  // 部署の選択肢（省略時は既定の部署）
+  departments?: string[];
 }
 
-interface SearchFilters {
-  keyword: string;
-  dateRange: { start: string; end: string; };
-  applicant: string;
-  department: string;
-  status: string;
-  type: string;
-  amountRange: { min: number; max: number; };
-  tags: string[];
-}
-
-interface SavedFilter {
-  id: string;
-  name: string;
-  filters: SearchFilters;
-  createdAt: string;
-}
-
-function AdvancedSearch({ onSearch, onClose }: AdvancedSearchProps) {
-  const [filters, setFilters] = useState<SearchFilters>({
-    keyword: '',
-    dateRange: { start: '', end: '' },
-    applicant: '',
-    department: '',
-    status: 'all',
-    type: 'all',
-    amountRange: { min: 0, max: 0 },
-    tags: []
-  });
+const DEFAULT_DEPARTMENTS = ['営業部', '総務部', '開発部', '企画部', '経理部'];
 
-  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>([
-    {
-      id: '1',
-      name: '今月の出張申請',
-      filters: {
-        keyword: '',
-        dateRange: { start: '2024-07-01', end: '2024-07-31' },
-        applicant: '',
-        department: '',
-        status: 'all',
-        type: 'business-trip',
-        amountRange: { min: 0, max: 0 },
-        tags: []
-      },
-      createdAt: '2024-07-15T10:00:00Z'
+// デモモードで表示する保存済み条件
+const DEMO_SAVED_FILTERS: SavedSearchFilter[] = [
+  {
+    id: 'demo-filter-1',
+    name: '今月の出張申請',
+    filters: {
+      ...createEmptySearchFilters(),
+      dateRange: { start: '2024-07-01', end: '2024-07-31' },
+      type: 'business_trip'
     },
-    {
-      id: '2',
-      name: '承認待ち申請',
-      filters: {
-        keyword: '',
-        dateRange: { start: '', end: '' },
-        applicant: '',
-        department: '',
-        status: 'pending',
-        type: 'all',
-        amountRange: { min: 0, max: 0 },
-        tags: []
-      },
-      createdAt: '2024-07-10T14:30:00Z'
-    }
-  ]);
+    createdAt: '2024-07-15T10:00:00Z'
+  },
+  {
+    id: 'demo-filter-2',
+    name: '承認待ち申請',
+    filters: { ...createEmptySearchFilters(), status: 'pending' },
+    createdAt: '2024-07-10T14:30:00Z'
+  }
+];
 
+function AdvancedSearch({ onSearch, onClose, initialFilters, departments = DEFAULT_DEPARTMENTS }: AdvancedSearchProps) {
+  const { user, profile } = useAuth();
+  const organizationId = profile?.default_organization_id || null;
+  const isDemoMode = localStorage.getItem('demoMode') === 'true';
+  const [filters, setFilters] = useState<SearchFilters>(initialFilters || createEmptySearchFilters());
+  const [savedFilters, setSavedFilters] = useState<SavedSearchFilter[]>(isDemoMode ? DEMO_SAVED_FILTERS : []);
+  const [tags, setTags] = useState<ApplicationTag[]>([]);
   const [showSaveModal, setShowSaveModal] = useState(false);
   const [filterName, setFilterName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isDemoMode || !user) return;
+    getSavedSearchFilters(user.id).then(setSavedFilters);
+  }, [isDemoMode, user]);
+
+  useEffect(() => {
+    if (isDemoMode || !organizationId) return;
+    getApplicationTags(organizationId).then(setTags);
+  }, [isDemoMode, organizationId]);
 
   const handleSearch = () => {
     onSearch(filters);
     onClose();
   };
 
-  const handleSaveFilter = () => {
+  const handleSaveFilter = async () => {
     if (!filterName.trim()) {
       alert('フィルター名を入力してください');
       return;
     }
 
-    const newFilter: SavedFilter = {
-      id: Date.now().toString(),
-      name: filterName,
-      filters: { ...filters },
-      createdAt: new Date().toISOString()
-    };
+    if (isDemoMode || !user) {
+      setSavedFilters(prev => [{
+        id: Date.now().toString(),
+        name: filterName.trim(),
+        filters: { ...filters },
+        createdAt: new Date().toISOString()
+      }, ...prev]);
+    } else {
+      setIsSaving(true);
+      const result = await saveSearchFilter(user.id, filterName, filters);
+      setIsSaving(false);
+      if (!result.success || !result.savedFilter) {
+        alert('検索条件の保存に失敗しました: ' + result.error);
+        return;
+      }
+      // 同じ名前の条件は上書きされる
+      const savedFilter = result.savedFilter;
+      setSavedFilters(prev => [savedFilter, ...prev.filter(f => f.id !== savedFilter.id)]);
+    }
 
-    setSavedFilters(prev => [...prev, newFilter]);
     setFilterName('');
     setShowSaveModal(false);
     alert('検索条件を保存しました');
   };
 
-  const handleLoadFilter = (savedFilter: SavedFilter) => {
+  const handleLoadFilter = (savedFilter: SavedSearchFilter) => {
     setFilters(savedFilter.filters);
   };
 
-  const handleDeleteFilter = (filterId: string) => {
-    if (confirm('この検索条件を削除してもよろしいですか？')) {
-      setSavedFilters(prev => prev.filter(f => f.id !== filterId));
+  const handleDeleteFilter = async (filterId: string) => {
+    if (!confirm('この検索条件を削除してもよろしいですか？')) return;
+
+    if (!isDemoMode && user) {
+      const result = await deleteSavedSearchFilter(filterId);
+      if (!result.success) {
+        alert('検索条件の削除に失敗しました: ' + result.error);
+        return;
+      }
     }
+    setSavedFilters(prev => prev.filter(f => f.id !== filterId));
+  };
+
+  const toggleTag = (tagId: string) => {
+    setFilters(prev => ({
+      ...prev,
+      tags: prev.tags.includes(tagId) ? prev.tags.filter(id => id !== tagId) : [...prev.tags, tagId]
+    }));
   };
 
   const handleReset = () => {
-    setFilters({
-      keyword: '',
-      dateRange: { start: '', end: '' },
-      applicant: '',
-      department: '',
-      status: 'all',
-      type: 'all',
-      amountRange: { min: 0, max: 0 },
-      tags: []
-    });
+    setFilters(createEmptySearchFilters());
   };
 
   return (
@@ -152,7 +161,7 @@ function AdvancedSearch({ onSearch, onClose }: AdvancedSearchProps) {
                     value={filters.keyword}
                     onChange={(e) => setFilters(prev => ({ ...prev, keyword: e.target.value }))}
                     className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-navy-400"
-                    placeholder="タイトル、説明、申請者名で検索"
+                    placeholder="タイトル、説明、出張目的、経費の摘要、申請者名で検索"
                   />
                 </div>
 
@@ -204,11 +213,9 @@ function AdvancedSearch({ onSearch, onClose }: AdvancedSearchProps) {
                       className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-navy-400"
                     >
                       <option value="">すべての部署</option>
-                      <option value="営業部">営業部</option>
-                      <option value="総務部">総務部</option>
-                      <option value="開発部">開発部</option>
-                      <option value="企画部">企画部</option>
-                      <option value="経理部">経理部</option>
+                      {departments.map(department => (
+                        <option key={department} value={department}>{department}</option>
+                      ))}
                     </select>
                   </div>
                 </div>
@@ -219,7 +226,7 @@ function AdvancedSearch({ onSearch, onClose }: AdvancedSearchProps) {
                     <label className="block text-sm font-medium text-slate-700 mb-2">ステータス</label>
                     <select
                       value={filters.status}
-                      onChange={(e) => setFilters(prev => ({ ...prev, status: e.target.value }))}
+                      onChange={(e) => setFilters(prev => ({ ...prev, status: e.target.value as SearchStatus }))}
                       className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-navy-400"
                     >
                       <option value="all">すべてのステータス</option>
@@ -228,17 +235,19 @@ function AdvancedSearch({ onSearch, onClose }: AdvancedSearchProps) {
                       <option value="approved">承認済み</option>
                       <option value="rejected">否認</option>
                       <option value="returned">差戻し</option>
+                      <option value="withdrawn">取り下げ</option>
+                      <option value="cancelled">取消</option>
                     </select>
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-slate-700 mb-2">種別</label>
                     <select
                       value={filters.type}
-                      onChange={(e) => setFilters(prev => ({ ...prev, type: e.target.value }))}
+                      onChange={(e) => setFilters(prev => ({ ...prev, type: e.target.value as SearchApplicationType }))}
                       className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-navy-400"
                     >
                       <option value="all">すべての種別</option>
-                      <option value="business-trip">出張申請</option>
+                      <option value="business_trip">出張申請</option>
                       <option value="expense">経費申請</option>
                     </select>
                   </div>
@@ -273,6 +282,36 @@ function AdvancedSearch({ onSearch, onClose }: AdvancedSearchProps) {
                     />
                   </div>
                 </div>
+
+                {/* タグ */}
+                <div className="mb-4">
+                  <label className="flex items-center text-sm font-medium text-slate-700 mb-2">
+                    <Tag className="w-4 h-4 mr-1" />
+                    タグ（選択したすべてのタグが付いた申請）
+                  </label>
+                  {tags.length === 0 ? (
+                    <p className="text-sm text-slate-500">
+                      {isDemoMode ? 'デモモードではタグを利用できません' : '登録されているタグはありません'}
+                    </p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {tags.map(tag => (
+                        <button
+                          key={tag.id}
+                          type="button"
+                          onClick={() => toggleTag(tag.id)}
+                          className={`px-3 py-1 rounded-full text-xs font-medium transition-all ${
+                            filters.tags.includes(tag.id)
+                              ? `${APPLICATION_TAG_COLORS[tag.color] || APPLICATION_TAG_COLORS.slate} ring-2 ring-navy-400`
+                              : 'text-slate-500 bg-white border border-slate-300 hover:bg-slate-50'
+                          }`}
+                        >
+                          {tag.name}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
               </div>
 
               {/* アクションボタン */}
@@ -305,6 +344,9 @@ function AdvancedSearch({ onSearch, onClose }: AdvancedSearchProps) {
             <div>
               <h3 className="text-lg font-semibold text-slate-800 mb-4">保存済み検索条件</h3>
               <div className="space-y-3">
+                {savedFilters.length === 0 && (
+                  <p className="text-sm text-slate-500">保存済みの検索条件はありません</p>
+                )}
                 {savedFilters.map((savedFilter) => (
                   <div key={savedFilter.id} className="bg-slate-50 rounded-lg p-4">
                     <div className="flex items-center justify-between mb-2">
@@ -346,6 +388,7 @@ function AdvancedSearch({ onSearch, onClose }: AdvancedSearchProps) {
                   className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-navy-400"
                   placeholder="例：今月の出張申請"
                 />
+                <p className="text-xs text-slate-500 mt-1">同じ名前の条件がある場合は上書きされます</p>
               </div>
               <div className="flex justify-end space-x-3">
                 <button
@@ -356,9 +399,10 @@ function AdvancedSearch({ onSearch, onClose }: AdvancedSearchProps) {
                 </button>
                 <button
                   onClick={handleSaveFilter}
-                  className="px-4 py-2 bg-navy-600 text-white rounded-lg hover:bg-navy-700 transition-colors"
+                  disabled={isSaving}
+                  className="px-4 py-2 bg-navy-600 text-white rounded-lg hover:bg-navy-700 transition-colors disabled:opacity-50"
                 >
-                  保存
+                  {isSaving ? '保存中...' : '保存'}
                 </button>
               </div>
             </div>
@@ -0,0 +1,269 @@
+import { useEffect, useState } from 'react';
+import { Calculator, AlertTriangle, Plane, MapPin } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { usePermissions } from '../hooks/usePermissions';
+import { useTravelRegulations, type TravelRegulation } from '../hooks/useTravelRegulations';
+import { formatJapaneseDate, formatYen } from '../lib/documentGenerator';
+import { getAllowanceStatementTrips, getOrganizationMembers } from '../lib/supabase';
+import { getMonthlyPeriod, getPreviousMonth } from '../lib/expenseReports';
+import type { OrganizationMember } from '../lib/organizations';
+import type { AllowanceDetailContent, AllowanceDetailTrip } from '../lib/documentTemplates';
+import {
+  buildAllowanceStatement,
+  getDefaultPayrollMonth,
+  summarizeAllowanceStatement,
+  toAllowanceStatementErrorMessage,
+  type AllowanceStatementTarget,
+  type AllowanceStatementTripRow
+} from '../lib/allowanceStatement';
+
+export interface AllowanceStatementValue {
+  userId: string;
+  content: AllowanceDetailContent;
+}
+
+interface AllowanceStatementGeneratorProps {
+  onChange: (value: AllowanceStatementValue | null) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 bg-white/50 border border-white/40 rounded-lg text-slate-700 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-navy-400 backdrop-blur-xl';
+
+// デモモードでは対象期間内の日付で出張を作る（施行期間の記録がないため、規程の版はデモの運用中の規程を使う）
+const demoRows = (period: { start: string, end: string }, regulation: TravelRegulation): AllowanceStatementTripRow[] => {
+  const day = (value: number) => `${period.start.slice(0, 8)}${String(value).padStart(2, '0')}`;
+  return [
+    { application_id: 'BT-2024-001', title: '大阪支社打ち合わせ', destination: '大阪府大阪市', start_date: day(3), end_date: day(5), is_overseas: false },
+    { application_id: 'BT-2024-002', title: '名古屋展示会', destination: '愛知県名古屋市', start_date: day(12), end_date: day(12), is_overseas: false },
+    { application_id: 'BT-2024-003', title: 'シンガポール現地法人視察', destination: 'シンガポール', start_date: day(20), end_date: day(23), is_overseas: true }
+  ]
+    .filter(trip => trip.start_date <= period.end)
+    .map(trip => ({
+      ...trip,
+      regulation_version_id: regulation.id,
+      regulation_name: regulation.name,
+      regulation_version: regulation.version,
+      allowance_settings: regulation.allowance_settings || null
+    }));
+};
+
+function TripRows({ trips }: { trips: AllowanceDetailTrip[] }) {
+  if (trips.length === 0) {
+    return <p className="text-sm text-slate-500 py-3 text-center">対象期間の出張はありません</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-slate-600 border-b border-white/40">
+            <th className="py-2 pr-4">出張日</th>
+            <th className="py-2 pr-4">出張先</th>
+            <th className="py-2 pr-4 text-right">日数</th>
+            <th className="py-2 pr-4 text-right">日額</th>
+            <th className="py-2 pr-4 text-right">日当</th>
+            <th className="py-2">適用規程</th>
+          </tr>
+        </thead>
+        <tbody>
+          {trips.map(trip => (
+            <tr key={trip.applicationId || trip.date} className="border-b border-white/20">
+              <td className="py-2 pr-4 text-slate-800">
+                {formatJapaneseDate(trip.date)}{trip.endDate && trip.endDate !== trip.date ? ` 〜 ${formatJapaneseDate(trip.endDate)}` : ''}
+              </td>
+              <td className="py-2 pr-4 text-slate-700">{trip.destination}</td>
+              <td className="py-2 pr-4 text-right">{trip.days}日</td>
+              <td className="py-2 pr-4 text-right">{formatYen(trip.dailyAmount || 0)}</td>
+              <td className="py-2 pr-4 text-right font-medium">{formatYen(trip.allowance)}</td>
+              <td className="py-2 text-xs text-slate-600">{trip.regulation}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function AllowanceStatementGenerator({ onChange }: AllowanceStatementGeneratorProps) {
+  const { user, profile } = useAuth();
+  const { can } = usePermissions();
+  const { activeRegulation } = useTravelRegulations();
+  const isDemoMode = localStorage.getItem('demoMode') === 'true';
+  const organizationId = profile?.default_organization_id || null;
+  const canSelectMember = can('view_organization_applications') && !!organizationId && !isDemoMode;
+
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [targetUserId, setTargetUserId] = useState('');
+  const [period, setPeriod] = useState(() => {
+    const { start, end } = getMonthlyPeriod(getPreviousMonth());
+    return { start, end };
+  });
+  const [payrollMonth, setPayrollMonth] = useState(() => getDefaultPayrollMonth(period.end));
+  const [statement, setStatement] = useState<AllowanceStatementValue | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const userId = targetUserId || user?.id || '';
+
+  useEffect(() => {
+    if (!canSelectMember || !organizationId) {
+      setMembers([]);
+      return;
+    }
+
+    let cancelled = false;
+    getOrganizationMembers(organizationId).then(found => {
+      if (!cancelled) setMembers(found);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [canSelectMember, organizationId]);
+
+  // 条件を変えたら作成し直すまで出力できないようにする
+  useEffect(() => {
+    setStatement(null);
+  }, [userId, period.start, period.end, payrollMonth, activeRegulation]);
+
+  useEffect(() => {
+    onChange(statement);
+  }, [statement, onChange]);
+
+  const getTarget = (): AllowanceStatementTarget => {
+    const member = members.find(m => m.user_id === userId);
+    if (member && userId !== user?.id) {
+      return { userId, name: member.full_name || member.email || '', position: member.position };
+    }
+    return { userId, name: profile?.full_name || '', position: profile?.position || null };
+  };
+
+  const handlePeriodChange = (key: 'start' | 'end', value: string) => {
+    setPeriod(prev => ({ ...prev, [key]: value }));
+    if (key === 'end' && value) setPayrollMonth(getDefaultPayrollMonth(value));
+  };
+
+  const handleBuild = async () => {
+    if (!userId || !period.start || !period.end) {
+      setError('対象者と対象期間を選択してください');
+      return;
+    }
+    if (isDemoMode && !activeRegulation) {
+      setError('運用中の出張旅費規程がありません');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const rows = isDemoMode && activeRegulation ? demoRows(period, activeRegulation) : await getAllowanceStatementTrips(userId, period);
+      const target = getTarget();
+      setStatement({
+        userId,
+        content: buildAllowanceStatement({ rows, target, period, payrollMonth })
+      });
+    } catch (err) {
+      setError(toAllowanceStatementErrorMessage(err instanceof Error ? err.message : undefined));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const totals = statement ? summarizeAllowanceStatement(statement.content) : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">対象者</label>
+          {canSelectMember ? (
+            <select value={userId} onChange={(e) => setTargetUserId(e.target.value)} className={inputClass}>
+              {!members.some(member => member.user_id === user?.id) && user && (
+                <option value={user.id}>{profile?.full_name || '自分'}</option>
+              )}
+              {members.map(member => (
+                <option key={member.user_id} value={member.user_id}>
+                  {member.full_name || member.email}{member.department ? `（${member.department}）` : ''}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input type="text" value={profile?.full_name || ''} disabled className={inputClass} />
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">支給月（給与）</label>
+          <input type="month" value={payrollMonth} onChange={(e) => setPayrollMonth(e.target.value)} className={inputClass} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">対象期間（開始）</label>
+          <input type="date" value={period.start} onChange={(e) => handlePeriodChange('start', e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">対象期間（終了）</label>
+          <input type="date" value={period.end} onChange={(e) => handlePeriodChange('end', e.target.value)} className={inputClass} />
+        </div>
+        <button
+          type="button"
+          onClick={handleBuild}
+          disabled={loading}
+          className="flex items-center justify-center space-x-2 px-4 py-2 bg-gradient-to-r from-navy-600 to-navy-800 text-white rounded-lg font-medium hover:from-navy-700 hover:to-navy-900 transition-all duration-200 disabled:opacity-50"
+        >
+          <Calculator className="w-4 h-4" />
+          <span>{loading ? '作成中...' : '明細を作成する'}</span>
+        </button>
+      </div>
+      <p className="text-xs text-slate-600">
+        出張開始日が対象期間内の承認済み出張申請から、出張開始日に施行されていた出張旅費規程の日当で計算します。
+      </p>
+
+      {error && (
+        <div className="flex items-center p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <AlertTriangle className="w-4 h-4 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {statement && totals && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="p-4 bg-white/30 rounded-lg text-center">
+              <p className="text-sm text-slate-600">国内出張日当</p>
+              <p className="text-2xl font-bold text-slate-800">{formatYen(totals.domesticAmount)}</p>
+              <p className="text-xs text-slate-500">{statement.content.domesticTrips.length}件・{totals.domesticDays}日間</p>
+            </div>
+            <div className="p-4 bg-white/30 rounded-lg text-center">
+              <p className="text-sm text-slate-600">海外出張日当</p>
+              <p className="text-2xl font-bold text-slate-800">{formatYen(totals.overseasAmount)}</p>
+              <p className="text-xs text-slate-500">{statement.content.overseasTrips.length}件・{totals.overseasDays}日間</p>
+            </div>
+            <div className="p-4 bg-gradient-to-r from-navy-600 to-navy-800 rounded-lg text-center text-white">
+              <p className="text-sm text-navy-100">合計支給額（非課税）</p>
+              <p className="text-2xl font-bold">{formatYen(totals.totalAmount)}</p>
+              <p className="text-xs text-navy-100">{statement.content.employeeName} {statement.content.position}</p>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="flex items-center text-lg font-semibold text-slate-800 mb-2">
+              <MapPin className="w-4 h-4 mr-2" />
+              国内出張
+            </h3>
+            <TripRows trips={statement.content.domesticTrips} />
+          </div>
+
+          <div>
+            <h3 className="flex items-center text-lg font-semibold text-slate-800 mb-2">
+              <Plane className="w-4 h-4 mr-2" />
+              海外出張
+            </h3>
+            <TripRows trips={statement.content.overseasTrips} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AllowanceStatementGenerator;
@@ -1,5 +1,21 @@
-import React from 'react';
-import { ArrowLeft, Download, Clock, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, Download, Clock, CheckCircle, XCircle, AlertCircle, AlertTriangle, Ban, Send, RotateCcw, Undo2 } from 'lucide-react';
+import { getApplicationById, getApplicationStatusEvents, type Application, type BusinessTripDetail, type ExpenseItem } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { useApplications } from '../hooks/useApplications';
+import { usePermissions } from '../hooks/usePermissions';
+import {
+  ACTIONS_REQUIRING_COMMENT,
+  APPLICATION_ACTION_LABELS,
+  buildApplicationTimeline,
+  getApplicationStatusColor,
+  getApplicationStatusLabel,
+  getAvailableActions,
+  type ApplicantAction,
+  type ApplicationStatusEvent,
+  type TimelineItemState
+} from '../lib/applicationLifecycle';
+import type { ApprovalStepDefinition } from '../lib/approvalRoutes';
 
 interface ApplicationDetailProps {
   onBack: () => void;
@@ -7,14 +23,53 @@ interface ApplicationDetailProps {
   applicationId: string;
 }
 
-function ApplicationDetail({ onBack, type, applicationId }: ApplicationDetailProps) {
-  // サンプルデータ
-  const applicationData = {
-    'business-trip': {
+interface DetailData {
+  id: string;
+  userId: string | null;
+  title: string;
+  status: string;
+  applicant: string;
+  department: string;
+  submittedDate: string;
+  purpose?: string;
+  startDate?: string;
+  endDate?: string;
+  destination?: string;
+  amount: number;
+  items?: { category: string; amount: number; description: string }[];
+  reason: string | null;
+  approvalSteps: ApprovalStepDefinition[] | null;
+  currentStep: number | null;
+}
+
+const createSampleEvents = (applicationId: string, entries: [ApplicationStatusEvent['action'], string, string, number | null][]): ApplicationStatusEvent[] =>
+  entries.map(([action, date, actor, step], index) => ({
+    id: `${applicationId}-${index}`,
+    application_id: applicationId,
+    action,
+    from_status: null,
+    to_status: action === 'approve' ? 'approved' : action === 'create' ? 'draft' : 'pending',
+    step,
+    actor_id: null,
+    actor_name: actor,
+    comment: null,
+    created_at: date
+  }));
+
+// デモモードと、申請が見つからない場合のサンプルデータ
+const SAMPLE_STEPS: ApprovalStepDefinition[] = [
+  { name: '部長承認', approver_type: 'position', approver_value: '部長' },
+  { name: '経理承認', approver_type: 'position', approver_value: '経理' },
+  { name: '最終承認', approver_type: 'position', approver_value: '取締役' }
+];
+
+const SAMPLE_DETAILS: { [type in ApplicationDetailProps['type']]: { data: DetailData; events: ApplicationStatusEvent[] } } = {
+  'business-trip': {
+    data: {
       id: 'BT-2024-001',
+      userId: null,
       title: '東京出張',
-      status: '承認済み',
-      statusColor: 'text-emerald-700 bg-emerald-100',
+      status: 'approved',
       applicant: '田中太郎',
       department: '営業部',
       submittedDate: '2024-07-20',
@@ -22,45 +77,160 @@ function ApplicationDetail({ onBack, type, applicationId }: ApplicationDetailPro
       startDate: '2024-07-25',
       endDate: '2024-07-27',
       destination: '東京都港区',
-      estimatedAmount: 52500,
-      timeline: [
-        { date: '2024-07-20 09:00', action: '申請提出', status: 'completed', user: '田中太郎' },
-        { date: '2024-07-20 14:30', action: '部長承認', status: 'completed', user: '佐藤部長' },
-        { date: '2024-07-21 10:15', action: '経理承認', status: 'completed', user: '山田経理' },
-        { date: '2024-07-21 16:00', action: '最終承認', status: 'completed', user: '鈴木取締役' }
-      ]
+      amount: 52500,
+      reason: null,
+      approvalSteps: SAMPLE_STEPS,
+      currentStep: 3
     },
-    'expense': {
+    events: createSampleEvents('BT-2024-001', [
+      ['submit', '2024-07-20T00:00:00Z', '田中太郎', null],
+      ['approve_step', '2024-07-20T05:30:00Z', '佐藤部長', 1],
+      ['approve_step', '2024-07-21T01:15:00Z', '山田経理', 2],
+      ['approve', '2024-07-21T07:00:00Z', '鈴木取締役', 3]
+    ])
+  },
+  'expense': {
+    data: {
       id: 'EX-2024-001',
+      userId: null,
       title: '交通費・宿泊費精算',
-      status: '待機中',
-      statusColor: 'text-amber-700 bg-amber-100',
+      status: 'pending',
       applicant: '佐藤花子',
       department: '総務部',
       submittedDate: '2024-07-18',
-      totalAmount: 12800,
+      amount: 12800,
       items: [
         { category: '交通費', amount: 5800, description: '新幹線代（往復）' },
         { category: '宿泊費', amount: 7000, description: 'ホテル宿泊費' }
       ],
-      timeline: [
-        { date: '2024-07-18 11:30', action: '申請提出', status: 'completed', user: '佐藤花子' },
-        { date: '2024-07-18 15:45', action: '部長承認', status: 'completed', user: '田中部長' },
-        { date: '2024-07-19 09:00', action: '経理確認中', status: 'pending', user: '山田経理' }
-      ]
+      reason: null,
+      approvalSteps: SAMPLE_STEPS.slice(0, 2),
+      currentStep: 2
+    },
+    events: createSampleEvents('EX-2024-001', [
+      ['submit', '2024-07-18T02:30:00Z', '佐藤花子', null],
+      ['approve_step', '2024-07-18T06:45:00Z', '田中部長', 1]
+    ])
+  }
+};
+
+const ACTION_ICONS: { [action in ApplicantAction]: typeof Send } = {
+  submit: Send,
+  reopen: RotateCcw,
+  withdraw: Undo2,
+  cancel: Ban
+};
+
+type ApplicationWithDetails = Application & {
+  business_trip_details?: BusinessTripDetail[];
+  expense_items?: ExpenseItem[];
+};
+
+const toDetailData = (application: ApplicationWithDetails, events: ApplicationStatusEvent[]): DetailData => {
+  const trip = application.business_trip_details?.[0];
+  const applicant = events.find(event => event.action === 'create')?.actor_name;
+  return {
+    id: application.id,
+    userId: application.user_id,
+    title: application.title,
+    status: application.status,
+    applicant: applicant || '',
+    department: '',
+    submittedDate: (application.submitted_at || application.created_at || '').slice(0, 10),
+    purpose: trip?.purpose || application.data?.tripDetails?.purpose,
+    startDate: trip?.start_date || application.data?.tripDetails?.startDate,
+    endDate: trip?.end_date || application.data?.tripDetails?.endDate,
+    destination: application.data?.tripDetails?.destination,
+    amount: Number(application.total_amount) || 0,
+    items: (application.expense_items || []).map(item => ({
+      category: item.category || '',
+      amount: Number(item.amount) || 0,
+      description: item.description || ''
+    })),
+    reason: (application.status === 'cancelled' ? application.cancellation_reason : application.rejection_reason) || null,
+    approvalSteps: application.approval_steps || null,
+    currentStep: application.current_step || null
+  };
+};
+
+function ApplicationDetail({ onBack, type, applicationId }: ApplicationDetailProps) {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const { transitionApplication } = useApplications();
+  const [detail, setDetail] = useState<{ data: DetailData; events: ApplicationStatusEvent[] } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isTransitioning, setIsTransitioning] = useState(false);
+
+  const loadDetail = useCallback(async () => {
+    if (localStorage.getItem('demoMode') !== 'true') {
+      const application = await getApplicationById(applicationId);
+      if (application) {
+        const events = await getApplicationStatusEvents(applicationId);
+        setDetail({ data: toDetailData(application as unknown as ApplicationWithDetails, events), events });
+        setIsLoading(false);
+        return;
+      }
     }
+    setDetail(SAMPLE_DETAILS[type]);
+    setIsLoading(false);
+  }, [applicationId, type]);
+
+  useEffect(() => {
+    loadDetail();
+  }, [loadDetail]);
+
+  const handleTransition = async (action: ApplicantAction) => {
+    const label = APPLICATION_ACTION_LABELS[action];
+    let comment: string | undefined;
+    if (ACTIONS_REQUIRING_COMMENT.includes(action)) {
+      const input = prompt(`${label}の理由を入力してください`);
+      if (input === null) return;
+      comment = input;
+    } else if (!confirm(`この申請を${label}してもよろしいですか？`)) {
+      return;
+    }
+
+    setIsTransitioning(true);
+    const result = await transitionApplication(applicationId, action, comment);
+    setIsTransitioning(false);
+    if (!result.success) {
+      alert(`${label}に失敗しました: ${result.error}`);
+      return;
+    }
+    await loadDetail();
   };
 
-  const data = applicationData[type];
+  if (isLoading || !detail) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-navy-600"></div>
+        <span className="ml-3 text-slate-600">読み込み中...</span>
+      </div>
+    );
+  }
+
+  const data = detail.data;
+  const timeline = buildApplicationTimeline(detail.events, {
+    status: data.status,
+    approval_steps: data.approvalSteps,
+    current_step: data.currentStep
+  });
+  const availableActions = data.userId
+    ? getAvailableActions(data.status, { isApplicant: data.userId === user?.id, canCancel: can('cancel_applications') })
+    : [];
 
-  const getStatusIcon = (status: string) => {
-    switch (status) {
+  const getStatusIcon = (state: TimelineItemState) => {
+    switch (state) {
       case 'completed':
         return <CheckCircle className="w-5 h-5 text-emerald-600" />;
-      case 'pending':
+      case 'current':
         return <Clock className="w-5 h-5 text-amber-600" />;
       case 'rejected':
         return <XCircle className="w-5 h-5 text-red-600" />;
+      case 'returned':
+        return <AlertTriangle className="w-5 h-5 text-orange-600" />;
+      case 'closed':
+        return <Ban className="w-5 h-5 text-slate-500" />;
       default:
         return <AlertCircle className="w-5 h-5 text-slate-400" />;
     }
@@ -95,8 +265,8 @@ function ApplicationDetail({ onBack, type, applicationId }: ApplicationDetailPro
               <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl">
                 <div className="flex items-center justify-between mb-4">
                   <h1 className="text-2xl font-bold text-slate-800">{data.title}</h1>
-                  <span className={`px-3 py-1 rounded-full text-sm font-medium ${data.statusColor}`}>
-                    {data.status}
+                  <span className={`px-3 py-1 rounded-full text-sm font-medium ${getApplicationStatusColor(data.status)}`}>
+                    {getApplicationStatusLabel(data.status)}
                   </span>
                 </div>
                 
@@ -107,34 +277,40 @@ function ApplicationDetail({ onBack, type, applicationId }: ApplicationDetailPro
                   </div>
                   <div>
                     <p className="text-slate-600">申請者</p>
-                    <p className="font-medium text-slate-800">{data.applicant} ({data.department})</p>
+                    <p className="font-medium text-slate-800">{data.applicant || '-'}{data.department && ` (${data.department})`}</p>
                   </div>
                   <div>
                     <p className="text-slate-600">申請日</p>
                     <p className="font-medium text-slate-800">{data.submittedDate}</p>
                   </div>
+                  {data.reason && (
+                    <div className="md:col-span-2">
+                      <p className="text-slate-600">{data.status === 'cancelled' ? '取消理由' : '差戻し・否認の理由'}</p>
+                      <p className="font-medium text-slate-800">{data.reason}</p>
+                    </div>
+                  )}
                   {type === 'business-trip' && (
                     <>
                       <div>
                         <p className="text-slate-600">出張期間</p>
                         <p className="font-medium text-slate-800">
-                          {(data as any).startDate} ～ {(data as any).endDate}
+                          {data.startDate} ～ {data.endDate}
                         </p>
                       </div>
                       <div>
                         <p className="text-slate-600">訪問先</p>
-                        <p className="font-medium text-slate-800">{(data as any).destination}</p>
+                        <p className="font-medium text-slate-800">{data.destination || '-'}</p>
                       </div>
                       <div>
                         <p className="text-slate-600">予定金額</p>
-                        <p className="font-medium text-slate-800">¥{(data as any).estimatedAmount.toLocaleString()}</p>
+                        <p className="font-medium text-slate-800">¥{data.amount.toLocaleString()}</p>
                       </div>
                     </>
                   )}
                   {type === 'expense' && (
                     <div>
                       <p className="text-slate-600">合計金額</p>
-                      <p className="font-medium text-slate-800">¥{(data as any).totalAmount.toLocaleString()}</p>
+                      <p className="font-medium text-slate-800">¥{data.amount.toLocaleString()}</p>
                     </div>
                   )}
                 </div>
@@ -142,7 +318,7 @@ function ApplicationDetail({ onBack, type, applicationId }: ApplicationDetailPro
                 {type === 'business-trip' && (
                   <div className="mt-4">
                     <p className="text-slate-600 text-sm mb-2">出張目的</p>
-                    <p className="text-slate-800">{(data as any).purpose}</p>
+                    <p className="text-slate-800">{data.purpose}</p>
                   </div>
                 )}
 
@@ -150,7 +326,7 @@ function ApplicationDetail({ onBack, type, applicationId }: ApplicationDetailPro
                   <div className="mt-4">
                     <p className="text-slate-600 text-sm mb-3">経費詳細</p>
                     <div className="space-y-2">
-                      {(data as any).items.map((item: any, index: number) => (
+                      {(data.items || []).map((item, index) => (
                         <div key={index} className="flex justify-between items-center bg-white/30 rounded-lg p-3">
                           <div>
                             <p className="font-medium text-slate-800">{item.category}</p>
@@ -170,17 +346,41 @@ function ApplicationDetail({ onBack, type, applicationId }: ApplicationDetailPro
               <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl">
                 <h2 className="text-lg font-semibold text-slate-800 mb-4">承認状況</h2>
                 <div className="space-y-4">
-                  {data.timeline.map((item, index) => (
-                    <div key={index} className="flex items-start space-x-3">
-                      {getStatusIcon(item.status)}
+                  {timeline.map(item => (
+                    <div key={item.key} className="flex items-start space-x-3">
+                      {getStatusIcon(item.state)}
                       <div className="flex-1 min-w-0">
-                        <p className="text-sm font-medium text-slate-800">{item.action}</p>
-                        <p className="text-xs text-slate-600">{item.user}</p>
-                        <p className="text-xs text-slate-500">{item.date}</p>
+                        <p className={`text-sm font-medium ${item.state === 'waiting' ? 'text-slate-500' : 'text-slate-800'}`}>{item.label}</p>
+                        {item.actor && <p className="text-xs text-slate-600">{item.actor}</p>}
+                        {item.comment && <p className="text-xs text-slate-700 bg-white/40 rounded px-2 py-1 mt-1 break-words">{item.comment}</p>}
+                        {item.date && <p className="text-xs text-slate-500">{new Date(item.date).toLocaleString('ja-JP')}</p>}
                       </div>
                     </div>
                   ))}
                 </div>
+
+                {availableActions.length > 0 && (
+                  <div className="mt-6 pt-4 border-t border-white/30 flex flex-wrap gap-2">
+                    {availableActions.map(action => {
+                      const ActionIcon = ACTION_ICONS[action];
+                      return (
+                        <button
+                          key={action}
+                          onClick={() => handleTransition(action)}
+                          disabled={isTransitioning}
+                          className={`flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 ${
+                            action === 'submit'
+                              ? 'bg-navy-600 text-white hover:bg-navy-700'
+                              : 'bg-white/50 text-slate-700 hover:bg-white/70'
+                          }`}
+                        >
+                          <ActionIcon className="w-4 h-4" />
+                          <span>{APPLICATION_ACTION_LABELS[action]}</span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
               </div>
 
               {type === 'expense' && (
@@ -4,6 +4,9 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Save, Upload, Calendar, MapPin, Calculator, FileText, Plus, Trash2 } from 'lucide-react';
 import { useApplications } from '../hooks/useApplications';
+import { useAuth } from '../hooks/useAuth';
+import { useTravelRegulations } from '../hooks/useTravelRegulations';
+import { calculateTripAllowance, OVERSEAS_ALLOWANCE_RATE } from '../lib/allowanceCalculator';
 
 interface ApplicationFormProps {
   type: 'business_trip' | 'expense';
@@ -18,6 +21,7 @@ const businessTripSchema = z.object({
   startDate: z.string().min(1, '出発日は必須です'),
   endDate: z.string().min(1, '帰着日は必須です'),
   destination: z.string().min(1, '訪問先は必須です'),
+  isOverseas: z.boolean().optional(),
   participants: z.string().optional(),
   estimatedDailyAllowance: z.number().min(0),
   estimatedTransportation: z.number().min(0),
@@ -41,7 +45,9 @@ type BusinessTripFormData = z.infer<typeof businessTripSchema>;
 type ExpenseFormData = z.infer<typeof expenseSchema>;
 
 function ApplicationForm({ type, onSuccess, onCancel }: ApplicationFormProps) {
-  const { createApplication, loading } = useApplications();
+  const { createApplication, transitionApplication, loading } = useApplications();
+  const { profile } = useAuth();
+  const { activeRegulation } = useTravelRegulations();
   const [expenseItems, setExpenseItems] = useState([
     { id: '1', category: '交通費', date: '', amount: 0, description: '', receipt: null }
   ]);
@@ -49,6 +55,7 @@ function ApplicationForm({ type, onSuccess, onCancel }: ApplicationFormProps) {
   const businessTripForm = useForm<BusinessTripFormData>({
     resolver: zodResolver(businessTripSchema),
     defaultValues: {
+      isOverseas: false,
       estimatedDailyAllowance: 0,
       estimatedTransportation: 0,
       estimatedAccommodation: 0
@@ -62,28 +69,28 @@ function ApplicationForm({ type, onSuccess, onCancel }: ApplicationFormProps) {
     }
   });
 
-  // 出張日当の自動計算
-  const calculateEstimates = (startDate: string, endDate: string) => {
-    if (!startDate || !endDate) return { days: 0, dailyAllowance: 0, transportation: 0, accommodation: 0 };
-    
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    const days = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-    
-    const dailyRate = 5000; // 1日あたりの日当
-    const transportationRate = 2000; // 1日あたりの交通費
-    const accommodationRate = 8000; // 1泊あたりの宿泊費
-    
-    return {
-      days,
-      dailyAllowance: days * dailyRate,
-      transportation: days * transportationRate,
-      accommodation: days > 1 ? (days - 1) * accommodationRate : 0
-    };
+  // 出張日当の自動計算（運用中の出張規程に基づく）
+  const calculateEstimates = (startDate: string, endDate: string, isOverseas?: boolean) =>
+    calculateTripAllowance({
+      regulation: activeRegulation,
+      position: profile?.position,
+      startDate,
+      endDate,
+      isOverseas
+    });
+
+  // 下書きとして作成した申請を提出する（提出できなかった場合は下書きのまま残る）
+  const submitCreatedApplication = async (result: Awaited<ReturnType<typeof createApplication>>) => {
+    if (!result.success || !result.application) return;
+    const submitted = await transitionApplication(result.application.id as string, 'submit');
+    if (!submitted.success) {
+      alert(`申請を下書きとして保存しましたが、提出に失敗しました: ${submitted.error}`);
+    }
+    onSuccess();
   };
 
   const onSubmitBusinessTrip = async (data: BusinessTripFormData) => {
-    const estimates = calculateEstimates(data.startDate, data.endDate);
+    const estimates = calculateEstimates(data.startDate, data.endDate, data.isOverseas);
     
     const result = await createApplication('business_trip', data.title, {
       description: data.purpose,
@@ -92,16 +99,16 @@ function ApplicationForm({ type, onSuccess, onCancel }: ApplicationFormProps) {
         endDate: data.endDate,
         purpose: data.purpose,
         destination: data.destination,
+        isOverseas: Boolean(data.isOverseas),
         participants: data.participants,
         estimatedDailyAllowance: estimates.dailyAllowance,
         estimatedTransportation: estimates.transportation,
-        estimatedAccommodation: estimates.accommodation
+        estimatedAccommodation: estimates.accommodation,
+        allowanceEstimate: estimates
       }
     });
 
-    if (result.success) {
-      onSuccess();
-    }
+    await submitCreatedApplication(result);
   };
 
   const onSubmitExpense = async (data: ExpenseFormData) => {
@@ -115,9 +122,7 @@ function ApplicationForm({ type, onSuccess, onCancel }: ApplicationFormProps) {
       }))
     });
 
-    if (result.success) {
-      onSuccess();
-    }
+    await submitCreatedApplication(result);
   };
 
   const addExpenseItem = () => {
@@ -151,7 +156,8 @@ function ApplicationForm({ type, onSuccess, onCancel }: ApplicationFormProps) {
   if (type === 'business_trip') {
     const watchedStartDate = businessTripForm.watch('startDate');
     const watchedEndDate = businessTripForm.watch('endDate');
-    const estimates = calculateEstimates(watchedStartDate, watchedEndDate);
+    const watchedIsOverseas = businessTripForm.watch('isOverseas');
+    const estimates = calculateEstimates(watchedStartDate, watchedEndDate, watchedIsOverseas);
 
     return (
       <div className="max-w-4xl mx-auto">
@@ -238,6 +244,14 @@ function ApplicationForm({ type, onSuccess, onCancel }: ApplicationFormProps) {
                 {businessTripForm.formState.errors.destination && (
                   <p className="text-red-600 text-sm mt-1">{businessTripForm.formState.errors.destination.message}</p>
                 )}
+                <label className="flex items-center space-x-2 mt-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    {...businessTripForm.register('isOverseas')}
+                    className="rounded border-slate-300 text-navy-600 focus:ring-navy-400"
+                  />
+                  <span>海外出張（日当は国内の{OVERSEAS_ALLOWANCE_RATE}倍）</span>
+                </label>
               </div>
 
               <div>
@@ -260,6 +274,13 @@ function ApplicationForm({ type, onSuccess, onCancel }: ApplicationFormProps) {
               <Calculator className="w-5 h-5 inline mr-2" />
               予定経費（自動計算）
             </h3>
+            <p className="text-sm text-slate-600 mb-4">
+              {estimates.regulation.source === 'regulation'
+                ? `${estimates.regulation.name}（${estimates.regulation.version}）`
+                : '標準規程'}
+              に基づく {estimates.positionName} の支給額
+              {estimates.nights > 0 && `・宿泊料 ¥${estimates.accommodation.toLocaleString()}（${estimates.nights}泊）`}
+            </p>
             
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
               <div className="bg-white/30 rounded-lg p-4">
@@ -276,7 +297,7 @@ function ApplicationForm({ type, onSuccess, onCancel }: ApplicationFormProps) {
               </div>
               <div className="bg-gradient-to-r from-navy-600 to-navy-800 rounded-lg p-4 text-white">
                 <p className="text-sm text-navy-100 mb-1">合計</p>
-                <p className="text-2xl font-bold">¥{(estimates.dailyAllowance + estimates.transportation + estimates.accommodation).toLocaleString()}</p>
+                <p className="text-2xl font-bold">¥{estimates.total.toLocaleString()}</p>
               </div>
             </div>
           </div>
@@ -314,7 +335,7 @@ function ApplicationForm({ type, onSuccess, onCancel }: ApplicationFormProps) {
           description: data.description,
           expenseItems: expenseItems
         });
-        if (result.success) onSuccess();
+        await submitCreatedApplication(result);
       })} className="space-y-6">
         {/* 基本情報 */}
         <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl">
@@ -1,14 +1,22 @@
 import React, { useState } from 'react';
-import { Search, Filter, Eye, Edit, Trash2, Clock, CheckCircle, XCircle, AlertTriangle, Plus } from 'lucide-react';
+import { Search, Filter, Eye, Edit, Trash2, Clock, CheckCircle, XCircle, AlertTriangle, Plus, Send, RotateCcw, Undo2, Ban } from 'lucide-react';
 import { useApplications } from '../hooks/useApplications';
+import {
+  ACTIONS_REQUIRING_COMMENT,
+  APPLICATION_ACTION_LABELS,
+  getApplicationStatusColor,
+  getApplicationStatusLabel,
+  getAvailableActions,
+  type ApplicantAction
+} from '../lib/applicationLifecycle';
 
 interface ApplicationListProps {
   onCreateNew: (type: 'business_trip' | 'expense') => void;
-  onViewDetail: (applicationId: string) => void;
+  onViewDetail: (applicationId: string, type: 'business_trip' | 'expense') => void;
 }
 
 function ApplicationList({ onCreateNew, onViewDetail }: ApplicationListProps) {
-  const { applications, loading, error, deleteApplication } = useApplications();
+  const { applications, loading, error, deleteApplication, transitionApplication } = useApplications();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [typeFilter, setTypeFilter] = useState<string>('all');
@@ -25,33 +33,15 @@ function ApplicationList({ onCreateNew, onViewDetail }: ApplicationListProps) {
         return <XCircle className="w-4 h-4 text-red-600" />;
       case 'draft':
         return <Edit className="w-4 h-4 text-slate-500" />;
+      case 'withdrawn':
+        return <Undo2 className="w-4 h-4 text-slate-500" />;
+      case 'cancelled':
+        return <Ban className="w-4 h-4 text-purple-600" />;
       default:
         return <Clock className="w-4 h-4 text-slate-400" />;
     }
   };
 
-  const getStatusLabel = (status: string) => {
-    const labels = {
-      'draft': '下書き',
-      'pending': '承認待ち',
-      'returned': '差戻し',
-      'approved': '承認済み',
-      'rejected': '否認'
-    };
-    return labels[status as keyof typeof labels] || status;
-  };
-
-  const getStatusColor = (status: string) => {
-    const colors = {
-      'draft': 'text-slate-700 bg-slate-100',
-      'pending': 'text-amber-700 bg-amber-100',
-      'returned': 'text-orange-700 bg-orange-100',
-      'approved': 'text-emerald-700 bg-emerald-100',
-      'rejected': 'text-red-700 bg-red-100'
-    };
-    return colors[status as keyof typeof colors] || 'text-slate-700 bg-slate-100';
-  };
-
   const getTypeLabel = (type: string) => {
     return type === 'business_trip' ? '出張申請' : '経費申請';
   };
@@ -73,6 +63,30 @@ function ApplicationList({ onCreateNew, onViewDetail }: ApplicationListProps) {
     }
   };
 
+  const ACTION_ICONS: { [action in ApplicantAction]: typeof Send } = {
+    submit: Send,
+    reopen: RotateCcw,
+    withdraw: Undo2,
+    cancel: Ban
+  };
+
+  const handleTransition = async (applicationId: string, action: ApplicantAction) => {
+    const label = APPLICATION_ACTION_LABELS[action];
+    let comment: string | undefined;
+    if (ACTIONS_REQUIRING_COMMENT.includes(action)) {
+      const input = prompt(`${label}の理由を入力してください`);
+      if (input === null) return;
+      comment = input;
+    } else if (!confirm(`この申請を${label}してもよろしいですか？`)) {
+      return;
+    }
+
+    const result = await transitionApplication(applicationId, action, comment);
+    if (!result.success) {
+      alert(`${label}に失敗しました: ${result.error}`);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -147,6 +161,8 @@ function ApplicationList({ onCreateNew, onViewDetail }: ApplicationListProps) {
               <option value="returned">差戻し</option>
               <option value="approved">承認済み</option>
               <option value="rejected">否認</option>
+              <option value="withdrawn">取り下げ</option>
+              <option value="cancelled">取消</option>
             </select>
           </div>
         </div>
@@ -184,26 +200,39 @@ function ApplicationList({ onCreateNew, onViewDetail }: ApplicationListProps) {
                     <td className="py-4 px-6 text-slate-800">{app.title}</td>
                     <td className="py-4 px-6 text-slate-800 font-medium">¥{app.total_amount.toLocaleString()}</td>
                     <td className="py-4 px-6 text-slate-600 text-sm">
-                      {new Date(app.created_at).toLocaleDateString('ja-JP')}
+                      {new Date(app.submitted_at || app.created_at).toLocaleDateString('ja-JP')}
                     </td>
                     <td className="py-4 px-6">
                       <div className="flex items-center space-x-2">
                         {getStatusIcon(app.status)}
-                        <span className={`px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(app.status)}`}>
-                          {getStatusLabel(app.status)}
+                        <span className={`px-3 py-1 rounded-full text-xs font-medium ${getApplicationStatusColor(app.status)}`}>
+                          {getApplicationStatusLabel(app.status)}
                         </span>
                       </div>
                     </td>
                     <td className="py-4 px-6">
                       <div className="flex items-center justify-center space-x-2">
                         <button
-                          onClick={() => onViewDetail(app.id)}
+                          onClick={() => onViewDetail(app.id, app.type)}
                           className="p-2 text-slate-600 hover:text-slate-800 hover:bg-white/30 rounded-lg transition-colors"
                           title="詳細表示"
                         >
                           <Eye className="w-4 h-4" />
                         </button>
-                        {(app.status === 'draft' || app.status === 'returned') && (
+                        {getAvailableActions(app.status, { isApplicant: true, canCancel: false }).map(action => {
+                          const ActionIcon = ACTION_ICONS[action];
+                          return (
+                            <button
+                              key={action}
+                              onClick={() => handleTransition(app.id, action)}
+                              className="p-2 text-slate-600 hover:text-slate-800 hover:bg-white/30 rounded-lg transition-colors"
+                              title={APPLICATION_ACTION_LABELS[action]}
+                            >
+                              <ActionIcon className="w-4 h-4" />
+                            </button>
+                          );
+                        })}
+                        {app.status === 'draft' && (
                           <>
                             <button
                               className="p-2 text-slate-600 hover:text-slate-800 hover:bg-white/30 rounded-lg transition-colors"
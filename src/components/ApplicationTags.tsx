@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react';
+import { Tag, X, Plus } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import {
+  addApplicationTag,
+  createApplicationTag,
+  getApplicationTags,
+  getTagsForApplication,
+  removeApplicationTag
+} from '../lib/supabase';
+import { APPLICATION_TAG_COLORS, type ApplicationTag } from '../lib/applicationSearch';
+
+interface ApplicationTagsProps {
+  applicationId: string;
+  organizationId: string;
+}
+
+function ApplicationTags({ applicationId, organizationId }: ApplicationTagsProps) {
+  const { user } = useAuth();
+  const [assignedTags, setAssignedTags] = useState<ApplicationTag[]>([]);
+  const [organizationTags, setOrganizationTags] = useState<ApplicationTag[]>([]);
+  const [newTagName, setNewTagName] = useState('');
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  useEffect(() => {
+    getTagsForApplication(applicationId).then(setAssignedTags);
+    getApplicationTags(organizationId).then(setOrganizationTags);
+  }, [applicationId, organizationId]);
+
+  const assignTag = async (tag: ApplicationTag) => {
+    if (!user || assignedTags.some(assigned => assigned.id === tag.id)) return;
+    setIsUpdating(true);
+    const result = await addApplicationTag(applicationId, tag.id, user.id);
+    setIsUpdating(false);
+    if (!result.success) {
+      alert('タグの追加に失敗しました: ' + result.error);
+      return;
+    }
+    setAssignedTags(prev => [...prev, tag].sort((a, b) => a.name.localeCompare(b.name, 'ja')));
+  };
+
+  const handleRemove = async (tagId: string) => {
+    setIsUpdating(true);
+    const result = await removeApplicationTag(applicationId, tagId);
+    setIsUpdating(false);
+    if (!result.success) {
+      alert('タグの削除に失敗しました: ' + result.error);
+      return;
+    }
+    setAssignedTags(prev => prev.filter(tag => tag.id !== tagId));
+  };
+
+  // 組織にないタグ名は作成してから付与する
+  const handleAddByName = async () => {
+    const name = newTagName.trim();
+    if (!name || !user) return;
+
+    let tag = organizationTags.find(existing => existing.name === name);
+    if (!tag) {
+      setIsUpdating(true);
+      const result = await createApplicationTag(organizationId, name, user.id);
+      setIsUpdating(false);
+      if (!result.success || !result.tag) {
+        alert('タグの作成に失敗しました: ' + result.error);
+        return;
+      }
+      const created = result.tag;
+      tag = created;
+      setOrganizationTags(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name, 'ja')));
+    }
+
+    await assignTag(tag);
+    setNewTagName('');
+  };
+
+  const availableTags = organizationTags.filter(tag => !assignedTags.some(assigned => assigned.id === tag.id));
+
+  return (
+    <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl mb-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <Tag className="w-5 h-5 text-slate-600" />
+        <h3 className="text-lg font-semibold text-slate-800">タグ</h3>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {assignedTags.length === 0 && (
+          <p className="text-sm text-slate-500">タグは付いていません</p>
+        )}
+        {assignedTags.map(tag => (
+          <span
+            key={tag.id}
+            className={`flex items-center space-x-1 px-3 py-1 rounded-full text-xs font-medium ${APPLICATION_TAG_COLORS[tag.color] || APPLICATION_TAG_COLORS.slate}`}
+          >
+            <span>{tag.name}</span>
+            <button
+              onClick={() => handleRemove(tag.id)}
+              disabled={isUpdating}
+              className="hover:opacity-70 disabled:opacity-50"
+              aria-label={`${tag.name}を外す`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        {availableTags.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => {
+              const tag = availableTags.find(item => item.id === e.target.value);
+              if (tag) assignTag(tag);
+            }}
+            disabled={isUpdating}
+            className="px-4 py-2 bg-white/50 border border-white/40 rounded-lg text-slate-700 text-sm focus:outline-none focus:ring-2 focus:ring-navy-400"
+          >
+            <option value="">既存のタグを追加...</option>
+            {availableTags.map(tag => (
+              <option key={tag.id} value={tag.id}>{tag.name}</option>
+            ))}
+          </select>
+        )}
+        <input
+          type="text"
+          value={newTagName}
+          onChange={(e) => setNewTagName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAddByName();
+          }}
+          maxLength={30}
+          className="flex-1 px-4 py-2 bg-white/50 border border-white/40 rounded-lg text-slate-700 text-sm placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-navy-400"
+          placeholder="新しいタグ名"
+        />
+        <button
+          onClick={handleAddByName}
+          disabled={isUpdating || !newTagName.trim()}
+          className="flex items-center justify-center space-x-1 px-4 py-2 bg-navy-600 hover:bg-navy-700 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Plus className="w-4 h-4" />
+          <span>追加</span>
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ApplicationTags;
@@ -1,18 +1,25 @@
 import React from 'react';
 import { AlertTriangle, RefreshCw, MessageCircle, Clock, ExternalLink } from 'lucide-react';
+import { APPROVAL_LINK_INVALID_MESSAGES, type ApprovalLinkInvalidReason } from '../lib/approvalLinks';
 
 interface ApprovalLinkExpiredProps {
+  reason?: ApprovalLinkInvalidReason;
   applicationId?: string;
   expiredAt?: string;
+  usedAt?: string | null;
 }
 
-function ApprovalLinkExpired({ applicationId = 'BT-2024-001', expiredAt = '2024-07-20T18:00:00Z' }: ApprovalLinkExpiredProps) {
+function ApprovalLinkExpired({ reason = 'expired', applicationId, expiredAt, usedAt }: ApprovalLinkExpiredProps) {
+  const message = APPROVAL_LINK_INVALID_MESSAGES[reason];
+  // 使用済み・処理済みの申請は新しいリンクを発行しても承認できない
+  const canRequestNewLink = reason === 'expired' || reason === 'revoked' || reason === 'invalid';
+
   const handleRequestNewLink = () => {
-    alert('新しい承認リンクの発行を申請者に依頼しました。');
+    alert('リンクを送信した担当者に、新しい承認リンクの発行を依頼してください。');
   };
 
   const handleContactSupport = () => {
-    window.open('mailto:support@kenjano-seisan.com?subject=承認リンク期限切れについて&body=申請ID: ' + applicationId, '_blank');
+    window.open('mailto:support@kenjano-seisan.com?subject=' + encodeURIComponent(message.title) + '&body=' + encodeURIComponent('申請ID: ' + (applicationId || '不明')), '_blank');
   };
 
   return (
@@ -29,33 +36,37 @@ function ApprovalLinkExpired({ applicationId = 'BT-2024-001', expiredAt = '2024-
                 <AlertTriangle className="w-10 h-10 text-red-600" />
               </div>
               <h1 className="text-3xl lg:text-4xl font-bold text-red-800 mb-4">
-                承認リンクの有効期限が切れています
+                {message.title}
               </h1>
               <p className="text-xl text-slate-700 mb-2">このリンクは既に使用できません</p>
-              <p className="text-slate-600">セキュリティのため、承認リンクには有効期限が設定されています</p>
+              <p className="text-slate-600">{message.description}</p>
             </div>
 
-            {/* 詳細情報 */}
-            <div className="backdrop-blur-xl bg-white/20 rounded-lg p-6 border border-white/30 mb-8">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-left">
-                <div className="flex items-center space-x-3">
-                  <ExternalLink className="w-5 h-5 text-slate-500" />
-                  <div>
-                    <p className="text-sm text-slate-600">申請ID</p>
-                    <p className="font-medium text-slate-800">{applicationId}</p>
-                  </div>
-                </div>
-                <div className="flex items-center space-x-3">
-                  <Clock className="w-5 h-5 text-slate-500" />
-                  <div>
-                    <p className="text-sm text-slate-600">期限切れ日時</p>
-                    <p className="font-medium text-slate-800">
-                      {new Date(expiredAt).toLocaleString('ja-JP')}
-                    </p>
+            {/* 詳細情報（改ざんされたリンクでは申請を特定できないため表示しない） */}
+            {applicationId && (
+              <div className="backdrop-blur-xl bg-white/20 rounded-lg p-6 border border-white/30 mb-8">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-left">
+                  <div className="flex items-center space-x-3">
+                    <ExternalLink className="w-5 h-5 text-slate-500" />
+                    <div>
+                      <p className="text-sm text-slate-600">申請ID</p>
+                      <p className="font-medium text-slate-800">{applicationId}</p>
+                    </div>
                   </div>
+                  {(reason === 'used' ? usedAt : expiredAt) && (
+                    <div className="flex items-center space-x-3">
+                      <Clock className="w-5 h-5 text-slate-500" />
+                      <div>
+                        <p className="text-sm text-slate-600">{reason === 'used' ? '使用日時' : '有効期限'}</p>
+                        <p className="font-medium text-slate-800">
+                          {new Date((reason === 'used' ? usedAt : expiredAt) as string).toLocaleString('ja-JP')}
+                        </p>
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
-            </div>
+            )}
 
             {/* 対処方法 */}
             <div className="backdrop-blur-xl bg-white/20 rounded-lg p-6 border border-white/30 mb-8">
@@ -63,7 +74,7 @@ function ApprovalLinkExpired({ applicationId = 'BT-2024-001', expiredAt = '2024-
               <div className="text-left space-y-3 text-slate-700">
                 <div className="flex items-start space-x-3">
                   <span className="w-6 h-6 bg-navy-600 text-white rounded-full flex items-center justify-center text-sm font-bold flex-shrink-0 mt-0.5">1</span>
-                  <p>申請者に新しい承認リンクの発行を依頼してください</p>
+                  <p>リンクを送信した担当者に新しい承認リンクの発行を依頼してください</p>
                 </div>
                 <div className="flex items-start space-x-3">
                   <span className="w-6 h-6 bg-navy-600 text-white rounded-full flex items-center justify-center text-sm font-bold flex-shrink-0 mt-0.5">2</span>
@@ -78,13 +89,15 @@ function ApprovalLinkExpired({ applicationId = 'BT-2024-001', expiredAt = '2024-
 
             {/* アクションボタン */}
             <div className="flex flex-col sm:flex-row gap-4 justify-center">
-              <button
-                onClick={handleRequestNewLink}
-                className="flex items-center justify-center space-x-2 px-8 py-4 bg-gradient-to-r from-navy-600 to-navy-800 hover:from-navy-700 hover:to-navy-900 text-white rounded-lg font-medium shadow-xl hover:shadow-2xl transition-all duration-200 transform hover:scale-105"
-              >
-                <RefreshCw className="w-5 h-5" />
-                <span>新しいリンクを依頼</span>
-              </button>
+              {canRequestNewLink && (
+                <button
+                  onClick={handleRequestNewLink}
+                  className="flex items-center justify-center space-x-2 px-8 py-4 bg-gradient-to-r from-navy-600 to-navy-800 hover:from-navy-700 hover:to-navy-900 text-white rounded-lg font-medium shadow-xl hover:shadow-2xl transition-all duration-200 transform hover:scale-105"
+                >
+                  <RefreshCw className="w-5 h-5" />
+                  <span>新しいリンクを依頼</span>
+                </button>
+              )}
               
               <button
                 onClick={handleContactSupport}
@@ -99,7 +112,7 @@ function ApprovalLinkExpired({ applicationId = 'BT-2024-001', expiredAt = '2024-
             <div className="mt-8 text-slate-600 text-sm">
               <p className="mb-2">
                 <strong>セキュリティについて：</strong>
-                承認リンクは発行から24時間で自動的に無効になります。
+                承認リンクは発行時に設定された有効期限を過ぎると自動的に無効になり、一度使用すると再利用できません。
               </p>
               <p>
                 これは不正アクセスを防ぎ、お客様の情報を保護するための仕組みです。
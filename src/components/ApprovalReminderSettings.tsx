@@ -1,66 +1,125 @@
-import React, { useState } from 'react';
-import { ArrowLeft, Clock, Bell, Settings, Save, AlertTriangle } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { ArrowLeft, Clock, Bell, Settings, Save, AlertTriangle, Play, CalendarOff, Plus, X, History } from 'lucide-react';
 import Sidebar from './Sidebar';
 import TopBar from './TopBar';
+import { useAuth } from '../hooks/useAuth';
+import {
+  getNotificationRetentionDays,
+  getOrganizationClosures,
+  getReminderRules,
+  getReminderSettings,
+  runApprovalReminders,
+  saveNotificationRetentionDays,
+  saveOrganizationClosures,
+  saveReminderConfiguration
+} from '../lib/supabase';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  normalizeReminderSettings,
+  REMINDER_TARGET_ROLES,
+  toReminderRuleForm,
+  type ReminderNotificationMethod,
+  type ReminderRuleForm as ReminderRule,
+  type ReminderSettings
+} from '../lib/approvalReminders';
+import {
+  getUpcomingHolidays,
+  isValidOrganizationClosure,
+  normalizeOrganizationClosures,
+  ORGANIZATION_CLOSURE_PRESETS,
+  type OrganizationClosure
+} from '../lib/holidays';
+import {
+  DEFAULT_NOTIFICATION_RETENTION_DAYS,
+  normalizeNotificationRetentionDays,
+  NOTIFICATION_RETENTION_OPTIONS
+} from '../lib/notificationHistory';
 
 interface ApprovalReminderSettingsProps {
   onNavigate: (view: string) => void;
 }
 
-interface ReminderRule {
-  id: string;
-  name: string;
-  enabled: boolean;
-  triggerDays: number;
-  repeatInterval: number; // 0 = no repeat, 1 = daily, 7 = weekly
-  targetRoles: string[];
-  notificationMethods: ('email' | 'push')[];
-  customMessage: string;
-}
+const DEMO_REMINDER_RULES: ReminderRule[] = [
+  {
+    id: '1',
+    name: '承認待ち1週間リマインド',
+    enabled: true,
+    triggerDays: 7,
+    repeatInterval: 0,
+    targetRoles: ['部長', '取締役'],
+    notificationMethods: ['email', 'push'],
+    customMessage: '承認待ちの申請があります。ご確認をお願いいたします。',
+    escalate: false
+  },
+  {
+    id: '2',
+    name: '承認待ち2週間エスカレーション',
+    enabled: true,
+    triggerDays: 14,
+    repeatInterval: 0,
+    targetRoles: ['取締役', '管理者'],
+    notificationMethods: ['email'],
+    customMessage: '長期間承認待ちの申請があります。至急ご対応をお願いいたします。',
+    escalate: true
+  },
+  {
+    id: '3',
+    name: '毎日の承認待ちサマリー',
+    enabled: false,
+    triggerDays: 1,
+    repeatInterval: 1,
+    targetRoles: ['部長'],
+    notificationMethods: ['email'],
+    customMessage: '本日の承認待ち申請の一覧をお送りします。',
+    escalate: false
+  }
+];
 
 function ApprovalReminderSettings({ onNavigate }: ApprovalReminderSettingsProps) {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
-  const [reminderRules, setReminderRules] = useState<ReminderRule[]>([
-    {
-      id: '1',
-      name: '承認待ち1週間リマインド',
-      enabled: true,
-      triggerDays: 7,
-      repeatInterval: 0,
-      targetRoles: ['部長', '取締役'],
-      notificationMethods: ['email', 'push'],
-      customMessage: '承認待ちの申請があります。ご確認をお願いいたします。'
-    },
-    {
-      id: '2',
-      name: '承認待ち2週間エスカレーション',
-      enabled: true,
-      triggerDays: 14,
-      repeatInterval: 0,
-      targetRoles: ['取締役', '管理者'],
-      notificationMethods: ['email'],
-      customMessage: '長期間承認待ちの申請があります。至急ご対応をお願いいたします。'
-    },
-    {
-      id: '3',
-      name: '毎日の承認待ちサマリー',
-      enabled: false,
-      triggerDays: 1,
-      repeatInterval: 1,
-      targetRoles: ['部長'],
-      notificationMethods: ['email'],
-      customMessage: '本日の承認待ち申請の一覧をお送りします。'
-    }
-  ]);
+  const { profile } = useAuth();
+  const organizationId = profile?.default_organization_id || null;
+  const isDemoMode = localStorage.getItem('demoMode') === 'true';
+  const [reminderRules, setReminderRules] = useState<ReminderRule[]>(isDemoMode ? DEMO_REMINDER_RULES : []);
+  const [globalSettings, setGlobalSettings] = useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS);
+  const [closures, setClosures] = useState<OrganizationClosure[]>(
+    isDemoMode ? ORGANIZATION_CLOSURE_PRESETS.map((closure, index) => ({ ...closure, id: `preset-${index}` })) : []
+  );
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_NOTIFICATION_RETENTION_DAYS);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
 
-  const [globalSettings, setGlobalSettings] = useState({
-    enabled: true,
-    businessHoursOnly: true,
-    startTime: '09:00',
-    endTime: '18:00',
-    excludeWeekends: true,
-    excludeHolidays: true
-  });
+  // ルールと全体設定を読み込む（デモモードはローカルストレージに保存する）
+  useEffect(() => {
+    const loadConfiguration = async () => {
+      if (isDemoMode) {
+        const savedRules = localStorage.getItem('approvalReminderRules');
+        const savedSettings = localStorage.getItem('approvalReminderGlobalSettings');
+        if (savedRules) {
+          setReminderRules((JSON.parse(savedRules) as ReminderRule[]).map(rule => ({ ...rule, escalate: !!rule.escalate })));
+        }
+        if (savedSettings) setGlobalSettings(normalizeReminderSettings(JSON.parse(savedSettings)));
+        const savedClosures = localStorage.getItem('organizationClosures');
+        if (savedClosures) setClosures(normalizeOrganizationClosures(JSON.parse(savedClosures)));
+        const savedRetention = localStorage.getItem('notificationRetentionDays');
+        if (savedRetention) setRetentionDays(normalizeNotificationRetentionDays(JSON.parse(savedRetention)));
+        return;
+      }
+      if (organizationId) {
+        const [settings, rules, organizationClosures, notificationRetention] = await Promise.all([
+          getReminderSettings(organizationId),
+          getReminderRules(organizationId),
+          getOrganizationClosures(organizationId),
+          getNotificationRetentionDays(organizationId)
+        ]);
+        setGlobalSettings(settings);
+        setReminderRules(rules.map(toReminderRuleForm));
+        setClosures(organizationClosures);
+        setRetentionDays(notificationRetention);
+      }
+    };
+    loadConfiguration();
+  }, [organizationId, isDemoMode]);
 
   const toggleSidebar = () => {
     setIsSidebarOpen(!isSidebarOpen);
@@ -74,14 +133,15 @@ function ApprovalReminderSettings({ onNavigate }: ApprovalReminderSettingsProps)
 
   const addReminderRule = () => {
     const newRule: ReminderRule = {
-      id: Date.now().toString(),
+      id: isDemoMode ? Date.now().toString() : crypto.randomUUID(),
       name: '新しいリマインドルール',
       enabled: false,
       triggerDays: 7,
       repeatInterval: 0,
       targetRoles: ['部長'],
       notificationMethods: ['email'],
-      customMessage: ''
+      customMessage: '',
+      escalate: false
     };
     setReminderRules(prev => [...prev, newRule]);
   };
@@ -92,13 +152,78 @@ function ApprovalReminderSettings({ onNavigate }: ApprovalReminderSettingsProps)
     }
   };
 
-  const handleSave = () => {
-    // 設定を保存
-    localStorage.setItem('approvalReminderRules', JSON.stringify(reminderRules));
-    localStorage.setItem('approvalReminderGlobalSettings', JSON.stringify(globalSettings));
+  // 直近の祝日・休業日（通知しない日の確認用）
+  const upcomingHolidays = useMemo(() => getUpcomingHolidays(new Date(), 8, closures), [closures]);
+
+  const updateClosure = (id: string, updates: Partial<OrganizationClosure>) => {
+    setClosures(prev => prev.map(closure => closure.id === id ? { ...closure, ...updates } : closure));
+  };
+
+  // 毎年繰り返すかどうかを切り替えたときは日付の形式（MM-DD / YYYY-MM-DD）も合わせる
+  const toggleClosureRecurring = (closure: OrganizationClosure, recurring: boolean) => {
+    const year = new Date().getFullYear();
+    const convert = (date: string) => recurring ? date.slice(-5) : `${year}-${date.slice(-5)}`;
+    updateClosure(closure.id, {
+      recurring,
+      startDate: convert(closure.startDate),
+      endDate: convert(closure.endDate)
+    });
+  };
+
+  const addClosure = (closure: Omit<OrganizationClosure, 'id'>) => {
+    setClosures(prev => [...prev, { ...closure, id: Date.now().toString() }]);
+  };
+
+  const handleSave = async () => {
+    const invalidClosure = closures.find(closure => !isValidOrganizationClosure(closure));
+    if (invalidClosure) {
+      alert(`休業日「${invalidClosure.name || '名称未設定'}」の名称または日付が正しくありません`);
+      return;
+    }
+
+    if (isDemoMode) {
+      localStorage.setItem('approvalReminderRules', JSON.stringify(reminderRules));
+      localStorage.setItem('approvalReminderGlobalSettings', JSON.stringify(globalSettings));
+      localStorage.setItem('organizationClosures', JSON.stringify(closures));
+      localStorage.setItem('notificationRetentionDays', JSON.stringify(retentionDays));
+      alert('リマインド設定を保存しました');
+      return;
+    }
+    if (!organizationId) {
+      alert('組織が設定されていないため保存できません');
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await saveReminderConfiguration(organizationId, globalSettings, reminderRules);
+    const closureResult = result.success ? await saveOrganizationClosures(organizationId, closures) : result;
+    const retentionResult = closureResult.success ? await saveNotificationRetentionDays(organizationId, retentionDays) : closureResult;
+    setIsSaving(false);
+    if (!retentionResult.success) {
+      alert(`リマインド設定の保存に失敗しました: ${retentionResult.error}`);
+      return;
+    }
     alert('リマインド設定を保存しました');
   };
 
+  // 保存済みの設定で今すぐリマインドを評価する
+  const handleRunNow = async () => {
+    if (isDemoMode) {
+      alert('デモモードではリマインドは送信されません');
+      return;
+    }
+    if (!organizationId) return;
+
+    setIsRunning(true);
+    const result = await runApprovalReminders(organizationId);
+    setIsRunning(false);
+    if (!result.success || !result.result) {
+      alert(`リマインドの実行に失敗しました: ${result.error}`);
+      return;
+    }
+    alert(`${result.result.applications}件の申請について${result.result.notifications}件の通知（メール${result.result.emails}件）を送信しました`);
+  };
+
   const getRepeatIntervalLabel = (interval: number) => {
     switch (interval) {
       case 0: return 'なし';
@@ -146,13 +271,24 @@ function ApprovalReminderSettings({ onNavigate }: ApprovalReminderSettingsProps)
                   </button>
                   <h1 className="text-2xl lg:text-3xl font-bold text-slate-800">承認リマインド設定</h1>
                 </div>
-                <button
-                  onClick={handleSave}
-                  className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-emerald-600 to-emerald-800 text-white rounded-lg font-medium hover:from-emerald-700 hover:to-emerald-900 transition-all duration-200"
-                >
-                  <Save className="w-4 h-4" />
-                  <span>設定を保存</span>
-                </button>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={handleRunNow}
+                    disabled={isRunning}
+                    className="flex items-center space-x-2 px-4 py-2 bg-white/50 hover:bg-white/70 text-slate-700 rounded-lg font-medium border border-white/40 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Play className="w-4 h-4" />
+                    <span>{isRunning ? '実行中...' : '今すぐ実行'}</span>
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    disabled={isSaving}
+                    className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-emerald-600 to-emerald-800 text-white rounded-lg font-medium hover:from-emerald-700 hover:to-emerald-900 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Save className="w-4 h-4" />
+                    <span>{isSaving ? '保存中...' : '設定を保存'}</span>
+                  </button>
+                </div>
               </div>
 
               {/* 全体設定 */}
@@ -162,7 +298,7 @@ function ApprovalReminderSettings({ onNavigate }: ApprovalReminderSettingsProps)
                   全体設定
                 </h2>
                 
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
                   <div className="flex items-center justify-between p-4 bg-white/30 rounded-lg">
                     <div>
                       <h3 className="font-medium text-slate-800">リマインド機能</h3>
@@ -197,8 +333,8 @@ function ApprovalReminderSettings({ onNavigate }: ApprovalReminderSettingsProps)
 
                   <div className="flex items-center justify-between p-4 bg-white/30 rounded-lg">
                     <div>
-                      <h3 className="font-medium text-slate-800">土日祝日除外</h3>
-                      <p className="text-sm text-slate-600">休日は通知を送信しない</p>
+                      <h3 className="font-medium text-slate-800">土日除外</h3>
+                      <p className="text-sm text-slate-600">土日は通知せず、日数に含めない</p>
                     </div>
                     <label className="relative inline-flex items-center cursor-pointer">
                       <input
@@ -210,6 +346,22 @@ function ApprovalReminderSettings({ onNavigate }: ApprovalReminderSettingsProps)
                       <div className="w-11 h-6 bg-slate-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-navy-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-navy-600"></div>
                     </label>
                   </div>
+
+                  <div className="flex items-center justify-between p-4 bg-white/30 rounded-lg">
+                    <div>
+                      <h3 className="font-medium text-slate-800">祝日除外</h3>
+                      <p className="text-sm text-slate-600">祝日・振替休日は通知せず、日数に含めない</p>
+                    </div>
+                    <label className="relative inline-flex items-center cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={globalSettings.excludeHolidays}
+                        onChange={(e) => setGlobalSettings(prev => ({ ...prev, excludeHolidays: e.target.checked }))}
+                        className="sr-only peer"
+                      />
+                      <div className="w-11 h-6 bg-slate-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-navy-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-navy-600"></div>
+                    </label>
+                  </div>
                 </div>
 
                 {globalSettings.businessHoursOnly && (
@@ -236,6 +388,126 @@ function ApprovalReminderSettings({ onNavigate }: ApprovalReminderSettingsProps)
                 )}
               </div>
 
+              {/* 通知履歴の保存期間 */}
+              <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl mb-6">
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                  <div>
+                    <h2 className="text-xl font-semibold text-slate-800 flex items-center">
+                      <History className="w-5 h-5 mr-2" />
+                      通知履歴の保存期間
+                    </h2>
+                    <p className="text-sm text-slate-600 mt-1">保存期間を過ぎた通知は、既読・未読にかかわらず毎日自動で削除されます</p>
+                  </div>
+                  <select
+                    value={retentionDays}
+                    onChange={(e) => setRetentionDays(Number(e.target.value))}
+                    className="px-4 py-2 bg-white/50 border border-white/40 rounded-lg text-slate-700 focus:outline-none focus:ring-2 focus:ring-navy-400 backdrop-blur-xl"
+                  >
+                    {NOTIFICATION_RETENTION_OPTIONS.map(option => (
+                      <option key={option.days} value={option.days}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {/* 休業日 */}
+              <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl mb-6">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+                  <div>
+                    <h2 className="text-xl font-semibold text-slate-800 flex items-center">
+                      <CalendarOff className="w-5 h-5 mr-2" />
+                      会社休業日
+                    </h2>
+                    <p className="text-sm text-slate-600 mt-1">祝日除外が有効な場合、休業日も通知せず日数に含めません</p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {ORGANIZATION_CLOSURE_PRESETS
+                      .filter(preset => !closures.some(closure => closure.name === preset.name))
+                      .map(preset => (
+                        <button
+                          key={preset.name}
+                          onClick={() => addClosure(preset)}
+                          className="px-3 py-2 bg-white/50 hover:bg-white/70 text-slate-700 rounded-lg text-sm border border-white/40 transition-colors"
+                        >
+                          {preset.name}を追加
+                        </button>
+                      ))}
+                    <button
+                      onClick={() => addClosure({ name: '', startDate: '', endDate: '', recurring: false })}
+                      className="flex items-center space-x-1 px-3 py-2 bg-navy-600 hover:bg-navy-700 text-white rounded-lg text-sm font-medium transition-colors"
+                    >
+                      <Plus className="w-4 h-4" />
+                      <span>休業日を追加</span>
+                    </button>
+                  </div>
+                </div>
+
+                {closures.length === 0 ? (
+                  <p className="text-sm text-slate-500 mb-4">休業日は登録されていません</p>
+                ) : (
+                  <div className="space-y-3 mb-4">
+                    {closures.map(closure => (
+                      <div key={closure.id} className="flex flex-col md:flex-row md:items-center gap-2 p-3 bg-white/30 rounded-lg">
+                        <input
+                          type="text"
+                          value={closure.name}
+                          onChange={(e) => updateClosure(closure.id, { name: e.target.value })}
+                          placeholder="名称（例: 創立記念日）"
+                          className="flex-1 px-3 py-2 bg-white/50 border border-white/40 rounded-lg text-slate-700 text-sm focus:outline-none focus:ring-2 focus:ring-navy-400"
+                        />
+                        <div className="flex items-center gap-2">
+                          <input
+                            type={closure.recurring ? 'text' : 'date'}
+                            value={closure.startDate}
+                            onChange={(e) => updateClosure(closure.id, { startDate: e.target.value })}
+                            placeholder="12-29"
+                            className="w-36 px-3 py-2 bg-white/50 border border-white/40 rounded-lg text-slate-700 text-sm focus:outline-none focus:ring-2 focus:ring-navy-400"
+                          />
+                          <span className="text-slate-500">〜</span>
+                          <input
+                            type={closure.recurring ? 'text' : 'date'}
+                            value={closure.endDate}
+                            onChange={(e) => updateClosure(closure.id, { endDate: e.target.value })}
+                            placeholder="01-03"
+                            className="w-36 px-3 py-2 bg-white/50 border border-white/40 rounded-lg text-slate-700 text-sm focus:outline-none focus:ring-2 focus:ring-navy-400"
+                          />
+                        </div>
+                        <label className="flex items-center text-sm text-slate-700 whitespace-nowrap">
+                          <input
+                            type="checkbox"
+                            checked={closure.recurring}
+                            onChange={(e) => toggleClosureRecurring(closure, e.target.checked)}
+                            className="mr-2"
+                          />
+                          毎年（月-日）
+                        </label>
+                        <button
+                          onClick={() => setClosures(prev => prev.filter(item => item.id !== closure.id))}
+                          className="text-red-500 hover:text-red-700 p-2"
+                          aria-label="休業日を削除"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div>
+                  <h3 className="text-sm font-medium text-slate-700 mb-2">今後の祝日・休業日</h3>
+                  <div className="flex flex-wrap gap-2">
+                    {upcomingHolidays.map(holiday => (
+                      <span
+                        key={`${holiday.date}-${holiday.name}`}
+                        className={`px-3 py-1 rounded-full text-xs font-medium ${holiday.type === 'organization' ? 'text-amber-700 bg-amber-100' : 'text-red-700 bg-red-100'}`}
+                      >
+                        {holiday.date.slice(5).replace('-', '/')} {holiday.name}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
               {/* リマインドルール */}
               <div className="backdrop-blur-xl bg-white/20 rounded-xl border border-white/30 shadow-xl">
                 <div className="p-6 border-b border-white/30">
@@ -322,10 +594,9 @@ function ApprovalReminderSettings({ onNavigate }: ApprovalReminderSettingsProps)
                             })}
                             className="w-full px-3 py-2 bg-white/50 border border-white/40 rounded-lg text-slate-700 focus:outline-none focus:ring-2 focus:ring-navy-400 backdrop-blur-xl"
                           >
-                            <option value="部長">部長</option>
-                            <option value="取締役">取締役</option>
-                            <option value="管理者">管理者</option>
-                            <option value="経理">経理</option>
+                            {REMINDER_TARGET_ROLES.map(role => (
+                              <option key={role} value={role}>{role}</option>
+                            ))}
                           </select>
                         </div>
 
@@ -340,7 +611,7 @@ function ApprovalReminderSettings({ onNavigate }: ApprovalReminderSettingsProps)
                                   const methods = e.target.checked 
                                     ? [...rule.notificationMethods, 'email']
                                     : rule.notificationMethods.filter(m => m !== 'email');
-                                  updateReminderRule(rule.id, { notificationMethods: methods as ('email' | 'push')[] });
+                                  updateReminderRule(rule.id, { notificationMethods: methods as ReminderNotificationMethod[] });
                                 }}
                                 className="mr-2"
                               />
@@ -354,7 +625,7 @@ function ApprovalReminderSettings({ onNavigate }: ApprovalReminderSettingsProps)
                                   const methods = e.target.checked 
                                     ? [...rule.notificationMethods, 'push']
                                     : rule.notificationMethods.filter(m => m !== 'push');
-                                  updateReminderRule(rule.id, { notificationMethods: methods as ('email' | 'push')[] });
+                                  updateReminderRule(rule.id, { notificationMethods: methods as ReminderNotificationMethod[] });
                                 }}
                                 className="mr-2"
                               />
@@ -364,6 +635,16 @@ function ApprovalReminderSettings({ onNavigate }: ApprovalReminderSettingsProps)
                         </div>
                       </div>
 
+                      <label className="flex items-center mb-4">
+                        <input
+                          type="checkbox"
+                          checked={rule.escalate}
+                          onChange={(e) => updateReminderRule(rule.id, { escalate: e.target.checked })}
+                          className="mr-2"
+                        />
+                        <span className="text-sm text-slate-700">エスカレーション（一つ上の役職、該当がなければ組織の管理者にも通知）</span>
+                      </label>
+
                       <div>
                         <label className="block text-sm font-medium text-slate-700 mb-2">カスタムメッセージ</label>
                         <textarea
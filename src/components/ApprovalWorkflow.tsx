@@ -1,6 +1,24 @@
 import React, { useState, useEffect } from 'react';
-import { CheckCircle, XCircle, ArrowLeft, MessageSquare, Clock, User, Calendar, FileText } from 'lucide-react';
+import { CheckCircle, XCircle, ArrowLeft, MessageSquare, Clock, User, Calendar, FileText, GitBranch, RotateCcw, Link, Copy } from 'lucide-react';
 import { useApplications } from '../hooks/useApplications';
+import ApplicationTags from './ApplicationTags';
+import { createApprovalLink, getApplicationById, getApplicationApprovals, getApprovalLinks, getApprovalRoutes, revokeApprovalLink } from '../lib/supabase';
+import {
+  APPROVAL_LINK_EXPIRY_OPTIONS,
+  DEFAULT_APPROVAL_LINK_EXPIRY_HOURS,
+  buildApprovalLinkUrl,
+  isApprovalLinkActive,
+  type ApprovalLinkSummary
+} from '../lib/approvalLinks';
+import {
+  ApprovalStepProgress,
+  ApprovalStepDefinition,
+  DEFAULT_APPROVAL_ROUTE,
+  buildApprovalProgress,
+  describeApprover,
+  resolveApprovalSteps,
+  selectApprovalRoute
+} from '../lib/approvalRoutes';
 
 interface ApprovalWorkflowProps {
   applicationId: string;
@@ -17,6 +35,9 @@ interface ApplicationDetail {
   status: string;
   created_at: string;
   submitted_at: string | null;
+  organization_id?: string | null;
+  approval_steps?: ApprovalStepDefinition[] | null;
+  current_step?: number | null;
   user_profiles?: {
     full_name: string;
     department: string;
@@ -43,8 +64,14 @@ interface ApplicationDetail {
 function ApprovalWorkflow({ applicationId, onComplete, onCancel }: ApprovalWorkflowProps) {
   const { handleApproval, loading } = useApplications();
   const [application, setApplication] = useState<ApplicationDetail | null>(null);
+  const [approvalSteps, setApprovalSteps] = useState<ApprovalStepProgress[]>([]);
   const [comment, setComment] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [externalApprover, setExternalApprover] = useState({ name: '', email: '' });
+  const [linkExpiryHours, setLinkExpiryHours] = useState(DEFAULT_APPROVAL_LINK_EXPIRY_HOURS);
+  const [issuedLink, setIssuedLink] = useState<{ url: string; expiresAt: string; step: number } | null>(null);
+  const [isIssuingLink, setIsIssuingLink] = useState(false);
+  const [activeLinks, setActiveLinks] = useState<ApprovalLinkSummary[]>([]);
 
   useEffect(() => {
     fetchApplicationDetail();
@@ -52,8 +79,28 @@ function ApprovalWorkflow({ applicationId, onComplete, onCancel }: ApprovalWorkf
 
   const fetchApplicationDetail = async () => {
     try {
-      // 実際の実装では、useApplicationsフックまたは直接Supabaseクエリを使用
-      // ここではサンプルデータを使用
+      if (localStorage.getItem('demoMode') !== 'true') {
+        const data = await getApplicationById(applicationId);
+        if (data) {
+          const detail = data as unknown as ApplicationDetail;
+          const approvals = await getApplicationApprovals(applicationId);
+
+          // 承認ルートが未割り当ての場合は、割り当て予定のルートを表示する
+          let steps = (detail.approval_steps || []).map((step, index) => ({ ...step, step: index + 1 }));
+          if (steps.length === 0) {
+            const routes = detail.organization_id ? await getApprovalRoutes(detail.organization_id) : [];
+            const route = selectApprovalRoute(routes, detail.type) || DEFAULT_APPROVAL_ROUTE;
+            steps = resolveApprovalSteps(route, detail.total_amount);
+          }
+
+          setApplication(detail);
+          setApprovalSteps(buildApprovalProgress(steps, approvals, detail.current_step || 1, detail.status));
+          await fetchActiveLinks();
+          return;
+        }
+      }
+
+      // デモモードではサンプルデータを使用
       const sampleApplication: ApplicationDetail = {
         id: applicationId,
         type: 'business_trip',
@@ -80,11 +127,22 @@ function ApprovalWorkflow({ applicationId, onComplete, onCancel }: ApprovalWorkf
       };
       
       setApplication(sampleApplication);
+      setApprovalSteps(buildApprovalProgress(
+        resolveApprovalSteps(DEFAULT_APPROVAL_ROUTE, sampleApplication.total_amount),
+        [],
+        1,
+        sampleApplication.status
+      ));
     } catch (error) {
       console.error('Failed to fetch application detail:', error);
     }
   };
 
+  const fetchActiveLinks = async () => {
+    const links = await getApprovalLinks(applicationId);
+    setActiveLinks(links.filter(link => isApprovalLinkActive(link)));
+  };
+
   const handleAction = async (action: 'approved' | 'returned' | 'rejected') => {
     if (action !== 'approved' && !comment.trim()) {
       alert('コメントを入力してください。');
@@ -97,7 +155,13 @@ function ApprovalWorkflow({ applicationId, onComplete, onCancel }: ApprovalWorkf
       const result = await handleApproval(applicationId, action, comment);
       
       if (result.success) {
-        alert(`申請を${action === 'approved' ? '承認' : action === 'returned' ? '差戻し' : '否認'}しました。`);
+        const nextStep = result.result?.status === 'pending'
+          ? approvalSteps.find(step => step.step === (result.result?.step || 0) + 1)
+          : undefined;
+        alert(
+          `申請を${action === 'approved' ? '承認' : action === 'returned' ? '差戻し' : '否認'}しました。` +
+          (nextStep ? `\n次の承認ステップ: ${nextStep.name}` : '')
+        );
         onComplete();
       } else {
         alert('処理に失敗しました: ' + result.error);
@@ -110,6 +174,85 @@ function ApprovalWorkflow({ applicationId, onComplete, onCancel }: ApprovalWorkf
     }
   };
 
+  // アカウントを持たない承認者向けに、現在のステップ専用の1回限りのリンクを発行する
+  const handleIssueLink = async () => {
+    if (!externalApprover.name.trim()) {
+      alert('承認者名を入力してください。');
+      return;
+    }
+    if (localStorage.getItem('demoMode') === 'true') {
+      alert('デモモードでは外部承認リンクを発行できません。');
+      return;
+    }
+
+    setIsIssuingLink(true);
+    const result = await createApprovalLink(
+      applicationId,
+      { name: externalApprover.name.trim(), email: externalApprover.email.trim() },
+      linkExpiryHours
+    );
+    setIsIssuingLink(false);
+
+    if (!result.success || !result.link) {
+      alert('リンクの発行に失敗しました: ' + result.error);
+      return;
+    }
+    setIssuedLink({ url: buildApprovalLinkUrl(result.link.token), expiresAt: result.link.expires_at, step: result.link.step });
+    await fetchActiveLinks();
+  };
+
+  // 誤送信したリンクや不要になったリンクを使えないようにする
+  const handleRevokeLink = async (link: ApprovalLinkSummary) => {
+    if (!confirm(`${link.approver_name}さん宛ての承認リンクを取り消しますか？`)) return;
+
+    const result = await revokeApprovalLink(link.id);
+    if (!result.success) {
+      alert('リンクの取り消しに失敗しました: ' + result.error);
+      return;
+    }
+    await fetchActiveLinks();
+  };
+
+  const handleCopyLink = async () => {
+    if (!issuedLink) return;
+    try {
+      await navigator.clipboard.writeText(issuedLink.url);
+      alert('承認リンクをコピーしました。');
+    } catch (error) {
+      console.error('Failed to copy approval link:', error);
+    }
+  };
+
+  const getStepIcon = (step: ApprovalStepProgress) => {
+    switch (step.state) {
+      case 'completed':
+        return <CheckCircle className="w-5 h-5 text-emerald-600" />;
+      case 'current':
+        return <Clock className="w-5 h-5 text-amber-600" />;
+      case 'rejected':
+        return <XCircle className="w-5 h-5 text-red-600" />;
+      case 'returned':
+        return <RotateCcw className="w-5 h-5 text-amber-600" />;
+      default:
+        return <FileText className="w-5 h-5 text-slate-400" />;
+    }
+  };
+
+  const getStepBadge = (step: ApprovalStepProgress) => {
+    switch (step.state) {
+      case 'completed':
+        return { label: '承認済み', className: 'text-emerald-700 bg-emerald-100' };
+      case 'current':
+        return { label: '承認待ち', className: 'text-amber-700 bg-amber-100' };
+      case 'rejected':
+        return { label: '否認', className: 'text-red-700 bg-red-100' };
+      case 'returned':
+        return { label: '差戻し', className: 'text-amber-700 bg-amber-100' };
+      default:
+        return { label: '未着手', className: 'text-slate-600 bg-slate-100' };
+    }
+  };
+
   if (!application) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -246,6 +389,145 @@ function ApprovalWorkflow({ applicationId, onComplete, onCancel }: ApprovalWorkf
         )}
       </div>
 
+      {/* 承認ルート */}
+      {approvalSteps.length > 0 && (
+        <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl mb-6">
+          <div className="flex items-center space-x-2 mb-4">
+            <GitBranch className="w-5 h-5 text-slate-600" />
+            <h3 className="text-lg font-semibold text-slate-800">承認ルート</h3>
+          </div>
+          <div className="space-y-4">
+            {approvalSteps.map((step) => (
+              <div key={step.step} className="flex items-start space-x-4">
+                <div className="flex-shrink-0 mt-1">{getStepIcon(step)}</div>
+                <div className="flex-1">
+                  <div className="flex items-center justify-between">
+                    <p className="font-medium text-slate-800">
+                      {step.step}. {step.name}
+                    </p>
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStepBadge(step).className}`}>
+                      {getStepBadge(step).label}
+                    </span>
+                  </div>
+                  <p className="text-xs text-slate-500">{describeApprover(step)}</p>
+                  {step.records.map((record) => (
+                    <div key={record.id} className="mt-2 bg-white/30 rounded-lg p-3">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="font-medium text-slate-700">
+                          {record.approver_name || '承認者'}：
+                          {record.status === 'approved' ? '承認' : record.status === 'returned' ? '差戻し' : record.status === 'rejected' ? '否認' : '保留'}
+                        </span>
+                        <span className="text-xs text-slate-500">
+                          {new Date(record.approved_at || record.created_at).toLocaleString('ja-JP')}
+                        </span>
+                      </div>
+                      {record.comment && (
+                        <p className="text-sm text-slate-600 mt-1">{record.comment}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* タグ */}
+      {application.organization_id && localStorage.getItem('demoMode') !== 'true' && (
+        <ApplicationTags applicationId={application.id} organizationId={application.organization_id} />
+      )}
+
+      {/* 外部承認リンク */}
+      {application.status === 'pending' && (
+        <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl mb-6">
+          <div className="flex items-center space-x-2 mb-2">
+            <Link className="w-5 h-5 text-slate-600" />
+            <h3 className="text-lg font-semibold text-slate-800">外部承認リンク</h3>
+          </div>
+          <p className="text-sm text-slate-600 mb-4">
+            アカウントを持たない承認者に、現在の承認ステップ
+            {approvalSteps.find(step => step.state === 'current') && `（${approvalSteps.find(step => step.state === 'current')?.name}）`}
+            だけを承認できる1回限りのリンクを発行します。発行できるのは現在のステップの承認者のみです。
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            <input
+              type="text"
+              value={externalApprover.name}
+              onChange={(e) => setExternalApprover(prev => ({ ...prev, name: e.target.value }))}
+              className="px-4 py-2 bg-white/50 border border-white/40 rounded-lg text-slate-700 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-navy-400"
+              placeholder="承認者名"
+            />
+            <input
+              type="email"
+              value={externalApprover.email}
+              onChange={(e) => setExternalApprover(prev => ({ ...prev, email: e.target.value }))}
+              className="px-4 py-2 bg-white/50 border border-white/40 rounded-lg text-slate-700 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-navy-400"
+              placeholder="メールアドレス（任意）"
+            />
+            <select
+              value={linkExpiryHours}
+              onChange={(e) => setLinkExpiryHours(Number(e.target.value))}
+              className="px-4 py-2 bg-white/50 border border-white/40 rounded-lg text-slate-700 focus:outline-none focus:ring-2 focus:ring-navy-400"
+            >
+              {APPROVAL_LINK_EXPIRY_OPTIONS.map(option => (
+                <option key={option.hours} value={option.hours}>有効期限：{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={handleIssueLink}
+            disabled={isIssuingLink}
+            className="flex items-center space-x-2 px-4 py-2 bg-navy-600 hover:bg-navy-700 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Link className="w-4 h-4" />
+            <span>{isIssuingLink ? '発行中...' : 'リンクを発行'}</span>
+          </button>
+          {issuedLink && (
+            <div className="mt-4 bg-white/30 rounded-lg p-4">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={issuedLink.url}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 px-3 py-2 bg-white/60 border border-white/40 rounded-lg text-xs text-slate-700"
+                />
+                <button
+                  onClick={handleCopyLink}
+                  className="flex items-center space-x-1 px-3 py-2 bg-white/50 hover:bg-white/70 text-slate-700 rounded-lg text-sm transition-colors"
+                >
+                  <Copy className="w-4 h-4" />
+                  <span>コピー</span>
+                </button>
+              </div>
+              <p className="text-xs text-slate-500 mt-2">
+                ステップ{issuedLink.step}専用・有効期限 {new Date(issuedLink.expiresAt).toLocaleString('ja-JP')}。このリンクは再表示できないため、承認者に直接送付してください。
+              </p>
+            </div>
+          )}
+          {activeLinks.length > 0 && (
+            <div className="mt-4 space-y-2">
+              <p className="text-sm font-medium text-slate-700">有効なリンク</p>
+              {activeLinks.map(link => (
+                <div key={link.id} className="flex items-center justify-between bg-white/30 rounded-lg px-4 py-2 text-sm">
+                  <span className="text-slate-700">
+                    {link.approver_name}{link.approver_email ? `（${link.approver_email}）` : ''}・ステップ{link.step}・有効期限 {new Date(link.expires_at).toLocaleString('ja-JP')}
+                  </span>
+                  <button
+                    onClick={() => handleRevokeLink(link)}
+                    className="flex items-center space-x-1 px-3 py-1 bg-white/50 hover:bg-white/70 text-red-700 rounded-lg text-xs transition-colors"
+                  >
+                    <XCircle className="w-4 h-4" />
+                    <span>取り消す</span>
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* コメント入力 */}
       <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl mb-6">
         <div className="flex items-center space-x-2 mb-4">
@@ -7,11 +7,20 @@ import RegisterSuccess from './auth/RegisterSuccess'
 import EmailConfirmed from './auth/EmailConfirmed'
 import Onboarding from './auth/Onboarding'
 import Dashboard from './Dashboard'
+import ExternalApproval from './ExternalApproval'
+import { getApprovalTokenFromUrl } from '../lib/approvalLinks'
+import { capturePendingInvitation } from '../lib/organizations'
 
 export function AuthWrapper() {
   const { user, profile, loading, error } = useAuth()
   const [currentView, setCurrentView] = useState<string>('login')
   const [isInitialized, setIsInitialized] = useState(false)
+  const [approvalToken] = useState(() => getApprovalTokenFromUrl())
+
+  // 組織への招待リンクはログイン・登録後に確認するため保存しておく
+  useEffect(() => {
+    capturePendingInvitation()
+  }, [])
 
   useEffect(() => {
     // 初期化完了を待つ
@@ -37,6 +46,11 @@ export function AuthWrapper() {
     setCurrentView('dashboard')
   }
 
+  // 外部承認リンクはログインの有無に関係なく承認画面を表示する
+  if (approvalToken) {
+    return <ExternalApproval token={approvalToken} />
+  }
+
   if (loading || !isInitialized) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
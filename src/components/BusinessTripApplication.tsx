@@ -2,6 +2,11 @@ import React, { useState } from 'react';
 import { Calendar, MapPin, Upload, Calculator, Save } from 'lucide-react';
 import Sidebar from './Sidebar';
 import TopBar from './TopBar';
+import { useAuth } from '../hooks/useAuth';
+import { useApplications } from '../hooks/useApplications';
+import { useFileUpload } from '../hooks/useFileUpload';
+import { useTravelRegulations } from '../hooks/useTravelRegulations';
+import { calculateTripAllowance } from '../lib/allowanceCalculator';
 
 interface BusinessTripApplicationProps {
   onNavigate: (view: 'dashboard' | 'business-trip' | 'expense') => void;
@@ -9,52 +14,28 @@ interface BusinessTripApplicationProps {
 
 function BusinessTripApplication({ onNavigate }: BusinessTripApplicationProps) {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const { profile } = useAuth();
+  const { activeRegulation } = useTravelRegulations();
+  const { createApplication, transitionApplication } = useApplications();
+  const { uploadAttachment } = useFileUpload();
+  const [submitting, setSubmitting] = useState(false);
   const [formData, setFormData] = useState({
     purpose: '',
     startDate: '',
     endDate: '',
     destination: '',
-    estimatedExpenses: {
-      dailyAllowance: 0,
-      transportation: 0,
-      accommodation: 0,
-      total: 0
-    },
     attachments: [] as File[]
   });
 
   const [dragActive, setDragActive] = useState(false);
 
-  // 出張日当の自動計算（1日あたり5,000円と仮定）
-  const calculateDailyAllowance = () => {
-    if (formData.startDate && formData.endDate) {
-      const start = new Date(formData.startDate);
-      const end = new Date(formData.endDate);
-      const days = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-      const dailyRate = 5000; // 1日あたりの日当
-      const transportationRate = 2000; // 1日あたりの交通費
-      const accommodationRate = 8000; // 1日あたりの宿泊費
-
-      const dailyAllowance = days * dailyRate;
-      const transportation = days * transportationRate;
-      const accommodation = days > 1 ? (days - 1) * accommodationRate : 0;
-      const total = dailyAllowance + transportation + accommodation;
-
-      setFormData(prev => ({
-        ...prev,
-        estimatedExpenses: {
-          dailyAllowance,
-          transportation,
-          accommodation,
-          total
-        }
-      }));
-    }
-  };
-
-  React.useEffect(() => {
-    calculateDailyAllowance();
-  }, [formData.startDate, formData.endDate]);
+  // 運用中の出張規程と申請者の役職から予定経費を算出
+  const estimate = calculateTripAllowance({
+    regulation: activeRegulation,
+    position: profile?.position,
+    startDate: formData.startDate,
+    endDate: formData.endDate
+  });
 
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
@@ -97,12 +78,46 @@ function BusinessTripApplication({ onNavigate }: BusinessTripApplicationProps) {
     }));
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // 下書きとして作成してから提出する（合計額はサーバー側で規程から再計算される）
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    // ここで申請データを送信
-    console.log('出張申請データ:', formData);
-    alert('出張申請が送信されました！');
-    onNavigate('dashboard');
+    if (submitting) return;
+
+    try {
+      setSubmitting(true);
+      const attachments = [];
+      for (const file of formData.attachments) {
+        const upload = await uploadAttachment(file);
+        if (!upload.success) throw new Error(`${file.name}: ${upload.error}`);
+        attachments.push({ name: file.name, url: upload.url });
+      }
+
+      const result = await createApplication('business_trip', `${formData.destination}出張`, {
+        description: formData.purpose,
+        attachments,
+        tripDetails: {
+          startDate: formData.startDate,
+          endDate: formData.endDate,
+          purpose: formData.purpose,
+          destination: formData.destination,
+          estimatedDailyAllowance: estimate.dailyAllowance,
+          estimatedTransportation: estimate.transportation,
+          estimatedAccommodation: estimate.accommodation,
+          allowanceEstimate: estimate
+        }
+      });
+      if (!result.success || !result.application) throw new Error(result.error);
+
+      const submitted = await transitionApplication(result.application.id as string, 'submit');
+      alert(submitted.success
+        ? '出張申請を提出しました'
+        : `申請を下書きとして保存しましたが、提出に失敗しました: ${submitted.error}`);
+      onNavigate('dashboard');
+    } catch (err) {
+      alert(`出張申請を作成できませんでした: ${err instanceof Error ? err.message : ''}`);
+    } finally {
+      setSubmitting(false);
+    }
   };
 
   const onBack = () => {
@@ -217,23 +232,30 @@ function BusinessTripApplication({ onNavigate }: BusinessTripApplicationProps) {
                     <Calculator className="w-5 h-5 inline mr-2" />
                     予定経費（自動計算）
                   </h2>
+                  <p className="text-sm text-slate-600 mb-4">
+                    {estimate.regulation.source === 'regulation'
+                      ? `${estimate.regulation.name}（${estimate.regulation.version}）`
+                      : '標準規程'}
+                    に基づく {estimate.positionName} の支給額
+                    {estimate.days > 0 && `・${estimate.isDayTrip ? '日帰り' : `${estimate.nights}泊${estimate.days}日`}`}
+                  </p>
                   
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                     <div className="bg-white/30 rounded-lg p-4 backdrop-blur-sm">
                       <p className="text-sm text-slate-600 mb-1">出張日当</p>
-                      <p className="text-2xl font-bold text-slate-800">¥{formData.estimatedExpenses.dailyAllowance.toLocaleString()}</p>
+                      <p className="text-2xl font-bold text-slate-800">¥{estimate.dailyAllowance.toLocaleString()}</p>
                     </div>
                     <div className="bg-white/30 rounded-lg p-4 backdrop-blur-sm">
                       <p className="text-sm text-slate-600 mb-1">交通費</p>
-                      <p className="text-2xl font-bold text-slate-800">¥{formData.estimatedExpenses.transportation.toLocaleString()}</p>
+                      <p className="text-2xl font-bold text-slate-800">¥{estimate.transportation.toLocaleString()}</p>
                     </div>
                     <div className="bg-white/30 rounded-lg p-4 backdrop-blur-sm">
                       <p className="text-sm text-slate-600 mb-1">宿泊費</p>
-                      <p className="text-2xl font-bold text-slate-800">¥{formData.estimatedExpenses.accommodation.toLocaleString()}</p>
+                      <p className="text-2xl font-bold text-slate-800">¥{estimate.accommodation.toLocaleString()}</p>
                     </div>
                     <div className="bg-gradient-to-r from-navy-600 to-navy-800 rounded-lg p-4 text-white">
                       <p className="text-sm text-navy-100 mb-1">合計</p>
-                      <p className="text-2xl font-bold">¥{formData.estimatedExpenses.total.toLocaleString()}</p>
+                      <p className="text-2xl font-bold">¥{estimate.total.toLocaleString()}</p>
                     </div>
                   </div>
                 </div>
@@ -304,10 +326,11 @@ function BusinessTripApplication({ onNavigate }: BusinessTripApplicationProps) {
                   </button>
                   <button
                     type="submit"
-                    className="flex items-center space-x-2 px-6 py-3 bg-gradient-to-r from-navy-700 to-navy-900 hover:from-navy-800 hover:to-navy-950 text-white rounded-lg font-medium shadow-xl hover:shadow-2xl transition-all duration-200 transform hover:scale-105"
+                    disabled={submitting}
+                    className="flex items-center space-x-2 px-6 py-3 bg-gradient-to-r from-navy-700 to-navy-900 hover:from-navy-800 hover:to-navy-950 text-white rounded-lg font-medium shadow-xl hover:shadow-2xl transition-all duration-200 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <Save className="w-5 h-5" />
-                    <span>申請を送信</span>
+                    <span>{submitting ? '送信中...' : '申請を送信'}</span>
                   </button>
                 </div>
               </form>
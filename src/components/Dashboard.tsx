@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import ApplicationForm from './ApplicationForm';
 import ApplicationList from './ApplicationList';
 import ApprovalWorkflow from './ApprovalWorkflow';
@@ -16,6 +16,7 @@ import TravelRegulationHistory from './TravelRegulationHistory';
 import DocumentManagement from './DocumentManagement';
 import DocumentCreation from './DocumentCreation';
 import DocumentPreview from './DocumentPreview';
+import DocumentAudit from './DocumentAudit';
 import NotificationHistory from './NotificationHistory';
 import LegalGuide from './LegalGuide';
 import ApprovalReminderSettings from './ApprovalReminderSettings';
@@ -28,6 +29,12 @@ import AdminDashboard from './AdminDashboard';
 import AccountingIntegration from './AccountingIntegration';
 import AccountingLog from './AccountingLog';
 import AccountingError from './AccountingError';
+import { clearNotificationLinkFromUrl, getNotificationLinkFromUrl } from '../lib/notificationLinks';
+import OrganizationInvitationDialog from './OrganizationInvitationDialog';
+import { getPendingInvitation } from '../lib/organizations';
+import PermissionDenied from './PermissionDenied';
+import { usePermissions } from '../hooks/usePermissions';
+import { getViewPermission } from '../lib/permissions';
 
 function Dashboard() {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
@@ -40,6 +47,28 @@ function Dashboard() {
   const [applicationDetail, setApplicationDetail] = useState<{type: 'business-trip' | 'expense', id: string} | null>(null);
   const [documentType, setDocumentType] = useState<string>('');
   const [documentId, setDocumentId] = useState<string>('');
+  const [invitationToken, setInvitationToken] = useState<string | null>(() =>
+    localStorage.getItem('demoMode') === 'true' ? null : getPendingInvitation()
+  );
+  const { can, loading: permissionsLoading } = usePermissions();
+
+  // 通知メール・プッシュ通知のリンクから開いた場合は該当の申請・画面を表示する
+  useEffect(() => {
+    const link = getNotificationLinkFromUrl();
+    if (!link) return;
+
+    if (link.applicationId && link.detailType) {
+      setApplicationDetail({ type: link.detailType, id: link.applicationId });
+      setCurrentView('application-detail');
+    } else if (link.applicationId) {
+      setSelectedApplicationId(link.applicationId);
+      setShowApprovalWorkflow(true);
+    } else if (link.view) {
+      if (link.jobId) localStorage.setItem('selectedSyncJobId', link.jobId);
+      setCurrentView(link.view);
+    }
+    clearNotificationLinkFromUrl();
+  }, []);
 
   const toggleSidebar = () => {
     setIsSidebarOpen(!isSidebarOpen);
@@ -126,6 +155,19 @@ function Dashboard() {
       );
     }
 
+    // 管理者向けの画面は組織の役割に基づく権限で表示を切り替える
+    const requiredPermission = getViewPermission(currentView);
+    if (requiredPermission && (permissionsLoading || !can(requiredPermission))) {
+      return (
+        <PermissionDenied
+          permission={requiredPermission}
+          isLoading={permissionsLoading}
+          currentView={currentView}
+          onNavigate={navigateToView}
+        />
+      );
+    }
+
     switch (currentView) {
       case 'business-trip':
         setShowApplicationForm(true);
@@ -146,7 +188,7 @@ function Dashboard() {
               <div className="flex-1 overflow-auto p-4 lg:p-6 relative z-10">
                 <ApplicationList 
                   onCreateNew={handleCreateApplication}
-                  onViewDetail={(id) => setCurrentView('application-detail')}
+                  onViewDetail={(id, type) => showApplicationDetail(type === 'business_trip' ? 'business-trip' : 'expense', id)}
                 />
               </div>
             </div>
@@ -166,6 +208,8 @@ function Dashboard() {
         return <DocumentCreation onNavigate={navigateToView} documentType={documentType} />;
       case 'document-preview':
         return <DocumentPreview onNavigate={navigateToView} documentId={documentId} />;
+      case 'document-audit':
+        return <DocumentAudit onNavigate={navigateToView} />;
       case 'notification-history':
         return <NotificationHistory onNavigate={navigateToView} />;
       case 'legal-guide':
@@ -246,6 +290,11 @@ function Dashboard() {
       {showNotificationCenter && (
         <NotificationCenter onClose={() => setShowNotificationCenter(false)} />
       )}
+
+      {/* 組織への招待 */}
+      {invitationToken && (
+        <OrganizationInvitationDialog token={invitationToken} onClose={() => setInvitationToken(null)} />
+      )}
     </div>
   );
 }
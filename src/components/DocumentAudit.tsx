@@ -0,0 +1,532 @@
+import React, { useEffect, useState } from 'react';
+import { Search, ShieldCheck, ShieldAlert, History, PencilLine, Loader2, X, AlertTriangle, Clock } from 'lucide-react';
+import Sidebar from './Sidebar';
+import TopBar from './TopBar';
+import { useAuth } from '../hooks/useAuth';
+import { searchStoredDocuments, getStoredDocumentVersions, correctStoredDocument, downloadStoredFile } from '../lib/supabase';
+import {
+  buildVersionHistory,
+  INTEGRITY_STATUS_COLORS,
+  INTEGRITY_STATUS_LABELS,
+  isTimestampLate,
+  STORED_DOCUMENT_KIND_LABELS,
+  TIMESTAMP_DEADLINE_DAYS,
+  toStoredDocumentErrorMessage,
+  verifyStoredDocument,
+  type IntegrityResult,
+  type StoredDocument,
+  type StoredDocumentKind,
+  type StoredDocumentSearch
+} from '../lib/electronicBookkeeping';
+
+interface DocumentAuditProps {
+  onNavigate: (view: string) => void;
+}
+
+interface CorrectionDraft {
+  transactionDate: string;
+  amount: string;
+  counterparty: string;
+  invoiceNumber: string;
+  reason: string;
+}
+
+const DEMO_TOKEN_HASH = 'a3f1c9e07b5d42e8916c0d7f2b4a8e6135c7d9f0e2b4a6c8d0f1e3a5b7c9d1e3';
+
+const DEMO_DOCUMENTS: StoredDocument[] = [
+  {
+    id: 'demo-doc-1',
+    organization_id: null,
+    user_id: 'demo-user-id',
+    user_name: 'デモユーザー',
+    document_kind: 'receipt',
+    bucket: 'receipts',
+    file_path: `demo-user-id/${DEMO_TOKEN_HASH}.jpg`,
+    file_name: 'receipt_shinkansen.jpg',
+    mime_type: 'image/jpeg',
+    file_size: 184320,
+    sha256: DEMO_TOKEN_HASH,
+    transaction_date: '2026-07-15',
+    amount: 14170,
+    counterparty: 'JR東海',
+    invoice_number: 'T1180001017009',
+    timestamp_token: {
+      version: 1,
+      policy: 'local-tsa-v1',
+      messageImprint: { hashAlgorithm: 'SHA-256', hashedMessage: DEMO_TOKEN_HASH },
+      serialNumber: '1',
+      genTime: '2026-07-16T01:23:45.000Z',
+      tsa: 'local',
+      signature: ''
+    },
+    timestamp_authority: 'local',
+    timestamped_at: '2026-07-16T01:23:45.000Z',
+    version: 1,
+    supersedes_id: null,
+    superseded_by: null,
+    superseded_at: null,
+    correction_reason: null,
+    created_by: 'demo-user-id',
+    created_at: '2026-07-16T01:23:45.000Z'
+  }
+];
+
+const getYearStart = () => `${new Date().getFullYear()}-01-01`;
+const getToday = () => new Date().toISOString().split('T')[0];
+
+const toAmount = (value: string) => value.trim() === '' ? null : Number(value);
+
+function DocumentAudit({ onNavigate }: DocumentAuditProps) {
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const { profile } = useAuth();
+  const organizationId = profile?.default_organization_id || null;
+  const isDemoMode = localStorage.getItem('demoMode') === 'true';
+
+  const [dateFrom, setDateFrom] = useState(getYearStart());
+  const [dateTo, setDateTo] = useState(getToday());
+  const [amountMin, setAmountMin] = useState('');
+  const [amountMax, setAmountMax] = useState('');
+  const [counterparty, setCounterparty] = useState('');
+  const [documentKind, setDocumentKind] = useState<StoredDocumentKind | 'all'>('all');
+  const [includeSuperseded, setIncludeSuperseded] = useState(false);
+  const [search, setSearch] = useState<StoredDocumentSearch>({ dateFrom: getYearStart(), dateTo: getToday() });
+
+  const [documents, setDocuments] = useState<StoredDocument[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [results, setResults] = useState<{ [documentId: string]: IntegrityResult }>({});
+  const [verifying, setVerifying] = useState(false);
+  const [verifiedCount, setVerifiedCount] = useState(0);
+
+  const [history, setHistory] = useState<StoredDocument[] | null>(null);
+  const [correcting, setCorrecting] = useState<StoredDocument | null>(null);
+  const [correction, setCorrection] = useState<CorrectionDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setResults({});
+      const found = isDemoMode
+        ? DEMO_DOCUMENTS.filter(document =>
+            (!search.dateFrom || document.transaction_date >= search.dateFrom) &&
+            (!search.dateTo || document.transaction_date <= search.dateTo) &&
+            (!search.counterparty || document.counterparty.includes(search.counterparty))
+          )
+        : await searchStoredDocuments({ ...search, organizationId });
+      if (!cancelled) {
+        setDocuments(found);
+        setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [search, organizationId, isDemoMode, reloadKey]);
+
+  const toggleSidebar = () => {
+    setIsSidebarOpen(!isSidebarOpen);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (dateFrom && dateTo && dateFrom > dateTo) {
+      alert('取引年月日の範囲を正しく指定してください');
+      return;
+    }
+    setSearch({
+      dateFrom: dateFrom || undefined,
+      dateTo: dateTo || undefined,
+      amountMin: toAmount(amountMin),
+      amountMax: toAmount(amountMax),
+      counterparty,
+      documentKind,
+      includeSuperseded
+    });
+  };
+
+  // 検索結果のファイルを取得し直し、ハッシュ値とタイムスタンプを検証する
+  const handleVerifyAll = async () => {
+    setVerifying(true);
+    setVerifiedCount(0);
+    setResults({});
+
+    for (const document of documents) {
+      const result = isDemoMode
+        ? {
+            documentId: document.id,
+            status: 'valid' as const,
+            computedHash: document.sha256,
+            timestampValid: true,
+            lateTimestamp: isTimestampLate(document),
+            checkedAt: new Date().toISOString()
+          }
+        : await verifyStoredDocument(document, await downloadStoredFile(document.bucket, document.file_path));
+      setResults(prev => ({ ...prev, [document.id]: result }));
+      setVerifiedCount(count => count + 1);
+    }
+
+    setVerifying(false);
+  };
+
+  const handleShowHistory = async (document: StoredDocument) => {
+    const versions = isDemoMode ? [document] : await getStoredDocumentVersions(document);
+    setHistory(buildVersionHistory(versions, document.id));
+  };
+
+  const openCorrection = (document: StoredDocument) => {
+    setCorrecting(document);
+    setCorrection({
+      transactionDate: document.transaction_date,
+      amount: String(document.amount),
+      counterparty: document.counterparty,
+      invoiceNumber: document.invoice_number || '',
+      reason: ''
+    });
+  };
+
+  const handleCorrect = async () => {
+    if (!correcting || !correction) return;
+    if (!correction.reason.trim()) {
+      alert('訂正の理由を入力してください');
+      return;
+    }
+    if (isDemoMode) {
+      alert('デモモードでは訂正できません');
+      return;
+    }
+
+    setSaving(true);
+    const result = await correctStoredDocument(correcting.id, {
+      transactionDate: correction.transactionDate,
+      amount: Number(correction.amount),
+      counterparty: correction.counterparty,
+      invoiceNumber: correction.invoiceNumber
+    }, correction.reason);
+    setSaving(false);
+
+    if (!result.success) {
+      alert(toStoredDocumentErrorMessage(result.error));
+      return;
+    }
+    setCorrecting(null);
+    setCorrection(null);
+    setReloadKey(key => key + 1);
+  };
+
+  const checked = Object.values(results);
+  const stats = {
+    total: documents.length,
+    valid: checked.filter(result => result.status === 'valid').length,
+    invalid: checked.filter(result => result.status !== 'valid').length,
+    late: documents.filter(isTimestampLate).length
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-white/50 border border-white/40 rounded-lg text-slate-700 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-navy-400 backdrop-blur-xl';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 relative overflow-hidden">
+      <div className="absolute inset-0 bg-[url('data:image/svg+xml,%3Csvg width=%2260%22 height=%2260%22 viewBox=%220 0 60 60%22 xmlns=%22http://www.w3.org/2000/svg%22%3E%3Cg fill=%22none%22 fill-rule=%22evenodd%22%3E%3Cg fill=%22%23334155%22 fill-opacity=%220.03%22%3E%3Ccircle cx=%2230%22 cy=%2230%22 r=%221%22/%3E%3C/g%3E%3C/g%3E%3C/svg%3E')] opacity-40"></div>
+      <div className="absolute top-0 left-0 w-full h-full bg-gradient-to-br from-blue-100/20 via-transparent to-indigo-100/20"></div>
+
+      <div className="flex h-screen relative">
+        <div className="hidden lg:block">
+          <Sidebar isOpen={true} onClose={() => {}} onNavigate={onNavigate} currentView="document-audit" />
+        </div>
+
+        {isSidebarOpen && (
+          <>
+            <div
+              className="fixed inset-0 bg-black/50 z-40 lg:hidden"
+              onClick={toggleSidebar}
+            />
+            <div className="fixed left-0 top-0 h-full z-50 lg:hidden">
+              <Sidebar isOpen={isSidebarOpen} onClose={toggleSidebar} onNavigate={onNavigate} currentView="document-audit" />
+            </div>
+          </>
+        )}
+
+        <div className="flex-1 flex flex-col min-w-0">
+          <TopBar onMenuClick={toggleSidebar} onNavigate={onNavigate} />
+
+          <div className="flex-1 overflow-auto p-4 lg:p-6 relative z-10">
+            <div className="max-w-7xl mx-auto">
+              <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between mb-8 gap-4">
+                <div>
+                  <h1 className="text-2xl lg:text-3xl font-bold text-slate-800">電子帳簿保存</h1>
+                  <p className="text-slate-600 mt-1 text-sm">
+                    保存した領収書・請求書を取引年月日・金額・取引先で検索し、ハッシュ値とタイムスタンプで改ざんがないことを確認します
+                  </p>
+                </div>
+                <button
+                  onClick={handleVerifyAll}
+                  disabled={verifying || documents.length === 0}
+                  className="flex items-center justify-center space-x-2 px-4 py-2 bg-gradient-to-r from-navy-600 to-navy-800 text-white rounded-lg font-medium hover:from-navy-700 hover:to-navy-900 transition-all duration-200 disabled:opacity-50"
+                >
+                  {verifying ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShieldCheck className="w-4 h-4" />}
+                  <span>{verifying ? `検証中... (${verifiedCount}/${documents.length})` : '検索結果の真実性を検証'}</span>
+                </button>
+              </div>
+
+              {/* 統計カード */}
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 lg:gap-6 mb-8">
+                <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl text-center">
+                  <h3 className="text-sm font-medium text-slate-600 mb-2">書類数</h3>
+                  <p className="text-2xl font-bold text-slate-800">{stats.total}件</p>
+                </div>
+                <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl text-center">
+                  <h3 className="text-sm font-medium text-slate-600 mb-2">改ざんなし</h3>
+                  <p className="text-2xl font-bold text-emerald-600">{stats.valid}件</p>
+                </div>
+                <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl text-center">
+                  <h3 className="text-sm font-medium text-slate-600 mb-2">検証エラー・未検証</h3>
+                  <p className="text-2xl font-bold text-red-600">{stats.invalid}件</p>
+                </div>
+                <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl text-center">
+                  <h3 className="text-sm font-medium text-slate-600 mb-2">タイムスタンプ期限超過</h3>
+                  <p className="text-2xl font-bold text-amber-600">{stats.late}件</p>
+                </div>
+              </div>
+
+              {/* 検索条件 */}
+              <form onSubmit={handleSearch} className="backdrop-blur-xl bg-white/20 rounded-xl p-4 border border-white/30 shadow-xl mb-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">取引年月日</label>
+                    <div className="flex items-center space-x-2">
+                      <input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} className={inputClass} />
+                      <span className="text-slate-500">〜</span>
+                      <input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} className={inputClass} />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">取引金額（円）</label>
+                    <div className="flex items-center space-x-2">
+                      <input type="number" min="0" value={amountMin} onChange={(e) => setAmountMin(e.target.value)} className={inputClass} placeholder="下限" />
+                      <span className="text-slate-500">〜</span>
+                      <input type="number" min="0" value={amountMax} onChange={(e) => setAmountMax(e.target.value)} className={inputClass} placeholder="上限" />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">取引先</label>
+                    <input type="text" value={counterparty} onChange={(e) => setCounterparty(e.target.value)} className={inputClass} placeholder="部分一致" />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">種別</label>
+                    <select value={documentKind} onChange={(e) => setDocumentKind(e.target.value as StoredDocumentKind | 'all')} className={inputClass}>
+                      <option value="all">すべて</option>
+                      <option value="receipt">{STORED_DOCUMENT_KIND_LABELS.receipt}</option>
+                      <option value="invoice">{STORED_DOCUMENT_KIND_LABELS.invoice}</option>
+                    </select>
+                  </div>
+                </div>
+                <div className="flex items-center justify-between mt-4">
+                  <label className="flex items-center space-x-2 text-sm text-slate-700">
+                    <input type="checkbox" checked={includeSuperseded} onChange={(e) => setIncludeSuperseded(e.target.checked)} />
+                    <span>訂正前の版も表示する</span>
+                  </label>
+                  <button
+                    type="submit"
+                    className="flex items-center space-x-2 px-4 py-2 bg-white/50 hover:bg-white/70 text-slate-700 rounded-lg transition-colors backdrop-blur-sm"
+                  >
+                    <Search className="w-4 h-4" />
+                    <span>検索</span>
+                  </button>
+                </div>
+              </form>
+
+              {/* 書類一覧 */}
+              <div className="backdrop-blur-xl bg-white/20 rounded-xl border border-white/30 shadow-xl overflow-hidden">
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-white/30 border-b border-white/30">
+                      <tr>
+                        <th className="text-left py-4 px-4 font-medium text-slate-700">取引年月日</th>
+                        <th className="text-left py-4 px-4 font-medium text-slate-700">取引先</th>
+                        <th className="text-right py-4 px-4 font-medium text-slate-700">金額</th>
+                        <th className="text-left py-4 px-4 font-medium text-slate-700">種別</th>
+                        <th className="text-left py-4 px-4 font-medium text-slate-700">登録者</th>
+                        <th className="text-left py-4 px-4 font-medium text-slate-700">タイムスタンプ</th>
+                        <th className="text-left py-4 px-4 font-medium text-slate-700">検証結果</th>
+                        <th className="text-center py-4 px-4 font-medium text-slate-700">操作</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {loading ? (
+                        <tr>
+                          <td colSpan={8} className="text-center py-12 text-slate-500">
+                            <Loader2 className="w-5 h-5 inline mr-2 animate-spin" />
+                            検索中...
+                          </td>
+                        </tr>
+                      ) : documents.length === 0 ? (
+                        <tr>
+                          <td colSpan={8} className="text-center py-12 text-slate-500">
+                            条件に一致する書類が見つかりません
+                          </td>
+                        </tr>
+                      ) : (
+                        documents.map(document => {
+                          const result = results[document.id];
+                          return (
+                            <tr key={document.id} className={`border-b border-white/20 hover:bg-white/20 transition-colors ${document.superseded_by ? 'opacity-60' : ''}`}>
+                              <td className="py-4 px-4 text-slate-800">{new Date(document.transaction_date).toLocaleDateString('ja-JP')}</td>
+                              <td className="py-4 px-4 text-slate-800">
+                                <div className="font-medium">{document.counterparty}</div>
+                                {document.invoice_number && <div className="text-xs text-slate-500">{document.invoice_number}</div>}
+                              </td>
+                              <td className="py-4 px-4 text-right text-slate-800">¥{Number(document.amount).toLocaleString()}</td>
+                              <td className="py-4 px-4 text-slate-700">
+                                {STORED_DOCUMENT_KIND_LABELS[document.document_kind]}
+                                {document.version > 1 && <span className="ml-1 text-xs text-slate-500">第{document.version}版</span>}
+                                {document.superseded_by && <span className="ml-1 text-xs text-slate-500">（訂正済み）</span>}
+                              </td>
+                              <td className="py-4 px-4 text-slate-700">{document.user_name || '-'}</td>
+                              <td className="py-4 px-4 text-sm text-slate-700">
+                                <div>{new Date(document.timestamped_at).toLocaleString('ja-JP')}</div>
+                                <div className="text-xs text-slate-500 font-mono" title={document.sha256}>{document.sha256.slice(0, 16)}…</div>
+                                {isTimestampLate(document) && (
+                                  <div className="flex items-center text-xs text-amber-700 mt-1">
+                                    <Clock className="w-3 h-3 mr-1" />
+                                    取引から{TIMESTAMP_DEADLINE_DAYS}日を超えて付与
+                                  </div>
+                                )}
+                              </td>
+                              <td className="py-4 px-4">
+                                {result ? (
+                                  <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${INTEGRITY_STATUS_COLORS[result.status]}`}>
+                                    {result.status === 'valid' ? <ShieldCheck className="w-3 h-3 mr-1" /> : <ShieldAlert className="w-3 h-3 mr-1" />}
+                                    {INTEGRITY_STATUS_LABELS[result.status]}
+                                  </span>
+                                ) : (
+                                  <span className="text-xs text-slate-500">未検証</span>
+                                )}
+                              </td>
+                              <td className="py-4 px-4">
+                                <div className="flex items-center justify-center space-x-2">
+                                  <button
+                                    onClick={() => handleShowHistory(document)}
+                                    className="p-2 text-slate-600 hover:text-slate-800 hover:bg-white/30 rounded-lg transition-colors"
+                                    title="訂正履歴"
+                                  >
+                                    <History className="w-4 h-4" />
+                                  </button>
+                                  {!document.superseded_by && (
+                                    <button
+                                      onClick={() => openCorrection(document)}
+                                      className="p-2 text-slate-600 hover:text-slate-800 hover:bg-white/30 rounded-lg transition-colors"
+                                      title="検索項目を訂正"
+                                    >
+                                      <PencilLine className="w-4 h-4" />
+                                    </button>
+                                  )}
+                                </div>
+                              </td>
+                            </tr>
+                          );
+                        })
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              <div className="mt-4 flex items-start text-xs text-slate-600">
+                <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0 text-amber-600" />
+                <span>保存した書類は削除できません。検索項目の誤りは訂正として新しい版を登録し、訂正前の版と理由は履歴として残ります。</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* 訂正履歴 */}
+      {history && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl p-6 max-w-2xl w-full max-h-[80vh] overflow-auto">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-bold text-slate-800">訂正履歴</h2>
+              <button onClick={() => setHistory(null)} className="p-1 text-slate-500 hover:text-slate-700">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <ol className="space-y-3">
+              {history.map(version => (
+                <li key={version.id} className="border border-slate-200 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="font-medium text-slate-800">第{version.version}版</span>
+                    <span className="text-xs text-slate-500">{new Date(version.created_at).toLocaleString('ja-JP')}</span>
+                  </div>
+                  <div className="text-sm text-slate-700">
+                    {new Date(version.transaction_date).toLocaleDateString('ja-JP')} / {version.counterparty} / ¥{Number(version.amount).toLocaleString()}
+                    {version.invoice_number && ` / ${version.invoice_number}`}
+                  </div>
+                  {version.correction_reason && (
+                    <div className="text-sm text-slate-600 mt-1">訂正理由: {version.correction_reason}</div>
+                  )}
+                  {version.superseded_at && (
+                    <div className="text-xs text-slate-500 mt-1">{new Date(version.superseded_at).toLocaleString('ja-JP')} に訂正</div>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </div>
+        </div>
+      )}
+
+      {/* 検索項目の訂正 */}
+      {correcting && correction && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl p-6 max-w-lg w-full">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-bold text-slate-800">検索項目の訂正</h2>
+              <button onClick={() => setCorrecting(null)} className="p-1 text-slate-500 hover:text-slate-700">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">取引年月日</label>
+                <input type="date" value={correction.transactionDate} onChange={(e) => setCorrection({ ...correction, transactionDate: e.target.value })} className="w-full px-3 py-2 border border-slate-300 rounded-lg" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">取引金額（円）</label>
+                <input type="number" min="0" value={correction.amount} onChange={(e) => setCorrection({ ...correction, amount: e.target.value })} className="w-full px-3 py-2 border border-slate-300 rounded-lg" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">取引先</label>
+                <input type="text" value={correction.counterparty} onChange={(e) => setCorrection({ ...correction, counterparty: e.target.value })} className="w-full px-3 py-2 border border-slate-300 rounded-lg" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">登録番号</label>
+                <input type="text" value={correction.invoiceNumber} onChange={(e) => setCorrection({ ...correction, invoiceNumber: e.target.value })} className="w-full px-3 py-2 border border-slate-300 rounded-lg" placeholder="T1234567890123" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">訂正の理由 <span className="text-red-500">*</span></label>
+                <textarea value={correction.reason} onChange={(e) => setCorrection({ ...correction, reason: e.target.value })} className="w-full px-3 py-2 border border-slate-300 rounded-lg" rows={3} />
+              </div>
+            </div>
+            <div className="flex justify-end space-x-3 mt-6">
+              <button onClick={() => setCorrecting(null)} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg">
+                キャンセル
+              </button>
+              <button
+                onClick={handleCorrect}
+                disabled={saving}
+                className="px-4 py-2 bg-navy-700 text-white rounded-lg hover:bg-navy-800 disabled:opacity-50"
+              >
+                {saving ? '保存中...' : '訂正を登録'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DocumentAudit;
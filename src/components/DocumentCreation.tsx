@@ -1,7 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Save, Download, FileText, Calendar, MapPin, Calculator, Upload, Eye } from 'lucide-react';
+import { ArrowLeft, Save, Download, FileText, FileSpreadsheet, Calendar, MapPin, Calculator, Upload, Eye } from 'lucide-react';
 import Sidebar from './Sidebar';
 import TopBar from './TopBar';
+import { useAuth } from '../hooks/useAuth';
+import { useDocumentExport } from '../hooks/useDocumentExport';
+import { buildAllowanceDetailDocument, buildBusinessReportDocument, buildExpenseReportDocument, buildTripLogDocument } from '../lib/documentTemplates';
+import { buildExpenseReportWorkbook, getReportTitle, REPORT_DOCUMENT_TYPES, type ExpenseReport } from '../lib/expenseReports';
+import { summarizeTripLog } from '../lib/tripLog';
+import TripLogLedger, { type TripLogLedgerValue } from './TripLogLedger';
+import ExpenseReportGenerator from './ExpenseReportGenerator';
+import AllowanceStatementGenerator, { type AllowanceStatementValue } from './AllowanceStatementGenerator';
+import { summarizeAllowanceStatement } from '../lib/allowanceStatement';
 
 interface DocumentCreationProps {
   onNavigate: (view: string) => void;
@@ -21,23 +30,6 @@ interface BusinessReportData {
   attachments: File[];
 }
 
-interface AllowanceDetailData {
-  period: { start: string; end: string; };
-  position: string;
-  domesticTrips: Array<{
-    date: string;
-    destination: string;
-    days: number;
-    allowance: number;
-  }>;
-  overseasTrips: Array<{
-    date: string;
-    destination: string;
-    days: number;
-    allowance: number;
-  }>;
-}
-
 function DocumentCreation({ onNavigate, documentType }: DocumentCreationProps) {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [businessReportData, setBusinessReportData] = useState<BusinessReportData>({
@@ -53,12 +45,12 @@ function DocumentCreation({ onNavigate, documentType }: DocumentCreationProps) {
     attachments: []
   });
 
-  const [allowanceDetailData, setAllowanceDetailData] = useState<AllowanceDetailData>({
-    period: { start: '', end: '' },
-    position: '一般職',
-    domesticTrips: [],
-    overseasTrips: []
-  });
+  const [allowanceStatement, setAllowanceStatement] = useState<AllowanceStatementValue | null>(null);
+  const [tripLog, setTripLog] = useState<TripLogLedgerValue | null>(null);
+  const [expenseReport, setExpenseReport] = useState<ExpenseReport | null>(null);
+  const { profile } = useAuth();
+  const { exporting, exportDocument, exportFile } = useDocumentExport();
+  const isReport = documentType === 'monthly-report' || documentType === 'annual-report';
 
   const toggleSidebar = () => {
     setIsSidebarOpen(!isSidebarOpen);
@@ -87,8 +79,102 @@ function DocumentCreation({ onNavigate, documentType }: DocumentCreationProps) {
     onNavigate('document-management');
   };
 
-  const handleExport = (format: 'word' | 'pdf') => {
-    alert(`${format.toUpperCase()}形式でエクスポート中...`);
+  const getReportContent = (report: ExpenseReport) => ({
+    period_type: report.period.type,
+    period_start: report.period.start,
+    period_end: report.period.end,
+    department: report.department,
+    total_amount: report.summary.totalAmount,
+    allowance_total: report.summary.allowanceTotal,
+    over_amount: report.summary.overAmount,
+    regulation: report.regulation
+  });
+
+  const handleExport = async (format: 'word' | 'pdf') => {
+    const author = profile?.full_name || undefined;
+    let result;
+    if (documentType === 'business-report') {
+      const { attachments, ...report } = businessReportData;
+      result = await exportDocument(buildBusinessReportDocument(report, author), format, {
+        type: 'business_report',
+        content: { ...report, attachment_count: attachments.length }
+      });
+    } else if (documentType === 'allowance-detail') {
+      if (!allowanceStatement) {
+        alert('対象者と対象期間を選択して明細を作成してください');
+        return;
+      }
+      // 給与計算で非課税の日当として扱えるよう、対象者・支給月・対象の出張を記録する
+      const { content } = allowanceStatement;
+      const totals = summarizeAllowanceStatement(content);
+      result = await exportDocument(buildAllowanceDetailDocument(content, author), format, {
+        type: 'allowance_detail',
+        content: {
+          user_id: allowanceStatement.userId,
+          employee_name: content.employeeName,
+          position: content.position,
+          period: content.period,
+          payroll_month: content.payrollMonth,
+          domestic_days: totals.domesticDays,
+          domestic_amount: totals.domesticAmount,
+          overseas_days: totals.overseasDays,
+          overseas_amount: totals.overseasAmount,
+          total_amount: totals.totalAmount,
+          non_taxable: true,
+          application_ids: [...content.domesticTrips, ...content.overseasTrips].map(trip => trip.applicationId)
+        }
+      });
+    } else if (documentType === 'gps-log') {
+      if (!tripLog) {
+        alert('出張申請を選択してください');
+        return;
+      }
+      const summary = summarizeTripLog(tripLog.content.checkpoints, tripLog.content.distanceThreshold);
+      result = await exportDocument(buildTripLogDocument(tripLog.content, author), format, {
+        type: 'gps_log',
+        applicationId: tripLog.applicationId,
+        content: {
+          application_title: tripLog.content.applicationTitle,
+          period: tripLog.content.period,
+          distance_threshold: tripLog.content.distanceThreshold,
+          max_distance_km: summary.maxDistanceKm,
+          meets_threshold: summary.meetsThreshold,
+          checkpoint_ids: tripLog.content.checkpoints.map(checkpoint => checkpoint.id)
+        }
+      });
+    } else if (isReport) {
+      if (!expenseReport) {
+        alert('対象期間を選択して集計してください');
+        return;
+      }
+      result = await exportDocument(buildExpenseReportDocument(expenseReport, author), format, {
+        type: REPORT_DOCUMENT_TYPES[expenseReport.period.type],
+        content: getReportContent(expenseReport)
+      });
+    } else {
+      alert('この書類はまだWord/PDF出力に対応していません');
+      return;
+    }
+
+    if (!result.success) {
+      alert(`${format === 'word' ? 'Word' : 'PDF'}ファイルの生成に失敗しました: ${result.error}`);
+    }
+  };
+
+  const handleExportWorkbook = async () => {
+    if (!expenseReport) {
+      alert('対象期間を選択して集計してください');
+      return;
+    }
+
+    const workbook = () => buildExpenseReportWorkbook(expenseReport);
+    const result = await exportFile(workbook, getReportTitle(expenseReport), {
+      type: REPORT_DOCUMENT_TYPES[expenseReport.period.type],
+      content: { ...getReportContent(expenseReport), format: 'xlsx' }
+    });
+    if (!result.success) {
+      alert(`Excelファイルの生成に失敗しました: ${result.error}`);
+    }
   };
 
   const renderBusinessReportForm = () => (
@@ -232,69 +318,6 @@ function DocumentCreation({ onNavigate, documentType }: DocumentCreationProps) {
     </div>
   );
 
-  const renderAllowanceDetailForm = () => (
-    <div className="space-y-6">
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-        <div>
-          <label className="block text-sm font-medium text-slate-700 mb-2">対象期間（開始）</label>
-          <input
-            type="date"
-            value={allowanceDetailData.period.start}
-            onChange={(e) => setAllowanceDetailData(prev => ({ 
-              ...prev, 
-              period: { ...prev.period, start: e.target.value }
-            }))}
-            className="w-full px-4 py-3 bg-white/50 border border-white/40 rounded-lg text-slate-700 focus:outline-none focus:ring-2 focus:ring-navy-400 backdrop-blur-xl"
-          />
-        </div>
-        <div>
-          <label className="block text-sm font-medium text-slate-700 mb-2">対象期間（終了）</label>
-          <input
-            type="date"
-            value={allowanceDetailData.period.end}
-            onChange={(e) => setAllowanceDetailData(prev => ({ 
-              ...prev, 
-              period: { ...prev.period, end: e.target.value }
-            }))}
-            className="w-full px-4 py-3 bg-white/50 border border-white/40 rounded-lg text-slate-700 focus:outline-none focus:ring-2 focus:ring-navy-400 backdrop-blur-xl"
-          />
-        </div>
-        <div>
-          <label className="block text-sm font-medium text-slate-700 mb-2">役職</label>
-          <select
-            value={allowanceDetailData.position}
-            onChange={(e) => setAllowanceDetailData(prev => ({ ...prev, position: e.target.value }))}
-            className="w-full px-4 py-3 bg-white/50 border border-white/40 rounded-lg text-slate-700 focus:outline-none focus:ring-2 focus:ring-navy-400 backdrop-blur-xl"
-          >
-            <option value="役員">役員</option>
-            <option value="管理職">管理職</option>
-            <option value="一般職">一般職</option>
-          </select>
-        </div>
-      </div>
-
-      <div className="bg-white/30 rounded-lg p-4">
-        <h3 className="text-lg font-semibold text-slate-800 mb-4">自動計算結果</h3>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <div className="text-center">
-            <p className="text-sm text-slate-600">国内出張日当</p>
-            <p className="text-2xl font-bold text-slate-800">¥45,000</p>
-            <p className="text-xs text-slate-500">9日間 × ¥5,000</p>
-          </div>
-          <div className="text-center">
-            <p className="text-sm text-slate-600">海外出張日当</p>
-            <p className="text-2xl font-bold text-slate-800">¥30,000</p>
-            <p className="text-xs text-slate-500">3日間 × ¥10,000</p>
-          </div>
-          <div className="text-center bg-gradient-to-r from-navy-600 to-navy-800 rounded-lg p-4 text-white">
-            <p className="text-sm text-navy-100">合計支給額</p>
-            <p className="text-2xl font-bold">¥75,000</p>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-
   const renderDefaultForm = () => (
     <div className="text-center py-12">
       <FileText className="w-16 h-16 text-slate-400 mx-auto mb-4" />
@@ -316,7 +339,13 @@ function DocumentCreation({ onNavigate, documentType }: DocumentCreationProps) {
       case 'business-report':
         return renderBusinessReportForm();
       case 'allowance-detail':
-        return renderAllowanceDetailForm();
+        return <AllowanceStatementGenerator onChange={setAllowanceStatement} />;
+      case 'gps-log':
+        return <TripLogLedger onChange={setTripLog} />;
+      case 'monthly-report':
+        return <ExpenseReportGenerator key="monthly" periodType="monthly" onChange={setExpenseReport} />;
+      case 'annual-report':
+        return <ExpenseReportGenerator key="annual" periodType="annual" onChange={setExpenseReport} />;
       default:
         return renderDefaultForm();
     }
@@ -363,18 +392,30 @@ function DocumentCreation({ onNavigate, documentType }: DocumentCreationProps) {
                 <div className="flex space-x-3">
                   <button
                     onClick={() => handleExport('word')}
-                    className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-800 text-white rounded-lg font-medium hover:from-blue-700 hover:to-blue-900 transition-all duration-200"
+                    disabled={exporting}
+                    className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-800 text-white rounded-lg font-medium hover:from-blue-700 hover:to-blue-900 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <FileText className="w-4 h-4" />
                     <span>Word</span>
                   </button>
                   <button
                     onClick={() => handleExport('pdf')}
-                    className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-red-600 to-red-800 text-white rounded-lg font-medium hover:from-red-700 hover:to-red-900 transition-all duration-200"
+                    disabled={exporting}
+                    className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-red-600 to-red-800 text-white rounded-lg font-medium hover:from-red-700 hover:to-red-900 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <Download className="w-4 h-4" />
                     <span>PDF</span>
                   </button>
+                  {isReport && (
+                    <button
+                      onClick={handleExportWorkbook}
+                      disabled={exporting}
+                      className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-emerald-600 to-emerald-800 text-white rounded-lg font-medium hover:from-emerald-700 hover:to-emerald-900 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <FileSpreadsheet className="w-4 h-4" />
+                      <span>Excel</span>
+                    </button>
+                  )}
                 </div>
               </div>
 
@@ -354,8 +354,8 @@ function DocumentManagement({ onNavigate }: DocumentManagementProps) {
             {showAdvancedSearch && (
               <AdvancedSearch
                 onSearch={(filters) => {
-                  console.log('Advanced search filters:', filters);
-                  // ここで高度検索の結果を処理
+                  // 書類一覧ではキーワードのみを絞り込みに使う
+                  setSearchTerm(filters.keyword);
                 }}
                 onClose={() => setShowAdvancedSearch(false)}
               />
@@ -1,7 +1,12 @@
 import React, { useState } from 'react';
-import { Save, Upload, Camera, FileText } from 'lucide-react';
+import { Save, Upload, Camera, FileText, Loader2, ShieldCheck, AlertTriangle } from 'lucide-react';
 import Sidebar from './Sidebar';
 import TopBar from './TopBar';
+import { useApplications } from '../hooks/useApplications';
+import { useFileUpload } from '../hooks/useFileUpload';
+import { extractReceipt, applyReceiptCorrections, type ReceiptMetadata } from '../lib/receiptOcr';
+import { validateExpenseInvoice, INPUT_TAX_CREDIT_LABELS, type InvoiceValidationResult } from '../lib/invoiceValidation';
+import type { StoredDocument } from '../lib/electronicBookkeeping';
 
 interface ExpenseApplicationProps {
   onNavigate: (view: 'dashboard' | 'business-trip' | 'expense') => void;
@@ -14,13 +19,32 @@ interface ExpenseItem {
   amount: number;
   description: string;
   receipt?: File;
-  ocrResult?: {
-    store: string;
-    date: string;
-    amount: number;
-  };
+  receiptUrl?: string;
+  receiptMetadata?: ReceiptMetadata;
+  invoiceValidation?: InvoiceValidationResult;
+  storedDocumentId?: string;
+  storedDocument?: StoredDocument;
+}
+
+interface OcrDraft {
+  storeName: string;
+  date: string;
+  totalAmount: number;
+  invoiceNumber: string;
 }
 
+// 読み取り信頼度の表示
+const getConfidenceBadge = (confidence: number) => {
+  const percent = Math.round(confidence * 100);
+  if (confidence >= 0.8) {
+    return <span className="px-2 py-0.5 rounded-full text-xs bg-emerald-100 text-emerald-700">信頼度 {percent}%</span>;
+  }
+  if (confidence >= 0.5) {
+    return <span className="px-2 py-0.5 rounded-full text-xs bg-amber-100 text-amber-700">信頼度 {percent}% 要確認</span>;
+  }
+  return <span className="px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-700">{confidence > 0 ? `信頼度 ${percent}% 要確認` : '読み取れませんでした'}</span>;
+};
+
 function ExpenseApplication({ onNavigate }: ExpenseApplicationProps) {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [expenses, setExpenses] = useState<ExpenseItem[]>([
@@ -35,11 +59,19 @@ function ExpenseApplication({ onNavigate }: ExpenseApplicationProps) {
 
   const [showOCRModal, setShowOCRModal] = useState(false);
   const [currentExpenseId, setCurrentExpenseId] = useState<string>('');
-  const [ocrResult, setOcrResult] = useState({
-    store: '',
+  const [ocrMetadata, setOcrMetadata] = useState<ReceiptMetadata | null>(null);
+  const [ocrReceiptUrl, setOcrReceiptUrl] = useState<string | undefined>(undefined);
+  const [ocrUpload, setOcrUpload] = useState<{ path: string, sha256: string } | undefined>(undefined);
+  const [ocrDraft, setOcrDraft] = useState<OcrDraft>({
+    storeName: '',
     date: '',
-    amount: 0
+    totalAmount: 0,
+    invoiceNumber: ''
   });
+  const [processingExpenseId, setProcessingExpenseId] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const { uploadReceipt, archiveReceipt } = useFileUpload();
+  const { createApplication, transitionApplication } = useApplications();
 
   const categories = ['交通費', '宿泊費', '日当', '雑費'];
 
@@ -66,32 +98,145 @@ function ExpenseApplication({ onNavigate }: ExpenseApplicationProps) {
     }
   };
 
-  const handleReceiptUpload = (expenseId: string, file: File) => {
+  const handleReceiptUpload = async (expenseId: string, file: File) => {
     updateExpense(expenseId, 'receipt', file);
     setCurrentExpenseId(expenseId);
-    // OCR処理をシミュレート
-    setTimeout(() => {
-      setOcrResult({
-        store: 'サンプル店舗',
-        date: new Date().toISOString().split('T')[0],
-        amount: Math.floor(Math.random() * 10000) + 1000
+    setProcessingExpenseId(expenseId);
+
+    try {
+      let metadata: ReceiptMetadata | null = null;
+      let receiptUrl: string | undefined;
+      let upload: { path: string, sha256: string } | undefined;
+
+      if (localStorage.getItem('demoMode') === 'true') {
+        // デモモードではアップロードせずに読み取りのみ行う
+        metadata = await extractReceipt(file, file.name);
+      } else {
+        const result = await uploadReceipt(file);
+        if (!result.success) {
+          alert(`領収書のアップロードに失敗しました: ${result.error}`);
+          return;
+        }
+        metadata = result.receiptMetadata || null;
+        receiptUrl = result.url;
+        upload = result.path && result.sha256 ? { path: result.path, sha256: result.sha256 } : undefined;
+        if (result.ocrError) {
+          alert('領収書の読み取りに失敗しました。内容を手入力してください。');
+        }
+      }
+
+      setOcrMetadata(metadata);
+      setOcrReceiptUrl(receiptUrl);
+      setOcrUpload(upload);
+      setOcrDraft({
+        storeName: metadata?.storeName.value || '',
+        date: metadata?.date.value || '',
+        totalAmount: metadata?.totalAmount.value || 0,
+        invoiceNumber: metadata?.invoiceNumber.value || ''
       });
       setShowOCRModal(true);
-    }, 1000);
+    } finally {
+      setProcessingExpenseId(null);
+    }
   };
 
-  const confirmOCRResult = () => {
-    updateExpense(currentExpenseId, 'ocrResult', ocrResult);
-    updateExpense(currentExpenseId, 'date', ocrResult.date);
-    updateExpense(currentExpenseId, 'amount', ocrResult.amount);
+  const confirmOCRResult = async () => {
+    const receiptMetadata = ocrMetadata ? applyReceiptCorrections(ocrMetadata, ocrDraft) : undefined;
+    const target = expenses.find(expense => expense.id === currentExpenseId);
+    const date = ocrDraft.date || target?.date || '';
+    const amount = ocrDraft.totalAmount || target?.amount || 0;
     setShowOCRModal(false);
+
+    // 適格請求書の要件を満たすか確認する
+    const invoiceValidation = await validateExpenseInvoice({
+      date,
+      amount,
+      category: target?.category,
+      receiptMetadata
+    });
+
+    // 電子帳簿保存法の検索要件（取引年月日・金額・取引先）とともにタイムスタンプを付与して保存する
+    let storedDocument: StoredDocument | undefined;
+    if (ocrUpload && target?.receipt) {
+      const archived = await archiveReceipt(target.receipt, ocrUpload, {
+        transactionDate: date,
+        amount,
+        counterparty: ocrDraft.storeName,
+        invoiceNumber: ocrDraft.invoiceNumber
+      });
+      if (archived.success) {
+        storedDocument = archived.document;
+      } else {
+        alert(`領収書の電子保存に失敗しました: ${archived.error}`);
+      }
+    }
+
+    setExpenses(prev => prev.map(expense =>
+      expense.id === currentExpenseId
+        ? {
+            ...expense,
+            receiptUrl: ocrReceiptUrl,
+            storedDocumentId: storedDocument?.id,
+            storedDocument,
+            receiptMetadata,
+            invoiceValidation,
+            date,
+            amount,
+            description: expense.description || ocrDraft.storeName
+          }
+        : expense
+    ));
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    console.log('経費申請データ:', expenses);
-    alert('経費申請が送信されました！');
-    onNavigate('dashboard');
+    if (submitting) return;
+
+    try {
+      setSubmitting(true);
+      // 入力後に変更された種別・金額を反映して再判定する
+      const validatedExpenses = await Promise.all(expenses.map(async expense => ({
+        ...expense,
+        invoiceValidation: await validateExpenseInvoice({
+          date: expense.date,
+          amount: expense.amount,
+          category: expense.category,
+          receiptMetadata: expense.receiptMetadata
+        })
+      })));
+      setExpenses(validatedExpenses);
+
+      if (localStorage.getItem('demoMode') === 'true') {
+        alert('デモモードのため申請は保存されません');
+        onNavigate('dashboard');
+        return;
+      }
+
+      // 領収書の読み取り結果・電子保存した書類は経費項目とともに保存する
+      const result = await createApplication('expense', `経費申請（${validatedExpenses.length}件）`, {
+        expenseItems: validatedExpenses.map(expense => ({
+          category: expense.category,
+          date: expense.date,
+          amount: expense.amount,
+          description: expense.description,
+          receiptUrl: expense.receiptUrl,
+          receiptMetadata: expense.receiptMetadata,
+          storedDocumentId: expense.storedDocumentId,
+          invoiceValidation: expense.invoiceValidation
+        }))
+      });
+      if (!result.success || !result.application) throw new Error(result.error);
+
+      const submitted = await transitionApplication(result.application.id as string, 'submit');
+      alert(submitted.success
+        ? '経費申請を提出しました'
+        : `申請を下書きとして保存しましたが、提出に失敗しました: ${submitted.error}`);
+      onNavigate('dashboard');
+    } catch (err) {
+      alert(`経費申請を作成できませんでした: ${err instanceof Error ? err.message : ''}`);
+    } finally {
+      setSubmitting(false);
+    }
   };
 
   const onBack = () => {
@@ -252,9 +397,38 @@ function ExpenseApplication({ onNavigate }: ExpenseApplicationProps) {
                                 <FileText className="w-4 h-4 inline mr-1" />
                                 {expense.receipt.name}
                               </p>
-                              {expense.ocrResult && (
+                              {processingExpenseId === expense.id && (
+                                <div className="mt-2 flex items-center text-xs text-slate-600">
+                                  <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                                  領収書を読み取り中...
+                                </div>
+                              )}
+                              {expense.receiptMetadata && (
                                 <div className="mt-2 text-xs text-slate-600">
-                                  OCR結果: {expense.ocrResult.store} - ¥{expense.ocrResult.amount.toLocaleString()}
+                                  OCR結果: {expense.receiptMetadata.storeName.value || '店舗名不明'} - ¥{expense.receiptMetadata.totalAmount.value.toLocaleString()}
+                                  {expense.receiptMetadata.invoiceNumber.value && ` / 登録番号 ${expense.receiptMetadata.invoiceNumber.value}`}
+                                </div>
+                              )}
+                              {expense.storedDocument && (
+                                <div className="mt-2 flex items-center text-xs text-emerald-700">
+                                  <ShieldCheck className="w-3 h-3 mr-1" />
+                                  タイムスタンプ付与済み（{new Date(expense.storedDocument.timestamped_at).toLocaleString('ja-JP')} / SHA-256 {expense.storedDocument.sha256.slice(0, 12)}…）
+                                </div>
+                              )}
+                              {expense.invoiceValidation && (
+                                <div className="mt-2 text-xs">
+                                  <div className={`flex items-center ${expense.invoiceValidation.creditRatio === 1 ? 'text-emerald-700' : 'text-amber-700'}`}>
+                                    {expense.invoiceValidation.creditRatio === 1
+                                      ? <ShieldCheck className="w-3 h-3 mr-1" />
+                                      : <AlertTriangle className="w-3 h-3 mr-1" />}
+                                    {INPUT_TAX_CREDIT_LABELS[expense.invoiceValidation.inputTaxCredit]}
+                                    {expense.invoiceValidation.exemptionReason && `（${expense.invoiceValidation.exemptionReason}）`}
+                                  </div>
+                                  {expense.invoiceValidation.issues.map((issue, issueIndex) => (
+                                    <p key={issueIndex} className={issue.severity === 'error' ? 'text-red-600' : 'text-slate-500'}>
+                                      ・{issue.message}
+                                    </p>
+                                  ))}
                                 </div>
                               )}
                             </div>
@@ -284,10 +458,11 @@ function ExpenseApplication({ onNavigate }: ExpenseApplicationProps) {
                   </button>
                   <button
                     type="submit"
-                    className="flex items-center space-x-2 px-6 py-3 bg-gradient-to-r from-navy-700 to-navy-900 hover:from-navy-800 hover:to-navy-950 text-white rounded-lg font-medium shadow-xl hover:shadow-2xl transition-all duration-200 transform hover:scale-105"
+                    disabled={submitting}
+                    className="flex items-center space-x-2 px-6 py-3 bg-gradient-to-r from-navy-700 to-navy-900 hover:from-navy-800 hover:to-navy-950 text-white rounded-lg font-medium shadow-xl hover:shadow-2xl transition-all duration-200 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <Save className="w-5 h-5" />
-                    <span>申請を送信</span>
+                    <span>{submitting ? '送信中...' : '申請を送信'}</span>
                   </button>
                 </div>
               </form>
@@ -302,33 +477,75 @@ function ExpenseApplication({ onNavigate }: ExpenseApplicationProps) {
           <div className="bg-white rounded-xl p-6 max-w-md w-full">
             <h3 className="text-lg font-semibold text-slate-800 mb-4">OCR結果確認</h3>
             <div className="space-y-4">
+              {ocrMetadata && !ocrMetadata.rawText && (
+                <p className="text-sm text-amber-700 bg-amber-50 rounded-lg p-3">
+                  {ocrMetadata.engine === 'local'
+                    ? 'OCRサービスが設定されていないため、領収書の文字を読み取れません。内容を手入力してください。'
+                    : '領収書の文字を読み取れませんでした。内容を手入力してください。'}
+                </p>
+              )}
               <div>
-                <label className="block text-sm font-medium text-slate-700 mb-2">店舗名</label>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-slate-700">店舗名</label>
+                  {ocrMetadata && getConfidenceBadge(ocrMetadata.storeName.confidence)}
+                </div>
                 <input
                   type="text"
-                  value={ocrResult.store}
-                  onChange={(e) => setOcrResult(prev => ({ ...prev, store: e.target.value }))}
+                  value={ocrDraft.storeName}
+                  onChange={(e) => setOcrDraft(prev => ({ ...prev, storeName: e.target.value }))}
                   className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-navy-400"
                 />
               </div>
               <div>
-                <label className="block text-sm font-medium text-slate-700 mb-2">日付</label>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-slate-700">日付</label>
+                  {ocrMetadata && getConfidenceBadge(ocrMetadata.date.confidence)}
+                </div>
                 <input
                   type="date"
-                  value={ocrResult.date}
-                  onChange={(e) => setOcrResult(prev => ({ ...prev, date: e.target.value }))}
+                  value={ocrDraft.date}
+                  onChange={(e) => setOcrDraft(prev => ({ ...prev, date: e.target.value }))}
                   className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-navy-400"
                 />
               </div>
               <div>
-                <label className="block text-sm font-medium text-slate-700 mb-2">金額</label>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-slate-700">合計金額</label>
+                  {ocrMetadata && getConfidenceBadge(ocrMetadata.totalAmount.confidence)}
+                </div>
                 <input
                   type="number"
-                  value={ocrResult.amount}
-                  onChange={(e) => setOcrResult(prev => ({ ...prev, amount: parseInt(e.target.value) || 0 }))}
+                  value={ocrDraft.totalAmount}
+                  onChange={(e) => setOcrDraft(prev => ({ ...prev, totalAmount: parseInt(e.target.value) || 0 }))}
                   className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-navy-400"
                 />
               </div>
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-slate-700">登録番号（インボイス）</label>
+                  {ocrMetadata && getConfidenceBadge(ocrMetadata.invoiceNumber.confidence)}
+                </div>
+                <input
+                  type="text"
+                  value={ocrDraft.invoiceNumber}
+                  onChange={(e) => setOcrDraft(prev => ({ ...prev, invoiceNumber: e.target.value.toUpperCase() }))}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-navy-400"
+                  placeholder="T1234567890123"
+                />
+              </div>
+              {ocrMetadata && ocrMetadata.taxBreakdown.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">税率別内訳</label>
+                  <div className="space-y-1">
+                    {ocrMetadata.taxBreakdown.map(item => (
+                      <div key={item.rate} className="flex items-center justify-between text-sm text-slate-700">
+                        <span>{item.rate}%対象 ¥{item.taxableAmount.toLocaleString()}（消費税 ¥{item.taxAmount.toLocaleString()}）</span>
+                        {getConfidenceBadge(item.confidence)}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
             <div className="flex justify-end space-x-3 mt-6">
               <button
@@ -0,0 +1,345 @@
+import { useEffect, useState } from 'react';
+import { BarChart3, CalendarClock, RefreshCw, AlertTriangle, CheckCircle, ShieldAlert } from 'lucide-react';
+import { useExpenseReports } from '../hooks/useExpenseReports';
+import { usePermissions } from '../hooks/usePermissions';
+import { useTravelRegulations } from '../hooks/useTravelRegulations';
+import { formatYen } from '../lib/documentGenerator';
+import {
+  DEFAULT_FISCAL_YEAR_START_MONTH,
+  getFiscalYearPeriod,
+  getJobPeriod,
+  getLastClosedFiscalYear,
+  getMonthlyPeriod,
+  getPreviousMonth,
+  REPORT_JOB_STATUS_LABELS,
+  REPORT_PERIOD_TYPE_LABELS,
+  type ExpenseReport,
+  type ReportJobStatus,
+  type ReportPeriodType
+} from '../lib/expenseReports';
+
+interface ExpenseReportGeneratorProps {
+  periodType: ReportPeriodType;
+  onChange: (report: ExpenseReport | null) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 bg-white/50 border border-white/40 rounded-lg text-slate-700 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-navy-400 backdrop-blur-xl';
+
+const JOB_STATUS_COLORS: { [status in ReportJobStatus]: string } = {
+  pending: 'text-slate-700 bg-slate-100',
+  processing: 'text-blue-700 bg-blue-100',
+  completed: 'text-emerald-700 bg-emerald-100',
+  error: 'text-red-700 bg-red-100'
+};
+
+const MONTHS = Array.from({ length: 12 }, (_, index) => index + 1);
+
+function ExpenseReportGenerator({ periodType, onChange }: ExpenseReportGeneratorProps) {
+  const { can, loading: permissionsLoading } = usePermissions();
+  const { activeRegulation } = useTravelRegulations();
+  const { schedule, jobs, loadReport, saveSchedule, retry, refetch } = useExpenseReports({
+    regulation: activeRegulation
+  });
+  const fiscalYearStartMonth = schedule?.fiscal_year_start_month || DEFAULT_FISCAL_YEAR_START_MONTH;
+
+  const [month, setMonth] = useState(() => getPreviousMonth());
+  const [fiscalYear, setFiscalYear] = useState(() => getLastClosedFiscalYear());
+  const [department, setDepartment] = useState('');
+  const [report, setReport] = useState<ExpenseReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const period = periodType === 'monthly' ? getMonthlyPeriod(month) : getFiscalYearPeriod(fiscalYear, fiscalYearStartMonth);
+  const fiscalYears = Array.from({ length: 5 }, (_, index) => getLastClosedFiscalYear(fiscalYearStartMonth) + 1 - index);
+
+  const [scheduleDraft, setScheduleDraft] = useState({
+    monthly_enabled: false,
+    annual_enabled: false,
+    fiscal_year_start_month: DEFAULT_FISCAL_YEAR_START_MONTH
+  });
+
+  useEffect(() => {
+    if (!schedule) return;
+    setScheduleDraft({
+      monthly_enabled: schedule.monthly_enabled,
+      annual_enabled: schedule.annual_enabled,
+      fiscal_year_start_month: schedule.fiscal_year_start_month
+    });
+  }, [schedule]);
+
+  // 条件を変えたら集計し直すまで出力できないようにする
+  useEffect(() => {
+    setReport(null);
+  }, [periodType, month, fiscalYear, fiscalYearStartMonth, department]);
+
+  useEffect(() => {
+    onChange(report);
+  }, [report, onChange]);
+
+  const handleLoad = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setReport(await loadReport(period, department.trim() || null));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'レポートを集計できませんでした');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveSchedule = async () => {
+    const result = await saveSchedule(scheduleDraft);
+    alert(result.success ? '自動作成の設定を保存しました' : `設定を保存できませんでした: ${result.error}`);
+  };
+
+  const handleRetry = async (job: (typeof jobs)[number]) => {
+    const result = await retry(job);
+    if (!result.success) alert(result.error);
+  };
+
+  if (!permissionsLoading && !can('view_admin_dashboard')) {
+    return (
+      <div className="text-center py-12">
+        <ShieldAlert className="w-12 h-12 text-slate-400 mx-auto mb-3" />
+        <p className="text-slate-700">{REPORT_PERIOD_TYPE_LABELS[periodType]}は組織のオーナー・管理者のみ作成できます。</p>
+      </div>
+    );
+  }
+
+  const overTrips = report?.trips.filter(trip => trip.overAmount > 0) || [];
+  const periodJobs = jobs.filter(job => job.period_type === periodType);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">
+            {periodType === 'monthly' ? '対象月' : `対象年度（${fiscalYearStartMonth}月始まり）`}
+          </label>
+          {periodType === 'monthly' ? (
+            <input type="month" value={month} onChange={(e) => e.target.value && setMonth(e.target.value)} className={inputClass} />
+          ) : (
+            <select value={fiscalYear} onChange={(e) => setFiscalYear(Number(e.target.value))} className={inputClass}>
+              {fiscalYears.map(year => (
+                <option key={year} value={year}>{year}年度</option>
+              ))}
+            </select>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">部署（任意）</label>
+          <input type="text" value={department} onChange={(e) => setDepartment(e.target.value)} className={inputClass} placeholder="全部署" />
+        </div>
+        <button
+          type="button"
+          onClick={handleLoad}
+          disabled={loading}
+          className="flex items-center justify-center space-x-2 px-4 py-2 bg-gradient-to-r from-navy-600 to-navy-800 text-white rounded-lg font-medium hover:from-navy-700 hover:to-navy-900 transition-all duration-200 disabled:opacity-50"
+        >
+          <BarChart3 className="w-4 h-4" />
+          <span>{loading ? '集計中...' : '集計する'}</span>
+        </button>
+      </div>
+      <p className="text-xs text-slate-600">
+        {period.start} 〜 {period.end} に承認された出張・経費申請を集計します。規程の支給額は運用中の出張旅費規程で計算します。
+      </p>
+
+      {error && (
+        <div className="flex items-center p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <AlertTriangle className="w-4 h-4 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {report && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="p-4 bg-white/30 rounded-lg text-center">
+              <p className="text-sm text-slate-600">承認済み申請</p>
+              <p className="text-2xl font-bold text-slate-800">{report.summary.applicationCount}件</p>
+              <p className="text-xs text-slate-500">{report.summary.personCount}名</p>
+            </div>
+            <div className="p-4 bg-white/30 rounded-lg text-center">
+              <p className="text-sm text-slate-600">出張</p>
+              <p className="text-2xl font-bold text-slate-800">{formatYen(report.summary.businessTripAmount)}</p>
+              <p className="text-xs text-slate-500">{report.summary.businessTripCount}件</p>
+            </div>
+            <div className="p-4 bg-white/30 rounded-lg text-center">
+              <p className="text-sm text-slate-600">経費</p>
+              <p className="text-2xl font-bold text-slate-800">{formatYen(report.summary.expenseAmount)}</p>
+              <p className="text-xs text-slate-500">{report.summary.expenseCount}件</p>
+            </div>
+            <div className="p-4 bg-gradient-to-r from-navy-600 to-navy-800 rounded-lg text-center text-white">
+              <p className="text-sm text-navy-100">合計</p>
+              <p className="text-2xl font-bold">{formatYen(report.summary.totalAmount)}</p>
+            </div>
+          </div>
+
+          <div className={`flex items-center p-3 rounded-lg text-sm ${overTrips.length > 0 ? 'bg-amber-50 border border-amber-200 text-amber-800' : 'bg-emerald-50 border border-emerald-200 text-emerald-800'}`}>
+            {overTrips.length > 0 ? <AlertTriangle className="w-4 h-4 mr-2" /> : <CheckCircle className="w-4 h-4 mr-2" />}
+            規程の支給額 {formatYen(report.summary.allowanceTotal)}（{report.regulation.name} {report.regulation.version}）
+            {overTrips.length > 0 ? ` に対し、${overTrips.length}件の出張で計${formatYen(report.summary.overAmount)}超過しています` : ' の範囲内です'}
+          </div>
+
+          <div>
+            <h3 className="text-lg font-semibold text-slate-800 mb-2">申請者別</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-600 border-b border-white/40">
+                    <th className="py-2 pr-4">氏名</th>
+                    <th className="py-2 pr-4">部署</th>
+                    <th className="py-2 pr-4 text-right">件数</th>
+                    <th className="py-2 pr-4 text-right">出張</th>
+                    <th className="py-2 pr-4 text-right">経費</th>
+                    <th className="py-2 pr-4 text-right">合計</th>
+                    <th className="py-2 text-right">超過額</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.byPerson.map(person => (
+                    <tr key={person.userId} className="border-b border-white/20">
+                      <td className="py-2 pr-4 text-slate-800">{person.userName}</td>
+                      <td className="py-2 pr-4 text-slate-600">{person.department}</td>
+                      <td className="py-2 pr-4 text-right">{person.applicationCount}</td>
+                      <td className="py-2 pr-4 text-right">{formatYen(person.businessTripAmount)}</td>
+                      <td className="py-2 pr-4 text-right">{formatYen(person.expenseAmount)}</td>
+                      <td className="py-2 pr-4 text-right font-medium">{formatYen(person.totalAmount)}</td>
+                      <td className={`py-2 text-right ${person.overAmount > 0 ? 'text-amber-700 font-medium' : 'text-slate-400'}`}>
+                        {person.overAmount > 0 ? formatYen(person.overAmount) : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {report.byPerson.length === 0 && (
+                <p className="text-sm text-slate-500 py-4 text-center">対象期間に承認された申請はありません</p>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <h3 className="text-lg font-semibold text-slate-800 mb-2">経費区分別</h3>
+              <div className="space-y-1">
+                {report.byCategory.map(row => (
+                  <div key={row.category} className="flex justify-between text-sm p-2 bg-white/30 rounded-lg">
+                    <span className="text-slate-700">{row.category}（{row.lineCount}件）</span>
+                    <span className="font-medium text-slate-800">{formatYen(row.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-slate-800 mb-2">出張先別</h3>
+              <div className="space-y-1">
+                {report.byDestination.map(row => (
+                  <div key={row.destination} className="flex justify-between text-sm p-2 bg-white/30 rounded-lg">
+                    <span className="text-slate-700">{row.destination}（{row.tripCount}件・{row.days}日）</span>
+                    <span className="font-medium text-slate-800">{formatYen(row.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {overTrips.length > 0 && (
+            <div>
+              <h3 className="text-lg font-semibold text-slate-800 mb-2">規程の支給額を超えた出張</h3>
+              <div className="space-y-1">
+                {overTrips.map(trip => (
+                  <div key={trip.applicationId} className="flex flex-wrap justify-between text-sm p-2 bg-amber-50/70 rounded-lg">
+                    <span className="text-slate-700">
+                      {trip.startDate}〜{trip.endDate} {trip.userName}（{trip.positionName}） {trip.destination}
+                    </span>
+                    <span className="text-slate-800">
+                      {formatYen(trip.actual.total)} / 規程 {formatYen(trip.allowance.total)}
+                      <span className="ml-2 font-medium text-amber-700">+{formatYen(trip.overAmount)}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="p-4 bg-white/30 rounded-lg space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center text-sm font-medium text-slate-700">
+            <CalendarClock className="w-4 h-4 mr-1" />
+            締め後の自動作成
+          </div>
+          <button type="button" onClick={() => refetch()} className="p-1 text-slate-600 hover:text-slate-800" title="再読み込み">
+            <RefreshCw className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="flex flex-wrap items-center gap-4 text-sm text-slate-700">
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={scheduleDraft.monthly_enabled}
+              disabled={!can('manage_organization_settings')}
+              onChange={(e) => setScheduleDraft(prev => ({ ...prev, monthly_enabled: e.target.checked }))}
+            />
+            <span>月次レポート（毎月の締め後）</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={scheduleDraft.annual_enabled}
+              disabled={!can('manage_organization_settings')}
+              onChange={(e) => setScheduleDraft(prev => ({ ...prev, annual_enabled: e.target.checked }))}
+            />
+            <span>年次レポート（年度の締め後）</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <span>年度の開始月</span>
+            <select
+              value={scheduleDraft.fiscal_year_start_month}
+              disabled={!can('manage_organization_settings')}
+              onChange={(e) => setScheduleDraft(prev => ({ ...prev, fiscal_year_start_month: Number(e.target.value) }))}
+              className="px-2 py-1 bg-white/50 border border-white/40 rounded-lg"
+            >
+              {MONTHS.map(value => (
+                <option key={value} value={value}>{value}月</option>
+              ))}
+            </select>
+          </label>
+          {can('manage_organization_settings') && (
+            <button type="button" onClick={handleSaveSchedule} className="text-xs px-3 py-1 bg-navy-600 hover:bg-navy-700 text-white rounded-lg">
+              設定を保存
+            </button>
+          )}
+        </div>
+        <p className="text-xs text-slate-600">
+          締め日の翌日に作成待ちとして登録され、サーバーで PDF と Excel を作成して書類管理に保存します（画面を開いている必要はありません）。
+        </p>
+
+        {periodJobs.length > 0 && (
+          <div className="space-y-1">
+            {periodJobs.map(job => (
+              <div key={job.id} className="flex items-center justify-between text-sm p-2 bg-white/40 rounded-lg">
+                <span className="text-slate-700">{getJobPeriod(job).label}</span>
+                <div className="flex items-center space-x-2">
+                  {job.error_message && <span className="text-xs text-red-600 truncate max-w-xs">{job.error_message}</span>}
+                  <span className={`text-xs px-2 py-0.5 rounded-full ${JOB_STATUS_COLORS[job.status]}`}>
+                    {REPORT_JOB_STATUS_LABELS[job.status]}
+                  </span>
+                  {job.status === 'error' && (
+                    <button type="button" onClick={() => handleRetry(job)} className="p-1 text-slate-600 hover:text-slate-800" title="再作成">
+                      <RefreshCw className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ExpenseReportGenerator;
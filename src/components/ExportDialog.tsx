@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { downloadFile } from '../lib/documentGenerator';
+import {
+  EXPORT_FORMAT_LABELS,
+  loadExportColumnKeys,
+  saveExportColumnKeys,
+  type ExportFormat,
+  type ExportResult
+} from '../lib/dataExport';
+
+export type ExportScope = 'filtered' | 'all';
+
+export interface ExportRequest {
+  format: ExportFormat;
+  columnKeys: string[];
+  scope: ExportScope;
+  onProgress: (rowCount: number) => void;
+}
+
+interface ExportDialogProps {
+  title: string;
+  columns: { key: string; label: string }[];
+  // 列の選択を保存する localStorage のキー
+  storageKey: string;
+  filteredCount: number;
+  // 全履歴（Supabase からページ単位で取得）を出力できるか
+  allowFullHistory: boolean;
+  onExport: (request: ExportRequest) => Promise<ExportResult>;
+  onClose: () => void;
+}
+
+function ExportDialog({ title, columns, storageKey, filteredCount, allowFullHistory, onExport, onClose }: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>('csv-utf8');
+  const [scope, setScope] = useState<ExportScope>('filtered');
+  const [columnKeys, setColumnKeys] = useState<string[]>(() => loadExportColumnKeys(storageKey, columns));
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const toggleColumn = (key: string) => {
+    setColumnKeys(prev => prev.includes(key) ? prev.filter(item => item !== key) : [...prev, key]);
+  };
+
+  const handleExport = async () => {
+    if (columnKeys.length === 0) {
+      alert('出力する列を1つ以上選択してください。');
+      return;
+    }
+
+    // 列の並びは定義順に揃える
+    const orderedKeys = columns.map(column => column.key).filter(key => columnKeys.includes(key));
+    saveExportColumnKeys(storageKey, orderedKeys);
+
+    try {
+      setProgress(0);
+      const file = await onExport({ format, columnKeys: orderedKeys, scope, onProgress: setProgress });
+      downloadFile(file);
+      alert(`${file.rowCount}件を出力しました`);
+      onClose();
+    } catch (error) {
+      console.error('Export failed:', error);
+      alert('出力に失敗しました: ' + (error instanceof Error ? error.message : 'Failed to export'));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <h3 className="text-lg font-semibold text-slate-800 mb-6">{title}</h3>
+
+        <h4 className="text-sm font-semibold text-slate-700 mb-2">出力範囲</h4>
+        <div className="space-y-2 mb-6">
+          <label className="flex items-center space-x-2 text-sm text-slate-700">
+            <input type="radio" checked={scope === 'filtered'} onChange={() => setScope('filtered')} />
+            <span>表示中の{filteredCount}件</span>
+          </label>
+          {allowFullHistory && (
+            <label className="flex items-center space-x-2 text-sm text-slate-700">
+              <input type="radio" checked={scope === 'all'} onChange={() => setScope('all')} />
+              <span>全履歴（絞り込み条件に関係なくすべて）</span>
+            </label>
+          )}
+        </div>
+
+        <h4 className="text-sm font-semibold text-slate-700 mb-2">ファイル形式</h4>
+        <div className="space-y-2 mb-6">
+          {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(item => (
+            <label key={item} className="flex items-center space-x-2 text-sm text-slate-700">
+              <input type="radio" checked={format === item} onChange={() => setFormat(item)} />
+              <span>{EXPORT_FORMAT_LABELS[item]}</span>
+            </label>
+          ))}
+          <p className="text-xs text-slate-500">Windows版のExcelでCSVを開く場合はShift_JISを選択してください。</p>
+        </div>
+
+        <h4 className="text-sm font-semibold text-slate-700 mb-2">出力する列</h4>
+        <div className="grid grid-cols-2 gap-2 mb-6">
+          {columns.map(column => (
+            <label key={column.key} className="flex items-center space-x-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={columnKeys.includes(column.key)}
+                onChange={() => toggleColumn(column.key)}
+              />
+              <span>{column.label}</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-end space-x-3">
+          {progress !== null && (
+            <span className="text-sm text-slate-500 mr-auto">{progress}件を処理中...</span>
+          )}
+          <button
+            onClick={onClose}
+            disabled={progress !== null}
+            className="px-4 py-2 text-slate-600 hover:text-slate-800 transition-colors disabled:opacity-50"
+          >
+            キャンセル
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={progress !== null}
+            className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-emerald-600 to-emerald-800 text-white rounded-lg font-medium hover:from-emerald-700 hover:to-emerald-900 transition-all duration-200 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            <span>出力</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ExportDialog;
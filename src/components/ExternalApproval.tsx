@@ -1,50 +1,129 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { CheckCircle, XCircle, ArrowLeft, MessageSquare, Clock, User, Calendar } from 'lucide-react';
+import { getApprovalLink, submitApprovalLinkDecision } from '../lib/supabase';
+import {
+  clearApprovalTokenFromUrl,
+  type ApprovalLinkAction,
+  type ApprovalLinkDetails,
+  type ApprovalLinkInvalidReason
+} from '../lib/approvalLinks';
+import ApprovalLinkExpired from './ApprovalLinkExpired';
+import ExternalApprovalComplete from './ExternalApprovalComplete';
 
 interface ExternalApprovalProps {
-  applicationId: string;
-  onComplete: (result: 'approved' | 'returned' | 'rejected', comment: string) => void;
+  token: string;
 }
 
-function ExternalApproval({ applicationId, onComplete }: ExternalApprovalProps) {
+interface InvalidLink {
+  reason: ApprovalLinkInvalidReason;
+  applicationId?: string;
+  expiresAt?: string;
+  usedAt?: string | null;
+}
+
+function ExternalApproval({ token }: ExternalApprovalProps) {
   const [comment, setComment] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [details, setDetails] = useState<Extract<ApprovalLinkDetails, { valid: true }> | null>(null);
+  const [invalidLink, setInvalidLink] = useState<InvalidLink | null>(null);
+  const [completed, setCompleted] = useState<{ result: ApprovalLinkAction, comment: string, applicationId: string } | null>(null);
 
-  // サンプルデータ（実際の実装では、applicationIdに基づいてデータを取得）
-  const applicationData = {
-    id: 'BT-2024-001',
-    type: 'business-trip',
-    title: '東京出張申請',
-    applicant: '田中太郎',
-    department: '営業部',
-    submittedDate: '2024-07-20',
-    purpose: 'クライアント訪問および新規開拓営業',
-    startDate: '2024-07-25',
-    endDate: '2024-07-27',
-    destination: '東京都港区',
-    estimatedAmount: 52500,
-    details: {
-      dailyAllowance: 15000,
-      transportation: 22500,
-      accommodation: 15000
-    }
-  };
+  useEffect(() => {
+    const loadLink = async () => {
+      setLoading(true);
+      const response = await getApprovalLink(token);
+      if (!response.success || !response.details) {
+        setLoadError(response.error || '承認リンクの読み込みに失敗しました');
+      } else if (response.details.valid) {
+        setDetails(response.details);
+      } else {
+        setInvalidLink({
+          reason: response.details.reason,
+          applicationId: response.details.application_id,
+          expiresAt: response.details.expires_at,
+          usedAt: response.details.used_at
+        });
+      }
+      setLoading(false);
+    };
+
+    loadLink();
+  }, [token]);
 
-  const handleAction = async (action: 'approved' | 'returned' | 'rejected') => {
+  const handleAction = async (action: ApprovalLinkAction) => {
     if (action !== 'approved' && !comment.trim()) {
       alert('コメントを入力してください。');
       return;
     }
 
     setIsSubmitting(true);
-    
-    // 実際の実装では、ここでAPIを呼び出す
-    setTimeout(() => {
-      onComplete(action, comment);
-      setIsSubmitting(false);
-    }, 1000);
+    const response = await submitApprovalLinkDecision(token, action, comment.trim());
+    setIsSubmitting(false);
+
+    if (!response.success || !response.result) {
+      alert(`処理に失敗しました: ${response.error}`);
+      return;
+    }
+
+    // 画面を開いている間に期限切れ・他の承認者による処理があった場合
+    if (!response.result.success) {
+      setInvalidLink({
+        reason: response.result.reason,
+        applicationId: response.result.application_id,
+        expiresAt: response.result.expires_at,
+        usedAt: response.result.used_at
+      });
+      return;
+    }
+
+    clearApprovalTokenFromUrl();
+    setCompleted({ result: action, comment: comment.trim(), applicationId: response.result.application_id });
   };
 
+  if (completed) {
+    return <ExternalApprovalComplete result={completed.result} applicationId={completed.applicationId} comment={completed.comment} />;
+  }
+
+  if (invalidLink) {
+    return (
+      <ApprovalLinkExpired
+        reason={invalidLink.reason}
+        applicationId={invalidLink.applicationId}
+        expiredAt={invalidLink.expiresAt}
+        usedAt={invalidLink.usedAt}
+      />
+    );
+  }
+
+  if (loading || loadError || !details) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 flex flex-col justify-center items-center p-4">
+        {loadError ? (
+          <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl text-center">
+            <p className="text-red-700 mb-4">{loadError}</p>
+            <button
+              onClick={() => window.location.reload()}
+              className="px-4 py-2 bg-navy-600 hover:bg-navy-700 text-white rounded-lg text-sm"
+            >
+              再読み込み
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-navy-600"></div>
+            <p className="mt-4 text-sm text-slate-600">承認リンクを確認中...</p>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  const { application, link } = details;
+  const trip = application.business_trip_details[0];
+  const formatDate = (value: string | null) => value ? new Date(value).toLocaleDateString('ja-JP') : '-';
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 relative overflow-hidden">
       <div className="absolute inset-0 bg-[url('data:image/svg+xml,%3Csvg width=%2260%22 height=%2260%22 viewBox=%220 0 60 60%22 xmlns=%22http://www.w3.org/2000/svg%22%3E%3Cg fill=%22none%22 fill-rule=%22evenodd%22%3E%3Cg fill=%22%23334155%22 fill-opacity=%220.03%22%3E%3Ccircle cx=%2230%22 cy=%2230%22 r=%221%22/%3E%3C/g%3E%3C/g%3E%3C/svg%3E')] opacity-40"></div>
@@ -61,7 +140,7 @@ function ExternalApproval({ applicationId, onComplete }: ExternalApprovalProps)
           {/* 申請詳細 */}
           <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl mb-6">
             <div className="flex items-center justify-between mb-6">
-              <h2 className="text-xl font-semibold text-slate-800">{applicationData.title}</h2>
+              <h2 className="text-xl font-semibold text-slate-800">{application.title}</h2>
               <span className="px-3 py-1 rounded-full text-sm font-medium text-amber-700 bg-amber-100">
                 承認待ち
               </span>
@@ -73,62 +152,94 @@ function ExternalApproval({ applicationId, onComplete }: ExternalApprovalProps)
                   <User className="w-5 h-5 text-slate-500" />
                   <div>
                     <p className="text-sm text-slate-600">申請者</p>
-                    <p className="font-medium text-slate-800">{applicationData.applicant} ({applicationData.department})</p>
+                    <p className="font-medium text-slate-800">
+                      {application.applicant?.full_name || '-'}
+                      {application.applicant?.department && ` (${application.applicant.department})`}
+                    </p>
                   </div>
                 </div>
                 <div className="flex items-center space-x-3">
                   <Calendar className="w-5 h-5 text-slate-500" />
                   <div>
                     <p className="text-sm text-slate-600">申請日</p>
-                    <p className="font-medium text-slate-800">{applicationData.submittedDate}</p>
+                    <p className="font-medium text-slate-800">{formatDate(application.submitted_at || application.created_at)}</p>
                   </div>
                 </div>
-                <div className="flex items-center space-x-3">
-                  <Clock className="w-5 h-5 text-slate-500" />
-                  <div>
-                    <p className="text-sm text-slate-600">出張期間</p>
-                    <p className="font-medium text-slate-800">
-                      {applicationData.startDate} ～ {applicationData.endDate}
-                    </p>
+                {trip && (
+                  <div className="flex items-center space-x-3">
+                    <Clock className="w-5 h-5 text-slate-500" />
+                    <div>
+                      <p className="text-sm text-slate-600">出張期間</p>
+                      <p className="font-medium text-slate-800">
+                        {formatDate(trip.start_date)} ～ {formatDate(trip.end_date)}
+                      </p>
+                    </div>
                   </div>
-                </div>
+                )}
               </div>
               
               <div className="space-y-4">
                 <div>
-                  <p className="text-sm text-slate-600 mb-1">訪問先</p>
-                  <p className="font-medium text-slate-800">{applicationData.destination}</p>
+                  <p className="text-sm text-slate-600 mb-1">承認ステップ</p>
+                  <p className="font-medium text-slate-800">
+                    {link.step_name || `ステップ${link.step}`}（{link.approver_name} 様）
+                  </p>
                 </div>
                 <div>
-                  <p className="text-sm text-slate-600 mb-1">予定金額</p>
-                  <p className="text-2xl font-bold text-slate-800">¥{applicationData.estimatedAmount.toLocaleString()}</p>
+                  <p className="text-sm text-slate-600 mb-1">{application.type === 'business_trip' ? '予定金額' : '申請金額'}</p>
+                  <p className="text-2xl font-bold text-slate-800">¥{Number(application.total_amount).toLocaleString()}</p>
                 </div>
               </div>
             </div>
 
-            <div className="mb-6">
-              <p className="text-sm text-slate-600 mb-2">出張目的</p>
-              <p className="text-slate-800 bg-white/30 rounded-lg p-4">{applicationData.purpose}</p>
-            </div>
+            {(trip?.purpose || application.description) && (
+              <div className="mb-6">
+                <p className="text-sm text-slate-600 mb-2">{trip ? '出張目的' : '申請内容'}</p>
+                <p className="text-slate-800 bg-white/30 rounded-lg p-4">{trip?.purpose || application.description}</p>
+              </div>
+            )}
 
             {/* 経費内訳 */}
-            <div>
-              <p className="text-sm text-slate-600 mb-3">経費内訳</p>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div className="bg-white/30 rounded-lg p-4 text-center">
-                  <p className="text-sm text-slate-600 mb-1">出張日当</p>
-                  <p className="text-lg font-bold text-slate-800">¥{applicationData.details.dailyAllowance.toLocaleString()}</p>
-                </div>
-                <div className="bg-white/30 rounded-lg p-4 text-center">
-                  <p className="text-sm text-slate-600 mb-1">交通費</p>
-                  <p className="text-lg font-bold text-slate-800">¥{applicationData.details.transportation.toLocaleString()}</p>
+            {trip && (
+              <div>
+                <p className="text-sm text-slate-600 mb-3">経費内訳</p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="bg-white/30 rounded-lg p-4 text-center">
+                    <p className="text-sm text-slate-600 mb-1">出張日当</p>
+                    <p className="text-lg font-bold text-slate-800">¥{Number(trip.estimated_daily_allowance).toLocaleString()}</p>
+                  </div>
+                  <div className="bg-white/30 rounded-lg p-4 text-center">
+                    <p className="text-sm text-slate-600 mb-1">交通費</p>
+                    <p className="text-lg font-bold text-slate-800">¥{Number(trip.estimated_transportation).toLocaleString()}</p>
+                  </div>
+                  <div className="bg-white/30 rounded-lg p-4 text-center">
+                    <p className="text-sm text-slate-600 mb-1">宿泊費</p>
+                    <p className="text-lg font-bold text-slate-800">¥{Number(trip.estimated_accommodation).toLocaleString()}</p>
+                  </div>
                 </div>
-                <div className="bg-white/30 rounded-lg p-4 text-center">
-                  <p className="text-sm text-slate-600 mb-1">宿泊費</p>
-                  <p className="text-lg font-bold text-slate-800">¥{applicationData.details.accommodation.toLocaleString()}</p>
+              </div>
+            )}
+
+            {application.expense_items.length > 0 && (
+              <div>
+                <p className="text-sm text-slate-600 mb-3">経費明細</p>
+                <div className="space-y-2">
+                  {application.expense_items.map((item, index) => (
+                    <div key={index} className="flex items-center justify-between bg-white/30 rounded-lg px-4 py-3">
+                      <div>
+                        <p className="font-medium text-slate-800">{item.description || item.category || '経費'}</p>
+                        <p className="text-xs text-slate-600">{formatDate(item.date)}{item.category && ` ・ ${item.category}`}</p>
+                      </div>
+                      <p className="font-bold text-slate-800">¥{Number(item.amount).toLocaleString()}</p>
+                    </div>
+                  ))}
                 </div>
               </div>
-            </div>
+            )}
+
+            <p className="mt-6 text-xs text-slate-500">
+              このリンクの有効期限：{new Date(link.expires_at).toLocaleString('ja-JP')}（1回のみ使用できます）
+            </p>
           </div>
 
           {/* コメント入力 */}
@@ -3,6 +3,7 @@ import StatsCards from './StatsCards';
 import QuickActions from './QuickActions';
 import RecentApplications from './RecentApplications';
 import ActivityFeed from './ActivityFeed';
+import { usePermissions } from '../hooks/usePermissions';
 
 interface MainContentProps {
   onNavigate: (view: string) => void;
@@ -12,14 +13,9 @@ interface MainContentProps {
 }
 
 function MainContent({ onNavigate, onShowDetail, onCreateApplication, onShowNotifications }: MainContentProps) {
-  // ユーザーの役割を取得（実際の実装では、ユーザー情報から取得）
-  const getUserRole = () => {
-    const userProfile = JSON.parse(localStorage.getItem('userProfile') || '{}');
-    return userProfile.role || 'user'; // デフォルトは一般ユーザー
-  };
-
-  const userRole = getUserRole();
-  const isAdmin = userRole === 'admin' || userRole === '管理者';
+  // 管理者ダッシュボードは組織のオーナー・管理者のみ（organization_members.role から判定）
+  const { can } = usePermissions();
+  const isAdmin = can('view_admin_dashboard');
 
   return (
     <div className="flex-1 overflow-auto p-4 lg:p-6">
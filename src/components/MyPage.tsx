@@ -2,6 +2,15 @@ import React, { useState, useEffect } from 'react';
 import { User, Settings, CreditCard, Bell, Users, HelpCircle, Edit, Save, Eye, EyeOff, Link } from 'lucide-react';
 import Sidebar from './Sidebar';
 import TopBar from './TopBar';
+import OrganizationManagement from './OrganizationManagement';
+import { useAuth } from '../hooks/useAuth';
+import { usePushNotifications } from '../hooks/usePushNotifications';
+import { getNotificationPreferences, saveNotificationPreferences } from '../lib/supabase';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  EMAIL_EVENT_LABELS,
+  type NotificationPreferences
+} from '../lib/notificationPreferences';
 
 interface MyPageProps {
   onNavigate: (view: string) => void;
@@ -22,13 +31,6 @@ interface UserProfile {
   };
 }
 
-interface NotificationSettings {
-  emailNotifications: boolean;
-  pushNotifications: boolean;
-  reminderTime: string;
-  approvalOnly: boolean;
-}
-
 function MyPage({ onNavigate }: MyPageProps) {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [activeTab, setActiveTab] = useState('profile');
@@ -52,12 +54,10 @@ function MyPage({ onNavigate }: MyPageProps) {
     }
   });
 
-  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings>({
-    emailNotifications: true,
-    pushNotifications: true,
-    reminderTime: '09:00',
-    approvalOnly: false
-  });
+  const { user } = useAuth();
+  const pushNotifications = usePushNotifications();
+  const isDemoMode = localStorage.getItem('demoMode') === 'true';
+  const [notificationSettings, setNotificationSettings] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
 
   const [passwordData, setPasswordData] = useState({
     current: '',
@@ -79,11 +79,52 @@ function MyPage({ onNavigate }: MyPageProps) {
     setShowPasswordModal(true);
   };
 
-  const handleNotificationSave = () => {
-    localStorage.setItem('notificationSettings', JSON.stringify(notificationSettings));
+  // 通知設定を読み込む（デモモードはローカルストレージに保存する）
+  useEffect(() => {
+    if (isDemoMode) {
+      const saved = localStorage.getItem('notificationSettings');
+      if (saved) setNotificationSettings({ ...DEFAULT_NOTIFICATION_PREFERENCES, ...JSON.parse(saved) });
+      return;
+    }
+    if (user) {
+      getNotificationPreferences(user.id).then(setNotificationSettings);
+    }
+  }, [user, isDemoMode]);
+
+  const handleNotificationSave = async () => {
+    if (isDemoMode) {
+      localStorage.setItem('notificationSettings', JSON.stringify(notificationSettings));
+      alert('通知設定が更新されました');
+      return;
+    }
+    if (!user) return;
+
+    const result = await saveNotificationPreferences(user.id, notificationSettings);
+    if (!result.success) {
+      alert(`通知設定の保存に失敗しました: ${result.error}`);
+      return;
+    }
+
+    // プッシュ通知の有効/無効に合わせてこの端末の購読を登録・解除する
+    if (pushNotifications.supported && notificationSettings.pushEnabled !== pushNotifications.subscribed) {
+      const pushResult = notificationSettings.pushEnabled
+        ? await pushNotifications.subscribe()
+        : await pushNotifications.unsubscribe();
+      if (!pushResult.success) {
+        alert(`通知設定は保存しましたが、プッシュ通知の${notificationSettings.pushEnabled ? '登録' : '解除'}に失敗しました: ${pushResult.error}`);
+        return;
+      }
+    }
     alert('通知設定が更新されました');
   };
 
+  const toggleEmailEvent = (event: NotificationPreferences['emailEvents'][number], enabled: boolean) => {
+    setNotificationSettings(prev => ({
+      ...prev,
+      emailEvents: enabled ? [...prev.emailEvents, event] : prev.emailEvents.filter(item => item !== event)
+    }));
+  };
+
   const handlePlanChange = (newPlan: string) => {
     const updatedProfile = { ...userProfile, currentPlan: newPlan };
     setUserProfile(updatedProfile);
@@ -202,8 +243,8 @@ function MyPage({ onNavigate }: MyPageProps) {
           <label className="relative inline-flex items-center cursor-pointer">
             <input
               type="checkbox"
-              checked={notificationSettings.emailNotifications}
-              onChange={(e) => setNotificationSettings(prev => ({ ...prev, emailNotifications: e.target.checked }))}
+              checked={notificationSettings.emailEnabled}
+              onChange={(e) => setNotificationSettings(prev => ({ ...prev, emailEnabled: e.target.checked }))}
               className="sr-only peer"
             />
             <div className="w-11 h-6 bg-slate-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-navy-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-navy-600"></div>
@@ -213,18 +254,81 @@ function MyPage({ onNavigate }: MyPageProps) {
         <div className="flex items-center justify-between p-4 bg-white/30 rounded-lg">
           <div>
             <h3 className="font-medium text-slate-800">プッシュ通知</h3>
-            <p className="text-sm text-slate-600">ブラウザでのプッシュ通知を受信</p>
+            <p className="text-sm text-slate-600">アプリを閉じていても承認依頼やリマインドを受信</p>
+            {!isDemoMode && (
+              <p className="text-xs text-slate-500 mt-1">
+                この端末: {!pushNotifications.supported ? '非対応のブラウザ' : pushNotifications.subscribed ? '登録済み' : '未登録'}
+              </p>
+            )}
           </div>
           <label className="relative inline-flex items-center cursor-pointer">
             <input
               type="checkbox"
-              checked={notificationSettings.pushNotifications}
-              onChange={(e) => setNotificationSettings(prev => ({ ...prev, pushNotifications: e.target.checked }))}
+              checked={notificationSettings.pushEnabled}
+              onChange={(e) => setNotificationSettings(prev => ({ ...prev, pushEnabled: e.target.checked }))}
               className="sr-only peer"
             />
             <div className="w-11 h-6 bg-slate-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-navy-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-navy-600"></div>
           </label>
         </div>
+
+        {notificationSettings.emailEnabled && (
+          <div className="p-4 bg-white/30 rounded-lg">
+            <h3 className="font-medium text-slate-800 mb-1">メールで受け取る通知</h3>
+            <p className="text-sm text-slate-600 mb-3">アプリ内の通知はすべて表示されます</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {EMAIL_EVENT_LABELS.map(({ event, label, description }) => (
+                <label key={event} className="flex items-start space-x-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={notificationSettings.emailEvents.includes(event)}
+                    onChange={(e) => toggleEmailEvent(event, e.target.checked)}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-slate-800">{label}</span>
+                    <span className="block text-xs text-slate-500">{description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="p-4 bg-white/30 rounded-lg">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="font-medium text-slate-800">通知停止時間帯</h3>
+              <p className="text-sm text-slate-600">この時間帯のメールは終了時刻にまとめて送信</p>
+            </div>
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={notificationSettings.quietHoursEnabled}
+                onChange={(e) => setNotificationSettings(prev => ({ ...prev, quietHoursEnabled: e.target.checked }))}
+                className="sr-only peer"
+              />
+              <div className="w-11 h-6 bg-slate-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-navy-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-navy-600"></div>
+            </label>
+          </div>
+          {notificationSettings.quietHoursEnabled && (
+            <div className="mt-4 flex items-center space-x-2">
+              <input
+                type="time"
+                value={notificationSettings.quietHoursStart}
+                onChange={(e) => setNotificationSettings(prev => ({ ...prev, quietHoursStart: e.target.value }))}
+                className="px-3 py-2 bg-white/50 border border-white/40 rounded-lg text-slate-700 focus:outline-none focus:ring-2 focus:ring-navy-400"
+              />
+              <span className="text-slate-600">〜</span>
+              <input
+                type="time"
+                value={notificationSettings.quietHoursEnd}
+                onChange={(e) => setNotificationSettings(prev => ({ ...prev, quietHoursEnd: e.target.value }))}
+                className="px-3 py-2 bg-white/50 border border-white/40 rounded-lg text-slate-700 focus:outline-none focus:ring-2 focus:ring-navy-400"
+              />
+            </div>
+          )}
+        </div>
       </div>
 
       <div className="flex justify-end">
@@ -295,6 +399,7 @@ function MyPage({ onNavigate }: MyPageProps) {
               <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl">
                 {activeTab === 'profile' && renderProfileTab()}
                 {activeTab === 'notifications' && renderNotificationsTab()}
+                {activeTab === 'users' && <OrganizationManagement />}
                 {/* 他のタブは省略 */}
               </div>
             </div>
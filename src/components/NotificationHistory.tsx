@@ -1,110 +1,255 @@
-import React, { useState } from 'react';
-import { ArrowLeft, Bell, Mail, Smartphone, Filter, Search, Trash2 } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, Bell, Check, CheckCheck, Clock, Search, Trash2 } from 'lucide-react';
 import Sidebar from './Sidebar';
 import TopBar from './TopBar';
+import { useAuth } from '../hooks/useAuth';
+import {
+  deleteAllNotifications,
+  deleteNotifications,
+  getNotificationRetentionDays,
+  getNotificationsPage,
+  markAllNotificationsAsRead,
+  markNotificationsAsRead
+} from '../lib/supabase';
+import {
+  DEFAULT_NOTIFICATION_HISTORY_FILTERS,
+  DEFAULT_NOTIFICATION_RETENTION_DAYS,
+  getNotificationEventLabel,
+  getNotificationRetentionLabel,
+  matchesNotificationFilters,
+  normalizeNotificationRetentionDays,
+  NOTIFICATION_CATEGORY_LABELS,
+  type NotificationCategory,
+  type NotificationHistoryFilters,
+  type NotificationRecord
+} from '../lib/notificationHistory';
+import { EMAIL_EVENT_LABELS, type EmailEvent } from '../lib/notificationPreferences';
 
 interface NotificationHistoryProps {
   onNavigate: (view: string) => void;
 }
 
-interface Notification {
-  id: string;
-  type: 'email' | 'push';
-  title: string;
-  message: string;
-  timestamp: string;
-  read: boolean;
-  category: 'approval' | 'reminder' | 'system' | 'update';
-}
+const DEMO_NOTIFICATIONS: NotificationRecord[] = [
+  {
+    id: '1',
+    user_id: 'demo-user-id',
+    type: 'approval',
+    title: '出張申請が承認されました',
+    message: '田中太郎さんの東京出張申請（BT-2024-001）が承認されました。',
+    data: { event: 'application_approved' },
+    read: false,
+    read_at: null,
+    created_at: '2024-07-20T14:30:00Z'
+  },
+  {
+    id: '2',
+    user_id: 'demo-user-id',
+    type: 'reminder',
+    title: '承認待ちの申請があります',
+    message: '申請「7月分交通費」（佐藤花子・¥12,800）が7日間承認待ちです。',
+    data: { event: 'approval_reminder' },
+    read: true,
+    read_at: '2024-07-20T09:10:00Z',
+    created_at: '2024-07-20T09:00:00Z'
+  },
+  {
+    id: '3',
+    user_id: 'demo-user-id',
+    type: 'update',
+    title: '新機能のお知らせ',
+    message: '出張規程管理機能がリリースされました。詳細はヘルプページをご確認ください。',
+    data: {},
+    read: true,
+    read_at: '2024-07-19T17:00:00Z',
+    created_at: '2024-07-19T16:00:00Z'
+  },
+  {
+    id: '4',
+    user_id: 'demo-user-id',
+    type: 'system',
+    title: '会計連携でエラーが発生しました',
+    message: '申請「大阪出張」のfreee会計への連携が失敗しました。',
+    data: { event: 'accounting_error' },
+    read: true,
+    read_at: '2024-07-18T10:30:00Z',
+    created_at: '2024-07-18T10:00:00Z'
+  },
+  {
+    id: '5',
+    user_id: 'demo-user-id',
+    type: 'update',
+    title: '出張申請が却下されました',
+    message: '佐藤花子さんの大阪出張申請（BT-2024-002）が却下されました。理由：予算超過',
+    data: { event: 'application_rejected' },
+    read: true,
+    read_at: '2024-07-17T12:00:00Z',
+    created_at: '2024-07-17T11:30:00Z'
+  }
+];
 
 function NotificationHistory({ onNavigate }: NotificationHistoryProps) {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const { user, profile } = useAuth();
+  const organizationId = profile?.default_organization_id || null;
+  const isDemoMode = localStorage.getItem('demoMode') === 'true';
   const [searchTerm, setSearchTerm] = useState('');
-  const [filterType, setFilterType] = useState<string>('all');
-  const [filterCategory, setFilterCategory] = useState<string>('all');
-
-  const [notifications] = useState<Notification[]>([
-    {
-      id: '1',
-      type: 'email',
-      title: '出張申請が承認されました',
-      message: '田中太郎さんの東京出張申請（BT-2024-001）が承認されました。',
-      timestamp: '2024-07-20T14:30:00Z',
-      read: false,
-      category: 'approval'
-    },
-    {
-      id: '2',
-      type: 'push',
-      title: '経費申請の提出期限が近づいています',
-      message: '7月分の経費申請の提出期限は明日です。お忘れなく提出してください。',
-      timestamp: '2024-07-20T09:00:00Z',
-      read: true,
-      category: 'reminder'
-    },
-    {
-      id: '3',
-      type: 'email',
-      title: '新機能のお知らせ',
-      message: '出張規程管理機能がリリースされました。詳細はヘルプページをご確認ください。',
-      timestamp: '2024-07-19T16:00:00Z',
-      read: true,
-      category: 'update'
-    },
-    {
-      id: '4',
-      type: 'push',
-      title: 'システムメンテナンスのお知らせ',
-      message: '7月25日（木）2:00-4:00にシステムメンテナンスを実施します。',
-      timestamp: '2024-07-18T10:00:00Z',
-      read: true,
-      category: 'system'
-    },
-    {
-      id: '5',
-      type: 'email',
-      title: '出張申請が却下されました',
-      message: '佐藤花子さんの大阪出張申請（BT-2024-002）が却下されました。理由：予算超過',
-      timestamp: '2024-07-17T11:30:00Z',
-      read: true,
-      category: 'approval'
-    }
-  ]);
+  const [filters, setFilters] = useState<NotificationHistoryFilters>(DEFAULT_NOTIFICATION_HISTORY_FILTERS);
+  const [demoNotifications, setDemoNotifications] = useState<NotificationRecord[]>(DEMO_NOTIFICATIONS);
+  const [notifications, setNotifications] = useState<NotificationRecord[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_NOTIFICATION_RETENTION_DAYS);
 
   const toggleSidebar = () => {
     setIsSidebarOpen(!isSidebarOpen);
   };
 
-  const getTypeIcon = (type: string) => {
-    switch (type) {
-      case 'email':
-        return <Mail className="w-4 h-4" />;
-      case 'push':
-        return <Smartphone className="w-4 h-4" />;
-      default:
-        return <Bell className="w-4 h-4" />;
+  // 検索語は入力が止まってから条件に反映する
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters(prev => prev.search === searchTerm ? prev : { ...prev, search: searchTerm });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  useEffect(() => {
+    if (isDemoMode) {
+      const savedRetention = localStorage.getItem('notificationRetentionDays');
+      if (savedRetention) setRetentionDays(normalizeNotificationRetentionDays(JSON.parse(savedRetention)));
+      return;
+    }
+    if (organizationId) {
+      getNotificationRetentionDays(organizationId).then(setRetentionDays);
+    }
+  }, [organizationId, isDemoMode]);
+
+  // offset が 0 のときは読み込み直し、それ以外は続きを追加する
+  const loadNotifications = useCallback(async (offset: number) => {
+    if (isDemoMode || !user) return;
+    setIsLoading(true);
+    try {
+      const result = await getNotificationsPage(user.id, filters, { offset });
+      setNotifications(prev => offset === 0 ? result.notifications : [...prev, ...result.notifications]);
+      setTotalCount(result.totalCount);
+    } catch (error) {
+      console.error('Notification history fetch error:', error);
+      alert(`通知履歴の取得に失敗しました: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsLoading(false);
     }
+  }, [filters, isDemoMode, user]);
+
+  useEffect(() => {
+    setSelectedIds([]);
+    loadNotifications(0);
+  }, [loadNotifications]);
+
+  const visibleNotifications = isDemoMode
+    ? demoNotifications.filter(notification => matchesNotificationFilters(notification, filters))
+    : notifications;
+  const visibleTotalCount = isDemoMode ? visibleNotifications.length : totalCount;
+  const allSelected = visibleNotifications.length > 0 && visibleNotifications.every(notification => selectedIds.includes(notification.id));
+
+  const updateFilter = (updates: Partial<NotificationHistoryFilters>) => {
+    setFilters(prev => ({ ...prev, ...updates }));
   };
 
-  const getTypeColor = (type: string) => {
-    switch (type) {
-      case 'email':
-        return 'text-blue-600 bg-blue-100';
-      case 'push':
-        return 'text-emerald-600 bg-emerald-100';
-      default:
-        return 'text-slate-600 bg-slate-100';
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]);
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allSelected ? [] : visibleNotifications.map(notification => notification.id));
+  };
+
+  // 読み込み済みの一覧に既読・削除を反映する（デモモードはローカル状態のみ）
+  const applyRead = (ids: string[] | null) => {
+    const readAt = new Date().toISOString();
+    const update = (items: NotificationRecord[]) => items.map(notification =>
+      (ids === null || ids.includes(notification.id)) && !notification.read
+        ? { ...notification, read: true, read_at: readAt }
+        : notification
+    );
+    if (isDemoMode) {
+      setDemoNotifications(update);
+    } else if (filters.read === 'unread') {
+      loadNotifications(0);
+    } else {
+      setNotifications(update);
     }
   };
 
-  const getCategoryLabel = (category: string) => {
-    const labels = {
-      'approval': '承認',
-      'reminder': 'リマインド',
-      'system': 'システム',
-      'update': '更新'
-    };
-    return labels[category as keyof typeof labels] || category;
+  const applyDelete = (ids: string[] | null) => {
+    if (isDemoMode) {
+      setDemoNotifications(prev => ids === null ? [] : prev.filter(notification => !ids.includes(notification.id)));
+    } else if (ids === null) {
+      setNotifications([]);
+      setTotalCount(0);
+    } else {
+      setNotifications(prev => prev.filter(notification => !ids.includes(notification.id)));
+      setTotalCount(prev => Math.max(0, prev - ids.length));
+    }
+    setSelectedIds(prev => ids === null ? [] : prev.filter(id => !ids.includes(id)));
+  };
+
+  const handleMarkRead = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    if (!isDemoMode) {
+      setIsProcessing(true);
+      const result = await markNotificationsAsRead(ids);
+      setIsProcessing(false);
+      if (!result.success) {
+        alert(`既読にできませんでした: ${result.error}`);
+        return;
+      }
+    }
+    applyRead(ids);
+    setSelectedIds([]);
+  };
+
+  const handleMarkAllRead = async () => {
+    if (!isDemoMode) {
+      setIsProcessing(true);
+      const result = await markAllNotificationsAsRead();
+      setIsProcessing(false);
+      if (!result.success) {
+        alert(`既読にできませんでした: ${result.error}`);
+        return;
+      }
+    }
+    applyRead(null);
+  };
+
+  const handleDelete = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    if (!confirm(`選択した${ids.length}件の通知を削除してもよろしいですか？`)) return;
+    if (!isDemoMode) {
+      setIsProcessing(true);
+      const result = await deleteNotifications(ids);
+      setIsProcessing(false);
+      if (!result.success) {
+        alert(`通知を削除できませんでした: ${result.error}`);
+        return;
+      }
+    }
+    applyDelete(ids);
+  };
+
+  const handleDeleteAll = async () => {
+    if (!confirm('すべての通知履歴を削除してもよろしいですか？')) return;
+    if (!isDemoMode) {
+      if (!user) return;
+      setIsProcessing(true);
+      const result = await deleteAllNotifications(user.id);
+      setIsProcessing(false);
+      if (!result.success) {
+        alert(`通知履歴を削除できませんでした: ${result.error}`);
+        return;
+      }
+    }
+    applyDelete(null);
   };
 
   const getCategoryColor = (category: string) => {
@@ -117,20 +262,32 @@ function NotificationHistory({ onNavigate }: NotificationHistoryProps) {
     return colors[category as keyof typeof colors] || 'text-slate-700 bg-slate-100';
   };
 
-  const filteredNotifications = notifications.filter(notification => {
-    const matchesSearch = notification.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         notification.message.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesType = filterType === 'all' || notification.type === filterType;
-    const matchesCategory = filterCategory === 'all' || notification.category === filterCategory;
-    return matchesSearch && matchesType && matchesCategory;
-  });
+  const getCategoryIconColor = (category: string) => {
+    const colors = {
+      'approval': 'text-red-600 bg-red-100',
+      'reminder': 'text-amber-600 bg-amber-100',
+      'system': 'text-slate-600 bg-slate-100',
+      'update': 'text-emerald-600 bg-emerald-100'
+    };
+    return colors[category as keyof typeof colors] || 'text-slate-600 bg-slate-100';
+  };
 
-  const handleDeleteAll = () => {
-    if (confirm('すべての通知履歴を削除してもよろしいですか？')) {
-      alert('通知履歴が削除されました');
+  const getCategoryIcon = (category: string) => {
+    switch (category) {
+      case 'reminder':
+        return <Clock className="w-4 h-4" />;
+      case 'approval':
+        return <Check className="w-4 h-4" />;
+      default:
+        return <Bell className="w-4 h-4" />;
     }
   };
 
+  const getCategoryLabel = (category: string) =>
+    NOTIFICATION_CATEGORY_LABELS[category as NotificationCategory] || category;
+
+  const hasFilters = searchTerm !== '' || filters.category !== 'all' || filters.event !== 'all' || filters.read !== 'all';
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 relative overflow-hidden">
       <div className="absolute inset-0 bg-[url('data:image/svg+xml,%3Csvg width=%2260%22 height=%2260%22 viewBox=%220 0 60 60%22 xmlns=%22http://www.w3.org/2000/svg%22%3E%3Cg fill=%22none%22 fill-rule=%22evenodd%22%3E%3Cg fill=%22%23334155%22 fill-opacity=%220.03%22%3E%3Ccircle cx=%2230%22 cy=%2230%22 r=%221%22/%3E%3C/g%3E%3C/g%3E%3C/svg%3E')] opacity-40"></div>
@@ -169,13 +326,24 @@ function NotificationHistory({ onNavigate }: NotificationHistoryProps) {
                   </button>
                   <h1 className="text-2xl lg:text-3xl font-bold text-slate-800">通知履歴</h1>
                 </div>
-                <button
-                  onClick={handleDeleteAll}
-                  className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-red-600 to-red-800 text-white rounded-lg font-medium hover:from-red-700 hover:to-red-900 transition-all duration-200"
-                >
-                  <Trash2 className="w-4 h-4" />
-                  <span>すべて削除</span>
-                </button>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={handleMarkAllRead}
+                    disabled={isProcessing}
+                    className="flex items-center space-x-2 px-4 py-2 bg-white/50 hover:bg-white/70 text-slate-700 rounded-lg font-medium border border-white/40 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <CheckCheck className="w-4 h-4" />
+                    <span className="hidden sm:inline">すべて既読</span>
+                  </button>
+                  <button
+                    onClick={handleDeleteAll}
+                    disabled={isProcessing}
+                    className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-red-600 to-red-800 text-white rounded-lg font-medium hover:from-red-700 hover:to-red-900 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    <span className="hidden sm:inline">すべて削除</span>
+                  </button>
+                </div>
               </div>
 
               {/* 検索・フィルター */}
@@ -191,80 +359,177 @@ function NotificationHistory({ onNavigate }: NotificationHistoryProps) {
                       className="w-full pl-10 pr-4 py-3 bg-white/50 border border-white/40 rounded-lg text-slate-700 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-navy-400 backdrop-blur-xl"
                     />
                   </div>
-                  <div className="flex gap-3">
+                  <div className="flex flex-wrap gap-3">
                     <select
-                      value={filterType}
-                      onChange={(e) => setFilterType(e.target.value)}
+                      value={filters.category}
+                      onChange={(e) => updateFilter({ category: e.target.value as NotificationHistoryFilters['category'] })}
+                      className="px-4 py-3 bg-white/50 border border-white/40 rounded-lg text-slate-700 focus:outline-none focus:ring-2 focus:ring-navy-400 backdrop-blur-xl"
+                    >
+                      <option value="all">すべてのカテゴリ</option>
+                      {(Object.keys(NOTIFICATION_CATEGORY_LABELS) as NotificationCategory[]).map(category => (
+                        <option key={category} value={category}>{NOTIFICATION_CATEGORY_LABELS[category]}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={filters.event}
+                      onChange={(e) => updateFilter({ event: e.target.value as EmailEvent | 'all' })}
                       className="px-4 py-3 bg-white/50 border border-white/40 rounded-lg text-slate-700 focus:outline-none focus:ring-2 focus:ring-navy-400 backdrop-blur-xl"
                     >
                       <option value="all">すべての種類</option>
-                      <option value="email">メール</option>
-                      <option value="push">プッシュ</option>
+                      {EMAIL_EVENT_LABELS.map(item => (
+                        <option key={item.event} value={item.event}>{item.label}</option>
+                      ))}
                     </select>
                     <select
-                      value={filterCategory}
-                      onChange={(e) => setFilterCategory(e.target.value)}
+                      value={filters.read}
+                      onChange={(e) => updateFilter({ read: e.target.value as NotificationHistoryFilters['read'] })}
                       className="px-4 py-3 bg-white/50 border border-white/40 rounded-lg text-slate-700 focus:outline-none focus:ring-2 focus:ring-navy-400 backdrop-blur-xl"
                     >
-                      <option value="all">すべてのカテゴリ</option>
-                      <option value="approval">承認</option>
-                      <option value="reminder">リマインド</option>
-                      <option value="system">システム</option>
-                      <option value="update">更新</option>
+                      <option value="all">既読・未読</option>
+                      <option value="unread">未読のみ</option>
+                      <option value="read">既読のみ</option>
                     </select>
                   </div>
                 </div>
               </div>
 
+              {/* 選択中の通知の一括操作 */}
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-3 px-1">
+                <label className="flex items-center space-x-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={toggleSelectAll}
+                    disabled={visibleNotifications.length === 0}
+                    className="rounded border-slate-300 text-navy-600 focus:ring-navy-500"
+                  />
+                  <span>
+                    {selectedIds.length > 0
+                      ? `${selectedIds.length}件を選択中`
+                      : `${visibleTotalCount}件中${visibleNotifications.length}件を表示`}
+                  </span>
+                </label>
+                <div className="flex items-center space-x-2">
+                  <span className="flex items-center text-xs text-slate-500 mr-2">
+                    <Clock className="w-3 h-3 mr-1" />
+                    {retentionDays > 0
+                      ? `通知は${getNotificationRetentionLabel(retentionDays)}を過ぎると自動で削除されます`
+                      : '通知は自動で削除されません'}
+                  </span>
+                  {selectedIds.length > 0 && (
+                    <>
+                      <button
+                        onClick={() => handleMarkRead(selectedIds)}
+                        disabled={isProcessing}
+                        className="px-3 py-2 bg-white/50 hover:bg-white/70 text-slate-700 rounded-lg text-sm font-medium border border-white/40 transition-colors disabled:opacity-50"
+                      >
+                        既読にする
+                      </button>
+                      <button
+                        onClick={() => handleDelete(selectedIds)}
+                        disabled={isProcessing}
+                        className="px-3 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                      >
+                        削除
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+
               {/* 通知一覧 */}
               <div className="backdrop-blur-xl bg-white/20 rounded-xl border border-white/30 shadow-xl">
                 <div className="divide-y divide-white/20">
-                  {filteredNotifications.length === 0 ? (
+                  {visibleNotifications.length === 0 ? (
                     <div className="text-center py-12">
                       <Bell className="w-12 h-12 text-slate-400 mx-auto mb-4" />
                       <p className="text-slate-600">
-                        {searchTerm || filterType !== 'all' || filterCategory !== 'all' 
-                          ? '条件に一致する通知が見つかりません' 
-                          : '通知履歴がありません'}
+                        {isLoading
+                          ? '読み込み中...'
+                          : hasFilters
+                            ? '条件に一致する通知が見つかりません'
+                            : '通知履歴がありません'}
                       </p>
                     </div>
                   ) : (
-                    filteredNotifications.map((notification) => (
-                      <div 
-                        key={notification.id} 
-                        className={`p-6 hover:bg-white/20 transition-colors ${
-                          !notification.read ? 'bg-navy-50/30 border-l-4 border-navy-600' : ''
-                        }`}
-                      >
-                        <div className="flex items-start justify-between">
-                          <div className="flex-1">
-                            <div className="flex items-center space-x-3 mb-2">
-                              <div className={`p-2 rounded-lg ${getTypeColor(notification.type)}`}>
-                                {getTypeIcon(notification.type)}
-                              </div>
-                              <div className="flex items-center space-x-2">
-                                <h3 className="font-medium text-slate-800">{notification.title}</h3>
-                                {!notification.read && (
-                                  <span className="w-2 h-2 bg-navy-600 rounded-full"></span>
+                    visibleNotifications.map((notification) => {
+                      const eventLabel = getNotificationEventLabel(notification);
+                      return (
+                        <div
+                          key={notification.id}
+                          className={`p-6 hover:bg-white/20 transition-colors ${
+                            !notification.read ? 'bg-navy-50/30 border-l-4 border-navy-600' : ''
+                          }`}
+                        >
+                          <div className="flex items-start justify-between">
+                            <input
+                              type="checkbox"
+                              checked={selectedIds.includes(notification.id)}
+                              onChange={() => toggleSelected(notification.id)}
+                              className="mt-3 mr-4 rounded border-slate-300 text-navy-600 focus:ring-navy-500"
+                            />
+                            <div className="flex-1 min-w-0">
+                              <div className="flex flex-wrap items-center gap-2 mb-2">
+                                <div className={`p-2 rounded-lg ${getCategoryIconColor(notification.type)}`}>
+                                  {getCategoryIcon(notification.type)}
+                                </div>
+                                <div className="flex items-center space-x-2">
+                                  <h3 className="font-medium text-slate-800">{notification.title}</h3>
+                                  {!notification.read && (
+                                    <span className="w-2 h-2 bg-navy-600 rounded-full"></span>
+                                  )}
+                                </div>
+                                <span className={`px-2 py-1 rounded-full text-xs font-medium ${getCategoryColor(notification.type)}`}>
+                                  {getCategoryLabel(notification.type)}
+                                </span>
+                                {eventLabel && (
+                                  <span className="px-2 py-1 rounded-full text-xs font-medium text-slate-600 bg-white/60">
+                                    {eventLabel}
+                                  </span>
                                 )}
                               </div>
-                              <span className={`px-2 py-1 rounded-full text-xs font-medium ${getCategoryColor(notification.category)}`}>
-                                {getCategoryLabel(notification.category)}
-                              </span>
+                              <p className="text-slate-600 text-sm mb-3 ml-11">{notification.message}</p>
+                              <p className="text-slate-500 text-xs ml-11">
+                                {new Date(notification.created_at).toLocaleString('ja-JP')}
+                              </p>
+                            </div>
+                            <div className="flex items-center space-x-3 ml-4">
+                              {!notification.read && (
+                                <button
+                                  onClick={() => handleMarkRead([notification.id])}
+                                  disabled={isProcessing}
+                                  title="既読にする"
+                                  className="text-slate-400 hover:text-navy-600 transition-colors"
+                                >
+                                  <Check className="w-4 h-4" />
+                                </button>
+                              )}
+                              <button
+                                onClick={() => handleDelete([notification.id])}
+                                disabled={isProcessing}
+                                title="削除"
+                                className="text-slate-400 hover:text-red-600 transition-colors"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
                             </div>
-                            <p className="text-slate-600 text-sm mb-3 ml-11">{notification.message}</p>
-                            <p className="text-slate-500 text-xs ml-11">
-                              {new Date(notification.timestamp).toLocaleString('ja-JP')}
-                            </p>
                           </div>
-                          <button className="text-slate-400 hover:text-red-600 transition-colors ml-4">
-                            <Trash2 className="w-4 h-4" />
-                          </button>
                         </div>
-                      </div>
-                    ))
+                      );
+                    })
                   )}
                 </div>
+                {!isDemoMode && notifications.length < totalCount && (
+                  <div className="p-4 text-center border-t border-white/30">
+                    <button
+                      onClick={() => loadNotifications(notifications.length)}
+                      disabled={isLoading}
+                      className="px-4 py-2 bg-white/50 hover:bg-white/70 text-slate-700 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                    >
+                      {isLoading ? '読み込み中...' : 'さらに読み込む'}
+                    </button>
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,106 @@
+import { useState, useEffect } from 'react';
+import { Building2 } from 'lucide-react';
+import { acceptOrganizationInvitation, getOrganizationInvitation } from '../lib/supabase';
+import {
+  clearPendingInvitation,
+  ORGANIZATION_ROLE_LABELS,
+  toOrganizationErrorMessage,
+  type InvitationDetails
+} from '../lib/organizations';
+
+interface OrganizationInvitationDialogProps {
+  token: string;
+  onClose: () => void;
+}
+
+const STATUS_MESSAGES = {
+  accepted: 'この招待は既に使用されています。',
+  revoked: 'この招待は取り消されています。',
+  expired: '招待の有効期限が切れています。管理者に再送を依頼してください。'
+};
+
+// 招待リンク（?invitation=）から開いた場合の参加確認
+function OrganizationInvitationDialog({ token, onClose }: OrganizationInvitationDialogProps) {
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAccepting, setIsAccepting] = useState(false);
+
+  useEffect(() => {
+    getOrganizationInvitation(token).then(details => {
+      setInvitation(details);
+      setIsLoading(false);
+    });
+  }, [token]);
+
+  const handleClose = () => {
+    clearPendingInvitation();
+    onClose();
+  };
+
+  const handleAccept = async () => {
+    setIsAccepting(true);
+    const result = await acceptOrganizationInvitation(token);
+    setIsAccepting(false);
+    if (!result.success) {
+      alert(toOrganizationErrorMessage(result.error));
+      return;
+    }
+    clearPendingInvitation();
+    // 参加した組織が既定の組織になるため、組織ごとのデータを読み直す
+    window.location.reload();
+  };
+
+  const getProblem = () => {
+    if (!invitation) return '招待が見つかりません。リンクが正しいか確認してください。';
+    if (invitation.status !== 'pending') return STATUS_MESSAGES[invitation.status];
+    if (invitation.already_member) return `既に「${invitation.organization_name}」のメンバーです。`;
+    if (!invitation.email_matches) return `この招待は ${invitation.email} 宛てです。招待されたメールアドレスでログインしてください。`;
+    return null;
+  };
+
+  const problem = isLoading ? null : getProblem();
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl p-6 max-w-md w-full">
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="p-2 rounded-lg bg-navy-100 text-navy-700">
+            <Building2 className="w-5 h-5" />
+          </div>
+          <h3 className="text-lg font-semibold text-slate-800">組織への招待</h3>
+        </div>
+
+        {isLoading ? (
+          <p className="text-slate-600 mb-6">招待を確認しています...</p>
+        ) : problem ? (
+          <p className="text-slate-600 mb-6">{problem}</p>
+        ) : invitation && (
+          <p className="text-slate-600 mb-6">
+            {invitation.inviter ? `${invitation.inviter}さんから` : ''}
+            「{invitation.organization_name}」に{ORGANIZATION_ROLE_LABELS[invitation.role]}として招待されています。参加しますか？
+          </p>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={handleClose}
+            className="px-4 py-2 text-slate-600 hover:text-slate-800 transition-colors"
+          >
+            {problem ? '閉じる' : '参加しない'}
+          </button>
+          {!isLoading && !problem && (
+            <button
+              onClick={handleAccept}
+              disabled={isAccepting}
+              className="px-4 py-2 bg-navy-600 text-white rounded-lg hover:bg-navy-700 transition-colors disabled:opacity-50"
+            >
+              {isAccepting ? '参加しています...' : '参加する'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default OrganizationInvitationDialog;
@@ -0,0 +1,403 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Building2, Copy, Crown, LogOut, Mail, Plus, Trash2, UserPlus, X } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useOrganizations } from '../hooks/useOrganizations';
+import {
+  createOrganization,
+  getOrganizationInvitations,
+  getOrganizationMembers,
+  inviteOrganizationMember,
+  removeOrganizationMember,
+  revokeOrganizationInvitation,
+  transferOrganizationOwnership,
+  updateOrganizationMemberRole
+} from '../lib/supabase';
+import {
+  buildInvitationLink,
+  canAssignRole,
+  canManageMembers,
+  canRemoveMember,
+  getInvitationStatus,
+  INVITABLE_ROLES,
+  ORGANIZATION_ROLE_LABELS,
+  toOrganizationErrorMessage,
+  type InvitableRole,
+  type OrganizationInvitation,
+  type OrganizationMember
+} from '../lib/organizations';
+
+// マイページの「ユーザー管理」タブ（所属組織・メンバー・招待）
+function OrganizationManagement() {
+  const { user } = useAuth();
+  const { organizations, currentOrganization, currentOrganizationId, refresh, switchTo } = useOrganizations();
+  const isDemoMode = localStorage.getItem('demoMode') === 'true';
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [invitations, setInvitations] = useState<OrganizationInvitation[]>([]);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<InvitableRole>('member');
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [newOrganization, setNewOrganization] = useState({ name: '', description: '' });
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const myRole = currentOrganization?.role || null;
+  const canManage = canManageMembers(myRole);
+  const pendingInvitations = invitations.filter(invitation => getInvitationStatus(invitation) === 'pending');
+
+  const loadMembers = useCallback(async () => {
+    if (!currentOrganizationId) return;
+    const [organizationMembers, organizationInvitations] = await Promise.all([
+      getOrganizationMembers(currentOrganizationId),
+      canManage ? getOrganizationInvitations(currentOrganizationId) : Promise.resolve([])
+    ]);
+    setMembers(organizationMembers);
+    setInvitations(organizationInvitations);
+  }, [currentOrganizationId, canManage]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  // 処理の実行とエラー表示、実行後の再読み込みをまとめる
+  const runAction = async (action: () => Promise<{ success: boolean, error?: string }>, successMessage?: string) => {
+    setIsProcessing(true);
+    const result = await action();
+    setIsProcessing(false);
+    if (!result.success) {
+      alert(toOrganizationErrorMessage(result.error));
+      return false;
+    }
+    if (successMessage) alert(successMessage);
+    await Promise.all([loadMembers(), refresh()]);
+    return true;
+  };
+
+  const handleCreateOrganization = async () => {
+    if (!newOrganization.name.trim()) {
+      alert('組織名を入力してください');
+      return;
+    }
+    setIsProcessing(true);
+    const result = await createOrganization(newOrganization.name, newOrganization.description);
+    setIsProcessing(false);
+    if (!result.success) {
+      alert(toOrganizationErrorMessage(result.error));
+      return;
+    }
+    // 作成した組織が既定の組織になるため、組織ごとのデータを読み直す
+    window.location.reload();
+  };
+
+  const handleInvite = async () => {
+    if (!currentOrganizationId) return;
+    const email = inviteEmail.trim();
+    if (!email) {
+      alert('招待するメールアドレスを入力してください');
+      return;
+    }
+    const succeeded = await runAction(
+      () => inviteOrganizationMember(currentOrganizationId, email, inviteRole),
+      `${email} に招待メールを送信しました`
+    );
+    if (succeeded) setInviteEmail('');
+  };
+
+  const handleCopyInvitation = async (invitation: OrganizationInvitation) => {
+    try {
+      await navigator.clipboard.writeText(buildInvitationLink(invitation.token));
+      alert('招待リンクをコピーしました');
+    } catch {
+      prompt('招待リンクをコピーしてください', buildInvitationLink(invitation.token));
+    }
+  };
+
+  const handleRevokeInvitation = (invitation: OrganizationInvitation) => {
+    if (!confirm(`${invitation.email} への招待を取り消してもよろしいですか？`)) return;
+    runAction(() => revokeOrganizationInvitation(invitation.id));
+  };
+
+  const handleRoleChange = (member: OrganizationMember, role: InvitableRole) => {
+    if (!currentOrganizationId) return;
+    runAction(() => updateOrganizationMemberRole(currentOrganizationId, member.user_id, role));
+  };
+
+  const handleRemoveMember = (member: OrganizationMember) => {
+    if (!currentOrganizationId) return;
+    if (!confirm(`${member.full_name || member.email} を組織から削除してもよろしいですか？`)) return;
+    runAction(() => removeOrganizationMember(currentOrganizationId, member.user_id));
+  };
+
+  const handleTransferOwnership = (member: OrganizationMember) => {
+    if (!currentOrganizationId) return;
+    if (!confirm(`オーナーを ${member.full_name || member.email} に移譲してもよろしいですか？\nあなたの役割は管理者になります。`)) return;
+    runAction(() => transferOrganizationOwnership(currentOrganizationId, member.user_id), 'オーナーを移譲しました');
+  };
+
+  const handleLeave = async (organizationId: string, name: string) => {
+    if (!user) return;
+    if (!confirm(`「${name}」から退会してもよろしいですか？`)) return;
+    setIsProcessing(true);
+    const result = await removeOrganizationMember(organizationId, user.id);
+    setIsProcessing(false);
+    if (!result.success) {
+      alert(toOrganizationErrorMessage(result.error));
+      return;
+    }
+    window.location.reload();
+  };
+
+  const handleSwitch = async (organizationId: string) => {
+    const result = await switchTo(organizationId);
+    if (!result.success) alert(result.error);
+  };
+
+  if (isDemoMode) {
+    return (
+      <div className="text-center py-12">
+        <Building2 className="w-12 h-12 text-slate-400 mx-auto mb-4" />
+        <p className="text-slate-600">デモモードでは組織・ユーザー管理は利用できません</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* 所属組織 */}
+      <div>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-slate-800 flex items-center">
+            <Building2 className="w-5 h-5 mr-2" />
+            所属組織
+          </h3>
+          <button
+            onClick={() => setShowCreateForm(!showCreateForm)}
+            className="flex items-center space-x-1 px-3 py-2 bg-navy-600 hover:bg-navy-700 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            {showCreateForm ? <X className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+            <span>{showCreateForm ? '閉じる' : '組織を作成'}</span>
+          </button>
+        </div>
+
+        {showCreateForm && (
+          <div className="p-4 bg-white/30 rounded-lg mb-4 space-y-3">
+            <input
+              type="text"
+              value={newOrganization.name}
+              onChange={(e) => setNewOrganization(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="組織名（例: 株式会社サンプル）"
+              className="w-full px-4 py-3 bg-white/50 border border-white/40 rounded-lg text-slate-700 focus:outline-none focus:ring-2 focus:ring-navy-400 backdrop-blur-xl"
+            />
+            <input
+              type="text"
+              value={newOrganization.description}
+              onChange={(e) => setNewOrganization(prev => ({ ...prev, description: e.target.value }))}
+              placeholder="説明（任意）"
+              className="w-full px-4 py-3 bg-white/50 border border-white/40 rounded-lg text-slate-700 focus:outline-none focus:ring-2 focus:ring-navy-400 backdrop-blur-xl"
+            />
+            <div className="flex justify-end">
+              <button
+                onClick={handleCreateOrganization}
+                disabled={isProcessing}
+                className="px-4 py-2 bg-gradient-to-r from-navy-700 to-navy-900 text-white rounded-lg font-medium disabled:opacity-50"
+              >
+                作成して切り替える
+              </button>
+            </div>
+          </div>
+        )}
+
+        {organizations.length === 0 ? (
+          <p className="text-sm text-slate-600">所属している組織はありません。組織を作成するか、招待を受けてください。</p>
+        ) : (
+          <div className="space-y-2">
+            {organizations.map(organization => (
+              <div key={organization.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-4 bg-white/30 rounded-lg">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-slate-800">{organization.name}</span>
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-navy-100 text-navy-800">
+                      {ORGANIZATION_ROLE_LABELS[organization.role]}
+                    </span>
+                    {organization.id === currentOrganizationId && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-700">選択中</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-slate-500 mt-1">メンバー{organization.member_count}人</p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {organization.id !== currentOrganizationId && (
+                    <button
+                      onClick={() => handleSwitch(organization.id)}
+                      className="px-3 py-1.5 bg-white/50 hover:bg-white/70 text-slate-700 rounded-lg text-sm border border-white/40 transition-colors"
+                    >
+                      切り替え
+                    </button>
+                  )}
+                  {organization.role !== 'owner' && (
+                    <button
+                      onClick={() => handleLeave(organization.id, organization.name)}
+                      disabled={isProcessing}
+                      className="flex items-center space-x-1 px-3 py-1.5 text-red-600 hover:bg-red-50 rounded-lg text-sm transition-colors"
+                    >
+                      <LogOut className="w-4 h-4" />
+                      <span>退会</span>
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {currentOrganization && canManage && (
+        <div>
+          <h3 className="text-lg font-semibold text-slate-800 mb-4 flex items-center">
+            <UserPlus className="w-5 h-5 mr-2" />
+            メンバーを招待
+          </h3>
+          <div className="flex flex-col md:flex-row gap-3">
+            <input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="招待するメールアドレス"
+              className="flex-1 px-4 py-3 bg-white/50 border border-white/40 rounded-lg text-slate-700 focus:outline-none focus:ring-2 focus:ring-navy-400 backdrop-blur-xl"
+            />
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as InvitableRole)}
+              className="px-4 py-3 bg-white/50 border border-white/40 rounded-lg text-slate-700 focus:outline-none focus:ring-2 focus:ring-navy-400 backdrop-blur-xl"
+            >
+              {INVITABLE_ROLES.filter(role => myRole === 'owner' || role !== 'admin').map(role => (
+                <option key={role} value={role}>{ORGANIZATION_ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleInvite}
+              disabled={isProcessing}
+              className="flex items-center justify-center space-x-2 px-6 py-3 bg-gradient-to-r from-navy-700 to-navy-900 text-white rounded-lg font-medium disabled:opacity-50"
+            >
+              <Mail className="w-4 h-4" />
+              <span>招待メールを送信</span>
+            </button>
+          </div>
+
+          {pendingInvitations.length > 0 && (
+            <div className="mt-4 space-y-2">
+              <p className="text-sm font-medium text-slate-700">招待中</p>
+              {pendingInvitations.map(invitation => (
+                <div key={invitation.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 bg-white/30 rounded-lg">
+                  <div className="text-sm">
+                    <span className="text-slate-800">{invitation.email}</span>
+                    <span className="ml-2 text-slate-500">
+                      {ORGANIZATION_ROLE_LABELS[invitation.role]}・{new Date(invitation.expires_at).toLocaleString('ja-JP')}まで有効
+                    </span>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => handleCopyInvitation(invitation)}
+                      className="flex items-center space-x-1 px-3 py-1.5 bg-white/50 hover:bg-white/70 text-slate-700 rounded-lg text-sm border border-white/40 transition-colors"
+                    >
+                      <Copy className="w-4 h-4" />
+                      <span>リンクをコピー</span>
+                    </button>
+                    <button
+                      onClick={() => handleRevokeInvitation(invitation)}
+                      disabled={isProcessing}
+                      className="px-3 py-1.5 text-red-600 hover:bg-red-50 rounded-lg text-sm transition-colors"
+                    >
+                      取り消し
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {currentOrganization && (
+        <div>
+          <h3 className="text-lg font-semibold text-slate-800 mb-4">
+            {currentOrganization.name}のメンバー
+          </h3>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-white/30 text-left text-sm text-slate-600">
+                  <th className="py-3 px-4 font-medium">氏名</th>
+                  <th className="py-3 px-4 font-medium">部署・役職</th>
+                  <th className="py-3 px-4 font-medium">役割</th>
+                  <th className="py-3 px-4 font-medium text-right">操作</th>
+                </tr>
+              </thead>
+              <tbody>
+                {members.map(member => (
+                  <tr key={member.user_id} className="border-b border-white/20">
+                    <td className="py-3 px-4">
+                      <div className="font-medium text-slate-800">
+                        {member.full_name || '氏名未設定'}
+                        {member.user_id === user?.id && <span className="ml-2 text-xs text-slate-500">（自分）</span>}
+                      </div>
+                      <div className="text-xs text-slate-500">{member.email}</div>
+                    </td>
+                    <td className="py-3 px-4 text-sm text-slate-600">
+                      {[member.department, member.position].filter(Boolean).join('・') || '-'}
+                    </td>
+                    <td className="py-3 px-4">
+                      {member.role === 'owner' || member.user_id === user?.id || !canManage ? (
+                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-navy-100 text-navy-800">
+                          {member.role === 'owner' && <Crown className="w-3 h-3 mr-1" />}
+                          {ORGANIZATION_ROLE_LABELS[member.role]}
+                        </span>
+                      ) : (
+                        <select
+                          value={member.role}
+                          onChange={(e) => handleRoleChange(member, e.target.value as InvitableRole)}
+                          disabled={isProcessing}
+                          className="px-3 py-1.5 bg-white/50 border border-white/40 rounded-lg text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-navy-400"
+                        >
+                          {INVITABLE_ROLES.map(role => (
+                            <option key={role} value={role} disabled={role !== member.role && !canAssignRole(myRole, member.role, role)}>
+                              {ORGANIZATION_ROLE_LABELS[role]}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </td>
+                    <td className="py-3 px-4">
+                      <div className="flex items-center justify-end space-x-2">
+                        {myRole === 'owner' && member.user_id !== user?.id && (
+                          <button
+                            onClick={() => handleTransferOwnership(member)}
+                            disabled={isProcessing}
+                            className="flex items-center space-x-1 px-2 py-1 text-amber-700 hover:bg-amber-50 rounded-lg text-xs transition-colors"
+                          >
+                            <Crown className="w-3 h-3" />
+                            <span>オーナーを移譲</span>
+                          </button>
+                        )}
+                        {member.user_id !== user?.id && canRemoveMember(myRole, member.role) && (
+                          <button
+                            onClick={() => handleRemoveMember(member)}
+                            disabled={isProcessing}
+                            title="組織から削除"
+                            className="p-1 text-slate-400 hover:text-red-600 transition-colors"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default OrganizationManagement;
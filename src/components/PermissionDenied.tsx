@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { ArrowLeft, ShieldAlert } from 'lucide-react';
+import Sidebar from './Sidebar';
+import TopBar from './TopBar';
+import { PERMISSION_LABELS, type Permission } from '../lib/permissions';
+
+interface PermissionDeniedProps {
+  permission: Permission;
+  isLoading: boolean;
+  currentView: string;
+  onNavigate: (view: string) => void;
+}
+
+// 権限のない画面を開いた場合（通知のリンクや組織の切り替え後など）
+function PermissionDenied({ permission, isLoading, currentView, onNavigate }: PermissionDeniedProps) {
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+
+  const toggleSidebar = () => {
+    setIsSidebarOpen(!isSidebarOpen);
+  };
+
+  return (
+    <div className="flex h-screen relative">
+      <div className="hidden lg:block">
+        <Sidebar isOpen={true} onClose={() => {}} onNavigate={onNavigate} currentView={currentView} />
+      </div>
+
+      {isSidebarOpen && (
+        <>
+          <div
+            className="fixed inset-0 bg-black/50 z-40 lg:hidden"
+            onClick={toggleSidebar}
+          />
+          <div className="fixed left-0 top-0 h-full z-50 lg:hidden">
+            <Sidebar isOpen={isSidebarOpen} onClose={toggleSidebar} onNavigate={onNavigate} currentView={currentView} />
+          </div>
+        </>
+      )}
+
+      <div className="flex-1 flex flex-col min-w-0">
+        <TopBar onMenuClick={toggleSidebar} onNavigate={onNavigate} />
+
+        <div className="flex-1 overflow-auto p-4 lg:p-6 relative z-10">
+          <div className="max-w-2xl mx-auto mt-12">
+            {isLoading ? (
+              <p className="text-center text-slate-600">権限を確認しています...</p>
+            ) : (
+              <div className="backdrop-blur-xl bg-white/20 rounded-xl p-8 border border-white/30 shadow-xl text-center">
+                <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-amber-100/60 flex items-center justify-center">
+                  <ShieldAlert className="w-8 h-8 text-amber-600" />
+                </div>
+                <h1 className="text-2xl font-bold text-slate-800 mb-2">この画面を表示する権限がありません</h1>
+                <p className="text-slate-600 mb-6">
+                  「{PERMISSION_LABELS[permission]}」の権限が必要です。組織のオーナーまたは管理者に役割の変更を依頼してください。
+                </p>
+                <button
+                  onClick={() => onNavigate('dashboard')}
+                  className="inline-flex items-center space-x-2 px-4 py-2 bg-navy-600 text-white rounded-lg hover:bg-navy-700 transition-colors"
+                >
+                  <ArrowLeft className="w-4 h-4" />
+                  <span>ダッシュボードに戻る</span>
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default PermissionDenied;
@@ -4,6 +4,7 @@ import {
   Plane, 
   Receipt, 
   FolderOpen, 
+  ShieldCheck,
   Calculator, 
   Settings, 
   LogOut,
@@ -11,12 +12,15 @@ import {
   X
 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
+import { usePermissions } from '../hooks/usePermissions';
+import { getViewPermission } from '../lib/permissions';
 
 const menuItems = [
   { icon: Home, label: 'ホーム', view: 'dashboard' },
   { icon: Plane, label: '出張申請', view: 'business-trip' },
   { icon: Receipt, label: '経費申請', view: 'expense' },
   { icon: FolderOpen, label: '書類管理', view: 'document-management' },
+  { icon: ShieldCheck, label: '電子帳簿保存', view: 'document-audit' },
   { icon: Calculator, label: '節税シミュレーション', view: 'tax-simulation' },
   { icon: Settings, label: '出張規定管理', view: 'travel-regulation-management' },
   { icon: User, label: 'マイページ（設定）', view: 'my-page' },
@@ -31,6 +35,12 @@ interface SidebarProps {
 
 function Sidebar({ isOpen, onClose, onNavigate, currentView = 'dashboard' }: SidebarProps) {
   const { signOut, profile } = useAuth();
+  const { can } = usePermissions();
+  // 権限のない管理画面はメニューに表示しない
+  const visibleMenuItems = menuItems.filter(item => {
+    const permission = getViewPermission(item.view);
+    return !permission || can(permission);
+  });
 
   const handleLogout = async () => {
     if (confirm('ログアウトしてもよろしいですか？')) {
@@ -86,7 +96,7 @@ function Sidebar({ isOpen, onClose, onNavigate, currentView = 'dashboard' }: Sid
 
       <nav className="flex-1 px-4 relative z-10 overflow-y-auto">
         <ul className="space-y-2">
-          {menuItems.map((item, index) => {
+          {visibleMenuItems.map((item, index) => {
             const Icon = item.icon;
             const isActive = currentView === item.view;
             
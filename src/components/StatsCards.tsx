@@ -1,7 +1,18 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Info, TrendingUp, TrendingDown } from 'lucide-react';
+import { useAnalytics, type AnalyticsData } from '../hooks/useAnalytics';
+import { getRecentMonthsRange, toAnalyticsMonth } from '../lib/analytics';
 
-const statsData = [
+interface StatCard {
+  title: string;
+  value: string;
+  trend: string;
+  trendUp: boolean;
+  chartColor: string;
+}
+
+// 集計を取得できない場合（デモモード・組織未設定）のサンプル表示
+const sampleStatsData: StatCard[] = [
   {
     title: '今月の出張日当',
     value: '¥150,000',
@@ -25,7 +36,70 @@ const statsData = [
   }
 ];
 
+const sampleBarHeights = [40, 35, 45, 50, 42, 48, 38];
+
+// 集計期間（当月を含む直近6か月）
+const TREND_MONTHS = 6;
+
+const formatChange = (current: number, previous: number) => {
+  if (previous === 0) return current === 0 ? '前月比±0%' : '前月比 新規';
+  const rate = ((current - previous) / previous) * 100;
+  return `${rate >= 0 ? '+' : ''}${rate.toFixed(1)}%`;
+};
+
+const buildStatsData = (analytics: AnalyticsData, now: Date): { stats: StatCard[]; barHeights: number[] } => {
+  const currentMonth = toAnalyticsMonth(now);
+  const previousMonth = toAnalyticsMonth(new Date(now.getFullYear(), now.getMonth() - 1, 15));
+  const empty = { total: 0, count: 0, businessTrip: 0, expense: 0, categories: {} as { [category: string]: number } };
+  const current = analytics.trends.monthly[currentMonth] || empty;
+  const previous = analytics.trends.monthly[previousMonth] || empty;
+
+  const travelCost = (month: typeof current) => (month.categories['交通費'] || 0) + (month.categories['宿泊費'] || 0);
+  const allowance = (month: typeof current) => month.categories['日当'] || 0;
+
+  // 交通費・宿泊費の月別推移（古い月から順に並べ、最大値を100%とする）
+  const months = Array.from({ length: TREND_MONTHS }, (_, index) =>
+    toAnalyticsMonth(new Date(now.getFullYear(), now.getMonth() - (TREND_MONTHS - 1 - index), 15))
+  );
+  const travelCosts = months.map(month => travelCost(analytics.trends.monthly[month] || empty));
+  const maxTravelCost = Math.max(...travelCosts, 1);
+
+  return {
+    stats: [
+      {
+        title: '今月の出張日当',
+        value: `¥${allowance(current).toLocaleString()}`,
+        trend: formatChange(allowance(current), allowance(previous)),
+        trendUp: allowance(current) >= allowance(previous),
+        chartColor: 'from-gray-500 to-gray-700'
+      },
+      {
+        title: '今月の交通費・宿泊費',
+        value: `¥${travelCost(current).toLocaleString()}`,
+        trend: formatChange(travelCost(current), travelCost(previous)),
+        trendUp: travelCost(current) >= travelCost(previous),
+        chartColor: 'from-gray-400 to-gray-600'
+      },
+      {
+        title: '今月の精算合計',
+        value: `${current.count}件`,
+        trend: `前月比${current.count - previous.count >= 0 ? '+' : ''}${current.count - previous.count}件`,
+        trendUp: current.count >= previous.count,
+        chartColor: 'from-gray-600 to-gray-800'
+      }
+    ],
+    barHeights: travelCosts.map(cost => Math.max(Math.round((cost / maxTravelCost) * 100), 4))
+  };
+};
+
 function StatsCards() {
+  // 再描画のたびに期間が変わって再取得されないよう初回に固定する
+  const [dateRange] = useState(() => getRecentMonthsRange(TREND_MONTHS));
+  const { analytics } = useAnalytics({ scope: 'self', dateRange });
+  const { stats: statsData, barHeights } = analytics
+    ? buildStatsData(analytics, new Date())
+    : { stats: sampleStatsData, barHeights: sampleBarHeights };
+
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4 lg:gap-6 mb-6 lg:mb-8">
       {statsData.map((stat, index) => (
@@ -77,7 +151,7 @@ function StatsCards() {
             )}
             {index === 1 && (
               <div className="flex items-end justify-between h-full space-x-1">
-                {[40, 35, 45, 50, 42, 48, 38].map((height, i) => (
+                {barHeights.map((height, i) => (
                   <div
                     key={i}
                     className="bg-gradient-to-t from-navy-600 to-navy-800 rounded-sm transition-all duration-300 group-hover:scale-105"
@@ -1,6 +1,7 @@
 import React from 'react';
-import { Bell, HelpCircle, MessageCircle, Menu } from 'lucide-react';
+import { Bell, Building2, HelpCircle, MessageCircle, Menu } from 'lucide-react';
 import { useNotifications } from '../hooks/useNotifications';
+import { useOrganizations } from '../hooks/useOrganizations';
 
 interface TopBarProps {
   onMenuClick: () => void;
@@ -10,6 +11,12 @@ interface TopBarProps {
 
 function TopBar({ onMenuClick, onNavigate, onShowNotifications }: TopBarProps) {
   const { unreadCount } = useNotifications();
+  const { organizations, currentOrganizationId, switchTo } = useOrganizations();
+
+  const handleOrganizationChange = async (organizationId: string) => {
+    const result = await switchTo(organizationId);
+    if (!result.success) alert(result.error);
+  };
   
   // ユーザーのプラン情報を取得（実際の実装では、ユーザー情報から取得）
   const getCurrentPlan = () => {
@@ -35,6 +42,23 @@ function TopBar({ onMenuClick, onNavigate, onShowNotifications }: TopBarProps) {
       </div>
 
       <div className="flex items-center space-x-2 lg:space-x-4 relative z-10">
+        {/* 複数の組織に所属している場合（会計事務所など）は組織を切り替えられる */}
+        {organizations.length > 1 && (
+          <div className="flex items-center space-x-2 px-3 py-1.5 bg-white/40 border border-white/40 rounded-lg backdrop-blur-sm">
+            <Building2 className="w-4 h-4 text-slate-600 flex-shrink-0" />
+            <select
+              value={currentOrganizationId || ''}
+              onChange={(e) => handleOrganizationChange(e.target.value)}
+              title="組織を切り替え"
+              className="max-w-[10rem] lg:max-w-[16rem] bg-transparent text-sm text-slate-700 font-medium focus:outline-none truncate"
+            >
+              {!currentOrganizationId && <option value="">組織を選択</option>}
+              {organizations.map(organization => (
+                <option key={organization.id} value={organization.id}>{organization.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
         <div className="flex items-center space-x-1 lg:space-x-2">
           <div className="relative group">
             <button 
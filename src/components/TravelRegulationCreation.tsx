@@ -1,7 +1,12 @@
-import React, { useState } from 'react';
-import { Save, Download, FileText, Calendar, MapPin, Calculator, Plus, Trash2 } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Save, Download, FileText, Calendar, MapPin, Calculator, Plus, Trash2, AlertTriangle } from 'lucide-react';
 import Sidebar from './Sidebar';
 import TopBar from './TopBar';
+import { useRegulationVersions } from '../hooks/useRegulationVersions';
+import { useDocumentExport } from '../hooks/useDocumentExport';
+import { buildRegulationSnapshot } from '../lib/regulationVersions';
+import { buildRegulationDocument } from '../lib/documentTemplates';
+import type { RegulationImportIssue, RegulationImportResult } from '../lib/regulationImport';
 
 interface TravelRegulationCreationProps {
   onNavigate: (view: 'dashboard' | 'business-trip' | 'expense' | 'tax-simulation' | 'travel-regulation-management' | 'travel-regulation-creation') => void;
@@ -87,6 +92,58 @@ function TravelRegulationCreation({ onNavigate }: TravelRegulationCreationProps)
     isAccommodationRealExpense: false
   });
 
+  // 規程管理画面から編集対象として指定された規程
+  const [editingRegulationId] = useState(() => localStorage.getItem('editingRegulationId'));
+  const [changeSummary, setChangeSummary] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [loadedVersionId, setLoadedVersionId] = useState<string | null>(null);
+  const { latestVersion, saveVersion } = useRegulationVersions(editingRegulationId);
+  const { exporting, exportDocument } = useDocumentExport();
+
+  // 規程管理画面でPDFから取り込んだ内容と、確認が必要な箇所
+  const [importedRegulation] = useState<RegulationImportResult | null>(() => {
+    const saved = localStorage.getItem('importedRegulation');
+    return saved ? JSON.parse(saved) : null;
+  });
+  const [importIssues, setImportIssues] = useState<RegulationImportIssue[]>(importedRegulation?.issues || []);
+
+  useEffect(() => {
+    localStorage.removeItem('editingRegulationId');
+    localStorage.removeItem('importedRegulation');
+  }, []);
+
+  useEffect(() => {
+    if (!importedRegulation) return;
+
+    const { snapshot, fileName } = importedRegulation;
+    setData(prev => ({
+      ...prev,
+      ...snapshot.articles,
+      companyInfo: { ...prev.companyInfo, ...snapshot.company_info },
+      positions: snapshot.allowance_settings.positions,
+      distanceThreshold: snapshot.allowance_settings.distanceThreshold,
+      isTransportationRealExpense: snapshot.allowance_settings.isTransportationRealExpense,
+      isAccommodationRealExpense: snapshot.allowance_settings.isAccommodationRealExpense
+    }));
+    setChangeSummary(`${fileName}から取り込み`);
+  }, [importedRegulation]);
+
+  // 編集時は最新の版の内容を読み込む
+  useEffect(() => {
+    if (!editingRegulationId || !latestVersion || loadedVersionId) return;
+
+    setData(prev => ({
+      ...prev,
+      ...latestVersion.articles,
+      companyInfo: { ...prev.companyInfo, ...latestVersion.company_info },
+      positions: latestVersion.allowance_settings.positions,
+      distanceThreshold: latestVersion.allowance_settings.distanceThreshold,
+      isTransportationRealExpense: latestVersion.allowance_settings.isTransportationRealExpense,
+      isAccommodationRealExpense: latestVersion.allowance_settings.isAccommodationRealExpense
+    }));
+    setLoadedVersionId(latestVersion.id);
+  }, [editingRegulationId, latestVersion, loadedVersionId]);
+
   const toggleSidebar = () => {
     setIsSidebarOpen(!isSidebarOpen);
   };
@@ -130,41 +187,60 @@ function TravelRegulationCreation({ onNavigate }: TravelRegulationCreationProps)
     }));
   };
 
-  const handleSave = () => {
-    const savedRegulations = JSON.parse(localStorage.getItem('travelRegulations') || '[]');
-    
-    // Extract allowances from positions array
-    const executivePosition = data.positions.find(p => p.name.includes('役員')) || data.positions[0];
-    const managerPosition = data.positions.find(p => p.name.includes('管理職')) || data.positions[1] || data.positions[0];
-    const generalPosition = data.positions.find(p => p.name.includes('一般職')) || data.positions[2] || data.positions[0];
-    
-    const newRegulation = {
-      ...data,
-      id: Date.now().toString(),
-      createdAt: new Date().toISOString(),
-      version: `v${data.companyInfo.revision}.0`,
-      companyName: data.companyInfo.name,
-      domesticAllowance: {
-        executive: executivePosition.dailyAllowance,
-        manager: managerPosition.dailyAllowance,
-        general: generalPosition.dailyAllowance
-      },
-      overseasAllowance: {
-        executive: executivePosition.dailyAllowance * 1.5,
-        manager: managerPosition.dailyAllowance * 1.5,
-        general: generalPosition.dailyAllowance * 1.5
-      }
-    };
-    
-    savedRegulations.push(newRegulation);
-    localStorage.setItem('travelRegulations', JSON.stringify(savedRegulations));
-    
-    alert('出張規程が保存されました！');
+  const renderImportIssues = (...fields: string[]) => {
+    const issues = importIssues.filter(issue => fields.includes(issue.field));
+    if (issues.length === 0) return null;
+
+    return (
+      <div className="mb-4 space-y-2">
+        {issues.map((issue, index) => (
+          <div key={index} className="flex items-start space-x-2 p-3 bg-amber-50/80 border border-amber-200 rounded-lg text-sm text-amber-800">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <div>
+              <p>{issue.message}</p>
+              {issue.sourceText && (
+                <p className="mt-1 p-2 bg-white/60 rounded text-slate-700 whitespace-pre-wrap">{issue.sourceText}</p>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  // 保存のたびに新しい版を作成する
+  const handleSave = async () => {
+    setSaving(true);
+    const result = await saveVersion(buildRegulationSnapshot({ ...data }), changeSummary);
+    setSaving(false);
+
+    if (!result.success || !result.version) {
+      alert(`出張規程の保存に失敗しました: ${result.error}`);
+      return;
+    }
+
+    alert(`出張規程を${result.version.version}として保存しました！`);
     onNavigate('travel-regulation-management');
   };
 
-  const generateDocument = (format: 'word' | 'pdf') => {
-    alert(`${format.toUpperCase()}ファイルを生成中...`);
+  // 編集中の内容から規程の書類を生成する（版番号は読み込んだ版を表示）
+  const generateDocument = async (format: 'word' | 'pdf') => {
+    const version = loadedVersionId && latestVersion?.id === loadedVersionId ? latestVersion : null;
+    const result = await exportDocument(
+      buildRegulationDocument(buildRegulationSnapshot({ ...data }), version?.version),
+      format,
+      {
+        type: 'travel_regulation',
+        content: {
+          regulation_id: version?.regulation_id || editingRegulationId,
+          version_id: version?.id || null
+        }
+      }
+    );
+
+    if (!result.success) {
+      alert(`${format === 'word' ? 'Word' : 'PDF'}ファイルの生成に失敗しました: ${result.error}`);
+    }
   };
 
   return (
@@ -199,14 +275,16 @@ function TravelRegulationCreation({ onNavigate }: TravelRegulationCreationProps)
                 <div className="flex space-x-3">
                   <button
                     onClick={() => generateDocument('word')}
-                    className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-800 text-white rounded-lg font-medium hover:from-blue-700 hover:to-blue-900 transition-all duration-200"
+                    disabled={exporting}
+                    className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-800 text-white rounded-lg font-medium hover:from-blue-700 hover:to-blue-900 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <FileText className="w-4 h-4" />
                     <span>Word生成</span>
                   </button>
                   <button
                     onClick={() => generateDocument('pdf')}
-                    className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-red-600 to-red-800 text-white rounded-lg font-medium hover:from-red-700 hover:to-red-900 transition-all duration-200"
+                    disabled={exporting}
+                    className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-red-600 to-red-800 text-white rounded-lg font-medium hover:from-red-700 hover:to-red-900 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <Download className="w-4 h-4" />
                     <span>PDF生成</span>
@@ -215,9 +293,32 @@ function TravelRegulationCreation({ onNavigate }: TravelRegulationCreationProps)
               </div>
 
               <div className="space-y-6">
+                {/* PDF取り込み時の確認事項 */}
+                {importIssues.length > 0 && (
+                  <div className="backdrop-blur-xl bg-amber-50/60 rounded-xl p-6 border border-amber-200 shadow-xl">
+                    <div className="flex items-center justify-between mb-2">
+                      <h2 className="text-xl font-semibold text-amber-800 flex items-center space-x-2">
+                        <AlertTriangle className="w-5 h-5" />
+                        <span>取り込み内容の確認（{importIssues.length}件）</span>
+                      </h2>
+                      <button
+                        onClick={() => setImportIssues([])}
+                        className="px-3 py-1 text-sm text-amber-800 hover:bg-amber-100 rounded-lg transition-colors"
+                      >
+                        すべて確認済みにする
+                      </button>
+                    </div>
+                    <p className="text-sm text-amber-800 mb-4">
+                      {importedRegulation?.fileName}から読み取れなかった箇所があります。各項目の注意書きを確認し、必要に応じて修正してください。
+                    </p>
+                    {renderImportIssues('unmatched')}
+                  </div>
+                )}
+
                 {/* 会社情報 */}
                 <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl">
                   <h2 className="text-xl font-semibold text-slate-800 mb-4">会社情報</h2>
+                  {renderImportIssues('companyInfo')}
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div>
                       <label className="block text-sm font-medium text-slate-700 mb-2">会社名</label>
@@ -285,6 +386,7 @@ function TravelRegulationCreation({ onNavigate }: TravelRegulationCreationProps)
                 {/* 第1条 目的 */}
                 <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl">
                   <h2 className="text-xl font-semibold text-slate-800 mb-4">第1条（目的）</h2>
+                  {renderImportIssues('article1')}
                   <textarea
                     value={data.article1}
                     onChange={(e) => setData(prev => ({ ...prev, article1: e.target.value }))}
@@ -296,6 +398,7 @@ function TravelRegulationCreation({ onNavigate }: TravelRegulationCreationProps)
                 {/* 第2条 適用範囲 */}
                 <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl">
                   <h2 className="text-xl font-semibold text-slate-800 mb-4">第2条（適用範囲）</h2>
+                  {renderImportIssues('article2')}
                   <textarea
                     value={data.article2}
                     onChange={(e) => setData(prev => ({ ...prev, article2: e.target.value }))}
@@ -307,6 +410,7 @@ function TravelRegulationCreation({ onNavigate }: TravelRegulationCreationProps)
                 {/* 第3条 旅費の種類 */}
                 <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl">
                   <h2 className="text-xl font-semibold text-slate-800 mb-4">第3条（旅費の種類）</h2>
+                  {renderImportIssues('article3')}
                   <textarea
                     value={data.article3}
                     onChange={(e) => setData(prev => ({ ...prev, article3: e.target.value }))}
@@ -352,6 +456,7 @@ function TravelRegulationCreation({ onNavigate }: TravelRegulationCreationProps)
                         <span>役職追加</span>
                       </button>
                     </div>
+                    {renderImportIssues('positions')}
 
                     <div className="space-y-4">
                       {data.positions.map((position) => (
@@ -426,6 +531,7 @@ function TravelRegulationCreation({ onNavigate }: TravelRegulationCreationProps)
                 {/* 第4条 出張の定義 */}
                 <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl">
                   <h2 className="text-xl font-semibold text-slate-800 mb-4">第4条（出張の定義）</h2>
+                  {renderImportIssues('article4', 'distanceThreshold')}
                   <div className="mb-4">
                     <label className="block text-sm font-medium text-slate-700 mb-2">出張の距離基準（km）</label>
                     <div className="flex items-center space-x-4">
@@ -461,6 +567,7 @@ function TravelRegulationCreation({ onNavigate }: TravelRegulationCreationProps)
                 ].map(({ key, title }) => (
                   <div key={key} className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl">
                     <h2 className="text-xl font-semibold text-slate-800 mb-4">{title}</h2>
+                    {renderImportIssues(key)}
                     <textarea
                       value={data[key as keyof RegulationData] as string}
                       onChange={(e) => setData(prev => ({ ...prev, [key]: e.target.value }))}
@@ -470,6 +577,23 @@ function TravelRegulationCreation({ onNavigate }: TravelRegulationCreationProps)
                   </div>
                 ))}
 
+                {/* 変更概要 */}
+                <div className="backdrop-blur-xl bg-white/20 rounded-xl p-6 border border-white/30 shadow-xl">
+                  <h2 className="text-xl font-semibold text-slate-800 mb-2">変更概要</h2>
+                  <p className="text-sm text-slate-600 mb-4">
+                    {latestVersion
+                      ? `${latestVersion.version}からの変更内容を入力してください。未入力の場合は差分から自動で作成します。`
+                      : '初版として保存されます。'}
+                  </p>
+                  <input
+                    type="text"
+                    value={changeSummary}
+                    onChange={(e) => setChangeSummary(e.target.value)}
+                    className="w-full px-3 py-2 bg-white/50 border border-white/40 rounded-lg text-slate-700 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-navy-400 backdrop-blur-xl"
+                    placeholder="例：一般職の日当を増額"
+                  />
+                </div>
+
                 {/* 保存ボタン */}
                 <div className="flex justify-end space-x-4">
                   <button
@@ -480,10 +604,11 @@ function TravelRegulationCreation({ onNavigate }: TravelRegulationCreationProps)
                   </button>
                   <button
                     onClick={handleSave}
+                    disabled={saving}
                     className="flex items-center space-x-2 px-6 py-3 bg-gradient-to-r from-navy-700 to-navy-900 hover:from-navy-800 hover:to-navy-950 text-white rounded-lg font-medium shadow-xl hover:shadow-2xl transition-all duration-200 transform hover:scale-105"
                   >
                     <Save className="w-5 h-5" />
-                    <span>規程を保存</span>
+                    <span>{saving ? '保存中...' : '規程を保存'}</span>
                   </button>
                 </div>
               </div>
@@ -1,78 +1,54 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { ArrowLeft, Clock, GitBranch, RotateCcw, Eye, Download } from 'lucide-react';
 import Sidebar from './Sidebar';
 import TopBar from './TopBar';
+import { useTravelRegulations } from '../hooks/useTravelRegulations';
+import { useRegulationVersions } from '../hooks/useRegulationVersions';
+import {
+  diffRegulationVersions,
+  ALLOWANCE_FIELD_LABELS,
+  type AllowanceField,
+  type TextDiffSegment
+} from '../lib/regulationVersions';
 
 interface TravelRegulationHistoryProps {
   onNavigate: (view: 'dashboard' | 'business-trip' | 'expense' | 'tax-simulation' | 'travel-regulation-management' | 'travel-regulation-creation' | 'travel-regulation-history') => void;
 }
 
-interface HistoryItem {
-  id: string;
-  version: string;
-  createdAt: string;
-  createdBy: string;
-  changes: string[];
-  status: 'current' | 'archived';
-  domesticAllowance: {
-    executive: number;
-    manager: number;
-    general: number;
-  };
-  overseasAllowance: {
-    executive: number;
-    manager: number;
-    general: number;
-  };
-}
+const ALLOWANCE_FIELDS: AllowanceField[] = ['dailyAllowance', 'transportationAllowance', 'accommodationAllowance'];
+
+// 条文の差分を片側分だけ表示する（旧版は削除箇所、新版は追加箇所を強調）
+const renderSegments = (segments: TextDiffSegment[], side: 'before' | 'after') =>
+  segments
+    .filter(segment => segment.type === 'equal' || segment.type === (side === 'before' ? 'removed' : 'added'))
+    .map((segment, index) => (
+      <span
+        key={index}
+        className={
+          segment.type === 'removed'
+            ? 'bg-red-100 text-red-700 line-through'
+            : segment.type === 'added'
+              ? 'bg-emerald-100 text-emerald-700'
+              : ''
+        }
+      >
+        {segment.text}
+      </span>
+    ));
 
 function TravelRegulationHistory({ onNavigate }: TravelRegulationHistoryProps) {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [selectedVersions, setSelectedVersions] = useState<string[]>([]);
+  const [showUnchanged, setShowUnchanged] = useState(false);
 
-  // サンプルデータ
-  const historyData: HistoryItem[] = [
-    {
-      id: '1',
-      version: 'v3.0',
-      createdAt: '2024-07-20T10:00:00Z',
-      createdBy: '山田太郎',
-      changes: ['海外日当を増額', '宿泊費上限を変更'],
-      status: 'current',
-      domesticAllowance: { executive: 8000, manager: 6000, general: 5000 },
-      overseasAllowance: { executive: 15000, manager: 12000, general: 10000 }
-    },
-    {
-      id: '2',
-      version: 'v2.1',
-      createdAt: '2024-06-15T14:30:00Z',
-      createdBy: '佐藤花子',
-      changes: ['交通費規定を明確化', '領収書提出期限を変更'],
-      status: 'archived',
-      domesticAllowance: { executive: 8000, manager: 6000, general: 5000 },
-      overseasAllowance: { executive: 12000, manager: 10000, general: 8000 }
-    },
-    {
-      id: '3',
-      version: 'v2.0',
-      createdAt: '2024-05-10T09:15:00Z',
-      createdBy: '田中次郎',
-      changes: ['国内日当を増額', '新しい職位区分を追加'],
-      status: 'archived',
-      domesticAllowance: { executive: 7000, manager: 5000, general: 4000 },
-      overseasAllowance: { executive: 12000, manager: 10000, general: 8000 }
-    },
-    {
-      id: '4',
-      version: 'v1.0',
-      createdAt: '2024-01-01T00:00:00Z',
-      createdBy: '鈴木一郎',
-      changes: ['初版作成'],
-      status: 'archived',
-      domesticAllowance: { executive: 7000, manager: 5000, general: 4000 },
-      overseasAllowance: { executive: 10000, manager: 8000, general: 6000 }
-    }
-  ];
+  // 規程管理画面で選択された規程、未指定の場合は運用中の規程の履歴を表示する
+  const { activeRegulation } = useTravelRegulations();
+  const [requestedRegulationId] = useState(() => localStorage.getItem('historyRegulationId'));
+  const fallbackRegulationId = localStorage.getItem('demoMode') === 'true'
+    ? (JSON.parse(localStorage.getItem('travelRegulations') || '[]')[0]?.id as string | undefined)
+    : activeRegulation?.id;
+  const regulationId = requestedRegulationId || fallbackRegulationId || null;
+  const { versions, latestVersion, loading, error, restoreVersion } = useRegulationVersions(regulationId);
 
   const toggleSidebar = () => {
     setIsSidebarOpen(!isSidebarOpen);
@@ -86,44 +62,37 @@ function TravelRegulationHistory({ onNavigate }: TravelRegulationHistoryProps) {
     }
   };
 
-  const handleRestore = (versionId: string) => {
-    if (confirm('このバージョンを復元してもよろしいですか？新しいバージョンとして保存されます。')) {
-      alert('バージョンが復元されました。');
+  const handleRestore = async (versionId: string) => {
+    const source = versions.find(version => version.id === versionId);
+    if (!source) return;
+
+    const summary = prompt(
+      'このバージョンを復元してもよろしいですか？新しいバージョンとして保存されます。\n変更概要を入力してください。',
+      `${source.version}から復元`
+    );
+    if (summary === null) return;
+
+    const result = await restoreVersion(versionId, summary);
+    if (result.success && result.version) {
+      setSelectedVersions([]);
+      alert(`${source.version}の内容を${result.version.version}として復元しました。`);
+    } else {
+      alert(`復元に失敗しました: ${result.error}`);
     }
   };
 
-  const getDifferences = () => {
+  // 版番号の小さい方を変更前として比較する
+  const diffData = useMemo(() => {
     if (selectedVersions.length !== 2) return null;
-    
-    const version1 = historyData.find(h => h.id === selectedVersions[0]);
-    const version2 = historyData.find(h => h.id === selectedVersions[1]);
-    
-    if (!version1 || !version2) return null;
-
-    const differences = [];
-    
-    // 国内日当の差分
-    if (version1.domesticAllowance.general !== version2.domesticAllowance.general) {
-      differences.push({
-        field: '国内日当（一般職）',
-        old: version2.domesticAllowance.general,
-        new: version1.domesticAllowance.general
-      });
-    }
-    
-    // 海外日当の差分
-    if (version1.overseasAllowance.general !== version2.overseasAllowance.general) {
-      differences.push({
-        field: '海外日当（一般職）',
-        old: version2.overseasAllowance.general,
-        new: version1.overseasAllowance.general
-      });
-    }
 
-    return { version1, version2, differences };
-  };
+    const [before, after] = selectedVersions
+      .map(id => versions.find(version => version.id === id))
+      .filter((version): version is NonNullable<typeof version> => !!version)
+      .sort((a, b) => a.version_number - b.version_number);
 
-  const diffData = getDifferences();
+    if (!before || !after) return null;
+    return { before, after, diff: diffRegulationVersions(before, after) };
+  }, [selectedVersions, versions]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 relative overflow-hidden">
@@ -173,140 +142,240 @@ function TravelRegulationHistory({ onNavigate }: TravelRegulationHistoryProps) {
                 )}
               </div>
 
-              <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+              <div className="space-y-6">
                 {/* バージョン履歴 */}
-                <div className="xl:col-span-2">
-                  <div className="backdrop-blur-xl bg-white/20 rounded-xl border border-white/30 shadow-xl">
-                    <div className="p-6 border-b border-white/30">
-                      <h2 className="text-xl font-semibold text-slate-800 flex items-center">
-                        <Clock className="w-5 h-5 mr-2" />
-                        バージョン履歴
-                      </h2>
-                      <p className="text-sm text-slate-600 mt-1">
-                        {selectedVersions.length < 2 ? '2つのバージョンを選択して比較できます' : '選択したバージョンの差分を表示中'}
-                      </p>
-                    </div>
+                <div className="backdrop-blur-xl bg-white/20 rounded-xl border border-white/30 shadow-xl">
+                  <div className="p-6 border-b border-white/30">
+                    <h2 className="text-xl font-semibold text-slate-800 flex items-center">
+                      <Clock className="w-5 h-5 mr-2" />
+                      バージョン履歴
+                      {latestVersion && <span className="ml-3 text-base font-normal text-slate-600">{latestVersion.name}</span>}
+                    </h2>
+                    <p className="text-sm text-slate-600 mt-1">
+                      {selectedVersions.length < 2 ? '2つのバージョンを選択して比較できます' : '選択したバージョンの差分を表示中'}
+                    </p>
+                  </div>
+                  {loading ? (
+                    <div className="p-6 text-center text-slate-500">読み込み中...</div>
+                  ) : error ? (
+                    <div className="p-6 text-center text-red-600">{error}</div>
+                  ) : versions.length === 0 ? (
+                    <div className="p-6 text-center text-slate-500">保存されたバージョンはありません</div>
+                  ) : (
                     <div className="divide-y divide-white/20">
-                      {historyData.map((item) => (
-                        <div 
-                          key={item.id} 
-                          className={`p-6 hover:bg-white/20 transition-colors cursor-pointer ${
-                            selectedVersions.includes(item.id) ? 'bg-navy-50/30 border-l-4 border-navy-600' : ''
-                          }`}
-                          onClick={() => handleVersionSelect(item.id)}
-                        >
-                          <div className="flex items-start justify-between">
-                            <div className="flex-1">
-                              <div className="flex items-center space-x-3 mb-2">
-                                <span className={`px-3 py-1 rounded-full text-sm font-medium ${
-                                  item.status === 'current' 
-                                    ? 'text-emerald-700 bg-emerald-100' 
-                                    : 'text-slate-700 bg-slate-100'
-                                }`}>
-                                  {item.version}
-                                </span>
-                                {item.status === 'current' && (
-                                  <span className="text-xs text-emerald-600 font-medium">現在のバージョン</span>
-                                )}
-                              </div>
-                              <p className="text-slate-700 font-medium mb-1">{item.createdBy}</p>
-                              <p className="text-slate-600 text-sm mb-3">
-                                {new Date(item.createdAt).toLocaleString('ja-JP')}
-                              </p>
-                              <div className="space-y-1">
-                                {item.changes.map((change, index) => (
-                                  <div key={index} className="flex items-center text-sm text-slate-600">
-                                    <GitBranch className="w-3 h-3 mr-2" />
-                                    {change}
-                                  </div>
-                                ))}
-                              </div>
-                              <div className="mt-3 grid grid-cols-2 gap-4 text-xs text-slate-500">
-                                <div>
-                                  <span className="font-medium">国内日当: </span>
-                                  ¥{item.domesticAllowance.general.toLocaleString()}
+                      {versions.map((item) => {
+                        const isCurrent = item.id === latestVersion?.id;
+                        const restoredFrom = item.restored_from
+                          ? versions.find(version => version.id === item.restored_from)
+                          : null;
+
+                        return (
+                          <div 
+                            key={item.id} 
+                            className={`p-6 hover:bg-white/20 transition-colors cursor-pointer ${
+                              selectedVersions.includes(item.id) ? 'bg-navy-50/30 border-l-4 border-navy-600' : ''
+                            }`}
+                            onClick={() => handleVersionSelect(item.id)}
+                          >
+                            <div className="flex items-start justify-between">
+                              <div className="flex-1">
+                                <div className="flex items-center space-x-3 mb-2">
+                                  <span className={`px-3 py-1 rounded-full text-sm font-medium ${
+                                    isCurrent 
+                                      ? 'text-emerald-700 bg-emerald-100' 
+                                      : 'text-slate-700 bg-slate-100'
+                                  }`}>
+                                    {item.version}
+                                  </span>
+                                  {isCurrent && (
+                                    <span className="text-xs text-emerald-600 font-medium">現在のバージョン</span>
+                                  )}
+                                  {item.restored_from && (
+                                    <span className="text-xs text-navy-600 font-medium">
+                                      {restoredFrom ? `${restoredFrom.version}から復元` : '復元'}
+                                    </span>
+                                  )}
+                                </div>
+                                <p className="text-slate-700 font-medium mb-1">{item.created_by_name || '不明なユーザー'}</p>
+                                <p className="text-slate-600 text-sm mb-3">
+                                  {new Date(item.created_at).toLocaleString('ja-JP')}
+                                </p>
+                                <div className="space-y-1">
+                                  {(item.change_summary || '').split('、').filter(Boolean).map((change, index) => (
+                                    <div key={index} className="flex items-center text-sm text-slate-600">
+                                      <GitBranch className="w-3 h-3 mr-2" />
+                                      {change}
+                                    </div>
+                                  ))}
                                 </div>
-                                <div>
-                                  <span className="font-medium">海外日当: </span>
-                                  ¥{item.overseasAllowance.general.toLocaleString()}
+                                <div className="mt-3 flex flex-wrap gap-4 text-xs text-slate-500">
+                                  {item.allowance_settings.positions.map(position => (
+                                    <div key={position.id}>
+                                      <span className="font-medium">{position.name}日当: </span>
+                                      ¥{position.dailyAllowance.toLocaleString()}
+                                    </div>
+                                  ))}
                                 </div>
                               </div>
-                            </div>
-                            <div className="flex items-center space-x-2 ml-4">
-                              <button
-                                className="p-2 text-slate-600 hover:text-slate-800 hover:bg-white/30 rounded-lg transition-colors"
-                                title="プレビュー"
-                              >
-                                <Eye className="w-4 h-4" />
-                              </button>
-                              <button
-                                className="p-2 text-slate-600 hover:text-slate-800 hover:bg-white/30 rounded-lg transition-colors"
-                                title="ダウンロード"
-                              >
-                                <Download className="w-4 h-4" />
-                              </button>
-                              {item.status !== 'current' && (
+                              <div className="flex items-center space-x-2 ml-4">
                                 <button
-                                  onClick={(e) => {
-                                    e.stopPropagation();
-                                    handleRestore(item.id);
-                                  }}
-                                  className="p-2 text-navy-600 hover:text-navy-800 hover:bg-navy-50/30 rounded-lg transition-colors"
-                                  title="復元"
+                                  className="p-2 text-slate-600 hover:text-slate-800 hover:bg-white/30 rounded-lg transition-colors"
+                                  title="プレビュー"
                                 >
-                                  <RotateCcw className="w-4 h-4" />
+                                  <Eye className="w-4 h-4" />
                                 </button>
-                              )}
+                                <button
+                                  className="p-2 text-slate-600 hover:text-slate-800 hover:bg-white/30 rounded-lg transition-colors"
+                                  title="ダウンロード"
+                                >
+                                  <Download className="w-4 h-4" />
+                                </button>
+                                {!isCurrent && (
+                                  <button
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      handleRestore(item.id);
+                                    }}
+                                    className="p-2 text-navy-600 hover:text-navy-800 hover:bg-navy-50/30 rounded-lg transition-colors"
+                                    title="復元"
+                                  >
+                                    <RotateCcw className="w-4 h-4" />
+                                  </button>
+                                )}
+                              </div>
                             </div>
                           </div>
-                        </div>
-                      ))}
+                        );
+                      })}
                     </div>
-                  </div>
+                  )}
                 </div>
 
                 {/* 差分表示 */}
-                <div>
-                  <div className="backdrop-blur-xl bg-white/20 rounded-xl border border-white/30 shadow-xl">
-                    <div className="p-6 border-b border-white/30">
-                      <h2 className="text-xl font-semibold text-slate-800">差分比較</h2>
-                    </div>
-                    <div className="p-6">
-                      {!diffData ? (
-                        <div className="text-center text-slate-500 py-8">
-                          <GitBranch className="w-12 h-12 mx-auto mb-4 opacity-50" />
-                          <p>2つのバージョンを選択してください</p>
+                <div className="backdrop-blur-xl bg-white/20 rounded-xl border border-white/30 shadow-xl">
+                  <div className="p-6 border-b border-white/30 flex items-center justify-between">
+                    <h2 className="text-xl font-semibold text-slate-800">差分比較</h2>
+                    {diffData && (
+                      <label className="flex items-center space-x-2 text-sm text-slate-600">
+                        <input
+                          type="checkbox"
+                          checked={showUnchanged}
+                          onChange={(e) => setShowUnchanged(e.target.checked)}
+                          className="rounded border-slate-300 text-navy-600 focus:ring-navy-500"
+                        />
+                        <span>変更のない条文も表示</span>
+                      </label>
+                    )}
+                  </div>
+                  <div className="p-6">
+                    {!diffData ? (
+                      <div className="text-center text-slate-500 py-8">
+                        <GitBranch className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                        <p>2つのバージョンを選択してください</p>
+                      </div>
+                    ) : !diffData.diff.hasChanges ? (
+                      <p className="text-slate-500 text-center py-4">
+                        {diffData.before.version} と {diffData.after.version} の間に変更はありません
+                      </p>
+                    ) : (
+                      <div className="space-y-6">
+                        {/* 別表（役職別支給額） */}
+                        <div>
+                          <h3 className="font-semibold text-slate-800 mb-3">別表（役職別支給額）</h3>
+                          <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                              <thead>
+                                <tr className="text-slate-600 border-b border-white/40">
+                                  <th className="text-left py-2 px-3">役職</th>
+                                  {ALLOWANCE_FIELDS.map(field => (
+                                    <th key={field} className="text-right py-2 px-3">
+                                      {ALLOWANCE_FIELD_LABELS[field]}（{diffData.before.version} → {diffData.after.version}）
+                                    </th>
+                                  ))}
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {diffData.diff.allowances.map(row => (
+                                  <tr
+                                    key={row.positionName}
+                                    className={`border-b border-white/20 ${
+                                      row.status === 'added' ? 'bg-emerald-50/50' : row.status === 'removed' ? 'bg-red-50/50' : ''
+                                    }`}
+                                  >
+                                    <td className="py-2 px-3 text-slate-700">
+                                      {row.positionName}
+                                      {row.status === 'added' && <span className="ml-2 text-xs text-emerald-600">追加</span>}
+                                      {row.status === 'removed' && <span className="ml-2 text-xs text-red-600">削除</span>}
+                                    </td>
+                                    {ALLOWANCE_FIELDS.map(field => {
+                                      const changed = row.changedFields.includes(field);
+                                      return (
+                                        <td key={field} className="py-2 px-3 text-right">
+                                          <span className={changed ? 'text-red-600 line-through' : 'text-slate-600'}>
+                                            {row.before ? `¥${row.before[field].toLocaleString()}` : '-'}
+                                          </span>
+                                          <span className="mx-1 text-slate-400">→</span>
+                                          <span className={changed ? 'text-emerald-600 font-medium' : 'text-slate-600'}>
+                                            {row.after ? `¥${row.after[field].toLocaleString()}` : '-'}
+                                          </span>
+                                        </td>
+                                      );
+                                    })}
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </div>
                         </div>
-                      ) : (
-                        <div className="space-y-4">
-                          <div className="text-sm text-slate-600 mb-4">
-                            <div className="font-medium">{diffData.version1.version} vs {diffData.version2.version}</div>
+
+                        {diffData.diff.settings.length > 0 && (
+                          <div>
+                            <h3 className="font-semibold text-slate-800 mb-3">設定値</h3>
+                            <div className="space-y-2">
+                              {diffData.diff.settings.map(setting => (
+                                <div key={setting.label} className="bg-white/30 rounded-lg p-3 text-sm flex items-center justify-between">
+                                  <span className="text-slate-700">{setting.label}</span>
+                                  <span>
+                                    <span className="text-red-600">{setting.before}</span>
+                                    <span className="mx-2 text-slate-400">→</span>
+                                    <span className="text-emerald-600">{setting.after}</span>
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
                           </div>
-                          
-                          {diffData.differences.length === 0 ? (
-                            <p className="text-slate-500 text-center py-4">変更はありません</p>
-                          ) : (
-                            <div className="space-y-3">
-                              {diffData.differences.map((diff, index) => (
-                                <div key={index} className="bg-white/30 rounded-lg p-3">
-                                  <div className="font-medium text-slate-700 mb-2">{diff.field}</div>
-                                  <div className="space-y-1 text-sm">
-                                    <div className="flex items-center">
-                                      <span className="w-8 h-8 bg-red-100 text-red-600 rounded-full flex items-center justify-center text-xs mr-2">-</span>
-                                      <span className="text-red-600">¥{diff.old.toLocaleString()}</span>
-                                    </div>
-                                    <div className="flex items-center">
-                                      <span className="w-8 h-8 bg-emerald-100 text-emerald-600 rounded-full flex items-center justify-center text-xs mr-2">+</span>
-                                      <span className="text-emerald-600">¥{diff.new.toLocaleString()}</span>
-                                    </div>
+                        )}
+
+                        {/* 条文（左右比較） */}
+                        <div>
+                          <h3 className="font-semibold text-slate-800 mb-3">条文</h3>
+                          <div className="grid grid-cols-2 gap-4 text-sm font-medium text-slate-600 mb-2">
+                            <div>{diffData.before.version}（{new Date(diffData.before.created_at).toLocaleDateString('ja-JP')}）</div>
+                            <div>{diffData.after.version}（{new Date(diffData.after.created_at).toLocaleDateString('ja-JP')}）</div>
+                          </div>
+                          <div className="space-y-3">
+                            {diffData.diff.articles
+                              .filter(article => showUnchanged || article.status !== 'unchanged')
+                              .map(article => (
+                                <div key={article.key} className="bg-white/30 rounded-lg p-3">
+                                  <div className="font-medium text-slate-700 mb-2">
+                                    {article.title}
+                                    {article.status !== 'unchanged' && (
+                                      <span className="ml-2 text-xs text-navy-600">
+                                        {article.status === 'added' ? '追加' : article.status === 'removed' ? '削除' : '変更'}
+                                      </span>
+                                    )}
+                                  </div>
+                                  <div className="grid grid-cols-2 gap-4 text-sm text-slate-700 leading-relaxed">
+                                    <div className="whitespace-pre-wrap">{renderSegments(article.segments, 'before')}</div>
+                                    <div className="whitespace-pre-wrap">{renderSegments(article.segments, 'after')}</div>
                                   </div>
                                 </div>
                               ))}
-                            </div>
-                          )}
+                          </div>
                         </div>
-                      )}
-                    </div>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Plus, Search, Edit, Trash2, History, Upload, Download, FileText } from 'lucide-react';
 import Sidebar from './Sidebar';
 import TopBar from './TopBar';
+import { importRegulationPdf } from '../lib/regulationImport';
 
 interface TravelRegulationManagementProps {
   onNavigate: (view: 'dashboard' | 'business-trip' | 'expense' | 'tax-simulation' | 'travel-regulation-management' | 'travel-regulation-creation' | 'travel-regulation-history') => void;
@@ -31,6 +32,7 @@ function TravelRegulationManagement({ onNavigate }: TravelRegulationManagementPr
   const [regulations, setRegulations] = useState<Regulation[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [showUploadModal, setShowUploadModal] = useState(false);
+  const [importing, setImporting] = useState(false);
 
   useEffect(() => {
     // ローカルストレージから規程データを読み込み
@@ -61,28 +63,26 @@ function TravelRegulationManagement({ onNavigate }: TravelRegulationManagementPr
     onNavigate('travel-regulation-creation');
   };
 
-  const handleUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  // 既存の規程PDFを読み取り、規程作成画面で内容を確認してから保存する
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file && file.type === 'application/pdf') {
-      // PDFアップロード処理（実際の実装では、サーバーサイドでPDF解析を行う）
-      const newRegulation: Regulation = {
-        id: Date.now().toString(),
-        companyName: `アップロード規程_${file.name}`,
-        version: 'v1.0',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        status: 'draft',
-        domesticAllowance: { executive: 0, manager: 0, general: 0 },
-        overseasAllowance: { executive: 0, manager: 0, general: 0 }
-      };
-      
-      const updatedRegulations = [...regulations, newRegulation];
-      setRegulations(updatedRegulations);
-      localStorage.setItem('travelRegulations', JSON.stringify(updatedRegulations));
-      setShowUploadModal(false);
-      alert('PDFファイルがアップロードされました。');
-    } else {
+    event.target.value = '';
+    if (!file || file.type !== 'application/pdf') {
       alert('PDFファイルを選択してください。');
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const result = await importRegulationPdf(file);
+      localStorage.removeItem('editingRegulationId');
+      localStorage.setItem('importedRegulation', JSON.stringify(result));
+      setShowUploadModal(false);
+      onNavigate('travel-regulation-creation');
+    } catch (error) {
+      alert(`PDFの取り込みに失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`);
+    } finally {
+      setImporting(false);
     }
   };
 
@@ -150,7 +150,10 @@ function TravelRegulationManagement({ onNavigate }: TravelRegulationManagementPr
                     <span>PDFアップロード</span>
                   </button>
                   <button
-                    onClick={() => onNavigate('travel-regulation-creation')}
+                    onClick={() => {
+                      localStorage.removeItem('editingRegulationId');
+                      onNavigate('travel-regulation-creation');
+                    }}
                     className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-navy-700 to-navy-900 text-white rounded-lg font-medium hover:from-navy-800 hover:to-navy-950 transition-all duration-200"
                   >
                     <Plus className="w-4 h-4" />
@@ -227,7 +230,10 @@ function TravelRegulationManagement({ onNavigate }: TravelRegulationManagementPr
                                   <Edit className="w-4 h-4" />
                                 </button>
                                 <button
-                                  onClick={() => onNavigate('travel-regulation-history')}
+                                  onClick={() => {
+                                    localStorage.setItem('historyRegulationId', regulation.id);
+                                    onNavigate('travel-regulation-history');
+                                  }}
                                   className="p-2 text-slate-600 hover:text-slate-800 hover:bg-white/30 rounded-lg transition-colors"
                                   title="履歴"
                                 >
@@ -261,17 +267,21 @@ function TravelRegulationManagement({ onNavigate }: TravelRegulationManagementPr
             <h3 className="text-lg font-semibold text-slate-800 mb-4">PDFファイルをアップロード</h3>
             <div className="border-2 border-dashed border-slate-300 rounded-lg p-6 text-center">
               <FileText className="w-12 h-12 text-slate-400 mx-auto mb-4" />
-              <p className="text-slate-600 mb-4">出張規程のPDFファイルを選択してください</p>
+              <p className="text-slate-600 mb-4">
+                {importing ? 'PDFを読み取っています...' : '出張規程のPDFファイルを選択してください'}
+              </p>
+              <p className="text-xs text-slate-500 mb-4">条文・別表を読み取り、規程作成画面で内容を確認してから保存します</p>
               <input
                 type="file"
                 accept=".pdf"
                 onChange={handleUpload}
+                disabled={importing}
                 className="hidden"
                 id="pdf-upload"
               />
               <label
                 htmlFor="pdf-upload"
-                className="inline-block px-4 py-2 bg-navy-600 hover:bg-navy-700 text-white rounded-lg cursor-pointer transition-colors"
+                className={`inline-block px-4 py-2 bg-navy-600 hover:bg-navy-700 text-white rounded-lg cursor-pointer transition-colors ${importing ? 'opacity-50 pointer-events-none' : ''}`}
               >
                 ファイルを選択
               </label>
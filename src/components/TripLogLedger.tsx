@@ -0,0 +1,528 @@
+import { useEffect, useState } from 'react';
+import { MapPin, Crosshair, Upload, Plus, Building2, Ban, Link2, ShieldCheck, CheckCircle, AlertTriangle } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { usePermissions } from '../hooks/usePermissions';
+import { useApplications, type Application } from '../hooks/useApplications';
+import { useTravelRegulations } from '../hooks/useTravelRegulations';
+import { resolveAllowanceSettings } from '../lib/allowanceCalculator';
+import {
+  addTripCheckpoints,
+  excludeTripCheckpoint,
+  getOrganizationWorkLocation,
+  getTripCheckpoints,
+  linkCheckpointReceipt,
+  saveOrganizationWorkLocation,
+  searchStoredDocuments,
+  type BusinessTripDetail
+} from '../lib/supabase';
+import type { StoredDocument } from '../lib/electronicBookkeeping';
+import type { TripLogContent } from '../lib/documentTemplates';
+import {
+  CHECKPOINT_SOURCE_LABELS,
+  distanceKm,
+  getCurrentCheckpoint,
+  isValidCoordinate,
+  parseGpx,
+  summarizeTripLog,
+  thinTrackPoints,
+  toTripLogErrorMessage,
+  type NewTripCheckpoint,
+  type TripCheckpoint,
+  type WorkLocation
+} from '../lib/tripLog';
+
+export interface TripLogLedgerValue {
+  applicationId: string | null;
+  content: TripLogContent;
+}
+
+interface TripLogLedgerProps {
+  onChange: (value: TripLogLedgerValue | null) => void;
+}
+
+type TripApplication = Application & { business_trip_details?: BusinessTripDetail[] };
+
+const inputClass = 'w-full px-3 py-2 bg-white/50 border border-white/40 rounded-lg text-slate-700 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-navy-400 backdrop-blur-xl';
+
+const getTripPeriod = (application: TripApplication | undefined) => {
+  const details = application?.business_trip_details?.[0];
+  return {
+    start: details?.start_date || application?.data?.tripDetails?.startDate || '',
+    end: details?.end_date || application?.data?.tripDetails?.endDate || ''
+  };
+};
+
+interface WorkLocationDraft {
+  name: string;
+  latitude: string;
+  longitude: string;
+}
+
+// 地点を追加できる申請（承認後は台帳を変更できない）
+const RECORDABLE_STATUSES = ['draft', 'pending', 'returned'];
+
+const toWorkLocationDraft = (location: WorkLocation | null): WorkLocationDraft => ({
+  name: location?.name || '',
+  latitude: location ? String(location.latitude) : '',
+  longitude: location ? String(location.longitude) : ''
+});
+
+const toWorkLocation = (draft: WorkLocationDraft): WorkLocation | null => {
+  const latitude = Number(draft.latitude);
+  const longitude = Number(draft.longitude);
+  return draft.latitude && draft.longitude && isValidCoordinate(latitude, longitude)
+    ? { name: draft.name || null, latitude, longitude }
+    : null;
+};
+
+// デモモードでは保存せず、画面上で距離を計算する
+const toDemoCheckpoint = (checkpoint: NewTripCheckpoint, applicationId: string, office: WorkLocation | null, index: number): TripCheckpoint => ({
+  id: `demo-checkpoint-${Date.now()}-${index}`,
+  application_id: applicationId,
+  user_id: 'demo-user-id',
+  recorded_at: checkpoint.recordedAt,
+  latitude: checkpoint.latitude,
+  longitude: checkpoint.longitude,
+  accuracy_m: checkpoint.accuracyM ?? null,
+  place_name: checkpoint.placeName || null,
+  source: checkpoint.source,
+  office_latitude: office?.latitude ?? null,
+  office_longitude: office?.longitude ?? null,
+  distance_from_office_km: office ? Math.round(distanceKm(office, checkpoint) * 100) / 100 : null,
+  stored_document_id: null,
+  note: checkpoint.note || null,
+  excluded_at: null,
+  exclusion_reason: null,
+  created_at: new Date().toISOString()
+});
+
+function TripLogLedger({ onChange }: TripLogLedgerProps) {
+  const { user, profile } = useAuth();
+  const { can } = usePermissions();
+  const { applications } = useApplications();
+  const { activeRegulation } = useTravelRegulations();
+  const isDemoMode = localStorage.getItem('demoMode') === 'true';
+  const distanceThreshold = resolveAllowanceSettings(activeRegulation).distanceThreshold;
+
+  const trips = (applications as TripApplication[]).filter(application => application.type === 'business_trip');
+  const [applicationId, setApplicationId] = useState('');
+  const application = trips.find(trip => trip.id === applicationId);
+  const period = getTripPeriod(application);
+  const recordable = !!application && RECORDABLE_STATUSES.includes(application.status);
+
+  const [checkpoints, setCheckpoints] = useState<TripCheckpoint[]>([]);
+  const [receipts, setReceipts] = useState<StoredDocument[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [gpxPreview, setGpxPreview] = useState<NewTripCheckpoint[] | null>(null);
+  const [manual, setManual] = useState({ recordedAt: '', placeName: '', latitude: '', longitude: '' });
+
+  // 勤務地は出張申請の組織（未選択の場合は現在の組織）の設定を使う
+  const organizationId = application?.organization_id || profile?.default_organization_id || null;
+  const canEditOffice = isDemoMode || (organizationId === profile?.default_organization_id && can('manage_organization_settings'));
+  const [savedOffice, setSavedOffice] = useState<WorkLocation | null>(null);
+  const [officeDraft, setOfficeDraft] = useState<WorkLocationDraft>(toWorkLocationDraft(null));
+  const office = toWorkLocation(officeDraft);
+  const officeSaved = !!savedOffice && !!office && savedOffice.name === office.name &&
+    savedOffice.latitude === office.latitude && savedOffice.longitude === office.longitude;
+
+  useEffect(() => {
+    if (isDemoMode || !organizationId) {
+      setSavedOffice(null);
+      if (!isDemoMode) setOfficeDraft(toWorkLocationDraft(null));
+      return;
+    }
+
+    let cancelled = false;
+    getOrganizationWorkLocation(organizationId).then(found => {
+      if (cancelled) return;
+      setSavedOffice(found);
+      setOfficeDraft(toWorkLocationDraft(found));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [organizationId, isDemoMode]);
+
+  useEffect(() => {
+    if (!applicationId || isDemoMode) {
+      setCheckpoints([]);
+      return;
+    }
+
+    let cancelled = false;
+    getTripCheckpoints(applicationId).then(found => {
+      if (!cancelled) setCheckpoints(found);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [applicationId, isDemoMode, reloadKey]);
+
+  // 出張期間の領収書（電子帳簿保存の登録済み書類）を紐付けの候補にする
+  useEffect(() => {
+    if (!period.start || !period.end || isDemoMode || !user) {
+      setReceipts([]);
+      return;
+    }
+
+    let cancelled = false;
+    searchStoredDocuments({ dateFrom: period.start, dateTo: period.end }).then(found => {
+      if (!cancelled) setReceipts(found.filter(document => document.user_id === user.id));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [period.start, period.end, isDemoMode, user]);
+
+  useEffect(() => {
+    if (!application) {
+      onChange(null);
+      return;
+    }
+    onChange({
+      applicationId: isDemoMode ? null : application.id,
+      content: {
+        applicationTitle: application.title,
+        period: getTripPeriod(application),
+        destination: application.data?.tripDetails?.destination || application.description || '',
+        workLocation: isDemoMode ? toWorkLocation(officeDraft) : savedOffice,
+        distanceThreshold,
+        checkpoints
+      }
+    });
+  }, [application, checkpoints, distanceThreshold, officeDraft, savedOffice, isDemoMode, onChange]);
+
+  const addCheckpoints = async (points: NewTripCheckpoint[]) => {
+    if (!application || points.length === 0) return false;
+
+    if (isDemoMode || !user) {
+      setCheckpoints(prev => [...prev, ...points.map((point, index) => toDemoCheckpoint(point, application.id, office, index))]
+        .sort((a, b) => new Date(a.recorded_at).getTime() - new Date(b.recorded_at).getTime()));
+      return true;
+    }
+
+    setBusy(true);
+    const result = await addTripCheckpoints(application.id, user.id, points);
+    setBusy(false);
+    if (!result.success) {
+      alert(`地点を記録できませんでした: ${toTripLogErrorMessage(result.error)}`);
+      return false;
+    }
+    setReloadKey(key => key + 1);
+    return true;
+  };
+
+  const handleSaveOffice = async () => {
+    if (!office) {
+      alert('勤務地の緯度・経度を正しく入力してください');
+      return;
+    }
+    if (isDemoMode || !organizationId) return;
+
+    const result = await saveOrganizationWorkLocation(organizationId, office);
+    if (!result.success) {
+      alert(`勤務地を保存できませんでした: ${result.error}`);
+      return;
+    }
+    setSavedOffice(office);
+  };
+
+  const handleUseCurrentForOffice = async () => {
+    try {
+      const current = await getCurrentCheckpoint();
+      setOfficeDraft(prev => ({ ...prev, latitude: String(current.latitude), longitude: String(current.longitude) }));
+    } catch (err) {
+      alert(toTripLogErrorMessage(err instanceof Error ? err.message : undefined));
+    }
+  };
+
+  const handleRecordCurrent = async () => {
+    try {
+      const current = await getCurrentCheckpoint();
+      const placeName = prompt('地点名（任意）') || null;
+      await addCheckpoints([{ ...current, placeName }]);
+    } catch (err) {
+      alert(toTripLogErrorMessage(err instanceof Error ? err.message : undefined));
+    }
+  };
+
+  const handleAddManual = async () => {
+    const latitude = Number(manual.latitude);
+    const longitude = Number(manual.longitude);
+    if (!manual.recordedAt || !manual.latitude || !manual.longitude || !isValidCoordinate(latitude, longitude)) {
+      alert('日時と緯度・経度を正しく入力してください');
+      return;
+    }
+
+    const added = await addCheckpoints([{
+      recordedAt: new Date(manual.recordedAt).toISOString(),
+      latitude,
+      longitude,
+      placeName: manual.placeName || null,
+      source: 'manual'
+    }]);
+    if (added) setManual({ recordedAt: '', placeName: '', latitude: '', longitude: '' });
+  };
+
+  const handleGpxFile = async (file: File) => {
+    try {
+      const points = parseGpx(await file.text());
+      if (points.length === 0) {
+        alert('GPXファイルに日時付きの地点がありません');
+        return;
+      }
+      setGpxPreview(thinTrackPoints(points, office));
+    } catch (err) {
+      alert(toTripLogErrorMessage(err instanceof Error ? err.message : undefined));
+    }
+  };
+
+  const handleImportGpx = async () => {
+    if (gpxPreview && await addCheckpoints(gpxPreview)) {
+      setGpxPreview(null);
+    }
+  };
+
+  const handleExclude = async (checkpoint: TripCheckpoint) => {
+    const reason = prompt('除外する理由を入力してください');
+    if (!reason?.trim()) return;
+
+    if (isDemoMode) {
+      setCheckpoints(prev => prev.map(item =>
+        item.id === checkpoint.id ? { ...item, excluded_at: new Date().toISOString(), exclusion_reason: reason } : item
+      ));
+      return;
+    }
+
+    const result = await excludeTripCheckpoint(checkpoint.id, reason);
+    if (!result.success) {
+      alert(toTripLogErrorMessage(result.error));
+      return;
+    }
+    setReloadKey(key => key + 1);
+  };
+
+  const handleLinkReceipt = async (checkpoint: TripCheckpoint, documentId: string) => {
+    if (!documentId) return;
+    const result = await linkCheckpointReceipt(checkpoint.id, documentId);
+    if (!result.success) {
+      alert(toTripLogErrorMessage(result.error));
+      return;
+    }
+    setReloadKey(key => key + 1);
+  };
+
+  const summary = summarizeTripLog(checkpoints, distanceThreshold);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">出張申請</label>
+          <select value={applicationId} onChange={(e) => setApplicationId(e.target.value)} className={inputClass}>
+            <option value="">選択してください</option>
+            {trips.map(trip => (
+              <option key={trip.id} value={trip.id}>{trip.title}</option>
+            ))}
+          </select>
+          {application && (
+            <p className="text-xs text-slate-600 mt-1">
+              出張期間: {period.start || '未設定'} 〜 {period.end || '未設定'}
+            </p>
+          )}
+        </div>
+        <div className="p-4 bg-white/30 rounded-lg">
+          <div className="flex items-center text-sm font-medium text-slate-700 mb-2">
+            <Building2 className="w-4 h-4 mr-1" />
+            勤務地（距離の基準）
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <input type="text" value={officeDraft.name} onChange={(e) => setOfficeDraft(prev => ({ ...prev, name: e.target.value }))} disabled={!canEditOffice} className={inputClass} placeholder="名称" />
+            <input type="text" value={officeDraft.latitude} onChange={(e) => setOfficeDraft(prev => ({ ...prev, latitude: e.target.value }))} disabled={!canEditOffice} className={inputClass} placeholder="緯度" />
+            <input type="text" value={officeDraft.longitude} onChange={(e) => setOfficeDraft(prev => ({ ...prev, longitude: e.target.value }))} disabled={!canEditOffice} className={inputClass} placeholder="経度" />
+          </div>
+          {canEditOffice && (
+            <div className="flex items-center space-x-2 mt-2">
+              <button type="button" onClick={handleUseCurrentForOffice} className="text-xs px-3 py-1 bg-white/50 hover:bg-white/70 rounded-lg text-slate-700">
+                現在地を設定
+              </button>
+              {!isDemoMode && (
+                <button type="button" onClick={handleSaveOffice} disabled={officeSaved} className="text-xs px-3 py-1 bg-navy-600 hover:bg-navy-700 text-white rounded-lg disabled:opacity-50">
+                  {officeSaved ? '保存済み' : '組織設定に保存'}
+                </button>
+              )}
+            </div>
+          )}
+          {!isDemoMode && (
+            <p className="text-xs text-amber-700 mt-1">
+              {canEditOffice
+                ? '距離は記録時点で組織設定に保存された勤務地から計算されます'
+                : organizationId
+                  ? '勤務地は組織の管理者が設定します'
+                  : '組織に属さない出張申請は勤務地からの距離を記録しません'}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {application && (
+        <>
+          {/* 判定結果 */}
+          <div className={`p-4 rounded-lg flex items-start ${summary.meetsThreshold ? 'bg-emerald-50 text-emerald-800' : 'bg-amber-50 text-amber-800'}`}>
+            {summary.meetsThreshold ? <CheckCircle className="w-5 h-5 mr-2 flex-shrink-0" /> : <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0" />}
+            <div className="text-sm">
+              <div className="font-medium">
+                {summary.maxDistanceKm === null
+                  ? '勤務地からの距離を確認できる地点がありません'
+                  : `勤務地からの最大距離 ${summary.maxDistanceKm.toFixed(1)}km（距離基準 ${distanceThreshold}km ${summary.meetsThreshold ? '以上' : '未満'}）`}
+              </div>
+              <div className="text-xs mt-1">記録地点 {summary.checkpointCount}件{summary.farthest?.place_name ? ` / 最遠地点 ${summary.farthest.place_name}` : ''}</div>
+            </div>
+          </div>
+
+          {/* 地点の追加 */}
+          {!recordable && (
+            <p className="text-sm text-slate-600">承認済み・終了した申請には地点を追加できません</p>
+          )}
+          {recordable && (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+              <div className="p-4 bg-white/30 rounded-lg">
+                <h4 className="text-sm font-medium text-slate-700 mb-2">手入力</h4>
+                <div className="space-y-2">
+                  <input
+                    type="datetime-local"
+                    value={manual.recordedAt}
+                    min={period.start ? `${period.start}T00:00` : undefined}
+                    max={period.end ? `${period.end}T23:59` : undefined}
+                    onChange={(e) => setManual(prev => ({ ...prev, recordedAt: e.target.value }))}
+                    className={inputClass}
+                  />
+                  <input type="text" value={manual.placeName} onChange={(e) => setManual(prev => ({ ...prev, placeName: e.target.value }))} className={inputClass} placeholder="地点名（例：大阪支店）" />
+                  <div className="grid grid-cols-2 gap-2">
+                    <input type="text" value={manual.latitude} onChange={(e) => setManual(prev => ({ ...prev, latitude: e.target.value }))} className={inputClass} placeholder="緯度" />
+                    <input type="text" value={manual.longitude} onChange={(e) => setManual(prev => ({ ...prev, longitude: e.target.value }))} className={inputClass} placeholder="経度" />
+                  </div>
+                  <button type="button" onClick={handleAddManual} disabled={busy} className="w-full flex items-center justify-center space-x-1 px-3 py-2 bg-white/50 hover:bg-white/70 rounded-lg text-sm text-slate-700 disabled:opacity-50">
+                    <Plus className="w-4 h-4" />
+                    <span>地点を追加</span>
+                  </button>
+                </div>
+              </div>
+
+              <div className="p-4 bg-white/30 rounded-lg">
+                <h4 className="text-sm font-medium text-slate-700 mb-2">GPXファイルの取り込み</h4>
+                <input
+                  type="file"
+                  accept=".gpx,application/gpx+xml,application/xml"
+                  id="trip-log-gpx"
+                  className="hidden"
+                  onChange={(e) => {
+                    if (e.target.files && e.target.files[0]) handleGpxFile(e.target.files[0]);
+                    e.target.value = '';
+                  }}
+                />
+                <label htmlFor="trip-log-gpx" className="w-full flex items-center justify-center space-x-1 px-3 py-2 bg-white/50 hover:bg-white/70 rounded-lg text-sm text-slate-700 cursor-pointer">
+                  <Upload className="w-4 h-4" />
+                  <span>GPXファイルを選択</span>
+                </label>
+                {gpxPreview && (
+                  <div className="mt-2 text-xs text-slate-700">
+                    <p>{gpxPreview.length}地点を取り込みます（5km間隔に間引き、勤務地から最も遠い地点を含む）</p>
+                    <div className="flex space-x-2 mt-2">
+                      <button type="button" onClick={handleImportGpx} disabled={busy} className="px-3 py-1 bg-navy-600 hover:bg-navy-700 text-white rounded-lg disabled:opacity-50">取り込む</button>
+                      <button type="button" onClick={() => setGpxPreview(null)} className="px-3 py-1 bg-white/50 hover:bg-white/70 rounded-lg">取消</button>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="p-4 bg-white/30 rounded-lg">
+                <h4 className="text-sm font-medium text-slate-700 mb-2">現在地を記録</h4>
+                <p className="text-xs text-slate-600 mb-2">ブラウザの位置情報で出張先の現在地を記録します</p>
+                <button type="button" onClick={handleRecordCurrent} disabled={busy} className="w-full flex items-center justify-center space-x-1 px-3 py-2 bg-white/50 hover:bg-white/70 rounded-lg text-sm text-slate-700 disabled:opacity-50">
+                  <Crosshair className="w-4 h-4" />
+                  <span>現在地を記録</span>
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* 記録した地点 */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-white/30 border-b border-white/30">
+                <tr>
+                  <th className="text-left py-2 px-3 font-medium text-slate-700">日時</th>
+                  <th className="text-left py-2 px-3 font-medium text-slate-700">地点</th>
+                  <th className="text-left py-2 px-3 font-medium text-slate-700">記録方法</th>
+                  <th className="text-right py-2 px-3 font-medium text-slate-700">勤務地からの距離</th>
+                  <th className="text-left py-2 px-3 font-medium text-slate-700">領収書</th>
+                  <th className="text-center py-2 px-3 font-medium text-slate-700">操作</th>
+                </tr>
+              </thead>
+              <tbody>
+                {checkpoints.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="text-center py-6 text-slate-500">地点が記録されていません</td>
+                  </tr>
+                ) : (
+                  checkpoints.map(checkpoint => (
+                    <tr key={checkpoint.id} className={`border-b border-white/20 ${checkpoint.excluded_at ? 'opacity-50' : ''}`}>
+                      <td className="py-2 px-3 text-slate-800">{new Date(checkpoint.recorded_at).toLocaleString('ja-JP')}</td>
+                      <td className="py-2 px-3 text-slate-800">
+                        <div className="flex items-center">
+                          <MapPin className="w-3 h-3 mr-1 text-slate-500" />
+                          {checkpoint.place_name || `${checkpoint.latitude.toFixed(4)}, ${checkpoint.longitude.toFixed(4)}`}
+                        </div>
+                        {checkpoint.excluded_at && <div className="text-xs text-slate-500">除外: {checkpoint.exclusion_reason}</div>}
+                      </td>
+                      <td className="py-2 px-3 text-slate-700">
+                        {CHECKPOINT_SOURCE_LABELS[checkpoint.source]}
+                        {checkpoint.accuracy_m != null && <span className="text-xs text-slate-500">（±{checkpoint.accuracy_m}m）</span>}
+                      </td>
+                      <td className="py-2 px-3 text-right text-slate-800">
+                        {checkpoint.distance_from_office_km === null ? '-' : `${Number(checkpoint.distance_from_office_km).toFixed(1)}km`}
+                      </td>
+                      <td className="py-2 px-3 text-slate-700">
+                        {checkpoint.receipt_sha256 ? (
+                          <span className="inline-flex items-center text-xs text-emerald-700" title={checkpoint.receipt_sha256}>
+                            <ShieldCheck className="w-3 h-3 mr-1" />
+                            {checkpoint.receipt_counterparty} {checkpoint.receipt_sha256.slice(0, 8)}…
+                          </span>
+                        ) : !isDemoMode && !checkpoint.excluded_at && receipts.length > 0 ? (
+                          <div className="flex items-center">
+                            <Link2 className="w-3 h-3 mr-1 text-slate-500" />
+                            <select defaultValue="" onChange={(e) => handleLinkReceipt(checkpoint, e.target.value)} className="text-xs bg-white/50 border border-white/40 rounded px-1 py-0.5">
+                              <option value="">領収書を紐付け</option>
+                              {receipts.map(receipt => (
+                                <option key={receipt.id} value={receipt.id}>
+                                  {receipt.transaction_date} {receipt.counterparty} ¥{Number(receipt.amount).toLocaleString()}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                        ) : (
+                          <span className="text-xs text-slate-500">-</span>
+                        )}
+                      </td>
+                      <td className="py-2 px-3 text-center">
+                        {!checkpoint.excluded_at && (
+                          <button type="button" onClick={() => handleExclude(checkpoint)} className="p-1 text-slate-500 hover:text-red-600" title="除外">
+                            <Ban className="w-4 h-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default TripLogLedger;
@@ -0,0 +1,149 @@
+import { useState, useEffect, useCallback } from 'react'
+import {
+  enqueueAccountingSyncJobs,
+  getAccountingSyncJobs,
+  retryAccountingSyncJob,
+  type Application
+} from '../lib/supabase'
+import type { AccountingSyncJob } from '../lib/accountingSync'
+import { useAuth } from './useAuth'
+
+// 登録したジョブの送信はサーバー側の定期実行（Edge Function accounting-sync）が行う
+const demoJobs = (): AccountingSyncJob[] => {
+  const now = Date.now()
+  const base = {
+    organization_id: 'demo-org',
+    max_attempts: 5,
+    locked_until: null,
+    external_id: null,
+    created_by: null,
+    updated_at: new Date(now).toISOString()
+  }
+  return [
+    {
+      ...base,
+      id: 'demo-job-1',
+      application_id: 'BT-2024-001',
+      provider: 'freee',
+      status: 'succeeded',
+      idempotency_key: 'freee:BT-2024-001:0',
+      application_title: '東京出張申請',
+      application_type: 'business_trip',
+      amount: 52500,
+      attempt_count: 1,
+      next_retry_at: null,
+      last_attempt_at: new Date(now - 2 * 60 * 60 * 1000).toISOString(),
+      error_code: null,
+      error_message: null,
+      external_id: '100234',
+      created_at: new Date(now - 2 * 60 * 60 * 1000).toISOString()
+    },
+    {
+      ...base,
+      id: 'demo-job-2',
+      application_id: 'EX-2024-001',
+      provider: 'moneyforward',
+      status: 'error',
+      idempotency_key: 'moneyforward:EX-2024-001:0',
+      application_title: '交通費精算',
+      application_type: 'expense',
+      amount: 12800,
+      attempt_count: 1,
+      next_retry_at: null,
+      last_attempt_at: new Date(now - 90 * 60 * 1000).toISOString(),
+      error_code: 'AUTH_TOKEN_EXPIRED',
+      error_message: 'HTTP 401: The access token expired',
+      created_at: new Date(now - 3 * 60 * 60 * 1000).toISOString()
+    },
+    {
+      ...base,
+      id: 'demo-job-3',
+      application_id: 'BT-2024-002',
+      provider: 'freee',
+      status: 'retrying',
+      idempotency_key: 'freee:BT-2024-002:0',
+      application_title: '大阪出張申請',
+      application_type: 'business_trip',
+      amount: 35000,
+      attempt_count: 2,
+      next_retry_at: new Date(now + 4 * 60 * 1000).toISOString(),
+      last_attempt_at: new Date(now - 60 * 1000).toISOString(),
+      error_code: 'TIMEOUT',
+      error_message: '会計ソフトからの応答がタイムアウトしました',
+      created_at: new Date(now - 10 * 60 * 1000).toISOString()
+    }
+  ]
+}
+
+export function useAccountingSync() {
+  const [jobs, setJobs] = useState<AccountingSyncJob[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { user, profile } = useAuth()
+  const organizationId = profile?.default_organization_id || null
+  const isDemoMode = localStorage.getItem('demoMode') === 'true'
+
+  const fetchJobs = useCallback(async () => {
+    if (isDemoMode) {
+      setJobs(prev => prev.length > 0 ? prev : demoJobs())
+      return
+    }
+    if (!organizationId) {
+      setJobs([])
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      setJobs(await getAccountingSyncJobs(organizationId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch accounting sync jobs')
+    } finally {
+      setLoading(false)
+    }
+  }, [isDemoMode, organizationId])
+
+  const enqueue = async (
+    provider: AccountingSyncJob['provider'],
+    applications: Pick<Application, 'id' | 'title' | 'type' | 'total_amount' | 'approved_at'>[]
+  ) => {
+    if (!user || !organizationId) {
+      return { success: false, error: '組織が設定されていないため送信できません' }
+    }
+
+    const result = await enqueueAccountingSyncJobs(organizationId, user.id, provider, applications)
+    if (result.success) {
+      await fetchJobs()
+    }
+    return result
+  }
+
+  const retry = async (job: AccountingSyncJob) => {
+    if (isDemoMode) {
+      setJobs(prev => prev.map(item => item.id === job.id
+        ? { ...item, status: 'pending', next_retry_at: new Date().toISOString(), error_code: null, error_message: null }
+        : item))
+      return { success: true }
+    }
+
+    const result = await retryAccountingSyncJob(job)
+    if (result.success) {
+      await fetchJobs()
+    }
+    return result
+  }
+
+  useEffect(() => {
+    fetchJobs()
+  }, [fetchJobs])
+
+  return {
+    jobs,
+    loading,
+    error,
+    enqueue,
+    retry,
+    refetch: fetchJobs
+  }
+}
@@ -1,46 +1,32 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { getAnalytics } from '../lib/supabase'
+import type { AnalyticsData, AnalyticsGroupBy, AnalyticsMetric, AnalyticsScope } from '../lib/analytics'
 import { useAuth } from './useAuth'
 
-export interface AnalyticsData {
-  summary: {
-    monthlyTotal: number
-    monthlyCount: number
-    pendingCount: number
-    approvedCount: number
-    averageAmount: number
-  }
-  trends: {
-    monthly: { [key: string]: { total: number, count: number, businessTrip: number, expense: number } }
-  }
-  breakdowns: {
-    byDepartment: { [key: string]: number }
-  }
-  generatedAt: string
-}
+export type { AnalyticsData }
 
-export function useAnalytics() {
+export function useAnalytics(options: { scope?: AnalyticsScope, dateRange?: { start: string, end: string } } = {}) {
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const { profile } = useAuth()
+  const scope = options.scope || 'organization'
+  const organizationId = profile?.default_organization_id || null
+  const startDate = options.dateRange?.start
+  const endDate = options.dateRange?.end
+  const isDemoMode = localStorage.getItem('demoMode') === 'true'
 
-  useEffect(() => {
-    if (profile?.default_organization_id) {
-      fetchBasicAnalytics()
-    }
-  }, [profile])
-
-  const fetchBasicAnalytics = async () => {
+  const fetchBasicAnalytics = useCallback(async () => {
     try {
       setLoading(true)
       setError(null)
 
-      if (!profile?.default_organization_id) {
+      if (!organizationId) {
         throw new Error('No organization ID available')
       }
 
-      const data = await getAnalytics(profile.default_organization_id)
+      const dateRange = startDate && endDate ? { start: startDate, end: endDate } : undefined
+      const data = await getAnalytics(organizationId, dateRange, undefined, undefined, scope)
       setAnalytics(data)
     } catch (err) {
       console.error('Analytics fetch error:', err)
@@ -48,12 +34,20 @@ export function useAnalytics() {
     } finally {
       setLoading(false)
     }
-  }
+  }, [organizationId, scope, startDate, endDate])
+
+  useEffect(() => {
+    if (organizationId && !isDemoMode) {
+      fetchBasicAnalytics()
+    } else {
+      setLoading(false)
+    }
+  }, [organizationId, isDemoMode, fetchBasicAnalytics])
 
   const fetchDetailedAnalytics = async (
     dateRange: { start: string, end: string },
-    metrics: string[],
-    groupBy?: string
+    metrics: AnalyticsMetric[],
+    groupBy?: AnalyticsGroupBy
   ) => {
     try {
       setLoading(true)
@@ -67,7 +61,8 @@ export function useAnalytics() {
         profile.default_organization_id,
         dateRange,
         metrics,
-        groupBy
+        groupBy,
+        scope
       )
 
       return { success: true, data }
@@ -98,7 +93,8 @@ export function useAnalytics() {
         profile.default_organization_id,
         dateRange,
         ['total_amount', 'application_count', 'approval_rate', 'processing_time'],
-        'department'
+        'department',
+        scope
       )
 
       // CSVまたはExcel形式でエクスポート
@@ -139,14 +135,15 @@ export function useAnalytics() {
   }
 }
 
-function formatForExport(data: any, format: 'csv' | 'excel'): string {
+function formatForExport(data: AnalyticsData, format: 'csv' | 'excel'): string {
   if (format === 'csv') {
-    const headers = ['部署', '申請数', '合計金額', '承認率']
-    const rows = Object.entries(data.groupedData || {}).map(([dept, stats]: [string, any]) => [
+    const headers = ['部署', '申請数', '合計金額', '承認率', '平均処理時間（時間）']
+    const rows = Object.entries(data.groupedData || {}).map(([dept, stats]) => [
       dept,
       stats.count,
       stats.totalAmount,
-      `${((stats.approvedCount / stats.count) * 100).toFixed(1)}%`
+      stats.approvalRate === null ? '-' : `${(stats.approvalRate * 100).toFixed(1)}%`,
+      stats.averageProcessingHours ?? '-'
     ])
 
     return [headers, ...rows]
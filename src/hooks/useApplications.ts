@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react'
-import { supabase, getApplications, createApplication as createApp } from '../lib/supabase'
+import { supabase, getApplications, createApplication as createApp, advanceApproval, transitionApplication as transitionApp } from '../lib/supabase'
 import { useAuth } from './useAuth'
+import type { ApprovalStepDefinition } from '../lib/approvalRoutes'
+import { toTransitionErrorMessage, type ApplicantAction, type ApplicationStatus } from '../lib/applicationLifecycle'
 
 export interface Application {
   id: string
@@ -11,11 +13,16 @@ export interface Application {
   description: string | null
   data: any
   total_amount: number
-  status: 'draft' | 'pending' | 'approved' | 'rejected' | 'returned'
+  status: ApplicationStatus
   submitted_at: string | null
   approved_at: string | null
   approved_by: string | null
   rejection_reason: string | null
+  withdrawn_at?: string | null
+  cancelled_at?: string | null
+  cancellation_reason?: string | null
+  approval_steps?: ApprovalStepDefinition[] | null
+  current_step?: number | null
   created_at: string
   updated_at: string
 }
@@ -24,7 +31,7 @@ export function useApplications() {
   const [applications, setApplications] = useState<Application[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const { user } = useAuth()
+  const { user, profile } = useAuth()
 
   useEffect(() => {
     if (user) {
@@ -86,10 +93,11 @@ export function useApplications() {
         throw new Error('User not authenticated')
       }
 
-      const result = await createApp(type, title, data, user.id)
+      // 申請先の組織はサーバー側で所属を確認する
+      const result = await createApp(type, title, data, user.id, profile?.default_organization_id || null)
       
       if (!result.success) {
-        throw new Error(result.error)
+        throw new Error(toTransitionErrorMessage(result.error))
       }
 
       await fetchApplications()
@@ -131,31 +139,15 @@ export function useApplications() {
     comment?: string
   ) => {
     try {
-      const updates: any = {
-        status: action,
-        updated_at: new Date().toISOString()
-      }
-
-      if (action === 'approved') {
-        updates.approved_at = new Date().toISOString()
-        updates.approved_by = user?.id
-      } else if (action === 'rejected' || action === 'returned') {
-        updates.rejection_reason = comment
-      }
+      // 承認ルートに沿ったステップの進行はサーバー側（advance_approval）で行う
+      const result = await advanceApproval(applicationId, action, comment)
 
-      const { data, error } = await supabase
-        .from('applications')
-        .update(updates)
-        .eq('id', applicationId)
-        .select()
-        .single()
-
-      if (error) {
-        throw error
+      if (!result.success) {
+        throw new Error(result.error)
       }
 
       await fetchApplications()
-      return { success: true, result: data }
+      return { success: true, result: result.result }
     } catch (err) {
       console.error('Approval error:', err)
       return { 
@@ -165,6 +157,21 @@ export function useApplications() {
     }
   }
 
+  // 提出・再編集・取り下げ・承認後の取消（許可される遷移はサーバー側で確認する）
+  const transitionApplication = async (
+    applicationId: string,
+    action: ApplicantAction,
+    comment?: string
+  ) => {
+    const result = await transitionApp(applicationId, action, comment)
+    if (!result.success) {
+      return { success: false, error: toTransitionErrorMessage(result.error) }
+    }
+
+    await fetchApplications()
+    return { success: true, status: result.result?.status }
+  }
+
   return {
     applications,
     loading,
@@ -172,6 +179,7 @@ export function useApplications() {
     createApplication,
     deleteApplication,
     handleApproval,
+    transitionApplication,
     refreshApplications: fetchApplications
   }
 }
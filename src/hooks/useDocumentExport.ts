@@ -0,0 +1,74 @@
+import { useState } from 'react'
+import { saveGeneratedDocument, type Document } from '../lib/supabase'
+import { downloadFile, generateDocumentFile, type DocumentFormat, type DocumentSpec, type GeneratedFile } from '../lib/documentGenerator'
+import { useAuth } from './useAuth'
+
+export function useDocumentExport() {
+  const [exporting, setExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { user, profile } = useAuth()
+
+  // ファイルを作成してダウンロードし、ログイン中は documents にも保存する
+  const exportFile = async (
+    createFile: () => GeneratedFile,
+    title: string,
+    options: {
+      type: Document['type']
+      content?: Record<string, unknown>
+      applicationId?: string | null
+    }
+  ): Promise<{ success: boolean, document?: Document, saved?: boolean, error?: string }> => {
+    try {
+      setExporting(true)
+      setError(null)
+
+      const file = createFile()
+      downloadFile(file)
+
+      if (!user || localStorage.getItem('demoMode') === 'true') {
+        return { success: true, saved: false }
+      }
+
+      const result = await saveGeneratedDocument(file, user.id, {
+        type: options.type,
+        title,
+        content: options.content,
+        organizationId: profile?.default_organization_id,
+        applicationId: options.applicationId
+      })
+
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      return { success: true, document: result.document, saved: true }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to export document'
+      setError(errorMessage)
+      return { success: false, error: errorMessage }
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  // 書類ファイルを生成して保存する（Word / PDF）
+  const exportDocument = async (
+    spec: DocumentSpec,
+    format: DocumentFormat,
+    options: {
+      type: Document['type']
+      content?: Record<string, unknown>
+      applicationId?: string | null
+    }
+  ) => exportFile(() => generateDocumentFile(spec, format), spec.title, {
+    ...options,
+    content: { ...(options.content || {}), format }
+  })
+
+  return {
+    exporting,
+    error,
+    exportDocument,
+    exportFile
+  }
+}
@@ -7,7 +7,7 @@ export interface Document {
   user_id: string
   organization_id: string | null
   application_id: string | null
-  type: 'business_report' | 'allowance_detail' | 'expense_settlement' | 'travel_detail' | 'gps_log' | 'monthly_report' | 'annual_report'
+  type: 'business_report' | 'allowance_detail' | 'expense_settlement' | 'travel_detail' | 'gps_log' | 'monthly_report' | 'annual_report' | 'travel_regulation'
   title: string
   content: any
   file_url: string | null
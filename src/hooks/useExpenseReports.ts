@@ -0,0 +1,160 @@
+import { useState, useEffect, useCallback } from 'react'
+import {
+  getExpenseReport,
+  getReportJobs,
+  getReportSchedule,
+  saveReportSchedule,
+  updateReportJob
+} from '../lib/supabase'
+import {
+  DEFAULT_FISCAL_YEAR_START_MONTH,
+  toExpenseReport,
+  toReportErrorMessage,
+  type ExpenseReport,
+  type ExpenseReportResponse,
+  type ReportJob,
+  type ReportPeriod,
+  type ReportSchedule
+} from '../lib/expenseReports'
+import type { RegulationSource } from '../lib/allowanceCalculator'
+import { useAuth } from './useAuth'
+
+const demoResponse = (period: ReportPeriod, department: string | null): ExpenseReportResponse => {
+  const scale = period.type === 'annual' ? 12 : 1
+  const people = [
+    { user_id: 'demo-user-1', user_name: '田中太郎', department: '営業部', position: '課長', application_count: 3 * scale, business_trip_amount: 82000 * scale, expense_amount: 12800 * scale, total_amount: 94800 * scale },
+    { user_id: 'demo-user-2', user_name: '佐藤花子', department: '営業部', position: '一般職', application_count: 2 * scale, business_trip_amount: 60000 * scale, expense_amount: 8600 * scale, total_amount: 68600 * scale },
+    { user_id: 'demo-user-3', user_name: '鈴木一郎', department: '開発部', position: '一般職', application_count: 2 * scale, business_trip_amount: 0, expense_amount: 20000 * scale, total_amount: 20000 * scale }
+  ].filter(person => !department || person.department === department)
+  const day = (value: number) => `${period.start.slice(0, 8)}${String(value).padStart(2, '0')}`
+
+  return {
+    period_start: period.start,
+    period_end: period.end,
+    department,
+    summary: {
+      application_count: 7 * scale,
+      business_trip_count: 3 * scale,
+      expense_count: 4 * scale,
+      person_count: 3,
+      total_amount: 183400 * scale,
+      business_trip_amount: 142000 * scale,
+      expense_amount: 41400 * scale
+    },
+    by_person: people,
+    by_category: [
+      { category: '交通費', line_count: 9 * scale, amount: 64200 * scale },
+      { category: '宿泊費', line_count: 4 * scale, amount: 52000 * scale },
+      { category: '日当', line_count: 3 * scale, amount: 38000 * scale },
+      { category: '会議費', line_count: 3 * scale, amount: 29200 * scale }
+    ],
+    by_destination: [
+      { destination: '大阪府大阪市', trip_count: 2 * scale, days: 5 * scale, amount: 98000 * scale },
+      { destination: '愛知県名古屋市', trip_count: 1 * scale, days: 2 * scale, amount: 44000 * scale }
+    ],
+    trips: [
+      { application_id: 'BT-2024-001', user_id: 'demo-user-1', user_name: '田中太郎', position: '課長', destination: '大阪府大阪市', start_date: day(1), end_date: day(3), daily_allowance: 18000, transportation: 28000, accommodation: 36000 },
+      { application_id: 'BT-2024-002', user_id: 'demo-user-2', user_name: '佐藤花子', position: '一般職', destination: '大阪府大阪市', start_date: day(10), end_date: day(11), daily_allowance: 10000, transportation: 4000, accommodation: 10000 },
+      { application_id: 'BT-2024-003', user_id: 'demo-user-2', user_name: '佐藤花子', position: '一般職', destination: '愛知県名古屋市', start_date: day(20), end_date: day(21), daily_allowance: 10000, transportation: 12000, accommodation: 14000 }
+    ].filter(trip => people.some(person => person.user_id === trip.user_id)),
+    generated_at: new Date().toISOString()
+  }
+}
+
+const demoSchedule = (): ReportSchedule => ({
+  organization_id: 'demo-org',
+  monthly_enabled: true,
+  annual_enabled: false,
+  fiscal_year_start_month: DEFAULT_FISCAL_YEAR_START_MONTH,
+  updated_by: null,
+  updated_at: null
+})
+
+// 作成待ちのレポートのファイル作成はサーバー側の定期実行（Edge Function generate-reports）が行う
+export function useExpenseReports(options: { regulation?: RegulationSource | null } = {}) {
+  const { regulation } = options
+  const [schedule, setSchedule] = useState<ReportSchedule | null>(null)
+  const [jobs, setJobs] = useState<ReportJob[]>([])
+  const { user, profile } = useAuth()
+  const organizationId = profile?.default_organization_id || null
+  const isDemoMode = localStorage.getItem('demoMode') === 'true'
+
+  const fetchJobs = useCallback(async () => {
+    if (isDemoMode) {
+      setSchedule(prev => prev || demoSchedule())
+      return
+    }
+    if (!organizationId) {
+      setSchedule(null)
+      setJobs([])
+      return
+    }
+
+    const [nextSchedule, nextJobs] = await Promise.all([
+      getReportSchedule(organizationId),
+      getReportJobs(organizationId)
+    ])
+    setSchedule(nextSchedule)
+    setJobs(nextJobs)
+  }, [isDemoMode, organizationId])
+
+  // 期間内に承認された申請を集計し、規程の支給額と比較する
+  const loadReport = useCallback(async (period: ReportPeriod, department?: string | null): Promise<ExpenseReport> => {
+    if (isDemoMode) {
+      return toExpenseReport(demoResponse(period, department || null), period.type, regulation)
+    }
+    if (!organizationId) {
+      throw new Error('組織が設定されていないためレポートを作成できません')
+    }
+
+    try {
+      const response = await getExpenseReport(organizationId, period, department)
+      return toExpenseReport(response, period.type, regulation)
+    } catch (err) {
+      throw new Error(toReportErrorMessage(err instanceof Error ? err.message : undefined))
+    }
+  }, [isDemoMode, organizationId, regulation])
+
+  const saveSchedule = async (
+    changes: Pick<ReportSchedule, 'monthly_enabled' | 'annual_enabled' | 'fiscal_year_start_month'>
+  ): Promise<{ success: boolean, error?: string }> => {
+    if (isDemoMode) {
+      setSchedule(prev => ({ ...(prev || demoSchedule()), ...changes }))
+      return { success: true }
+    }
+    if (!user || !organizationId) {
+      return { success: false, error: '組織が設定されていないため保存できません' }
+    }
+
+    const result = await saveReportSchedule(organizationId, user.id, changes)
+    if (!result.success || !result.schedule) {
+      return { success: false, error: toReportErrorMessage(result.error) }
+    }
+    setSchedule(result.schedule)
+    return { success: true }
+  }
+
+  const retry = async (job: ReportJob) => {
+    try {
+      // 作成待ちに戻すと、定期実行（Edge Function generate-reports）で作成し直される
+      await updateReportJob(job.id, { status: 'pending', error_message: null })
+      await fetchJobs()
+      return { success: true }
+    } catch (err) {
+      return { success: false, error: toReportErrorMessage(err instanceof Error ? err.message : undefined) }
+    }
+  }
+
+  useEffect(() => {
+    fetchJobs()
+  }, [fetchJobs])
+
+  return {
+    schedule,
+    jobs,
+    loadReport,
+    saveSchedule,
+    retry,
+    refetch: fetchJobs
+  }
+}
@@ -1,5 +1,8 @@
 import { useState } from 'react'
-import { uploadFile } from '../lib/supabase'
+import { uploadFile, registerStoredDocument } from '../lib/supabase'
+import { extractReceipt, type OcrEngine, type ReceiptMetadata } from '../lib/receiptOcr'
+import { getStoredFilePath, sha256Hex, toStoredDocumentErrorMessage, type StoredDocument, type StoredDocumentKeys, type StoredDocumentKind } from '../lib/electronicBookkeeping'
+import { getTimestampAuthority } from '../lib/timestampAuthority'
 import { useAuth } from './useAuth'
 
 export function useFileUpload() {
@@ -7,7 +10,21 @@ export function useFileUpload() {
   const [error, setError] = useState<string | null>(null)
   const { user } = useAuth()
 
-  const uploadReceipt = async (file: File) => {
+  // 領収書をアップロードし、OCRで読み取った内容を返す
+  // 保存先はファイルの SHA-256 を含むパスで、同じ内容のファイルは上書きせずに既存のファイルを使う
+  // 読み取り結果は申請の作成時（createApplication）に expense_items.receipt_metadata へ保存する
+  const uploadReceipt = async (
+    file: File,
+    options: { engine?: OcrEngine } = {}
+  ): Promise<{
+    success: boolean
+    path?: string
+    url?: string
+    sha256?: string
+    receiptMetadata?: ReceiptMetadata | null
+    ocrError?: string
+    error?: string
+  }> => {
     if (!user) {
       return { success: false, error: 'User not authenticated' }
     }
@@ -16,13 +33,27 @@ export function useFileUpload() {
       setUploading(true)
       setError(null)
 
-      const result = await uploadFile('receipts', file, user.id)
-      
-      if (!result.success) {
-        throw new Error(result.error)
+      const sha256 = await sha256Hex(file)
+      const path = getStoredFilePath(user.id, sha256, file.name)
+      const upload = await uploadFile('receipts', file, user.id, path)
+
+      if (!upload.success && !upload.error?.includes('already exists')) {
+        throw new Error(upload.error)
       }
+      const result = { success: true, path, url: upload.url, sha256 }
 
-      return result
+      // OCRに失敗してもアップロード自体は成功として扱う
+      try {
+        const receiptMetadata = await extractReceipt(file, file.name, options.engine)
+        return { ...result, receiptMetadata }
+      } catch (ocrErr) {
+        console.error('Receipt OCR failed:', ocrErr)
+        return {
+          ...result,
+          receiptMetadata: null,
+          ocrError: ocrErr instanceof Error ? ocrErr.message : 'Failed to read receipt'
+        }
+      }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to upload receipt'
       setError(errorMessage)
@@ -32,6 +63,45 @@ export function useFileUpload() {
     }
   }
 
+  // アップロード済みの領収書にタイムスタンプを付与し、検索項目とともに保存書類として登録する
+  const archiveReceipt = async (
+    file: File,
+    upload: { path: string, sha256: string },
+    keys: StoredDocumentKeys,
+    documentKind: StoredDocumentKind = 'receipt'
+  ): Promise<{ success: boolean, document?: StoredDocument, error?: string }> => {
+    if (!user) {
+      return { success: false, error: 'User not authenticated' }
+    }
+
+    try {
+      const authority = getTimestampAuthority()
+      const timestampToken = await authority.issue(upload.sha256)
+
+      const result = await registerStoredDocument({
+        documentKind,
+        filePath: upload.path,
+        fileName: file.name,
+        mimeType: file.type,
+        fileSize: file.size,
+        sha256: upload.sha256,
+        keys,
+        timestampToken,
+        timestampAuthority: authority.name
+      })
+
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      return result
+    } catch (err) {
+      const errorMessage = toStoredDocumentErrorMessage(err instanceof Error ? err.message : undefined)
+      setError(errorMessage)
+      return { success: false, error: errorMessage }
+    }
+  }
+
   const uploadDocument = async (file: File) => {
     if (!user) {
       return { success: false, error: 'User not authenticated' }
@@ -86,6 +156,7 @@ export function useFileUpload() {
     uploading,
     error,
     uploadReceipt,
+    archiveReceipt,
     uploadDocument,
     uploadAttachment
   }
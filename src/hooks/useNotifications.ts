@@ -1,18 +1,9 @@
 import { useState, useEffect } from 'react'
-import { supabase, getNotifications, markNotificationAsRead } from '../lib/supabase'
+import { supabase, getNotifications, markAllNotificationsAsRead, markNotificationAsRead } from '../lib/supabase'
+import type { NotificationRecord } from '../lib/notificationHistory'
 import { useAuth } from './useAuth'
 
-export interface Notification {
-  id: string
-  user_id: string
-  type: string
-  title: string
-  message: string
-  data: any
-  read: boolean
-  read_at: string | null
-  created_at: string
-}
+export type Notification = NotificationRecord
 
 export function useNotifications() {
   const [notifications, setNotifications] = useState<Notification[]>([])
@@ -102,9 +93,11 @@ export function useNotifications() {
           
           // ブラウザ通知を表示
           if ('Notification' in window && Notification.permission === 'granted') {
+            // プッシュ通知（public/sw.js）と同じ tag にして重複表示を防ぐ
             new Notification(newNotification.title, {
               body: newNotification.message,
-              icon: '/icon-192x192.png'
+              icon: '/icon-192x192.png',
+              tag: newNotification.id
             })
           }
         }
@@ -163,14 +156,10 @@ export function useNotifications() {
         return { success: true }
       }
 
-      const { error: updateError } = await supabase
-        .from('notifications')
-        .update({ read: true, read_at: new Date().toISOString() })
-        .eq('user_id', user?.id)
-        .eq('read', false)
+      const result = await markAllNotificationsAsRead()
 
-      if (updateError) {
-        throw updateError
+      if (!result.success) {
+        throw new Error(result.error)
       }
 
       setNotifications(prev => 
@@ -0,0 +1,46 @@
+import { useState, useEffect, useCallback } from 'react'
+import { getMyOrganizations, switchOrganization } from '../lib/supabase'
+import { toOrganizationErrorMessage, type OrganizationMembership } from '../lib/organizations'
+import { useAuth } from './useAuth'
+
+// 所属組織の一覧と現在の組織（user_profiles.default_organization_id）
+export function useOrganizations() {
+  const { user, profile } = useAuth()
+  const [organizations, setOrganizations] = useState<OrganizationMembership[]>([])
+  const [loading, setLoading] = useState(false)
+  const isDemoMode = localStorage.getItem('demoMode') === 'true'
+  const currentOrganizationId = profile?.default_organization_id || null
+  const currentOrganization = organizations.find(organization => organization.id === currentOrganizationId) || null
+
+  const refresh = useCallback(async () => {
+    if (!user || isDemoMode) {
+      setOrganizations([])
+      return
+    }
+    setLoading(true)
+    setOrganizations(await getMyOrganizations())
+    setLoading(false)
+  }, [user, isDemoMode])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  // 組織ごとのデータを読み直すため、切り替え後は画面を再読み込みする
+  const switchTo = useCallback(async (organizationId: string) => {
+    if (organizationId === currentOrganizationId) return { success: true }
+    const result = await switchOrganization(organizationId)
+    if (!result.success) return { success: false, error: toOrganizationErrorMessage(result.error) }
+    window.location.reload()
+    return { success: true }
+  }, [currentOrganizationId])
+
+  return {
+    organizations,
+    currentOrganization,
+    currentOrganizationId,
+    loading,
+    refresh,
+    switchTo
+  }
+}
@@ -0,0 +1,47 @@
+import { useState, useEffect, useCallback } from 'react'
+import { getMyPermissions } from '../lib/supabase'
+import { ALL_PERMISSIONS, type Permission } from '../lib/permissions'
+import { useAuth } from './useAuth'
+
+// 現在の組織での権限（organization_members.role からデータベースで判定する）
+// 画面の表示を切り替えるためのもので、データの読み書きは RLS とデータベースの関数で同じ権限を確認する
+export function usePermissions() {
+  const { user, profile, loading: authLoading } = useAuth()
+  const [permissions, setPermissions] = useState<Permission[]>([])
+  const [loading, setLoading] = useState(true)
+  const isDemoMode = localStorage.getItem('demoMode') === 'true'
+  const organizationId = profile?.default_organization_id || null
+
+  useEffect(() => {
+    if (isDemoMode) {
+      setPermissions(ALL_PERMISSIONS)
+      setLoading(false)
+      return
+    }
+    if (authLoading) return
+    if (!user) {
+      setPermissions([])
+      setLoading(false)
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+    getMyPermissions(organizationId).then(result => {
+      if (cancelled) return
+      setPermissions(result)
+      setLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [user, organizationId, authLoading, isDemoMode])
+
+  const can = useCallback((permission: Permission) => permissions.includes(permission), [permissions])
+
+  return {
+    permissions,
+    loading,
+    can
+  }
+}
@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from 'react'
+import { deletePushSubscription, savePushSubscription } from '../lib/supabase'
+import {
+  getCurrentPushSubscription,
+  isPushSupported,
+  subscribeToPush,
+  toPushSubscriptionKeys,
+  unsubscribeFromPush
+} from '../lib/webPush'
+import { useAuth } from './useAuth'
+
+// この端末（ブラウザ）の Web Push 購読状態
+export function usePushNotifications() {
+  const { user } = useAuth()
+  const [supported] = useState(() => isPushSupported())
+  const [subscribed, setSubscribed] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!supported) return
+    getCurrentPushSubscription()
+      .then(subscription => setSubscribed(!!subscription))
+      .catch(() => setSubscribed(false))
+  }, [supported])
+
+  const subscribe = useCallback(async () => {
+    if (!user) return { success: false, error: 'ログインが必要です' }
+    try {
+      setLoading(true)
+      const subscription = await subscribeToPush()
+      const result = await savePushSubscription(user.id, toPushSubscriptionKeys(subscription))
+      if (!result.success) throw new Error(result.error)
+      setSubscribed(true)
+      return { success: true }
+    } catch (err) {
+      console.error('Push subscribe error:', err)
+      return { success: false, error: err instanceof Error ? err.message : 'Failed to subscribe to push notifications' }
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  const unsubscribe = useCallback(async () => {
+    try {
+      setLoading(true)
+      const endpoint = await unsubscribeFromPush()
+      if (endpoint) {
+        const result = await deletePushSubscription(endpoint)
+        if (!result.success) throw new Error(result.error)
+      }
+      setSubscribed(false)
+      return { success: true }
+    } catch (err) {
+      console.error('Push unsubscribe error:', err)
+      return { success: false, error: err instanceof Error ? err.message : 'Failed to unsubscribe from push notifications' }
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  return {
+    supported,
+    subscribed,
+    loading,
+    subscribe,
+    unsubscribe
+  }
+}
@@ -0,0 +1,269 @@
+import { useCallback, useState, useEffect } from 'react'
+import {
+  saveTravelRegulationVersion,
+  getTravelRegulationVersions,
+  restoreTravelRegulationVersion
+} from '../lib/supabase'
+import { useAuth } from './useAuth'
+import { OVERSEAS_ALLOWANCE_RATE, resolveAllowanceSettings, type RegulationSource } from '../lib/allowanceCalculator'
+import {
+  ARTICLE_TITLES,
+  diffRegulationVersions,
+  summarizeRegulationChanges,
+  type RegulationSnapshot,
+  type RegulationVersion
+} from '../lib/regulationVersions'
+
+const isDemoMode = () => localStorage.getItem('demoMode') === 'true'
+
+const loadLocalVersions = (): RegulationVersion[] =>
+  JSON.parse(localStorage.getItem('travelRegulationVersions') || '[]')
+
+const loadLocalRegulations = (): (RegulationSource & { id: string, [key: string]: unknown })[] =>
+  JSON.parse(localStorage.getItem('travelRegulations') || '[]')
+
+// ローカル保存形式の規程（規程管理画面の一覧表示用）に変換する
+const toLocalRegulation = (
+  existing: { [key: string]: unknown } | undefined,
+  regulationId: string,
+  version: RegulationVersion
+) => {
+  const settings = version.allowance_settings
+  const findDaily = (keyword: string, fallbackIndex: number) =>
+    (settings.positions.find(p => p.name.includes(keyword)) || settings.positions[fallbackIndex] || settings.positions[0])?.dailyAllowance || 0
+  const domesticAllowance = {
+    executive: findDaily('役員', 0),
+    manager: findDaily('管理職', 1),
+    general: findDaily('一般職', 2)
+  }
+
+  return {
+    ...existing,
+    ...version.articles,
+    ...settings,
+    id: regulationId,
+    companyInfo: version.company_info,
+    companyName: version.company_info.name,
+    name: version.name,
+    version: version.version,
+    status: existing?.status || 'draft',
+    createdAt: existing?.createdAt || version.created_at,
+    updatedAt: version.created_at,
+    currentVersionId: version.id,
+    domesticAllowance,
+    overseasAllowance: {
+      executive: domesticAllowance.executive * OVERSEAS_ALLOWANCE_RATE,
+      manager: domesticAllowance.manager * OVERSEAS_ALLOWANCE_RATE,
+      general: domesticAllowance.general * OVERSEAS_ALLOWANCE_RATE
+    }
+  }
+}
+
+// 版が未作成のローカル規程から初版を作る
+const toInitialVersion = (regulation: RegulationSource & { id: string, [key: string]: unknown }): RegulationVersion => {
+  const articles: { [key: string]: string } = {}
+  ARTICLE_TITLES.forEach(({ key }) => {
+    articles[key] = typeof regulation[key] === 'string' ? regulation[key] as string : ''
+  })
+  const companyInfo = (regulation.companyInfo || {}) as RegulationVersion['company_info']
+
+  return {
+    id: `${regulation.id}-v1`,
+    regulation_id: regulation.id,
+    organization_id: null,
+    version_number: 1,
+    version: 'v1.0',
+    name: regulation.name || `${companyInfo.name || ''} 出張旅費規程`.trim(),
+    company_info: companyInfo,
+    articles,
+    allowance_settings: resolveAllowanceSettings(regulation),
+    change_summary: '初版作成',
+    restored_from: null,
+    created_by: null,
+    created_at: String(regulation.createdAt || new Date().toISOString())
+  }
+}
+
+export function useRegulationVersions(regulationId: string | null) {
+  const [currentRegulationId, setCurrentRegulationId] = useState<string | null>(regulationId)
+  const [versions, setVersions] = useState<RegulationVersion[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { user, profile } = useAuth()
+
+  useEffect(() => {
+    setCurrentRegulationId(regulationId)
+  }, [regulationId])
+
+  const fetchVersions = useCallback(async () => {
+    if (!currentRegulationId) {
+      setVersions([])
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      if (isDemoMode()) {
+        let localVersions = loadLocalVersions()
+        if (!localVersions.some(version => version.regulation_id === currentRegulationId)) {
+          const regulation = loadLocalRegulations().find(reg => reg.id === currentRegulationId)
+          if (regulation) {
+            localVersions = [...localVersions, toInitialVersion(regulation)]
+            localStorage.setItem('travelRegulationVersions', JSON.stringify(localVersions))
+          }
+        }
+        setVersions(
+          localVersions
+            .filter(version => version.regulation_id === currentRegulationId)
+            .sort((a, b) => b.version_number - a.version_number)
+        )
+        return
+      }
+
+      if (!user) {
+        setVersions([])
+        return
+      }
+
+      setVersions(await getTravelRegulationVersions(currentRegulationId))
+    } catch (err) {
+      console.error('Travel regulation versions fetch error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to fetch travel regulation versions')
+      setVersions([])
+    } finally {
+      setLoading(false)
+    }
+  }, [currentRegulationId, user])
+
+  useEffect(() => {
+    fetchVersions()
+  }, [fetchVersions])
+
+  // デモモードでは版と一覧表示用の規程をローカルストレージに保存する
+  const saveLocalVersion = (
+    snapshot: RegulationSnapshot,
+    changeSummary: string,
+    restoredFrom: string | null
+  ): RegulationVersion => {
+    const regulationIdToSave = currentRegulationId || Date.now().toString()
+    const localVersions = loadLocalVersions()
+    const latestNumber = Math.max(0, ...localVersions
+      .filter(version => version.regulation_id === regulationIdToSave)
+      .map(version => version.version_number))
+
+    const version: RegulationVersion = {
+      id: `${regulationIdToSave}-v${latestNumber + 1}`,
+      regulation_id: regulationIdToSave,
+      organization_id: null,
+      version_number: latestNumber + 1,
+      version: `v${latestNumber + 1}.0`,
+      ...snapshot,
+      change_summary: changeSummary,
+      restored_from: restoredFrom,
+      created_by: user?.id || null,
+      created_by_name: profile?.full_name || null,
+      created_at: new Date().toISOString()
+    }
+    localStorage.setItem('travelRegulationVersions', JSON.stringify([...localVersions, version]))
+
+    const regulations = loadLocalRegulations()
+    const existing = regulations.find(reg => reg.id === regulationIdToSave)
+    const localRegulation = toLocalRegulation(existing, regulationIdToSave, version)
+    localStorage.setItem('travelRegulations', JSON.stringify(
+      existing
+        ? regulations.map(reg => (reg.id === regulationIdToSave ? localRegulation : reg))
+        : [...regulations, localRegulation]
+    ))
+
+    return version
+  }
+
+  const saveVersion = async (snapshot: RegulationSnapshot, changeSummary?: string) => {
+    try {
+      // 変更概要が未入力の場合は直前の版との差分から作成する
+      const latest = versions[0]
+      const summary = changeSummary?.trim()
+        || (latest ? summarizeRegulationChanges(diffRegulationVersions(latest, snapshot)) : '初版作成')
+
+      let version: RegulationVersion
+      if (isDemoMode()) {
+        version = saveLocalVersion(snapshot, summary, null)
+      } else {
+        if (!user) {
+          throw new Error('User not authenticated')
+        }
+        const result = await saveTravelRegulationVersion(
+          currentRegulationId,
+          snapshot,
+          summary,
+          profile?.default_organization_id
+        )
+        if (!result.success || !result.version) {
+          throw new Error(result.error)
+        }
+        version = result.version
+      }
+
+      if (version.regulation_id !== currentRegulationId) {
+        setCurrentRegulationId(version.regulation_id)
+      } else {
+        await fetchVersions()
+      }
+      return { success: true, version }
+    } catch (err) {
+      console.error('Travel regulation version save error:', err)
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Failed to save travel regulation version'
+      }
+    }
+  }
+
+  // 過去の版の内容で新しい版を作成する（既存の版は変更しない）
+  const restoreVersion = async (versionId: string, changeSummary?: string) => {
+    try {
+      const source = versions.find(version => version.id === versionId)
+      if (!source) {
+        throw new Error('Version not found')
+      }
+
+      let version: RegulationVersion
+      if (isDemoMode()) {
+        const { name, company_info, articles, allowance_settings } = source
+        version = saveLocalVersion(
+          { name, company_info, articles, allowance_settings },
+          changeSummary?.trim() || `${source.version}から復元`,
+          source.id
+        )
+      } else {
+        const result = await restoreTravelRegulationVersion(versionId, changeSummary)
+        if (!result.success || !result.version) {
+          throw new Error(result.error)
+        }
+        version = result.version
+      }
+
+      await fetchVersions()
+      return { success: true, version }
+    } catch (err) {
+      console.error('Travel regulation version restore error:', err)
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Failed to restore travel regulation version'
+      }
+    }
+  }
+
+  return {
+    regulationId: currentRegulationId,
+    versions,
+    latestVersion: versions[0] || null,
+    loading,
+    error,
+    saveVersion,
+    restoreVersion,
+    refreshVersions: fetchVersions
+  }
+}
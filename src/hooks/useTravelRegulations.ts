@@ -1,6 +1,13 @@
 import { useState, useEffect } from 'react'
-import { supabase, getTravelRegulations, createTravelRegulation as createRegulation } from '../lib/supabase'
+import {
+  getTravelRegulations,
+  createTravelRegulation as createRegulation,
+  saveTravelRegulationVersion,
+  setTravelRegulationStatus
+} from '../lib/supabase'
 import { useAuth } from './useAuth'
+import { selectActiveRegulation } from '../lib/allowanceCalculator'
+import type { RegulationSnapshot } from '../lib/regulationVersions'
 
 export interface TravelRegulation {
   id: string
@@ -94,7 +101,6 @@ export function useTravelRegulations() {
         companyInfo,
         articles,
         allowanceSettings,
-        user.id,
         profile?.default_organization_id || undefined
       )
       
@@ -113,27 +119,36 @@ export function useTravelRegulations() {
     }
   }
 
+  // 内容の変更は常に新しい版として保存する（規程を直接更新すると履歴が残らないため）
   const updateTravelRegulation = async (
     regulationId: string,
-    updates: Partial<TravelRegulation>
+    updates: Partial<RegulationSnapshot>,
+    changeSummary?: string
   ) => {
     try {
-      const { data, error } = await supabase
-        .from('travel_regulations')
-        .update({
-          ...updates,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', regulationId)
-        .select()
-        .single()
+      const current = regulations.find(regulation => regulation.id === regulationId)
+      if (!current) {
+        throw new Error('Travel regulation not found')
+      }
+
+      const result = await saveTravelRegulationVersion(
+        regulationId,
+        {
+          name: updates.name ?? current.name,
+          company_info: updates.company_info ?? current.company_info,
+          articles: updates.articles ?? current.articles,
+          allowance_settings: updates.allowance_settings ?? current.allowance_settings
+        },
+        changeSummary || null,
+        current.organization_id
+      )
 
-      if (error) {
-        throw error
+      if (!result.success) {
+        throw new Error(result.error)
       }
 
       await fetchRegulations()
-      return { success: true, regulation: data }
+      return { success: true, version: result.version }
     } catch (err) {
       console.error('Travel regulation update error:', err)
       return { 
@@ -143,35 +158,45 @@ export function useTravelRegulations() {
     }
   }
 
-  const deleteTravelRegulation = async (regulationId: string) => {
+  // 運用開始・運用終了（施行期間はサーバー側で記録する）
+  const changeRegulationStatus = async (
+    regulationId: string,
+    status: TravelRegulation['status']
+  ) => {
     try {
-      const { error } = await supabase
-        .from('travel_regulations')
-        .delete()
-        .eq('id', regulationId)
+      const result = await setTravelRegulationStatus(regulationId, status)
 
-      if (error) {
-        throw error
+      if (!result.success) {
+        throw new Error(result.error)
       }
 
       await fetchRegulations()
-      return { success: true }
+      return result
     } catch (err) {
-      console.error('Travel regulation deletion error:', err)
+      console.error('Travel regulation status change error:', err)
       return { 
         success: false, 
-        error: err instanceof Error ? err.message : 'Failed to delete travel regulation' 
+        error: err instanceof Error ? err.message : 'Failed to change travel regulation status' 
       }
     }
   }
 
+  // 過去の出張の計算根拠として版を残すため、規程は削除せずに廃止する
+  const archiveTravelRegulation = (regulationId: string) =>
+    changeRegulationStatus(regulationId, 'archived')
+
+  // 旅費計算に使用する運用中の規程
+  const activeRegulation = selectActiveRegulation(regulations)
+
   return {
     regulations,
+    activeRegulation,
     loading,
     error,
     createTravelRegulation,
     updateTravelRegulation,
-    deleteTravelRegulation,
+    changeRegulationStatus,
+    archiveTravelRegulation,
     refreshRegulations: fetchRegulations
   }
 }
\ No newline at end of file
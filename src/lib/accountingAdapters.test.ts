@@ -0,0 +1,304 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  createFreeeAdapter,
+  createMoneyForwardAdapter,
+  type AccountingConnection,
+  type AccountingRequestError,
+  type JournalRow
+} from './accountingAdapters'
+import { classifySyncError } from './accountingSync'
+
+interface ReceivedRequest {
+  method: string
+  path: string
+  query: URLSearchParams
+  authorization: string | undefined
+  body: unknown
+}
+
+type Handler = (request: ReceivedRequest, res: ServerResponse) => void
+
+// 会計ソフトのAPIの代わりに応答するローカルサーバー（受け取ったリクエストを記録する）
+let server: Server
+let baseUrl: string
+let handler: Handler
+let received: ReceivedRequest[]
+
+const readBody = (req: IncomingMessage) => new Promise<string>(resolve => {
+  let data = ''
+  req.on('data', chunk => { data += chunk })
+  req.on('end', () => resolve(data))
+})
+
+const json = (res: ServerResponse, status: number, body: unknown, headers: { [name: string]: string } = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+  res.end(JSON.stringify(body))
+}
+
+beforeEach(async () => {
+  received = []
+  handler = (_request, res) => json(res, 404, { message: 'not found' })
+  server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost')
+    const text = await readBody(req)
+    const request = {
+      method: req.method || 'GET',
+      path: url.pathname,
+      query: url.searchParams,
+      authorization: req.headers.authorization,
+      body: text ? JSON.parse(text) : null
+    }
+    received.push(request)
+    handler(request, res)
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterEach(async () => {
+  server.closeAllConnections()
+  await new Promise(resolve => server.close(resolve))
+})
+
+const connection: AccountingConnection = { accessToken: 'test-token', companyId: '12345' }
+
+const row = (overrides: Partial<JournalRow> = {}): JournalRow => ({
+  applicationId: 'app-1',
+  applicationTitle: '大阪出張',
+  expenseItemId: 'item-1',
+  date: '2024-04-15',
+  category: '交通費',
+  account: '101',
+  taxCategory: '136',
+  rate: 10,
+  amount: 3300,
+  taxAmount: 300,
+  description: '新幹線',
+  counterparty: '株式会社サンプル交通',
+  registrationNumber: 'T1234567890123',
+  creditAccount: '202',
+  creditTaxCategory: '0',
+  ...overrides
+})
+
+const rows = [
+  row(),
+  row({ expenseItemId: 'item-2', date: '2024-04-16', category: '宿泊費', amount: 11000, taxAmount: 1000, description: '宿泊', counterparty: 'ホテルサンプル' })
+]
+
+const sendError = async (promise: Promise<unknown>) => {
+  try {
+    await promise
+  } catch (error) {
+    return error as AccountingRequestError
+  }
+  throw new Error('request did not fail')
+}
+
+describe('createFreeeAdapter', () => {
+  it('posts a deal with the application id as the reference number', async () => {
+    handler = (_request, res) => json(res, 201, { deal: { id: 987 } })
+    const adapter = createFreeeAdapter({ baseUrl })
+
+    const result = await adapter.send(adapter.buildPayload(rows, connection), connection)
+
+    expect(received).toHaveLength(1)
+    expect(received[0]).toMatchObject({ method: 'POST', path: '/api/1/deals', authorization: 'Bearer test-token' })
+    expect(received[0].body).toEqual({
+      company_id: 12345,
+      issue_date: '2024-04-16',
+      type: 'expense',
+      ref_number: 'app-1',
+      details: [
+        { account_item_id: 101, tax_code: 136, amount: 3300, vat: 300, description: '株式会社サンプル交通 新幹線' },
+        { account_item_id: 101, tax_code: 136, amount: 11000, vat: 1000, description: 'ホテルサンプル 宿泊' }
+      ]
+    })
+    expect(result.status).toBe(201)
+    expect(result.externalId).toBe('987')
+    // 送信ログにアクセストークンを残さない
+    expect(result.exchange.request.headers.Authorization).toBe('Bearer ***')
+  })
+
+  it('reports 401 with the status and the response message', async () => {
+    handler = (_request, res) => json(res, 401, { message: 'invalid_token' })
+    const adapter = createFreeeAdapter({ baseUrl })
+
+    const error = await sendError(adapter.send(adapter.buildPayload(rows, connection), connection))
+
+    expect(error.status).toBe(401)
+    expect(error.message).toBe('HTTP 401: invalid_token')
+    expect(error.exchange?.response?.body).toEqual({ message: 'invalid_token' })
+  })
+
+  it('keeps Retry-After of a 429 response', async () => {
+    handler = (_request, res) => json(res, 429, { message: 'too many requests' }, { 'Retry-After': '120' })
+    const adapter = createFreeeAdapter({ baseUrl })
+
+    const error = await sendError(adapter.send(adapter.buildPayload(rows, connection), connection))
+
+    expect(error).toMatchObject({ status: 429, retryAfterSeconds: 120 })
+    expect(error.exchange?.response?.headers['retry-after']).toBe('120')
+  })
+
+  it('reports 5xx without Retry-After', async () => {
+    handler = (_request, res) => json(res, 503, { message: 'maintenance' })
+    const adapter = createFreeeAdapter({ baseUrl })
+
+    const error = await sendError(adapter.send(adapter.buildPayload(rows, connection), connection))
+
+    expect(error.status).toBe(503)
+    expect(error.retryAfterSeconds).toBeUndefined()
+    expect(error.timedOut).toBeUndefined()
+  })
+
+  it('aborts a request without a response after the timeout', async () => {
+    // 応答を返さない
+    handler = () => undefined
+    const adapter = createFreeeAdapter({ baseUrl, timeoutMs: 50 })
+
+    const error = await sendError(adapter.send(adapter.buildPayload(rows, connection), connection))
+
+    expect(error).toMatchObject({ timedOut: true, networkError: false })
+    expect(error.status).toBeUndefined()
+    expect(error.exchange?.response).toBeUndefined()
+  })
+
+  it('finds an existing deal by reference number and amount across pages', async () => {
+    const others = Array.from({ length: 100 }, (_, index) => ({ id: index + 1, ref_number: `other-${index}`, amount: 14300 }))
+    handler = (request, res) => json(res, 200, {
+      deals: request.query.get('offset') === '0'
+        ? others
+        : [{ id: 500, ref_number: 'app-1', amount: 9999 }, { id: 501, ref_number: 'app-1', amount: 14300 }]
+    })
+    const adapter = createFreeeAdapter({ baseUrl })
+
+    const existing = await adapter.findExisting(adapter.buildPayload(rows, connection), connection)
+
+    expect(existing?.externalId).toBe('501')
+    expect(received.map(request => request.query.get('offset'))).toEqual(['0', '100'])
+    expect(Object.fromEntries(received[0].query)).toEqual({
+      company_id: '12345',
+      type: 'expense',
+      start_issue_date: '2024-04-16',
+      end_issue_date: '2024-04-16',
+      offset: '0',
+      limit: '100'
+    })
+  })
+
+  it('returns null when no deal matches on the last page', async () => {
+    handler = (_request, res) => json(res, 200, { deals: [{ id: 500, ref_number: 'app-1', amount: 9999 }] })
+    const adapter = createFreeeAdapter({ baseUrl })
+
+    expect(await adapter.findExisting(adapter.buildPayload(rows, connection), connection)).toBeNull()
+    expect(received).toHaveLength(1)
+  })
+})
+
+describe('createMoneyForwardAdapter', () => {
+  const mfRows = rows.map(item => ({ ...item, account: '旅費交通費', taxCategory: '課仕 10%', creditAccount: '未払金', creditTaxCategory: '対象外' }))
+
+  it('posts a journal to the office with the application id in the memo', async () => {
+    handler = (_request, res) => json(res, 201, { journal: { id: 'mf-1' } })
+    const adapter = createMoneyForwardAdapter({ baseUrl })
+
+    const result = await adapter.send(adapter.buildPayload(mfRows, connection), connection)
+
+    expect(received[0]).toMatchObject({ method: 'POST', path: '/api/v3/offices/12345/journals', authorization: 'Bearer test-token' })
+    expect(received[0].body).toEqual({
+      journal: {
+        transaction_date: '2024-04-16',
+        journal_type: 'journal_entry',
+        memo: '大阪出張（申請ID: app-1）',
+        branches: [
+          {
+            remark: '株式会社サンプル交通 新幹線',
+            debitor: { account_name: '旅費交通費', tax_name: '課仕 10%', value: 3300, tax_value: 300 },
+            creditor: { account_name: '未払金', tax_name: '対象外', value: 3300, tax_value: 0 }
+          },
+          {
+            remark: 'ホテルサンプル 宿泊',
+            debitor: { account_name: '旅費交通費', tax_name: '課仕 10%', value: 11000, tax_value: 1000 },
+            creditor: { account_name: '未払金', tax_name: '対象外', value: 11000, tax_value: 0 }
+          }
+        ]
+      }
+    })
+    expect(result.externalId).toBe('mf-1')
+  })
+
+  it('reports validation messages of a 400 response', async () => {
+    handler = (_request, res) => json(res, 400, { errors: [{ messages: ['勘定科目が存在しません'] }] })
+    const adapter = createMoneyForwardAdapter({ baseUrl })
+
+    const error = await sendError(adapter.send(adapter.buildPayload(mfRows, connection), connection))
+
+    expect(error.status).toBe(400)
+    expect(error.message).toBe('HTTP 400: 勘定科目が存在しません')
+  })
+
+  it('finds an existing journal by memo and debit total', async () => {
+    handler = (_request, res) => json(res, 200, {
+      journals: [
+        { id: 'mf-0', memo: '大阪出張（申請ID: app-1）', branches: [{ debitor: { value: 3300 } }] },
+        { id: 'mf-1', memo: '大阪出張（申請ID: app-1）', branches: [{ debitor: { value: 3300 } }, { debitor: { value: 11000 } }] }
+      ]
+    })
+    const adapter = createMoneyForwardAdapter({ baseUrl })
+
+    const existing = await adapter.findExisting(adapter.buildPayload(mfRows, connection), connection)
+
+    expect(existing?.externalId).toBe('mf-1')
+    expect(received[0]).toMatchObject({ method: 'GET', path: '/api/v3/offices/12345/journals' })
+    expect(Object.fromEntries(received[0].query)).toEqual({ start_date: '2024-04-16', end_date: '2024-04-16' })
+  })
+
+  it('returns null when the memo does not match', async () => {
+    handler = (_request, res) => json(res, 200, {
+      journals: [{ id: 'mf-2', memo: '大阪出張（申請ID: app-2）', branches: [{ debitor: { value: 14300 } }] }]
+    })
+    const adapter = createMoneyForwardAdapter({ baseUrl })
+
+    expect(await adapter.findExisting(adapter.buildPayload(mfRows, connection), connection)).toBeNull()
+  })
+})
+
+describe('classifySyncError', () => {
+  const classify = async (respond: Handler, timeoutMs?: number) => {
+    handler = respond
+    const adapter = createFreeeAdapter({ baseUrl, timeoutMs })
+    try {
+      await adapter.send(adapter.buildPayload(rows, connection), connection)
+    } catch (error) {
+      return classifySyncError(error)
+    }
+    throw new Error('request did not fail')
+  }
+
+  it('does not retry an expired token', async () => {
+    expect(await classify((_request, res) => json(res, 401, { message: 'invalid_token' })))
+      .toMatchObject({ code: 'AUTH_TOKEN_EXPIRED', retryable: false, status: 401 })
+  })
+
+  it('retries a rate limit after Retry-After', async () => {
+    expect(await classify((_request, res) => json(res, 429, {}, { 'Retry-After': '120' })))
+      .toMatchObject({ code: 'RATE_LIMIT_EXCEEDED', retryable: true, retryAfterSeconds: 120 })
+  })
+
+  it('retries server errors', async () => {
+    expect(await classify((_request, res) => json(res, 502, {})))
+      .toMatchObject({ code: 'SERVER_ERROR', retryable: true, status: 502 })
+  })
+
+  it('retries a timeout', async () => {
+    expect(await classify(() => undefined, 50)).toMatchObject({ code: 'TIMEOUT', retryable: true })
+  })
+
+  it('does not retry a rejected payload', async () => {
+    expect(await classify((_request, res) => json(res, 400, { message: 'invalid' })))
+      .toMatchObject({ code: 'DATA_FORMAT_ERROR', retryable: false, status: 400 })
+  })
+})
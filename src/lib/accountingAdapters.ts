@@ -0,0 +1,627 @@
+import type { AccountingExportLine } from './accountingExport'
+import type { InputTaxCreditStatus } from './invoiceValidation'
+import type { GeneratedFile } from './documentGenerator'
+
+// 会計ソフト（freee・MoneyForward・弥生会計）への仕訳連携
+// 送信明細を勘定科目・税区分の設定に従って仕訳行に変換し、各社の形式で送信またはファイル出力する
+
+export type AccountingProvider = 'freee' | 'moneyforward' | 'yayoi'
+
+export const ACCOUNTING_PROVIDER_LABELS: { [provider in AccountingProvider]: string } = {
+  freee: 'freee',
+  moneyforward: 'MoneyForward',
+  yayoi: '弥生会計'
+}
+
+// 税率・控除区分の組み合わせ（出張旅費等特例などの帳簿のみ保存は全額控除として扱う）
+// 課税対象外（不課税）の取引は税率・控除区分によらず out_of_scope の税区分を使う
+export type TaxCategoryKey = `${8 | 10}:${Exclude<InputTaxCreditStatus, 'exempt'>}` | 'out_of_scope'
+
+export const TAX_CATEGORY_KEYS: { key: TaxCategoryKey, label: string }[] = [
+  { key: '10:full', label: '10% 全額控除' },
+  { key: '8:full', label: '8%（軽減） 全額控除' },
+  { key: '10:transitional_80', label: '10% 経過措置80%' },
+  { key: '8:transitional_80', label: '8%（軽減） 経過措置80%' },
+  { key: '10:transitional_50', label: '10% 経過措置50%' },
+  { key: '8:transitional_50', label: '8%（軽減） 経過措置50%' },
+  { key: '10:none', label: '10% 控除不可' },
+  { key: '8:none', label: '8%（軽減） 控除不可' },
+  { key: 'out_of_scope', label: '対象外（不課税）' }
+]
+
+// 勘定科目・税区分の対応表
+// freee は勘定科目ID・税区分コード、MoneyForward・弥生会計は科目名・税区分名で指定する
+export interface AccountingMapping {
+  // 経費区分ごとの借方科目（税区分を指定した場合は税率・控除区分による判定より優先する）
+  categories: { [category: string]: { account: string, taxCategory?: string } }
+  taxCategories: { [key in TaxCategoryKey]?: string }
+  // 経費区分の設定がない場合の借方科目
+  defaultAccount: string
+  // 貸方科目（従業員への未払金など）と貸方の税区分
+  creditAccount: string
+  creditTaxCategory: string
+}
+
+export interface AccountingConnection {
+  accessToken?: string
+  // freee の事業所ID / MoneyForward の事業者ID
+  companyId?: string
+  // 画面ではアクセストークンを受け取らず、設定済みかどうかだけを持つ
+  hasAccessToken?: boolean
+}
+
+// 会計ソフトごとの連携設定
+// 対応表は組織設定（organizations.settings.accounting）、接続情報は accounting_credentials に保存する
+export interface AccountingSettings {
+  mapping: AccountingMapping
+  connection: AccountingConnection
+}
+
+// 仕訳1行（税率が混在する明細は税率ごとに分ける）
+export interface JournalRow {
+  applicationId: string
+  applicationTitle: string
+  expenseItemId: string
+  date: string
+  category: string
+  account: string
+  taxCategory: string
+  rate: 8 | 10
+  amount: number
+  taxAmount: number
+  description: string
+  counterparty: string
+  registrationNumber: string | null
+  creditAccount: string
+  creditTaxCategory: string
+}
+
+export interface AccountingMappingError {
+  applicationId: string
+  expenseItemId: string
+  message: string
+}
+
+export interface AccountingSendResult {
+  applicationId: string
+  success: boolean
+  externalId?: string
+  status?: number
+  error?: string
+}
+
+// インポート用ファイル（content は文字コード変換前の CSV テキスト）
+export interface AccountingFile extends GeneratedFile {
+  content: string
+}
+
+interface AdapterBase {
+  provider: AccountingProvider
+  label: string
+  defaultMapping: AccountingMapping
+}
+
+// APIで申請ごとに仕訳を登録する会計ソフト
+export interface ApiAccountingAdapter<TPayload = unknown> extends AdapterBase {
+  delivery: 'api'
+  buildPayload(rows: JournalRow[], connection: AccountingConnection): TPayload
+  send(payload: TPayload, connection: AccountingConnection): Promise<AccountingSendResponse>
+  // 同じ申請の取引・仕訳が登録済みか会計ソフトに問い合わせる（再送前の確認に使う）
+  findExisting(payload: TPayload, connection: AccountingConnection): Promise<AccountingSendResponse | null>
+}
+
+// インポート用ファイルを出力する会計ソフト
+export interface FileAccountingAdapter extends AdapterBase {
+  delivery: 'file'
+  buildFile: (rows: JournalRow[]) => AccountingFile
+}
+
+export type AccountingAdapter = ApiAccountingAdapter | FileAccountingAdapter
+
+export interface AccountingAdapterOptions {
+  // APIの接続先（テスト時はローカルのモックサーバーを指定する）
+  baseUrl?: string
+  fetch?: typeof fetch
+  timeoutMs?: number
+}
+
+const CATEGORY_ACCOUNTS = ['交通費', '宿泊費', '日当']
+
+// ---- 仕訳行への変換 ----
+
+// 税率別の記載から税込金額を求める（税抜・税込のどちらで記載されていても明細の金額に合わせる）
+const splitByRate = (line: AccountingExportLine) => {
+  if (line.taxBreakdown.length === 0) {
+    return [{ rate: 10 as const, amount: line.amount, taxAmount: line.taxAmount }]
+  }
+  const taxable = line.taxBreakdown.reduce((sum, breakdown) => sum + breakdown.taxableAmount, 0)
+  const inclusive = Math.abs(taxable - line.amount) < 1
+  const parts = line.taxBreakdown.map(breakdown => ({
+    rate: breakdown.rate,
+    amount: inclusive ? breakdown.taxableAmount : breakdown.taxableAmount + breakdown.taxAmount,
+    taxAmount: breakdown.taxAmount
+  }))
+  // 端数の差額は最後の税率に寄せる
+  const difference = line.amount - parts.reduce((sum, part) => sum + part.amount, 0)
+  parts[parts.length - 1].amount += difference
+  return parts.filter(part => part.amount !== 0)
+}
+
+export function buildJournalRows(lines: AccountingExportLine[], mapping: AccountingMapping) {
+  const rows: JournalRow[] = []
+  const errors: AccountingMappingError[] = []
+
+  lines.forEach(line => {
+    const categoryMapping = mapping.categories[line.category]
+    const account = categoryMapping?.account || mapping.defaultAccount
+    const credit = line.inputTaxCredit === 'exempt' ? 'full' : line.inputTaxCredit
+
+    if (!account) {
+      errors.push({ applicationId: line.applicationId, expenseItemId: line.expenseItemId, message: `「${line.category}」の勘定科目が設定されていません` })
+      return
+    }
+    if (!mapping.creditAccount) {
+      errors.push({ applicationId: line.applicationId, expenseItemId: line.expenseItemId, message: '貸方科目が設定されていません' })
+      return
+    }
+
+    splitByRate(line).forEach(part => {
+      // 課税対象外の取引は経費区分に設定した税区分より優先する
+      const taxKey: TaxCategoryKey = line.outOfScope ? 'out_of_scope' : `${part.rate}:${credit}`
+      const taxCategory = line.outOfScope
+        ? mapping.taxCategories[taxKey]
+        : categoryMapping?.taxCategory || mapping.taxCategories[taxKey]
+      if (!taxCategory) {
+        errors.push({
+          applicationId: line.applicationId,
+          expenseItemId: line.expenseItemId,
+          message: `${TAX_CATEGORY_KEYS.find(({ key }) => key === taxKey)?.label}の税区分が設定されていません`
+        })
+        return
+      }
+      rows.push({
+        applicationId: line.applicationId,
+        applicationTitle: line.applicationTitle,
+        expenseItemId: line.expenseItemId,
+        date: line.date,
+        category: line.category,
+        account,
+        taxCategory,
+        rate: part.rate,
+        amount: part.amount,
+        taxAmount: part.taxAmount,
+        description: line.description,
+        counterparty: line.counterparty,
+        registrationNumber: line.registrationNumber,
+        creditAccount: mapping.creditAccount,
+        creditTaxCategory: mapping.creditTaxCategory
+      })
+    })
+  })
+
+  return { rows, errors }
+}
+
+// ---- HTTP ----
+
+// 送信ログに残すリクエスト・レスポンスの内容（アクセストークンは記録しない）
+export interface AccountingExchange {
+  request: {
+    method: string
+    url: string
+    headers: { [name: string]: string }
+    body: unknown
+  }
+  response?: {
+    status: number
+    headers: { [name: string]: string }
+    body: unknown
+  }
+  durationMs: number
+}
+
+// 送信失敗時のエラー（status・exchange はレスポンスを受け取れた範囲で設定する）
+export type AccountingRequestError = Error & {
+  status?: number
+  exchange?: AccountingExchange
+  // タイムアウト・通信断など、会計ソフト側で登録済みの可能性がある失敗
+  timedOut?: boolean
+  networkError?: boolean
+  retryAfterSeconds?: number
+}
+
+export interface AccountingSendResponse {
+  status: number
+  externalId?: string
+  exchange: AccountingExchange
+}
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000
+
+const requestJson = async (
+  options: AccountingAdapterOptions,
+  method: 'GET' | 'POST',
+  url: string,
+  connection: AccountingConnection,
+  body?: unknown
+) => {
+  if (!connection.accessToken) {
+    throw new Error('アクセストークンが設定されていません。会計ソフトとの接続をやり直してください')
+  }
+
+  const headers: { [name: string]: string } = {
+    'Content-Type': 'application/json',
+    Accept: 'application/json'
+  }
+  const exchange: AccountingExchange = {
+    request: { method, url, headers: { ...headers, Authorization: 'Bearer ***' }, body: body ?? null },
+    durationMs: 0
+  }
+
+  const fetchImpl = options.fetch || ((input, init) => fetch(input, init))
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+  const startedAt = Date.now()
+
+  let response: Response
+  let text: string
+  try {
+    response = await fetchImpl(url, {
+      method,
+      headers: { ...headers, Authorization: `Bearer ${connection.accessToken}` },
+      body: method === 'POST' ? JSON.stringify(body) : undefined,
+      signal: controller.signal
+    })
+    text = await response.text()
+  } catch (error) {
+    exchange.durationMs = Date.now() - startedAt
+    const timedOut = controller.signal.aborted
+    throw Object.assign(
+      new Error(timedOut ? '会計ソフトからの応答がタイムアウトしました' : `通信エラー: ${error instanceof Error ? error.message : String(error)}`),
+      { exchange, timedOut, networkError: !timedOut }
+    ) as AccountingRequestError
+  } finally {
+    clearTimeout(timer)
+  }
+
+  let result: unknown = null
+  try {
+    result = text ? JSON.parse(text) : null
+  } catch {
+    result = text
+  }
+  exchange.durationMs = Date.now() - startedAt
+  exchange.response = {
+    status: response.status,
+    headers: Object.fromEntries(['content-type', 'retry-after', 'x-request-id']
+      .filter(name => response.headers.get(name) !== null)
+      .map(name => [name, response.headers.get(name) as string])),
+    body: result
+  }
+
+  if (!response.ok) {
+    const detail = typeof result === 'object' && result !== null
+      ? (result as { message?: string, errors?: { messages?: string[] }[] }).message ||
+        (result as { errors?: { messages?: string[] }[] }).errors?.flatMap(error => error.messages || []).join(' / ')
+      : typeof result === 'string' ? result : ''
+    const retryAfter = Number(response.headers.get('retry-after'))
+    throw Object.assign(new Error(`HTTP ${response.status}${detail ? `: ${detail}` : ''}`), {
+      status: response.status,
+      exchange,
+      retryAfterSeconds: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined
+    }) as AccountingRequestError
+  }
+  return { status: response.status, body: result, exchange }
+}
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '')
+
+const describe = (row: JournalRow) =>
+  [row.counterparty, row.description].filter(Boolean).join(' ') || row.applicationTitle
+
+// ---- freee（取引 API） ----
+
+export interface FreeeDealPayload {
+  company_id: number
+  issue_date: string
+  type: 'expense'
+  ref_number: string
+  details: {
+    account_item_id: number
+    tax_code: number
+    amount: number
+    vat: number
+    description: string
+  }[]
+}
+
+// 取引一覧APIの1ページあたりの件数（freee の上限）
+const FREEE_DEALS_PAGE_SIZE = 100
+
+export function createFreeeAdapter(options: AccountingAdapterOptions = {}): ApiAccountingAdapter<FreeeDealPayload> {
+  const baseUrl = trimSlash(options.baseUrl || 'https://api.freee.co.jp')
+
+  return {
+    provider: 'freee',
+    label: ACCOUNTING_PROVIDER_LABELS.freee,
+    delivery: 'api',
+    // 勘定科目IDは事業所ごとに異なるため、接続後に設定する
+    defaultMapping: {
+      categories: {},
+      taxCategories: {
+        '10:full': '136',
+        '8:full': '163'
+      },
+      defaultAccount: '',
+      creditAccount: '',
+      creditTaxCategory: '0'
+    },
+    buildPayload: (rows, connection) => ({
+      company_id: Number(connection.companyId),
+      issue_date: rows.reduce((latest, row) => row.date > latest ? row.date : latest, rows[0].date),
+      type: 'expense',
+      ref_number: rows[0].applicationId,
+      details: rows.map(row => ({
+        account_item_id: Number(row.account),
+        tax_code: Number(row.taxCategory),
+        amount: row.amount,
+        vat: row.taxAmount,
+        description: describe(row)
+      }))
+    }),
+    send: async (payload, connection) => {
+      if (!connection.companyId) throw new Error('freee の事業所IDが設定されていません')
+      const { status, body, exchange } = await requestJson(options, 'POST', `${baseUrl}/api/1/deals`, connection, payload)
+      const deal = (body as { deal?: { id?: number | string } } | null)?.deal
+      return { status, exchange, externalId: deal?.id !== undefined ? String(deal.id) : undefined }
+    },
+    // 発生日の取引から管理番号（申請ID）と金額が一致するものを探す（再承認で金額が変わった申請は別の取引とみなす）
+    // 同じ日の取引が1ページに収まらない事業所もあるため、最後のページまでたどる
+    findExisting: async (payload, connection) => {
+      if (!connection.companyId) throw new Error('freee の事業所IDが設定されていません')
+      const amount = payload.details.reduce((sum, detail) => sum + detail.amount, 0)
+      for (let offset = 0; ; offset += FREEE_DEALS_PAGE_SIZE) {
+        const query = new URLSearchParams({
+          company_id: String(payload.company_id),
+          type: payload.type,
+          start_issue_date: payload.issue_date,
+          end_issue_date: payload.issue_date,
+          offset: String(offset),
+          limit: String(FREEE_DEALS_PAGE_SIZE)
+        })
+        const { status, body, exchange } = await requestJson(options, 'GET', `${baseUrl}/api/1/deals?${query}`, connection)
+        const deals = (body as { deals?: { id?: number | string, ref_number?: string, amount?: number }[] } | null)?.deals || []
+        const deal = deals.find(item => item.ref_number === payload.ref_number && Number(item.amount) === amount)
+        if (deal?.id !== undefined) return { status, exchange, externalId: String(deal.id) }
+        if (deals.length < FREEE_DEALS_PAGE_SIZE) return null
+      }
+    }
+  }
+}
+
+// ---- MoneyForward クラウド会計（仕訳 API） ----
+
+export interface MoneyForwardJournalPayload {
+  journal: {
+    transaction_date: string
+    journal_type: 'journal_entry'
+    memo: string
+    branches: {
+      remark: string
+      debitor: { account_name: string, tax_name: string, value: number, tax_value: number }
+      creditor: { account_name: string, tax_name: string, value: number, tax_value: number }
+    }[]
+  }
+}
+
+const journalsPath = (connection: AccountingConnection) =>
+  connection.companyId ? `/api/v3/offices/${encodeURIComponent(connection.companyId)}/journals` : '/api/v3/journals'
+
+export function createMoneyForwardAdapter(options: AccountingAdapterOptions = {}): ApiAccountingAdapter<MoneyForwardJournalPayload> {
+  const baseUrl = trimSlash(options.baseUrl || 'https://accounting.moneyforward.com')
+
+  return {
+    provider: 'moneyforward',
+    label: ACCOUNTING_PROVIDER_LABELS.moneyforward,
+    delivery: 'api',
+    defaultMapping: {
+      categories: Object.fromEntries(CATEGORY_ACCOUNTS.map(category => [category, { account: '旅費交通費' }])),
+      taxCategories: {
+        '10:full': '課仕 10%',
+        '8:full': '課仕 (軽)8%',
+        '10:transitional_80': '課仕 10% 80%控除',
+        '8:transitional_80': '課仕 (軽)8% 80%控除',
+        '10:transitional_50': '課仕 10% 50%控除',
+        '8:transitional_50': '課仕 (軽)8% 50%控除',
+        '10:none': '対象外',
+        '8:none': '対象外',
+        out_of_scope: '対象外'
+      },
+      defaultAccount: '雑費',
+      creditAccount: '未払金',
+      creditTaxCategory: '対象外'
+    },
+    buildPayload: rows => ({
+      journal: {
+        transaction_date: rows.reduce((latest, row) => row.date > latest ? row.date : latest, rows[0].date),
+        journal_type: 'journal_entry',
+        memo: `${rows[0].applicationTitle}（申請ID: ${rows[0].applicationId}）`,
+        branches: rows.map(row => ({
+          remark: describe(row),
+          debitor: { account_name: row.account, tax_name: row.taxCategory, value: row.amount, tax_value: row.taxAmount },
+          creditor: { account_name: row.creditAccount, tax_name: row.creditTaxCategory, value: row.amount, tax_value: 0 }
+        }))
+      }
+    }),
+    send: async (payload, connection) => {
+      const { status, body, exchange } = await requestJson(options, 'POST', `${baseUrl}${journalsPath(connection)}`, connection, payload)
+      const journal = (body as { journal?: { id?: string | number }, id?: string | number } | null)
+      const id = journal?.journal?.id ?? journal?.id
+      return { status, exchange, externalId: id !== undefined ? String(id) : undefined }
+    },
+    // 取引日の仕訳から摘要（申請ID を含む）と借方の合計額が一致するものを探す
+    findExisting: async (payload, connection) => {
+      const date = payload.journal.transaction_date
+      const query = new URLSearchParams({ start_date: date, end_date: date })
+      const { status, body, exchange } = await requestJson(options, 'GET', `${baseUrl}${journalsPath(connection)}?${query}`, connection)
+      const amount = payload.journal.branches.reduce((sum, branch) => sum + branch.debitor.value, 0)
+      const journal = ((body as { journals?: { id?: string | number, memo?: string, branches?: { debitor?: { value?: number } }[] }[] } | null)?.journals || [])
+        .find(item => item.memo === payload.journal.memo &&
+          (item.branches || []).reduce((sum, branch) => sum + Number(branch.debitor?.value || 0), 0) === amount)
+      return journal?.id !== undefined ? { status, exchange, externalId: String(journal.id) } : null
+    }
+  }
+}
+
+// ---- 弥生会計（仕訳日記帳インポート形式） ----
+
+const YAYOI_COLUMNS = 25
+
+const csvField = (value: string | number) => {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function createYayoiAdapter(): FileAccountingAdapter {
+  return {
+    provider: 'yayoi',
+    label: ACCOUNTING_PROVIDER_LABELS.yayoi,
+    delivery: 'file',
+    defaultMapping: {
+      categories: Object.fromEntries(CATEGORY_ACCOUNTS.map(category => [category, { account: '旅費交通費' }])),
+      taxCategories: {
+        '10:full': '課対仕入内10%',
+        '8:full': '課対仕入内軽減8%',
+        '10:transitional_80': '課対仕入内10%区分80%',
+        '8:transitional_80': '課対仕入内軽減8%区分80%',
+        '10:transitional_50': '課対仕入内10%区分50%',
+        '8:transitional_50': '課対仕入内軽減8%区分50%',
+        '10:none': '対象外',
+        '8:none': '対象外',
+        out_of_scope: '対象外'
+      },
+      defaultAccount: '雑費',
+      creditAccount: '未払金',
+      creditTaxCategory: '対象外'
+    },
+    // 1行ごとに単一仕訳（識別フラグ 2000）として出力し、伝票No.は申請ごとに振る
+    buildFile: rows => {
+      const voucherNumbers = new Map<string, number>()
+      const records = rows.map(row => {
+        if (!voucherNumbers.has(row.applicationId)) voucherNumbers.set(row.applicationId, voucherNumbers.size + 1)
+        const fields: (string | number)[] = new Array(YAYOI_COLUMNS).fill('')
+        fields[0] = '2000'
+        fields[1] = voucherNumbers.get(row.applicationId) as number
+        fields[3] = row.date.slice(0, 10).replace(/-/g, '/')
+        fields[4] = row.account
+        fields[7] = row.taxCategory
+        fields[8] = row.amount
+        fields[9] = row.taxAmount
+        fields[10] = row.creditAccount
+        fields[13] = row.creditTaxCategory
+        fields[14] = row.amount
+        fields[15] = 0
+        fields[16] = Array.from(describe(row)).slice(0, 64).join('')
+        fields[19] = '0'
+        fields[21] = `申請ID:${row.applicationId}`
+        fields[22] = '0'
+        fields[23] = '0'
+        fields[24] = 'no'
+        return fields.map(csvField).join(',')
+      })
+      const content = records.map(record => `${record}\r\n`).join('')
+      return {
+        blob: new Blob([content], { type: 'text/csv' }),
+        fileName: `yayoi_journal_${new Date().toISOString().slice(0, 10).replace(/-/g, '')}.csv`,
+        mimeType: 'text/csv',
+        content
+      }
+    }
+  }
+}
+
+// ---- 連携の実行 ----
+
+let adapters: { [provider in AccountingProvider]?: AccountingAdapter } = {}
+
+export function getAccountingAdapter(provider: AccountingProvider): AccountingAdapter {
+  if (!adapters[provider]) {
+    adapters[provider] = provider === 'freee'
+      ? createFreeeAdapter({ baseUrl: import.meta.env.VITE_FREEE_API_BASE_URL as string | undefined })
+      : provider === 'moneyforward'
+        ? createMoneyForwardAdapter({ baseUrl: import.meta.env.VITE_MONEYFORWARD_API_BASE_URL as string | undefined })
+        : createYayoiAdapter()
+  }
+  return adapters[provider] as AccountingAdapter
+}
+
+export function setAccountingAdapter(provider: AccountingProvider, adapter: AccountingAdapter | null) {
+  if (adapter) {
+    adapters[provider] = adapter
+  } else {
+    delete adapters[provider]
+  }
+}
+
+export function resetAccountingAdapters() {
+  adapters = {}
+}
+
+export interface AccountingExportResult {
+  provider: AccountingProvider
+  rows: JournalRow[]
+  errors: AccountingMappingError[]
+  results: AccountingSendResult[]
+  file?: AccountingFile
+}
+
+// 送信明細を仕訳に変換して送信する（科目・税区分が未設定の明細を含む申請は送信しない）
+export async function exportJournalEntries(
+  provider: AccountingProvider,
+  lines: AccountingExportLine[],
+  options: { mapping?: AccountingMapping, connection?: AccountingConnection, adapter?: AccountingAdapter } = {}
+): Promise<AccountingExportResult> {
+  const adapter = options.adapter || getAccountingAdapter(provider)
+  const { rows, errors } = buildJournalRows(lines, options.mapping || adapter.defaultMapping)
+
+  const failedApplications = new Set(errors.map(error => error.applicationId))
+  const applicationIds = Array.from(new Set(lines.map(line => line.applicationId)))
+  const results: AccountingSendResult[] = applicationIds
+    .filter(id => failedApplications.has(id))
+    .map(id => ({
+      applicationId: id,
+      success: false,
+      error: errors.filter(error => error.applicationId === id).map(error => error.message).join(' / ')
+    }))
+  const sendableRows = rows.filter(row => !failedApplications.has(row.applicationId))
+
+  if (adapter.delivery === 'file') {
+    const sentIds = Array.from(new Set(sendableRows.map(row => row.applicationId)))
+    return {
+      provider,
+      rows,
+      errors,
+      results: [...results, ...sentIds.map(applicationId => ({ applicationId, success: true }))],
+      file: sendableRows.length > 0 ? adapter.buildFile(sendableRows) : undefined
+    }
+  }
+
+  const connection = options.connection || {}
+  for (const applicationId of applicationIds.filter(id => !failedApplications.has(id))) {
+    const applicationRows = sendableRows.filter(row => row.applicationId === applicationId)
+    if (applicationRows.length === 0) continue
+    try {
+      const { status, externalId } = await adapter.send(adapter.buildPayload(applicationRows, connection), connection)
+      results.push({ applicationId, success: true, status, externalId })
+    } catch (error) {
+      results.push({
+        applicationId,
+        success: false,
+        status: (error as { status?: number }).status,
+        error: error instanceof Error ? error.message : 'Failed to send journal entry'
+      })
+    }
+  }
+
+  return { provider, rows, errors, results }
+}
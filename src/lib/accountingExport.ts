@@ -0,0 +1,121 @@
+import type { Application, BusinessTripDetail, ExpenseItem } from './supabase'
+import type { InputTaxCreditStatus } from './invoiceValidation'
+
+// 会計ソフトへ送信する経費明細（1経費項目 = 1行、出張申請は日当・交通費・宿泊費ごとに1行）
+export interface AccountingExportLine {
+  applicationId: string
+  applicationTitle: string
+  expenseItemId: string
+  source: 'expense_item' | 'business_trip'
+  // 経費区分（交通費・宿泊費・日当・雑費）。勘定科目・税区分の対応付けに使用する
+  category: string
+  date: string
+  amount: number
+  description: string
+  counterparty: string
+  registrationNumber: string | null
+  taxBreakdown: { rate: 8 | 10, taxableAmount: number, taxAmount: number }[]
+  // 仕入税額控除の区分と控除割合（経過措置の80%・50%控除は会計側で適用する）
+  inputTaxCredit: InputTaxCreditStatus
+  inputTaxCreditRatio: number
+  taxAmount: number
+  deductibleTaxAmount: number
+  // 消費税の課税対象外（不課税）の取引（海外出張の旅費など）
+  outOfScope?: boolean
+}
+
+export type ExportableApplication = Application & {
+  expense_items?: ExpenseItem[] | null
+  business_trip_details?: BusinessTripDetail[] | null
+}
+
+export const DEFAULT_EXPENSE_CATEGORY = '雑費'
+
+// 税率別の記載がない場合は標準税率の内税として消費税額を求める
+const estimateTaxAmount = (amount: number) => Math.floor(amount * 10 / 110)
+
+// 出張申請の旅費（精算額がなければ見積額）。規程に基づく旅費は出張旅費等特例により帳簿のみで控除できる
+// 海外出張の旅費は国外での役務の提供となるため、消費税の課税対象外（不課税）として消費税額を0円にする
+const buildBusinessTripLines = (application: ExportableApplication): AccountingExportLine[] =>
+  (application.business_trip_details || []).flatMap(detail => {
+    const amounts: { key: string, category: string, amount: number }[] = [
+      { key: 'daily_allowance', category: '日当', amount: detail.actual_daily_allowance || detail.estimated_daily_allowance },
+      { key: 'transportation', category: '交通費', amount: detail.actual_transportation || detail.estimated_transportation },
+      { key: 'accommodation', category: '宿泊費', amount: detail.actual_accommodation || detail.estimated_accommodation }
+    ]
+    return amounts
+      .filter(({ amount }) => amount > 0)
+      .map(({ key, category, amount }) => {
+        const taxAmount = detail.is_overseas ? 0 : estimateTaxAmount(amount)
+        return {
+          applicationId: application.id,
+          applicationTitle: application.title,
+          expenseItemId: `${detail.id}:${key}`,
+          source: 'business_trip' as const,
+          category,
+          date: detail.end_date,
+          amount,
+          description: `${category}（${detail.purpose}）`,
+          counterparty: '',
+          registrationNumber: null,
+          taxBreakdown: [],
+          inputTaxCredit: detail.is_overseas ? 'none' as const : 'exempt' as const,
+          inputTaxCreditRatio: detail.is_overseas ? 0 : 1,
+          taxAmount,
+          deductibleTaxAmount: taxAmount,
+          outOfScope: Boolean(detail.is_overseas)
+        }
+      })
+  })
+
+export function buildAccountingExportLines(application: ExportableApplication): AccountingExportLine[] {
+  const expenseLines = (application.expense_items || []).map((item): AccountingExportLine => {
+    const metadata = item.receipt_metadata
+    const validation = item.invoice_validation
+    const taxBreakdown = (metadata?.taxBreakdown || []).map(({ rate, taxableAmount, taxAmount }) => ({
+      rate,
+      taxableAmount,
+      taxAmount
+    }))
+    const taxAmount = taxBreakdown.length > 0
+      ? taxBreakdown.reduce((sum, breakdown) => sum + breakdown.taxAmount, 0)
+      : estimateTaxAmount(item.amount)
+
+    // 検証前の経費項目は控除不可として送信し、会計側で確認できるようにする
+    const inputTaxCredit = item.input_tax_credit || validation?.inputTaxCredit || 'none'
+    const inputTaxCreditRatio = item.input_tax_credit_ratio ?? validation?.creditRatio ?? 0
+
+    return {
+      applicationId: application.id,
+      applicationTitle: application.title,
+      expenseItemId: item.id,
+      source: 'expense_item',
+      category: item.category || DEFAULT_EXPENSE_CATEGORY,
+      date: item.date,
+      amount: item.amount,
+      description: item.description || '',
+      counterparty: validation?.registeredName || metadata?.storeName.value || '',
+      registrationNumber: validation?.registrationNumber || null,
+      taxBreakdown,
+      inputTaxCredit,
+      inputTaxCreditRatio,
+      taxAmount,
+      deductibleTaxAmount: Math.floor(taxAmount * inputTaxCreditRatio)
+    }
+  })
+
+  return [...buildBusinessTripLines(application), ...expenseLines]
+}
+
+// 控除区分ごとの件数と控除対象税額を集計する
+export function summarizeInputTaxCredit(lines: AccountingExportLine[]) {
+  return lines.reduce((summary, line) => {
+    const current = summary[line.inputTaxCredit] || { count: 0, taxAmount: 0, deductibleTaxAmount: 0 }
+    summary[line.inputTaxCredit] = {
+      count: current.count + 1,
+      taxAmount: current.taxAmount + line.taxAmount,
+      deductibleTaxAmount: current.deductibleTaxAmount + line.deductibleTaxAmount
+    }
+    return summary
+  }, {} as Partial<Record<InputTaxCreditStatus, { count: number, taxAmount: number, deductibleTaxAmount: number }>>)
+}
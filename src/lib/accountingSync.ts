@@ -0,0 +1,243 @@
+import { buildAccountingExportLines, type ExportableApplication } from './accountingExport'
+import {
+  buildJournalRows,
+  getAccountingAdapter,
+  type AccountingAdapter,
+  type AccountingExchange,
+  type AccountingProvider,
+  type AccountingRequestError,
+  type AccountingSettings
+} from './accountingAdapters'
+
+// 会計連携の送信キュー
+// 承認済み申請を1件ずつジョブとして登録し、定期実行の Edge Function（accounting-sync）が送信する
+// 失敗時は指数バックオフで再送し、再送前に会計ソフト側で登録済みでないか申請IDで確認する
+
+export type AccountingSyncStatus = 'pending' | 'processing' | 'retrying' | 'succeeded' | 'error'
+
+export type AccountingSyncErrorCode =
+  | 'AUTH_TOKEN_EXPIRED'
+  | 'NETWORK_ERROR'
+  | 'TIMEOUT'
+  | 'RATE_LIMIT_EXCEEDED'
+  | 'DATA_FORMAT_ERROR'
+  | 'SERVER_ERROR'
+  | 'MAPPING_ERROR'
+  | 'CONFIGURATION_ERROR'
+  | 'APPLICATION_NOT_FOUND'
+
+export interface AccountingSyncJob {
+  id: string
+  organization_id: string
+  application_id: string
+  provider: Exclude<AccountingProvider, 'yayoi'>
+  status: AccountingSyncStatus
+  idempotency_key: string
+  application_title: string | null
+  application_type: string | null
+  amount: number
+  attempt_count: number
+  max_attempts: number
+  next_retry_at: string | null
+  last_attempt_at: string | null
+  locked_until: string | null
+  error_code: AccountingSyncErrorCode | null
+  error_message: string | null
+  external_id: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+  accounting_sync_attempts?: AccountingSyncAttempt[]
+}
+
+export interface AccountingSyncAttempt {
+  id: string
+  job_id: string
+  attempt_number: number
+  success: boolean
+  http_status: number | null
+  error_code: AccountingSyncErrorCode | null
+  error_message: string | null
+  request: AccountingExchange['request'] | null
+  response: AccountingExchange['response'] | null
+  duration_ms: number | null
+  started_at: string
+  finished_at: string
+}
+
+export type AccountingSyncJobChanges = Partial<Omit<AccountingSyncJob, 'id' | 'accounting_sync_attempts'>>
+
+export const DEFAULT_MAX_SYNC_ATTEMPTS = 5
+
+export const ACCOUNTING_SYNC_STATUS_LABELS: { [status in AccountingSyncStatus]: string } = {
+  pending: '送信待ち',
+  processing: '送信中',
+  retrying: '再試行待ち',
+  succeeded: '成功',
+  error: '要対応'
+}
+
+export const ACCOUNTING_SYNC_RESOLUTIONS: { [code in AccountingSyncErrorCode]: string } = {
+  AUTH_TOKEN_EXPIRED: 'アクセストークンが無効です。会計連携設定画面から再認証を行ってから再送信してください。',
+  NETWORK_ERROR: '会計ソフトに接続できませんでした。通信環境を確認してください。自動で再送信されます。',
+  TIMEOUT: '会計ソフトからの応答がありませんでした。登録済みでないことを確認してから自動的に再送信されます。',
+  RATE_LIMIT_EXCEEDED: 'APIの利用上限に達しました。時間をおいて自動的に再送信されます。',
+  DATA_FORMAT_ERROR: '会計ソフトが仕訳データを受け付けませんでした。科目設定と申請内容を確認してから再送信してください。',
+  SERVER_ERROR: '会計ソフト側でエラーが発生しました。自動的に再送信されます。',
+  MAPPING_ERROR: '勘定科目・税区分が設定されていない経費区分があります。会計連携設定の科目設定を確認してから再送信してください。',
+  CONFIGURATION_ERROR: '会計ソフトの接続情報が不足しています。会計連携設定画面で事業所IDとアクセストークンを設定してください。',
+  APPLICATION_NOT_FOUND: '送信対象の申請が見つかりません。申請が削除されたか、承認が取り消された可能性があります。'
+}
+
+// 再試行までの待ち時間（1分から倍々に延ばし、最大6時間。集中を避けるため±20%ずらす）
+const RETRY_BASE_MS = 60 * 1000
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000
+
+export function getRetryDelayMs(attempt: number, retryAfterSeconds?: number, random: () => number = Math.random) {
+  const backoff = Math.min(RETRY_BASE_MS * 2 ** Math.max(attempt - 1, 0), RETRY_MAX_MS)
+  const jittered = Math.round(backoff * (0.8 + random() * 0.4))
+  // Retry-After が指定されていればそれより早くは送らない
+  return Math.max(jittered, (retryAfterSeconds || 0) * 1000)
+}
+
+export interface ClassifiedSyncError {
+  code: AccountingSyncErrorCode
+  message: string
+  retryable: boolean
+  status?: number
+  retryAfterSeconds?: number
+  exchange?: AccountingExchange
+}
+
+export function classifySyncError(error: unknown): ClassifiedSyncError {
+  const requestError = error as AccountingRequestError
+  const message = error instanceof Error ? error.message : 'Failed to send journal entry'
+  const base = { message, status: requestError.status, exchange: requestError.exchange, retryAfterSeconds: requestError.retryAfterSeconds }
+
+  if (requestError.timedOut) return { ...base, code: 'TIMEOUT', retryable: true }
+  if (requestError.networkError) return { ...base, code: 'NETWORK_ERROR', retryable: true }
+
+  const status = requestError.status
+  if (status === undefined) {
+    // 送信前の検証エラー（接続情報の不足など）は設定を直すまで再送しない
+    return { ...base, code: 'CONFIGURATION_ERROR', retryable: false }
+  }
+  if (status === 401 || status === 403) return { ...base, code: 'AUTH_TOKEN_EXPIRED', retryable: false }
+  if (status === 429) return { ...base, code: 'RATE_LIMIT_EXCEEDED', retryable: true }
+  if (status === 408) return { ...base, code: 'TIMEOUT', retryable: true }
+  if (status >= 500) return { ...base, code: 'SERVER_ERROR', retryable: true }
+  return { ...base, code: 'DATA_FORMAT_ERROR', retryable: false }
+}
+
+// 同じ申請・同じ承認を二重に送らないためのキー（差し戻し後に再承認された場合は別のジョブになる）
+export function createSyncIdempotencyKey(
+  provider: AccountingProvider,
+  application: { id: string, approved_at?: string | null }
+) {
+  return `${provider}:${application.id}:${application.approved_at ? new Date(application.approved_at).getTime() : 0}`
+}
+
+export interface AccountingSyncStore {
+  // ジョブの組織に属する承認済み申請だけを返す
+  getApplication: (applicationId: string, organizationId: string) => Promise<ExportableApplication | null>
+  recordAttempt: (attempt: Omit<AccountingSyncAttempt, 'id'>) => Promise<void>
+  updateJob: (jobId: string, changes: AccountingSyncJobChanges) => Promise<void>
+}
+
+// ジョブを1回送信し、結果に応じて成功・再試行待ち・要対応に更新する
+export async function processSyncJob(
+  job: AccountingSyncJob,
+  options: {
+    store: AccountingSyncStore
+    settings?: AccountingSettings
+    adapter?: AccountingAdapter
+    now?: () => Date
+    random?: () => number
+  }
+): Promise<AccountingSyncJob> {
+  const now = options.now || (() => new Date())
+  const adapter = options.adapter || getAccountingAdapter(job.provider)
+  const attemptNumber = job.attempt_count + 1
+  const startedAt = now()
+  let exchange: AccountingExchange | undefined
+
+  const finish = async (changes: AccountingSyncJobChanges, attempt: Partial<AccountingSyncAttempt>) => {
+    const finishedAt = now()
+    await options.store.recordAttempt({
+      job_id: job.id,
+      attempt_number: attemptNumber,
+      success: false,
+      http_status: exchange?.response?.status ?? null,
+      error_code: null,
+      error_message: null,
+      request: exchange?.request ?? null,
+      response: exchange?.response ?? null,
+      duration_ms: exchange?.durationMs ?? finishedAt.getTime() - startedAt.getTime(),
+      started_at: startedAt.toISOString(),
+      finished_at: finishedAt.toISOString(),
+      ...attempt
+    })
+    const updated = {
+      ...changes,
+      attempt_count: attemptNumber,
+      last_attempt_at: startedAt.toISOString(),
+      locked_until: null
+    }
+    await options.store.updateJob(job.id, updated)
+    return { ...job, ...updated }
+  }
+
+  const fail = (classified: ClassifiedSyncError) => {
+    const retry = classified.retryable && attemptNumber < job.max_attempts
+    return finish(
+      {
+        status: retry ? 'retrying' : 'error',
+        error_code: classified.code,
+        error_message: classified.message,
+        next_retry_at: retry
+          ? new Date(startedAt.getTime() + getRetryDelayMs(attemptNumber, classified.retryAfterSeconds, options.random)).toISOString()
+          : null
+      },
+      { error_code: classified.code, error_message: classified.message }
+    )
+  }
+
+  if (adapter.delivery !== 'api') {
+    return fail({ code: 'CONFIGURATION_ERROR', message: `${adapter.label}はファイル出力のみ対応しています`, retryable: false })
+  }
+
+  const application = await options.store.getApplication(job.application_id, job.organization_id)
+  if (!application) {
+    return fail({ code: 'APPLICATION_NOT_FOUND', message: '送信対象の申請が見つかりません', retryable: false })
+  }
+
+  const settings = options.settings || { mapping: adapter.defaultMapping, connection: {} }
+  const { rows, errors } = buildJournalRows(buildAccountingExportLines(application), settings.mapping)
+  if (errors.length > 0) {
+    return fail({ code: 'MAPPING_ERROR', message: errors.map(error => error.message).join(' / '), retryable: false })
+  }
+  if (rows.length === 0) {
+    return fail({ code: 'DATA_FORMAT_ERROR', message: '送信する明細がありません', retryable: false })
+  }
+
+  try {
+    const payload = adapter.buildPayload(rows, settings.connection)
+    // 前回の送信（タイムアウト・処理中の中断を含む）が登録済みの可能性があるため、申請IDで照会してから送信する
+    const existing = job.attempt_count > 0 || job.last_attempt_at
+      ? await adapter.findExisting(payload, settings.connection)
+      : null
+    if (!existing) {
+      await options.store.updateJob(job.id, { last_attempt_at: startedAt.toISOString() })
+    }
+    const result = existing || await adapter.send(payload, settings.connection)
+    exchange = result.exchange
+    return await finish(
+      { status: 'succeeded', external_id: result.externalId || null, error_code: null, error_message: null, next_retry_at: null },
+      { success: true }
+    )
+  } catch (error) {
+    const classified = classifySyncError(error)
+    exchange = classified.exchange
+    return fail(classified)
+  }
+}
@@ -0,0 +1,299 @@
+import type { TravelRegulation } from './supabase'
+
+// 出張規程（別表）の役職別支給額
+export interface RegulationPosition {
+  id: string
+  name: string
+  dailyAllowance: number
+  transportationAllowance: number
+  accommodationAllowance: number
+}
+
+// 旅費計算に必要な規程の設定値
+export interface AllowanceSettings {
+  positions: RegulationPosition[]
+  distanceThreshold: number
+  isTransportationRealExpense: boolean
+  isAccommodationRealExpense: boolean
+}
+
+// 見積もりを算出した規程の識別情報
+export interface RegulationReference {
+  id: string | null
+  name: string
+  version: string
+  source: 'regulation' | 'default'
+}
+
+export interface AllowanceLineItem {
+  kind: 'daily_allowance' | 'transportation' | 'accommodation'
+  label: string
+  unitAmount: number
+  quantity: number
+  unit: '日' | '泊'
+  amount: number
+  isRealExpense: boolean
+}
+
+export interface AllowanceEstimate {
+  days: number
+  nights: number
+  isDayTrip: boolean
+  isOverseas?: boolean
+  positionName: string
+  meetsDistanceThreshold: boolean
+  items: AllowanceLineItem[]
+  dailyAllowance: number
+  transportation: number
+  accommodation: number
+  total: number
+  regulation: RegulationReference
+  calculatedAt: string
+}
+
+// Supabase の規程レコード、またはローカル保存された規程データ
+export type RegulationSource = Partial<TravelRegulation> & Partial<AllowanceSettings> & { companyName?: string }
+
+export interface TripEstimateDetails {
+  allowanceEstimate?: AllowanceEstimate | null
+  estimatedDailyAllowance?: number
+  estimatedTransportation?: number
+  estimatedAccommodation?: number
+}
+
+export interface AllowanceInput {
+  regulation: RegulationSource | null | undefined
+  position: string | null | undefined
+  startDate: string
+  endDate: string
+  distanceKm?: number | null
+  isOverseas?: boolean
+  actualTransportation?: number
+  actualAccommodation?: number
+}
+
+// 規程未登録時に使用する標準値（出張規程作成画面の初期値と同一）
+export const DEFAULT_ALLOWANCE_SETTINGS: AllowanceSettings = {
+  positions: [
+    { id: '1', name: '役員', dailyAllowance: 8000, transportationAllowance: 3000, accommodationAllowance: 15000 },
+    { id: '2', name: '管理職', dailyAllowance: 6000, transportationAllowance: 2500, accommodationAllowance: 12000 },
+    { id: '3', name: '一般職', dailyAllowance: 5000, transportationAllowance: 2000, accommodationAllowance: 10000 }
+  ],
+  distanceThreshold: 50,
+  isTransportationRealExpense: false,
+  isAccommodationRealExpense: false
+}
+
+// 海外出張の日当は国内の日当に乗じて求める
+export const OVERSEAS_ALLOWANCE_RATE = 1.5
+
+// 役職名から別表の区分を推定するためのキーワード
+const POSITION_KEYWORDS: { [category: string]: string[] } = {
+  '役員': ['役員', '取締役', '社長', '代表', '会長', '監査役', '執行役'],
+  '管理職': ['管理職', '部長', '課長', '次長', '室長', '所長', '支店長', 'マネージャー', 'マネジャー']
+}
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24
+
+const toNumber = (value: unknown, fallback = 0): number => {
+  const num = typeof value === 'string' ? Number(value) : value
+  return typeof num === 'number' && Number.isFinite(num) ? num : fallback
+}
+
+// 規程レコード（Supabase / ローカル保存のどちらの形式にも対応）から設定値を取り出す
+export function resolveAllowanceSettings(
+  regulation: RegulationSource | null | undefined
+): AllowanceSettings {
+  if (!regulation) return DEFAULT_ALLOWANCE_SETTINGS
+
+  const source: Partial<AllowanceSettings> =
+    regulation.allowance_settings && Object.keys(regulation.allowance_settings).length > 0
+      ? regulation.allowance_settings
+      : regulation
+
+  const positions: RegulationPosition[] = Array.isArray(source.positions)
+    ? source.positions.map((pos: Partial<RegulationPosition>, index: number) => ({
+        id: String(pos.id ?? index + 1),
+        name: String(pos.name ?? ''),
+        dailyAllowance: toNumber(pos.dailyAllowance),
+        transportationAllowance: toNumber(pos.transportationAllowance),
+        accommodationAllowance: toNumber(pos.accommodationAllowance)
+      }))
+    : []
+
+  return {
+    positions: positions.length > 0 ? positions : DEFAULT_ALLOWANCE_SETTINGS.positions,
+    distanceThreshold: toNumber(source.distanceThreshold, DEFAULT_ALLOWANCE_SETTINGS.distanceThreshold),
+    isTransportationRealExpense: Boolean(source.isTransportationRealExpense),
+    isAccommodationRealExpense: Boolean(source.isAccommodationRealExpense)
+  }
+}
+
+export function getRegulationReference(
+  regulation: RegulationSource | null | undefined
+): RegulationReference {
+  if (!regulation) {
+    return { id: null, name: '標準規程', version: 'default', source: 'default' }
+  }
+
+  return {
+    id: regulation.id ? String(regulation.id) : null,
+    name: regulation.name || regulation.companyName || regulation.company_info?.name || '出張旅費規程',
+    version: regulation.version || 'v1.0',
+    source: 'regulation'
+  }
+}
+
+// 運用中の規程を選択する（運用中がなければ最新の下書きを使用）
+export function selectActiveRegulation<T extends { status?: string, created_at?: string, createdAt?: string }>(
+  regulations: T[]
+): T | null {
+  const createdAt = (reg: T) => new Date(reg.created_at || reg.createdAt || 0).getTime()
+  const sorted = [...regulations].sort((a, b) => createdAt(b) - createdAt(a))
+
+  return sorted.find(reg => reg.status === 'active')
+    || sorted.find(reg => reg.status !== 'archived')
+    || null
+}
+
+// 申請者の役職に対応する別表の区分を求める
+export function findPositionAllowance(
+  positions: RegulationPosition[],
+  position: string | null | undefined
+): RegulationPosition {
+  const fallback = positions[positions.length - 1]
+  const name = (position || '').trim()
+  if (!name) return fallback
+
+  const exact = positions.find(pos => pos.name === name)
+  if (exact) return exact
+
+  const partial = positions.find(pos => pos.name && (name.includes(pos.name) || pos.name.includes(name)))
+  if (partial) return partial
+
+  for (const [category, keywords] of Object.entries(POSITION_KEYWORDS)) {
+    if (keywords.some(keyword => name.includes(keyword))) {
+      const matched = positions.find(pos =>
+        pos.name.includes(category) || keywords.some(keyword => pos.name.includes(keyword))
+      )
+      if (matched) return matched
+    }
+  }
+
+  return fallback
+}
+
+// 第6条：日帰り出張は1日、1泊2日は2日として日数を計測する
+export function countTripDays(startDate: string, endDate: string) {
+  if (!startDate || !endDate) return { days: 0, nights: 0 }
+
+  const start = new Date(`${startDate.slice(0, 10)}T00:00:00`)
+  const end = new Date(`${endDate.slice(0, 10)}T00:00:00`)
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) return { days: 0, nights: 0 }
+
+  const nights = Math.round((end.getTime() - start.getTime()) / MS_PER_DAY)
+  if (nights < 0) return { days: 0, nights: 0 }
+
+  return { days: nights + 1, nights }
+}
+
+export function calculateTripAllowance(input: AllowanceInput): AllowanceEstimate {
+  const settings = resolveAllowanceSettings(input.regulation)
+  const reference = getRegulationReference(input.regulation)
+  const position = findPositionAllowance(settings.positions, input.position)
+  const { days, nights } = countTripDays(input.startDate, input.endDate)
+
+  // 第4条：距離基準に満たない移動は出張として扱わない
+  const meetsDistanceThreshold = input.distanceKm == null || input.distanceKm >= settings.distanceThreshold
+  const allowanceDays = meetsDistanceThreshold ? days : 0
+  const dailyAmount = input.isOverseas
+    ? Math.round(position.dailyAllowance * OVERSEAS_ALLOWANCE_RATE)
+    : position.dailyAllowance
+
+  const items: AllowanceLineItem[] = [
+    {
+      kind: 'daily_allowance',
+      label: input.isOverseas ? '出張日当（海外）' : '出張日当',
+      unitAmount: dailyAmount,
+      quantity: allowanceDays,
+      unit: '日',
+      amount: dailyAmount * allowanceDays,
+      isRealExpense: false
+    },
+    settings.isTransportationRealExpense
+      ? {
+          kind: 'transportation',
+          label: '交通費（実費）',
+          unitAmount: 0,
+          quantity: days,
+          unit: '日',
+          amount: Math.max(0, toNumber(input.actualTransportation)),
+          isRealExpense: true
+        }
+      : {
+          kind: 'transportation',
+          label: '交通費',
+          unitAmount: position.transportationAllowance,
+          quantity: days,
+          unit: '日',
+          amount: position.transportationAllowance * days,
+          isRealExpense: false
+        },
+    settings.isAccommodationRealExpense
+      ? {
+          kind: 'accommodation',
+          label: '宿泊料（実費）',
+          unitAmount: 0,
+          quantity: nights,
+          unit: '泊',
+          amount: Math.max(0, toNumber(input.actualAccommodation)),
+          isRealExpense: true
+        }
+      : {
+          kind: 'accommodation',
+          label: '宿泊料',
+          unitAmount: position.accommodationAllowance,
+          quantity: nights,
+          unit: '泊',
+          amount: position.accommodationAllowance * nights,
+          isRealExpense: false
+        }
+  ]
+
+  const amountOf = (kind: AllowanceLineItem['kind']) =>
+    items.find(item => item.kind === kind)?.amount || 0
+
+  const dailyAllowance = amountOf('daily_allowance')
+  const transportation = amountOf('transportation')
+  const accommodation = amountOf('accommodation')
+
+  return {
+    days,
+    nights,
+    isDayTrip: days === 1,
+    isOverseas: Boolean(input.isOverseas),
+    positionName: position.name,
+    meetsDistanceThreshold,
+    items,
+    dailyAllowance,
+    transportation,
+    accommodation,
+    total: dailyAllowance + transportation + accommodation,
+    regulation: reference,
+    calculatedAt: new Date().toISOString()
+  }
+}
+
+// 申請データ上の出張詳細から合計額を求める（見積もりがあればそれを優先）
+export function getTripEstimateTotal(tripDetails: TripEstimateDetails | null | undefined): number {
+  if (tripDetails?.allowanceEstimate && typeof tripDetails.allowanceEstimate.total === 'number') {
+    return tripDetails.allowanceEstimate.total
+  }
+
+  const {
+    estimatedDailyAllowance = 0,
+    estimatedTransportation = 0,
+    estimatedAccommodation = 0
+  } = tripDetails || {}
+  return toNumber(estimatedDailyAllowance) + toNumber(estimatedTransportation) + toNumber(estimatedAccommodation)
+}
@@ -0,0 +1,116 @@
+// 日当支給明細書（承認済みの出張から作成する）
+// 対象の出張と出張開始日に施行されていた規程の版はデータベース側（get_allowance_statement_trips）で施行期間から求め、
+// ここでは見積もりと同じ計算で日当を求めて国内・海外に分ける
+
+import { calculateTripAllowance, getRegulationReference, type AllowanceSettings } from './allowanceCalculator'
+import type { AllowanceDetailContent, AllowanceDetailTrip } from './documentTemplates'
+
+export interface AllowanceStatementTripRow {
+  application_id: string
+  title: string
+  destination: string
+  start_date: string
+  end_date: string
+  is_overseas: boolean
+  regulation_version_id: string
+  regulation_name: string
+  regulation_version: string
+  allowance_settings: Partial<AllowanceSettings> | null
+}
+
+export interface AllowanceStatementTarget {
+  userId: string
+  name: string
+  position: string | null
+}
+
+export interface AllowanceStatementTotals {
+  domesticDays: number
+  domesticAmount: number
+  overseasDays: number
+  overseasAmount: number
+  totalAmount: number
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+// 明細書の期間の翌月を給与の支給月の初期値にする
+export function getDefaultPayrollMonth(periodEnd: string) {
+  const [year, month] = periodEnd.split('-').map(Number)
+  if (!year || !month) return ''
+  return month === 12 ? `${year + 1}-01` : `${year}-${pad(month + 1)}`
+}
+
+// 出張開始日に施行されていた版の支給基準で計算する
+const toTripRegulation = (row: AllowanceStatementTripRow) => ({
+  id: row.regulation_version_id,
+  name: row.regulation_name,
+  version: row.regulation_version,
+  allowance_settings: row.allowance_settings || {}
+})
+
+export function buildAllowanceStatement(input: {
+  rows: AllowanceStatementTripRow[]
+  target: AllowanceStatementTarget
+  period: { start: string, end: string }
+  payrollMonth: string
+}): AllowanceDetailContent {
+  const trips = input.rows.map(row => {
+    const regulation = toTripRegulation(row)
+    const estimate = calculateTripAllowance({
+      regulation,
+      position: input.target.position,
+      startDate: row.start_date,
+      endDate: row.end_date,
+      isOverseas: row.is_overseas
+    })
+    const reference = getRegulationReference(regulation)
+    const trip: AllowanceDetailTrip = {
+      applicationId: row.application_id,
+      date: row.start_date,
+      endDate: row.end_date,
+      destination: row.destination,
+      days: estimate.days,
+      dailyAmount: estimate.items.find(item => item.kind === 'daily_allowance')?.unitAmount || 0,
+      allowance: estimate.dailyAllowance,
+      regulation: `${reference.name} ${reference.version}`
+    }
+    return { trip, isOverseas: row.is_overseas }
+  })
+
+  return {
+    period: input.period,
+    employeeName: input.target.name,
+    position: input.target.position || '',
+    payrollMonth: input.payrollMonth,
+    domesticTrips: trips.filter(({ isOverseas }) => !isOverseas).map(({ trip }) => trip),
+    overseasTrips: trips.filter(({ isOverseas }) => isOverseas).map(({ trip }) => trip)
+  }
+}
+
+export function summarizeAllowanceStatement(detail: AllowanceDetailContent): AllowanceStatementTotals {
+  const sum = (trips: AllowanceDetailTrip[], key: 'days' | 'allowance') => trips.reduce((total, trip) => total + trip[key], 0)
+  const domesticAmount = sum(detail.domesticTrips, 'allowance')
+  const overseasAmount = sum(detail.overseasTrips, 'allowance')
+
+  return {
+    domesticDays: sum(detail.domesticTrips, 'days'),
+    domesticAmount,
+    overseasDays: sum(detail.overseasTrips, 'days'),
+    overseasAmount,
+    totalAmount: domesticAmount + overseasAmount
+  }
+}
+
+// データベースの関数のエラーを画面表示用の文言にする
+const STATEMENT_ERROR_MESSAGES: { [message: string]: string } = {
+  'Authentication required': 'ログインしてください',
+  'Not allowed to view allowance statement': '他の社員の日当支給明細書を作成する権限がありません',
+  'Invalid statement period': '対象期間が正しくありません',
+  'No travel regulation in effect for the trip': '出張開始日に施行されていた出張旅費規程がない出張があるため作成できません'
+}
+
+export function toAllowanceStatementErrorMessage(message: string | undefined) {
+  if (message && STATEMENT_ERROR_MESSAGES[message]) return STATEMENT_ERROR_MESSAGES[message]
+  return message || '日当支給明細書の作成に失敗しました'
+}
@@ -0,0 +1,132 @@
+// 申請データの集計
+// 集計はデータベース側（get_application_analytics）で行い、ここでは画面で使う形に変換する
+
+export type AnalyticsMetric = 'total_amount' | 'application_count' | 'approval_rate' | 'processing_time'
+
+export type AnalyticsGroupBy = 'month' | 'department' | 'type' | 'category' | 'status'
+
+// organization: 組織全体（オーナー・管理者のみ）、self: 自分の申請のみ
+export type AnalyticsScope = 'organization' | 'self'
+
+export const ANALYTICS_METRICS: AnalyticsMetric[] = ['total_amount', 'application_count', 'approval_rate', 'processing_time']
+
+export interface AnalyticsResponse {
+  summary: {
+    total_amount: number
+    application_count: number
+    pending_count: number
+    approved_count: number
+    rejected_count: number
+    returned_count: number
+    average_amount: number
+    approval_rate: number | null
+    average_processing_hours: number | null
+  }
+  monthly: {
+    month: string
+    total_amount: number
+    application_count: number
+    business_trip_amount: number
+    expense_amount: number
+    categories: { [category: string]: number }
+  }[]
+  by_department: { department: string, application_count: number, total_amount: number, approved_count: number }[]
+  by_type: { type: 'business_trip' | 'expense', application_count: number, total_amount: number }[]
+  by_category: { category: string, line_count: number, amount: number }[]
+  grouped: ({ key: string, approved_count: number } & Partial<{ [metric in AnalyticsMetric]: number | null }>)[] | null
+  generated_at: string
+}
+
+export interface AnalyticsGroupStats {
+  count: number
+  totalAmount: number
+  approvedCount: number
+  approvalRate: number | null
+  averageProcessingHours: number | null
+}
+
+export interface AnalyticsData {
+  summary: {
+    monthlyTotal: number
+    monthlyCount: number
+    pendingCount: number
+    approvedCount: number
+    averageAmount: number
+    rejectedCount: number
+    returnedCount: number
+    approvalRate: number | null
+    averageProcessingHours: number | null
+  }
+  trends: {
+    monthly: { [key: string]: { total: number, count: number, businessTrip: number, expense: number, categories: { [category: string]: number } } }
+  }
+  breakdowns: {
+    byDepartment: { [key: string]: number }
+    byType: { [key: string]: { count: number, total: number } }
+    byCategory: { [key: string]: number }
+  }
+  // groupBy を指定した場合のみ
+  groupedData?: { [key: string]: AnalyticsGroupStats }
+  generatedAt: string
+}
+
+// numeric 型は文字列で返る場合があるため数値に揃える
+const toNumber = (value: number | string | null | undefined) => Number(value || 0)
+const toNullableNumber = (value: number | string | null | undefined) =>
+  value === null || value === undefined ? null : Number(value)
+
+export function toAnalyticsData(response: AnalyticsResponse): AnalyticsData {
+  const { summary } = response
+
+  return {
+    summary: {
+      monthlyTotal: toNumber(summary.total_amount),
+      monthlyCount: toNumber(summary.application_count),
+      pendingCount: toNumber(summary.pending_count),
+      approvedCount: toNumber(summary.approved_count),
+      averageAmount: toNumber(summary.average_amount),
+      rejectedCount: toNumber(summary.rejected_count),
+      returnedCount: toNumber(summary.returned_count),
+      approvalRate: toNullableNumber(summary.approval_rate),
+      averageProcessingHours: toNullableNumber(summary.average_processing_hours)
+    },
+    trends: {
+      monthly: Object.fromEntries(response.monthly.map(month => [month.month, {
+        total: toNumber(month.total_amount),
+        count: toNumber(month.application_count),
+        businessTrip: toNumber(month.business_trip_amount),
+        expense: toNumber(month.expense_amount),
+        categories: Object.fromEntries(Object.entries(month.categories || {}).map(([category, amount]) => [category, toNumber(amount)]))
+      }]))
+    },
+    breakdowns: {
+      byDepartment: Object.fromEntries(response.by_department.map(row => [row.department, toNumber(row.total_amount)])),
+      byType: Object.fromEntries(response.by_type.map(row => [row.type, { count: toNumber(row.application_count), total: toNumber(row.total_amount) }])),
+      byCategory: Object.fromEntries(response.by_category.map(row => [row.category, toNumber(row.amount)]))
+    },
+    groupedData: response.grouped
+      ? Object.fromEntries(response.grouped.map(row => [row.key, {
+        count: toNumber(row.application_count),
+        totalAmount: toNumber(row.total_amount),
+        approvedCount: toNumber(row.approved_count),
+        approvalRate: toNullableNumber(row.approval_rate),
+        averageProcessingHours: toNullableNumber(row.processing_time)
+      }]))
+      : undefined,
+    generatedAt: response.generated_at
+  }
+}
+
+// 日本時間の年月（YYYY-MM）。monthly のキーと同じ形式
+export function toAnalyticsMonth(date: Date) {
+  const tokyo = new Date(date.getTime() + 9 * 60 * 60 * 1000)
+  return `${tokyo.getUTCFullYear()}-${String(tokyo.getUTCMonth() + 1).padStart(2, '0')}`
+}
+
+// 指定した月数分（当月を含む）の期間
+export function getRecentMonthsRange(months: number, now: Date = new Date()) {
+  const [year, month] = toAnalyticsMonth(now).split('-').map(Number)
+  // 日本時間の月初0時（UTC では前日15時）
+  const start = new Date(Date.UTC(year, month - months, 1) - 9 * 60 * 60 * 1000)
+  return { start: start.toISOString(), end: now.toISOString() }
+}
@@ -0,0 +1,175 @@
+// 申請のステータスと遷移
+// 遷移の検証と履歴の記録はデータベース（application_transition_action と applications のトリガー）で行う。この定義は画面の表示用で、SQL側と同じ規則にすること
+
+import type { ApprovalStepDefinition } from './approvalRoutes'
+
+export type ApplicationStatus = 'draft' | 'pending' | 'approved' | 'rejected' | 'returned' | 'withdrawn' | 'cancelled'
+
+export type ApplicationAction = 'create' | 'submit' | 'approve_step' | 'approve' | 'reject' | 'return' | 'reopen' | 'withdraw' | 'cancel'
+
+// 申請者・管理者が transition_application で行う操作（承認・否認・差戻しは advance_approval）
+export type ApplicantAction = 'submit' | 'reopen' | 'withdraw' | 'cancel'
+
+interface Transition {
+  from: ApplicationStatus[]
+  to: ApplicationStatus
+}
+
+export const APPLICATION_TRANSITIONS: { [action in Exclude<ApplicationAction, 'create' | 'approve_step'>]: Transition } = {
+  submit: { from: ['draft'], to: 'pending' },
+  approve: { from: ['pending'], to: 'approved' },
+  reject: { from: ['pending'], to: 'rejected' },
+  return: { from: ['pending'], to: 'returned' },
+  reopen: { from: ['returned'], to: 'draft' },
+  withdraw: { from: ['draft', 'pending', 'returned'], to: 'withdrawn' },
+  cancel: { from: ['approved'], to: 'cancelled' }
+}
+
+export const APPLICATION_STATUS_LABELS: { [status in ApplicationStatus]: string } = {
+  draft: '下書き',
+  pending: '承認待ち',
+  approved: '承認済み',
+  rejected: '否認',
+  returned: '差戻し',
+  withdrawn: '取り下げ',
+  cancelled: '取消'
+}
+
+export const APPLICATION_STATUS_COLORS: { [status in ApplicationStatus]: string } = {
+  draft: 'text-slate-700 bg-slate-100',
+  pending: 'text-amber-700 bg-amber-100',
+  approved: 'text-emerald-700 bg-emerald-100',
+  rejected: 'text-red-700 bg-red-100',
+  returned: 'text-orange-700 bg-orange-100',
+  withdrawn: 'text-slate-600 bg-slate-200',
+  cancelled: 'text-purple-700 bg-purple-100'
+}
+
+export const APPLICATION_ACTION_LABELS: { [action in ApplicationAction]: string } = {
+  create: '下書き作成',
+  submit: '申請提出',
+  approve_step: '承認',
+  approve: '最終承認',
+  reject: '否認',
+  return: '差戻し',
+  reopen: '再編集',
+  withdraw: '取り下げ',
+  cancel: '承認取消'
+}
+
+// 取消は理由の入力が必須（データベース側でも確認する）
+export const ACTIONS_REQUIRING_COMMENT: ApplicantAction[] = ['cancel']
+
+export function getApplicationStatusLabel(status: string) {
+  return APPLICATION_STATUS_LABELS[status as ApplicationStatus] || status
+}
+
+export function getApplicationStatusColor(status: string) {
+  return APPLICATION_STATUS_COLORS[status as ApplicationStatus] || 'text-slate-700 bg-slate-100'
+}
+
+export function canTransition(status: string, action: Exclude<ApplicationAction, 'create' | 'approve_step'>) {
+  return APPLICATION_TRANSITIONS[action].from.includes(status as ApplicationStatus)
+}
+
+// 現在のステータスで表示する操作（承認後の取消は申請者と cancel_applications 権限を持つユーザー）
+export function getAvailableActions(
+  status: string,
+  options: { isApplicant: boolean, canCancel: boolean }
+): ApplicantAction[] {
+  const actions: ApplicantAction[] = [
+    ...(options.isApplicant ? ['submit', 'reopen', 'withdraw'] as ApplicantAction[] : []),
+    ...(options.isApplicant || options.canCancel ? ['cancel'] as ApplicantAction[] : [])
+  ]
+  return actions.filter(action => canTransition(status, action))
+}
+
+export interface ApplicationStatusEvent {
+  id: string
+  application_id: string
+  action: ApplicationAction
+  from_status: ApplicationStatus | null
+  to_status: ApplicationStatus
+  step: number | null
+  actor_id: string | null
+  actor_name: string | null
+  comment: string | null
+  created_at: string
+}
+
+export type TimelineItemState = 'completed' | 'current' | 'waiting' | 'rejected' | 'returned' | 'closed'
+
+export interface TimelineItem {
+  key: string
+  label: string
+  state: TimelineItemState
+  actor: string | null
+  comment: string | null
+  date: string | null
+}
+
+const EVENT_STATES: { [action in ApplicationAction]: TimelineItemState } = {
+  create: 'completed',
+  submit: 'completed',
+  approve_step: 'completed',
+  approve: 'completed',
+  reject: 'rejected',
+  return: 'returned',
+  reopen: 'completed',
+  withdraw: 'closed',
+  cancel: 'closed'
+}
+
+// 監査履歴から承認状況のタイムラインを組み立てる
+// 承認待ちの場合は現在のステップ以降の承認者を未処理として後ろに並べる
+export function buildApplicationTimeline(
+  events: ApplicationStatusEvent[],
+  application: { status: string, approval_steps?: ApprovalStepDefinition[] | null, current_step?: number | null }
+): TimelineItem[] {
+  const items: TimelineItem[] = [...events]
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    .map(event => {
+      const stepName = event.step ? application.approval_steps?.[event.step - 1]?.name : undefined
+      return {
+        key: event.id,
+        label: event.action === 'approve_step' && stepName ? stepName : APPLICATION_ACTION_LABELS[event.action],
+        state: EVENT_STATES[event.action],
+        actor: event.actor_name,
+        comment: event.comment,
+        date: event.created_at
+      }
+    })
+
+  if (application.status === 'pending' && application.approval_steps) {
+    const currentStep = application.current_step || 1
+    application.approval_steps.slice(currentStep - 1).forEach((step, index) => {
+      items.push({
+        key: `step-${currentStep + index}`,
+        label: step.name,
+        state: index === 0 ? 'current' : 'waiting',
+        actor: null,
+        comment: null,
+        date: null
+      })
+    })
+  }
+
+  return items
+}
+
+// データベースの関数のエラーを画面表示用の文言にする
+const TRANSITION_ERROR_MESSAGES: { [message: string]: string } = {
+  'Authentication required': 'ログインしてください',
+  'Application not found': '申請が見つかりません',
+  'Not allowed to change this application': 'この申請を変更する権限がありません',
+  'A comment is required for cancel actions': '取消の理由を入力してください',
+  'Not a member of the organization': '所属していない組織の申請は作成・提出できません'
+}
+
+export function toTransitionErrorMessage(message: string | undefined) {
+  if (message && TRANSITION_ERROR_MESSAGES[message]) return TRANSITION_ERROR_MESSAGES[message]
+  if (message?.startsWith('Cannot ') || message?.startsWith('Invalid status transition')) {
+    return '現在のステータスではこの操作はできません。画面を更新してください'
+  }
+  return message || '処理に失敗しました'
+}
@@ -0,0 +1,90 @@
+// 申請の詳細検索
+// 条件はデータベース側（search_applications）で絞り込み、ここでは検索条件の型と変換を扱う
+
+export type SearchStatus = 'all' | 'draft' | 'pending' | 'approved' | 'rejected' | 'returned' | 'withdrawn' | 'cancelled'
+
+export type SearchApplicationType = 'all' | 'business_trip' | 'expense'
+
+// organization: 組織全体（オーナー・管理者のみ）、self: 自分の申請のみ
+export type SearchScope = 'organization' | 'self'
+
+export interface SearchFilters {
+  keyword: string
+  dateRange: { start: string, end: string }
+  applicant: string
+  department: string
+  status: SearchStatus
+  type: SearchApplicationType
+  // 0 は指定なし
+  amountRange: { min: number, max: number }
+  // application_tags の id
+  tags: string[]
+}
+
+export interface SavedSearchFilter {
+  id: string
+  name: string
+  filters: SearchFilters
+  createdAt: string
+}
+
+export interface ApplicationTag {
+  id: string
+  name: string
+  color: string
+}
+
+export const APPLICATION_TAG_COLORS: { [color: string]: string } = {
+  slate: 'text-slate-700 bg-slate-100',
+  navy: 'text-navy-700 bg-navy-100',
+  emerald: 'text-emerald-700 bg-emerald-100',
+  amber: 'text-amber-700 bg-amber-100',
+  red: 'text-red-700 bg-red-100'
+}
+
+export const SEARCH_PAGE_SIZE = 50
+
+export const createEmptySearchFilters = (): SearchFilters => ({
+  keyword: '',
+  dateRange: { start: '', end: '' },
+  applicant: '',
+  department: '',
+  status: 'all',
+  type: 'all',
+  amountRange: { min: 0, max: 0 },
+  tags: []
+})
+
+// 保存済みの条件（jsonb）を現在の形に揃える（項目の追加前に保存された条件にも対応する）
+export function normalizeSearchFilters(value: unknown): SearchFilters {
+  const defaults = createEmptySearchFilters()
+  const saved = (value && typeof value === 'object' ? value : {}) as Partial<SearchFilters>
+  return {
+    ...defaults,
+    ...saved,
+    dateRange: { ...defaults.dateRange, ...saved.dateRange },
+    amountRange: { ...defaults.amountRange, ...saved.amountRange },
+    tags: Array.isArray(saved.tags) ? saved.tags : []
+  }
+}
+
+export function hasSearchConditions(filters: SearchFilters) {
+  const defaults = createEmptySearchFilters()
+  return JSON.stringify(normalizeSearchFilters(filters)) !== JSON.stringify(defaults)
+}
+
+// search_applications の引数に変換する（未指定の条件は null）
+export function toSearchParams(filters: SearchFilters) {
+  return {
+    p_keyword: filters.keyword.trim() || null,
+    p_start: filters.dateRange.start || null,
+    p_end: filters.dateRange.end || null,
+    p_applicant: filters.applicant.trim() || null,
+    p_department: filters.department || null,
+    p_status: filters.status === 'all' ? null : filters.status,
+    p_type: filters.type === 'all' ? null : filters.type,
+    p_min_amount: filters.amountRange.min > 0 ? filters.amountRange.min : null,
+    p_max_amount: filters.amountRange.max > 0 ? filters.amountRange.max : null,
+    p_tag_ids: filters.tags.length > 0 ? filters.tags : null
+  }
+}
@@ -0,0 +1,125 @@
+// 外部承認リンク
+// アカウントを持たない承認者に、1件の申請・1つの承認ステップに限定した1回限りのURLを送る
+// トークンの署名・検証はデータベース側で行い、クライアントは受け渡しのみ行う
+
+export type ApprovalLinkInvalidReason = 'invalid' | 'expired' | 'used' | 'revoked' | 'closed'
+
+export type ApprovalLinkAction = 'approved' | 'rejected' | 'returned'
+
+export const APPROVAL_LINK_EXPIRY_OPTIONS = [
+  { hours: 24, label: '24時間' },
+  { hours: 72, label: '3日間' },
+  { hours: 168, label: '7日間' }
+]
+
+export const DEFAULT_APPROVAL_LINK_EXPIRY_HOURS = 24
+
+export const APPROVAL_LINK_INVALID_MESSAGES: { [reason in ApprovalLinkInvalidReason]: { title: string, description: string } } = {
+  invalid: {
+    title: '承認リンクが無効です',
+    description: 'リンクが正しくないか、一部が欠けている可能性があります。受け取ったメールのリンクをそのまま開いてください。'
+  },
+  expired: {
+    title: '承認リンクの有効期限が切れています',
+    description: 'セキュリティのため、承認リンクには有効期限が設定されています。'
+  },
+  used: {
+    title: 'この承認リンクは使用済みです',
+    description: '承認リンクは1回のみ使用できます。この申請はすでに処理されています。'
+  },
+  revoked: {
+    title: '承認リンクは取り消されました',
+    description: 'リンクの発行者または承認者によって、この承認リンクは取り消されています。'
+  },
+  closed: {
+    title: 'この申請は承認待ちではありません',
+    description: '申請が取り下げられたか、他の承認者によってすでに処理されています。承認ルートの変更により無効になった場合は、発行者に再発行を依頼してください。'
+  }
+}
+
+export interface ApprovalLinkIssued {
+  link_id: string
+  token: string
+  step: number
+  expires_at: string
+}
+
+// 発行済みのリンク（トークンは含まない）
+export interface ApprovalLinkSummary {
+  id: string
+  step: number
+  approver_name: string
+  approver_email: string | null
+  expires_at: string
+  used_at: string | null
+  revoked_at: string | null
+  created_by: string | null
+  created_at: string
+}
+
+// 未使用・未取り消し・期限内のリンク
+export function isApprovalLinkActive(link: ApprovalLinkSummary, now: Date = new Date()) {
+  return !link.used_at && !link.revoked_at && new Date(link.expires_at).getTime() > now.getTime()
+}
+
+export interface ApprovalLinkApplication {
+  id: string
+  type: 'business_trip' | 'expense'
+  title: string
+  description: string | null
+  total_amount: number
+  submitted_at: string | null
+  created_at: string
+  applicant: { full_name: string | null, department: string | null } | null
+  business_trip_details: {
+    start_date: string
+    end_date: string
+    purpose: string
+    estimated_daily_allowance: number
+    estimated_transportation: number
+    estimated_accommodation: number
+  }[]
+  expense_items: {
+    category: string | null
+    date: string
+    amount: number
+    description: string | null
+  }[]
+}
+
+export type ApprovalLinkDetails =
+  | {
+    valid: true
+    link: { approver_name: string, step: number, step_name: string | null, expires_at: string }
+    application: ApprovalLinkApplication
+  }
+  | {
+    valid: false
+    reason: ApprovalLinkInvalidReason
+    application_id?: string
+    expires_at?: string
+    used_at?: string | null
+  }
+
+export type ApprovalLinkDecisionResult =
+  | { success: true, status: string, step: number, total_steps: number, application_id: string }
+  | { success: false, reason: ApprovalLinkInvalidReason, application_id?: string, expires_at?: string, used_at?: string | null }
+
+const TOKEN_PARAM = 'approval_token'
+
+export function buildApprovalLinkUrl(token: string, origin: string = window.location.origin) {
+  const url = new URL('/', origin)
+  url.searchParams.set(TOKEN_PARAM, token)
+  return url.toString()
+}
+
+export function getApprovalTokenFromUrl(search: string = window.location.search) {
+  return new URLSearchParams(search).get(TOKEN_PARAM)
+}
+
+// 処理後にトークンがアドレスバーや履歴に残らないようにする
+export function clearApprovalTokenFromUrl() {
+  const url = new URL(window.location.href)
+  url.searchParams.delete(TOKEN_PARAM)
+  window.history.replaceState(null, '', url.toString())
+}
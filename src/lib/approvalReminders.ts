@@ -0,0 +1,80 @@
+// 承認リマインド
+// ルールは reminder_rules、全体設定は organizations.settings.reminders に保存し、
+// 定期実行（process_approval_reminders）が通知とメール送信ジョブを作成する
+
+import type { ReminderRule } from './supabase'
+
+export type ReminderNotificationMethod = 'email' | 'push'
+
+export interface ReminderSettings {
+  enabled: boolean
+  businessHoursOnly: boolean
+  startTime: string
+  endTime: string
+  excludeWeekends: boolean
+  excludeHolidays: boolean
+}
+
+export interface ReminderRuleForm {
+  id: string
+  name: string
+  enabled: boolean
+  triggerDays: number
+  // 0 = 再通知なし, 1 = 毎日, 7 = 毎週
+  repeatInterval: number
+  targetRoles: string[]
+  notificationMethods: ReminderNotificationMethod[]
+  customMessage: string
+  // 一つ上の役職（該当がなければ組織のオーナー・管理者）にも通知する
+  escalate: boolean
+}
+
+export interface ReminderRunResult {
+  applications: number
+  notifications: number
+  emails: number
+}
+
+// 管理者は組織のオーナー・管理者ロール、それ以外は承認ステップの役職と照合する
+export const REMINDER_TARGET_ROLES = ['課長', '部長', '本部長', '取締役', '管理者', '経理']
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: true,
+  businessHoursOnly: true,
+  startTime: '09:00',
+  endTime: '18:00',
+  excludeWeekends: true,
+  excludeHolidays: true
+}
+
+export function normalizeReminderSettings(value: unknown): ReminderSettings {
+  const saved = (value && typeof value === 'object' ? value : {}) as Partial<ReminderSettings>
+  return { ...DEFAULT_REMINDER_SETTINGS, ...saved }
+}
+
+export const toReminderRuleForm = (rule: ReminderRule): ReminderRuleForm => ({
+  id: rule.id,
+  name: rule.name,
+  enabled: rule.enabled,
+  triggerDays: rule.trigger_days,
+  repeatInterval: rule.repeat_interval,
+  targetRoles: rule.target_roles || [],
+  notificationMethods: (rule.notification_methods || []).filter(
+    (method): method is ReminderNotificationMethod => method === 'email' || method === 'push'
+  ),
+  customMessage: rule.custom_message || '',
+  escalate: rule.escalate
+})
+
+export const toReminderRuleRow = (organizationId: string, rule: ReminderRuleForm) => ({
+  id: rule.id,
+  organization_id: organizationId,
+  name: rule.name.trim() || '無題のルール',
+  enabled: rule.enabled,
+  trigger_days: rule.triggerDays,
+  repeat_interval: rule.repeatInterval,
+  target_roles: rule.targetRoles,
+  notification_methods: rule.notificationMethods,
+  custom_message: rule.customMessage,
+  escalate: rule.escalate
+})
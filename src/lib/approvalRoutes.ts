@@ -0,0 +1,138 @@
+// 承認ステップの承認者指定
+// position: 役職名（user_profiles.position）、role: 組織内ロール、user: 特定ユーザー
+export interface ApprovalStepDefinition {
+  name: string
+  approver_type: 'position' | 'role' | 'user'
+  approver_value: string
+}
+
+// 一定金額以上の申請に追加される承認ステップ
+export interface ApprovalAmountThreshold {
+  min_amount: number
+  step: ApprovalStepDefinition
+}
+
+export interface ApprovalRoute {
+  id: string
+  organization_id: string | null
+  name: string
+  application_type: 'business_trip' | 'expense' | null
+  steps: ApprovalStepDefinition[]
+  amount_thresholds: ApprovalAmountThreshold[]
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+// 申請に割り当てられた承認ステップ（step は1始まり）
+export interface ResolvedApprovalStep extends ApprovalStepDefinition {
+  step: number
+}
+
+export interface ApprovalRecord {
+  id: string
+  application_id: string
+  approver_id: string | null
+  step: number
+  status: 'pending' | 'approved' | 'rejected' | 'returned'
+  comment: string | null
+  approved_at: string | null
+  created_at: string
+  // 外部承認リンクで承認された場合はリンクIDと承認者名が入る
+  approval_link_id?: string | null
+  external_approver_name?: string | null
+  approver_name?: string | null
+}
+
+export type ApprovalStepState = 'completed' | 'current' | 'waiting' | 'rejected' | 'returned'
+
+export interface ApprovalStepProgress extends ResolvedApprovalStep {
+  state: ApprovalStepState
+  records: ApprovalRecord[]
+}
+
+// 組織に承認ルートが未設定の場合の標準ルート（課長 → 部長 → 経理、10万円以上は取締役承認を追加）
+export const DEFAULT_APPROVAL_ROUTE: Omit<ApprovalRoute, 'id' | 'organization_id' | 'created_at' | 'updated_at'> = {
+  name: '標準承認ルート',
+  application_type: null,
+  steps: [
+    { name: '課長承認', approver_type: 'position', approver_value: '課長' },
+    { name: '部長承認', approver_type: 'position', approver_value: '部長' },
+    { name: '経理確認', approver_type: 'position', approver_value: '経理' }
+  ],
+  amount_thresholds: [
+    { min_amount: 100000, step: { name: '取締役承認', approver_type: 'position', approver_value: '取締役' } }
+  ],
+  is_active: true
+}
+
+// 申請種別に一致する有効なルートを選択する（種別指定のあるルートを優先）
+export function selectApprovalRoute<T extends Pick<ApprovalRoute, 'application_type' | 'is_active'>>(
+  routes: T[],
+  applicationType: 'business_trip' | 'expense'
+): T | null {
+  const active = routes.filter(route => route.is_active)
+  return active.find(route => route.application_type === applicationType)
+    || active.find(route => route.application_type === null)
+    || null
+}
+
+// 金額に応じて追加ステップを含めた承認ステップを組み立てる
+// 追加ステップは基準額の昇順で通常ステップの後ろに並ぶ（SQL側の assign_approval_route と同じ規則）
+export function resolveApprovalSteps(
+  route: Pick<ApprovalRoute, 'steps' | 'amount_thresholds'>,
+  amount: number
+): ResolvedApprovalStep[] {
+  const thresholdSteps = [...(route.amount_thresholds || [])]
+    .filter(threshold => amount >= threshold.min_amount)
+    .sort((a, b) => a.min_amount - b.min_amount)
+    .map(threshold => threshold.step)
+
+  return [...(route.steps || []), ...thresholdSteps].map((step, index) => ({
+    ...step,
+    step: index + 1
+  }))
+}
+
+// 承認履歴と現在のステップから各ステップの状態を求める
+export function buildApprovalProgress(
+  steps: ResolvedApprovalStep[],
+  approvals: ApprovalRecord[],
+  currentStep: number,
+  applicationStatus: string
+): ApprovalStepProgress[] {
+  return steps.map(step => {
+    const records = approvals
+      .filter(record => record.step === step.step)
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    const latest = records[records.length - 1]
+
+    let state: ApprovalStepState = 'waiting'
+    if (applicationStatus === 'approved' || step.step < currentStep) {
+      state = 'completed'
+    } else if (step.step === currentStep) {
+      if (latest?.status === 'rejected' && applicationStatus === 'rejected') {
+        state = 'rejected'
+      } else if (latest?.status === 'returned' && applicationStatus === 'returned') {
+        state = 'returned'
+      } else if (applicationStatus === 'pending') {
+        state = 'current'
+      }
+    }
+
+    return { ...step, state, records }
+  })
+}
+
+export function describeApprover(step: ApprovalStepDefinition): string {
+  switch (step.approver_type) {
+    case 'position':
+      return `役職: ${step.approver_value}`
+    case 'role':
+      return `ロール: ${step.approver_value}`
+    case 'user':
+      return '指定ユーザー'
+    default:
+      return ''
+  }
+}
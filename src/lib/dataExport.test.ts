@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+import { exportRows, paginate, type ExportColumn } from './dataExport'
+import { crc32 } from './zip'
+
+interface Row {
+  id: string
+  title: string
+  amount: number | null
+}
+
+const columns: ExportColumn<Row>[] = [
+  { key: 'id', label: '申請ID', value: row => row.id },
+  { key: 'title', label: '件名', value: row => row.title, width: 30 },
+  { key: 'amount', label: '金額', value: row => row.amount, type: 'number' }
+]
+
+const rows: Row[] = [
+  { id: 'A-1', title: '大阪出張, 宿泊 "2泊"', amount: 33000 },
+  { id: 'A-2', title: '=SUM(A1:A2)', amount: null },
+  { id: 'A-3', title: '<会議> & 懇親会', amount: 5500 }
+]
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer())
+
+// 無圧縮（STORE）のZIPからファイル名と内容を取り出す
+const readZip = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const decoder = new TextDecoder()
+  const files = new Map<string, string>()
+  let offset = 0
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const crc = view.getUint32(offset + 14, true)
+    const size = view.getUint32(offset + 18, true)
+    const nameLength = view.getUint16(offset + 26, true)
+    const extraLength = view.getUint16(offset + 28, true)
+    const name = decoder.decode(bytes.subarray(offset + 30, offset + 30 + nameLength))
+    const start = offset + 30 + nameLength + extraLength
+    const data = bytes.subarray(start, start + size)
+    expect(crc32(data)).toBe(crc)
+    files.set(name, decoder.decode(data))
+    offset = start + size
+  }
+  return files
+}
+
+describe('exportRows', () => {
+  it('writes UTF-8 CSV with a BOM, quoting and formula neutralization', async () => {
+    const result = await exportRows(rows, { columns, format: 'csv-utf8', fileName: '申請 一覧' })
+    const bytes = await bytesOf(result.blob)
+
+    expect(Array.from(bytes.slice(0, 3))).toEqual([0xef, 0xbb, 0xbf])
+    expect(new TextDecoder().decode(bytes.slice(3))).toBe([
+      '申請ID,件名,金額',
+      'A-1,"大阪出張, 宿泊 ""2泊""",33000',
+      "A-2,'=SUM(A1:A2),",
+      'A-3,<会議> & 懇親会,5500',
+      ''
+    ].join('\r\n'))
+    expect(result).toMatchObject({ fileName: '申請_一覧.csv', mimeType: 'text/csv;charset=utf-8', rowCount: 3 })
+  })
+
+  it('writes Shift_JIS CSV without a BOM', async () => {
+    const result = await exportRows(rows.slice(0, 1), { columns, format: 'csv-sjis', fileName: 'list' })
+    const bytes = await bytesOf(result.blob)
+
+    expect(bytes[0]).not.toBe(0xef)
+    expect(new TextDecoder('shift_jis').decode(bytes)).toBe('申請ID,件名,金額\r\nA-1,"大阪出張, 宿泊 ""2泊""",33000\r\n')
+    expect(result.mimeType).toBe('text/csv;charset=shift_jis')
+  })
+
+  it('writes an xlsx package with a header row, inline strings and number cells', async () => {
+    const result = await exportRows(rows, { columns, format: 'xlsx', fileName: 'list', sheetName: '申請一覧/2026[10]' })
+    const files = readZip(await bytesOf(result.blob))
+
+    expect([...files.keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml'
+    ])
+    expect(files.get('xl/workbook.xml')).toContain('<sheet name="申請一覧_2026_10_" sheetId="1" r:id="rId1"/>')
+
+    const sheet = files.get('xl/worksheets/sheet1.xml') as string
+    expect(sheet).toContain('<col min="2" max="2" width="30" customWidth="1"/>')
+    expect(sheet).toContain('<row r="1"><c r="A1" t="inlineStr" s="1"><is><t xml:space="preserve">申請ID</t></is></c>')
+    expect(sheet).toContain('<c r="B2" t="inlineStr"><is><t xml:space="preserve">大阪出張, 宿泊 &quot;2泊&quot;</t></is></c><c r="C2" s="2"><v>33000</v></c></row>')
+    // 空のセルは出力しない
+    expect(sheet).toContain('<row r="3"><c r="A3" t="inlineStr"><is><t xml:space="preserve">A-2</t></is></c><c r="B3" t="inlineStr"><is><t xml:space="preserve">=SUM(A1:A2)</t></is></c></row>')
+    expect(sheet).toContain('&lt;会議&gt; &amp; 懇親会')
+    expect(sheet.endsWith('</sheetData></worksheet>')).toBe(true)
+    expect(result).toMatchObject({
+      fileName: 'list.xlsx',
+      mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      rowCount: 3
+    })
+  })
+
+  it('reads pages from an async source and reports progress', async () => {
+    const requested: [number, number][] = []
+    const source = paginate(async (from, to) => {
+      requested.push([from, to])
+      return Array.from({ length: Math.max(0, Math.min(to, 4) - from + 1) }, (_, index) => ({
+        id: `P-${from + index}`,
+        title: 'ページ',
+        amount: from + index
+      }))
+    }, 2)
+    const progress: number[] = []
+
+    const result = await exportRows(source, { columns, format: 'xlsx', fileName: 'all', onProgress: count => progress.push(count) })
+    const sheet = readZip(await bytesOf(result.blob)).get('xl/worksheets/sheet1.xml') as string
+
+    expect(requested).toEqual([[0, 1], [2, 3], [4, 5]])
+    expect(progress).toEqual([2, 4, 5])
+    expect(result.rowCount).toBe(5)
+    expect(sheet).toContain('<row r="6"><c r="A6" t="inlineStr"><is><t xml:space="preserve">P-4</t></is></c>')
+  })
+
+  it('requires at least one column', async () => {
+    await expect(exportRows(rows, { columns: [], format: 'xlsx', fileName: 'list' })).rejects.toThrow('出力する列を1つ以上選択してください')
+  })
+})
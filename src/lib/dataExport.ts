@@ -0,0 +1,139 @@
+import type { GeneratedFile } from './documentGenerator'
+import { encodeShiftJis } from './shiftJis'
+import { createXlsxWriter, type XlsxCellValue } from './xlsxWriter'
+
+// 一覧のCSV・Excel出力
+// 行はページ単位で受け取り、受け取るたびにバイト列へ変換する（全件を配列で保持しない）
+
+export type ExportFormat = 'csv-utf8' | 'csv-sjis' | 'xlsx'
+
+export const EXPORT_FORMAT_LABELS: { [format in ExportFormat]: string } = {
+  'csv-utf8': 'CSV（UTF-8 BOM付き）',
+  'csv-sjis': 'CSV（Shift_JIS）',
+  xlsx: 'Excel（.xlsx）'
+}
+
+export interface ExportColumn<T> {
+  key: string
+  label: string
+  value: (row: T) => XlsxCellValue
+  type?: 'text' | 'number'
+  width?: number
+}
+
+// 配列（表示中の行）または非同期にページを返すもの（全履歴）
+export type ExportSource<T> = T[] | AsyncIterable<T[]>
+
+export interface ExportResult extends GeneratedFile {
+  rowCount: number
+}
+
+export const EXPORT_PAGE_SIZE = 500
+
+const MIME_TYPES: { [format in ExportFormat]: string } = {
+  'csv-utf8': 'text/csv;charset=utf-8',
+  'csv-sjis': 'text/csv;charset=shift_jis',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+}
+
+const UTF8_BOM = new Uint8Array([0xef, 0xbb, 0xbf])
+
+// 表計算ソフトで数式として解釈されないよう、記号で始まる文字列の先頭に ' を付ける
+const neutralizeFormula = (text: string) => /^[=+\-@\t\r]/.test(text) ? `'${text}` : text
+
+const escapeCsv = (value: XlsxCellValue, type?: 'text' | 'number') => {
+  if (value === null || value === undefined) return ''
+  if (type === 'number' && typeof value === 'number') return String(value)
+  const text = neutralizeFormula(String(value))
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Supabase の range 指定でページごとに取得する（取得件数がページサイズ未満になったら終了）
+export async function* paginate<T>(
+  fetchPage: (from: number, to: number) => Promise<T[]>,
+  pageSize: number = EXPORT_PAGE_SIZE
+): AsyncGenerator<T[]> {
+  for (let from = 0; ; from += pageSize) {
+    const page = await fetchPage(from, from + pageSize - 1)
+    if (page.length > 0) yield page
+    if (page.length < pageSize) return
+  }
+}
+
+async function* toPages<T>(source: ExportSource<T>): AsyncGenerator<T[]> {
+  if (Array.isArray(source)) {
+    for (let index = 0; index < source.length; index += EXPORT_PAGE_SIZE) {
+      yield source.slice(index, index + EXPORT_PAGE_SIZE)
+    }
+    return
+  }
+  yield* source
+}
+
+export async function exportRows<T>(
+  source: ExportSource<T>,
+  options: {
+    columns: ExportColumn<T>[]
+    format: ExportFormat
+    fileName: string
+    sheetName?: string
+    onProgress?: (rowCount: number) => void
+  }
+): Promise<ExportResult> {
+  const { columns, format } = options
+  if (columns.length === 0) {
+    throw new Error('出力する列を1つ以上選択してください')
+  }
+
+  const toRow = (row: T) => columns.map(column => column.value(row))
+  let rowCount = 0
+  let parts: Uint8Array[]
+
+  if (format === 'xlsx') {
+    const writer = createXlsxWriter(columns, options.sheetName)
+    for await (const page of toPages(source)) {
+      writer.addRows(page.map(toRow))
+      rowCount += page.length
+      options.onProgress?.(rowCount)
+    }
+    parts = writer.finish()
+  } else {
+    const encoder = new TextEncoder()
+    const encode = (text: string) => format === 'csv-sjis' ? encodeShiftJis(text) : encoder.encode(text)
+    const toLine = (values: XlsxCellValue[]) =>
+      values.map((value, index) => escapeCsv(value, columns[index].type)).join(',') + '\r\n'
+
+    // Excel が UTF-8 と判定できるよう BOM を付ける
+    parts = format === 'csv-utf8' ? [UTF8_BOM] : []
+    parts.push(encode(toLine(columns.map(column => column.label))))
+    for await (const page of toPages(source)) {
+      parts.push(encode(page.map(row => toLine(toRow(row))).join('')))
+      rowCount += page.length
+      options.onProgress?.(rowCount)
+    }
+  }
+
+  const mimeType = MIME_TYPES[format]
+  const extension = format === 'xlsx' ? 'xlsx' : 'csv'
+  return {
+    blob: new Blob(parts, { type: mimeType }),
+    fileName: `${options.fileName.replace(/[\\/:*?"<>|\s]+/g, '_') || 'export'}.${extension}`,
+    mimeType,
+    rowCount
+  }
+}
+
+// 出力する列の選択を画面ごとに保存する
+export function loadExportColumnKeys(storageKey: string, columns: { key: string }[]): string[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(storageKey) || 'null') as string[] | null
+    const keys = (saved || []).filter(key => columns.some(column => column.key === key))
+    return keys.length > 0 ? keys : columns.map(column => column.key)
+  } catch {
+    return columns.map(column => column.key)
+  }
+}
+
+export function saveExportColumnKeys(storageKey: string, keys: string[]) {
+  localStorage.setItem(storageKey, JSON.stringify(keys))
+}
@@ -0,0 +1,73 @@
+import { renderDocx } from './docxWriter'
+import { renderPdf } from './pdfWriter'
+
+// Word・PDF共通の書類構造
+
+export type TextAlign = 'left' | 'center' | 'right'
+
+export type DocumentBlock =
+  | { type: 'title', text: string }
+  | { type: 'heading', text: string }
+  | { type: 'paragraph', text: string, align?: TextAlign, bold?: boolean }
+  | { type: 'table', headers: string[], rows: string[][], columnWidths?: number[], align?: TextAlign[] }
+  | { type: 'spacer' }
+
+export interface DocumentSpec {
+  title: string
+  author?: string
+  subject?: string
+  blocks: DocumentBlock[]
+}
+
+export type DocumentFormat = 'word' | 'pdf'
+
+export interface GeneratedFile {
+  blob: Blob
+  fileName: string
+  mimeType: string
+}
+
+export const DOCUMENT_MIME_TYPES: { [format in DocumentFormat]: string } = {
+  word: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pdf: 'application/pdf'
+}
+
+const EXTENSIONS: { [format in DocumentFormat]: string } = {
+  word: 'docx',
+  pdf: 'pdf'
+}
+
+// ファイル名に使用できない文字を除去する
+const toFileName = (title: string, format: DocumentFormat) =>
+  `${title.replace(/[\\/:*?"<>|\s]+/g, '_') || 'document'}.${EXTENSIONS[format]}`
+
+export function generateDocumentFile(spec: DocumentSpec, format: DocumentFormat): GeneratedFile {
+  const mimeType = DOCUMENT_MIME_TYPES[format]
+  const data = format === 'word' ? renderDocx(spec) : renderPdf(spec)
+
+  return {
+    blob: new Blob([data], { type: mimeType }),
+    fileName: toFileName(spec.title, format),
+    mimeType
+  }
+}
+
+// 生成したファイルをブラウザでダウンロードする
+export function downloadFile(file: GeneratedFile) {
+  const url = URL.createObjectURL(file.blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = file.fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+export const formatYen = (amount: number) => `¥${Math.round(amount).toLocaleString()}`
+
+export const formatJapaneseDate = (value: string | Date) => {
+  const date = typeof value === 'string' ? new Date(`${value.slice(0, 10)}T00:00:00`) : value
+  if (Number.isNaN(date.getTime())) return ''
+  return `${date.getFullYear()}年${date.getMonth() + 1}月${date.getDate()}日`
+}
@@ -0,0 +1,354 @@
+import { formatJapaneseDate, formatYen, type DocumentBlock, type DocumentSpec } from './documentGenerator'
+import { getReportTitle, REPORT_PERIOD_TYPE_LABELS, type ExpenseReport } from './expenseReports'
+import { ARTICLE_TITLES, type RegulationSnapshot } from './regulationVersions'
+import { CHECKPOINT_SOURCE_LABELS, summarizeTripLog, type TripCheckpoint, type WorkLocation } from './tripLog'
+
+// 出張旅費規程（第1条〜第9条、別表、附則）
+export function buildRegulationDocument(snapshot: RegulationSnapshot, version?: string): DocumentSpec {
+  const { company_info: companyInfo, articles, allowance_settings: settings } = snapshot
+  const blocks: DocumentBlock[] = [
+    { type: 'title', text: '出張旅費規程' },
+    { type: 'paragraph', text: companyInfo.name || '', align: 'right' }
+  ]
+
+  if (version) {
+    blocks.push({ type: 'paragraph', text: version, align: 'right' })
+  }
+
+  ARTICLE_TITLES.filter(({ key }) => key !== 'article10').forEach(({ key, title }) => {
+    blocks.push({ type: 'heading', text: title })
+    blocks.push({ type: 'paragraph', text: articles[key] || '' })
+  })
+
+  blocks.push({ type: 'heading', text: '別表（第3条関係）旅費支給基準' })
+  blocks.push({
+    type: 'table',
+    headers: ['役職', '日当（1日）', '交通費（1日）', '宿泊料（1泊）'],
+    rows: settings.positions.map(position => [
+      position.name,
+      formatYen(position.dailyAllowance),
+      settings.isTransportationRealExpense ? '実費' : formatYen(position.transportationAllowance),
+      settings.isAccommodationRealExpense ? '実費' : formatYen(position.accommodationAllowance)
+    ]),
+    columnWidths: [2, 1.3, 1.3, 1.3],
+    align: ['left', 'right', 'right', 'right']
+  })
+  blocks.push({
+    type: 'paragraph',
+    text: `注）出張とは、勤務地から片道${settings.distanceThreshold}km以上の地域における業務をいう（第4条）。`
+  })
+
+  blocks.push({ type: 'heading', text: '附則' })
+  blocks.push({ type: 'paragraph', text: articles.article10 || '' })
+  if (companyInfo.establishedDate) {
+    blocks.push({
+      type: 'paragraph',
+      text: `制定 ${formatJapaneseDate(companyInfo.establishedDate)}${companyInfo.revision > 1 ? `（第${companyInfo.revision}次改訂）` : ''}`,
+      align: 'right'
+    })
+  }
+  if (companyInfo.representative) {
+    blocks.push({ type: 'paragraph', text: `${companyInfo.name} ${companyInfo.representative}`, align: 'right' })
+  }
+
+  return {
+    title: `${companyInfo.name ? `${companyInfo.name}_` : ''}出張旅費規程${version ? `_${version}` : ''}`,
+    author: companyInfo.name,
+    subject: '出張旅費規程',
+    blocks
+  }
+}
+
+export interface BusinessReportContent {
+  title: string
+  period: { start: string, end: string }
+  destination: string
+  purpose: string
+  participants: string
+  summary: string
+  achievements: string
+  expenses: string
+  nextActions: string
+}
+
+// 出張報告書
+export function buildBusinessReportDocument(report: BusinessReportContent, author?: string): DocumentSpec {
+  const period = [report.period.start, report.period.end]
+    .filter(Boolean)
+    .map(formatJapaneseDate)
+    .join(' 〜 ')
+
+  const sections: [string, string][] = [
+    ['出張概要', report.summary],
+    ['成果・結果', report.achievements],
+    ['経費概要', report.expenses],
+    ['今後のアクション', report.nextActions]
+  ]
+
+  return {
+    title: report.title || '出張報告書',
+    author,
+    subject: '出張報告書',
+    blocks: [
+      { type: 'title', text: '出張報告書' },
+      { type: 'paragraph', text: `提出日 ${formatJapaneseDate(new Date())}${author ? `  報告者 ${author}` : ''}`, align: 'right' },
+      {
+        type: 'table',
+        headers: [],
+        rows: [
+          ['件名', report.title],
+          ['出張期間', period],
+          ['出張先', report.destination],
+          ['目的', report.purpose],
+          ['参加者', report.participants]
+        ],
+        columnWidths: [1, 4]
+      },
+      ...sections.flatMap(([heading, text]): DocumentBlock[] => [
+        { type: 'heading', text: heading },
+        { type: 'paragraph', text: text || '特になし' }
+      ])
+    ]
+  }
+}
+
+export interface AllowanceDetailTrip {
+  applicationId?: string
+  date: string
+  endDate?: string
+  destination: string
+  days: number
+  dailyAmount?: number
+  allowance: number
+  regulation?: string
+}
+
+export interface AllowanceDetailContent {
+  period: { start: string, end: string }
+  employeeName?: string
+  position: string
+  payrollMonth?: string
+  domesticTrips: AllowanceDetailTrip[]
+  overseasTrips: AllowanceDetailTrip[]
+}
+
+const formatTripDates = (trip: AllowanceDetailTrip) =>
+  trip.endDate && trip.endDate !== trip.date
+    ? `${formatJapaneseDate(trip.date)} 〜 ${formatJapaneseDate(trip.endDate)}`
+    : formatJapaneseDate(trip.date)
+
+const tripTable = (trips: AllowanceDetailTrip[]): DocumentBlock => ({
+  type: 'table',
+  headers: ['出張日', '出張先', '日数', '日額', '日当', '適用規程'],
+  rows: [
+    ...trips.map(trip => [
+      formatTripDates(trip),
+      trip.destination,
+      `${trip.days}日`,
+      trip.dailyAmount != null ? formatYen(trip.dailyAmount) : '',
+      formatYen(trip.allowance),
+      trip.regulation || ''
+    ]),
+    [
+      '合計',
+      '',
+      `${trips.reduce((sum, trip) => sum + trip.days, 0)}日`,
+      '',
+      formatYen(trips.reduce((sum, trip) => sum + trip.allowance, 0)),
+      ''
+    ]
+  ],
+  columnWidths: [2, 1.8, 0.7, 1, 1.1, 1.6],
+  align: ['left', 'left', 'right', 'right', 'right', 'left']
+})
+
+// 日当支給明細書
+export function buildAllowanceDetailDocument(detail: AllowanceDetailContent, author?: string): DocumentSpec {
+  const total = [...detail.domesticTrips, ...detail.overseasTrips].reduce((sum, trip) => sum + trip.allowance, 0)
+  const period = [detail.period.start, detail.period.end]
+    .filter(Boolean)
+    .map(formatJapaneseDate)
+    .join(' 〜 ')
+
+  return {
+    title: `日当支給明細書${detail.employeeName ? `_${detail.employeeName}` : ''}${detail.period.start ? `_${detail.period.start.slice(0, 7)}` : ''}`,
+    author,
+    subject: '日当支給明細書',
+    blocks: [
+      { type: 'title', text: '日当支給明細書' },
+      {
+        type: 'table',
+        headers: [],
+        rows: [
+          ['対象期間', period],
+          ['氏名', detail.employeeName || author || ''],
+          ['役職', detail.position],
+          ...(detail.payrollMonth ? [['支給月', `${Number(detail.payrollMonth.slice(0, 4))}年${Number(detail.payrollMonth.slice(5, 7))}月`]] : []),
+          ['支給合計', formatYen(total)]
+        ],
+        columnWidths: [1, 4]
+      },
+      { type: 'heading', text: '国内出張' },
+      tripTable(detail.domesticTrips),
+      { type: 'heading', text: '海外出張' },
+      tripTable(detail.overseasTrips),
+      { type: 'paragraph', text: '上記の日当は出張旅費規程に基づき支給するものです。' },
+      {
+        type: 'paragraph',
+        text: '出張の職務遂行に必要な旅行に対し、出張開始日に施行されていた規程の支給基準により支給する旅費であるため、所得税法第9条第1項第4号により非課税として給与とは区分して取り扱います。'
+      }
+    ]
+  }
+}
+
+export interface TripLogContent {
+  applicationTitle: string
+  period: { start: string, end: string }
+  destination: string
+  workLocation: WorkLocation | null
+  distanceThreshold: number
+  checkpoints: TripCheckpoint[]
+}
+
+const formatCoordinate = (latitude: number, longitude: number) => `${latitude.toFixed(5)}, ${longitude.toFixed(5)}`
+
+const formatDistance = (distance: number | null) => distance === null ? '-' : `${Number(distance).toFixed(1)}km`
+
+// 出張ログ台帳（勤務地からの距離で第4条の距離基準を満たすことを示す）
+export function buildTripLogDocument(log: TripLogContent, author?: string): DocumentSpec {
+  const summary = summarizeTripLog(log.checkpoints, log.distanceThreshold)
+  const period = [log.period.start, log.period.end]
+    .filter(Boolean)
+    .map(formatJapaneseDate)
+    .join(' 〜 ')
+  const workLocation = log.workLocation
+    ? `${log.workLocation.name || '勤務地'}（${formatCoordinate(log.workLocation.latitude, log.workLocation.longitude)}）`
+    : '未設定'
+  const conclusion = summary.maxDistanceKm === null
+    ? '勤務地からの距離を確認できる地点が記録されていません。'
+    : summary.meetsThreshold
+      ? `勤務地から最大${formatDistance(summary.maxDistanceKm)}の地点で業務に従事しており、出張の距離基準（片道${log.distanceThreshold}km以上）を満たしています。`
+      : `勤務地からの最大距離は${formatDistance(summary.maxDistanceKm)}で、出張の距離基準（片道${log.distanceThreshold}km以上）を満たしていません。`
+
+  return {
+    title: `出張ログ台帳${log.applicationTitle ? `_${log.applicationTitle}` : ''}`,
+    author,
+    subject: '出張ログ台帳',
+    blocks: [
+      { type: 'title', text: '出張ログ台帳' },
+      { type: 'paragraph', text: `作成日 ${formatJapaneseDate(new Date())}${author ? `  出張者 ${author}` : ''}`, align: 'right' },
+      {
+        type: 'table',
+        headers: [],
+        rows: [
+          ['件名', log.applicationTitle],
+          ['出張期間', period],
+          ['出張先', log.destination],
+          ['勤務地', workLocation],
+          ['距離基準', `片道${log.distanceThreshold}km以上（出張旅費規程 第4条）`],
+          ['最大距離', formatDistance(summary.maxDistanceKm)]
+        ],
+        columnWidths: [1, 4]
+      },
+      { type: 'heading', text: '滞在地点' },
+      {
+        type: 'table',
+        headers: ['日時', '地点', '緯度・経度', '記録方法', '勤務地からの距離', '領収書（SHA-256）'],
+        rows: log.checkpoints.map(checkpoint => [
+          new Date(checkpoint.recorded_at).toLocaleString('ja-JP'),
+          `${checkpoint.place_name || ''}${checkpoint.excluded_at ? `（除外: ${checkpoint.exclusion_reason || ''}）` : ''}`,
+          formatCoordinate(checkpoint.latitude, checkpoint.longitude),
+          CHECKPOINT_SOURCE_LABELS[checkpoint.source],
+          formatDistance(checkpoint.distance_from_office_km),
+          checkpoint.receipt_sha256 ? `${checkpoint.receipt_sha256.slice(0, 16)}…` : ''
+        ]),
+        columnWidths: [1.5, 1.8, 1.6, 1, 1.1, 1.6],
+        align: ['left', 'left', 'left', 'left', 'right', 'left']
+      },
+      { type: 'paragraph', text: conclusion, bold: true },
+      { type: 'paragraph', text: '距離は記録時点の勤務地からの直線距離です。除外した地点は距離の判定に含めていません。領収書のハッシュ値は電子帳簿保存の記録と照合できます。' }
+    ]
+  }
+}
+
+// 月次・年次レポート（承認済みの出張・経費の集計と、規程の支給額との比較）
+export function buildExpenseReportDocument(report: ExpenseReport, author?: string): DocumentSpec {
+  const { summary } = report
+  const label = REPORT_PERIOD_TYPE_LABELS[report.period.type]
+  const overTrips = report.trips.filter(trip => trip.overAmount > 0)
+
+  return {
+    title: getReportTitle(report),
+    author,
+    subject: label,
+    blocks: [
+      { type: 'title', text: `${label}（${report.period.label}）` },
+      { type: 'paragraph', text: `作成日 ${formatJapaneseDate(new Date())}${author ? `  作成者 ${author}` : ''}`, align: 'right' },
+      {
+        type: 'table',
+        headers: [],
+        rows: [
+          ['対象期間', `${formatJapaneseDate(report.period.start)} 〜 ${formatJapaneseDate(report.period.end)}（承認日）`],
+          ['対象部署', report.department || '全部署'],
+          ['承認済み申請', `${summary.applicationCount}件（${summary.personCount}名）`],
+          ['合計金額', formatYen(summary.totalAmount)],
+          ['出張', `${summary.businessTripCount}件 ${formatYen(summary.businessTripAmount)}`],
+          ['経費', `${summary.expenseCount}件 ${formatYen(summary.expenseAmount)}`],
+          ['規程の支給額', `${formatYen(summary.allowanceTotal)}（${report.regulation.name} ${report.regulation.version}）`],
+          ['支給額の超過', `${overTrips.length}件 ${formatYen(summary.overAmount)}`]
+        ],
+        columnWidths: [1, 4]
+      },
+      { type: 'heading', text: '申請者別' },
+      {
+        type: 'table',
+        headers: ['氏名', '部署', '件数', '出張', '経費', '合計', '超過額'],
+        rows: report.byPerson.map(person => [
+          person.userName,
+          person.department,
+          String(person.applicationCount),
+          formatYen(person.businessTripAmount),
+          formatYen(person.expenseAmount),
+          formatYen(person.totalAmount),
+          person.overAmount > 0 ? formatYen(person.overAmount) : '-'
+        ]),
+        columnWidths: [1.4, 1.2, 0.6, 1.1, 1.1, 1.1, 1],
+        align: ['left', 'left', 'right', 'right', 'right', 'right', 'right']
+      },
+      { type: 'heading', text: '経費区分別' },
+      {
+        type: 'table',
+        headers: ['経費区分', '明細数', '金額'],
+        rows: report.byCategory.map(row => [row.category, String(row.lineCount), formatYen(row.amount)]),
+        columnWidths: [2, 1, 1.5],
+        align: ['left', 'right', 'right']
+      },
+      { type: 'heading', text: '出張先別' },
+      {
+        type: 'table',
+        headers: ['出張先', '件数', '日数', '金額'],
+        rows: report.byDestination.map(row => [row.destination, String(row.tripCount), String(row.days), formatYen(row.amount)]),
+        columnWidths: [2.4, 0.8, 0.8, 1.5],
+        align: ['left', 'right', 'right', 'right']
+      },
+      { type: 'heading', text: '規程の支給額を超えた出張' },
+      overTrips.length > 0
+        ? {
+            type: 'table',
+            headers: ['期間', '氏名', '出張先', '精算額', '規程の支給額', '超過額'],
+            rows: overTrips.map(trip => [
+              `${trip.startDate.slice(5).replace('-', '/')}〜${trip.endDate.slice(5).replace('-', '/')}`,
+              trip.userName,
+              trip.destination,
+              formatYen(trip.actual.total),
+              formatYen(trip.allowance.total),
+              formatYen(trip.overAmount)
+            ]),
+            columnWidths: [1.2, 1.2, 1.6, 1.1, 1.1, 1],
+            align: ['left', 'left', 'left', 'right', 'right', 'right']
+          }
+        : { type: 'paragraph', text: '規程の支給額を超えた出張はありません。' },
+      { type: 'paragraph', text: '規程の支給額は作成時点で運用中の出張旅費規程により、申請者の役職と出張日数から計算しています。実費精算の項目は精算額を支給額としています。' }
+    ]
+  }
+}
@@ -0,0 +1,163 @@
+import { createZip } from './zip'
+import type { DocumentBlock, DocumentSpec, TextAlign } from './documentGenerator'
+
+// Word（.docx / Office Open XML）形式の書類を生成する
+
+// A4・余白20mm（単位: twip）
+const PAGE_WIDTH = 11906
+const PAGE_HEIGHT = 16838
+const PAGE_MARGIN = 1134
+const CONTENT_WIDTH = PAGE_WIDTH - PAGE_MARGIN * 2
+
+const MINCHO = '游明朝'
+const GOTHIC = '游ゴシック'
+
+// XML 1.0 で使用できない制御文字（タブ・改行以外）を除去
+const stripControlCharacters = (text: string) =>
+  Array.from(text).filter(char => {
+    const code = char.charCodeAt(0)
+    return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d
+  }).join('')
+
+const escapeXml = (text: string) =>
+  stripControlCharacters(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+const JUSTIFICATION: { [align in TextAlign]: string } = {
+  left: 'left',
+  center: 'center',
+  right: 'right'
+}
+
+// 改行を含むテキストを1つの段落内の改行として出力する
+const runs = (text: string, props = '') =>
+  text.split('\n').map((line, index) =>
+    `${index > 0 ? '<w:r><w:br/></w:r>' : ''}<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r>`
+  ).join('')
+
+const paragraph = (text: string, options: { style?: string, align?: TextAlign, bold?: boolean } = {}) => {
+  const pPr = [
+    options.style ? `<w:pStyle w:val="${options.style}"/>` : '',
+    options.align ? `<w:jc w:val="${JUSTIFICATION[options.align]}"/>` : ''
+  ].join('')
+  return `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ''}${runs(text, options.bold ? '<w:b/>' : '')}</w:p>`
+}
+
+const table = (block: Extract<DocumentBlock, { type: 'table' }>) => {
+  const columnCount = Math.max(block.headers.length, ...block.rows.map(row => row.length))
+  const weights = block.columnWidths && block.columnWidths.length === columnCount
+    ? block.columnWidths
+    : new Array(columnCount).fill(1)
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
+  const widths = weights.map(weight => Math.floor(CONTENT_WIDTH * weight / totalWeight))
+
+  const cell = (text: string, index: number, header: boolean) => {
+    const align = header ? 'center' : block.align?.[index] || 'left'
+    return `<w:tc><w:tcPr><w:tcW w:w="${widths[index]}" w:type="dxa"/>${header ? '<w:shd w:val="clear" w:color="auto" w:fill="E7ECF3"/>' : ''}</w:tcPr>` +
+      `<w:p><w:pPr><w:spacing w:before="40" w:after="40"/><w:jc w:val="${JUSTIFICATION[align]}"/></w:pPr>${runs(text, header ? '<w:b/>' : '')}</w:p></w:tc>`
+  }
+
+  const row = (cells: string[], header: boolean) =>
+    `<w:tr>${header ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${
+      Array.from({ length: columnCount }, (_, index) => cell(cells[index] || '', index, header)).join('')
+    }</w:tr>`
+
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="808080"/>`
+
+  return '<w:tbl>' +
+    `<w:tblPr><w:tblW w:w="${CONTENT_WIDTH}" w:type="dxa"/><w:tblBorders>${
+      ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')
+    }</w:tblBorders><w:tblLayout w:type="fixed"/></w:tblPr>` +
+    `<w:tblGrid>${widths.map(width => `<w:gridCol w:w="${width}"/>`).join('')}</w:tblGrid>` +
+    (block.headers.length > 0 ? row(block.headers, true) : '') +
+    block.rows.map(cells => row(cells, false)).join('') +
+    '</w:tbl>' +
+    // 表の直後の段落（連続する表の結合を防ぐ）
+    '<w:p/>'
+}
+
+const renderBlock = (block: DocumentBlock) => {
+  switch (block.type) {
+    case 'title':
+      return paragraph(block.text, { style: 'Title', align: 'center' })
+    case 'heading':
+      return paragraph(block.text, { style: 'Heading1' })
+    case 'paragraph':
+      return paragraph(block.text, { align: block.align, bold: block.bold })
+    case 'table':
+      return table(block)
+    case 'spacer':
+      return '<w:p/>'
+    default:
+      return ''
+  }
+}
+
+const documentXml = (spec: DocumentSpec) =>
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+  `<w:body>${spec.blocks.map(renderBlock).join('')}` +
+  `<w:sectPr><w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/>` +
+  `<w:pgMar w:top="${PAGE_MARGIN}" w:right="${PAGE_MARGIN}" w:bottom="${PAGE_MARGIN}" w:left="${PAGE_MARGIN}" w:header="567" w:footer="567" w:gutter="0"/>` +
+  '<w:docGrid w:type="lines" w:linePitch="360"/></w:sectPr>' +
+  '</w:body></w:document>'
+
+const fonts = (name: string) => `<w:rFonts w:ascii="${name}" w:eastAsia="${name}" w:hAnsi="${name}" w:cs="${name}"/>`
+
+const stylesXml = () =>
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+  `<w:docDefaults><w:rPrDefault><w:rPr>${fonts(MINCHO)}<w:sz w:val="21"/><w:szCs w:val="21"/><w:lang w:val="en-US" w:eastAsia="ja-JP"/></w:rPr></w:rPrDefault>` +
+  '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="300" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+  '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>' +
+  `<w:pPr><w:spacing w:before="240" w:after="360"/><w:jc w:val="center"/></w:pPr><w:rPr>${fonts(GOTHIC)}<w:b/><w:sz w:val="36"/><w:szCs w:val="36"/></w:rPr></w:style>` +
+  '<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>' +
+  `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr>${fonts(GOTHIC)}<w:b/><w:sz w:val="24"/><w:szCs w:val="24"/></w:rPr></w:style>` +
+  '</w:styles>'
+
+const coreXml = (spec: DocumentSpec, createdAt: Date) =>
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+  `<dc:title>${escapeXml(spec.title)}</dc:title>` +
+  (spec.subject ? `<dc:subject>${escapeXml(spec.subject)}</dc:subject>` : '') +
+  (spec.author ? `<dc:creator>${escapeXml(spec.author)}</dc:creator>` : '') +
+  `<dcterms:created xsi:type="dcterms:W3CDTF">${createdAt.toISOString().replace(/\.\d{3}Z$/, 'Z')}</dcterms:created>` +
+  '</cp:coreProperties>'
+
+const CONTENT_TYPES =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+  '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+  '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+  '</Types>'
+
+const ROOT_RELS =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+  '</Relationships>'
+
+const DOCUMENT_RELS =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+  '</Relationships>'
+
+export function renderDocx(spec: DocumentSpec, createdAt: Date = new Date()): Uint8Array {
+  return createZip([
+    { name: '[Content_Types].xml', data: CONTENT_TYPES },
+    { name: '_rels/.rels', data: ROOT_RELS },
+    { name: 'word/document.xml', data: documentXml(spec) },
+    { name: 'word/styles.xml', data: stylesXml() },
+    { name: 'word/_rels/document.xml.rels', data: DOCUMENT_RELS },
+    { name: 'docProps/core.xml', data: coreXml(spec, createdAt) }
+  ], createdAt)
+}
@@ -0,0 +1,187 @@
+// 電子帳簿保存法に対応した領収書・請求書の保存
+// 削除・上書きの禁止と訂正履歴はデータベース（stored_documents のトリガーと correct_stored_document）で行う
+
+import { findTimestampAuthority, type TimestampToken } from './timestampAuthority'
+
+export type StoredDocumentKind = 'receipt' | 'invoice'
+
+export interface StoredDocument {
+  id: string
+  organization_id: string | null
+  user_id: string
+  user_name?: string | null
+  document_kind: StoredDocumentKind
+  bucket: string
+  file_path: string
+  file_name: string | null
+  mime_type: string | null
+  file_size: number | null
+  sha256: string
+  transaction_date: string
+  amount: number
+  counterparty: string
+  invoice_number: string | null
+  timestamp_token: TimestampToken
+  timestamp_authority: string
+  timestamped_at: string
+  version: number
+  supersedes_id: string | null
+  superseded_by: string | null
+  superseded_at: string | null
+  correction_reason: string | null
+  created_by: string | null
+  created_at: string
+}
+
+// 検索要件（取引年月日の範囲指定・金額の範囲指定・取引先）
+export interface StoredDocumentSearch {
+  organizationId?: string | null
+  dateFrom?: string
+  dateTo?: string
+  amountMin?: number | null
+  amountMax?: number | null
+  counterparty?: string
+  documentKind?: StoredDocumentKind | 'all'
+  includeSuperseded?: boolean
+}
+
+export interface StoredDocumentKeys {
+  transactionDate: string
+  amount: number
+  counterparty: string
+  invoiceNumber?: string | null
+}
+
+export const STORED_DOCUMENT_KIND_LABELS: { [kind in StoredDocumentKind]: string } = {
+  receipt: '領収書',
+  invoice: '請求書'
+}
+
+export type IntegrityStatus = 'valid' | 'hash_mismatch' | 'invalid_timestamp' | 'unverified_timestamp' | 'missing_file'
+
+export const INTEGRITY_STATUS_LABELS: { [status in IntegrityStatus]: string } = {
+  valid: '改ざんなし',
+  hash_mismatch: 'ハッシュ値不一致',
+  invalid_timestamp: 'タイムスタンプ不正',
+  unverified_timestamp: 'タイムスタンプ未検証',
+  missing_file: 'ファイルなし'
+}
+
+export const INTEGRITY_STATUS_COLORS: { [status in IntegrityStatus]: string } = {
+  valid: 'text-emerald-700 bg-emerald-100',
+  hash_mismatch: 'text-red-700 bg-red-100',
+  invalid_timestamp: 'text-red-700 bg-red-100',
+  unverified_timestamp: 'text-amber-700 bg-amber-100',
+  missing_file: 'text-amber-700 bg-amber-100'
+}
+
+export interface IntegrityResult {
+  documentId: string
+  status: IntegrityStatus
+  computedHash: string | null
+  timestampValid: boolean
+  lateTimestamp: boolean
+  checkedAt: string
+}
+
+// タイムスタンプの付与期限（授受から最長約2か月と概ね7営業日以内）
+export const TIMESTAMP_DEADLINE_DAYS = 70
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export async function sha256Hex(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// ファイルのパスにハッシュ値を含めるため、内容が同じファイルは同じパスになる
+export function getStoredFilePath(userId: string, sha256: string, fileName: string) {
+  const extension = fileName.includes('.') ? fileName.split('.').pop()?.toLowerCase() : undefined
+  return extension ? `${userId}/${sha256}.${extension}` : `${userId}/${sha256}`
+}
+
+export function isTimestampLate(document: Pick<StoredDocument, 'transaction_date' | 'timestamped_at'>) {
+  const elapsed = new Date(document.timestamped_at).getTime() - new Date(document.transaction_date).getTime()
+  return elapsed > TIMESTAMP_DEADLINE_DAYS * DAY_MS
+}
+
+// 保存したファイルを再計算したハッシュ値と、タイムスタンプの署名で検証する
+// 署名を検証できない局のトークンは、ハッシュ値が一致しても未検証とする
+export async function verifyStoredDocument(document: StoredDocument, file: Blob | null): Promise<IntegrityResult> {
+  const result = {
+    documentId: document.id,
+    computedHash: null,
+    timestampValid: false,
+    lateTimestamp: isTimestampLate(document),
+    checkedAt: new Date().toISOString()
+  }
+
+  if (!file) {
+    return { ...result, status: 'missing_file' }
+  }
+
+  const computedHash = await sha256Hex(file)
+  if (computedHash !== document.sha256) {
+    return { ...result, computedHash, status: 'hash_mismatch' }
+  }
+
+  const authority = findTimestampAuthority(document.timestamp_authority)
+  if (!authority) {
+    return { ...result, computedHash, status: 'unverified_timestamp' }
+  }
+
+  let timestampValid = document.timestamp_token?.messageImprint?.hashedMessage === computedHash
+  if (timestampValid) {
+    try {
+      timestampValid = await authority.verify(document.timestamp_token, computedHash)
+    } catch (error) {
+      console.error('Timestamp verification failed:', error)
+      timestampValid = false
+    }
+  }
+
+  return {
+    ...result,
+    computedHash,
+    timestampValid,
+    status: timestampValid ? 'valid' : 'invalid_timestamp'
+  }
+}
+
+// 訂正履歴（元の版から最新の版までを並べる）
+export function buildVersionHistory(documents: StoredDocument[], documentId: string): StoredDocument[] {
+  const byId = new Map(documents.map(document => [document.id, document]))
+  let first = byId.get(documentId)
+  while (first?.supersedes_id && byId.has(first.supersedes_id)) {
+    first = byId.get(first.supersedes_id)
+  }
+
+  const history: StoredDocument[] = []
+  let current = first
+  while (current) {
+    history.push(current)
+    current = current.superseded_by ? byId.get(current.superseded_by) : undefined
+  }
+  return history
+}
+
+// データベースの関数のエラーを画面表示用の文言にする
+const STORED_DOCUMENT_ERROR_MESSAGES: { [message: string]: string } = {
+  'Authentication required': 'ログインしてください',
+  'Invalid SHA-256 hash': 'ファイルのハッシュ値が正しくありません',
+  'File path does not match the document hash': 'ファイルの保存先がハッシュ値と一致しません',
+  'Stored file not found': '保存したファイルが見つかりません',
+  'Invalid timestamp token': 'タイムスタンプを検証できませんでした',
+  'Unsupported timestamp authority': 'このタイムスタンプ局のトークンは登録できません',
+  'Transaction date, amount and counterparty are required': '取引年月日・金額・取引先を入力してください',
+  'Stored document not found': '書類が見つかりません',
+  'Only the latest version can be corrected': '最新の版のみ訂正できます。画面を更新してください',
+  'A correction reason is required': '訂正の理由を入力してください',
+  'Stored documents cannot be deleted': '保存した書類は削除できません',
+  'Stored documents are immutable': '保存した書類は変更できません。訂正として登録してください'
+}
+
+export function toStoredDocumentErrorMessage(message: string | undefined) {
+  if (message && STORED_DOCUMENT_ERROR_MESSAGES[message]) return STORED_DOCUMENT_ERROR_MESSAGES[message]
+  return message || '処理に失敗しました'
+}
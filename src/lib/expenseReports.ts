@@ -0,0 +1,380 @@
+// 月次・年次レポート（期間内に承認された出張・経費の集計）
+// 集計はデータベース側（get_expense_report）で行い、ここでは規程の支給額との比較と Excel 出力を行う
+
+import { calculateTripAllowance, getRegulationReference, type RegulationReference, type RegulationSource } from './allowanceCalculator'
+import { toAnalyticsMonth } from './analytics'
+import type { GeneratedFile } from './documentGenerator'
+import type { Document } from './supabase'
+import { createXlsxWriter, type XlsxCellValue } from './xlsxWriter'
+
+export type ReportPeriodType = 'monthly' | 'annual'
+
+export interface ReportPeriod {
+  type: ReportPeriodType
+  start: string
+  end: string
+  label: string
+}
+
+export interface ExpenseReportResponse {
+  period_start: string
+  period_end: string
+  department: string | null
+  summary: {
+    application_count: number
+    business_trip_count: number
+    expense_count: number
+    person_count: number
+    total_amount: number
+    business_trip_amount: number
+    expense_amount: number
+  }
+  by_person: {
+    user_id: string
+    user_name: string
+    department: string
+    position: string | null
+    application_count: number
+    business_trip_amount: number
+    expense_amount: number
+    total_amount: number
+  }[]
+  by_category: { category: string, line_count: number, amount: number }[]
+  by_destination: { destination: string, trip_count: number, days: number, amount: number }[]
+  trips: {
+    application_id: string
+    user_id: string
+    user_name: string
+    position: string | null
+    destination: string
+    start_date: string
+    end_date: string
+    daily_allowance: number
+    transportation: number
+    accommodation: number
+  }[]
+  generated_at: string
+}
+
+export interface TripAmounts {
+  dailyAllowance: number
+  transportation: number
+  accommodation: number
+  total: number
+}
+
+// 出張ごとの精算額と規程の支給額の比較
+export interface ReportTripComparison {
+  applicationId: string
+  userId: string
+  userName: string
+  positionName: string
+  destination: string
+  startDate: string
+  endDate: string
+  days: number
+  actual: TripAmounts
+  allowance: TripAmounts
+  // 精算額が規程の支給額を超えた額（超えていなければ0）
+  overAmount: number
+}
+
+export interface ReportPersonRow {
+  userId: string
+  userName: string
+  department: string
+  position: string
+  applicationCount: number
+  businessTripAmount: number
+  expenseAmount: number
+  totalAmount: number
+  allowanceTotal: number
+  overAmount: number
+}
+
+export interface ExpenseReport {
+  period: ReportPeriod
+  department: string | null
+  summary: {
+    applicationCount: number
+    businessTripCount: number
+    expenseCount: number
+    personCount: number
+    totalAmount: number
+    businessTripAmount: number
+    expenseAmount: number
+    allowanceTotal: number
+    overAmount: number
+    overTripCount: number
+  }
+  byPerson: ReportPersonRow[]
+  byCategory: { category: string, lineCount: number, amount: number }[]
+  byDestination: { destination: string, tripCount: number, days: number, amount: number }[]
+  trips: ReportTripComparison[]
+  regulation: RegulationReference
+  generatedAt: string
+}
+
+export interface ReportSchedule {
+  organization_id: string
+  monthly_enabled: boolean
+  annual_enabled: boolean
+  fiscal_year_start_month: number
+  updated_by: string | null
+  updated_at: string | null
+}
+
+export type ReportJobStatus = 'pending' | 'processing' | 'completed' | 'error'
+
+export interface ReportJob {
+  id: string
+  organization_id: string
+  period_type: ReportPeriodType
+  period_start: string
+  period_end: string
+  status: ReportJobStatus
+  attempt_count: number
+  locked_until: string | null
+  document_ids: string[]
+  error_message: string | null
+  completed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export const REPORT_PERIOD_TYPE_LABELS: { [type in ReportPeriodType]: string } = {
+  monthly: '月次レポート',
+  annual: '年次レポート'
+}
+
+export const REPORT_DOCUMENT_TYPES: { [type in ReportPeriodType]: Document['type'] } = {
+  monthly: 'monthly_report',
+  annual: 'annual_report'
+}
+
+export const REPORT_JOB_STATUS_LABELS: { [status in ReportJobStatus]: string } = {
+  pending: '作成待ち',
+  processing: '作成中',
+  completed: '作成済み',
+  error: '失敗'
+}
+
+export const DEFAULT_FISCAL_YEAR_START_MONTH = 4
+
+// numeric 型は文字列で返る場合があるため数値に揃える
+const toNumber = (value: number | string | null | undefined) => Number(value || 0)
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+// 月末日（month は1始まり）
+const lastDayOfMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate()
+
+const formatMonth = (year: number, month: number) => `${year}年${month}月`
+
+// month は YYYY-MM
+export function getMonthlyPeriod(month: string): ReportPeriod {
+  const [year, monthNumber] = month.split('-').map(Number)
+  return {
+    type: 'monthly',
+    start: `${year}-${pad(monthNumber)}-01`,
+    end: `${year}-${pad(monthNumber)}-${pad(lastDayOfMonth(year, monthNumber))}`,
+    label: formatMonth(year, monthNumber)
+  }
+}
+
+// 年度は開始月の属する年で呼ぶ（4月始まりの2024年度は2024年4月〜2025年3月）
+export function getFiscalYearPeriod(fiscalYear: number, startMonth: number = DEFAULT_FISCAL_YEAR_START_MONTH): ReportPeriod {
+  const endYear = startMonth === 1 ? fiscalYear : fiscalYear + 1
+  const endMonth = startMonth === 1 ? 12 : startMonth - 1
+  return {
+    type: 'annual',
+    start: `${fiscalYear}-${pad(startMonth)}-01`,
+    end: `${endYear}-${pad(endMonth)}-${pad(lastDayOfMonth(endYear, endMonth))}`,
+    label: `${fiscalYear}年度`
+  }
+}
+
+export function getJobPeriod(job: Pick<ReportJob, 'period_type' | 'period_start' | 'period_end'>): ReportPeriod {
+  const [year, month] = job.period_start.split('-').map(Number)
+  return {
+    type: job.period_type,
+    start: job.period_start,
+    end: job.period_end,
+    label: job.period_type === 'monthly' ? formatMonth(year, month) : `${year}年度`
+  }
+}
+
+// 日本時間の前月（締めた月）
+export function getPreviousMonth(now: Date = new Date()) {
+  const [year, month] = toAnalyticsMonth(now).split('-').map(Number)
+  return month === 1 ? `${year - 1}-12` : `${year}-${pad(month - 1)}`
+}
+
+// 日本時間で直近に締めた年度
+export function getLastClosedFiscalYear(startMonth: number = DEFAULT_FISCAL_YEAR_START_MONTH, now: Date = new Date()) {
+  const [year, month] = toAnalyticsMonth(now).split('-').map(Number)
+  return month >= startMonth ? year - 1 : year - 2
+}
+
+export function getReportTitle(report: Pick<ExpenseReport, 'period' | 'department'>) {
+  return `${REPORT_PERIOD_TYPE_LABELS[report.period.type]}_${report.period.label}${report.department ? `_${report.department}` : ''}`
+}
+
+const toTripAmounts = (dailyAllowance: number, transportation: number, accommodation: number): TripAmounts => ({
+  dailyAllowance,
+  transportation,
+  accommodation,
+  total: dailyAllowance + transportation + accommodation
+})
+
+// 出張ごとに現在の規程で支給額を計算し、精算額と比較する（実費精算の項目は精算額をそのまま支給額とする）
+export function toExpenseReport(
+  response: ExpenseReportResponse,
+  periodType: ReportPeriodType,
+  regulation: RegulationSource | null | undefined
+): ExpenseReport {
+  const trips: ReportTripComparison[] = response.trips.map(trip => {
+    const actual = toTripAmounts(toNumber(trip.daily_allowance), toNumber(trip.transportation), toNumber(trip.accommodation))
+    const estimate = calculateTripAllowance({
+      regulation,
+      position: trip.position,
+      startDate: trip.start_date,
+      endDate: trip.end_date,
+      actualTransportation: actual.transportation,
+      actualAccommodation: actual.accommodation
+    })
+    const allowance = toTripAmounts(estimate.dailyAllowance, estimate.transportation, estimate.accommodation)
+
+    return {
+      applicationId: trip.application_id,
+      userId: trip.user_id,
+      userName: trip.user_name,
+      positionName: estimate.positionName,
+      destination: trip.destination,
+      startDate: trip.start_date,
+      endDate: trip.end_date,
+      days: estimate.days,
+      actual,
+      allowance,
+      overAmount: Math.max(0, actual.total - allowance.total)
+    }
+  })
+
+  const tripTotals = (userId?: string) => trips
+    .filter(trip => !userId || trip.userId === userId)
+    .reduce((totals, trip) => ({
+      allowanceTotal: totals.allowanceTotal + trip.allowance.total,
+      overAmount: totals.overAmount + trip.overAmount
+    }), { allowanceTotal: 0, overAmount: 0 })
+
+  const { summary } = response
+  const [year, month] = response.period_start.split('-').map(Number)
+
+  return {
+    period: {
+      type: periodType,
+      start: response.period_start,
+      end: response.period_end,
+      label: periodType === 'monthly' ? formatMonth(year, month) : `${year}年度`
+    },
+    department: response.department,
+    summary: {
+      applicationCount: toNumber(summary.application_count),
+      businessTripCount: toNumber(summary.business_trip_count),
+      expenseCount: toNumber(summary.expense_count),
+      personCount: toNumber(summary.person_count),
+      totalAmount: toNumber(summary.total_amount),
+      businessTripAmount: toNumber(summary.business_trip_amount),
+      expenseAmount: toNumber(summary.expense_amount),
+      ...tripTotals(),
+      overTripCount: trips.filter(trip => trip.overAmount > 0).length
+    },
+    byPerson: response.by_person.map(person => ({
+      userId: person.user_id,
+      userName: person.user_name || '（氏名未設定）',
+      department: person.department,
+      position: person.position || '',
+      applicationCount: toNumber(person.application_count),
+      businessTripAmount: toNumber(person.business_trip_amount),
+      expenseAmount: toNumber(person.expense_amount),
+      totalAmount: toNumber(person.total_amount),
+      ...tripTotals(person.user_id)
+    })),
+    byCategory: response.by_category.map(row => ({
+      category: row.category,
+      lineCount: toNumber(row.line_count),
+      amount: toNumber(row.amount)
+    })),
+    byDestination: response.by_destination.map(row => ({
+      destination: row.destination,
+      tripCount: toNumber(row.trip_count),
+      days: toNumber(row.days),
+      amount: toNumber(row.amount)
+    })),
+    trips,
+    regulation: getRegulationReference(regulation),
+    generatedAt: response.generated_at
+  }
+}
+
+const WORKBOOK_COLUMNS = [
+  { label: '区分', width: 12 },
+  { label: '項目', width: 40 },
+  { label: '件数', width: 8, type: 'number' as const },
+  { label: '日数', width: 8, type: 'number' as const },
+  { label: '金額', width: 14, type: 'number' as const },
+  { label: '規程の支給額', width: 14, type: 'number' as const },
+  { label: '超過額', width: 14, type: 'number' as const }
+]
+
+// Excel 出力（1シートに合計・申請者別・経費区分別・出張先別・出張別の順で並べる）
+export function buildExpenseReportWorkbook(report: ExpenseReport): GeneratedFile {
+  const { summary } = report
+  const rows: XlsxCellValue[][] = [
+    ['合計', '承認済み申請', summary.applicationCount, null, summary.totalAmount, null, null],
+    ['合計', '出張申請', summary.businessTripCount, null, summary.businessTripAmount, summary.allowanceTotal, summary.overAmount],
+    ['合計', '経費申請', summary.expenseCount, null, summary.expenseAmount, null, null],
+    ...report.byPerson.map(person => [
+      '申請者別',
+      `${person.userName}（${person.department}${person.position ? `・${person.position}` : ''}）`,
+      person.applicationCount,
+      null,
+      person.totalAmount,
+      person.allowanceTotal,
+      person.overAmount
+    ]),
+    ...report.byCategory.map(row => ['経費区分別', row.category, row.lineCount, null, row.amount, null, null]),
+    ...report.byDestination.map(row => ['出張先別', row.destination, row.tripCount, row.days, row.amount, null, null]),
+    ...report.trips.map(trip => [
+      '出張別',
+      `${trip.startDate}〜${trip.endDate} ${trip.userName} ${trip.destination}`,
+      1,
+      trip.days,
+      trip.actual.total,
+      trip.allowance.total,
+      trip.overAmount
+    ])
+  ]
+
+  const writer = createXlsxWriter(WORKBOOK_COLUMNS, report.period.label)
+  writer.addRows(rows)
+  const mimeType = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  return {
+    blob: new Blob(writer.finish(), { type: mimeType }),
+    fileName: `${getReportTitle(report).replace(/[\\/:*?"<>|\s]+/g, '_')}.xlsx`,
+    mimeType
+  }
+}
+
+// データベースの関数のエラーを画面表示用の文言にする
+const REPORT_ERROR_MESSAGES: { [message: string]: string } = {
+  'Authentication required': 'ログインしてください',
+  'Not allowed to view organization reports': 'レポートを作成する権限がありません',
+  'Invalid report period': '対象期間が正しくありません'
+}
+
+export function toReportErrorMessage(message: string | undefined) {
+  if (message && REPORT_ERROR_MESSAGES[message]) return REPORT_ERROR_MESSAGES[message]
+  if (message?.includes('row-level security')) return 'レポートの設定を変更する権限がありません'
+  return message || '処理に失敗しました'
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import { getNationalHoliday, getNationalHolidays, isBusinessDay } from './holidays'
+
+// 内閣府の「国民の祝日」一覧（2032年は春分日・秋分日の予測に基づく）
+const CALENDARS: { [year: number]: [string, string][] } = {
+  2009: [
+    ['01-01', '元日'], ['01-12', '成人の日'], ['02-11', '建国記念の日'], ['03-20', '春分の日'],
+    ['04-29', '昭和の日'], ['05-03', '憲法記念日'], ['05-04', 'みどりの日'], ['05-05', 'こどもの日'],
+    ['05-06', '振替休日'], ['07-20', '海の日'], ['09-21', '敬老の日'], ['09-22', '国民の休日'],
+    ['09-23', '秋分の日'], ['10-12', '体育の日'], ['11-03', '文化の日'], ['11-23', '勤労感謝の日'],
+    ['12-23', '天皇誕生日']
+  ],
+  2015: [
+    ['01-01', '元日'], ['01-12', '成人の日'], ['02-11', '建国記念の日'], ['03-21', '春分の日'],
+    ['04-29', '昭和の日'], ['05-03', '憲法記念日'], ['05-04', 'みどりの日'], ['05-05', 'こどもの日'],
+    ['05-06', '振替休日'], ['07-20', '海の日'], ['09-21', '敬老の日'], ['09-22', '国民の休日'],
+    ['09-23', '秋分の日'], ['10-12', '体育の日'], ['11-03', '文化の日'], ['11-23', '勤労感謝の日'],
+    ['12-23', '天皇誕生日']
+  ],
+  2019: [
+    ['01-01', '元日'], ['01-14', '成人の日'], ['02-11', '建国記念の日'], ['03-21', '春分の日'],
+    ['04-29', '昭和の日'], ['04-30', '国民の休日'], ['05-01', '天皇の即位の日'], ['05-02', '国民の休日'],
+    ['05-03', '憲法記念日'], ['05-04', 'みどりの日'], ['05-05', 'こどもの日'], ['05-06', '振替休日'],
+    ['07-15', '海の日'], ['08-11', '山の日'], ['08-12', '振替休日'], ['09-16', '敬老の日'],
+    ['09-23', '秋分の日'], ['10-14', '体育の日'], ['10-22', '即位礼正殿の儀'], ['11-03', '文化の日'],
+    ['11-04', '振替休日'], ['11-23', '勤労感謝の日']
+  ],
+  2024: [
+    ['01-01', '元日'], ['01-08', '成人の日'], ['02-11', '建国記念の日'], ['02-12', '振替休日'],
+    ['02-23', '天皇誕生日'], ['03-20', '春分の日'], ['04-29', '昭和の日'], ['05-03', '憲法記念日'],
+    ['05-04', 'みどりの日'], ['05-05', 'こどもの日'], ['05-06', '振替休日'], ['07-15', '海の日'],
+    ['08-11', '山の日'], ['08-12', '振替休日'], ['09-16', '敬老の日'], ['09-22', '秋分の日'],
+    ['09-23', '振替休日'], ['10-14', 'スポーツの日'], ['11-03', '文化の日'], ['11-04', '振替休日'],
+    ['11-23', '勤労感謝の日']
+  ],
+  2025: [
+    ['01-01', '元日'], ['01-13', '成人の日'], ['02-11', '建国記念の日'], ['02-23', '天皇誕生日'],
+    ['02-24', '振替休日'], ['03-20', '春分の日'], ['04-29', '昭和の日'], ['05-03', '憲法記念日'],
+    ['05-04', 'みどりの日'], ['05-05', 'こどもの日'], ['05-06', '振替休日'], ['07-21', '海の日'],
+    ['08-11', '山の日'], ['09-15', '敬老の日'], ['09-23', '秋分の日'], ['10-13', 'スポーツの日'],
+    ['11-03', '文化の日'], ['11-23', '勤労感謝の日'], ['11-24', '振替休日']
+  ],
+  2026: [
+    ['01-01', '元日'], ['01-12', '成人の日'], ['02-11', '建国記念の日'], ['02-23', '天皇誕生日'],
+    ['03-20', '春分の日'], ['04-29', '昭和の日'], ['05-03', '憲法記念日'], ['05-04', 'みどりの日'],
+    ['05-05', 'こどもの日'], ['05-06', '振替休日'], ['07-20', '海の日'], ['08-11', '山の日'],
+    ['09-21', '敬老の日'], ['09-22', '国民の休日'], ['09-23', '秋分の日'], ['10-12', 'スポーツの日'],
+    ['11-03', '文化の日'], ['11-23', '勤労感謝の日']
+  ],
+  2032: [
+    ['01-01', '元日'], ['01-12', '成人の日'], ['02-11', '建国記念の日'], ['02-23', '天皇誕生日'],
+    ['03-20', '春分の日'], ['04-29', '昭和の日'], ['05-03', '憲法記念日'], ['05-04', 'みどりの日'],
+    ['05-05', 'こどもの日'], ['07-19', '海の日'], ['08-11', '山の日'], ['09-20', '敬老の日'],
+    ['09-21', '国民の休日'], ['09-22', '秋分の日'], ['10-11', 'スポーツの日'], ['11-03', '文化の日'],
+    ['11-23', '勤労感謝の日']
+  ]
+}
+
+describe('getNationalHolidays', () => {
+  Object.entries(CALENDARS).forEach(([year, expected]) => {
+    it(`matches the ${year} calendar`, () => {
+      expect(getNationalHolidays(Number(year)).map(holiday => [holiday.date, holiday.name]))
+        .toEqual(expected.map(([date, name]) => [`${year}-${date}`, name]))
+    })
+  })
+
+  it('moves a Sunday holiday to the next day that is not a holiday', () => {
+    // 2025年5月4日（日）のみどりの日は、こどもの日の翌日に振り替える
+    expect(getNationalHoliday('2025-05-06')).toEqual({ date: '2025-05-06', name: '振替休日', type: 'substitute' })
+    // 2024年9月22日（日）の秋分の日
+    expect(getNationalHoliday('2024-09-23')).toEqual({ date: '2024-09-23', name: '振替休日', type: 'substitute' })
+  })
+
+  it('marks a weekday between two holidays as a citizens holiday', () => {
+    expect(getNationalHoliday('2015-09-22')?.type).toBe('citizens')
+    expect(getNationalHoliday('2019-04-30')?.type).toBe('citizens')
+    expect(getNationalHoliday('2032-09-21')?.type).toBe('citizens')
+    // 敬老の日と秋分の日の間が2日ある年は国民の休日にならない
+    expect(getNationalHoliday('2025-09-16')).toBeNull()
+  })
+
+  it('calculates the vernal and autumnal equinox days', () => {
+    const equinoxes = (year: number) => getNationalHolidays(year)
+      .filter(holiday => holiday.name === '春分の日' || holiday.name === '秋分の日')
+      .map(holiday => holiday.date)
+
+    expect(equinoxes(2009)).toEqual(['2009-03-20', '2009-09-23'])
+    expect(equinoxes(2015)).toEqual(['2015-03-21', '2015-09-23'])
+    expect(equinoxes(2019)).toEqual(['2019-03-21', '2019-09-23'])
+    expect(equinoxes(2024)).toEqual(['2024-03-20', '2024-09-22'])
+    expect(equinoxes(2025)).toEqual(['2025-03-20', '2025-09-23'])
+    expect(equinoxes(2026)).toEqual(['2026-03-20', '2026-09-23'])
+    expect(equinoxes(2032)).toEqual(['2032-03-20', '2032-09-22'])
+  })
+})
+
+describe('isBusinessDay', () => {
+  it('excludes weekends and holidays including substitute and citizens holidays', () => {
+    expect(isBusinessDay('2026-09-22')).toBe(false)
+    expect(isBusinessDay('2026-05-06')).toBe(false)
+    expect(isBusinessDay('2026-09-24')).toBe(true)
+    expect(isBusinessDay('2026-09-26')).toBe(false)
+    expect(isBusinessDay('2026-09-22', { excludeHolidays: false })).toBe(true)
+  })
+})
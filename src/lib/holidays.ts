@@ -0,0 +1,283 @@
+// 祝日・営業日の計算
+// 国民の祝日は祝日法の改正履歴に沿って年ごとに計算する（ネットワーク不要、1949年以降に対応）
+// 組織の休業日（年末年始・お盆など）は organizations.settings.closures に保存する
+// データベース側の is_business_day / organization_closure_dates と同じ規則で判定する
+
+export type HolidayType = 'national' | 'substitute' | 'citizens' | 'organization'
+
+export interface Holiday {
+  // YYYY-MM-DD
+  date: string
+  name: string
+  type: HolidayType
+}
+
+export interface OrganizationClosure {
+  id: string
+  name: string
+  // 毎年繰り返す場合は MM-DD、それ以外は YYYY-MM-DD（終了日が開始日より前なら翌年まで）
+  startDate: string
+  endDate: string
+  recurring: boolean
+}
+
+export interface BusinessDayOptions {
+  // 既定はいずれも true。組織の休業日は祝日を除外する場合に適用する
+  excludeWeekends?: boolean
+  excludeHolidays?: boolean
+  closures?: OrganizationClosure[]
+}
+
+export const ORGANIZATION_CLOSURE_PRESETS: Omit<OrganizationClosure, 'id'>[] = [
+  { name: '年末年始', startDate: '12-29', endDate: '01-03', recurring: true },
+  { name: 'お盆', startDate: '08-13', endDate: '08-16', recurring: true }
+]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const MONTH_DAY_PATTERN = /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/
+const DATE_PATTERN = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/
+
+// 日付は UTC の 0 時として扱い、タイムゾーンによるずれを避ける
+const fromKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+const toKey = (date: Date) => date.toISOString().slice(0, 10)
+
+const makeKey = (year: number, month: number, day: number) => toKey(new Date(Date.UTC(year, month - 1, day)))
+
+const shiftKey = (key: string, days: number) => toKey(new Date(fromKey(key).getTime() + days * DAY_MS))
+
+// 0 = 日曜日
+const weekdayOf = (key: string) => fromKey(key).getUTCDay()
+
+// 文字列はそのまま、Date はローカル日付を YYYY-MM-DD にする
+export function toDateKey(date: string | Date) {
+  if (typeof date === 'string') return date.slice(0, 10)
+  return makeKey(date.getFullYear(), date.getMonth() + 1, date.getDate())
+}
+
+const nthMonday = (year: number, month: number, nth: number) => {
+  const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay()
+  return makeKey(year, month, 1 + ((8 - first) % 7) + (nth - 1) * 7)
+}
+
+// 春分日・秋分日の近似式
+const equinoxDay = (year: number, season: 'vernal' | 'autumnal') => {
+  if (year < 1980) {
+    const base = season === 'vernal' ? 20.8357 : 23.2588
+    return Math.floor(base + 0.242194 * (year - 1980) - Math.floor((year - 1983) / 4))
+  }
+  const base = year <= 2099
+    ? (season === 'vernal' ? 20.8431 : 23.2488)
+    : (season === 'vernal' ? 21.8510 : 24.2488)
+  return Math.floor(base + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4))
+}
+
+// 祝日法で定める祝日（振替休日・国民の休日を除く）
+const getStatutoryHolidays = (year: number): Holiday[] => {
+  const holidays: Holiday[] = []
+  const add = (date: string, name: string) => holidays.push({ date, name, type: 'national' })
+
+  add(makeKey(year, 1, 1), '元日')
+  add(year >= 2000 ? nthMonday(year, 1, 2) : makeKey(year, 1, 15), '成人の日')
+  if (year >= 1967) add(makeKey(year, 2, 11), '建国記念の日')
+  if (year >= 2020) add(makeKey(year, 2, 23), '天皇誕生日')
+  add(makeKey(year, 3, equinoxDay(year, 'vernal')), '春分の日')
+  add(makeKey(year, 4, 29), year >= 2007 ? '昭和の日' : year >= 1989 ? 'みどりの日' : '天皇誕生日')
+  add(makeKey(year, 5, 3), '憲法記念日')
+  if (year >= 2007) add(makeKey(year, 5, 4), 'みどりの日')
+  add(makeKey(year, 5, 5), 'こどもの日')
+
+  // 2020・2021年は東京オリンピック・パラリンピックに伴う移動
+  if (year === 2020) add('2020-07-23', '海の日')
+  else if (year === 2021) add('2021-07-22', '海の日')
+  else if (year >= 2003) add(nthMonday(year, 7, 3), '海の日')
+  else if (year >= 1996) add(makeKey(year, 7, 20), '海の日')
+
+  if (year === 2020) add('2020-08-10', '山の日')
+  else if (year === 2021) add('2021-08-08', '山の日')
+  else if (year >= 2016) add(makeKey(year, 8, 11), '山の日')
+
+  if (year >= 2003) add(nthMonday(year, 9, 3), '敬老の日')
+  else if (year >= 1966) add(makeKey(year, 9, 15), '敬老の日')
+  add(makeKey(year, 9, equinoxDay(year, 'autumnal')), '秋分の日')
+
+  if (year === 2020) add('2020-07-24', 'スポーツの日')
+  else if (year === 2021) add('2021-07-23', 'スポーツの日')
+  else if (year >= 2022) add(nthMonday(year, 10, 2), 'スポーツの日')
+  else if (year >= 2000) add(nthMonday(year, 10, 2), '体育の日')
+  else if (year >= 1966) add(makeKey(year, 10, 10), '体育の日')
+
+  add(makeKey(year, 11, 3), '文化の日')
+  add(makeKey(year, 11, 23), '勤労感謝の日')
+  if (year >= 1989 && year <= 2018) add(makeKey(year, 12, 23), '天皇誕生日')
+
+  // 皇室の慶弔行事に伴う休日
+  const ceremonies: { [date: string]: string } = {
+    '1959-04-10': '皇太子明仁親王の結婚の儀',
+    '1989-02-24': '昭和天皇の大喪の礼',
+    '1990-11-12': '即位礼正殿の儀',
+    '1993-06-09': '皇太子徳仁親王の結婚の儀',
+    '2019-05-01': '天皇の即位の日',
+    '2019-10-22': '即位礼正殿の儀'
+  }
+  Object.entries(ceremonies)
+    .filter(([date]) => date.startsWith(`${year}-`))
+    .forEach(([date, name]) => add(date, name))
+
+  return holidays
+}
+
+const holidayCache = new Map<number, Holiday[]>()
+
+// 指定した年の国民の祝日・休日（日付順）
+export function getNationalHolidays(year: number): Holiday[] {
+  const cached = holidayCache.get(year)
+  if (cached) return cached
+  if (year < 1949) return []
+
+  const statutory = getStatutoryHolidays(year)
+  const dates = new Set(statutory.map(holiday => holiday.date))
+  const additional: Holiday[] = []
+
+  // 振替休日: 1973年4月以降、日曜日の祝日の翌日（2007年以降はその後の最初の祝日でない日）
+  statutory
+    .filter(holiday => weekdayOf(holiday.date) === 0 && holiday.date >= '1973-04-12')
+    .forEach(holiday => {
+      let date = shiftKey(holiday.date, 1)
+      if (year >= 2007) {
+        while (dates.has(date)) date = shiftKey(date, 1)
+      } else if (dates.has(date)) {
+        return
+      }
+      additional.push({ date, name: '振替休日', type: 'substitute' })
+    })
+
+  // 国民の休日: 1986年以降、前日と翌日が祝日である平日
+  if (year >= 1986) {
+    const substitutes = new Set(additional.map(holiday => holiday.date))
+    statutory.forEach(holiday => {
+      const date = shiftKey(holiday.date, 1)
+      if (
+        dates.has(shiftKey(holiday.date, 2)) &&
+        !dates.has(date) &&
+        !substitutes.has(date) &&
+        weekdayOf(date) !== 0 &&
+        date.startsWith(`${year}-`)
+      ) {
+        additional.push({ date, name: '国民の休日', type: 'citizens' })
+      }
+    })
+  }
+
+  const holidays = [...statutory, ...additional]
+    .filter(holiday => holiday.date.startsWith(`${year}-`))
+    .sort((a, b) => a.date.localeCompare(b.date))
+  holidayCache.set(year, holidays)
+  return holidays
+}
+
+export function getNationalHoliday(date: string | Date): Holiday | null {
+  const key = toDateKey(date)
+  return getNationalHolidays(Number(key.slice(0, 4))).find(holiday => holiday.date === key) || null
+}
+
+const hasValidClosureDates = (closure: OrganizationClosure) => {
+  const pattern = closure.recurring ? MONTH_DAY_PATTERN : DATE_PATTERN
+  return pattern.test(closure.startDate) && pattern.test(closure.endDate)
+}
+
+// 名称があり、日付が正しい形式か（毎年繰り返す場合は MM-DD、それ以外は YYYY-MM-DD）
+export function isValidOrganizationClosure(closure: OrganizationClosure) {
+  return !!closure.name.trim() && hasValidClosureDates(closure)
+}
+
+// 指定した年に含まれる組織の休業日（日付が正しくない休業日は無視する）
+export function getClosureDates(closures: OrganizationClosure[], year: number): Holiday[] {
+  const holidays: Holiday[] = []
+  closures.filter(hasValidClosureDates).forEach(closure => {
+    const ranges: [string, string][] = closure.recurring
+      ? [year - 1, year].map(startYear => {
+          const start = `${startYear}-${closure.startDate}`
+          const end = `${closure.endDate < closure.startDate ? startYear + 1 : startYear}-${closure.endDate}`
+          return [start, end]
+        })
+      : [[closure.startDate, closure.endDate < closure.startDate ? closure.startDate : closure.endDate]]
+
+    ranges.forEach(([start, end]) => {
+      const [from, to] = [toKey(fromKey(start)), toKey(fromKey(end))]
+      for (let date = from; date <= to; date = shiftKey(date, 1)) {
+        if (date.startsWith(`${year}-`)) holidays.push({ date, name: closure.name, type: 'organization' })
+      }
+    })
+  })
+  return holidays.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+// 国民の祝日と組織の休業日を合わせた休日（日付順）
+export function getHolidays(year: number, closures: OrganizationClosure[] = []): Holiday[] {
+  const national = getNationalHolidays(year)
+  const nationalDates = new Set(national.map(holiday => holiday.date))
+  return [...national, ...getClosureDates(closures, year).filter(holiday => !nationalDates.has(holiday.date))]
+    .sort((a, b) => a.date.localeCompare(b.date))
+}
+
+export function isBusinessDay(date: string | Date, options: BusinessDayOptions = {}) {
+  const { excludeWeekends = true, excludeHolidays = true, closures = [] } = options
+  const key = toDateKey(date)
+  const weekday = weekdayOf(key)
+  if (excludeWeekends && (weekday === 0 || weekday === 6)) return false
+  if (!excludeHolidays) return true
+  if (getNationalHoliday(key)) return false
+  return !getClosureDates(closures, Number(key.slice(0, 4))).some(holiday => holiday.date === key)
+}
+
+// 営業日を加算する（負の値は遡る。0 の場合は同じ日を返す）
+export function addBusinessDays(date: string | Date, days: number, options: BusinessDayOptions = {}) {
+  let key = toDateKey(date)
+  const step = days < 0 ? -1 : 1
+  let remaining = Math.abs(Math.trunc(days))
+  while (remaining > 0) {
+    key = shiftKey(key, step)
+    if (isBusinessDay(key, options)) remaining--
+  }
+  return key
+}
+
+// from の翌日から to までの営業日数（to が from 以前なら 0）
+export function countBusinessDays(from: string | Date, to: string | Date, options: BusinessDayOptions = {}) {
+  const end = toDateKey(to)
+  let count = 0
+  for (let key = shiftKey(toDateKey(from), 1); key <= end; key = shiftKey(key, 1)) {
+    if (isBusinessDay(key, options)) count++
+  }
+  return count
+}
+
+// from 以降の祝日・休業日を件数分返す
+export function getUpcomingHolidays(from: string | Date, limit: number, closures: OrganizationClosure[] = []) {
+  const start = toDateKey(from)
+  const startYear = Number(start.slice(0, 4))
+  const upcoming: Holiday[] = []
+  for (let year = startYear; year <= startYear + 1 && upcoming.length < limit; year++) {
+    upcoming.push(...getHolidays(year, closures).filter(holiday => holiday.date >= start))
+  }
+  return upcoming.slice(0, limit)
+}
+
+export function normalizeOrganizationClosures(value: unknown): OrganizationClosure[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .filter(closure => closure && typeof closure === 'object')
+    .map((closure, index) => ({
+      id: String(closure.id || `closure-${index}`),
+      name: String(closure.name || ''),
+      startDate: String(closure.startDate || ''),
+      endDate: String(closure.endDate || ''),
+      recurring: !!closure.recurring
+    }))
+    .filter(isValidOrganizationClosure)
+}
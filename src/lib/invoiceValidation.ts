@@ -0,0 +1,253 @@
+import type { ReceiptMetadata, TaxRateBreakdown } from './receiptOcr'
+
+// インボイス制度（適格請求書等保存方式）の検証
+
+export interface RegisteredBusiness {
+  registrationNumber: string
+  name: string
+  kind: 'corporation' | 'individual'
+  registeredAt: string
+  expiredAt?: string | null
+}
+
+export interface RegistryLookupResult {
+  status: 'registered' | 'not_registered' | 'unknown'
+  business: RegisteredBusiness | null
+}
+
+// 適格請求書発行事業者の登録状況を照会するインターフェース（国税庁公表サイト等に差し替え可能）
+export interface InvoiceRegistry {
+  name: string
+  lookup: (registrationNumber: string, transactionDate?: string) => Promise<RegistryLookupResult>
+}
+
+export type InputTaxCreditStatus = 'full' | 'exempt' | 'transitional_80' | 'transitional_50' | 'none'
+
+export interface InvoiceValidationIssue {
+  field: 'invoiceNumber' | 'taxBreakdown' | 'totalAmount' | 'registry'
+  severity: 'error' | 'warning'
+  message: string
+}
+
+export interface InvoiceValidationResult {
+  isQualifiedInvoice: boolean
+  registrationNumber: string | null
+  registryStatus: RegistryLookupResult['status'] | null
+  registeredName: string | null
+  inputTaxCredit: InputTaxCreditStatus
+  creditRatio: number
+  exemptionReason: string | null
+  issues: InvoiceValidationIssue[]
+  registry: string
+  validatedAt: string
+}
+
+export interface InvoiceValidationInput {
+  date: string
+  amount: number
+  category?: string
+  receiptMetadata?: ReceiptMetadata | null
+}
+
+export const INPUT_TAX_CREDIT_LABELS: { [status in InputTaxCreditStatus]: string } = {
+  full: '適格請求書（全額控除）',
+  exempt: '帳簿のみ保存の特例（全額控除）',
+  transitional_80: '経過措置（80%控除）',
+  transitional_50: '経過措置（50%控除）',
+  none: '仕入税額控除不可'
+}
+
+// 帳簿のみの保存で仕入税額控除が認められる経費区分
+const EXEMPT_CATEGORIES: { [category: string]: string } = {
+  '日当': '出張旅費等特例'
+}
+
+// 免税事業者等からの仕入れに係る経過措置の期間
+const TRANSITIONAL_PERIODS: { from: string, to: string, status: InputTaxCreditStatus, ratio: number }[] = [
+  { from: '2023-10-01', to: '2026-09-30', status: 'transitional_80', ratio: 0.8 },
+  { from: '2026-10-01', to: '2029-09-30', status: 'transitional_50', ratio: 0.5 }
+]
+
+const INVOICE_START_DATE = '2023-10-01'
+
+// 「T」+13桁の形式に正規化する（全角・ハイフン・空白を除去）
+export function normalizeRegistrationNumber(value: string | null | undefined): string | null {
+  if (!value) return null
+  const normalized = value.normalize('NFKC').toUpperCase().replace(/[\s-]/g, '')
+  return /^T\d{13}$/.test(normalized) ? normalized : null
+}
+
+// 法人番号と同じ算式で先頭のチェックデジットを求める
+// 9 - (下位12桁の各桁 × 重み（奇数桁1・偶数桁2）の和を9で割った余り)
+export function calculateCheckDigit(baseDigits: string): number {
+  const digits = baseDigits.split('').reverse().map(Number)
+  const sum = digits.reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 1 : 2), 0)
+  return 9 - (sum % 9)
+}
+
+export function isValidRegistrationNumber(value: string | null | undefined): boolean {
+  const normalized = normalizeRegistrationNumber(value)
+  if (!normalized) return false
+  const digits = normalized.slice(1)
+  return Number(digits[0]) === calculateCheckDigit(digits.slice(1))
+}
+
+// 取引日に適用される経過措置を求める（適格請求書がない場合の控除割合）
+export function getTransitionalCredit(transactionDate: string): { status: InputTaxCreditStatus, ratio: number } {
+  const date = transactionDate.slice(0, 10)
+  if (date && date < INVOICE_START_DATE) {
+    // 制度開始前の取引は区分記載請求書で全額控除
+    return { status: 'full', ratio: 1 }
+  }
+  const period = TRANSITIONAL_PERIODS.find(p => date >= p.from && date <= p.to)
+  return period ? { status: period.status, ratio: period.ratio } : { status: 'none', ratio: 0 }
+}
+
+// 税率ごとの対価の額と消費税額の整合性を確認する
+// 端数処理は税率ごとに1回まで認められるため、1円未満の差は許容する
+export function validateTaxBreakdown(breakdown: TaxRateBreakdown[], totalAmount: number): InvoiceValidationIssue[] {
+  const issues: InvoiceValidationIssue[] = []
+
+  if (breakdown.length === 0) {
+    issues.push({ field: 'taxBreakdown', severity: 'error', message: '税率ごとに区分した金額と消費税額の記載がありません' })
+    return issues
+  }
+
+  breakdown.forEach(item => {
+    if (item.rate !== 8 && item.rate !== 10) {
+      issues.push({ field: 'taxBreakdown', severity: 'error', message: `適用税率 ${item.rate}% は対象外です` })
+      return
+    }
+    const inclusive = item.taxableAmount * item.rate / (100 + item.rate)
+    const exclusive = item.taxableAmount * item.rate / 100
+    if (Math.abs(item.taxAmount - inclusive) >= 1 && Math.abs(item.taxAmount - exclusive) >= 1) {
+      issues.push({
+        field: 'taxBreakdown',
+        severity: 'error',
+        message: `${item.rate}%対象の消費税額 ¥${item.taxAmount.toLocaleString()} が対価の額と一致しません`
+      })
+    }
+  })
+
+  if (totalAmount > 0) {
+    const taxable = breakdown.reduce((sum, item) => sum + item.taxableAmount, 0)
+    const withTax = breakdown.reduce((sum, item) => sum + item.taxableAmount + item.taxAmount, 0)
+    if (taxable !== totalAmount && withTax !== totalAmount) {
+      issues.push({ field: 'totalAmount', severity: 'warning', message: '税率別の金額の合計が領収金額と一致しません' })
+    }
+  }
+
+  return issues
+}
+
+// オフライン用の登録事業者名簿（既知の事業者を登録して使用する）
+// strict を指定しない場合、名簿にない番号は「照会不可」として扱う
+export function createLocalInvoiceRegistry(
+  seed: RegisteredBusiness[] = [],
+  options: { strict?: boolean } = {}
+): InvoiceRegistry & { register: (business: RegisteredBusiness) => void, unregister: (registrationNumber: string) => void } {
+  const businesses = new Map<string, RegisteredBusiness>()
+
+  const register = (business: RegisteredBusiness) => {
+    const number = normalizeRegistrationNumber(business.registrationNumber)
+    if (number) businesses.set(number, { ...business, registrationNumber: number })
+  }
+  seed.forEach(register)
+
+  return {
+    name: 'local',
+    register,
+    unregister: (registrationNumber: string) => {
+      const number = normalizeRegistrationNumber(registrationNumber)
+      if (number) businesses.delete(number)
+    },
+    lookup: async (registrationNumber: string, transactionDate?: string) => {
+      const number = normalizeRegistrationNumber(registrationNumber)
+      const business = number ? businesses.get(number) : undefined
+
+      if (!business) {
+        return { status: options.strict ? 'not_registered' : 'unknown', business: null }
+      }
+
+      // 取引日が登録期間外であれば適格請求書とならない
+      const date = transactionDate?.slice(0, 10)
+      if (date && (date < business.registeredAt || (business.expiredAt && date > business.expiredAt))) {
+        return { status: 'not_registered', business }
+      }
+      return { status: 'registered', business }
+    }
+  }
+}
+
+let currentRegistry: InvoiceRegistry | null = null
+
+export function setInvoiceRegistry(registry: InvoiceRegistry | null) {
+  currentRegistry = registry
+}
+
+export function getInvoiceRegistry(): InvoiceRegistry {
+  if (!currentRegistry) {
+    currentRegistry = createLocalInvoiceRegistry()
+  }
+  return currentRegistry
+}
+
+// 経費項目の領収書が適格請求書に該当するか判定し、仕入税額控除の可否を求める
+export async function validateExpenseInvoice(
+  input: InvoiceValidationInput,
+  registry: InvoiceRegistry = getInvoiceRegistry()
+): Promise<InvoiceValidationResult> {
+  const issues: InvoiceValidationIssue[] = []
+  const metadata = input.receiptMetadata
+  const rawNumber = metadata?.invoiceNumber.value || ''
+  const registrationNumber = normalizeRegistrationNumber(rawNumber)
+
+  let registryStatus: RegistryLookupResult['status'] | null = null
+  let registeredName: string | null = null
+
+  if (!rawNumber) {
+    issues.push({ field: 'invoiceNumber', severity: 'error', message: '登録番号の記載がありません' })
+  } else if (!registrationNumber) {
+    issues.push({ field: 'invoiceNumber', severity: 'error', message: '登録番号は「T」+13桁の数字で記載されている必要があります' })
+  } else if (!isValidRegistrationNumber(registrationNumber)) {
+    issues.push({ field: 'invoiceNumber', severity: 'error', message: '登録番号のチェックデジットが一致しません' })
+  } else {
+    const lookup = await registry.lookup(registrationNumber, input.date)
+    registryStatus = lookup.status
+    registeredName = lookup.business?.name || null
+
+    if (lookup.status === 'not_registered') {
+      issues.push({ field: 'registry', severity: 'error', message: '取引日時点で適格請求書発行事業者として登録されていません' })
+    } else if (lookup.status === 'unknown') {
+      issues.push({ field: 'registry', severity: 'warning', message: '登録状況を照会できなかったため、適格請求書として扱いません' })
+    }
+  }
+
+  issues.push(...validateTaxBreakdown(metadata?.taxBreakdown || [], metadata?.totalAmount.value || input.amount))
+
+  // 登録を確認できた事業者の請求書だけを適格請求書とする（照会できない場合は全額控除にしない）
+  const isQualifiedInvoice = registryStatus === 'registered' && !issues.some(issue => issue.severity === 'error')
+
+  const exemptionReason = input.category && EXEMPT_CATEGORIES[input.category]
+    ? EXEMPT_CATEGORIES[input.category]
+    : null
+
+  const credit = isQualifiedInvoice
+    ? { status: 'full' as InputTaxCreditStatus, ratio: 1 }
+    : exemptionReason
+      ? { status: 'exempt' as InputTaxCreditStatus, ratio: 1 }
+      : getTransitionalCredit(input.date)
+
+  return {
+    isQualifiedInvoice,
+    registrationNumber,
+    registryStatus,
+    registeredName,
+    inputTaxCredit: credit.status,
+    creditRatio: credit.ratio,
+    exemptionReason: isQualifiedInvoice ? null : exemptionReason,
+    issues,
+    registry: registry.name,
+    validatedAt: new Date().toISOString()
+  }
+}
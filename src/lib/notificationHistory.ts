@@ -0,0 +1,97 @@
+// 通知履歴（notifications）の絞り込みと保存期間
+// カテゴリは notifications.type、種類は data.event（notify_user の通知イベント）に対応する
+import { EMAIL_EVENT_LABELS, type EmailEvent } from './notificationPreferences'
+
+export type NotificationCategory = 'approval' | 'reminder' | 'system' | 'update'
+
+export interface NotificationRecord {
+  id: string
+  user_id: string
+  organization_id?: string | null
+  type: string
+  title: string
+  message: string
+  data: { [key: string]: unknown } | null
+  read: boolean
+  read_at: string | null
+  created_at: string
+}
+
+export interface NotificationHistoryFilters {
+  category: NotificationCategory | 'all'
+  event: EmailEvent | 'all'
+  read: 'all' | 'unread' | 'read'
+  search: string
+}
+
+export const NOTIFICATION_HISTORY_PAGE_SIZE = 30
+
+export const DEFAULT_NOTIFICATION_HISTORY_FILTERS: NotificationHistoryFilters = {
+  category: 'all',
+  event: 'all',
+  read: 'all',
+  search: ''
+}
+
+export const NOTIFICATION_CATEGORY_LABELS: { [category in NotificationCategory]: string } = {
+  approval: '承認',
+  reminder: 'リマインド',
+  system: 'システム',
+  update: '更新'
+}
+
+// notify_user（SQL）の種別の対応と合わせる
+export const NOTIFICATION_EVENT_CATEGORIES: { [event in EmailEvent]: NotificationCategory } = {
+  approval_request: 'approval',
+  application_approved: 'approval',
+  application_rejected: 'update',
+  application_returned: 'update',
+  approval_reminder: 'reminder',
+  accounting_error: 'system'
+}
+
+export function getNotificationEvent(notification: Pick<NotificationRecord, 'type' | 'data'>): EmailEvent | null {
+  const event = notification.data?.event
+  if (EMAIL_EVENT_LABELS.some(item => item.event === event)) return event as EmailEvent
+  return notification.type === 'reminder' ? 'approval_reminder' : null
+}
+
+export function getNotificationEventLabel(notification: Pick<NotificationRecord, 'type' | 'data'>) {
+  const event = getNotificationEvent(notification)
+  return EMAIL_EVENT_LABELS.find(item => item.event === event)?.label || null
+}
+
+// 検索語を ilike のパターンにする（PostgREST の or 条件を壊す文字とワイルドカードは除く）
+export function toNotificationSearchPattern(search: string) {
+  const term = search.replace(/[,()"*%_\\]/g, ' ').trim()
+  return term ? `%${term}%` : null
+}
+
+// デモモードなど、読み込み済みの通知を同じ条件で絞り込む
+export function matchesNotificationFilters(notification: NotificationRecord, filters: NotificationHistoryFilters) {
+  const search = filters.search.trim().toLowerCase()
+  return (filters.category === 'all' || notification.type === filters.category) &&
+    (filters.event === 'all' || getNotificationEvent(notification) === filters.event) &&
+    (filters.read === 'all' || notification.read === (filters.read === 'read')) &&
+    (!search || notification.title.toLowerCase().includes(search) || notification.message.toLowerCase().includes(search))
+}
+
+// 保存期間（日数）。0 は無期限で、未設定は365日（notification_retention_days と合わせる）
+export const DEFAULT_NOTIFICATION_RETENTION_DAYS = 365
+
+export const NOTIFICATION_RETENTION_OPTIONS: { days: number, label: string }[] = [
+  { days: 30, label: '30日' },
+  { days: 90, label: '90日' },
+  { days: 180, label: '180日' },
+  { days: 365, label: '1年' },
+  { days: 730, label: '2年' },
+  { days: 0, label: '無期限' }
+]
+
+export function normalizeNotificationRetentionDays(value: unknown) {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.floor(value) : DEFAULT_NOTIFICATION_RETENTION_DAYS
+}
+
+export function getNotificationRetentionLabel(days: number) {
+  return NOTIFICATION_RETENTION_OPTIONS.find(option => option.days === days)?.label || `${days}日`
+}
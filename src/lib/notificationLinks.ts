@@ -0,0 +1,34 @@
+// 通知メール・プッシュ通知のリンク
+//   ?application=<申請ID> - 承認画面、&detail=business-trip|expense を付けると申請詳細
+//   ?view=<画面>&job=<送信ジョブID> - 会計連携エラーなどの画面
+// リンクの形式は emailTemplates.ts の buildEmailLink と notification_push_url（SQL）と合わせる
+
+const LINK_PARAMS = ['application', 'detail', 'view', 'job']
+
+export type NotificationDetailType = 'business-trip' | 'expense'
+
+export interface NotificationLink {
+  applicationId: string | null
+  detailType: NotificationDetailType | null
+  view: string | null
+  jobId: string | null
+}
+
+export function getNotificationLinkFromUrl(search: string = window.location.search): NotificationLink | null {
+  const params = new URLSearchParams(search)
+  const detail = params.get('detail')
+  const link: NotificationLink = {
+    applicationId: params.get('application'),
+    detailType: detail === 'business-trip' || detail === 'expense' ? detail : null,
+    view: params.get('view'),
+    jobId: params.get('job')
+  }
+  return link.applicationId || link.view ? link : null
+}
+
+// 画面を開いた後は再読み込みで同じ画面に戻らないようにする
+export function clearNotificationLinkFromUrl() {
+  const url = new URL(window.location.href)
+  LINK_PARAMS.forEach(param => url.searchParams.delete(param))
+  window.history.replaceState(null, '', url.toString())
+}
@@ -0,0 +1,73 @@
+// 通知設定（notification_preferences）
+// メール送信ジョブの登録時にデータベース側で適用される（対象外のイベントは送信せず、通知停止時間帯は終了時刻まで遅らせる）
+
+export type EmailEvent =
+  | 'approval_request'
+  | 'application_approved'
+  | 'application_rejected'
+  | 'application_returned'
+  | 'approval_reminder'
+  | 'accounting_error'
+
+export interface NotificationPreferences {
+  emailEnabled: boolean
+  pushEnabled: boolean
+  emailEvents: EmailEvent[]
+  quietHoursEnabled: boolean
+  // HH:MM（日本時間）。開始が終了より後なら日をまたぐ
+  quietHoursStart: string
+  quietHoursEnd: string
+}
+
+export interface NotificationPreferencesRow {
+  user_id: string
+  email_enabled: boolean
+  push_enabled: boolean
+  email_events: string[]
+  quiet_hours_enabled: boolean
+  quiet_hours_start: string
+  quiet_hours_end: string
+  updated_at?: string
+}
+
+export const EMAIL_EVENT_LABELS: { event: EmailEvent, label: string, description: string }[] = [
+  { event: 'approval_request', label: '承認依頼', description: '自分が承認者の申請が提出されたとき' },
+  { event: 'application_approved', label: '承認', description: '自分の申請が承認されたとき' },
+  { event: 'application_rejected', label: '却下', description: '自分の申請が却下されたとき' },
+  { event: 'application_returned', label: '差し戻し', description: '自分の申請が差し戻されたとき' },
+  { event: 'approval_reminder', label: '承認リマインド', description: '承認待ちの申請が一定期間を過ぎたとき' },
+  { event: 'accounting_error', label: '会計連携エラー', description: '会計ソフトへの連携が失敗したとき（管理者）' }
+]
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  emailEnabled: true,
+  pushEnabled: true,
+  emailEvents: EMAIL_EVENT_LABELS.map(item => item.event),
+  quietHoursEnabled: false,
+  quietHoursStart: '22:00',
+  quietHoursEnd: '08:00'
+}
+
+const isEmailEvent = (value: string): value is EmailEvent => EMAIL_EVENT_LABELS.some(item => item.event === value)
+
+// time 型は HH:MM:SS で返るため HH:MM に揃える
+export const toNotificationPreferences = (row: NotificationPreferencesRow | null): NotificationPreferences => row
+  ? {
+      emailEnabled: row.email_enabled,
+      pushEnabled: row.push_enabled,
+      emailEvents: (row.email_events || []).filter(isEmailEvent),
+      quietHoursEnabled: row.quiet_hours_enabled,
+      quietHoursStart: row.quiet_hours_start.slice(0, 5),
+      quietHoursEnd: row.quiet_hours_end.slice(0, 5)
+    }
+  : DEFAULT_NOTIFICATION_PREFERENCES
+
+export const toNotificationPreferencesRow = (userId: string, preferences: NotificationPreferences) => ({
+  user_id: userId,
+  email_enabled: preferences.emailEnabled,
+  push_enabled: preferences.pushEnabled,
+  email_events: preferences.emailEvents,
+  quiet_hours_enabled: preferences.quietHoursEnabled,
+  quiet_hours_start: preferences.quietHoursStart,
+  quiet_hours_end: preferences.quietHoursEnd
+})
@@ -0,0 +1,136 @@
+// 組織とメンバーの役割、招待リンク
+// 役割の変更・招待・削除はデータベースの関数で権限を確認する（この判定は画面の表示用）
+
+export type OrganizationRole = 'owner' | 'admin' | 'manager' | 'member'
+
+export type InvitableRole = Exclude<OrganizationRole, 'owner'>
+
+export interface OrganizationMembership {
+  id: string
+  name: string
+  description: string | null
+  role: OrganizationRole
+  joined_at: string
+  member_count: number
+}
+
+export interface OrganizationMember {
+  user_id: string
+  role: OrganizationRole
+  joined_at: string
+  full_name: string | null
+  email: string | null
+  department: string | null
+  position: string | null
+}
+
+export interface OrganizationInvitation {
+  id: string
+  organization_id: string
+  email: string
+  role: InvitableRole
+  token: string
+  invited_by: string | null
+  expires_at: string
+  accepted_at: string | null
+  accepted_by: string | null
+  revoked_at: string | null
+  created_at: string
+}
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired'
+
+export interface InvitationDetails {
+  organization_id: string
+  organization_name: string
+  email: string
+  role: InvitableRole
+  inviter: string | null
+  expires_at: string
+  status: InvitationStatus
+  email_matches: boolean
+  already_member: boolean
+}
+
+export const ORGANIZATION_ROLE_LABELS: { [role in OrganizationRole]: string } = {
+  owner: 'オーナー',
+  admin: '管理者',
+  manager: 'マネージャー',
+  member: 'メンバー'
+}
+
+export const INVITABLE_ROLES: InvitableRole[] = ['admin', 'manager', 'member']
+
+export function canManageMembers(role: OrganizationRole | null | undefined) {
+  return role === 'owner' || role === 'admin'
+}
+
+// 管理者の任命・解任と管理者の削除はオーナーのみ
+export function canAssignRole(actorRole: OrganizationRole | null | undefined, targetRole: OrganizationRole, nextRole: InvitableRole) {
+  if (!canManageMembers(actorRole) || targetRole === 'owner') return false
+  return actorRole === 'owner' || (targetRole !== 'admin' && nextRole !== 'admin')
+}
+
+export function canRemoveMember(actorRole: OrganizationRole | null | undefined, targetRole: OrganizationRole) {
+  if (!canManageMembers(actorRole) || targetRole === 'owner') return false
+  return actorRole === 'owner' || targetRole !== 'admin'
+}
+
+export function getInvitationStatus(invitation: OrganizationInvitation, now: Date = new Date()): InvitationStatus {
+  if (invitation.accepted_at) return 'accepted'
+  if (invitation.revoked_at) return 'revoked'
+  return new Date(invitation.expires_at) <= now ? 'expired' : 'pending'
+}
+
+// 招待リンク（?invitation=<トークン>）。未ログインで開いた場合に備えてログイン後まで保存しておく
+const INVITATION_PARAM = 'invitation'
+const PENDING_INVITATION_KEY = 'pendingInvitationToken'
+
+export function buildInvitationLink(token: string, origin: string = window.location.origin) {
+  const url = new URL('/', origin)
+  url.searchParams.set(INVITATION_PARAM, token)
+  return url.toString()
+}
+
+export function capturePendingInvitation(search: string = window.location.search) {
+  const token = new URLSearchParams(search).get(INVITATION_PARAM)
+  if (!token) return
+  localStorage.setItem(PENDING_INVITATION_KEY, token)
+  const url = new URL(window.location.href)
+  url.searchParams.delete(INVITATION_PARAM)
+  window.history.replaceState(null, '', url.toString())
+}
+
+export function getPendingInvitation() {
+  return localStorage.getItem(PENDING_INVITATION_KEY)
+}
+
+export function clearPendingInvitation() {
+  localStorage.removeItem(PENDING_INVITATION_KEY)
+}
+
+// データベースの関数のエラーを画面表示用の文言にする
+const ORGANIZATION_ERROR_MESSAGES: { [message: string]: string } = {
+  'Organization name is required': '組織名を入力してください',
+  'Not allowed to invite members': 'メンバーを招待する権限がありません',
+  'Only the owner can invite admins': '管理者として招待できるのはオーナーのみです',
+  'Invalid email address': 'メールアドレスの形式が正しくありません',
+  'This user is already a member': 'このユーザーは既にメンバーです',
+  'Invitation not found': '招待が見つからないか、取り消されています',
+  'Invitation has already been used': 'この招待は既に使用されています',
+  'Invitation has expired': '招待の有効期限が切れています。管理者に再送を依頼してください',
+  'This invitation was sent to a different email address': 'この招待は別のメールアドレス宛てです。招待されたメールアドレスでログインしてください',
+  'Not allowed to change member roles': '役割を変更する権限がありません',
+  'Member not found': 'メンバーが見つかりません',
+  'Transfer ownership before changing the owner\'s role': 'オーナーの役割は変更できません。先にオーナーを移譲してください',
+  'Only the owner can assign or remove admins': '管理者の任命・解任はオーナーのみ可能です',
+  'The owner cannot be removed. Transfer ownership first': 'オーナーは削除できません。先にオーナーを移譲してください',
+  'Not allowed to remove members': 'メンバーを削除する権限がありません',
+  'Only the owner can remove admins': '管理者を削除できるのはオーナーのみです',
+  'Only the owner can transfer ownership': 'オーナーの移譲はオーナーのみ可能です',
+  'Not a member of this organization': 'この組織のメンバーではありません'
+}
+
+export function toOrganizationErrorMessage(message: string | undefined) {
+  return (message && ORGANIZATION_ERROR_MESSAGES[message]) || message || '処理に失敗しました'
+}
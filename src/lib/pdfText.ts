@@ -0,0 +1,668 @@
+// PDFからテキストを抽出する（取り込み用の簡易パーサー）
+// テキストは1行ごとに改行で区切り、同じ行で離れた位置にある文字列（表のセルなど）は空白で区切る
+
+export interface PdfTextResult {
+  pages: string[]
+  text: string
+  warnings: string[]
+}
+
+type PdfValue =
+  | number
+  | boolean
+  | null
+  | PdfName
+  | PdfString
+  | PdfRef
+  | PdfOperator
+  | PdfDict
+  | PdfValue[]
+
+interface PdfName { kind: 'name', value: string }
+interface PdfString { kind: 'string', value: string }
+interface PdfRef { kind: 'ref', num: number }
+interface PdfOperator { kind: 'op', value: string }
+interface PdfDict { kind: 'dict', entries: { [key: string]: PdfValue } }
+
+interface PdfObject {
+  value: PdfValue
+  stream?: string
+}
+
+const isObjectOf = <K extends string>(value: PdfValue | undefined, kind: K): value is Extract<PdfValue, { kind: K }> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && value.kind === kind
+
+const WHITESPACE = '\x00\t\n\f\r '
+const DELIMITERS = '()<>[]{}/%'
+
+// 16進表記をバイト列（Latin-1文字列）に変換する
+const hexToLatin1 = (hex: string) => {
+  const digits = hex.replace(/[^0-9a-fA-F]/g, '')
+  const padded = digits.length % 2 ? `${digits}0` : digits
+  let result = ''
+  for (let i = 0; i < padded.length; i += 2) {
+    result += String.fromCharCode(parseInt(padded.slice(i, i + 2), 16))
+  }
+  return result
+}
+
+// 字句解析（文字列はバイト列をLatin-1として保持する）
+class Lexer {
+  position: number
+
+  constructor(private source: string, position = 0) {
+    this.position = position
+  }
+
+  private skipWhitespace() {
+    const { source } = this
+    while (this.position < source.length) {
+      const char = source[this.position]
+      if (WHITESPACE.includes(char)) {
+        this.position++
+      } else if (char === '%') {
+        while (this.position < source.length && source[this.position] !== '\n' && source[this.position] !== '\r') {
+          this.position++
+        }
+      } else {
+        break
+      }
+    }
+  }
+
+  private readLiteralString(): string {
+    const { source } = this
+    let depth = 1
+    let result = ''
+    this.position++
+    while (this.position < source.length) {
+      const char = source[this.position++]
+      if (char === '\\') {
+        const next = source[this.position++]
+        const escapes: { [key: string]: string } = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' }
+        if (next in escapes) {
+          result += escapes[next]
+        } else if (next >= '0' && next <= '7') {
+          let octal = next
+          while (octal.length < 3 && source[this.position] >= '0' && source[this.position] <= '7') {
+            octal += source[this.position++]
+          }
+          result += String.fromCharCode(parseInt(octal, 8) & 0xff)
+        } else if (next === '\r') {
+          if (source[this.position] === '\n') this.position++
+        } else if (next !== '\n') {
+          result += next
+        }
+      } else if (char === '(') {
+        depth++
+        result += char
+      } else if (char === ')') {
+        depth--
+        if (depth === 0) break
+        result += char
+      } else {
+        result += char
+      }
+    }
+    return result
+  }
+
+  private readHexString(): string {
+    const end = this.source.indexOf('>', this.position)
+    const hex = this.source.slice(this.position + 1, end < 0 ? undefined : end)
+    this.position = end < 0 ? this.source.length : end + 1
+    return hexToLatin1(hex)
+  }
+
+  private readRegular(): string {
+    const start = this.position
+    while (
+      this.position < this.source.length &&
+      !WHITESPACE.includes(this.source[this.position]) &&
+      !DELIMITERS.includes(this.source[this.position])
+    ) {
+      this.position++
+    }
+    return this.source.slice(start, this.position)
+  }
+
+  // 次の値を読む（終端・区切りは演算子として返す）
+  next(): PdfValue | undefined {
+    this.skipWhitespace()
+    const { source } = this
+    if (this.position >= source.length) return undefined
+
+    const char = source[this.position]
+    if (char === '(') return { kind: 'string', value: this.readLiteralString() }
+    if (char === '<') {
+      if (source[this.position + 1] === '<') {
+        this.position += 2
+        return this.readDict()
+      }
+      return { kind: 'string', value: this.readHexString() }
+    }
+    if (char === '>' && source[this.position + 1] === '>') {
+      this.position += 2
+      return { kind: 'op', value: '>>' }
+    }
+    if (char === '[') {
+      this.position++
+      return this.readArray()
+    }
+    if (char === ']' || char === '{' || char === '}' || char === ')' || char === '>') {
+      this.position++
+      return { kind: 'op', value: char }
+    }
+    if (char === '/') {
+      this.position++
+      return { kind: 'name', value: this.readRegular().replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))) }
+    }
+
+    const token = this.readRegular()
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      const number = Number(token)
+      // 「1 0 R」形式の間接参照
+      if (/^\d+$/.test(token)) {
+        const saved = this.position
+        this.skipWhitespace()
+        const generation = this.readRegular()
+        this.skipWhitespace()
+        const keyword = this.readRegular()
+        if (/^\d+$/.test(generation) && keyword === 'R') {
+          return { kind: 'ref', num: number }
+        }
+        this.position = saved
+      }
+      return number
+    }
+    if (token === 'true') return true
+    if (token === 'false') return false
+    if (token === 'null') return null
+    return { kind: 'op', value: token }
+  }
+
+  private readArray(): PdfValue[] {
+    const items: PdfValue[] = []
+    for (;;) {
+      const value = this.next()
+      if (value === undefined || (isObjectOf(value, 'op') && value.value === ']')) break
+      items.push(value)
+    }
+    return items
+  }
+
+  private readDict(): PdfDict {
+    const entries: { [key: string]: PdfValue } = {}
+    for (;;) {
+      const key = this.next()
+      if (key === undefined || (isObjectOf(key, 'op') && key.value === '>>')) break
+      if (!isObjectOf(key, 'name')) continue
+      const value = this.next()
+      if (value === undefined) break
+      entries[key.value] = value
+    }
+    return { kind: 'dict', entries }
+  }
+
+  // インライン画像（BI … ID … EI）を読み飛ばす
+  skipInlineImage() {
+    const match = /\sEI(?=[\s]|$)/g
+    match.lastIndex = this.source.indexOf('ID', this.position) + 2
+    const result = match.exec(this.source)
+    this.position = result ? result.index + 3 : this.source.length
+  }
+}
+
+const toLatin1 = (data: Uint8Array) => {
+  let result = ''
+  for (let i = 0; i < data.length; i += 0x8000) {
+    result += String.fromCharCode(...data.subarray(i, i + 0x8000))
+  }
+  return result
+}
+
+const fromLatin1 = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0))
+
+const inflate = async (data: string) => {
+  const stream = new Blob([fromLatin1(data)]).stream().pipeThrough(new DecompressionStream('deflate'))
+  return toLatin1(new Uint8Array(await new Response(stream).arrayBuffer()))
+}
+
+const asArray = (value: PdfValue | undefined): PdfValue[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value]
+
+// 文書内のオブジェクトと参照の解決
+class PdfDocument {
+  private objects = new Map<number, PdfObject>()
+  private decoded = new Map<number, string>()
+  warnings: string[] = []
+
+  constructor(private source: string) {
+    const header = /(\d+)\s+\d+\s+obj\b/g
+    let match: RegExpExecArray | null
+    while ((match = header.exec(source)) !== null) {
+      try {
+        const lexer = new Lexer(source, match.index + match[0].length)
+        const value = lexer.next()
+        if (value === undefined) continue
+        const object: PdfObject = { value }
+        const afterValue = lexer.position
+        const keyword = /^\s*stream\r?\n/.exec(source.slice(afterValue, afterValue + 12))
+        if (keyword && isObjectOf(value, 'dict')) {
+          const start = afterValue + keyword[0].length
+          const length = value.entries.Length
+          const declaredEnd = typeof length === 'number' ? start + length : -1
+          if (declaredEnd >= 0 && /^\s*endstream/.test(source.slice(declaredEnd, declaredEnd + 16))) {
+            object.stream = source.slice(start, declaredEnd)
+            header.lastIndex = declaredEnd
+          } else {
+            // Length が間接参照・不正な場合は endstream まで読む
+            const end = source.indexOf('endstream', start)
+            object.stream = source.slice(start, end < 0 ? undefined : end).replace(/\r?\n$/, '')
+            header.lastIndex = end < 0 ? source.length : end
+          }
+        }
+        this.objects.set(Number(match[1]), object)
+      } catch {
+        // 壊れたオブジェクトは読み飛ばす
+      }
+    }
+  }
+
+  get(num: number) {
+    return this.objects.get(num)
+  }
+
+  resolve(value: PdfValue | undefined): PdfValue | undefined {
+    let current = value
+    for (let depth = 0; isObjectOf(current, 'ref') && depth < 32; depth++) {
+      current = this.objects.get(current.num)?.value
+    }
+    return current
+  }
+
+  dict(value: PdfValue | undefined): PdfDict | undefined {
+    const resolved = this.resolve(value)
+    return isObjectOf(resolved, 'dict') ? resolved : undefined
+  }
+
+  // ストリームを展開する（FlateDecode / ASCIIHexDecode に対応）
+  async streamData(ref: PdfValue | undefined): Promise<string | undefined> {
+    if (!isObjectOf(ref, 'ref')) return undefined
+    if (this.decoded.has(ref.num)) return this.decoded.get(ref.num)
+    const object = this.objects.get(ref.num)
+    if (!object?.stream || !isObjectOf(object.value, 'dict')) return undefined
+
+    let data = object.stream
+    for (const filter of asArray(this.resolve(object.value.entries.Filter))) {
+      const name = isObjectOf(filter, 'name') ? filter.value : ''
+      if (name === 'FlateDecode' || name === 'Fl') {
+        data = await inflate(data)
+      } else if (name === 'ASCIIHexDecode' || name === 'AHx') {
+        data = hexToLatin1(data.replace(/>[\s\S]*$/, ''))
+      } else {
+        this.warnings.push(`未対応の圧縮形式のため読み取れないデータがあります（${name}）`)
+        return undefined
+      }
+    }
+    this.decoded.set(ref.num, data)
+    return data
+  }
+
+  // オブジェクトストリーム（PDF 1.5以降）に格納されたオブジェクトを展開する
+  async expandObjectStreams() {
+    const streams = Array.from(this.objects.entries()).filter(([, object]) =>
+      isObjectOf(object.value, 'dict') && isObjectOf(object.value.entries.Type, 'name') && object.value.entries.Type.value === 'ObjStm'
+    )
+    for (const [num, object] of streams) {
+      const entries = (object.value as PdfDict).entries
+      const data = await this.streamData({ kind: 'ref', num })
+      if (data === undefined || typeof entries.N !== 'number' || typeof entries.First !== 'number') continue
+
+      const lexer = new Lexer(data)
+      const offsets: [number, number][] = []
+      for (let i = 0; i < entries.N; i++) {
+        const objectNumber = lexer.next()
+        const offset = lexer.next()
+        if (typeof objectNumber === 'number' && typeof offset === 'number') offsets.push([objectNumber, offset])
+      }
+      offsets.forEach(([objectNumber, offset]) => {
+        if (this.objects.has(objectNumber)) return
+        const value = new Lexer(data, entries.First as number + offset).next()
+        if (value !== undefined) this.objects.set(objectNumber, { value })
+      })
+    }
+  }
+
+  // ページの内容（ストリームへの参照、またはその配列）
+  private contentRefs(contents: PdfValue | undefined): PdfValue[] {
+    const resolved = this.resolve(contents)
+    return Array.isArray(resolved) ? resolved : contents === undefined ? [] : [contents]
+  }
+
+  // ページの一覧（リソースは親から継承する）
+  pages(): { contents: PdfValue[], resources: PdfDict | undefined }[] {
+    const rootMatch = Array.from(this.source.matchAll(/\/Root\s+(\d+)\s+\d+\s+R/g)).pop()
+    const catalog = rootMatch ? this.dict({ kind: 'ref', num: Number(rootMatch[1]) }) : undefined
+    const result: { contents: PdfValue[], resources: PdfDict | undefined }[] = []
+    const visited = new Set<PdfDict>()
+
+    const walk = (node: PdfDict | undefined, resources: PdfDict | undefined) => {
+      if (!node || visited.has(node)) return
+      visited.add(node)
+      const ownResources = this.dict(node.entries.Resources) || resources
+      const type = node.entries.Type
+      if (isObjectOf(type, 'name') && type.value === 'Page') {
+        result.push({ contents: this.contentRefs(node.entries.Contents), resources: ownResources })
+      } else {
+        asArray(this.resolve(node.entries.Kids)).forEach(kid => walk(this.dict(kid), ownResources))
+      }
+    }
+    walk(this.dict(catalog?.entries.Pages), undefined)
+
+    if (result.length > 0) return result
+
+    // ページツリーが読めない場合はページオブジェクトを番号順に使用する
+    return Array.from(this.objects.values())
+      .map(object => object.value)
+      .filter((value): value is PdfDict =>
+        isObjectOf(value, 'dict') && isObjectOf(value.entries.Type, 'name') && value.entries.Type.value === 'Page'
+      )
+      .map(page => ({ contents: this.contentRefs(page.entries.Contents), resources: this.dict(page.entries.Resources) }))
+  }
+}
+
+interface FontDecoder {
+  decode: (bytes: string) => string
+}
+
+const decodeWith = (encoding: string) => {
+  const decoder = new TextDecoder(encoding)
+  return (bytes: string) => decoder.decode(fromLatin1(bytes))
+}
+
+// ToUnicode CMap（bfchar / bfrange）を読み取る
+const parseToUnicode = (data: string) => {
+  const map = new Map<number, string>()
+  let codeLength = 0
+  const utf16 = decodeWith('utf-16be')
+  const hexToString = (hex: string) => utf16(hexToLatin1(hex))
+
+  const range = /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>/
+  const sections = /begin(bfchar|bfrange|codespacerange)([\s\S]*?)end\1/g
+  let section: RegExpExecArray | null
+  while ((section = sections.exec(data)) !== null) {
+    const [, type, body] = section
+    if (type === 'codespacerange') {
+      const match = range.exec(body)
+      if (match) codeLength = match[1].length / 2
+    } else if (type === 'bfchar') {
+      for (const [, source, target] of body.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+        map.set(parseInt(source, 16), hexToString(target))
+        codeLength = codeLength || source.length / 2
+      }
+    } else {
+      for (const [, low, high, target] of body.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+        const start = parseInt(low, 16)
+        const end = parseInt(high, 16)
+        codeLength = codeLength || low.length / 2
+        if (target.startsWith('[')) {
+          Array.from(target.matchAll(/<([0-9a-fA-F]*)>/g)).forEach(([, hex], index) => {
+            if (start + index <= end) map.set(start + index, hexToString(hex))
+          })
+        } else {
+          const base = target.slice(1, -1)
+          const prefix = base.slice(0, -4)
+          const last = parseInt(base.slice(-4) || '0', 16)
+          for (let code = start; code <= end && code - start < 0x10000; code++) {
+            const value = (last + code - start).toString(16).padStart(4, '0')
+            map.set(code, hexToString(`${prefix}${value}`))
+          }
+        }
+      }
+    }
+  }
+  return { map, codeLength: codeLength || 2 }
+}
+
+const createFontDecoder = async (pdf: PdfDocument, font: PdfDict | undefined): Promise<FontDecoder | null> => {
+  if (!font) return { decode: bytes => bytes }
+  const subtype = isObjectOf(font.entries.Subtype, 'name') ? font.entries.Subtype.value : ''
+  const encodingValue = pdf.resolve(font.entries.Encoding)
+  const encoding = isObjectOf(encodingValue, 'name') ? encodingValue.value : ''
+
+  const toUnicode = await pdf.streamData(font.entries.ToUnicode)
+  if (toUnicode) {
+    const { map, codeLength } = parseToUnicode(toUnicode)
+    const width = subtype === 'Type0' ? codeLength : 1
+    return {
+      decode: bytes => {
+        let result = ''
+        for (let i = 0; i + width <= bytes.length; i += width) {
+          let code = 0
+          for (let j = 0; j < width; j++) code = code * 256 + bytes.charCodeAt(i + j)
+          result += map.get(code) ?? ''
+        }
+        return result
+      }
+    }
+  }
+
+  // 日本語の定義済みCMap
+  if (/UCS2|UTF16/.test(encoding)) return { decode: decodeWith('utf-16be') }
+  if (/RKSJ/.test(encoding)) return { decode: decodeWith('shift_jis') }
+  if (/EUC/.test(encoding)) return { decode: decodeWith('euc-jp') }
+  if (subtype === 'Type0') return null
+
+  return { decode: bytes => bytes }
+}
+
+interface TextRun {
+  x: number
+  y: number
+  size: number
+  text: string
+}
+
+type Matrix = [number, number, number, number, number, number]
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[1] * n[2],
+  m[0] * n[1] + m[1] * n[3],
+  m[2] * n[0] + m[3] * n[2],
+  m[2] * n[1] + m[3] * n[3],
+  m[4] * n[0] + m[5] * n[2] + n[4],
+  m[4] * n[1] + m[5] * n[3] + n[5]
+]
+
+// 文字幅の概算（全角1em・半角0.5em）
+const estimateWidth = (text: string, size: number) =>
+  Array.from(text).reduce((sum, char) => sum + (char.charCodeAt(0) >= 0x2e80 ? size : size * 0.5), 0)
+
+// コンテンツストリームを解釈して文字列の配置を取り出す
+const collectRuns = async (
+  pdf: PdfDocument,
+  content: string,
+  resources: PdfDict | undefined,
+  undecodableFonts: Set<string>
+) => {
+  const runs: TextRun[] = []
+  const fonts = pdf.dict(resources?.entries.Font)
+  const decoders = new Map<string, FontDecoder | null>()
+  const lexer = new Lexer(content)
+  const operands: PdfValue[] = []
+  const stack: Matrix[] = []
+  let ctm: Matrix = IDENTITY
+  let textMatrix: Matrix = IDENTITY
+  let lineMatrix: Matrix = IDENTITY
+  let fontName = ''
+  let fontSize = 10
+  let leading = 0
+
+  const number = (index: number) => {
+    const value = operands[operands.length + index]
+    return typeof value === 'number' ? value : 0
+  }
+
+  const moveLine = (tx: number, ty: number) => {
+    lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix)
+    textMatrix = lineMatrix
+  }
+
+  const show = async (strings: PdfValue[]) => {
+    if (!decoders.has(fontName)) {
+      decoders.set(fontName, await createFontDecoder(pdf, pdf.dict(fonts?.entries[fontName])))
+    }
+    const decoder = decoders.get(fontName)
+    const matrix = multiply(textMatrix, ctm)
+    const scale = Math.hypot(matrix[2], matrix[3]) || 1
+    const size = fontSize * scale
+    let text = ''
+    let advance = 0
+    for (const item of strings) {
+      if (isObjectOf(item, 'string')) {
+        if (!decoder) {
+          undecodableFonts.add(fontName)
+          continue
+        }
+        const decoded = decoder.decode(item.value)
+        text += decoded
+        advance += estimateWidth(decoded, fontSize)
+      } else if (typeof item === 'number') {
+        advance -= item / 1000 * fontSize
+        // 大きな字間調整は単語の区切りとみなす
+        if (item < -250 && text && !text.endsWith(' ')) text += ' '
+      }
+    }
+    if (text.trim()) runs.push({ x: matrix[4], y: matrix[5], size, text })
+    textMatrix = multiply([1, 0, 0, 1, advance, 0], textMatrix)
+  }
+
+  for (;;) {
+    const token = lexer.next()
+    if (token === undefined) break
+    if (!isObjectOf(token, 'op')) {
+      operands.push(token)
+      continue
+    }
+
+    switch (token.value) {
+      case 'q':
+        stack.push(ctm)
+        break
+      case 'Q':
+        ctm = stack.pop() || IDENTITY
+        break
+      case 'cm':
+        ctm = multiply([number(-6), number(-5), number(-4), number(-3), number(-2), number(-1)], ctm)
+        break
+      case 'BT':
+        textMatrix = IDENTITY
+        lineMatrix = IDENTITY
+        break
+      case 'Tf': {
+        const name = operands[operands.length - 2]
+        fontName = isObjectOf(name, 'name') ? name.value : ''
+        fontSize = number(-1)
+        break
+      }
+      case 'TL':
+        leading = number(-1)
+        break
+      case 'Td':
+        moveLine(number(-2), number(-1))
+        break
+      case 'TD':
+        leading = -number(-1)
+        moveLine(number(-2), number(-1))
+        break
+      case 'Tm':
+        lineMatrix = [number(-6), number(-5), number(-4), number(-3), number(-2), number(-1)]
+        textMatrix = lineMatrix
+        break
+      case 'T*':
+        moveLine(0, -leading)
+        break
+      case 'Tj':
+        await show(operands.slice(-1))
+        break
+      case "'":
+      case '"':
+        moveLine(0, -leading)
+        await show(operands.slice(-1))
+        break
+      case 'TJ': {
+        const items = operands[operands.length - 1]
+        await show(Array.isArray(items) ? items : [])
+        break
+      }
+      case 'BI':
+        lexer.skipInlineImage()
+        break
+      default:
+        break
+    }
+    operands.length = 0
+  }
+  return runs
+}
+
+// 文字列の配置を行単位のテキストにまとめる
+const layoutRuns = (runs: TextRun[]) => {
+  const lines: TextRun[][] = []
+  runs
+    .slice()
+    .sort((a, b) => b.y - a.y || a.x - b.x)
+    .forEach(run => {
+      const line = lines.find(candidate => Math.abs(candidate[0].y - run.y) < Math.max(candidate[0].size, run.size) * 0.4)
+      if (line) {
+        line.push(run)
+      } else {
+        lines.push([run])
+      }
+    })
+
+  return lines
+    .map(line => {
+      const sorted = line.sort((a, b) => a.x - b.x)
+      return sorted.reduce((text, run, index) => {
+        if (index === 0) return run.text
+        const previous = sorted[index - 1]
+        const gap = run.x - (previous.x + estimateWidth(previous.text, previous.size))
+        return `${text}${gap > run.size * 0.8 ? ' ' : ''}${run.text}`
+      }, '')
+    })
+    .join('\n')
+}
+
+export async function extractPdfText(data: Uint8Array): Promise<PdfTextResult> {
+  const source = toLatin1(data)
+  if (!source.startsWith('%PDF-')) {
+    throw new Error('PDFファイルとして読み込めませんでした')
+  }
+  if (/\/Encrypt\s+(\d+\s+\d+\s+R|<<)/.test(source)) {
+    throw new Error('暗号化されたPDFは取り込めません。保護を解除したファイルを選択してください')
+  }
+
+  const pdf = new PdfDocument(source)
+  await pdf.expandObjectStreams()
+
+  const undecodableFonts = new Set<string>()
+  const pages: string[] = []
+  for (const page of pdf.pages()) {
+    let content = ''
+    for (const ref of page.contents) {
+      content += `${(await pdf.streamData(ref)) || ''}\n`
+    }
+    pages.push(layoutRuns(await collectRuns(pdf, content, page.resources, undecodableFonts)))
+  }
+
+  const warnings = [...pdf.warnings]
+  if (undecodableFonts.size > 0) {
+    warnings.push('文字コードの対応表がないフォントが含まれているため、一部の文字を読み取れませんでした')
+  }
+
+  return { pages, text: pages.join('\n'), warnings }
+}
@@ -0,0 +1,333 @@
+import type { DocumentBlock, DocumentSpec, TextAlign } from './documentGenerator'
+
+// PDF形式の書類を生成する
+// 日本語は Adobe-Japan1 の標準CIDフォント（平成明朝・平成角ゴシック）で出力し、フォントは埋め込まない
+
+// A4（単位: pt）
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const MARGIN = 56.69
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const FOOTER_Y = MARGIN / 2
+
+const BODY_SIZE = 10.5
+const LINE_HEIGHT = 1.6
+const CELL_PADDING = 4
+
+type FontKey = 'F1' | 'F2'
+
+interface FontDefinition {
+  baseFont: string
+  flags: number
+  bbox: string
+  ascent: number
+  descent: number
+  capHeight: number
+  stemV: number
+}
+
+// F1: 本文（明朝）、F2: 見出し（ゴシック）
+const FONTS: { [key in FontKey]: FontDefinition } = {
+  F1: { baseFont: 'HeiseiMin-W3', flags: 6, bbox: '[-123 -257 1001 910]', ascent: 857, descent: -143, capHeight: 718, stemV: 69 },
+  F2: { baseFont: 'HeiseiKakuGo-W5', flags: 4, bbox: '[-92 -250 1010 922]', ascent: 752, descent: -221, capHeight: 737, stemV: 114 }
+}
+
+// UniJIS-UCS2-HW-H では ASCII と半角カナが半角幅になる
+const isHalfWidth = (code: number) => (code >= 0x20 && code <= 0x7e) || (code >= 0xff61 && code <= 0xff9f)
+
+const charWidth = (char: string, size: number) => (isHalfWidth(char.charCodeAt(0)) ? size / 2 : size)
+
+export const measureText = (text: string, size: number) =>
+  [...text].reduce((width, char) => width + charWidth(char, size), 0)
+
+// 行頭に置かない文字（句読点・閉じ括弧）
+const NO_LINE_START = '、。，．・：；？！）」』】〕〉》ー'
+
+// 指定幅で折り返す（英数字は単語単位、日本語は文字単位）
+export function wrapText(text: string, width: number, size: number): string[] {
+  const lines: string[] = []
+
+  text.split('\n').forEach(paragraph => {
+    let line = ''
+    let lineWidth = 0
+    const tokens = paragraph.match(/[\x21-\x7e]+|[\s\S]/g) || []
+
+    tokens.forEach(token => {
+      const tokenWidth = measureText(token, size)
+      if (lineWidth + tokenWidth <= width || line === '') {
+        if (tokenWidth > width && line === '') {
+          // 幅を超える英数字列は文字単位で分割する
+          for (const char of token) {
+            if (lineWidth + charWidth(char, size) > width && line !== '') {
+              lines.push(line)
+              line = ''
+              lineWidth = 0
+            }
+            line += char
+            lineWidth += charWidth(char, size)
+          }
+          return
+        }
+        line += token
+        lineWidth += tokenWidth
+        return
+      }
+
+      if (NO_LINE_START.includes(token)) {
+        // 禁則文字はぶら下げて前の行に含める
+        line += token
+        lines.push(line)
+        line = ''
+        lineWidth = 0
+        return
+      }
+
+      lines.push(line.replace(/\s+$/, ''))
+      line = token.trim() === '' ? '' : token
+      lineWidth = line ? tokenWidth : 0
+    })
+
+    lines.push(line)
+  })
+
+  return lines
+}
+
+// UCS-2（ビッグエンディアン）の16進文字列に変換する（BMP外の文字は〓に置換）
+const toHex = (text: string) =>
+  [...text]
+    .map(char => {
+      const code = char.codePointAt(0) || 0
+      return (code > 0xffff ? 0x3013 : code).toString(16).padStart(4, '0')
+    })
+    .join('')
+    .toUpperCase()
+
+const fmt = (value: number) => (Math.round(value * 100) / 100).toString()
+
+class PageBuilder {
+  pages: string[][] = []
+  private ops: string[] = []
+  private cursorY = 0
+
+  constructor() {
+    this.newPage()
+  }
+
+  newPage() {
+    this.ops = []
+    this.pages.push(this.ops)
+    this.cursorY = PAGE_HEIGHT - MARGIN
+  }
+
+  get remaining() {
+    return this.cursorY - MARGIN
+  }
+
+  ensureSpace(height: number) {
+    if (height > this.remaining) this.newPage()
+  }
+
+  moveDown(height: number) {
+    this.cursorY -= height
+  }
+
+  get y() {
+    return this.cursorY
+  }
+
+  text(text: string, x: number, baseline: number, size: number, font: FontKey = 'F1') {
+    if (!text) return
+    this.ops.push(`BT /${font} ${fmt(size)} Tf ${fmt(x)} ${fmt(baseline)} Td <${toHex(text)}> Tj ET`)
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill?: string) {
+    if (fill) {
+      this.ops.push(`q ${fill} rg ${fmt(x)} ${fmt(y)} ${fmt(width)} ${fmt(height)} re f Q`)
+    }
+    this.ops.push(`${fmt(x)} ${fmt(y)} ${fmt(width)} ${fmt(height)} re S`)
+  }
+
+  // 折り返し済みの行を1行ずつ配置する（ページをまたぐ場合は改ページ）
+  lines(lines: string[], size: number, align: TextAlign = 'left', font: FontKey = 'F1') {
+    const lineHeight = size * LINE_HEIGHT
+    lines.forEach(line => {
+      this.ensureSpace(lineHeight)
+      const width = measureText(line, size)
+      const x = align === 'center'
+        ? MARGIN + (CONTENT_WIDTH - width) / 2
+        : align === 'right'
+          ? MARGIN + CONTENT_WIDTH - width
+          : MARGIN
+      this.text(line, x, this.cursorY - size, size, font)
+      this.cursorY -= lineHeight
+    })
+  }
+}
+
+const alignedX = (text: string, left: number, width: number, size: number, align: TextAlign) => {
+  const textWidth = measureText(text, size)
+  if (align === 'center') return left + (width - textWidth) / 2
+  if (align === 'right') return left + width - textWidth - CELL_PADDING
+  return left + CELL_PADDING
+}
+
+const renderTable = (builder: PageBuilder, block: Extract<DocumentBlock, { type: 'table' }>) => {
+  const size = BODY_SIZE - 1
+  const lineHeight = size * 1.4
+  const columnCount = Math.max(block.headers.length, ...block.rows.map(row => row.length))
+  const weights = block.columnWidths && block.columnWidths.length === columnCount
+    ? block.columnWidths
+    : new Array(columnCount).fill(1)
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
+  const widths = weights.map(weight => CONTENT_WIDTH * weight / totalWeight)
+
+  const layoutRow = (cells: string[]) => {
+    const wrapped = widths.map((width, index) => wrapText(cells[index] || '', width - CELL_PADDING * 2, size))
+    const height = Math.max(...wrapped.map(lines => lines.length)) * lineHeight + CELL_PADDING * 2
+    return { wrapped, height }
+  }
+
+  const drawRow = (cells: string[], header: boolean) => {
+    const { wrapped, height } = layoutRow(cells)
+    const top = builder.y
+    let left = MARGIN
+
+    wrapped.forEach((lines, index) => {
+      builder.rect(left, top - height, widths[index], height, header ? '0.906 0.925 0.953' : undefined)
+      const align = header ? 'center' : block.align?.[index] || 'left'
+      lines.forEach((line, lineIndex) => {
+        const baseline = top - CELL_PADDING - lineIndex * lineHeight - size
+        builder.text(line, alignedX(line, left, widths[index], size, align), baseline, size, header ? 'F2' : 'F1')
+      })
+      left += widths[index]
+    })
+    builder.moveDown(height)
+  }
+
+  const headerHeight = block.headers.length > 0 ? layoutRow(block.headers).height : 0
+  builder.ensureSpace(headerHeight + (block.rows[0] ? layoutRow(block.rows[0]).height : 0))
+  if (block.headers.length > 0) drawRow(block.headers, true)
+
+  block.rows.forEach(row => {
+    const { height } = layoutRow(row)
+    if (height > builder.remaining) {
+      // 改ページ後は見出し行を繰り返す
+      builder.newPage()
+      if (block.headers.length > 0) drawRow(block.headers, true)
+    }
+    drawRow(row, false)
+  })
+
+  builder.moveDown(BODY_SIZE * 0.8)
+}
+
+const renderBlock = (builder: PageBuilder, block: DocumentBlock) => {
+  switch (block.type) {
+    case 'title': {
+      const size = 18
+      builder.moveDown(size * 0.5)
+      builder.lines(wrapText(block.text, CONTENT_WIDTH, size), size, 'center', 'F2')
+      builder.moveDown(size)
+      break
+    }
+    case 'heading': {
+      const size = 12
+      // 見出しだけがページ末尾に残らないようにする
+      builder.ensureSpace(size * LINE_HEIGHT + BODY_SIZE * LINE_HEIGHT * 2)
+      builder.moveDown(size * 0.6)
+      builder.lines(wrapText(block.text, CONTENT_WIDTH, size), size, 'left', 'F2')
+      break
+    }
+    case 'paragraph':
+      builder.lines(wrapText(block.text, CONTENT_WIDTH, BODY_SIZE), BODY_SIZE, block.align || 'left', block.bold ? 'F2' : 'F1')
+      builder.moveDown(BODY_SIZE * 0.4)
+      break
+    case 'table':
+      renderTable(builder, block)
+      break
+    case 'spacer':
+      builder.moveDown(BODY_SIZE * LINE_HEIGHT)
+      break
+  }
+}
+
+// 文書情報のテキスト（UTF-16BE、BOM付き）
+const infoString = (text: string) => `<FEFF${toHex(text)}>`
+
+const pdfDate = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `(D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z)`
+}
+
+export function renderPdf(spec: DocumentSpec, createdAt: Date = new Date()): Uint8Array {
+  const builder = new PageBuilder()
+  spec.blocks.forEach(block => renderBlock(builder, block))
+
+  // ページ番号
+  const pageCount = builder.pages.length
+  builder.pages.forEach((ops, index) => {
+    const label = `${index + 1} / ${pageCount}`
+    const size = 9
+    ops.push(`BT /F1 ${size} Tf ${fmt((PAGE_WIDTH - measureText(label, size)) / 2)} ${fmt(FOOTER_Y)} Td <${toHex(label)}> Tj ET`)
+  })
+
+  // オブジェクト番号: 1 カタログ、2 ページツリー、3 文書情報、4〜 フォント、以降 ページと内容
+  const objects: string[] = []
+  const fontKeys = Object.keys(FONTS) as FontKey[]
+  const fontObjectIds: { [key in FontKey]?: number } = {}
+  let nextId = 4
+
+  const fontObjects: { id: number, body: string }[] = []
+  fontKeys.forEach(key => {
+    const font = FONTS[key]
+    const typeId = nextId++
+    const cidId = nextId++
+    const descriptorId = nextId++
+    fontObjectIds[key] = typeId
+    fontObjects.push(
+      { id: typeId, body: `<< /Type /Font /Subtype /Type0 /BaseFont /${font.baseFont} /Encoding /UniJIS-UCS2-HW-H /DescendantFonts [${cidId} 0 R] >>` },
+      { id: cidId, body: `<< /Type /Font /Subtype /CIDFontType0 /BaseFont /${font.baseFont} /CIDSystemInfo << /Registry (Adobe) /Ordering (Japan1) /Supplement 2 >> /FontDescriptor ${descriptorId} 0 R /DW 1000 /W [231 389 500] >>` },
+      { id: descriptorId, body: `<< /Type /FontDescriptor /FontName /${font.baseFont} /Flags ${font.flags} /FontBBox ${font.bbox} /ItalicAngle 0 /Ascent ${font.ascent} /Descent ${font.descent} /CapHeight ${font.capHeight} /StemV ${font.stemV} >>` }
+    )
+  })
+
+  const fontResources = fontKeys.map(key => `/${key} ${fontObjectIds[key]} 0 R`).join(' ')
+  const pageIds: number[] = []
+  const pageObjects: { id: number, body: string }[] = []
+
+  builder.pages.forEach(ops => {
+    const pageId = nextId++
+    const contentId = nextId++
+    const stream = ['0.5 w 0.35 0.35 0.35 RG 0 0 0 rg', ...ops].join('\n')
+    pageIds.push(pageId)
+    pageObjects.push(
+      { id: pageId, body: `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${fmt(PAGE_WIDTH)} ${fmt(PAGE_HEIGHT)}] /Resources << /Font << ${fontResources} >> >> /Contents ${contentId} 0 R >>` },
+      { id: contentId, body: `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream` }
+    )
+  })
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>'
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`
+  objects[3] = `<< /Title ${infoString(spec.title)}${spec.author ? ` /Author ${infoString(spec.author)}` : ''}${spec.subject ? ` /Subject ${infoString(spec.subject)}` : ''} /Producer ${infoString('賢者の精算')} /CreationDate ${pdfDate(createdAt)} >>`
+  ;[...fontObjects, ...pageObjects].forEach(({ id, body }) => {
+    objects[id] = body
+  })
+
+  // 本文はすべてASCIIのため文字数をバイト数として扱える
+  let output = '%PDF-1.4\n'
+  const offsets: number[] = []
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = output.length
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`
+  }
+
+  const xrefOffset = output.length
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  return new TextEncoder().encode(output)
+}
@@ -0,0 +1,51 @@
+// 組織の役割（organization_members.role）に基づく権限
+// データベースの role_has_permission と同じ対応。RLS とデータベースの関数でも同じ権限を確認する
+
+export type Permission =
+  | 'view_organization_applications'
+  | 'view_admin_dashboard'
+  | 'manage_regulations'
+  | 'manage_accounting'
+  | 'manage_organization_settings'
+  | 'manage_members'
+  | 'cancel_applications'
+  | 'audit_documents'
+
+export const ALL_PERMISSIONS: Permission[] = [
+  'view_organization_applications',
+  'view_admin_dashboard',
+  'manage_regulations',
+  'manage_accounting',
+  'manage_organization_settings',
+  'manage_members',
+  'cancel_applications',
+  'audit_documents'
+]
+
+export const PERMISSION_LABELS: { [permission in Permission]: string } = {
+  view_organization_applications: '組織の申請の閲覧',
+  view_admin_dashboard: '管理者ダッシュボード',
+  manage_regulations: '出張規程の管理',
+  manage_accounting: '会計ソフト連携の管理',
+  manage_organization_settings: '組織設定の管理',
+  manage_members: 'メンバーの管理',
+  cancel_applications: '承認済み申請の取消',
+  audit_documents: '保存書類の検索と真実性の確認'
+}
+
+// 画面（Dashboard の currentView）ごとに必要な権限
+export const VIEW_PERMISSIONS: { [view: string]: Permission } = {
+  'admin-dashboard': 'view_admin_dashboard',
+  'travel-regulation-management': 'manage_regulations',
+  'travel-regulation-creation': 'manage_regulations',
+  'travel-regulation-history': 'manage_regulations',
+  'accounting-integration': 'manage_accounting',
+  'accounting-log': 'manage_accounting',
+  'accounting-error': 'manage_accounting',
+  'approval-reminder-settings': 'manage_organization_settings',
+  'document-audit': 'audit_documents'
+}
+
+export function getViewPermission(view: string): Permission | null {
+  return VIEW_PERMISSIONS[view] || null
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest'
+import {
+  applyReceiptCorrections,
+  createLocalOcrEngine,
+  extractReceipt,
+  parseReceiptText
+} from './receiptOcr'
+
+const SAMPLE_RECEIPT_TEXT = [
+  '株式会社サンプル交通',
+  '領収書',
+  '2024年4月15日',
+  '登録番号 T1234567890123',
+  '10%対象 ¥3,300',
+  '内消費税 ¥300',
+  '合計 ¥3,300'
+].join('\n')
+
+const HOTEL_RECEIPT = [
+  'ホテルサンプル東京',
+  '領収証',
+  '令和6年5月20日',
+  '適格請求書発行事業者登録番号 T9876543210987',
+  '宿泊料',
+  '10%対象 ¥11,000',
+  '内消費税 ¥1,000',
+  '合計 ¥11,000'
+].join('\n')
+
+// 見本の領収書を登録したローカルエンジン（テスト用）
+const fixtureEngine = () => createLocalOcrEngine({ 'sample.jpg': SAMPLE_RECEIPT_TEXT, 'hotel.png': HOTEL_RECEIPT })
+
+const imageFile = () => new Blob([new Uint8Array([0x89, 0x50, 0x4e, 0x47])], { type: 'image/png' })
+
+describe('createLocalOcrEngine', () => {
+  it('returns the registered fixture for a file name', async () => {
+    const engine = createLocalOcrEngine({ 'hotel.png': HOTEL_RECEIPT })
+    const result = await engine.recognize(imageFile(), 'hotel.png')
+
+    expect(result.text).toBe(HOTEL_RECEIPT)
+    expect(result.lines).toHaveLength(8)
+  })
+
+  it('reads text files as they are', async () => {
+    const engine = createLocalOcrEngine()
+    const result = await engine.recognize(new Blob(['合計 ¥500'], { type: 'text/plain' }), 'receipt.txt')
+
+    expect(result.text).toBe('合計 ¥500')
+  })
+
+  it('returns no text for unregistered images', async () => {
+    const result = await createLocalOcrEngine().recognize(imageFile(), 'a.jpg')
+
+    expect(result).toEqual({ text: '', lines: [] })
+  })
+
+  it('extracts empty fields with zero confidence from unregistered images', async () => {
+    const metadata = await extractReceipt(imageFile(), 'a.jpg', createLocalOcrEngine())
+
+    expect(metadata.storeName).toEqual({ value: '', confidence: 0 })
+    expect(metadata.date).toEqual({ value: '', confidence: 0 })
+    expect(metadata.totalAmount).toEqual({ value: 0, confidence: 0 })
+    expect(metadata.invoiceNumber).toEqual({ value: '', confidence: 0 })
+    expect(metadata.taxBreakdown).toEqual([])
+  })
+})
+
+describe('parseReceiptText', () => {
+  it('extracts the fields of the sample receipt', async () => {
+    const fields = parseReceiptText(await fixtureEngine().recognize(imageFile(), 'sample.jpg'))
+
+    expect(fields.storeName.value).toBe('株式会社サンプル交通')
+    expect(fields.date.value).toBe('2024-04-15')
+    expect(fields.totalAmount.value).toBe(3300)
+    expect(fields.invoiceNumber.value).toBe('T1234567890123')
+    expect(fields.taxBreakdown).toEqual([
+      expect.objectContaining({ rate: 10, taxableAmount: 3300, taxAmount: 300 })
+    ])
+  })
+
+  it('converts Japanese era dates and labeled invoice numbers', async () => {
+    const fields = parseReceiptText(await fixtureEngine().recognize(imageFile(), 'hotel.png'))
+
+    expect(fields.storeName.value).toBe('ホテルサンプル東京')
+    expect(fields.date.value).toBe('2024-05-20')
+    expect(fields.totalAmount.value).toBe(11000)
+    expect(fields.invoiceNumber.value).toBe('T9876543210987')
+    expect(fields.invoiceNumber.confidence).toBeGreaterThan(0.8)
+  })
+
+  it('falls back to the largest amount with a low confidence when no total is labeled', () => {
+    const fields = parseReceiptText({
+      text: '',
+      lines: [
+        { text: 'コーヒー 450円', confidence: 0.9 },
+        { text: 'サンドイッチ 680円', confidence: 0.9 }
+      ]
+    })
+
+    expect(fields.totalAmount.value).toBe(680)
+    expect(fields.totalAmount.confidence).toBeLessThan(0.5)
+  })
+})
+
+describe('extractReceipt', () => {
+  it('records the engine and raw text for receipt_metadata', async () => {
+    const metadata = await extractReceipt(imageFile(), 'sample.jpg', fixtureEngine())
+
+    expect(metadata.engine).toBe('local')
+    expect(metadata.rawText).toBe(SAMPLE_RECEIPT_TEXT)
+    expect(metadata.correctedFields).toEqual([])
+    expect(metadata.confirmedAt).toBeNull()
+  })
+
+  it('marks corrected fields as confirmed', async () => {
+    const metadata = await extractReceipt(imageFile(), 'sample.jpg', fixtureEngine())
+    const corrected = applyReceiptCorrections(metadata, { totalAmount: 3500, storeName: metadata.storeName.value })
+
+    expect(corrected.totalAmount).toEqual({ value: 3500, confidence: 1 })
+    expect(corrected.correctedFields).toEqual(['totalAmount'])
+    expect(corrected.confirmedAt).not.toBeNull()
+  })
+})
@@ -0,0 +1,321 @@
+// 領収書OCR（文字認識エンジンは差し替え可能）
+
+export interface OcrLine {
+  text: string
+  confidence: number
+}
+
+export interface OcrTextResult {
+  text: string
+  lines: OcrLine[]
+}
+
+// 文字認識エンジンのインターフェース
+export interface OcrEngine {
+  name: string
+  recognize: (file: Blob, fileName?: string) => Promise<OcrTextResult>
+}
+
+export interface ExtractedField<T> {
+  value: T
+  confidence: number
+}
+
+export interface TaxRateBreakdown {
+  rate: 8 | 10
+  taxableAmount: number
+  taxAmount: number
+  confidence: number
+}
+
+export interface ReceiptFields {
+  storeName: ExtractedField<string>
+  date: ExtractedField<string>
+  totalAmount: ExtractedField<number>
+  invoiceNumber: ExtractedField<string>
+  taxBreakdown: TaxRateBreakdown[]
+}
+
+// expense_items.receipt_metadata に保存する内容
+export interface ReceiptMetadata extends ReceiptFields {
+  engine: string
+  rawText: string
+  extractedAt: string
+  correctedFields: (keyof Omit<ReceiptFields, 'taxBreakdown'>)[]
+  confirmedAt: string | null
+}
+
+const LINE_CONFIDENCE_DEFAULT = 0.9
+
+const toOcrResult = (text: string, confidence = LINE_CONFIDENCE_DEFAULT): OcrTextResult => ({
+  text,
+  lines: text.split(/\r?\n/).map(line => ({ text: line, confidence }))
+})
+
+// オフラインで動作するローカルエンジン（OCRサービス未設定の開発・デモ環境用）
+// 登録済みのファイル名には固定テキストを返し、テキスト・CSVはそのまま読み取る
+// それ以外（画像・PDF）は文字を認識できないため空の結果を返し、利用者に手入力してもらう
+export function createLocalOcrEngine(fixtures: { [fileName: string]: string } = {}): OcrEngine {
+  return {
+    name: 'local',
+    recognize: async (file: Blob, fileName?: string) => {
+      if (fileName && fixtures[fileName] !== undefined) {
+        return toOcrResult(fixtures[fileName])
+      }
+      if (file.type.startsWith('text/')) {
+        return toOcrResult(await file.text())
+      }
+      return { text: '', lines: [] }
+    }
+  }
+}
+
+// 外部OCRサービス（Edge Function 等）に画像を送信するエンジン
+// レスポンスは { text: string, lines?: { text, confidence }[] } を想定
+export function createHttpOcrEngine(endpoint: string, headers: { [key: string]: string } = {}): OcrEngine {
+  return {
+    name: `http:${new URL(endpoint, window.location.origin).host}`,
+    recognize: async (file: Blob, fileName?: string) => {
+      const body = new FormData()
+      body.append('file', file, fileName || 'receipt')
+
+      const response = await fetch(endpoint, { method: 'POST', body, headers })
+      if (!response.ok) {
+        throw new Error(`OCR request failed: ${response.status}`)
+      }
+
+      const result = await response.json() as { text?: string, lines?: OcrLine[] }
+      const text = result.text || (result.lines || []).map(line => line.text).join('\n')
+      return {
+        text,
+        lines: result.lines && result.lines.length > 0 ? result.lines : toOcrResult(text).lines
+      }
+    }
+  }
+}
+
+let currentEngine: OcrEngine | null = null
+
+export function setOcrEngine(engine: OcrEngine | null) {
+  currentEngine = engine
+}
+
+// VITE_OCR_ENDPOINT が設定されていれば外部サービス、未設定ならローカルエンジン（画像は読み取らない）を使用
+export function getOcrEngine(): OcrEngine {
+  if (!currentEngine) {
+    const endpoint = import.meta.env.VITE_OCR_ENDPOINT as string | undefined
+    currentEngine = endpoint ? createHttpOcrEngine(endpoint) : createLocalOcrEngine()
+  }
+  return currentEngine
+}
+
+// ---- テキスト解析 ----
+
+const AMOUNT_PATTERN = /[¥￥\\]?\s*(\d{1,3}(?:,\d{3})+|\d+)\s*円?/g
+const INVOICE_PATTERN = /T[\s-]?((?:\d[\s-]?){12}\d)/
+const ERA_OFFSETS: { [era: string]: number } = { '令和': 2018, 'R': 2018, '平成': 1988, 'H': 1988 }
+
+const normalize = (text: string) => text.normalize('NFKC').replace(/[‐―−]/g, '-')
+
+const parseAmount = (value: string) => parseInt(value.replace(/,/g, ''), 10)
+
+const amountsIn = (line: string): number[] =>
+  [...line.matchAll(AMOUNT_PATTERN)]
+    .map(match => parseAmount(match[1]))
+    .filter(amount => Number.isFinite(amount))
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+const toIsoDate = (year: number, month: number, day: number) => {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null
+  return `${year}-${pad(month)}-${pad(day)}`
+}
+
+function extractDate(lines: OcrLine[]): ExtractedField<string> {
+  for (const line of lines) {
+    const text = normalize(line.text)
+
+    const era = text.match(/(令和|平成|R|H)\s*(\d{1,2}|元)\s*[年./]\s*(\d{1,2})\s*[月./]\s*(\d{1,2})/)
+    if (era) {
+      const year = ERA_OFFSETS[era[1]] + (era[2] === '元' ? 1 : parseInt(era[2], 10))
+      const date = toIsoDate(year, parseInt(era[3], 10), parseInt(era[4], 10))
+      if (date) return { value: date, confidence: line.confidence * 0.9 }
+    }
+
+    const western = text.match(/(20\d{2})\s*[年/.-]\s*(\d{1,2})\s*[月/.-]\s*(\d{1,2})/)
+    if (western) {
+      const date = toIsoDate(parseInt(western[1], 10), parseInt(western[2], 10), parseInt(western[3], 10))
+      if (date) return { value: date, confidence: line.confidence * (text.includes('年') ? 0.95 : 0.9) }
+    }
+  }
+  return { value: '', confidence: 0 }
+}
+
+function extractInvoiceNumber(lines: OcrLine[]): ExtractedField<string> {
+  for (const line of lines) {
+    const match = normalize(line.text).toUpperCase().match(INVOICE_PATTERN)
+    if (match) {
+      const digits = match[1].replace(/[\s-]/g, '')
+      const labeled = /登録番号|適格/.test(line.text)
+      return { value: `T${digits}`, confidence: line.confidence * (labeled ? 0.98 : 0.85) }
+    }
+  }
+  return { value: '', confidence: 0 }
+}
+
+function extractTotal(lines: OcrLine[]): ExtractedField<number> {
+  const candidates: { amount: number, confidence: number }[] = []
+
+  lines.forEach((line, index) => {
+    const text = normalize(line.text)
+    if (/小計|対象|消費税|税額|お釣|釣銭|お預/.test(text)) return
+
+    const weight = /^\s*(合計|総合計|ご請求額|領収金額)/.test(text) ? 0.97
+      : /合計|お買上|お支払|総額|税込/.test(text) ? 0.9
+      : 0
+    if (weight === 0) return
+
+    // ラベルと金額が別の行に分かれている場合は次の行を参照する
+    const amounts = amountsIn(text.replace(/^[^\d¥￥\\]*/, ''))
+    const nextAmounts = amounts.length === 0 && lines[index + 1] ? amountsIn(normalize(lines[index + 1].text)) : []
+    const amount = amounts[amounts.length - 1] ?? nextAmounts[0]
+    if (amount !== undefined && amount > 0) {
+      candidates.push({ amount, confidence: line.confidence * (amounts.length > 0 ? weight : weight * 0.85) })
+    }
+  })
+
+  if (candidates.length > 0) {
+    const best = candidates.reduce((a, b) => (b.confidence > a.confidence ? b : a))
+    return { value: best.amount, confidence: best.confidence }
+  }
+
+  // ラベルが読み取れない場合は最大金額を合計とみなす
+  const all = lines.flatMap(line => amountsIn(normalize(line.text)).map(amount => ({ amount, confidence: line.confidence })))
+  const yenAmounts = all.filter(item => item.amount > 0 && item.amount < 10000000)
+  if (yenAmounts.length === 0) return { value: 0, confidence: 0 }
+
+  const largest = yenAmounts.reduce((a, b) => (b.amount > a.amount ? b : a))
+  return { value: largest.amount, confidence: largest.confidence * 0.4 }
+}
+
+function extractTaxBreakdown(lines: OcrLine[]): TaxRateBreakdown[] {
+  const breakdown = new Map<8 | 10, TaxRateBreakdown>()
+
+  lines.forEach((line, index) => {
+    const text = normalize(line.text)
+    const rateMatch = text.match(/(8|10)\s*%/)
+    if (!rateMatch) return
+
+    const rate = parseInt(rateMatch[1], 10) as 8 | 10
+    const amounts = amountsIn(text.replace(/(8|10)\s*%/, ''))
+    const existing = breakdown.get(rate)
+
+    if (/対象/.test(text) && amounts.length > 0) {
+      const taxableAmount = amounts[0]
+      let taxAmount = amounts[1]
+      let confidence = line.confidence * 0.9
+
+      // 「内消費税」が次の行に記載されている場合
+      const next = lines[index + 1] ? normalize(lines[index + 1].text) : ''
+      if (taxAmount === undefined && /消費税|税/.test(next) && !/(8|10)\s*%\s*対象/.test(next)) {
+        taxAmount = amountsIn(next.replace(/(8|10)\s*%/, ''))[0]
+      }
+      if (taxAmount === undefined) {
+        // 税額の記載がなければ税込額から算出する（端数切り捨て）
+        taxAmount = Math.floor(taxableAmount * rate / (100 + rate))
+        confidence *= 0.6
+      }
+
+      breakdown.set(rate, { rate, taxableAmount, taxAmount, confidence })
+    } else if (/消費税|税額/.test(text) && amounts.length > 0) {
+      const taxAmount = amounts[amounts.length - 1]
+      if (existing) {
+        breakdown.set(rate, { ...existing, taxAmount, confidence: Math.max(existing.confidence, line.confidence * 0.9) })
+      } else {
+        breakdown.set(rate, {
+          rate,
+          taxableAmount: Math.round(taxAmount * (100 + rate) / rate),
+          taxAmount,
+          confidence: line.confidence * 0.5
+        })
+      }
+    }
+  })
+
+  return [...breakdown.values()].sort((a, b) => a.rate - b.rate)
+}
+
+function extractStoreName(lines: OcrLine[]): ExtractedField<string> {
+  const candidates = lines
+    .map((line, index) => ({ ...line, text: normalize(line.text).trim(), index }))
+    .filter(line =>
+      line.text.length >= 2 &&
+      !/^(領収書|領収証|レシート|receipt)$/i.test(line.text) &&
+      !/\d{2,4}[-/.年]\d{1,2}/.test(line.text) &&
+      !/TEL|電話|登録番号|^T\d/.test(line.text) &&
+      !/^[\d\s,¥￥\\円-]+$/.test(line.text)
+    )
+    .slice(0, 5)
+
+  const company = candidates.find(line => /株式会社|有限会社|\(株\)|\(有\)|店|ホテル|商店|屋/.test(line.text))
+  if (company) {
+    return { value: company.text, confidence: company.confidence * 0.9 }
+  }
+
+  if (candidates.length > 0) {
+    return { value: candidates[0].text, confidence: candidates[0].confidence * 0.6 }
+  }
+  return { value: '', confidence: 0 }
+}
+
+// OCRテキストから領収書の項目を抽出する
+export function parseReceiptText(result: OcrTextResult): ReceiptFields {
+  const lines = result.lines.filter(line => line.text.trim().length > 0)
+
+  return {
+    storeName: extractStoreName(lines),
+    date: extractDate(lines),
+    totalAmount: extractTotal(lines),
+    invoiceNumber: extractInvoiceNumber(lines),
+    taxBreakdown: extractTaxBreakdown(lines)
+  }
+}
+
+export async function extractReceipt(
+  file: Blob,
+  fileName?: string,
+  engine: OcrEngine = getOcrEngine()
+): Promise<ReceiptMetadata> {
+  const result = await engine.recognize(file, fileName)
+
+  return {
+    ...parseReceiptText(result),
+    engine: engine.name,
+    rawText: result.text,
+    extractedAt: new Date().toISOString(),
+    correctedFields: [],
+    confirmedAt: null
+  }
+}
+
+// 利用者が確認・修正した内容を反映する（修正した項目は信頼度1として扱う）
+export function applyReceiptCorrections(
+  metadata: ReceiptMetadata,
+  corrections: Partial<{ storeName: string, date: string, totalAmount: number, invoiceNumber: string }>
+): ReceiptMetadata {
+  const updated: ReceiptMetadata = { ...metadata, correctedFields: [...metadata.correctedFields] }
+
+  const apply = <K extends keyof typeof corrections>(key: K) => {
+    const value = corrections[key]
+    if (value === undefined || value === metadata[key].value) return
+    ;(updated[key] as ExtractedField<typeof value>) = { value, confidence: 1 }
+    if (!updated.correctedFields.includes(key)) updated.correctedFields.push(key)
+  }
+
+  apply('storeName')
+  apply('date')
+  apply('totalAmount')
+  apply('invoiceNumber')
+
+  return { ...updated, confirmedAt: new Date().toISOString() }
+}
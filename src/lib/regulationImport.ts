@@ -0,0 +1,404 @@
+import { DEFAULT_ALLOWANCE_SETTINGS, type RegulationPosition } from './allowanceCalculator'
+import { extractPdfText } from './pdfText'
+import { ARTICLE_TITLES, type RegulationArticles, type RegulationCompanyInfo, type RegulationSnapshot } from './regulationVersions'
+
+// 既存の出張旅費規程（PDF）を取り込み、規程作成画面の入力内容に変換する
+// 読み取れなかった箇所は issues に記録し、作成画面で確認してもらう
+
+export interface RegulationImportIssue {
+  // 確認が必要な項目（article1〜article10 / positions / distanceThreshold / companyInfo / unmatched）
+  field: string
+  message: string
+  // 取り込めなかった原文
+  sourceText?: string
+}
+
+export interface RegulationImportResult {
+  fileName: string
+  snapshot: RegulationSnapshot
+  issues: RegulationImportIssue[]
+}
+
+// 条文の見出しから作成画面の条文を判定するためのキーワード
+const ARTICLE_KEYWORDS: { [key: string]: string[] } = {
+  article1: ['目的', '趣旨'],
+  article2: ['適用'],
+  article3: ['種類', '旅費の区分', '旅費の構成'],
+  article4: ['定義', '出張の範囲', '出張の区分'],
+  article5: ['承認', '命令', '申請'],
+  article6: ['計算', '算定', '日数'],
+  article7: ['支給方法', '支給', '精算', '仮払', '概算'],
+  article8: ['領収書', '証憑', '報告', '提出'],
+  article9: ['改廃', '改定', '改正'],
+  article10: ['附則', '付則', '施行']
+}
+
+const KANJI_DIGITS: { [char: string]: number } = {
+  '〇': 0, '一': 1, '二': 2, '三': 3, '四': 4, '五': 5, '六': 6, '七': 7, '八': 8, '九': 9
+}
+
+// 漢数字（二十三 など）を数値に変換する
+const parseNumber = (value: string) => {
+  if (/^\d+$/.test(value)) return Number(value)
+  let total = 0
+  let current = 0
+  for (const char of value) {
+    if (char in KANJI_DIGITS) {
+      current = KANJI_DIGITS[char]
+    } else if (char === '十' || char === '百') {
+      total += (current || 1) * (char === '十' ? 10 : 100)
+      current = 0
+    } else {
+      return NaN
+    }
+  }
+  return total + current
+}
+
+const ERA_OFFSETS: { [era: string]: number } = { '令和': 2018, '平成': 1988, '昭和': 1925 }
+
+// 「2024年4月1日」「令和6年4月1日」形式の日付を YYYY-MM-DD に変換する
+const parseJapaneseDate = (text: string) => {
+  const match = /(令和|平成|昭和)?\s*(\d+|元)\s*年\s*(\d+)\s*月\s*(\d+)\s*日/.exec(text)
+  if (!match) return null
+  const [, era, yearText, month, day] = match
+  const year = (yearText === '元' ? 1 : Number(yearText)) + (era ? ERA_OFFSETS[era] : 0)
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`
+}
+
+// 「第3条に定める…」のような本文中の参照と区別するため、条番号の後は見出しか空白に限る
+const ARTICLE_HEADING = /^第\s*([0-9一二三四五六七八九十百〇]+)\s*条(?:\s*[（(]([^）)]+)[）)]\s*(.*)|\s+(.*)|$)/
+const CAPTION = /^[（(]([^）)]+)[）)]$/
+const SUPPLEMENTARY_HEADING = /^[附付]\s*則\s*(.*)$/
+const TABLE_HEADING = /^[（(]?\s*別\s*表/
+const PAGE_NUMBER = /^(?:[-－—]\s*\d+\s*[-－—]|\d+\s*\/\s*\d+|\d+)$/
+const COMPANY_NAME = /(株式会社|有限会社|合同会社|合資会社|合名会社|一般社団法人|一般財団法人|医療法人|社会福祉法人)/
+const REPRESENTATIVE = /(代表取締役|代表社員|代表理事|理事長|取締役社長)/
+// 出力した規程の末尾に記載する制定日の行
+const ENACTMENT = /^制定\s*\S*\d+年/
+const AMOUNT = /^[¥￥]?\d{1,3}(?:,\d{3})*(?:円)?$|^[¥￥]?\d+(?:円)?$/
+
+// 全角の英数字・空白を半角にそろえる（条文の括弧などはそのまま残す）
+const normalizeLine = (line: string) =>
+  line
+    .replace(/[０-９Ａ-Ｚａ-ｚ，．]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xfee0))
+    .replace(/㎞/g, 'km')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+// 項番号（「2 前項の…」「(1) …」）で始まる行は改行して連結する
+const startsNewClause = (line: string) => /^(\d+|[（(][0-9一二三四五六七八九十]+[）)])[\s.．、]/.test(line)
+
+const joinLines = (lines: string[]) =>
+  lines.reduce((text, line) => {
+    if (!text) return line
+    if (startsNewClause(line)) return `${text}\n${line}`
+    // 英数字同士が行をまたぐ場合のみ空白を補う
+    return /[A-Za-z0-9]$/.test(text) && /^[A-Za-z0-9]/.test(line) ? `${text} ${line}` : `${text}${line}`
+  }, '')
+
+const matchArticleKey = (title: string) =>
+  Object.keys(ARTICLE_KEYWORDS).find(key => ARTICLE_KEYWORDS[key].some(keyword => title.includes(keyword)))
+
+interface ParsedArticle {
+  number: number
+  title: string
+  lines: string[]
+}
+
+interface AllowanceColumn {
+  field: 'dailyAllowance' | 'transportationAllowance' | 'accommodationAllowance'
+  label: string
+  keyword: RegExp
+}
+
+const ALLOWANCE_COLUMNS: AllowanceColumn[] = [
+  { field: 'dailyAllowance', label: '日当', keyword: /日当/ },
+  { field: 'transportationAllowance', label: '交通費', keyword: /交通/ },
+  { field: 'accommodationAllowance', label: '宿泊料', keyword: /宿泊/ }
+]
+
+// 別表（役職ごとの日当・交通費・宿泊料）を読み取る
+const parseAllowanceTable = (lines: string[], issues: RegulationImportIssue[]) => {
+  const positions: RegulationPosition[] = []
+  const realExpense = { transportationAllowance: 0, accommodationAllowance: 0 }
+  const notes: string[] = []
+
+  const headerIndex = lines.findIndex(line => /日当/.test(line))
+  if (headerIndex < 0) {
+    issues.push({
+      field: 'positions',
+      message: '別表に日当の列が見つからないため、支給額を読み取れませんでした',
+      sourceText: lines.join('\n')
+    })
+    return { positions, realExpense, notes }
+  }
+
+  // 見出し行に現れる順に列を並べる
+  const header = lines[headerIndex]
+  const columns = ALLOWANCE_COLUMNS
+    .map(column => ({ ...column, index: header.search(column.keyword) }))
+    .filter(column => column.index >= 0)
+    .sort((a, b) => a.index - b.index)
+
+  lines.slice(headerIndex + 1).forEach(line => {
+    if (/^(注|※|備考)/.test(line)) {
+      notes.push(line)
+      return
+    }
+
+    const tokens = line.split(/\s+/).filter(Boolean)
+    const firstValue = tokens.findIndex(token => AMOUNT.test(token) || token === '実費')
+    const name = (firstValue < 0 ? tokens : tokens.slice(0, firstValue)).join(' ')
+    const values = firstValue < 0 ? [] : tokens.slice(firstValue)
+
+    if (firstValue <= 0 || values.length !== columns.length || values.some(value => !AMOUNT.test(value) && value !== '実費')) {
+      issues.push({
+        field: 'positions',
+        message: '別表の行を読み取れませんでした。役職と支給額を確認してください',
+        sourceText: line
+      })
+      return
+    }
+
+    const position: RegulationPosition = {
+      id: String(positions.length + 1),
+      name,
+      dailyAllowance: 0,
+      transportationAllowance: 0,
+      accommodationAllowance: 0
+    }
+    columns.forEach((column, index) => {
+      if (values[index] === '実費') {
+        if (column.field === 'dailyAllowance') {
+          issues.push({ field: 'positions', message: `「${name}」の日当が実費となっています。支給額を入力してください`, sourceText: line })
+        } else {
+          realExpense[column.field]++
+        }
+        return
+      }
+      position[column.field] = Number(values[index].replace(/[¥￥,円]/g, ''))
+    })
+    positions.push(position)
+  })
+
+  columns.forEach(({ field, label }) => {
+    if (field !== 'dailyAllowance' && realExpense[field] > 0 && realExpense[field] < positions.length) {
+      issues.push({ field: 'positions', message: `${label}は一部の役職のみ実費となっています。実費精算として取り込みました` })
+    }
+  })
+
+  const missingColumns = ALLOWANCE_COLUMNS.filter(column => !columns.some(found => found.field === column.field))
+  if (missingColumns.length > 0) {
+    issues.push({
+      field: 'positions',
+      message: `別表に${missingColumns.map(column => column.label).join('・')}の列がありません。支給額を入力してください`
+    })
+  }
+
+  return { positions, realExpense, notes }
+}
+
+const findDistance = (text: string) => {
+  const match = /片道\s*(\d+(?:\.\d+)?)\s*(?:km|キロメートル|キロ)/i.exec(text) ||
+    /(\d+(?:\.\d+)?)\s*(?:km|キロメートル|キロ)\s*以上/i.exec(text)
+  return match ? Number(match[1]) : null
+}
+
+// 抽出したテキストを規程の内容に変換する
+export function parseRegulationText(text: string, fileName = ''): RegulationImportResult {
+  const issues: RegulationImportIssue[] = []
+  const lines = text
+    .split(/\r?\n/)
+    .map(normalizeLine)
+    .filter(line => line && !PAGE_NUMBER.test(line))
+
+  const preamble: string[] = []
+  const articles: ParsedArticle[] = []
+  const supplementary: string[] = []
+  const tableLines: string[] = []
+  let section: 'preamble' | 'article' | 'supplementary' | 'table' = 'preamble'
+  let pendingCaption = ''
+
+  lines.forEach(line => {
+    const heading = ARTICLE_HEADING.exec(line)
+    if (heading && section !== 'table' && section !== 'supplementary') {
+      const number = parseNumber(heading[1])
+      const body = heading[3] || heading[4]
+      articles.push({ number, title: heading[2] || pendingCaption, lines: body ? [body] : [] })
+      pendingCaption = ''
+      section = 'article'
+      return
+    }
+    const supplementaryHeading = SUPPLEMENTARY_HEADING.exec(line)
+    if (supplementaryHeading) {
+      if (supplementaryHeading[1]) supplementary.push(supplementaryHeading[1])
+      section = 'supplementary'
+      return
+    }
+    if (TABLE_HEADING.test(line)) {
+      section = 'table'
+      return
+    }
+    // 「（目的）」のように条文の前の行に置かれた見出し
+    const caption = CAPTION.exec(line)
+    if (caption && section !== 'table') {
+      pendingCaption = caption[1]
+      return
+    }
+
+    if (section === 'article') {
+      articles[articles.length - 1].lines.push(line)
+    } else if (section === 'supplementary') {
+      supplementary.push(line)
+    } else if (section === 'table') {
+      tableLines.push(line)
+    } else {
+      preamble.push(line)
+    }
+  })
+
+  // 条文を作成画面の第1条〜第9条に割り当てる
+  const assigned: RegulationArticles = {}
+  const unmatched: ParsedArticle[] = []
+  articles.forEach(article => {
+    const byTitle = article.title ? matchArticleKey(article.title) : undefined
+    const byNumber = article.number >= 1 && article.number <= 9 ? `article${article.number}` : undefined
+    const key = byTitle && !(byTitle in assigned) ? byTitle : !byTitle && byNumber && !(byNumber in assigned) ? byNumber : undefined
+    if (key) {
+      assigned[key] = joinLines(article.lines)
+      if (!byTitle) {
+        issues.push({
+          field: key,
+          message: `第${article.number}条${article.title ? `（${article.title}）` : ''}を条番号から${ARTICLE_TITLES.find(item => item.key === key)?.title}として取り込みました。内容を確認してください`
+        })
+      }
+    } else {
+      unmatched.push(article)
+    }
+  })
+
+  unmatched.forEach(article => {
+    issues.push({
+      field: 'unmatched',
+      message: `第${article.number}条${article.title ? `（${article.title}）` : ''}は対応する条文がないため取り込めませんでした。必要に応じて該当する条文に追記してください`,
+      sourceText: joinLines(article.lines)
+    })
+  })
+
+  if (supplementary.length > 0) {
+    assigned.article10 = joinLines(supplementary.filter(line =>
+      !COMPANY_NAME.test(line) && !REPRESENTATIVE.test(line) && !ENACTMENT.test(line)
+    ))
+  }
+
+  if (articles.length === 0) {
+    issues.push({
+      field: 'unmatched',
+      message: '「第○条」形式の条文が見つかりませんでした。PDFの内容を各条文に入力してください',
+      sourceText: preamble.join('\n') || undefined
+    })
+  }
+
+  const articleValues: RegulationArticles = {}
+  ARTICLE_TITLES.forEach(({ key, title }) => {
+    articleValues[key] = assigned[key] || ''
+    if (!assigned[key] && articles.length > 0) {
+      issues.push({ field: key, message: `${title}に当たる条文が見つかりませんでした` })
+    }
+  })
+
+  // 会社情報（前文・附則の署名欄から読み取る）
+  const signatureLines = [...preamble, ...supplementary]
+  const companyLine = signatureLines.find(line => COMPANY_NAME.test(line))
+  const representativeLine = signatureLines.find(line => REPRESENTATIVE.test(line))
+  const companyName = companyLine
+    ? (companyLine.split(REPRESENTATIVE)[0].match(/\S*(?:株式会社|有限会社|合同会社|合資会社|合名会社|一般社団法人|一般財団法人|医療法人|社会福祉法人)\S*/) || [''])[0]
+    : ''
+  const representative = representativeLine ? representativeLine.slice(representativeLine.search(REPRESENTATIVE)) : ''
+  const establishedDate = parseJapaneseDate(supplementary.join('\n')) || parseJapaneseDate(preamble.join('\n'))
+  // 「制定 2024年4月1日（第2次改訂）」の表記があれば改訂回数をそのまま使う
+  const revisionNumber = /第(\d+)次改[訂定正]/.exec(supplementary.join('\n'))
+  const revisions = revisionNumber
+    ? Number(revisionNumber[1]) - 1
+    : supplementary.filter(line => /(改定|改訂|改正)/.test(line)).length
+
+  const companyInfo: RegulationCompanyInfo = {
+    name: companyName,
+    address: '',
+    representative,
+    establishedDate: establishedDate || '',
+    revision: revisions + 1
+  }
+  if (!companyName) issues.push({ field: 'companyInfo', message: '会社名を読み取れませんでした' })
+  if (!establishedDate) issues.push({ field: 'companyInfo', message: '制定日（施行日）を読み取れませんでした' })
+
+  // 前文のうち表題・会社情報以外の記載
+  const leftover = preamble.filter(line =>
+    !/規程|規定/.test(line) && line !== companyLine && line !== representativeLine && !parseJapaneseDate(line)
+  )
+  if (leftover.length > 0 && articles.length > 0) {
+    issues.push({
+      field: 'unmatched',
+      message: '条文の前にある記載を取り込めませんでした',
+      sourceText: leftover.join('\n')
+    })
+  }
+
+  // 別表
+  const table = tableLines.length > 0
+    ? parseAllowanceTable(tableLines, issues)
+    : { positions: [], realExpense: { transportationAllowance: 0, accommodationAllowance: 0 }, notes: [] }
+  if (tableLines.length === 0) {
+    issues.push({ field: 'positions', message: '別表（支給基準）が見つかりませんでした。標準の支給額を設定しています' })
+  } else if (table.positions.length === 0) {
+    issues.push({ field: 'positions', message: '別表から役職を読み取れませんでした。標準の支給額を設定しています' })
+  }
+
+  // 出張の定義から距離の基準を読み取る
+  const distanceFromArticle = findDistance(articleValues.article4)
+  const distanceFromOther = distanceFromArticle === null
+    ? findDistance([...Object.values(articleValues), ...table.notes].join('\n'))
+    : null
+  const distanceThreshold = distanceFromArticle ?? distanceFromOther ?? DEFAULT_ALLOWANCE_SETTINGS.distanceThreshold
+  if (distanceFromArticle === null) {
+    issues.push({
+      field: 'distanceThreshold',
+      message: distanceFromOther !== null
+        ? `出張の定義に距離の記載がないため、他の条文・注記にある${distanceFromOther}kmを設定しました`
+        : `出張の定義から距離の基準を読み取れませんでした。標準の${DEFAULT_ALLOWANCE_SETTINGS.distanceThreshold}kmを設定しています`
+    })
+  }
+
+  const positions = table.positions.length > 0 ? table.positions : DEFAULT_ALLOWANCE_SETTINGS.positions.map(position => ({ ...position }))
+
+  return {
+    fileName,
+    snapshot: {
+      name: companyName ? `${companyName} 出張旅費規程` : '出張旅費規程',
+      company_info: companyInfo,
+      articles: articleValues,
+      allowance_settings: {
+        positions,
+        distanceThreshold,
+        isTransportationRealExpense: table.realExpense.transportationAllowance > 0,
+        isAccommodationRealExpense: table.realExpense.accommodationAllowance > 0
+      }
+    },
+    issues
+  }
+}
+
+// PDFファイルを読み込んで規程の内容に変換する
+export async function importRegulationPdf(file: File): Promise<RegulationImportResult> {
+  const { text, warnings } = await extractPdfText(new Uint8Array(await file.arrayBuffer()))
+  if (!text.trim()) {
+    throw new Error('PDFから文字を読み取れませんでした。画像のみのPDF（スキャンデータ）は取り込めません')
+  }
+
+  const result = parseRegulationText(text, file.name)
+  return {
+    ...result,
+    issues: [...warnings.map(message => ({ field: 'unmatched', message })), ...result.issues]
+  }
+}
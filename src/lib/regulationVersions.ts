@@ -0,0 +1,276 @@
+import { resolveAllowanceSettings, type AllowanceSettings, type RegulationPosition } from './allowanceCalculator'
+
+// 出張規程の版（保存のたびに作成され、更新・削除はされない）
+export interface RegulationVersion {
+  id: string
+  regulation_id: string
+  organization_id: string | null
+  version_number: number
+  version: string
+  name: string
+  company_info: RegulationCompanyInfo
+  articles: RegulationArticles
+  allowance_settings: AllowanceSettings
+  change_summary: string | null
+  restored_from: string | null
+  created_by: string | null
+  created_by_name?: string | null
+  created_at: string
+}
+
+export interface RegulationCompanyInfo {
+  name: string
+  address: string
+  representative: string
+  establishedDate: string
+  revision: number
+}
+
+export type RegulationArticles = { [key: string]: string }
+
+// 保存する規程の内容
+export interface RegulationSnapshot {
+  name: string
+  company_info: RegulationCompanyInfo
+  articles: RegulationArticles
+  allowance_settings: AllowanceSettings
+}
+
+export const ARTICLE_TITLES: { key: string, title: string }[] = [
+  { key: 'article1', title: '第1条（目的）' },
+  { key: 'article2', title: '第2条（適用範囲）' },
+  { key: 'article3', title: '第3条（旅費の種類）' },
+  { key: 'article4', title: '第4条（出張の定義）' },
+  { key: 'article5', title: '第5条（出張の承認）' },
+  { key: 'article6', title: '第6条（旅費の計算方法）' },
+  { key: 'article7', title: '第7条（旅費の支給方法）' },
+  { key: 'article8', title: '第8条（領収書の提出）' },
+  { key: 'article9', title: '第9条（規程の改廃）' },
+  { key: 'article10', title: '第10条（附則）' }
+]
+
+// 規程作成画面の入力データ（条文・別表が同じ階層に並ぶ形式）から保存内容を組み立てる
+export function buildRegulationSnapshot(data: {
+  companyInfo: RegulationCompanyInfo
+  positions: RegulationPosition[]
+  distanceThreshold: number
+  isTransportationRealExpense: boolean
+  isAccommodationRealExpense: boolean
+  [key: string]: unknown
+}): RegulationSnapshot {
+  const articles: RegulationArticles = {}
+  ARTICLE_TITLES.forEach(({ key }) => {
+    articles[key] = typeof data[key] === 'string' ? data[key] as string : ''
+  })
+
+  return {
+    name: data.companyInfo.name ? `${data.companyInfo.name} 出張旅費規程` : '出張旅費規程',
+    company_info: { ...data.companyInfo },
+    articles,
+    allowance_settings: resolveAllowanceSettings({
+      positions: data.positions,
+      distanceThreshold: data.distanceThreshold,
+      isTransportationRealExpense: data.isTransportationRealExpense,
+      isAccommodationRealExpense: data.isAccommodationRealExpense
+    })
+  }
+}
+
+// ---- 差分 ----
+
+export interface TextDiffSegment {
+  type: 'equal' | 'removed' | 'added'
+  text: string
+}
+
+export interface ArticleDiff {
+  key: string
+  title: string
+  status: 'unchanged' | 'changed' | 'added' | 'removed'
+  before: string
+  after: string
+  segments: TextDiffSegment[]
+}
+
+export type AllowanceField = 'dailyAllowance' | 'transportationAllowance' | 'accommodationAllowance'
+
+export interface AllowanceRowDiff {
+  positionName: string
+  status: 'unchanged' | 'changed' | 'added' | 'removed'
+  before: Pick<RegulationPosition, AllowanceField> | null
+  after: Pick<RegulationPosition, AllowanceField> | null
+  changedFields: AllowanceField[]
+}
+
+export interface SettingDiff {
+  label: string
+  before: string
+  after: string
+}
+
+export interface RegulationDiff {
+  articles: ArticleDiff[]
+  allowances: AllowanceRowDiff[]
+  settings: SettingDiff[]
+  hasChanges: boolean
+}
+
+export const ALLOWANCE_FIELD_LABELS: { [field in AllowanceField]: string } = {
+  dailyAllowance: '日当',
+  transportationAllowance: '交通費',
+  accommodationAllowance: '宿泊料'
+}
+
+const ALLOWANCE_FIELDS: AllowanceField[] = ['dailyAllowance', 'transportationAllowance', 'accommodationAllowance']
+
+// 句点・改行で文に分割する（区切り文字は前の文に含める）
+const splitSentences = (text: string) => text.match(/[^。\n]+[。\n]?|\n/g) || []
+
+// 文単位の最長共通部分列で差分を求める
+export function diffText(before: string, after: string): TextDiffSegment[] {
+  const a = splitSentences(before)
+  const b = splitSentences(after)
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const segments: TextDiffSegment[] = []
+  const push = (type: TextDiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1]
+    if (last && last.type === type) {
+      last.text += text
+    } else {
+      segments.push({ type, text })
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i])
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++])
+    } else {
+      push('added', b[j++])
+    }
+  }
+  while (i < a.length) push('removed', a[i++])
+  while (j < b.length) push('added', b[j++])
+
+  return segments
+}
+
+export function diffArticles(before: RegulationArticles, after: RegulationArticles): ArticleDiff[] {
+  const knownKeys = ARTICLE_TITLES.map(({ key }) => key)
+  const extraKeys = [...new Set([...Object.keys(before || {}), ...Object.keys(after || {})])]
+    .filter(key => !knownKeys.includes(key))
+
+  return [...ARTICLE_TITLES, ...extraKeys.map(key => ({ key, title: key }))].map(({ key, title }) => {
+    const oldText = before?.[key] || ''
+    const newText = after?.[key] || ''
+    const status: ArticleDiff['status'] = oldText === newText
+      ? 'unchanged'
+      : !oldText ? 'added'
+      : !newText ? 'removed'
+      : 'changed'
+
+    return {
+      key,
+      title,
+      status,
+      before: oldText,
+      after: newText,
+      segments: status === 'unchanged' ? [{ type: 'equal', text: newText }] : diffText(oldText, newText)
+    }
+  })
+}
+
+// 別表（役職別の支給額）を役職名で突き合わせて比較する
+export function diffAllowanceTables(before: RegulationPosition[], after: RegulationPosition[]): AllowanceRowDiff[] {
+  const pick = (pos: RegulationPosition | undefined) => pos
+    ? { dailyAllowance: pos.dailyAllowance, transportationAllowance: pos.transportationAllowance, accommodationAllowance: pos.accommodationAllowance }
+    : null
+
+  const names = [...new Set([...before.map(pos => pos.name), ...after.map(pos => pos.name)])]
+
+  return names.map(positionName => {
+    const oldRow = pick(before.find(pos => pos.name === positionName))
+    const newRow = pick(after.find(pos => pos.name === positionName))
+    const changedFields = oldRow && newRow ? ALLOWANCE_FIELDS.filter(field => oldRow[field] !== newRow[field]) : []
+
+    return {
+      positionName,
+      status: !oldRow ? 'added' : !newRow ? 'removed' : changedFields.length > 0 ? 'changed' : 'unchanged',
+      before: oldRow,
+      after: newRow,
+      changedFields
+    }
+  })
+}
+
+const formatFlag = (value: boolean) => (value ? '実費精算' : '定額支給')
+
+export function diffRegulationVersions(
+  before: Pick<RegulationVersion, 'articles' | 'allowance_settings'>,
+  after: Pick<RegulationVersion, 'articles' | 'allowance_settings'>
+): RegulationDiff {
+  const oldSettings = resolveAllowanceSettings({ allowance_settings: before.allowance_settings })
+  const newSettings = resolveAllowanceSettings({ allowance_settings: after.allowance_settings })
+
+  const settings: SettingDiff[] = []
+  if (oldSettings.distanceThreshold !== newSettings.distanceThreshold) {
+    settings.push({ label: '出張の距離基準', before: `${oldSettings.distanceThreshold}km`, after: `${newSettings.distanceThreshold}km` })
+  }
+  if (oldSettings.isTransportationRealExpense !== newSettings.isTransportationRealExpense) {
+    settings.push({ label: '交通費の支給方法', before: formatFlag(oldSettings.isTransportationRealExpense), after: formatFlag(newSettings.isTransportationRealExpense) })
+  }
+  if (oldSettings.isAccommodationRealExpense !== newSettings.isAccommodationRealExpense) {
+    settings.push({ label: '宿泊料の支給方法', before: formatFlag(oldSettings.isAccommodationRealExpense), after: formatFlag(newSettings.isAccommodationRealExpense) })
+  }
+
+  const articles = diffArticles(before.articles, after.articles)
+  const allowances = diffAllowanceTables(oldSettings.positions, newSettings.positions)
+
+  return {
+    articles,
+    allowances,
+    settings,
+    hasChanges: settings.length > 0
+      || articles.some(article => article.status !== 'unchanged')
+      || allowances.some(row => row.status !== 'unchanged')
+  }
+}
+
+// 変更内容の要約を自動生成する（変更概要が未入力の場合に使用）
+export function summarizeRegulationChanges(diff: RegulationDiff): string {
+  const changes: string[] = []
+
+  diff.articles.forEach(article => {
+    if (article.status === 'changed') changes.push(`${article.title}を変更`)
+    if (article.status === 'added') changes.push(`${article.title}を追加`)
+    if (article.status === 'removed') changes.push(`${article.title}を削除`)
+  })
+
+  diff.allowances.forEach(row => {
+    if (row.status === 'added') changes.push(`役職「${row.positionName}」を追加`)
+    if (row.status === 'removed') changes.push(`役職「${row.positionName}」を削除`)
+    row.changedFields.forEach(field => {
+      changes.push(
+        `${row.positionName}の${ALLOWANCE_FIELD_LABELS[field]}を¥${(row.before?.[field] || 0).toLocaleString()}→¥${(row.after?.[field] || 0).toLocaleString()}に変更`
+      )
+    })
+  })
+
+  diff.settings.forEach(setting => {
+    changes.push(`${setting.label}を${setting.before}→${setting.after}に変更`)
+  })
+
+  return changes.length > 0 ? changes.join('、') : '変更なし'
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { encodeShiftJis } from './shiftJis'
+
+const hex = (text: string) => Array.from(encodeShiftJis(text)).map(byte => byte.toString(16).padStart(2, '0')).join(' ')
+
+describe('encodeShiftJis', () => {
+  it('keeps ASCII as it is', () => {
+    expect(Array.from(encodeShiftJis('ID,Amount\r\n"a+b"~'))).toEqual(Array.from(new TextEncoder().encode('ID,Amount\r\n"a+b"~')))
+  })
+
+  it('encodes half-width kana as single bytes', () => {
+    expect(hex('ｱｲｳﾞ｡ﾟ')).toBe('b1 b2 b3 de a1 df')
+  })
+
+  it('encodes JIS X 0208 characters as double bytes', () => {
+    expect(hex('出張旅費')).toBe('8f 6f 92 a3 97 b7 94 ef')
+    expect(hex('東京、ﾃｽﾄ')).toBe('93 8c 8b 9e 81 41 c3 bd c4')
+  })
+
+  it('encodes NEC special characters and IBM extensions', () => {
+    // NEC特殊文字（13区）
+    expect(hex('①㈱№')).toBe('87 40 87 8a 87 82')
+    // NEC選定IBM拡張文字と重複する文字は IBM拡張文字（0xFA〜0xFC）で出力する
+    expect(hex('纊髙﨑')).toBe('fa 5c fb fc fa b1')
+    expect(hex('ⅰ￤')).toBe('fa 40 fa 55')
+  })
+
+  it('maps the yen sign, overline, minus sign and fullwidth tilde like Windows', () => {
+    expect(hex('¥‾')).toBe('5c 7e')
+    expect(hex('−－')).toBe('81 7c 81 7c')
+    expect(hex('～')).toBe('81 60')
+  })
+
+  it('replaces characters that Shift_JIS cannot represent with ?', () => {
+    // 波ダッシュ（U+301C）・二重縦線（U+2016）・絵文字・JIS X 0213 の文字
+    expect(hex('〜‖😀𠮷¬')).toBe('3f 3f 3f 3f 3f')
+    expect(new TextDecoder('shift_jis').decode(encodeShiftJis('交通費〜😀'))).toBe('交通費??')
+  })
+
+  it('round-trips through the Shift_JIS decoder', () => {
+    const text = '株式会社サンプル　領収書 ¥3,300（税込）①'
+    expect(new TextDecoder('shift_jis').decode(encodeShiftJis(text))).toBe(text.replace('¥', '\\'))
+  })
+})
@@ -0,0 +1,71 @@
+// Shift_JIS（Windows の日本語版 Excel が CSV の既定として扱う文字コード）への変換
+// ブラウザの TextEncoder は UTF-8 しか出力できないため、TextDecoder の Shift_JIS 表から逆引き表を作る
+
+const REPLACEMENT = 0x3f // '?'
+
+let encodeTable: Map<number, number> | null = null
+
+// WHATWG Encoding の Shift_JIS エンコーダーと同じく、NEC選定IBM拡張文字（ポインタ 8272〜8835）は
+// IBM拡張文字（0xFA〜0xFC）に同じ文字がない場合のみ使う
+const buildEncodeTable = () => {
+  const decoder = new TextDecoder('shift_jis', { fatal: true })
+  const table = new Map<number, number>()
+  const deferred: [number, number][] = []
+
+  for (let lead = 0x81; lead <= 0xfc; lead++) {
+    if (lead >= 0xa0 && lead <= 0xdf) continue
+    for (let trail = 0x40; trail <= 0xfc; trail++) {
+      if (trail === 0x7f) continue
+      let char: string
+      try {
+        char = decoder.decode(new Uint8Array([lead, trail]))
+      } catch {
+        continue
+      }
+      const codePoint = char.codePointAt(0)
+      if (codePoint === undefined || char.length !== 1) continue
+
+      const pointer = (lead - (lead < 0xa0 ? 0x81 : 0xc1)) * 188 + trail - (trail < 0x7f ? 0x40 : 0x41)
+      const bytes = (lead << 8) | trail
+      if (pointer >= 8272 && pointer <= 8835) {
+        deferred.push([codePoint, bytes])
+      } else if (!table.has(codePoint)) {
+        table.set(codePoint, bytes)
+      }
+    }
+  }
+
+  deferred.forEach(([codePoint, bytes]) => {
+    if (!table.has(codePoint)) table.set(codePoint, bytes)
+  })
+  return table
+}
+
+// Shift_JIS で表せない文字（絵文字・一部の異体字など）は '?' に置き換える
+export function encodeShiftJis(text: string): Uint8Array {
+  if (!encodeTable) encodeTable = buildEncodeTable()
+
+  const bytes: number[] = []
+  for (const char of text) {
+    const codePoint = char.codePointAt(0) as number
+    if (codePoint < 0x80) {
+      bytes.push(codePoint)
+    } else if (codePoint === 0xa5) {
+      // 円記号は 0x5C として扱う
+      bytes.push(0x5c)
+    } else if (codePoint === 0x203e) {
+      bytes.push(0x7e)
+    } else if (codePoint >= 0xff61 && codePoint <= 0xff9f) {
+      // 半角カナ
+      bytes.push(codePoint - 0xff61 + 0xa1)
+    } else {
+      const encoded = encodeTable.get(codePoint === 0x2212 ? 0xff0d : codePoint)
+      if (encoded === undefined) {
+        bytes.push(REPLACEMENT)
+      } else {
+        bytes.push(encoded >> 8, encoded & 0xff)
+      }
+    }
+  }
+  return new Uint8Array(bytes)
+}
@@ -0,0 +1,56 @@
+// タイムスタンプ局（RFC 3161 形式のトークン）
+
+import { issueLocalTimestamp, verifyLocalTimestamp } from './supabase'
+
+// RFC 3161 の TSTInfo に相当する項目
+export interface TimestampToken {
+  version: number
+  policy: string
+  messageImprint: { hashAlgorithm: 'SHA-256', hashedMessage: string }
+  serialNumber: string
+  genTime: string
+  accuracy?: { seconds: number }
+  tsa: string
+  nonce?: string | null
+  signature: string
+}
+
+// タイムスタンプ局のインターフェース
+export interface TimestampAuthority {
+  name: string
+  issue: (sha256: string) => Promise<TimestampToken>
+  verify: (token: TimestampToken, sha256: string) => Promise<boolean>
+}
+
+const createNonce = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('')
+
+// 発行を依頼したハッシュ値・ナンスに対するトークンか確認する
+const assertTokenMatches = (token: TimestampToken, sha256: string, nonce: string) => {
+  if (token.messageImprint?.hashedMessage !== sha256 || (token.nonce && token.nonce !== nonce)) {
+    throw new Error('Timestamp token does not match the request')
+  }
+  return token
+}
+
+// データベースの関数（issue_timestamp_token）で署名するローカルの局
+export function createLocalTimestampAuthority(): TimestampAuthority {
+  return {
+    name: 'local',
+    issue: async (sha256: string) => {
+      const nonce = createNonce()
+      return assertTokenMatches(await issueLocalTimestamp(sha256, nonce), sha256, nonce)
+    },
+    verify: (token: TimestampToken, sha256: string) => verifyLocalTimestamp(token, sha256)
+  }
+}
+
+// 登録時にサーバー（register_stored_document）で署名を検証できる局のみ使用する
+export function getTimestampAuthority(): TimestampAuthority {
+  return createLocalTimestampAuthority()
+}
+
+// 保存済みのトークンを発行した局（サーバーで検証できない局のトークンは null）
+export function findTimestampAuthority(name: string): TimestampAuthority | null {
+  return name === 'local' ? createLocalTimestampAuthority() : null
+}
@@ -0,0 +1,189 @@
+// 出張ログ台帳（出張中の滞在地点と勤務地からの距離）
+// 距離の計算と記録した地点の変更禁止はデータベース（trip_checkpoints のトリガー）で行う。ここでの計算は取り込み前の確認用
+
+export type CheckpointSource = 'manual' | 'gpx' | 'geolocation'
+
+export interface TripCheckpoint {
+  id: string
+  application_id: string
+  user_id: string
+  recorded_at: string
+  latitude: number
+  longitude: number
+  accuracy_m: number | null
+  place_name: string | null
+  source: CheckpointSource
+  office_latitude: number | null
+  office_longitude: number | null
+  distance_from_office_km: number | null
+  stored_document_id: string | null
+  receipt_sha256?: string | null
+  receipt_counterparty?: string | null
+  note: string | null
+  excluded_at: string | null
+  exclusion_reason: string | null
+  created_at: string
+}
+
+export interface NewTripCheckpoint {
+  recordedAt: string
+  latitude: number
+  longitude: number
+  accuracyM?: number | null
+  placeName?: string | null
+  source: CheckpointSource
+  storedDocumentId?: string | null
+  note?: string | null
+}
+
+export interface WorkLocation {
+  name: string | null
+  latitude: number
+  longitude: number
+}
+
+// 組織設定（organizations.settings.workLocation）の勤務地
+export function normalizeWorkLocation(value: unknown): WorkLocation | null {
+  const location = value as Partial<WorkLocation> | null | undefined
+  if (!location || typeof location.latitude !== 'number' || typeof location.longitude !== 'number') return null
+  if (!isValidCoordinate(location.latitude, location.longitude)) return null
+  return { name: location.name || null, latitude: location.latitude, longitude: location.longitude }
+}
+
+export interface TripLogSummary {
+  checkpointCount: number
+  maxDistanceKm: number | null
+  farthest: TripCheckpoint | null
+  meetsThreshold: boolean
+}
+
+export const CHECKPOINT_SOURCE_LABELS: { [source in CheckpointSource]: string } = {
+  manual: '手入力',
+  gpx: 'GPX取り込み',
+  geolocation: '位置情報'
+}
+
+const EARTH_RADIUS_KM = 6371
+
+// GPXの軌跡は間引いて記録する（前の地点からこの距離以上離れた地点のみ）
+export const GPX_MIN_INTERVAL_KM = 5
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180
+
+export function isValidCoordinate(latitude: number, longitude: number) {
+  return Number.isFinite(latitude) && Number.isFinite(longitude) &&
+    Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180
+}
+
+// データベースの distance_km と同じ計算
+export function distanceKm(
+  from: { latitude: number, longitude: number },
+  to: { latitude: number, longitude: number }
+) {
+  const dLat = toRadians(to.latitude - from.latitude)
+  const dLon = toRadians(to.longitude - from.longitude)
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2
+  return EARTH_RADIUS_KM * 2 * Math.asin(Math.sqrt(a))
+}
+
+// GPXファイルのウェイポイント・トラック・ルートの地点を読み取る
+export function parseGpx(text: string): NewTripCheckpoint[] {
+  const xml = new DOMParser().parseFromString(text, 'application/xml')
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid GPX file')
+  }
+
+  const points = ['wpt', 'trkpt', 'rtept'].flatMap(tag => Array.from(xml.getElementsByTagName(tag)))
+  return points
+    .map(point => ({
+      recordedAt: point.getElementsByTagName('time')[0]?.textContent?.trim() || '',
+      latitude: Number(point.getAttribute('lat')),
+      longitude: Number(point.getAttribute('lon')),
+      placeName: point.getElementsByTagName('name')[0]?.textContent?.trim() || null,
+      source: 'gpx' as const
+    }))
+    .filter(point => point.recordedAt && !Number.isNaN(new Date(point.recordedAt).getTime()) && isValidCoordinate(point.latitude, point.longitude))
+    .sort((a, b) => new Date(a.recordedAt).getTime() - new Date(b.recordedAt).getTime())
+}
+
+// 軌跡を間引く（最初・最後・勤務地から最も遠い地点は必ず残す）
+export function thinTrackPoints(
+  points: NewTripCheckpoint[],
+  office: WorkLocation | null,
+  minIntervalKm = GPX_MIN_INTERVAL_KM
+): NewTripCheckpoint[] {
+  if (points.length <= 2) return points
+
+  const farthest = office
+    ? points.reduce((max, point) => distanceKm(office, point) > distanceKm(office, max) ? point : max)
+    : null
+
+  const kept: NewTripCheckpoint[] = [points[0]]
+  points.slice(1, -1).forEach(point => {
+    if (point === farthest || distanceKm(kept[kept.length - 1], point) >= minIntervalKm) {
+      kept.push(point)
+    }
+  })
+  kept.push(points[points.length - 1])
+  return kept
+}
+
+// ブラウザの位置情報から現在地を取得する
+export function getCurrentCheckpoint(): Promise<NewTripCheckpoint> {
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error('Geolocation is not supported'))
+      return
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({
+        recordedAt: new Date(position.timestamp).toISOString(),
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracyM: Math.round(position.coords.accuracy),
+        source: 'geolocation'
+      }),
+      error => reject(new Error(error.code === error.PERMISSION_DENIED ? 'Geolocation permission denied' : 'Failed to get current position')),
+      { enableHighAccuracy: true, timeout: 15000, maximumAge: 60000 }
+    )
+  })
+}
+
+// 除外していない地点のうち、勤務地から最も遠い地点で距離基準を満たすか判定する
+export function summarizeTripLog(checkpoints: TripCheckpoint[], distanceThreshold: number): TripLogSummary {
+  const counted = checkpoints.filter(checkpoint => !checkpoint.excluded_at)
+  const measured = counted.filter(checkpoint => checkpoint.distance_from_office_km !== null)
+  const farthest = measured.reduce<TripCheckpoint | null>(
+    (max, checkpoint) => !max || Number(checkpoint.distance_from_office_km) > Number(max.distance_from_office_km) ? checkpoint : max,
+    null
+  )
+  const maxDistanceKm = farthest ? Number(farthest.distance_from_office_km) : null
+
+  return {
+    checkpointCount: counted.length,
+    maxDistanceKm,
+    farthest,
+    meetsThreshold: maxDistanceKm !== null && maxDistanceKm >= distanceThreshold
+  }
+}
+
+// データベース・ブラウザのエラーを画面表示用の文言にする
+const TRIP_LOG_ERROR_MESSAGES: { [message: string]: string } = {
+  'Invalid GPX file': 'GPXファイルを読み取れませんでした',
+  'Geolocation is not supported': 'このブラウザは位置情報に対応していません',
+  'Geolocation permission denied': '位置情報の利用が許可されていません',
+  'Failed to get current position': '現在地を取得できませんでした',
+  'Trip checkpoints cannot be deleted': '記録した地点は削除できません。除外してください',
+  'Trip checkpoints are immutable': '記録した地点は変更できません',
+  'An exclusion reason is required': '除外の理由を入力してください',
+  'Checkpoints cannot be added to this application': '承認済み・終了した申請には地点を追加できません',
+  'Checkpoint is outside the trip period': '出張期間内の日時のみ記録できます'
+}
+
+export function toTripLogErrorMessage(message: string | undefined) {
+  if (message && TRIP_LOG_ERROR_MESSAGES[message]) return TRIP_LOG_ERROR_MESSAGES[message]
+  if (message?.includes('row-level security')) return 'この出張申請には地点を記録できません'
+  return message || '処理に失敗しました'
+}
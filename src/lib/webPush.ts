@@ -0,0 +1,72 @@
+// Web Push の購読（端末ごとに push_subscriptions へ登録する）
+// 受信と通知クリック時の画面遷移は public/sw.js で行う
+
+const SERVICE_WORKER_URL = '/sw.js'
+
+export interface PushSubscriptionKeys {
+  endpoint: string
+  p256dh: string
+  auth: string
+}
+
+export const getVapidPublicKey = () => (import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined) || ''
+
+export function isPushSupported() {
+  return typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window
+}
+
+// VAPID の公開鍵（URL safe Base64）を applicationServerKey の形式にする
+export function urlBase64ToUint8Array(base64: string) {
+  const padding = '='.repeat((4 - (base64.length % 4)) % 4)
+  const raw = atob((base64 + padding).replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(raw, char => char.charCodeAt(0))
+}
+
+const getRegistration = async () => {
+  const existing = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL)
+  return existing || navigator.serviceWorker.register(SERVICE_WORKER_URL)
+}
+
+export async function getCurrentPushSubscription() {
+  if (!isPushSupported()) return null
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL)
+  return registration ? registration.pushManager.getSubscription() : null
+}
+
+// 通知の許可を求めてから購読する（許可されなかった場合はエラー）
+export async function subscribeToPush(vapidPublicKey: string = getVapidPublicKey()) {
+  if (!isPushSupported()) throw new Error('このブラウザはプッシュ通知に対応していません')
+  if (!vapidPublicKey) throw new Error('プッシュ通知の公開鍵（VITE_VAPID_PUBLIC_KEY）が設定されていません')
+
+  const permission = await Notification.requestPermission()
+  if (permission !== 'granted') throw new Error('通知が許可されていません。ブラウザの設定を確認してください')
+
+  const registration = await getRegistration()
+  const existing = await registration.pushManager.getSubscription()
+  if (existing) return existing
+
+  return registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(vapidPublicKey)
+  })
+}
+
+// 購読を解除し、解除したエンドポイントを返す（購読していなければ null）
+export async function unsubscribeFromPush() {
+  const subscription = await getCurrentPushSubscription()
+  if (!subscription) return null
+  await subscription.unsubscribe()
+  return subscription.endpoint
+}
+
+export function toPushSubscriptionKeys(subscription: PushSubscription): PushSubscriptionKeys {
+  const json = subscription.toJSON()
+  return {
+    endpoint: subscription.endpoint,
+    p256dh: json.keys?.p256dh || '',
+    auth: json.keys?.auth || ''
+  }
+}
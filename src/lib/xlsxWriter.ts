@@ -0,0 +1,129 @@
+import { createZipParts } from './zip'
+
+// Excel（.xlsx / Office Open XML）形式の表を生成する
+// 行はまとめて追加でき、追加した時点でXMLのバイト列に変換するため元のデータを保持しない
+
+export type XlsxCellValue = string | number | null | undefined
+
+export interface XlsxColumn {
+  label: string
+  // 列幅（文字数）
+  width?: number
+  // number の列は数値セル（桁区切り表示）として出力する
+  type?: 'text' | 'number'
+}
+
+const escapeXml = (text: string) =>
+  Array.from(text)
+    .filter(char => {
+      const code = char.charCodeAt(0)
+      return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d
+    })
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+// 列番号（0始まり）を A, B, ..., Z, AA ... に変換する
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26))
+
+// スタイル 0: 標準、1: 見出し（太字・背景色）、2: 数値（桁区切り）
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="11"/><name val="游ゴシック"/></font><font><b/><sz val="11"/><name val="游ゴシック"/></font></fonts>
+<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FFE2E8F0"/><bgColor indexed="64"/></patternFill></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/><xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>
+<cellStyles count="1"><cellStyle name="標準" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`
+
+const packageFiles = (sheetName: string) => [
+  {
+    name: '[Content_Types].xml',
+    data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`
+  },
+  {
+    name: '_rels/.rels',
+    data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`
+  },
+  {
+    name: 'xl/workbook.xml',
+    data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`
+  },
+  {
+    name: 'xl/_rels/workbook.xml.rels',
+    data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`
+  },
+  { name: 'xl/styles.xml', data: STYLES_XML }
+]
+
+// シート名に使えない文字を除き、31文字以内にする
+const toSheetName = (name: string) => name.replace(/[\\/?*[\]:]/g, '_').slice(0, 31) || 'Sheet1'
+
+export function createXlsxWriter(columns: XlsxColumn[], sheetName = 'Sheet1') {
+  const encoder = new TextEncoder()
+  const chunks: Uint8Array[] = []
+  let rowNumber = 0
+
+  const cell = (value: XlsxCellValue, column: XlsxColumn | undefined, reference: string, style?: number) => {
+    if (value === null || value === undefined || value === '') return ''
+    if (column?.type === 'number' && typeof value === 'number' && Number.isFinite(value)) {
+      return `<c r="${reference}" s="${style ?? 2}"><v>${value}</v></c>`
+    }
+    return `<c r="${reference}" t="inlineStr"${style ? ` s="${style}"` : ''}><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`
+  }
+
+  const addRow = (values: XlsxCellValue[], style?: number) => {
+    rowNumber += 1
+    return `<row r="${rowNumber}">${values.map((value, index) =>
+      cell(value, style ? undefined : columns[index], `${columnName(index)}${rowNumber}`, style)
+    ).join('')}</row>`
+  }
+
+  const widths = columns.map((column, index) =>
+    `<col min="${index + 1}" max="${index + 1}" width="${column.width || 14}" customWidth="1"/>`
+  ).join('')
+  chunks.push(encoder.encode(
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    // 見出し行を固定する
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<cols>${widths}</cols><sheetData>` +
+    addRow(columns.map(column => column.label), 1)
+  ))
+
+  return {
+    addRows(rows: XlsxCellValue[][]) {
+      if (rows.length === 0) return
+      chunks.push(encoder.encode(rows.map(row => addRow(row)).join('')))
+    },
+    // .xlsx を構成するバイト列（Blob にそのまま渡せる）
+    finish(): Uint8Array[] {
+      chunks.push(encoder.encode('</sheetData></worksheet>'))
+      return createZipParts([
+        ...packageFiles(toSheetName(sheetName)),
+        { name: 'xl/worksheets/sheet1.xml', data: chunks }
+      ])
+    }
+  }
+}
@@ -0,0 +1,105 @@
+// 無圧縮（STORE）形式のZIPを作成する（.docx / .xlsx の生成に使用）
+
+export interface ZipEntry {
+  name: string
+  // 大きなファイルは分割したまま渡せる（結合せずにそのまま出力する）
+  data: string | Uint8Array | Uint8Array[]
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export function crc32(data: Uint8Array | Uint8Array[]): number {
+  let crc = 0xffffffff
+  for (const chunk of Array.isArray(data) ? data : [data]) {
+    for (let i = 0; i < chunk.length; i++) {
+      crc = CRC_TABLE[(crc ^ chunk[i]) & 0xff] ^ (crc >>> 8)
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS形式の日時
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+})
+
+// ZIPを構成するバイト列を順に返す（Blob にそのまま渡せる）
+export function createZipParts(entries: ZipEntry[], modifiedAt: Date = new Date()): Uint8Array[] {
+  const encoder = new TextEncoder()
+  const { time, date } = toDosDateTime(modifiedAt)
+  const localParts: Uint8Array[] = []
+  const centralParts: Uint8Array[] = []
+  let offset = 0
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.name)
+    const chunks = typeof entry.data === 'string' ? [encoder.encode(entry.data)] : Array.isArray(entry.data) ? entry.data : [entry.data]
+    const size = chunks.reduce((sum, chunk) => sum + chunk.length, 0)
+    const crc = crc32(chunks)
+
+    // ローカルファイルヘッダー（ファイル名はUTF-8）
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true)
+    local.setUint16(6, 0x0800, true)
+    local.setUint16(8, 0, true)
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, size, true)
+    local.setUint32(22, size, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+
+    // セントラルディレクトリ
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, 0x02014b50, true)
+    central.setUint16(4, 20, true)
+    central.setUint16(6, 20, true)
+    central.setUint16(8, 0x0800, true)
+    central.setUint16(10, 0, true)
+    central.setUint16(12, time, true)
+    central.setUint16(14, date, true)
+    central.setUint32(16, crc, true)
+    central.setUint32(20, size, true)
+    central.setUint32(24, size, true)
+    central.setUint16(28, name.length, true)
+    central.setUint32(42, offset, true)
+
+    localParts.push(new Uint8Array(local.buffer), name, ...chunks)
+    centralParts.push(new Uint8Array(central.buffer), name)
+    offset += 30 + name.length + size
+  })
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return [...localParts, ...centralParts, new Uint8Array(end.buffer)]
+}
+
+export function createZip(entries: ZipEntry[], modifiedAt: Date = new Date()): Uint8Array {
+  const parts = createZipParts(entries, modifiedAt)
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let position = 0
+  parts.forEach(part => {
+    result.set(part, position)
+    position += part.length
+  })
+  return result
+}
@@ -0,0 +1,178 @@
+// メール通知のテンプレート
+// 本文中の {{変数名}} を email_jobs.variables の値で置き換える
+// link は申請ID（application_id）またはイベントごとの画面から作成する
+
+export type EmailEvent =
+  | 'approval_request'
+  | 'application_approved'
+  | 'application_rejected'
+  | 'application_returned'
+  | 'approval_reminder'
+  | 'accounting_error'
+  | 'organization_invitation'
+
+export interface EmailTemplate {
+  subject: string
+  body: string
+}
+
+export interface RenderedEmail {
+  subject: string
+  text: string
+}
+
+export type EmailVariables = { [key: string]: unknown }
+
+const SIGNATURE = `
+──────────────────
+賢者の精算
+このメールは送信専用です。通知設定はマイページの「通知設定」から変更できます。`
+
+export const EMAIL_TEMPLATES: { [event in EmailEvent]: EmailTemplate } = {
+  approval_request: {
+    subject: '【承認依頼】{{applicant}}さんの申請「{{title}}」',
+    body: `{{recipient}}様
+
+{{applicant}}さんから承認依頼が届きました。
+
+申請: {{title}}（{{applicationType}}）
+金額: {{amount}}
+
+内容を確認し、承認・差し戻し・却下のいずれかを行ってください。
+{{link}}`
+  },
+  application_approved: {
+    subject: '【承認】申請「{{title}}」が承認されました',
+    body: `{{recipient}}様
+
+申請「{{title}}」（{{amount}}）が承認されました。
+
+{{link}}`
+  },
+  application_rejected: {
+    subject: '【却下】申請「{{title}}」が却下されました',
+    body: `{{recipient}}様
+
+申請「{{title}}」（{{amount}}）が却下されました。
+
+理由: {{reason}}
+
+{{link}}`
+  },
+  application_returned: {
+    subject: '【差し戻し】申請「{{title}}」が差し戻されました',
+    body: `{{recipient}}様
+
+申請「{{title}}」（{{amount}}）が差し戻されました。
+内容を修正して再提出してください。
+
+コメント: {{reason}}
+
+{{link}}`
+  },
+  approval_reminder: {
+    subject: '{{escalationPrefix}}【リマインド】申請「{{title}}」が{{waiting_days}}日間承認待ちです',
+    body: `{{recipient}}様
+
+{{message}}
+
+申請者: {{applicant}}
+申請: {{title}}
+金額: {{amount}}
+承認待ち: {{waiting_days}}日
+
+{{link}}`
+  },
+  accounting_error: {
+    subject: '【要対応】会計連携でエラーが発生しました（{{title}}）',
+    body: `{{recipient}}様
+
+申請「{{title}}」（{{amount}}）の{{provider}}への連携が失敗しました。
+自動での再送は行われません。エラー内容を確認し、再送してください。
+
+エラー: {{error}}
+
+{{link}}`
+  },
+  organization_invitation: {
+    subject: '【招待】{{organization_name}}への参加のご案内',
+    body: `{{recipient}}様
+
+{{inviter}}さんから「{{organization_name}}」への招待が届きました（役割: {{roleLabel}}）。
+
+次のリンクを開き、このメールアドレスでログインまたはアカウント登録をして参加してください。
+リンクの有効期限: {{expires_at}}
+
+{{link}}`
+  }
+}
+
+const APPLICATION_TYPE_LABELS: { [type: string]: string } = {
+  business_trip: '出張申請',
+  expense: '経費申請'
+}
+
+const ROLE_LABELS: { [role: string]: string } = {
+  admin: '管理者',
+  manager: 'マネージャー',
+  member: 'メンバー'
+}
+
+const PROVIDER_LABELS: { [provider: string]: string } = {
+  freee: 'freee会計',
+  moneyforward: 'マネーフォワード クラウド会計'
+}
+
+// アプリの画面を開くリンク（Dashboard の ?application= / ?view= で表示する。src/lib/notificationLinks.ts と合わせる）
+// 組織への招待は ?invitation=<トークン>（src/lib/organizations.ts）
+export function buildEmailLink(appUrl: string, event: EmailEvent, variables: EmailVariables) {
+  const url = new URL('/', appUrl)
+  if (event === 'organization_invitation') {
+    url.searchParams.set('invitation', String(variables.token || ''))
+  } else if (event === 'accounting_error') {
+    url.searchParams.set('view', 'accounting-error')
+    if (variables.job_id) url.searchParams.set('job', String(variables.job_id))
+  } else if (variables.application_id) {
+    url.searchParams.set('application', String(variables.application_id))
+    // 承認結果は申請詳細、承認依頼・リマインドは承認画面を開く
+    if (event === 'application_approved' || event === 'application_rejected' || event === 'application_returned') {
+      url.searchParams.set('detail', variables.application_type === 'expense' ? 'expense' : 'business-trip')
+    }
+  }
+  return url.toString()
+}
+
+export function formatEmailAmount(value: unknown) {
+  const amount = Number(value)
+  return Number.isFinite(amount) ? `¥${amount.toLocaleString('ja-JP')}` : ''
+}
+
+export function isEmailEvent(value: string): value is EmailEvent {
+  return value in EMAIL_TEMPLATES
+}
+
+export function renderEmailTemplate(
+  event: EmailEvent,
+  variables: EmailVariables,
+  options: { appUrl: string, recipientName?: string }
+): RenderedEmail {
+  const template = EMAIL_TEMPLATES[event]
+  const values: { [key: string]: string } = {
+    ...Object.fromEntries(Object.entries(variables).map(([key, value]) => [key, value == null ? '' : String(value)])),
+    recipient: options.recipientName || 'ご担当者',
+    amount: formatEmailAmount(variables.amount),
+    applicationType: APPLICATION_TYPE_LABELS[String(variables.application_type)] || '申請',
+    provider: PROVIDER_LABELS[String(variables.provider)] || String(variables.provider || '会計ソフト'),
+    reason: String(variables.reason || '').trim() || '（なし）',
+    message: String(variables.message || '').trim() || '承認待ちの申請があります。ご確認をお願いいたします。',
+    roleLabel: ROLE_LABELS[String(variables.role)] || 'メンバー',
+    escalationPrefix: variables.escalation ? '【エスカレーション】' : '',
+    link: buildEmailLink(options.appUrl, event, variables)
+  }
+  const fill = (text: string) => text.replace(/\{\{(\w+)\}\}/g, (_, key: string) => values[key] ?? '')
+
+  return {
+    subject: fill(template.subject),
+    text: `${fill(template.body)}\n${SIGNATURE}\n`
+  }
+}
@@ -0,0 +1,117 @@
+// 会計連携の送信ジョブ（accounting_sync_jobs）の処理
+// 送信予定を過ぎたジョブを claim_due_accounting_sync_jobs で全組織から取得し、会計ソフトへ仕訳を送信する
+// 仕訳の作成・送信・再試行の判定は画面と同じモジュール（src/lib/accountingSync.ts）を使う
+// （src/lib 内は拡張子なしで import しているため、deno.json で sloppy-imports を有効にしている）
+// 接続情報（accounting_credentials）はクライアントから閲覧できないため、送信はこの関数でのみ行う
+//
+// 環境変数
+//   FREEE_API_BASE_URL / MONEYFORWARD_API_BASE_URL - 接続先（省略時は本番のAPI）
+//
+// 定期実行（pg_cron + pg_net）から service_role のキーで呼び出す
+
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { processSyncJob, type AccountingSyncJob, type AccountingSyncStore } from '../../../src/lib/accountingSync.ts'
+import {
+  createFreeeAdapter,
+  createMoneyForwardAdapter,
+  type AccountingProvider,
+  type AccountingSettings
+} from '../../../src/lib/accountingAdapters.ts'
+import type { ExportableApplication } from '../../../src/lib/accountingExport.ts'
+
+const BATCH_SIZE = 20
+
+const env = (key: string, fallback = '') => Deno.env.get(key) ?? fallback
+
+const supabaseUrl = env('SUPABASE_URL')
+const serviceRoleKey = env('SUPABASE_SERVICE_ROLE_KEY')
+
+const adapters = {
+  freee: createFreeeAdapter({ baseUrl: env('FREEE_API_BASE_URL') || undefined }),
+  moneyforward: createMoneyForwardAdapter({ baseUrl: env('MONEYFORWARD_API_BASE_URL') || undefined })
+}
+
+Deno.serve(async (req) => {
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401 })
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } })
+
+  const { data, error } = await supabase.rpc('claim_due_accounting_sync_jobs', { p_limit: BATCH_SIZE })
+  if (error) {
+    console.error('Claim accounting sync jobs failed:', error)
+    return new Response(JSON.stringify({ error: error.message }), { status: 500 })
+  }
+
+  const store: AccountingSyncStore = {
+    getApplication: async (applicationId, organizationId) => {
+      const { data: application } = await supabase
+        .from('applications')
+        .select('*, business_trip_details(*), expense_items(*)')
+        .eq('id', applicationId)
+        .eq('organization_id', organizationId)
+        .eq('status', 'approved')
+        .maybeSingle()
+      return (application as ExportableApplication | null) || null
+    },
+    recordAttempt: async (attempt) => {
+      const { error: attemptError } = await supabase.from('accounting_sync_attempts').insert(attempt)
+      if (attemptError) throw attemptError
+    },
+    updateJob: async (jobId, changes) => {
+      const { error: updateError } = await supabase.from('accounting_sync_jobs').update(changes).eq('id', jobId)
+      if (updateError) throw updateError
+    }
+  }
+
+  // 組織ごとの連携設定（対応表は組織設定、接続情報は accounting_credentials）
+  const settingsCache = new Map<string, AccountingSettings | undefined>()
+  const getSettings = async (organizationId: string, provider: AccountingProvider) => {
+    const key = `${organizationId}:${provider}`
+    if (!settingsCache.has(key)) {
+      const [{ data: organization }, { data: credential }] = await Promise.all([
+        supabase.from('organizations').select('settings').eq('id', organizationId).maybeSingle(),
+        supabase
+          .from('accounting_credentials')
+          .select('access_token, company_id')
+          .eq('organization_id', organizationId)
+          .eq('provider', provider)
+          .maybeSingle()
+      ])
+      const mapping = organization?.settings?.accounting?.[provider]?.mapping
+      settingsCache.set(key, mapping
+        ? {
+            mapping: { ...adapters[provider as keyof typeof adapters].defaultMapping, ...mapping },
+            connection: {
+              accessToken: credential?.access_token || undefined,
+              companyId: credential?.company_id || undefined
+            }
+          }
+        : undefined)
+    }
+    return settingsCache.get(key)
+  }
+
+  const jobs = (data || []) as AccountingSyncJob[]
+  const result = { processed: jobs.length, succeeded: 0, retrying: 0, failed: 0 }
+
+  for (const job of jobs) {
+    try {
+      const processed = await processSyncJob(job, {
+        store,
+        settings: await getSettings(job.organization_id, job.provider),
+        adapter: adapters[job.provider]
+      })
+      if (processed.status === 'succeeded') result.succeeded++
+      else if (processed.status === 'retrying') result.retrying++
+      else result.failed++
+    } catch (processError) {
+      // 記録に失敗したジョブはロック期限が切れた後に再取得される
+      console.error(`Process accounting sync job ${job.id} failed:`, processError)
+      result.failed++
+    }
+  }
+
+  return new Response(JSON.stringify(result), { headers: { 'Content-Type': 'application/json' } })
+})
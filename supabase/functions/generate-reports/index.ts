@@ -0,0 +1,154 @@
+// 月次・年次レポートの作成待ち（report_jobs）の処理
+// 作成待ちのジョブを claim_due_report_jobs で全組織から取得し、PDF と Excel を作成して書類として保存する
+// 集計は build_expense_report、ファイルの作成は画面と同じモジュール（src/lib/expenseReports.ts など）を使う
+// （src/lib 内は拡張子なしで import しているため、deno.json で sloppy-imports を有効にしている）
+// 規程の支給額との比較には組織の運用中の規程を使う
+// 書類の所有者は自動作成を設定したユーザー（不明な場合は組織のオーナー）とし、ファイルはその利用者のフォルダに保存する
+//
+// 定期実行（pg_cron + pg_net）から service_role のキーで呼び出す
+
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import {
+  buildExpenseReportWorkbook,
+  getJobPeriod,
+  REPORT_DOCUMENT_TYPES,
+  REPORT_PERIOD_TYPE_LABELS,
+  toExpenseReport,
+  type ExpenseReportResponse,
+  type ReportJob
+} from '../../../src/lib/expenseReports.ts'
+import { selectActiveRegulation, type RegulationSource } from '../../../src/lib/allowanceCalculator.ts'
+import { generateDocumentFile, type GeneratedFile } from '../../../src/lib/documentGenerator.ts'
+import { buildExpenseReportDocument } from '../../../src/lib/documentTemplates.ts'
+
+const BATCH_SIZE = 2
+
+const env = (key: string, fallback = '') => Deno.env.get(key) ?? fallback
+
+const supabaseUrl = env('SUPABASE_URL')
+const serviceRoleKey = env('SUPABASE_SERVICE_ROLE_KEY')
+
+Deno.serve(async (req) => {
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401 })
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } })
+
+  const { data, error } = await supabase.rpc('claim_due_report_jobs', { p_limit: BATCH_SIZE })
+  if (error) {
+    console.error('Claim report jobs failed:', error)
+    return new Response(JSON.stringify({ error: error.message }), { status: 500 })
+  }
+
+  const getOwnerId = async (organizationId: string) => {
+    const [{ data: schedule }, { data: organization }] = await Promise.all([
+      supabase.from('report_schedules').select('updated_by').eq('organization_id', organizationId).maybeSingle(),
+      supabase.from('organizations').select('owner_id').eq('id', organizationId).maybeSingle()
+    ])
+    const ownerId: string | null = schedule?.updated_by || organization?.owner_id || null
+    if (!ownerId) throw new Error('No owner for report documents')
+    return ownerId
+  }
+
+  const getRegulation = async (organizationId: string): Promise<RegulationSource | null> => {
+    const { data: regulations, error: regulationError } = await supabase
+      .from('travel_regulations')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false })
+    if (regulationError) throw regulationError
+    return selectActiveRegulation(regulations || [])
+  }
+
+  const saveDocument = async (
+    file: GeneratedFile,
+    ownerId: string,
+    job: ReportJob,
+    title: string,
+    content: Record<string, unknown>
+  ) => {
+    const path = `${ownerId}/${Date.now()}.${file.fileName.split('.').pop()}`
+    const { error: uploadError } = await supabase.storage
+      .from('documents')
+      .upload(path, file.blob, { contentType: file.mimeType })
+    if (uploadError) throw uploadError
+
+    const { data: document, error: insertError } = await supabase
+      .from('documents')
+      .insert({
+        user_id: ownerId,
+        organization_id: job.organization_id,
+        type: REPORT_DOCUMENT_TYPES[job.period_type],
+        title,
+        content: { ...content, file_name: file.fileName },
+        file_url: path,
+        file_size: file.blob.size,
+        mime_type: file.mimeType,
+        status: 'completed'
+      })
+      .select('id')
+      .single()
+    if (insertError) throw insertError
+    return document.id as string
+  }
+
+  const jobs = (data || []) as ReportJob[]
+  const result = { processed: jobs.length, completed: 0, failed: 0 }
+
+  for (const job of jobs) {
+    try {
+      const period = getJobPeriod(job)
+      const { data: response, error: reportError } = await supabase.rpc('build_expense_report', {
+        p_organization_id: job.organization_id,
+        p_period_start: period.start,
+        p_period_end: period.end
+      })
+      if (reportError) throw reportError
+
+      const report = toExpenseReport(
+        response as unknown as ExpenseReportResponse,
+        period.type,
+        await getRegulation(job.organization_id)
+      )
+      const spec = buildExpenseReportDocument(report)
+      const content = {
+        period_type: report.period.type,
+        period_start: report.period.start,
+        period_end: report.period.end,
+        total_amount: report.summary.totalAmount,
+        over_amount: report.summary.overAmount,
+        report_job_id: job.id
+      }
+
+      const ownerId = await getOwnerId(job.organization_id)
+      const documentIds: string[] = []
+      for (const [file, format] of [
+        [generateDocumentFile(spec, 'pdf'), 'pdf'],
+        [buildExpenseReportWorkbook(report), 'xlsx']
+      ] as const) {
+        documentIds.push(await saveDocument(file, ownerId, job, spec.title, { ...content, format }))
+      }
+
+      const { error: updateError } = await supabase
+        .from('report_jobs')
+        .update({ status: 'completed', document_ids: documentIds, completed_at: new Date().toISOString(), locked_until: null })
+        .eq('id', job.id)
+      if (updateError) throw updateError
+      result.completed++
+    } catch (processError) {
+      console.error(`Process report job ${job.id} failed:`, processError)
+      const message = processError instanceof Error
+        ? processError.message
+        : (processError as { message?: string })?.message || `Failed to create ${REPORT_PERIOD_TYPE_LABELS[job.period_type]}`
+      // 記録に失敗したジョブはロック期限が切れた後に再取得される
+      await supabase
+        .from('report_jobs')
+        .update({ status: 'error', error_message: message, locked_until: null })
+        .eq('id', job.id)
+      result.failed++
+    }
+  }
+
+  return new Response(JSON.stringify(result), { headers: { 'Content-Type': 'application/json' } })
+})
@@ -0,0 +1,107 @@
+// メール送信ジョブ（email_jobs）の配信
+// 送信期限の来たジョブを claim_email_jobs で取得し、テンプレートで本文を作成して SMTP で送信する
+// 失敗したジョブは間隔を空けて再送し、上限回数に達したら failed にする
+//
+// 環境変数
+//   SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASSWORD / SMTP_SECURE - 送信サーバー
+//     既定はローカルの Inbucket（supabase start で起動、http://localhost:54324 で受信メールを確認できる）
+//   EMAIL_FROM - 差出人
+//   APP_URL - メール内のリンク先
+//
+// pg_cron + pg_net で毎分、service_role のキーで呼び出す（20261021000000_punctual_post.sql）
+
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import nodemailer from 'npm:nodemailer@6'
+import { isEmailEvent, renderEmailTemplate } from '../_shared/emailTemplates.ts'
+
+interface EmailJob {
+  id: string
+  user_id: string | null
+  to_email: string
+  template: string
+  variables: { [key: string]: unknown }
+  attempt_count: number
+}
+
+const MAX_ATTEMPTS = 5
+const BATCH_SIZE = 20
+
+const env = (key: string, fallback = '') => Deno.env.get(key) ?? fallback
+
+const supabaseUrl = env('SUPABASE_URL')
+const serviceRoleKey = env('SUPABASE_SERVICE_ROLE_KEY')
+const appUrl = env('APP_URL', 'http://localhost:3000')
+const from = env('EMAIL_FROM', '賢者の精算 <no-reply@example.com>')
+
+const transporter = nodemailer.createTransport({
+  host: env('SMTP_HOST', 'host.docker.internal'),
+  port: Number(env('SMTP_PORT', '54325')),
+  secure: env('SMTP_SECURE') === 'true',
+  auth: env('SMTP_USER') ? { user: env('SMTP_USER'), pass: env('SMTP_PASSWORD') } : undefined
+})
+
+// 再送までの待ち時間（1, 2, 4, 8分…）
+const getRetryDelayMinutes = (attemptCount: number) => 2 ** Math.max(0, attemptCount - 1)
+
+Deno.serve(async (req) => {
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401 })
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } })
+
+  const { data, error } = await supabase.rpc('claim_email_jobs', { p_limit: BATCH_SIZE })
+  if (error) {
+    console.error('Claim email jobs failed:', error)
+    return new Response(JSON.stringify({ error: error.message }), { status: 500 })
+  }
+
+  const jobs = (data || []) as EmailJob[]
+  const userIds = [...new Set(jobs.map(job => job.user_id).filter((id): id is string => !!id))]
+  const { data: profiles } = userIds.length > 0
+    ? await supabase.from('user_profiles').select('id, full_name').in('id', userIds)
+    : { data: [] }
+  const recipientNames = new Map((profiles || []).map((profile: { id: string, full_name: string | null }) => [profile.id, profile.full_name || '']))
+
+  const result = { processed: jobs.length, sent: 0, retrying: 0, failed: 0 }
+
+  for (const job of jobs) {
+    try {
+      if (!isEmailEvent(job.template)) {
+        throw new Error(`Unknown email template: ${job.template}`)
+      }
+
+      const email = renderEmailTemplate(job.template, job.variables || {}, {
+        appUrl,
+        recipientName: job.user_id ? recipientNames.get(job.user_id) : undefined
+      })
+      await transporter.sendMail({ from, to: job.to_email, subject: email.subject, text: email.text })
+
+      await supabase
+        .from('email_jobs')
+        .update({ status: 'sent', sent_at: new Date().toISOString(), locked_until: null, last_error: null })
+        .eq('id', job.id)
+      result.sent++
+    } catch (sendError) {
+      const message = sendError instanceof Error ? sendError.message : 'Failed to send email'
+      const exhausted = job.attempt_count >= MAX_ATTEMPTS || !isEmailEvent(job.template)
+      console.error(`Send email job ${job.id} failed:`, message)
+
+      await supabase
+        .from('email_jobs')
+        .update({
+          status: exhausted ? 'failed' : 'pending',
+          scheduled_at: exhausted
+            ? undefined
+            : new Date(Date.now() + getRetryDelayMinutes(job.attempt_count) * 60 * 1000).toISOString(),
+          locked_until: null,
+          last_error: message
+        })
+        .eq('id', job.id)
+      if (exhausted) result.failed++
+      else result.retrying++
+    }
+  }
+
+  return new Response(JSON.stringify(result), { headers: { 'Content-Type': 'application/json' } })
+})
@@ -0,0 +1,120 @@
+// Web Push 送信ジョブ（push_jobs）の配信
+// 送信期限の来たジョブを claim_push_jobs で取得し、ユーザーの登録端末すべてに送信する
+// 期限切れ・解除済みの端末（404 / 410）は登録を削除し、それ以外の失敗は間隔を空けて再送する
+//
+// 環境変数
+//   VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY - `npx web-push generate-vapid-keys` で作成（公開鍵はクライアントの VITE_VAPID_PUBLIC_KEY と同じ）
+//   VAPID_SUBJECT - 連絡先（mailto: または https:）
+//
+// pg_cron + pg_net で毎分、service_role のキーで呼び出す（20261021010000_steady_signal.sql）
+
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import webpush from 'npm:web-push@3'
+
+interface PushJob {
+  id: string
+  user_id: string
+  payload: { [key: string]: unknown }
+  attempt_count: number
+}
+
+interface PushSubscriptionRow {
+  id: string
+  endpoint: string
+  p256dh: string
+  auth: string
+}
+
+const MAX_ATTEMPTS = 3
+const BATCH_SIZE = 50
+
+const env = (key: string, fallback = '') => Deno.env.get(key) ?? fallback
+
+const supabaseUrl = env('SUPABASE_URL')
+const serviceRoleKey = env('SUPABASE_SERVICE_ROLE_KEY')
+
+webpush.setVapidDetails(
+  env('VAPID_SUBJECT', 'mailto:no-reply@example.com'),
+  env('VAPID_PUBLIC_KEY'),
+  env('VAPID_PRIVATE_KEY')
+)
+
+// 再送までの待ち時間（1, 2, 4分…）
+const getRetryDelayMinutes = (attemptCount: number) => 2 ** Math.max(0, attemptCount - 1)
+
+Deno.serve(async (req) => {
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401 })
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } })
+
+  const { data, error } = await supabase.rpc('claim_push_jobs', { p_limit: BATCH_SIZE })
+  if (error) {
+    console.error('Claim push jobs failed:', error)
+    return new Response(JSON.stringify({ error: error.message }), { status: 500 })
+  }
+
+  const jobs = (data || []) as PushJob[]
+  const result = { processed: jobs.length, sent: 0, retrying: 0, failed: 0 }
+
+  for (const job of jobs) {
+    const { data: subscriptions } = await supabase
+      .from('push_subscriptions')
+      .select('id, endpoint, p256dh, auth')
+      .eq('user_id', job.user_id)
+
+    let delivered = 0
+    let lastError: string | null = null
+
+    for (const subscription of (subscriptions || []) as PushSubscriptionRow[]) {
+      try {
+        await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+          JSON.stringify(job.payload),
+          { TTL: 60 * 60 * 24 }
+        )
+        delivered++
+        await supabase
+          .from('push_subscriptions')
+          .update({ last_used_at: new Date().toISOString() })
+          .eq('id', subscription.id)
+      } catch (sendError) {
+        const statusCode = (sendError as { statusCode?: number }).statusCode
+        if (statusCode === 404 || statusCode === 410) {
+          await supabase.from('push_subscriptions').delete().eq('id', subscription.id)
+          continue
+        }
+        lastError = sendError instanceof Error ? sendError.message : 'Failed to send push notification'
+        console.error(`Send push job ${job.id} failed:`, lastError)
+      }
+    }
+
+    // 一部の端末に届いていれば送信済みとする（同じ通知を重複して表示しないため）
+    if (delivered > 0 || !lastError) {
+      await supabase
+        .from('push_jobs')
+        .update({ status: 'sent', sent_at: new Date().toISOString(), locked_until: null, last_error: lastError })
+        .eq('id', job.id)
+      result.sent++
+      continue
+    }
+
+    const exhausted = job.attempt_count >= MAX_ATTEMPTS
+    await supabase
+      .from('push_jobs')
+      .update({
+        status: exhausted ? 'failed' : 'pending',
+        scheduled_at: exhausted
+          ? undefined
+          : new Date(Date.now() + getRetryDelayMinutes(job.attempt_count) * 60 * 1000).toISOString(),
+        locked_until: null,
+        last_error: lastError
+      })
+      .eq('id', job.id)
+    if (exhausted) result.failed++
+    else result.retrying++
+  }
+
+  return new Response(JSON.stringify(result), { headers: { 'Content-Type': 'application/json' } })
+})
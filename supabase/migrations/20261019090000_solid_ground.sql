@@ -0,0 +1,114 @@
+/*
+  # 出張詳細・経費項目テーブル
+
+  1. New Tables
+    - `business_trip_details` - 出張申請の詳細（期間・目的・見積額・精算額・報告）
+    - `expense_items` - 経費申請の明細（区分・日付・金額・領収書）
+
+  2. Notes
+    - 画面からは作成済みの前提で利用していたが、作成するマイグレーションがなかったため追加する
+    - 作成済みの環境では何もしない（IF NOT EXISTS）
+    - 以降のマイグレーションで列（インボイス検証結果、保存書類、海外出張など）を追加する
+
+  3. Security
+    - 申請を閲覧できるユーザーは、その申請の詳細・明細を閲覧できる（申請の RLS に従う）
+    - 作成・更新・削除は申請者本人の下書き・差戻し中の申請のみ
+*/
+
+CREATE TABLE IF NOT EXISTS business_trip_details (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid REFERENCES applications(id) ON DELETE CASCADE NOT NULL,
+  destination_id uuid,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  purpose text NOT NULL DEFAULT '',
+  participants text,
+  estimated_daily_allowance numeric(10,2) DEFAULT 0,
+  estimated_transportation numeric(10,2) DEFAULT 0,
+  estimated_accommodation numeric(10,2) DEFAULT 0,
+  actual_daily_allowance numeric(10,2) DEFAULT 0,
+  actual_transportation numeric(10,2) DEFAULT 0,
+  actual_accommodation numeric(10,2) DEFAULT 0,
+  report_submitted boolean DEFAULT false,
+  report_content text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE TABLE IF NOT EXISTS expense_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid REFERENCES applications(id) ON DELETE CASCADE NOT NULL,
+  category_id uuid,
+  category text,
+  date date NOT NULL,
+  amount numeric(10,2) NOT NULL DEFAULT 0,
+  description text,
+  receipt_url text,
+  receipt_metadata jsonb,
+  is_approved boolean DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- 作成済みの環境に不足している列を補う
+ALTER TABLE expense_items ADD COLUMN IF NOT EXISTS category text;
+ALTER TABLE expense_items ADD COLUMN IF NOT EXISTS receipt_metadata jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_business_trip_details_application ON business_trip_details(application_id);
+CREATE INDEX IF NOT EXISTS idx_expense_items_application ON expense_items(application_id);
+
+ALTER TABLE business_trip_details ENABLE ROW LEVEL SECURITY;
+ALTER TABLE expense_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read details of readable applications" ON business_trip_details;
+CREATE POLICY "Users can read details of readable applications"
+  ON business_trip_details
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM applications a WHERE a.id = application_id));
+
+DROP POLICY IF EXISTS "Applicants can manage details of their editable applications" ON business_trip_details;
+CREATE POLICY "Applicants can manage details of their editable applications"
+  ON business_trip_details
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM applications a
+    WHERE a.id = application_id AND a.user_id = auth.uid() AND a.status IN ('draft', 'returned')
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM applications a
+    WHERE a.id = application_id AND a.user_id = auth.uid() AND a.status IN ('draft', 'returned')
+  ));
+
+DROP POLICY IF EXISTS "Users can read items of readable applications" ON expense_items;
+CREATE POLICY "Users can read items of readable applications"
+  ON expense_items
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM applications a WHERE a.id = application_id));
+
+DROP POLICY IF EXISTS "Applicants can manage items of their editable applications" ON expense_items;
+CREATE POLICY "Applicants can manage items of their editable applications"
+  ON expense_items
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM applications a
+    WHERE a.id = application_id AND a.user_id = auth.uid() AND a.status IN ('draft', 'returned')
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM applications a
+    WHERE a.id = application_id AND a.user_id = auth.uid() AND a.status IN ('draft', 'returned')
+  ));
+
+DROP TRIGGER IF EXISTS handle_business_trip_details_updated_at ON business_trip_details;
+CREATE TRIGGER handle_business_trip_details_updated_at
+  BEFORE UPDATE ON business_trip_details
+  FOR EACH ROW EXECUTE PROCEDURE handle_updated_at();
+
+DROP TRIGGER IF EXISTS handle_expense_items_updated_at ON expense_items;
+CREATE TRIGGER handle_expense_items_updated_at
+  BEFORE UPDATE ON expense_items
+  FOR EACH ROW EXECUTE PROCEDURE handle_updated_at();
@@ -0,0 +1,326 @@
+/*
+  # 多段階承認ルート
+
+  1. New Tables
+    - `approval_routes`
+      - `id` (uuid, primary key)
+      - `organization_id` (uuid) - 組織ID
+      - `name` (text) - ルート名
+      - `application_type` (text) - 対象申請種別（NULLの場合は全種別）
+      - `steps` (jsonb) - 承認ステップ [{ name, approver_type, approver_value }]
+      - `amount_thresholds` (jsonb) - 金額による追加ステップ [{ min_amount, step }]
+      - `is_active` (boolean) - 有効フラグ
+      - `created_by` (uuid) - 作成者ID
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Changes
+    - `applications` に承認ルート関連のカラムを追加
+      - `approval_route_id` (uuid) - 適用した承認ルート
+      - `approval_steps` (jsonb) - 申請時点で確定した承認ステップ
+      - `current_step` (integer) - 現在の承認ステップ（1始まり）
+
+  3. Functions
+    - `assign_approval_route(application_id)` - 申請に承認ルートを割り当てる
+    - `can_approve_application(application_id, user_id)` - 現在のステップの承認者か判定
+    - `advance_approval(application_id, action, comment)` - 承認・差戻し・否認を記録し、ステップを進める
+
+  4. Security
+    - 組織メンバーは承認ルートを閲覧可能、オーナー・管理者のみ管理可能
+    - 現在のステップの承認者は対象申請と承認履歴を閲覧可能
+    - 承認履歴は閲覧のみ（記録は advance_approval で行う）。承認ルートの割り当てはクライアントから実行できない
+    - 経費申請の合計額はルートの割り当て時に経費明細から求め直す
+*/
+
+-- 承認ルートテーブル作成
+CREATE TABLE IF NOT EXISTS approval_routes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  application_type text CHECK (application_type IN ('business_trip', 'expense')),
+  steps jsonb NOT NULL DEFAULT '[]',
+  amount_thresholds jsonb NOT NULL DEFAULT '[]',
+  is_active boolean DEFAULT true,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_routes_org_active ON approval_routes(organization_id, is_active);
+
+-- 申請テーブルに承認ルート関連のカラムを追加
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS approval_route_id uuid REFERENCES approval_routes(id) ON DELETE SET NULL;
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS approval_steps jsonb;
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS current_step integer DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_application_approvals_app_step ON application_approvals(application_id, step);
+
+-- RLS有効化
+ALTER TABLE approval_routes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Organization members can read approval routes"
+  ON approval_routes
+  FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Organization admins can manage approval routes"
+  ON approval_routes
+  FOR ALL
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+    )
+  )
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+    )
+  );
+
+-- 更新日時の自動更新
+DROP TRIGGER IF EXISTS handle_approval_routes_updated_at ON approval_routes;
+CREATE TRIGGER handle_approval_routes_updated_at
+  BEFORE UPDATE ON approval_routes
+  FOR EACH ROW EXECUTE PROCEDURE handle_updated_at();
+
+-- 申請に承認ルートを割り当てる
+-- 金額による追加ステップは基準額の昇順で通常ステップの後ろに並べる
+CREATE OR REPLACE FUNCTION assign_approval_route(p_application_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_application applications%ROWTYPE;
+  v_route approval_routes%ROWTYPE;
+  v_steps jsonb;
+  v_extra_steps jsonb;
+BEGIN
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- 経費申請の合計額は明細から求める（クライアントが送った合計額で金額によるステップを判定しない）
+  IF v_application.type = 'expense' THEN
+    UPDATE applications
+    SET total_amount = (SELECT COALESCE(SUM(amount), 0) FROM expense_items WHERE application_id = p_application_id)
+    WHERE id = p_application_id
+    RETURNING * INTO v_application;
+  END IF;
+
+  SELECT * INTO v_route
+  FROM approval_routes
+  WHERE organization_id = v_application.organization_id
+    AND is_active
+    AND (application_type = v_application.type OR application_type IS NULL)
+  ORDER BY (application_type IS NULL), created_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    v_steps := v_route.steps;
+    SELECT COALESCE(jsonb_agg(threshold->'step' ORDER BY (threshold->>'min_amount')::numeric), '[]'::jsonb)
+      INTO v_extra_steps
+    FROM jsonb_array_elements(v_route.amount_thresholds) AS threshold
+    WHERE v_application.total_amount >= (threshold->>'min_amount')::numeric;
+  ELSE
+    -- 組織に承認ルートが未設定の場合は標準ルートを使用
+    v_steps := '[
+      {"name": "課長承認", "approver_type": "position", "approver_value": "課長"},
+      {"name": "部長承認", "approver_type": "position", "approver_value": "部長"},
+      {"name": "経理確認", "approver_type": "position", "approver_value": "経理"}
+    ]'::jsonb;
+    v_extra_steps := CASE
+      WHEN v_application.total_amount >= 100000
+        THEN '[{"name": "取締役承認", "approver_type": "position", "approver_value": "取締役"}]'::jsonb
+      ELSE '[]'::jsonb
+    END;
+  END IF;
+
+  UPDATE applications
+  SET approval_route_id = v_route.id,
+      approval_steps = v_steps || v_extra_steps,
+      current_step = 1
+  WHERE id = p_application_id;
+
+  RETURN v_steps || v_extra_steps;
+END;
+$$;
+
+-- 指定ユーザーが申請の現在のステップを承認できるか判定する
+CREATE OR REPLACE FUNCTION can_approve_application(p_application_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_application applications%ROWTYPE;
+  v_step jsonb;
+  v_approver_type text;
+  v_approver_value text;
+BEGIN
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id;
+
+  IF NOT FOUND OR v_application.status <> 'pending' OR v_application.user_id = p_user_id THEN
+    RETURN false;
+  END IF;
+
+  v_step := v_application.approval_steps -> (COALESCE(v_application.current_step, 1) - 1);
+  IF v_step IS NULL THEN
+    -- ルート未割り当ての申請は組織のオーナー・管理者のみ承認可能
+    RETURN EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_id = v_application.organization_id
+        AND user_id = p_user_id
+        AND role IN ('owner', 'admin')
+    );
+  END IF;
+
+  v_approver_type := v_step->>'approver_type';
+  v_approver_value := v_step->>'approver_value';
+
+  IF v_approver_type = 'user' THEN
+    RETURN v_approver_value = p_user_id::text;
+  END IF;
+
+  -- 役職・ロール指定の場合は申請と同じ組織のメンバーであることが前提
+  IF v_application.organization_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = v_application.organization_id AND user_id = p_user_id
+  ) THEN
+    RETURN false;
+  END IF;
+
+  IF v_approver_type = 'role' THEN
+    RETURN EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_id = v_application.organization_id
+        AND user_id = p_user_id
+        AND (role = v_approver_value OR role = 'owner')
+    );
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = p_user_id
+      AND (position ILIKE '%' || v_approver_value || '%' OR department ILIKE '%' || v_approver_value || '%')
+  );
+END;
+$$;
+
+-- 承認・差戻し・否認を記録し、申請のステップとステータスを更新する
+CREATE OR REPLACE FUNCTION advance_approval(
+  p_application_id uuid,
+  p_action text,
+  p_comment text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_application applications%ROWTYPE;
+  v_total_steps integer;
+  v_current_step integer;
+  v_status text;
+BEGIN
+  IF p_action NOT IN ('approved', 'rejected', 'returned') THEN
+    RAISE EXCEPTION 'Invalid approval action: %', p_action;
+  END IF;
+
+  IF p_action <> 'approved' AND COALESCE(trim(p_comment), '') = '' THEN
+    RAISE EXCEPTION 'A comment is required for % actions', p_action;
+  END IF;
+
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF v_application.status <> 'pending' THEN
+    RAISE EXCEPTION 'Application is not awaiting approval';
+  END IF;
+
+  IF v_application.approval_steps IS NULL THEN
+    PERFORM assign_approval_route(p_application_id);
+    SELECT * INTO v_application FROM applications WHERE id = p_application_id;
+  END IF;
+
+  IF NOT can_approve_application(p_application_id, v_user_id) THEN
+    RAISE EXCEPTION 'Not authorized to approve this step';
+  END IF;
+
+  v_total_steps := jsonb_array_length(v_application.approval_steps);
+  v_current_step := COALESCE(v_application.current_step, 1);
+
+  INSERT INTO application_approvals (application_id, approver_id, step, status, comment, approved_at)
+  VALUES (p_application_id, v_user_id, v_current_step, p_action, p_comment, now());
+
+  IF p_action = 'approved' AND v_current_step < v_total_steps THEN
+    v_status := 'pending';
+    UPDATE applications
+    SET current_step = v_current_step + 1
+    WHERE id = p_application_id;
+  ELSIF p_action = 'approved' THEN
+    v_status := 'approved';
+    UPDATE applications
+    SET status = 'approved', approved_at = now(), approved_by = v_user_id
+    WHERE id = p_application_id;
+  ELSIF p_action = 'rejected' THEN
+    v_status := 'rejected';
+    UPDATE applications
+    SET status = 'rejected', rejection_reason = p_comment
+    WHERE id = p_application_id;
+  ELSE
+    -- 差戻し後の再申請では金額の変更に合わせてルートを再割り当てする
+    v_status := 'returned';
+    UPDATE applications
+    SET status = 'returned', rejection_reason = p_comment, approval_steps = NULL, current_step = 1
+    WHERE id = p_application_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'status', v_status,
+    'step', v_current_step,
+    'total_steps', v_total_steps
+  );
+END;
+$$;
+
+-- 現在のステップの承認者が申請と承認履歴を閲覧できるポリシー
+CREATE POLICY "Current approvers can read applications"
+  ON applications
+  FOR SELECT
+  TO authenticated
+  USING (can_approve_application(id, auth.uid()));
+
+CREATE POLICY "Users can read approvals of visible applications"
+  ON application_approvals
+  FOR SELECT
+  TO authenticated
+  USING (
+    application_id IN (SELECT id FROM applications)
+  );
+
+-- 承認履歴は advance_approval（と外部承認リンク）でのみ記録する。クライアントからの作成・変更・削除は認めない
+DROP POLICY IF EXISTS "Approvers can manage approvals" ON application_approvals;
+
+REVOKE EXECUTE ON FUNCTION assign_approval_route(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION advance_approval(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_approve_application(uuid, uuid) TO authenticated;
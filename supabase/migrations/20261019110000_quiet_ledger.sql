@@ -0,0 +1,194 @@
+/*
+  # インボイス制度の検証結果
+
+  1. Changes
+    - `expense_items` に適格請求書の検証結果を追加
+      - `invoice_validation` (jsonb) - 登録番号・税率別金額の検証結果
+      - `input_tax_credit` (text) - 仕入税額控除の区分
+        - full: 適格請求書（全額控除）
+        - exempt: 帳簿のみ保存の特例（全額控除）
+        - transitional_80 / transitional_50: 免税事業者等からの仕入れに係る経過措置
+        - none: 控除不可
+      - `input_tax_credit_ratio` (numeric) - 控除割合（1.00 / 0.80 / 0.50 / 0.00）
+
+  2. New Tables
+    - `qualified_invoice_issuers` - 適格請求書発行事業者の名簿（国税庁の公表データから取り込む）
+      - `registration_number` (text, primary key) - 登録番号（T+13桁）
+      - `name` (text) - 氏名または名称
+      - `registered_at` (date) - 登録日
+      - `expired_at` (date) - 失効日・取消日
+
+  3. Functions
+    - `derive_expense_item_input_tax_credit()` - 領収書の読み取り結果から適格請求書の判定と仕入税額控除の区分を求めるトリガー関数
+      - 登録番号の形式・チェックデジット、名簿の登録期間、税率ごとの金額と消費税額を確認する
+      - 名簿で登録を確認できない番号は適格請求書として扱わない（全額控除にしない）
+      - クライアントから送られた判定結果・控除区分は使わず、保存のたびに求め直す
+
+  4. Indexes
+    - 会計連携時の抽出用に `input_tax_credit` のインデックスを追加
+
+  5. Security
+    - 名簿は認証済みユーザーが閲覧可能（更新は service_role のみ）
+*/
+
+ALTER TABLE expense_items ADD COLUMN IF NOT EXISTS invoice_validation jsonb;
+ALTER TABLE expense_items ADD COLUMN IF NOT EXISTS input_tax_credit text
+  CHECK (input_tax_credit IN ('full', 'exempt', 'transitional_80', 'transitional_50', 'none'));
+ALTER TABLE expense_items ADD COLUMN IF NOT EXISTS input_tax_credit_ratio numeric(3,2)
+  CHECK (input_tax_credit_ratio >= 0 AND input_tax_credit_ratio <= 1);
+
+CREATE INDEX IF NOT EXISTS idx_expense_items_input_tax_credit ON expense_items(input_tax_credit);
+
+CREATE TABLE IF NOT EXISTS qualified_invoice_issuers (
+  registration_number text PRIMARY KEY CHECK (registration_number ~ '^T[0-9]{13}$'),
+  name text NOT NULL,
+  registered_at date NOT NULL,
+  expired_at date,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE qualified_invoice_issuers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read qualified invoice issuers"
+  ON qualified_invoice_issuers
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- 適格請求書の判定と仕入税額控除の区分（src/lib/invoiceValidation.ts の validateExpenseInvoice と同じ判定）
+CREATE OR REPLACE FUNCTION derive_expense_item_input_tax_credit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_metadata jsonb := COALESCE(NEW.receipt_metadata, '{}'::jsonb);
+  v_raw_number text := COALESCE(v_metadata->'invoiceNumber'->>'value', '');
+  v_number text;
+  v_digits text;
+  v_sum integer := 0;
+  v_issuer qualified_invoice_issuers;
+  v_registry_status text;
+  v_issues jsonb := '[]'::jsonb;
+  v_item jsonb;
+  v_rate numeric;
+  v_taxable numeric;
+  v_tax numeric;
+  v_total numeric;
+  v_taxable_sum numeric := 0;
+  v_with_tax_sum numeric := 0;
+  v_qualified boolean;
+  v_exemption_reason text;
+  v_credit text;
+  v_ratio numeric;
+BEGIN
+  -- 「T」+13桁の形式に正規化する（全角・ハイフン・空白を除去）
+  v_number := upper(regexp_replace(normalize(v_raw_number, NFKC), '[[:space:]-]', '', 'g'));
+
+  IF v_raw_number = '' THEN
+    v_number := NULL;
+    v_issues := v_issues || jsonb_build_object('field', 'invoiceNumber', 'severity', 'error', 'message', '登録番号の記載がありません');
+  ELSIF v_number !~ '^T[0-9]{13}$' THEN
+    v_number := NULL;
+    v_issues := v_issues || jsonb_build_object('field', 'invoiceNumber', 'severity', 'error', 'message', '登録番号は「T」+13桁の数字で記載されている必要があります');
+  ELSE
+    -- 先頭のチェックデジット = 9 - (下位12桁の各桁 × 重み（下から奇数桁1・偶数桁2）の和を9で割った余り)
+    v_digits := reverse(substr(v_number, 3));
+    FOR i IN 1..12 LOOP
+      v_sum := v_sum + substr(v_digits, i, 1)::integer * CASE WHEN i % 2 = 1 THEN 1 ELSE 2 END;
+    END LOOP;
+
+    IF substr(v_number, 2, 1)::integer <> 9 - (v_sum % 9) THEN
+      v_issues := v_issues || jsonb_build_object('field', 'invoiceNumber', 'severity', 'error', 'message', '登録番号のチェックデジットが一致しません');
+    ELSE
+      SELECT * INTO v_issuer FROM qualified_invoice_issuers WHERE registration_number = v_number;
+
+      IF NOT FOUND THEN
+        v_registry_status := 'unknown';
+        v_issues := v_issues || jsonb_build_object('field', 'registry', 'severity', 'warning', 'message', '登録状況を照会できなかったため、適格請求書として扱いません');
+      ELSIF NEW.date < v_issuer.registered_at OR (v_issuer.expired_at IS NOT NULL AND NEW.date > v_issuer.expired_at) THEN
+        v_registry_status := 'not_registered';
+        v_issues := v_issues || jsonb_build_object('field', 'registry', 'severity', 'error', 'message', '取引日時点で適格請求書発行事業者として登録されていません');
+      ELSE
+        v_registry_status := 'registered';
+      END IF;
+    END IF;
+  END IF;
+
+  -- 税率ごとの対価の額と消費税額の整合性（端数処理による1円未満の差は許容する）
+  IF jsonb_typeof(v_metadata->'taxBreakdown') IS DISTINCT FROM 'array' OR jsonb_array_length(v_metadata->'taxBreakdown') = 0 THEN
+    v_issues := v_issues || jsonb_build_object('field', 'taxBreakdown', 'severity', 'error', 'message', '税率ごとに区分した金額と消費税額の記載がありません');
+  ELSE
+    FOR v_item IN SELECT * FROM jsonb_array_elements(v_metadata->'taxBreakdown') LOOP
+      v_rate := COALESCE((v_item->>'rate')::numeric, 0);
+      v_taxable := COALESCE((v_item->>'taxableAmount')::numeric, 0);
+      v_tax := COALESCE((v_item->>'taxAmount')::numeric, 0);
+      v_taxable_sum := v_taxable_sum + v_taxable;
+      v_with_tax_sum := v_with_tax_sum + v_taxable + v_tax;
+
+      IF v_rate NOT IN (8, 10) THEN
+        v_issues := v_issues || jsonb_build_object('field', 'taxBreakdown', 'severity', 'error', 'message', '適用税率 ' || v_rate || '% は対象外です');
+      ELSIF abs(v_tax - v_taxable * v_rate / (100 + v_rate)) >= 1 AND abs(v_tax - v_taxable * v_rate / 100) >= 1 THEN
+        v_issues := v_issues || jsonb_build_object('field', 'taxBreakdown', 'severity', 'error', 'message',
+          v_rate || '%対象の消費税額 ¥' || to_char(v_tax, 'FM999,999,999,990') || ' が対価の額と一致しません');
+      END IF;
+    END LOOP;
+
+    v_total := COALESCE(NULLIF((v_metadata->'totalAmount'->>'value')::numeric, 0), NEW.amount, 0);
+    IF v_total > 0 AND v_taxable_sum <> v_total AND v_with_tax_sum <> v_total THEN
+      v_issues := v_issues || jsonb_build_object('field', 'totalAmount', 'severity', 'warning', 'message', '税率別の金額の合計が領収金額と一致しません');
+    END IF;
+  END IF;
+
+  v_qualified := COALESCE(v_registry_status = 'registered', false)
+    AND NOT EXISTS (SELECT 1 FROM jsonb_array_elements(v_issues) issue WHERE issue->>'severity' = 'error');
+
+  -- 帳簿のみの保存で仕入税額控除が認められる経費区分
+  v_exemption_reason := CASE WHEN NEW.category = '日当' THEN '出張旅費等特例' END;
+
+  IF v_qualified THEN
+    v_credit := 'full';
+    v_ratio := 1;
+  ELSIF v_exemption_reason IS NOT NULL THEN
+    v_credit := 'exempt';
+    v_ratio := 1;
+  ELSIF NEW.date < DATE '2023-10-01' THEN
+    -- 制度開始前の取引は区分記載請求書で全額控除
+    v_credit := 'full';
+    v_ratio := 1;
+  ELSIF NEW.date <= DATE '2026-09-30' THEN
+    v_credit := 'transitional_80';
+    v_ratio := 0.8;
+  ELSIF NEW.date <= DATE '2029-09-30' THEN
+    v_credit := 'transitional_50';
+    v_ratio := 0.5;
+  ELSE
+    v_credit := 'none';
+    v_ratio := 0;
+  END IF;
+
+  NEW.input_tax_credit := v_credit;
+  NEW.input_tax_credit_ratio := v_ratio;
+  NEW.invoice_validation := jsonb_build_object(
+    'isQualifiedInvoice', v_qualified,
+    'registrationNumber', v_number,
+    'registryStatus', v_registry_status,
+    'registeredName', v_issuer.name,
+    'inputTaxCredit', v_credit,
+    'creditRatio', v_ratio,
+    'exemptionReason', CASE WHEN v_qualified THEN NULL ELSE v_exemption_reason END,
+    'issues', v_issues,
+    'registry', 'qualified_invoice_issuers',
+    'validatedAt', now()
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS derive_expense_item_input_tax_credit ON expense_items;
+CREATE TRIGGER derive_expense_item_input_tax_credit
+  BEFORE INSERT OR UPDATE ON expense_items
+  FOR EACH ROW EXECUTE PROCEDURE derive_expense_item_input_tax_credit();
+
+REVOKE EXECUTE ON FUNCTION derive_expense_item_input_tax_credit() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,223 @@
+/*
+  # 出張規程のバージョン管理
+
+  1. New Tables
+    - `travel_regulation_versions`
+      - `id` (uuid, primary key)
+      - `regulation_id` (uuid) - 出張規程ID
+      - `organization_id` (uuid) - 組織ID
+      - `version_number` (integer) - 版番号（規程ごとに1から連番）
+      - `version` (text) - 表示用バージョン（v1.0, v2.0 ...）
+      - `name` (text) - 規程名
+      - `company_info` (jsonb) - 会社情報
+      - `articles` (jsonb) - 各条文の内容
+      - `allowance_settings` (jsonb) - 別表（役職別支給額）と設定値
+      - `change_summary` (text) - 変更概要
+      - `restored_from` (uuid) - 復元元の版
+      - `created_by` (uuid) - 作成者ID
+      - `created_at` (timestamptz) - 作成日時
+
+  2. Changes
+    - `travel_regulations` に現在の版を追加
+      - `current_version_id` (uuid) - 最新の版
+
+  3. Functions
+    - `save_travel_regulation_version(...)` - 規程を保存し、新しい版を作成する
+    - `restore_travel_regulation_version(version_id, change_summary)` - 過去の版の内容で新しい版を作成する
+
+  4. Security
+    - 組織メンバーは版を閲覧可能
+    - 版は関数経由でのみ作成され、更新・削除はできない
+*/
+
+-- 出張規程バージョンテーブル作成
+CREATE TABLE IF NOT EXISTS travel_regulation_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  regulation_id uuid REFERENCES travel_regulations(id) ON DELETE CASCADE NOT NULL,
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  version_number integer NOT NULL,
+  version text NOT NULL,
+  name text NOT NULL,
+  company_info jsonb DEFAULT '{}',
+  articles jsonb DEFAULT '{}',
+  allowance_settings jsonb DEFAULT '{}',
+  change_summary text,
+  restored_from uuid REFERENCES travel_regulation_versions(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (regulation_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_travel_regulation_versions_regulation ON travel_regulation_versions(regulation_id, version_number DESC);
+
+ALTER TABLE travel_regulations ADD COLUMN IF NOT EXISTS current_version_id uuid REFERENCES travel_regulation_versions(id) ON DELETE SET NULL;
+
+-- RLS有効化
+ALTER TABLE travel_regulation_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Organization members can read travel regulation versions"
+  ON travel_regulation_versions
+  FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+    OR (organization_id IS NULL AND created_by = auth.uid())
+  );
+
+-- 版の内容は変更できない（規程の削除に伴う連鎖削除のみ許可）
+CREATE OR REPLACE FUNCTION prevent_regulation_version_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Travel regulation versions are immutable';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_travel_regulation_versions_update ON travel_regulation_versions;
+CREATE TRIGGER prevent_travel_regulation_versions_update
+  BEFORE UPDATE ON travel_regulation_versions
+  FOR EACH ROW EXECUTE PROCEDURE prevent_regulation_version_update();
+
+-- 規程の編集権限を確認する（組織の規程はオーナー・管理者、個人の規程は作成者）
+CREATE OR REPLACE FUNCTION can_manage_travel_regulation(p_organization_id uuid, p_created_by uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_organization_id IS NULL THEN p_created_by = auth.uid()
+    ELSE EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_id = p_organization_id
+        AND user_id = auth.uid()
+        AND role IN ('owner', 'admin')
+    )
+  END;
+$$;
+
+-- 規程を保存し、新しい版を作成する
+-- p_regulation_id が NULL の場合は規程を新規作成する
+CREATE OR REPLACE FUNCTION save_travel_regulation_version(
+  p_regulation_id uuid,
+  p_organization_id uuid,
+  p_name text,
+  p_company_info jsonb,
+  p_articles jsonb,
+  p_allowance_settings jsonb,
+  p_change_summary text DEFAULT NULL,
+  p_restored_from uuid DEFAULT NULL
+)
+RETURNS travel_regulation_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_regulation travel_regulations%ROWTYPE;
+  v_version travel_regulation_versions%ROWTYPE;
+  v_version_number integer;
+BEGIN
+  IF p_regulation_id IS NULL THEN
+    IF NOT can_manage_travel_regulation(p_organization_id, auth.uid()) THEN
+      RAISE EXCEPTION 'Not authorized to create travel regulations';
+    END IF;
+
+    INSERT INTO travel_regulations (organization_id, name, version, company_info, articles, allowance_settings, status, created_by)
+    VALUES (p_organization_id, p_name, 'v1.0', p_company_info, p_articles, p_allowance_settings, 'draft', auth.uid())
+    RETURNING * INTO v_regulation;
+  ELSE
+    SELECT * INTO v_regulation FROM travel_regulations WHERE id = p_regulation_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Travel regulation not found';
+    END IF;
+
+    IF NOT can_manage_travel_regulation(v_regulation.organization_id, v_regulation.created_by) THEN
+      RAISE EXCEPTION 'Not authorized to update this travel regulation';
+    END IF;
+  END IF;
+
+  SELECT COALESCE(MAX(version_number), 0) + 1 INTO v_version_number
+  FROM travel_regulation_versions
+  WHERE regulation_id = v_regulation.id;
+
+  INSERT INTO travel_regulation_versions (
+    regulation_id, organization_id, version_number, version, name,
+    company_info, articles, allowance_settings, change_summary, restored_from, created_by
+  )
+  VALUES (
+    v_regulation.id, v_regulation.organization_id, v_version_number, 'v' || v_version_number || '.0', p_name,
+    p_company_info, p_articles, p_allowance_settings, p_change_summary, p_restored_from, auth.uid()
+  )
+  RETURNING * INTO v_version;
+
+  -- 規程本体は常に最新の版の内容を保持する
+  UPDATE travel_regulations
+  SET name = p_name,
+      version = v_version.version,
+      company_info = p_company_info,
+      articles = p_articles,
+      allowance_settings = p_allowance_settings,
+      current_version_id = v_version.id,
+      updated_at = now()
+  WHERE id = v_regulation.id;
+
+  RETURN v_version;
+END;
+$$;
+
+-- 過去の版の内容で新しい版を作成する（履歴は上書きしない）
+CREATE OR REPLACE FUNCTION restore_travel_regulation_version(
+  p_version_id uuid,
+  p_change_summary text DEFAULT NULL
+)
+RETURNS travel_regulation_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source travel_regulation_versions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_source FROM travel_regulation_versions WHERE id = p_version_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Travel regulation version not found';
+  END IF;
+
+  RETURN save_travel_regulation_version(
+    v_source.regulation_id,
+    v_source.organization_id,
+    v_source.name,
+    v_source.company_info,
+    v_source.articles,
+    v_source.allowance_settings,
+    COALESCE(NULLIF(trim(p_change_summary), ''), v_source.version || 'から復元'),
+    v_source.id
+  );
+END;
+$$;
+
+-- 既存の規程を初版として登録する
+INSERT INTO travel_regulation_versions (
+  regulation_id, organization_id, version_number, version, name,
+  company_info, articles, allowance_settings, change_summary, created_by, created_at
+)
+SELECT id, organization_id, 1, 'v1.0', name, company_info, articles, allowance_settings, '初版作成', created_by, created_at
+FROM travel_regulations r
+WHERE NOT EXISTS (SELECT 1 FROM travel_regulation_versions v WHERE v.regulation_id = r.id);
+
+UPDATE travel_regulations r
+SET current_version_id = v.id, version = v.version
+FROM travel_regulation_versions v
+WHERE v.regulation_id = r.id AND v.version_number = 1 AND r.current_version_id IS NULL;
+
+REVOKE EXECUTE ON FUNCTION can_manage_travel_regulation(uuid, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION save_travel_regulation_version(uuid, uuid, text, jsonb, jsonb, jsonb, text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION restore_travel_regulation_version(uuid, text) TO authenticated;
@@ -0,0 +1,20 @@
+/*
+  # 出張旅費規程の書類出力
+
+  1. Changes
+    - `documents.type` に `travel_regulation`（出張旅費規程）を追加
+      - 規程の版から生成した Word / PDF ファイルを保存する
+      - `content` に `regulation_id`・`version_id`・`format` を記録する
+*/
+
+ALTER TABLE documents DROP CONSTRAINT IF EXISTS documents_type_check;
+ALTER TABLE documents ADD CONSTRAINT documents_type_check CHECK (type IN (
+  'business_report',
+  'allowance_detail',
+  'expense_settlement',
+  'travel_detail',
+  'gps_log',
+  'monthly_report',
+  'annual_report',
+  'travel_regulation'
+));
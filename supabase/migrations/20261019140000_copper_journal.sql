@@ -0,0 +1,10 @@
+/*
+  # 会計ソフトへの仕訳連携
+
+  1. Changes
+    - `expense_items` に `category`（経費区分: 交通費・宿泊費・日当・雑費など）を追加
+      - 会計連携時に経費区分ごとの勘定科目・税区分へ変換する
+    - 勘定科目・税区分の対応表と接続情報は `organizations.settings.accounting` に保存する
+*/
+
+ALTER TABLE expense_items ADD COLUMN IF NOT EXISTS category text;
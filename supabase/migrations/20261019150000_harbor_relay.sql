@@ -0,0 +1,220 @@
+/*
+  # 会計連携の送信キュー
+
+  1. New Tables
+    - `accounting_sync_jobs`
+      - `id` (uuid, primary key)
+      - `organization_id` (uuid) - 組織ID
+      - `application_id` (uuid) - 送信する承認済み申請
+      - `provider` (text) - 送信先（API連携する freee / moneyforward。弥生会計はファイル出力のため対象外）
+      - `status` (text) - pending（送信待ち）/ processing（送信中）/ retrying（再試行待ち）/ succeeded（成功）/ error（要対応）
+      - `idempotency_key` (text, unique) - 二重登録防止キー（同じ申請・同じ承認のジョブを1件にする。会計ソフトへは送らず、再送前は申請ID（freee は管理番号、MoneyForward は摘要）で登録済みか照会する）
+      - `application_title` (text) - 申請タイトル
+      - `application_type` (text) - 申請種別
+      - `amount` (numeric) - 送信金額
+      - `attempt_count` (integer) - 送信回数
+      - `max_attempts` (integer) - 最大送信回数
+      - `next_retry_at` (timestamptz) - 次回送信予定
+      - `last_attempt_at` (timestamptz) - 最終送信日時
+      - `locked_until` (timestamptz) - 送信処理中のロック期限（期限切れは再取得できる）
+      - `error_code` (text) - 直近のエラーコード
+      - `error_message` (text) - 直近のエラーメッセージ
+      - `external_id` (text) - 会計ソフト側の取引・仕訳ID
+      - `created_by` (uuid) - 登録者ID
+      - `created_at`, `updated_at` (timestamptz)
+    - `accounting_sync_attempts`
+      - `id` (uuid, primary key)
+      - `job_id` (uuid) - 送信ジョブ
+      - `attempt_number` (integer) - 何回目の送信か
+      - `success` (boolean) - 成功したか
+      - `http_status` (integer) - HTTPステータス
+      - `error_code` (text), `error_message` (text)
+      - `request` (jsonb) - リクエスト内容（メソッド・URL・ヘッダー・本文）
+      - `response` (jsonb) - レスポンス内容（ステータス・ヘッダー・本文）
+      - `duration_ms` (integer) - 所要時間
+      - `started_at`, `finished_at` (timestamptz)
+
+  2. Functions
+    - `claim_accounting_sync_jobs(organization_id, limit, lease_seconds)` - 送信予定を過ぎたジョブをロックして取得する
+    - `check_accounting_sync_job_application()` - ジョブの申請がジョブの組織に属するか確認するトリガー関数
+
+  3. Security
+    - 組織メンバーは送信ジョブ・送信履歴を閲覧可能
+    - 組織のオーナー・管理者はジョブの登録・更新、送信履歴の記録が可能
+    - 他の組織の申請を送信するジョブは登録・更新できない
+*/
+
+CREATE TABLE IF NOT EXISTS accounting_sync_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  application_id uuid REFERENCES applications(id) ON DELETE CASCADE NOT NULL,
+  provider text NOT NULL CHECK (provider IN ('freee', 'moneyforward')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'retrying', 'succeeded', 'error')),
+  idempotency_key text NOT NULL UNIQUE,
+  application_title text,
+  application_type text,
+  amount numeric DEFAULT 0,
+  attempt_count integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  next_retry_at timestamptz DEFAULT now(),
+  last_attempt_at timestamptz,
+  locked_until timestamptz,
+  error_code text,
+  error_message text,
+  external_id text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS accounting_sync_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id uuid REFERENCES accounting_sync_jobs(id) ON DELETE CASCADE NOT NULL,
+  attempt_number integer NOT NULL,
+  success boolean NOT NULL DEFAULT false,
+  http_status integer,
+  error_code text,
+  error_message text,
+  request jsonb,
+  response jsonb,
+  duration_ms integer,
+  started_at timestamptz DEFAULT now(),
+  finished_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_accounting_sync_jobs_due ON accounting_sync_jobs(organization_id, status, next_retry_at);
+CREATE INDEX IF NOT EXISTS idx_accounting_sync_attempts_job ON accounting_sync_attempts(job_id, attempt_number);
+
+-- RLS有効化
+ALTER TABLE accounting_sync_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE accounting_sync_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Organization members can read accounting sync jobs"
+  ON accounting_sync_jobs
+  FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Organization admins can manage accounting sync jobs"
+  ON accounting_sync_jobs
+  FOR ALL
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+    )
+  )
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Organization members can read accounting sync attempts"
+  ON accounting_sync_attempts
+  FOR SELECT
+  TO authenticated
+  USING (
+    job_id IN (
+      SELECT id FROM accounting_sync_jobs
+      WHERE organization_id IN (
+        SELECT organization_id FROM organization_members
+        WHERE user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Organization admins can record accounting sync attempts"
+  ON accounting_sync_attempts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    job_id IN (
+      SELECT id FROM accounting_sync_jobs
+      WHERE organization_id IN (
+        SELECT organization_id FROM organization_members
+        WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+      )
+    )
+  );
+
+-- 送信予定を過ぎたジョブをロックして取得する
+-- 他の画面で処理中のジョブは飛ばし、ロック期限が切れたジョブ（処理中に画面が閉じられたなど）は再取得する
+CREATE OR REPLACE FUNCTION claim_accounting_sync_jobs(
+  p_organization_id uuid,
+  p_limit integer DEFAULT 10,
+  p_lease_seconds integer DEFAULT 120
+)
+RETURNS SETOF accounting_sync_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = p_organization_id
+      AND user_id = auth.uid()
+      AND role IN ('owner', 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to process accounting sync jobs';
+  END IF;
+
+  RETURN QUERY
+  UPDATE accounting_sync_jobs
+  SET status = 'processing',
+      locked_until = now() + make_interval(secs => p_lease_seconds),
+      updated_at = now()
+  WHERE id IN (
+    SELECT id FROM accounting_sync_jobs
+    WHERE organization_id = p_organization_id
+      AND (
+        (status IN ('pending', 'retrying') AND next_retry_at <= now())
+        OR (status = 'processing' AND locked_until < now())
+      )
+    ORDER BY next_retry_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_accounting_sync_jobs_updated_at ON accounting_sync_jobs;
+CREATE TRIGGER update_accounting_sync_jobs_updated_at
+  BEFORE UPDATE ON accounting_sync_jobs
+  FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+-- ジョブの申請はジョブの組織に属していなければならない
+-- （送信は service_role で申請を読み込むため、他の組織の申請を指定したジョブを登録させない）
+CREATE OR REPLACE FUNCTION check_accounting_sync_job_application()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM applications
+    WHERE id = NEW.application_id
+      AND organization_id = NEW.organization_id
+  ) THEN
+    RAISE EXCEPTION 'Application does not belong to the organization of the accounting sync job';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_accounting_sync_job_application ON accounting_sync_jobs;
+CREATE TRIGGER check_accounting_sync_job_application
+  BEFORE INSERT OR UPDATE OF application_id, organization_id ON accounting_sync_jobs
+  FOR EACH ROW EXECUTE PROCEDURE check_accounting_sync_job_application();
+
+REVOKE EXECUTE ON FUNCTION check_accounting_sync_job_application() FROM PUBLIC, anon, authenticated;
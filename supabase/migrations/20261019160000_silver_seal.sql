@@ -0,0 +1,514 @@
+/*
+  # 外部承認リンク
+
+  1. New Tables
+    - `approval_links`
+      - `id` (uuid, primary key)
+      - `application_id` (uuid) - 対象の申請
+      - `step` (integer) - 対象の承認ステップ（発行時点の現在のステップ）
+      - `approver_name` (text) - 承認者名（アカウントを持たない外部の承認者）
+      - `approver_email` (text) - 承認者のメールアドレス
+      - `expires_at` (timestamptz) - 有効期限
+      - `used_at` (timestamptz) - 使用日時（1回使用すると無効になる）
+      - `decision` (text) - 承認・差戻し・否認の結果
+      - `revoked_at` (timestamptz) - 取り消し日時
+      - `created_by` (uuid) - 発行者ID
+      - `created_at` (timestamptz)
+    - `approval_link_keys`
+      - リンクの署名に使う秘密鍵（関数からのみ参照し、クライアントには公開しない）
+
+  2. Changes
+    - `application_approvals`
+      - `approver_id` を NULL 許可に変更（外部承認者はアカウントを持たないため）
+      - `approval_link_id` (uuid) - 使用した外部承認リンク
+      - `external_approver_name` (text) - 外部承認者名
+
+  3. Functions
+    - `create_approval_link(application_id, approver_name, approver_email, expires_in_hours)` - 署名付きリンクを発行する
+    - `get_approval_link(token)` - リンクを検証し、申請内容を返す（未ログインでも実行可能）
+    - `use_approval_link(token, action, comment)` - リンクで承認・差戻し・否認を記録する（未ログインでも実行可能）
+    - `record_approval_decision(...)` - 承認結果の記録とステータス更新（`advance_approval` と共通）
+    - `revoke_approval_link(link_id)` - 未使用のリンクを取り消す（発行者と現在のステップの承認者）
+
+  4. Security
+    - トークンは `リンクID.署名` の形式で、署名は申請ID・ステップ・有効期限を含めた HMAC-SHA256
+    - 期限切れ・使用済み・取り消し済み・改ざんされたトークン、ステップが進んだ申請のトークンは拒否する
+    - リンクを発行できるのは現在のステップの承認者と組織のオーナー・管理者（申請者本人を除く）
+    - 署名・検証・承認結果の記録の関数はクライアント（anon / authenticated）から実行できない
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- 署名鍵（1行のみ。RLSを有効にしてポリシーを設定しないことでクライアントから読めないようにする）
+CREATE TABLE IF NOT EXISTS approval_link_keys (
+  id integer PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  secret bytea NOT NULL DEFAULT extensions.gen_random_bytes(32),
+  created_at timestamptz DEFAULT now()
+);
+
+INSERT INTO approval_link_keys (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE approval_link_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS approval_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid REFERENCES applications(id) ON DELETE CASCADE NOT NULL,
+  step integer NOT NULL,
+  approver_name text NOT NULL,
+  approver_email text,
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz,
+  decision text CHECK (decision IN ('approved', 'rejected', 'returned')),
+  revoked_at timestamptz,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_links_application ON approval_links(application_id, step);
+
+ALTER TABLE approval_links ENABLE ROW LEVEL SECURITY;
+
+-- リンクの発行・使用は関数経由のみ。閲覧は申請を閲覧できるユーザーに限る
+CREATE POLICY "Users can read approval links of visible applications"
+  ON approval_links
+  FOR SELECT
+  TO authenticated
+  USING (
+    application_id IN (SELECT id FROM applications)
+  );
+
+ALTER TABLE application_approvals ALTER COLUMN approver_id DROP NOT NULL;
+ALTER TABLE application_approvals ADD COLUMN IF NOT EXISTS approval_link_id uuid REFERENCES approval_links(id) ON DELETE SET NULL;
+ALTER TABLE application_approvals ADD COLUMN IF NOT EXISTS external_approver_name text;
+
+-- リンクの署名（申請ID・ステップ・有効期限を含めるため、いずれかが変わると検証に失敗する）
+CREATE OR REPLACE FUNCTION sign_approval_link(p_link approval_links)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT encode(
+    extensions.hmac(
+      convert_to(
+        p_link.id::text || ':' || p_link.application_id::text || ':' || p_link.step::text || ':' ||
+          floor(extract(epoch FROM p_link.expires_at))::bigint::text,
+        'UTF8'
+      ),
+      (SELECT secret FROM approval_link_keys WHERE id = 1),
+      'sha256'
+    ),
+    'hex'
+  );
+$$;
+
+-- トークンを検証する
+-- 署名が一致しない場合は invalid とし、リンクの内容は返さない
+CREATE OR REPLACE FUNCTION find_approval_link(p_token text, OUT o_link approval_links, OUT o_reason text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_parts text[];
+  v_link_id uuid;
+  v_application applications%ROWTYPE;
+BEGIN
+  v_parts := string_to_array(COALESCE(p_token, ''), '.');
+  IF array_length(v_parts, 1) IS DISTINCT FROM 2 OR v_parts[1] !~* '^[0-9a-f-]{36}$' THEN
+    o_reason := 'invalid';
+    RETURN;
+  END IF;
+  v_link_id := v_parts[1]::uuid;
+
+  SELECT * INTO o_link FROM approval_links WHERE id = v_link_id;
+  IF NOT FOUND OR sign_approval_link(o_link) <> lower(v_parts[2]) THEN
+    o_link := NULL;
+    o_reason := 'invalid';
+    RETURN;
+  END IF;
+
+  IF o_link.revoked_at IS NOT NULL THEN
+    o_reason := 'revoked';
+  ELSIF o_link.used_at IS NOT NULL THEN
+    o_reason := 'used';
+  ELSIF o_link.expires_at <= now() THEN
+    o_reason := 'expired';
+  ELSE
+    SELECT * INTO v_application FROM applications WHERE id = o_link.application_id;
+    IF v_application.status <> 'pending' OR COALESCE(v_application.current_step, 1) <> o_link.step THEN
+      o_reason := 'closed';
+    END IF;
+  END IF;
+END;
+$$;
+
+-- 承認・差戻し・否認を記録し、申請のステップとステータスを更新する
+-- 呼び出し側で権限と申請の状態（承認待ち・対象ステップ）を確認してから呼び出すこと
+CREATE OR REPLACE FUNCTION record_approval_decision(
+  p_application_id uuid,
+  p_action text,
+  p_comment text,
+  p_approver_id uuid,
+  p_approval_link_id uuid DEFAULT NULL,
+  p_external_approver_name text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_application applications%ROWTYPE;
+  v_total_steps integer;
+  v_current_step integer;
+  v_status text;
+BEGIN
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id;
+
+  v_total_steps := jsonb_array_length(v_application.approval_steps);
+  v_current_step := COALESCE(v_application.current_step, 1);
+
+  INSERT INTO application_approvals (
+    application_id, approver_id, step, status, comment, approved_at, approval_link_id, external_approver_name
+  )
+  VALUES (
+    p_application_id, p_approver_id, v_current_step, p_action, p_comment, now(), p_approval_link_id, p_external_approver_name
+  );
+
+  IF p_action = 'approved' AND v_current_step < v_total_steps THEN
+    v_status := 'pending';
+    UPDATE applications
+    SET current_step = v_current_step + 1
+    WHERE id = p_application_id;
+  ELSIF p_action = 'approved' THEN
+    v_status := 'approved';
+    UPDATE applications
+    SET status = 'approved', approved_at = now(), approved_by = p_approver_id
+    WHERE id = p_application_id;
+  ELSIF p_action = 'rejected' THEN
+    v_status := 'rejected';
+    UPDATE applications
+    SET status = 'rejected', rejection_reason = p_comment
+    WHERE id = p_application_id;
+  ELSE
+    -- 差戻し後の再申請では金額の変更に合わせてルートを再割り当てする
+    v_status := 'returned';
+    UPDATE applications
+    SET status = 'returned', rejection_reason = p_comment, approval_steps = NULL, current_step = 1
+    WHERE id = p_application_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'status', v_status,
+    'step', v_current_step,
+    'total_steps', v_total_steps
+  );
+END;
+$$;
+
+-- 承認結果の記録を record_approval_decision に寄せる
+CREATE OR REPLACE FUNCTION advance_approval(
+  p_application_id uuid,
+  p_action text,
+  p_comment text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_application applications%ROWTYPE;
+BEGIN
+  IF p_action NOT IN ('approved', 'rejected', 'returned') THEN
+    RAISE EXCEPTION 'Invalid approval action: %', p_action;
+  END IF;
+
+  IF p_action <> 'approved' AND COALESCE(trim(p_comment), '') = '' THEN
+    RAISE EXCEPTION 'A comment is required for % actions', p_action;
+  END IF;
+
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF v_application.status <> 'pending' THEN
+    RAISE EXCEPTION 'Application is not awaiting approval';
+  END IF;
+
+  IF v_application.approval_steps IS NULL THEN
+    PERFORM assign_approval_route(p_application_id);
+  END IF;
+
+  IF NOT can_approve_application(p_application_id, v_user_id) THEN
+    RAISE EXCEPTION 'Not authorized to approve this step';
+  END IF;
+
+  RETURN record_approval_decision(p_application_id, p_action, p_comment, v_user_id);
+END;
+$$;
+
+-- 現在のステップの外部承認リンクを発行する
+CREATE OR REPLACE FUNCTION create_approval_link(
+  p_application_id uuid,
+  p_approver_name text,
+  p_approver_email text DEFAULT NULL,
+  p_expires_in_hours integer DEFAULT 24
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_application applications%ROWTYPE;
+  v_link approval_links%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF COALESCE(trim(p_approver_name), '') = '' THEN
+    RAISE EXCEPTION 'Approver name is required';
+  END IF;
+
+  IF p_expires_in_hours IS NULL OR p_expires_in_hours < 1 OR p_expires_in_hours > 24 * 30 THEN
+    RAISE EXCEPTION 'Expiry must be between 1 hour and 30 days';
+  END IF;
+
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF v_application.status <> 'pending' THEN
+    RAISE EXCEPTION 'Application is not awaiting approval';
+  END IF;
+
+  IF v_application.approval_steps IS NULL THEN
+    PERFORM assign_approval_route(p_application_id);
+    SELECT * INTO v_application FROM applications WHERE id = p_application_id;
+  END IF;
+
+  -- 申請者本人が自分の申請のリンクを発行して承認することはできない
+  IF NOT (
+    can_approve_application(p_application_id, v_user_id)
+    OR (
+      v_application.user_id <> v_user_id
+      AND EXISTS (
+        SELECT 1 FROM organization_members
+        WHERE organization_id = v_application.organization_id
+          AND user_id = v_user_id
+          AND role IN ('owner', 'admin')
+      )
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to issue approval links for this application';
+  END IF;
+
+  INSERT INTO approval_links (application_id, step, approver_name, approver_email, expires_at, created_by)
+  VALUES (
+    p_application_id,
+    COALESCE(v_application.current_step, 1),
+    trim(p_approver_name),
+    NULLIF(trim(COALESCE(p_approver_email, '')), ''),
+    date_trunc('second', now()) + make_interval(hours => p_expires_in_hours),
+    v_user_id
+  )
+  RETURNING * INTO v_link;
+
+  RETURN jsonb_build_object(
+    'link_id', v_link.id,
+    'token', v_link.id::text || '.' || sign_approval_link(v_link),
+    'step', v_link.step,
+    'expires_at', v_link.expires_at
+  );
+END;
+$$;
+
+-- リンクを検証し、承認画面に表示する申請内容を返す
+CREATE OR REPLACE FUNCTION get_approval_link(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_found record;
+  v_application applications%ROWTYPE;
+BEGIN
+  SELECT * INTO v_found FROM find_approval_link(p_token);
+
+  IF v_found.o_reason = 'invalid' THEN
+    RETURN jsonb_build_object('valid', false, 'reason', 'invalid');
+  END IF;
+
+  IF v_found.o_reason IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'valid', false,
+      'reason', v_found.o_reason,
+      'application_id', (v_found.o_link).application_id,
+      'expires_at', (v_found.o_link).expires_at,
+      'used_at', (v_found.o_link).used_at
+    );
+  END IF;
+
+  SELECT * INTO v_application FROM applications WHERE id = (v_found.o_link).application_id;
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'link', jsonb_build_object(
+      'approver_name', (v_found.o_link).approver_name,
+      'step', (v_found.o_link).step,
+      'step_name', v_application.approval_steps -> ((v_found.o_link).step - 1) ->> 'name',
+      'expires_at', (v_found.o_link).expires_at
+    ),
+    'application', jsonb_build_object(
+      'id', v_application.id,
+      'type', v_application.type,
+      'title', v_application.title,
+      'description', v_application.description,
+      'total_amount', v_application.total_amount,
+      'submitted_at', v_application.submitted_at,
+      'created_at', v_application.created_at,
+      'applicant', (
+        SELECT jsonb_build_object('full_name', full_name, 'department', department)
+        FROM user_profiles WHERE id = v_application.user_id
+      ),
+      'business_trip_details', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'start_date', start_date,
+          'end_date', end_date,
+          'purpose', purpose,
+          'estimated_daily_allowance', estimated_daily_allowance,
+          'estimated_transportation', estimated_transportation,
+          'estimated_accommodation', estimated_accommodation
+        ))
+        FROM business_trip_details WHERE application_id = v_application.id
+      ), '[]'::jsonb),
+      'expense_items', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'category', category,
+          'date', date,
+          'amount', amount,
+          'description', description
+        ) ORDER BY date)
+        FROM expense_items WHERE application_id = v_application.id
+      ), '[]'::jsonb)
+    )
+  );
+END;
+$$;
+
+-- リンクで承認・差戻し・否認を記録する（同時に使用された場合は先着の1回のみ有効）
+CREATE OR REPLACE FUNCTION use_approval_link(
+  p_token text,
+  p_action text,
+  p_comment text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_found record;
+  v_link approval_links%ROWTYPE;
+  v_result jsonb;
+BEGIN
+  IF p_action NOT IN ('approved', 'rejected', 'returned') THEN
+    RAISE EXCEPTION 'Invalid approval action: %', p_action;
+  END IF;
+
+  IF p_action <> 'approved' AND COALESCE(trim(p_comment), '') = '' THEN
+    RAISE EXCEPTION 'A comment is required for % actions', p_action;
+  END IF;
+
+  SELECT * INTO v_found FROM find_approval_link(p_token);
+  IF v_found.o_reason = 'invalid' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'invalid');
+  END IF;
+
+  -- 申請とリンクをロックしてから状態を確認し直す
+  PERFORM 1 FROM applications WHERE id = (v_found.o_link).application_id FOR UPDATE;
+  SELECT * INTO v_link FROM approval_links WHERE id = (v_found.o_link).id FOR UPDATE;
+  SELECT * INTO v_found FROM find_approval_link(p_token);
+
+  IF v_found.o_reason IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'reason', v_found.o_reason,
+      'application_id', v_link.application_id,
+      'expires_at', v_link.expires_at,
+      'used_at', v_link.used_at
+    );
+  END IF;
+
+  UPDATE approval_links
+  SET used_at = now(), decision = p_action
+  WHERE id = v_link.id;
+
+  v_result := record_approval_decision(
+    v_link.application_id, p_action, p_comment, NULL, v_link.id, v_link.approver_name
+  );
+
+  RETURN v_result || jsonb_build_object('application_id', v_link.application_id);
+END;
+$$;
+
+-- 未使用のリンクを取り消す（取り消したリンクは revoked として拒否される）
+CREATE OR REPLACE FUNCTION revoke_approval_link(p_link_id uuid)
+RETURNS approval_links
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_link approval_links%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO v_link FROM approval_links WHERE id = p_link_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Approval link not found';
+  END IF;
+
+  IF v_link.created_by IS DISTINCT FROM v_user_id AND NOT can_approve_application(v_link.application_id, v_user_id) THEN
+    RAISE EXCEPTION 'Not authorized to revoke this approval link';
+  END IF;
+
+  IF v_link.used_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Approval link has already been used';
+  END IF;
+
+  IF v_link.revoked_at IS NULL THEN
+    UPDATE approval_links SET revoked_at = now() WHERE id = p_link_id
+    RETURNING * INTO v_link;
+  END IF;
+
+  RETURN v_link;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION sign_approval_link(approval_links) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION find_approval_link(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_approval_decision(uuid, text, text, uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION revoke_approval_link(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_approval_link(uuid, text, text, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_approval_link(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_approval_link(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION use_approval_link(text, text, text) TO anon, authenticated;
@@ -0,0 +1,299 @@
+/*
+  # 申請データの集計（分析）
+
+  1. Functions
+    - `analytics_applications(organization_id, start, end, user_id)` - 集計対象の申請（下書きを除く）
+    - `analytics_expense_lines(organization_id, start, end, user_id)` - 集計対象の経費明細
+      - 経費項目は経費区分ごと、出張申請は日当・交通費・宿泊費ごと（精算額がなければ見積額）に1行
+    - `get_application_analytics(organization_id, start, end, metrics, group_by, scope)` - 集計結果を返す
+      - summary: 件数・金額・ステータス別件数・承認率・平均処理時間
+      - monthly: 月別の件数・金額（出張・経費別、経費区分別）
+      - by_department / by_type / by_category: 部署別・種別・経費区分別の内訳
+      - grouped: `group_by`（month / department / type / category / status）ごとの `metrics` の値
+
+  2. Notes
+    - 申請日は提出日時（未提出の場合は作成日時）とし、月は日本時間で区切る
+    - 承認率は承認・否認・差戻しのいずれかに至った申請のうち承認された割合
+    - 処理時間は提出から最終承認までの時間（時間単位）
+
+  3. Security
+    - scope = 'organization' は組織のオーナー・管理者のみ、scope = 'self' は自分の申請のみを集計する
+    - 集計対象を返す関数（analytics_applications / analytics_expense_lines）はクライアントから実行できない
+*/
+
+CREATE OR REPLACE FUNCTION analytics_applications(
+  p_organization_id uuid,
+  p_start timestamptz,
+  p_end timestamptz,
+  p_user_id uuid
+)
+RETURNS TABLE (
+  id uuid,
+  type text,
+  status text,
+  total_amount numeric,
+  applied_at timestamptz,
+  month text,
+  department text,
+  processing_hours numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    a.id,
+    a.type,
+    a.status,
+    COALESCE(a.total_amount, 0),
+    COALESCE(a.submitted_at, a.created_at),
+    to_char(COALESCE(a.submitted_at, a.created_at) AT TIME ZONE 'Asia/Tokyo', 'YYYY-MM'),
+    COALESCE(NULLIF(trim(p.department), ''), '未設定'),
+    CASE
+      WHEN a.status = 'approved' AND a.approved_at IS NOT NULL AND a.submitted_at IS NOT NULL
+        THEN round((extract(epoch FROM a.approved_at - a.submitted_at) / 3600)::numeric, 1)
+    END
+  FROM applications a
+  LEFT JOIN user_profiles p ON p.id = a.user_id
+  WHERE a.organization_id = p_organization_id
+    AND a.status <> 'draft'
+    AND (p_user_id IS NULL OR a.user_id = p_user_id)
+    AND (p_start IS NULL OR COALESCE(a.submitted_at, a.created_at) >= p_start)
+    AND (p_end IS NULL OR COALESCE(a.submitted_at, a.created_at) <= p_end);
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_expense_lines(
+  p_organization_id uuid,
+  p_start timestamptz,
+  p_end timestamptz,
+  p_user_id uuid
+)
+RETURNS TABLE (
+  application_id uuid,
+  month text,
+  category text,
+  amount numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH apps AS (
+    SELECT * FROM analytics_applications(p_organization_id, p_start, p_end, p_user_id)
+  )
+  SELECT apps.id, apps.month, COALESCE(NULLIF(trim(e.category), ''), '雑費'), COALESCE(e.amount, 0)
+  FROM apps
+  JOIN expense_items e ON e.application_id = apps.id
+  UNION ALL
+  SELECT apps.id, apps.month, line.category, line.amount
+  FROM apps
+  JOIN business_trip_details d ON d.application_id = apps.id
+  CROSS JOIN LATERAL (
+    VALUES
+      ('日当', COALESCE(NULLIF(d.actual_daily_allowance, 0), d.estimated_daily_allowance, 0)),
+      ('交通費', COALESCE(NULLIF(d.actual_transportation, 0), d.estimated_transportation, 0)),
+      ('宿泊費', COALESCE(NULLIF(d.actual_accommodation, 0), d.estimated_accommodation, 0))
+  ) AS line(category, amount)
+  WHERE line.amount > 0;
+$$;
+
+CREATE OR REPLACE FUNCTION get_application_analytics(
+  p_organization_id uuid,
+  p_start timestamptz DEFAULT NULL,
+  p_end timestamptz DEFAULT NULL,
+  p_metrics text[] DEFAULT NULL,
+  p_group_by text DEFAULT NULL,
+  p_scope text DEFAULT 'organization'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_scope_user_id uuid;
+  v_all_metrics text[] := ARRAY['total_amount', 'application_count', 'approval_rate', 'processing_time'];
+  v_excluded_metrics text[];
+  v_summary jsonb;
+  v_monthly jsonb;
+  v_by_department jsonb;
+  v_by_type jsonb;
+  v_by_category jsonb;
+  v_grouped jsonb;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF p_scope NOT IN ('organization', 'self') THEN
+    RAISE EXCEPTION 'Invalid analytics scope: %', p_scope;
+  END IF;
+
+  IF p_group_by IS NOT NULL AND p_group_by NOT IN ('month', 'department', 'type', 'category', 'status') THEN
+    RAISE EXCEPTION 'Invalid analytics grouping: %', p_group_by;
+  END IF;
+
+  IF p_scope = 'organization' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_id = p_organization_id
+        AND user_id = v_user_id
+        AND role IN ('owner', 'admin')
+    ) THEN
+      RAISE EXCEPTION 'Not allowed to view organization analytics';
+    END IF;
+  ELSE
+    v_scope_user_id := v_user_id;
+  END IF;
+
+  -- 指定されていない指標は grouped から除く
+  v_excluded_metrics := ARRAY(
+    SELECT unnest(v_all_metrics)
+    EXCEPT
+    SELECT unnest(COALESCE(p_metrics, v_all_metrics))
+  );
+
+  SELECT jsonb_build_object(
+    'total_amount', COALESCE(sum(total_amount), 0),
+    'application_count', count(*),
+    'pending_count', count(*) FILTER (WHERE status = 'pending'),
+    'approved_count', count(*) FILTER (WHERE status = 'approved'),
+    'rejected_count', count(*) FILTER (WHERE status = 'rejected'),
+    'returned_count', count(*) FILTER (WHERE status = 'returned'),
+    'average_amount', COALESCE(round(avg(total_amount)), 0),
+    'approval_rate', round(
+      (count(*) FILTER (WHERE status = 'approved'))::numeric
+        / NULLIF(count(*) FILTER (WHERE status IN ('approved', 'rejected', 'returned')), 0),
+      4
+    ),
+    'average_processing_hours', round(avg(processing_hours), 1)
+  )
+  INTO v_summary
+  FROM analytics_applications(p_organization_id, p_start, p_end, v_scope_user_id);
+
+  SELECT COALESCE(jsonb_agg(month_row ORDER BY month_row ->> 'month'), '[]'::jsonb)
+  INTO v_monthly
+  FROM (
+    SELECT jsonb_build_object(
+      'month', apps.month,
+      'total_amount', sum(apps.total_amount),
+      'application_count', count(*),
+      'business_trip_amount', COALESCE(sum(apps.total_amount) FILTER (WHERE apps.type = 'business_trip'), 0),
+      'expense_amount', COALESCE(sum(apps.total_amount) FILTER (WHERE apps.type = 'expense'), 0),
+      'categories', COALESCE((
+        SELECT jsonb_object_agg(lines.category, lines.amount)
+        FROM (
+          SELECT category, sum(amount) AS amount
+          FROM analytics_expense_lines(p_organization_id, p_start, p_end, v_scope_user_id)
+          WHERE month = apps.month
+          GROUP BY category
+        ) lines
+      ), '{}'::jsonb)
+    ) AS month_row
+    FROM analytics_applications(p_organization_id, p_start, p_end, v_scope_user_id) apps
+    GROUP BY apps.month
+  ) monthly;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'department', department,
+    'application_count', application_count,
+    'total_amount', total_amount,
+    'approved_count', approved_count
+  ) ORDER BY total_amount DESC), '[]'::jsonb)
+  INTO v_by_department
+  FROM (
+    SELECT department, count(*) AS application_count, sum(total_amount) AS total_amount,
+      count(*) FILTER (WHERE status = 'approved') AS approved_count
+    FROM analytics_applications(p_organization_id, p_start, p_end, v_scope_user_id)
+    GROUP BY department
+  ) departments;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'type', type,
+    'application_count', application_count,
+    'total_amount', total_amount
+  ) ORDER BY type), '[]'::jsonb)
+  INTO v_by_type
+  FROM (
+    SELECT type, count(*) AS application_count, sum(total_amount) AS total_amount
+    FROM analytics_applications(p_organization_id, p_start, p_end, v_scope_user_id)
+    GROUP BY type
+  ) types;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'category', category,
+    'line_count', line_count,
+    'amount', amount
+  ) ORDER BY amount DESC), '[]'::jsonb)
+  INTO v_by_category
+  FROM (
+    SELECT category, count(*) AS line_count, sum(amount) AS amount
+    FROM analytics_expense_lines(p_organization_id, p_start, p_end, v_scope_user_id)
+    GROUP BY category
+  ) categories;
+
+  IF p_group_by IS NOT NULL THEN
+    SELECT COALESCE(jsonb_agg(
+      jsonb_build_object('key', key) || (jsonb_build_object(
+        'total_amount', total_amount,
+        'application_count', application_count,
+        'approval_rate', approval_rate,
+        'processing_time', processing_time,
+        'approved_count', approved_count
+      ) - v_excluded_metrics)
+      ORDER BY key
+    ), '[]'::jsonb)
+    INTO v_grouped
+    FROM (
+      SELECT
+        grouped_apps.key,
+        sum(grouped_apps.amount) AS total_amount,
+        count(DISTINCT grouped_apps.id) AS application_count,
+        count(DISTINCT grouped_apps.id) FILTER (WHERE grouped_apps.status = 'approved') AS approved_count,
+        round(
+          (count(DISTINCT grouped_apps.id) FILTER (WHERE grouped_apps.status = 'approved'))::numeric
+            / NULLIF(count(DISTINCT grouped_apps.id) FILTER (WHERE grouped_apps.status IN ('approved', 'rejected', 'returned')), 0),
+          4
+        ) AS approval_rate,
+        round(avg(grouped_apps.processing_hours), 1) AS processing_time
+      FROM (
+        -- 経費区分別は明細単位、それ以外は申請単位で集計する
+        SELECT lines.category AS key, apps.id, apps.status, lines.amount, apps.processing_hours
+        FROM analytics_expense_lines(p_organization_id, p_start, p_end, v_scope_user_id) lines
+        JOIN analytics_applications(p_organization_id, p_start, p_end, v_scope_user_id) apps ON apps.id = lines.application_id
+        WHERE p_group_by = 'category'
+        UNION ALL
+        SELECT
+          CASE p_group_by
+            WHEN 'month' THEN apps.month
+            WHEN 'department' THEN apps.department
+            WHEN 'type' THEN apps.type
+            ELSE apps.status
+          END,
+          apps.id, apps.status, apps.total_amount, apps.processing_hours
+        FROM analytics_applications(p_organization_id, p_start, p_end, v_scope_user_id) apps
+        WHERE p_group_by <> 'category'
+      ) grouped_apps
+      GROUP BY grouped_apps.key
+    ) grouped;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'summary', v_summary,
+    'monthly', v_monthly,
+    'by_department', v_by_department,
+    'by_type', v_by_type,
+    'by_category', v_by_category,
+    'grouped', v_grouped,
+    'generated_at', now()
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION analytics_applications(uuid, timestamptz, timestamptz, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION analytics_expense_lines(uuid, timestamptz, timestamptz, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_application_analytics(uuid, timestamptz, timestamptz, text[], text, text) TO authenticated;
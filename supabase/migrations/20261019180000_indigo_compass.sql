@@ -0,0 +1,419 @@
+/*
+  # 申請の詳細検索・タグ・保存済み検索条件
+
+  1. New Tables
+    - `application_search_index`
+      - `application_id` (uuid, primary key) - 対象の申請
+      - `search_text` (text) - 検索対象の文字列（タイトル・説明・出張目的・経費項目の摘要）
+      - `updated_at` (timestamptz)
+    - `application_tags`
+      - `id` (uuid, primary key)
+      - `organization_id` (uuid) - 組織ID（タグは組織ごとに管理する）
+      - `name` (text) - タグ名（組織内で一意）
+      - `color` (text) - 表示色
+      - `created_by` (uuid) - 作成者ID
+      - `created_at` (timestamptz)
+    - `application_tag_assignments`
+      - `application_id` (uuid) - 申請
+      - `tag_id` (uuid) - タグ
+      - `created_by` (uuid) - 付与した人
+      - `created_at` (timestamptz)
+    - `saved_search_filters`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid) - 保存したユーザー
+      - `name` (text) - 条件名（ユーザーごとに一意）
+      - `filters` (jsonb) - 検索条件
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Functions
+    - `build_application_search_text(application_id, title, description)` - 検索対象の文字列を組み立てる
+    - `can_tag_application(application_id, tag_id)` - タグを付け外しできるか
+    - `search_applications(organization_id, keyword, ...)` - 条件に一致する申請を返す
+
+  3. Notes
+    - 日本語は単語の区切りがないため、tsvector ではなく trigram 索引（pg_trgm）による部分一致で検索する
+    - キーワードは空白区切りのすべての語を含む申請に一致する（申請者名も対象）
+    - タグは指定したすべてのタグが付いた申請に一致する
+    - 期間は申請日（提出日時、未提出の場合は作成日時）を日本時間の日付で比較する
+
+  4. Security
+    - 保存済み検索条件は本人のみ参照・変更可能
+    - タグは組織メンバーが参照・作成でき、変更・削除は組織のオーナー・管理者のみ
+    - タグの付け外しは申請者本人、現在のステップの承認者、組織のオーナー・管理者のみ
+    - scope = 'organization' の検索は組織のオーナー・管理者のみ、scope = 'self' は自分の申請のみを検索する
+    - 検索用テキストの作成・索引の更新の関数はクライアントから実行できない
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- 検索用の文字列（申請本体の更新日時を変えないよう別テーブルで保持する）
+CREATE TABLE IF NOT EXISTS application_search_index (
+  application_id uuid PRIMARY KEY REFERENCES applications(id) ON DELETE CASCADE,
+  search_text text NOT NULL DEFAULT '',
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_application_search_index_text
+  ON application_search_index USING gin (search_text extensions.gin_trgm_ops);
+
+CREATE TABLE IF NOT EXISTS application_tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 30),
+  color text NOT NULL DEFAULT 'slate',
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (organization_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS application_tag_assignments (
+  application_id uuid REFERENCES applications(id) ON DELETE CASCADE NOT NULL,
+  tag_id uuid REFERENCES application_tags(id) ON DELETE CASCADE NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (application_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_application_tag_assignments_tag ON application_tag_assignments(tag_id);
+
+CREATE TABLE IF NOT EXISTS saved_search_filters (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 50),
+  filters jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+-- RLS有効化（application_search_index は関数からのみ参照する）
+ALTER TABLE application_search_index ENABLE ROW LEVEL SECURITY;
+ALTER TABLE application_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE application_tag_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_search_filters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own saved search filters"
+  ON saved_search_filters
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Organization members can read application tags"
+  ON application_tags
+  FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Organization members can create application tags"
+  ON application_tags
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Organization admins can update application tags"
+  ON application_tags
+  FOR UPDATE
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Organization admins can delete application tags"
+  ON application_tags
+  FOR DELETE
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+    )
+  );
+
+DROP TRIGGER IF EXISTS handle_saved_search_filters_updated_at ON saved_search_filters;
+CREATE TRIGGER handle_saved_search_filters_updated_at
+  BEFORE UPDATE ON saved_search_filters
+  FOR EACH ROW EXECUTE PROCEDURE handle_updated_at();
+
+-- 検索対象の文字列
+CREATE OR REPLACE FUNCTION build_application_search_text(
+  p_application_id uuid,
+  p_title text,
+  p_description text
+)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT concat_ws(
+    E'\n',
+    p_title,
+    p_description,
+    (SELECT string_agg(purpose, E'\n') FROM business_trip_details WHERE application_id = p_application_id),
+    (SELECT string_agg(description, E'\n') FROM expense_items WHERE application_id = p_application_id)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_application_search_index(p_application_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO application_search_index (application_id, search_text, updated_at)
+  SELECT id, build_application_search_text(id, title, description), now()
+  FROM applications
+  WHERE id = p_application_id
+  ON CONFLICT (application_id) DO UPDATE
+    SET search_text = EXCLUDED.search_text, updated_at = EXCLUDED.updated_at;
+$$;
+
+CREATE OR REPLACE FUNCTION handle_application_search_index()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'applications' THEN
+    PERFORM refresh_application_search_index(NEW.id);
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM refresh_application_search_index(NEW.application_id);
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM refresh_application_search_index(OLD.application_id);
+  ELSE
+    PERFORM refresh_application_search_index(NEW.application_id);
+    -- 明細が別の申請に移った場合は移動元も更新する
+    IF NEW.application_id IS DISTINCT FROM OLD.application_id THEN
+      PERFORM refresh_application_search_index(OLD.application_id);
+    END IF;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_search_index_on_applications ON applications;
+CREATE TRIGGER refresh_search_index_on_applications
+  AFTER INSERT OR UPDATE OF title, description ON applications
+  FOR EACH ROW EXECUTE PROCEDURE handle_application_search_index();
+
+DROP TRIGGER IF EXISTS refresh_search_index_on_business_trip_details ON business_trip_details;
+CREATE TRIGGER refresh_search_index_on_business_trip_details
+  AFTER INSERT OR UPDATE OF purpose, application_id OR DELETE ON business_trip_details
+  FOR EACH ROW EXECUTE PROCEDURE handle_application_search_index();
+
+DROP TRIGGER IF EXISTS refresh_search_index_on_expense_items ON expense_items;
+CREATE TRIGGER refresh_search_index_on_expense_items
+  AFTER INSERT OR UPDATE OF description, application_id OR DELETE ON expense_items
+  FOR EACH ROW EXECUTE PROCEDURE handle_application_search_index();
+
+-- 既存の申請を索引に登録
+INSERT INTO application_search_index (application_id, search_text)
+SELECT id, build_application_search_text(id, title, description)
+FROM applications
+ON CONFLICT (application_id) DO UPDATE SET search_text = EXCLUDED.search_text, updated_at = now();
+
+-- タグの付け外し（申請者本人・現在のステップの承認者・組織のオーナー・管理者。タグは申請と同じ組織のもののみ）
+CREATE OR REPLACE FUNCTION can_tag_application(p_application_id uuid, p_tag_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM applications a
+    JOIN application_tags t ON t.id = p_tag_id AND t.organization_id = a.organization_id
+    WHERE a.id = p_application_id
+      AND (
+        a.user_id = auth.uid()
+        OR can_approve_application(a.id, auth.uid())
+        OR EXISTS (
+          SELECT 1 FROM organization_members
+          WHERE organization_id = a.organization_id
+            AND user_id = auth.uid()
+            AND role IN ('owner', 'admin')
+        )
+      )
+  );
+$$;
+
+CREATE POLICY "Users can read tags of visible applications"
+  ON application_tag_assignments
+  FOR SELECT
+  TO authenticated
+  USING (
+    application_id IN (SELECT id FROM applications)
+    OR can_tag_application(application_id, tag_id)
+  );
+
+CREATE POLICY "Users can tag applications they can manage"
+  ON application_tag_assignments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid() AND can_tag_application(application_id, tag_id));
+
+CREATE POLICY "Users can untag applications they can manage"
+  ON application_tag_assignments
+  FOR DELETE
+  TO authenticated
+  USING (can_tag_application(application_id, tag_id));
+
+-- 詳細検索（一覧の1ページ分と、条件に一致する総件数を返す）
+CREATE OR REPLACE FUNCTION search_applications(
+  p_organization_id uuid,
+  p_keyword text DEFAULT NULL,
+  p_start date DEFAULT NULL,
+  p_end date DEFAULT NULL,
+  p_applicant text DEFAULT NULL,
+  p_department text DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_type text DEFAULT NULL,
+  p_min_amount numeric DEFAULT NULL,
+  p_max_amount numeric DEFAULT NULL,
+  p_tag_ids uuid[] DEFAULT NULL,
+  p_scope text DEFAULT 'organization',
+  p_limit integer DEFAULT 50,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  organization_id uuid,
+  type text,
+  title text,
+  description text,
+  total_amount numeric,
+  status text,
+  submitted_at timestamptz,
+  approved_at timestamptz,
+  approved_by uuid,
+  created_at timestamptz,
+  updated_at timestamptz,
+  applicant_name text,
+  applicant_department text,
+  approver_name text,
+  tags jsonb,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_terms text[];
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF p_scope NOT IN ('organization', 'self') THEN
+    RAISE EXCEPTION 'Invalid search scope: %', p_scope;
+  END IF;
+
+  IF p_scope = 'organization' AND NOT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_members.organization_id = p_organization_id
+      AND organization_members.user_id = v_user_id
+      AND role IN ('owner', 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to search organization applications';
+  END IF;
+
+  -- 全角空白も区切りとして扱い、LIKE の特殊文字はエスケープする
+  v_terms := ARRAY(
+    SELECT '%' || replace(replace(replace(term, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    FROM regexp_split_to_table(trim(COALESCE(p_keyword, '')), '[\s　]+') AS term
+    WHERE term <> ''
+  );
+
+  RETURN QUERY
+  SELECT
+    a.id,
+    a.user_id,
+    a.organization_id,
+    a.type,
+    a.title,
+    a.description,
+    COALESCE(a.total_amount, 0),
+    a.status,
+    a.submitted_at,
+    a.approved_at,
+    a.approved_by,
+    a.created_at,
+    a.updated_at,
+    applicant.full_name,
+    applicant.department,
+    approver.full_name,
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', t.id, 'name', t.name, 'color', t.color) ORDER BY t.name)
+      FROM application_tag_assignments ta
+      JOIN application_tags t ON t.id = ta.tag_id
+      WHERE ta.application_id = a.id
+    ), '[]'::jsonb),
+    count(*) OVER ()
+  FROM applications a
+  LEFT JOIN application_search_index si ON si.application_id = a.id
+  LEFT JOIN user_profiles applicant ON applicant.id = a.user_id
+  LEFT JOIN user_profiles approver ON approver.id = a.approved_by
+  WHERE a.organization_id = p_organization_id
+    AND (p_scope = 'organization' OR a.user_id = v_user_id)
+    -- 他人の下書きは対象外
+    AND (a.status <> 'draft' OR a.user_id = v_user_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM unnest(v_terms) AS pattern
+      WHERE NOT (
+        COALESCE(si.search_text, a.title) ILIKE pattern
+        OR COALESCE(applicant.full_name, '') ILIKE pattern
+      )
+    )
+    AND (p_start IS NULL OR (COALESCE(a.submitted_at, a.created_at) AT TIME ZONE 'Asia/Tokyo')::date >= p_start)
+    AND (p_end IS NULL OR (COALESCE(a.submitted_at, a.created_at) AT TIME ZONE 'Asia/Tokyo')::date <= p_end)
+    AND (NULLIF(trim(p_applicant), '') IS NULL
+      OR applicant.full_name ILIKE '%' || replace(replace(replace(trim(p_applicant), '\', '\\'), '%', '\%'), '_', '\_') || '%')
+    AND (NULLIF(p_department, '') IS NULL OR applicant.department = p_department)
+    AND (NULLIF(p_status, '') IS NULL OR a.status = p_status)
+    AND (NULLIF(p_type, '') IS NULL OR a.type = p_type)
+    AND (p_min_amount IS NULL OR COALESCE(a.total_amount, 0) >= p_min_amount)
+    AND (p_max_amount IS NULL OR COALESCE(a.total_amount, 0) <= p_max_amount)
+    AND (
+      COALESCE(cardinality(p_tag_ids), 0) = 0
+      OR (
+        SELECT count(DISTINCT ta.tag_id)
+        FROM application_tag_assignments ta
+        WHERE ta.application_id = a.id AND ta.tag_id = ANY (p_tag_ids)
+      ) = (SELECT count(DISTINCT tag_id) FROM unnest(p_tag_ids) AS tag_id)
+    )
+  ORDER BY COALESCE(a.submitted_at, a.created_at) DESC, a.id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 50), 1), 500)
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION build_application_search_text(uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refresh_application_search_index(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION handle_application_search_index() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION can_tag_application(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_applications(uuid, text, date, date, text, text, text, text, numeric, numeric, uuid[], text, integer, integer) TO authenticated;
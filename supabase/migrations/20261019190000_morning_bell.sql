@@ -0,0 +1,563 @@
+/*
+  # 承認リマインドの定期実行
+
+  1. New Tables
+    - `reminder_rules`
+      - `id` (uuid, primary key)
+      - `organization_id` (uuid) - 組織ID
+      - `name` (text) - ルール名
+      - `enabled` (boolean) - 有効/無効
+      - `trigger_days` (integer) - 承認待ちになってから通知するまでの日数
+      - `repeat_interval` (integer) - 再通知の間隔（日数。0 は再通知しない）
+      - `target_roles` (text[]) - 対象役職（この役職が承認者のステップで止まっている申請に通知する。空はすべて）
+      - `notification_methods` (text[]) - 通知方法（email / push。アプリ内通知は常に作成する）
+      - `custom_message` (text) - 通知に含めるメッセージ
+      - `escalate` (boolean) - 一つ上の役職（該当がない場合は組織のオーナー・管理者）にも通知する
+      - `created_at`, `updated_at` (timestamptz)
+    - `reminder_deliveries`
+      - 通知の送信履歴（再通知の間隔の判定に使う）
+    - `email_jobs`
+      - `id` (uuid, primary key)
+      - `organization_id` (uuid) - 組織ID
+      - `user_id` (uuid) - 送信先ユーザー
+      - `to_email` (text) - 送信先メールアドレス
+      - `template` (text) - テンプレート（approval_reminder など）
+      - `variables` (jsonb) - テンプレートに埋め込む値
+      - `status` (text) - pending（送信待ち）/ sending（送信中）/ sent（送信済み）/ failed（失敗）/ cancelled（取り消し）
+      - `attempt_count` (integer), `last_error` (text)
+      - `scheduled_at`, `sent_at`, `created_at` (timestamptz)
+
+  2. Functions
+    - `jp_national_holidays(year)` - 国民の祝日（振替休日・国民の休日を含む）
+    - `is_business_day(date, exclude_weekends, exclude_holidays)` - 営業日か
+    - `count_business_days(from, to, exclude_weekends, exclude_holidays)` - from の翌日から to までの営業日数
+    - `process_approval_reminders(organization_id, now)` - リマインドを評価し、通知とメール送信ジョブを作成する（定期実行）
+    - `run_approval_reminders(organization_id)` - 組織のリマインドを今すぐ実行する（オーナー・管理者のみ）
+
+  3. Notes
+    - 全体設定（有効/無効・営業時間・土日祝日除外）は `organizations.settings.reminders` に保存する
+    - 土日祝日を除外する設定の場合、経過日数は営業日で数え、休日と営業時間外は通知しない
+    - 祝日は2020年以降の祝日法に基づいて計算する（春分・秋分は2099年まで有効な近似式）
+    - pg_cron が利用できる環境では毎時0分に実行する
+
+  4. Security
+    - ルールは組織メンバーが閲覧でき、組織のオーナー・管理者のみ変更可能
+    - 送信履歴・メール送信ジョブは組織のオーナー・管理者のみ閲覧可能
+    - 送信先の判定（reminder_rule_targets_step / reminder_recipients）はクライアントから実行できない
+*/
+
+CREATE TABLE IF NOT EXISTS reminder_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  enabled boolean NOT NULL DEFAULT false,
+  trigger_days integer NOT NULL DEFAULT 7 CHECK (trigger_days > 0),
+  repeat_interval integer NOT NULL DEFAULT 0 CHECK (repeat_interval >= 0),
+  target_roles text[] NOT NULL DEFAULT '{}',
+  notification_methods text[] NOT NULL DEFAULT '{email}' CHECK (notification_methods <@ ARRAY['email', 'push']),
+  custom_message text NOT NULL DEFAULT '',
+  escalate boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS reminder_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id uuid REFERENCES reminder_rules(id) ON DELETE CASCADE NOT NULL,
+  application_id uuid REFERENCES applications(id) ON DELETE CASCADE NOT NULL,
+  step integer NOT NULL,
+  recipient_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  escalation boolean NOT NULL DEFAULT false,
+  notification_id uuid REFERENCES notifications(id) ON DELETE SET NULL,
+  sent_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS email_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  to_email text NOT NULL,
+  template text NOT NULL,
+  variables jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'cancelled')),
+  attempt_count integer NOT NULL DEFAULT 0,
+  last_error text,
+  scheduled_at timestamptz DEFAULT now(),
+  sent_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reminder_rules_organization ON reminder_rules(organization_id);
+CREATE INDEX IF NOT EXISTS idx_reminder_deliveries_lookup ON reminder_deliveries(rule_id, application_id, step, sent_at);
+CREATE INDEX IF NOT EXISTS idx_email_jobs_due ON email_jobs(status, scheduled_at);
+
+-- RLS有効化
+ALTER TABLE reminder_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reminder_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Organization members can read reminder rules"
+  ON reminder_rules
+  FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Organization admins can manage reminder rules"
+  ON reminder_rules
+  FOR ALL
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+    )
+  )
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Organization admins can read reminder deliveries"
+  ON reminder_deliveries
+  FOR SELECT
+  TO authenticated
+  USING (
+    rule_id IN (
+      SELECT id FROM reminder_rules
+      WHERE organization_id IN (
+        SELECT organization_id FROM organization_members
+        WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+      )
+    )
+  );
+
+CREATE POLICY "Organization admins can read email jobs"
+  ON email_jobs
+  FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+    )
+  );
+
+DROP TRIGGER IF EXISTS handle_reminder_rules_updated_at ON reminder_rules;
+CREATE TRIGGER handle_reminder_rules_updated_at
+  BEFORE UPDATE ON reminder_rules
+  FOR EACH ROW EXECUTE PROCEDURE handle_updated_at();
+
+-- 指定した月の第n月曜日
+CREATE OR REPLACE FUNCTION jp_nth_monday(p_year integer, p_month integer, p_nth integer)
+RETURNS date
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT make_date(p_year, p_month, 1)
+    + ((8 - extract(isodow FROM make_date(p_year, p_month, 1))::integer) % 7)
+    + (p_nth - 1) * 7;
+$$;
+
+-- 春分日・秋分日（1980〜2099年の近似式）
+CREATE OR REPLACE FUNCTION jp_equinox_day(p_year integer, p_base numeric)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT floor(p_base + 0.242194 * (p_year - 1980) - floor((p_year - 1980) / 4.0))::integer;
+$$;
+
+CREATE OR REPLACE FUNCTION jp_national_holidays(p_year integer)
+RETURNS TABLE (holiday date, name text)
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  WITH base(holiday, name) AS (
+    VALUES
+      (make_date(p_year, 1, 1), '元日'),
+      (jp_nth_monday(p_year, 1, 2), '成人の日'),
+      (make_date(p_year, 2, 11), '建国記念の日'),
+      (make_date(p_year, 2, 23), '天皇誕生日'),
+      (make_date(p_year, 3, jp_equinox_day(p_year, 20.8431)), '春分の日'),
+      (make_date(p_year, 4, 29), '昭和の日'),
+      (make_date(p_year, 5, 3), '憲法記念日'),
+      (make_date(p_year, 5, 4), 'みどりの日'),
+      (make_date(p_year, 5, 5), 'こどもの日'),
+      -- 2020・2021年は東京オリンピック・パラリンピックに伴う移動
+      (CASE p_year WHEN 2020 THEN make_date(2020, 7, 23) WHEN 2021 THEN make_date(2021, 7, 22) ELSE jp_nth_monday(p_year, 7, 3) END, '海の日'),
+      (CASE p_year WHEN 2020 THEN make_date(2020, 8, 10) WHEN 2021 THEN make_date(2021, 8, 8) ELSE make_date(p_year, 8, 11) END, '山の日'),
+      (jp_nth_monday(p_year, 9, 3), '敬老の日'),
+      (make_date(p_year, 9, jp_equinox_day(p_year, 23.2488)), '秋分の日'),
+      (CASE p_year WHEN 2020 THEN make_date(2020, 7, 24) WHEN 2021 THEN make_date(2021, 7, 23) ELSE jp_nth_monday(p_year, 10, 2) END, 'スポーツの日'),
+      (make_date(p_year, 11, 3), '文化の日'),
+      (make_date(p_year, 11, 23), '勤労感謝の日')
+  ),
+  -- 祝日が日曜日の場合は、その後の最初の祝日でない日を休日とする
+  substitute AS (
+    SELECT (
+      SELECT min(candidate)::date
+      FROM generate_series(b.holiday + 1, b.holiday + 7, interval '1 day') AS candidate
+      WHERE candidate::date NOT IN (SELECT base.holiday FROM base)
+    ) AS holiday, '振替休日'::text AS name
+    FROM base b
+    WHERE extract(isodow FROM b.holiday) = 7
+  ),
+  -- 前日と翌日が祝日である平日は休日とする
+  sandwiched AS (
+    SELECT b.holiday + 1 AS holiday, '国民の休日'::text AS name
+    FROM base b
+    WHERE b.holiday + 2 IN (SELECT base.holiday FROM base)
+      AND b.holiday + 1 NOT IN (SELECT base.holiday FROM base)
+      AND b.holiday + 1 NOT IN (SELECT substitute.holiday FROM substitute)
+      AND extract(isodow FROM b.holiday + 1) <> 7
+  )
+  SELECT holiday, name FROM base
+  UNION ALL
+  SELECT holiday, name FROM substitute
+  UNION ALL
+  SELECT holiday, name FROM sandwiched
+  ORDER BY holiday;
+$$;
+
+CREATE OR REPLACE FUNCTION is_business_day(
+  p_date date,
+  p_exclude_weekends boolean DEFAULT true,
+  p_exclude_holidays boolean DEFAULT true
+)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT NOT (p_exclude_weekends AND extract(isodow FROM p_date) IN (6, 7))
+    AND NOT (p_exclude_holidays AND EXISTS (
+      SELECT 1 FROM jp_national_holidays(extract(year FROM p_date)::integer) h
+      WHERE h.holiday = p_date
+    ));
+$$;
+
+CREATE OR REPLACE FUNCTION count_business_days(
+  p_from date,
+  p_to date,
+  p_exclude_weekends boolean DEFAULT true,
+  p_exclude_holidays boolean DEFAULT true
+)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT count(*)::integer
+  FROM generate_series(p_from + 1, p_to, interval '1 day') AS day
+  WHERE NOT (p_exclude_weekends AND extract(isodow FROM day) IN (6, 7))
+    AND NOT (p_exclude_holidays AND day::date IN (
+      SELECT h.holiday
+      FROM generate_series(extract(year FROM p_from)::integer, extract(year FROM p_to)::integer) AS year
+      CROSS JOIN LATERAL jp_national_holidays(year) h
+    ));
+$$;
+
+-- ルールの対象役職が現在のステップの承認者に該当するか（管理者は組織のオーナー・管理者ロール）
+CREATE OR REPLACE FUNCTION reminder_rule_targets_step(p_target_roles text[], p_step jsonb)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(cardinality(p_target_roles), 0) = 0
+    OR EXISTS (
+      SELECT 1 FROM unnest(p_target_roles) AS target
+      WHERE (
+          target = '管理者'
+          AND (p_step IS NULL OR (p_step->>'approver_type' = 'role' AND p_step->>'approver_value' IN ('owner', 'admin')))
+        )
+        OR (p_step->>'approver_type' = 'position' AND p_step->>'approver_value' ILIKE '%' || target || '%')
+        OR (
+          p_step->>'approver_type' = 'user'
+          AND EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id::text = p_step->>'approver_value' AND position ILIKE '%' || target || '%'
+          )
+        )
+    );
+$$;
+
+-- 通知先（現在のステップの承認者と、エスカレーション時は一つ上の役職）
+CREATE OR REPLACE FUNCTION reminder_recipients(p_application_id uuid, p_escalate boolean)
+RETURNS TABLE (user_id uuid, email text, escalation boolean)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_application applications%ROWTYPE;
+  v_step jsonb;
+  v_step_position text;
+  v_ranks text[] := ARRAY['係長', '課長', '部長', '本部長', '取締役'];
+  v_next_rank text;
+  v_index integer;
+BEGIN
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT m.user_id, p.email, false
+  FROM organization_members m
+  LEFT JOIN user_profiles p ON p.id = m.user_id
+  WHERE m.organization_id = v_application.organization_id
+    AND can_approve_application(v_application.id, m.user_id);
+
+  IF NOT p_escalate THEN
+    RETURN;
+  END IF;
+
+  v_step := v_application.approval_steps -> (COALESCE(v_application.current_step, 1) - 1);
+  v_step_position := CASE v_step->>'approver_type'
+    WHEN 'position' THEN v_step->>'approver_value'
+    WHEN 'user' THEN (SELECT position FROM user_profiles WHERE id::text = v_step->>'approver_value')
+  END;
+
+  -- 上位の役職から照合する（「本部長」を「部長」と判定しないため）
+  IF v_step_position IS NOT NULL THEN
+    FOR v_index IN REVERSE array_length(v_ranks, 1)..1 LOOP
+      IF v_step_position ILIKE '%' || v_ranks[v_index] || '%' THEN
+        v_next_rank := v_ranks[v_index + 1];
+        EXIT;
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN QUERY
+  SELECT m.user_id, p.email, true
+  FROM organization_members m
+  LEFT JOIN user_profiles p ON p.id = m.user_id
+  WHERE m.organization_id = v_application.organization_id
+    AND m.user_id <> v_application.user_id
+    AND NOT can_approve_application(v_application.id, m.user_id)
+    AND (
+      (v_next_rank IS NOT NULL AND p.position ILIKE '%' || v_next_rank || '%')
+      OR (v_next_rank IS NULL AND m.role IN ('owner', 'admin'))
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION process_approval_reminders(
+  p_organization_id uuid DEFAULT NULL,
+  p_now timestamptz DEFAULT now()
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_local timestamp := p_now AT TIME ZONE 'Asia/Tokyo';
+  v_today date := (p_now AT TIME ZONE 'Asia/Tokyo')::date;
+  v_organization record;
+  v_settings jsonb;
+  v_exclude_weekends boolean;
+  v_exclude_holidays boolean;
+  v_rule reminder_rules%ROWTYPE;
+  v_application record;
+  v_recipient record;
+  v_waiting_since date;
+  v_waiting_days integer;
+  v_last_sent_at timestamptz;
+  v_notification_id uuid;
+  v_message text;
+  v_notified boolean;
+  v_application_count integer := 0;
+  v_notification_count integer := 0;
+  v_email_count integer := 0;
+BEGIN
+  FOR v_organization IN
+    SELECT o.id, COALESCE(o.settings -> 'reminders', '{}'::jsonb) AS settings
+    FROM organizations o
+    WHERE (p_organization_id IS NULL OR o.id = p_organization_id)
+      AND EXISTS (SELECT 1 FROM reminder_rules r WHERE r.organization_id = o.id AND r.enabled)
+  LOOP
+    v_settings := v_organization.settings;
+    CONTINUE WHEN NOT COALESCE((v_settings->>'enabled')::boolean, true);
+
+    v_exclude_weekends := COALESCE((v_settings->>'excludeWeekends')::boolean, true);
+    v_exclude_holidays := COALESCE((v_settings->>'excludeHolidays')::boolean, true);
+
+    -- 休日・営業時間外は通知しない（営業日・営業時間内の次回実行で通知する）
+    CONTINUE WHEN NOT is_business_day(v_today, v_exclude_weekends, v_exclude_holidays);
+    IF COALESCE((v_settings->>'businessHoursOnly')::boolean, true) THEN
+      CONTINUE WHEN v_local::time < COALESCE(NULLIF(v_settings->>'startTime', '')::time, '09:00'::time)
+        OR v_local::time >= COALESCE(NULLIF(v_settings->>'endTime', '')::time, '18:00'::time);
+    END IF;
+
+    FOR v_rule IN
+      SELECT * FROM reminder_rules
+      WHERE organization_id = v_organization.id AND enabled
+      ORDER BY trigger_days, created_at
+    LOOP
+      FOR v_application IN
+        SELECT
+          a.id,
+          a.title,
+          a.type,
+          COALESCE(a.total_amount, 0) AS total_amount,
+          COALESCE(a.current_step, 1) AS step,
+          a.approval_steps -> (COALESCE(a.current_step, 1) - 1) AS step_definition,
+          -- 現在のステップで承認待ちになった日時（前のステップの承認日時、なければ提出日時）
+          GREATEST(a.submitted_at, (
+            SELECT max(aa.approved_at) FROM application_approvals aa
+            WHERE aa.application_id = a.id AND aa.status = 'approved'
+          )) AS waiting_since,
+          p.full_name AS applicant_name
+        FROM applications a
+        LEFT JOIN user_profiles p ON p.id = a.user_id
+        WHERE a.organization_id = v_organization.id
+          AND a.status = 'pending'
+          AND a.submitted_at IS NOT NULL
+      LOOP
+        CONTINUE WHEN NOT reminder_rule_targets_step(v_rule.target_roles, v_application.step_definition);
+
+        v_waiting_since := (v_application.waiting_since AT TIME ZONE 'Asia/Tokyo')::date;
+        v_waiting_days := CASE WHEN v_exclude_weekends OR v_exclude_holidays
+          THEN count_business_days(v_waiting_since, v_today, v_exclude_weekends, v_exclude_holidays)
+          ELSE v_today - v_waiting_since
+        END;
+        CONTINUE WHEN v_waiting_days < v_rule.trigger_days;
+
+        -- 同じステップへの通知は再通知の間隔を空ける（間隔0は1回のみ）
+        SELECT max(sent_at) INTO v_last_sent_at
+        FROM reminder_deliveries
+        WHERE rule_id = v_rule.id AND application_id = v_application.id AND step = v_application.step;
+
+        IF v_last_sent_at IS NOT NULL THEN
+          CONTINUE WHEN v_rule.repeat_interval = 0;
+          CONTINUE WHEN (CASE WHEN v_exclude_weekends OR v_exclude_holidays
+            THEN count_business_days((v_last_sent_at AT TIME ZONE 'Asia/Tokyo')::date, v_today, v_exclude_weekends, v_exclude_holidays)
+            ELSE v_today - (v_last_sent_at AT TIME ZONE 'Asia/Tokyo')::date
+          END) < v_rule.repeat_interval;
+        END IF;
+
+        v_message := concat_ws(
+          E'\n',
+          NULLIF(trim(v_rule.custom_message), ''),
+          format(
+            '申請「%s」（%s・¥%s）が%s日間承認待ちです。',
+            v_application.title,
+            COALESCE(v_application.applicant_name, '申請者'),
+            to_char(v_application.total_amount, 'FM999,999,999,990'),
+            v_waiting_days
+          )
+        );
+
+        v_notified := false;
+        FOR v_recipient IN SELECT * FROM reminder_recipients(v_application.id, v_rule.escalate) LOOP
+          INSERT INTO notifications (user_id, type, title, message, data)
+          VALUES (
+            v_recipient.user_id,
+            'reminder',
+            CASE WHEN v_recipient.escalation THEN '【エスカレーション】承認待ちの申請があります' ELSE '承認待ちの申請があります' END,
+            v_message,
+            jsonb_build_object(
+              'application_id', v_application.id,
+              'application_type', v_application.type,
+              'rule_id', v_rule.id,
+              'step', v_application.step,
+              'waiting_days', v_waiting_days,
+              'escalation', v_recipient.escalation
+            )
+          )
+          RETURNING id INTO v_notification_id;
+          v_notification_count := v_notification_count + 1;
+
+          IF 'email' = ANY (v_rule.notification_methods) AND NULLIF(trim(v_recipient.email), '') IS NOT NULL THEN
+            INSERT INTO email_jobs (organization_id, user_id, to_email, template, variables)
+            VALUES (
+              v_organization.id,
+              v_recipient.user_id,
+              v_recipient.email,
+              'approval_reminder',
+              jsonb_build_object(
+                'application_id', v_application.id,
+                'application_type', v_application.type,
+                'title', v_application.title,
+                'applicant', COALESCE(v_application.applicant_name, ''),
+                'amount', v_application.total_amount,
+                'waiting_days', v_waiting_days,
+                'message', v_rule.custom_message,
+                'escalation', v_recipient.escalation
+              )
+            );
+            v_email_count := v_email_count + 1;
+          END IF;
+
+          INSERT INTO reminder_deliveries (rule_id, application_id, step, recipient_id, escalation, notification_id, sent_at)
+          VALUES (v_rule.id, v_application.id, v_application.step, v_recipient.user_id, v_recipient.escalation, v_notification_id, p_now);
+          v_notified := true;
+        END LOOP;
+
+        IF v_notified THEN
+          v_application_count := v_application_count + 1;
+        END IF;
+      END LOOP;
+    END LOOP;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'applications', v_application_count,
+    'notifications', v_notification_count,
+    'emails', v_email_count
+  );
+END;
+$$;
+
+-- 管理画面からの手動実行
+CREATE OR REPLACE FUNCTION run_approval_reminders(p_organization_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = p_organization_id
+      AND user_id = auth.uid()
+      AND role IN ('owner', 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to run approval reminders';
+  END IF;
+
+  RETURN process_approval_reminders(p_organization_id, now());
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reminder_rule_targets_step(text[], jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reminder_recipients(uuid, boolean) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION process_approval_reminders(uuid, timestamptz) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION run_approval_reminders(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION jp_national_holidays(integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_business_day(date, boolean, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION count_business_days(date, date, boolean, boolean) TO authenticated;
+
+-- 毎時0分に実行する（pg_cron がない環境では手動実行のみ）
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule('approval-reminders', '0 * * * *', 'SELECT public.process_approval_reminders()');
+  ELSE
+    RAISE NOTICE 'pg_cron is not available; approval reminders must be run manually';
+  END IF;
+END;
+$$;
@@ -0,0 +1,281 @@
+/*
+  # 組織の休業日
+
+  1. Functions
+    - `organization_closure_dates(organization_id, from, to)` - 期間内の組織の休業日（年末年始・お盆など）
+    - `is_organization_business_day(organization_id, date, exclude_weekends, exclude_holidays)` - 組織の休業日を含めて営業日か
+    - `count_organization_business_days(organization_id, from, to, exclude_weekends, exclude_holidays)` - from の翌日から to までの営業日数
+    - `process_approval_reminders` - 組織の休業日は通知せず、経過日数にも含めない
+
+  2. Notes
+    - 休業日は `organizations.settings.closures` に保存する
+      （{ name, startDate, endDate, recurring }。recurring の場合は MM-DD で毎年繰り返し、終了日が開始日より前なら翌年まで）
+    - 休業日は祝日を除外する設定の場合に適用する（src/lib/holidays.ts と同じ規則）
+
+  3. Security
+    - 休業日の参照は組織の設定と同じく組織メンバーのみ
+*/
+
+CREATE OR REPLACE FUNCTION organization_closure_dates(p_organization_id uuid, p_from date, p_to date)
+RETURNS TABLE (closure_date date, name text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH closures AS (
+    SELECT
+      COALESCE(c->>'name', '休業日') AS name,
+      c->>'startDate' AS start_text,
+      c->>'endDate' AS end_text,
+      COALESCE((c->>'recurring')::boolean, false) AS recurring
+    FROM organizations o
+    CROSS JOIN LATERAL jsonb_array_elements(
+      CASE WHEN jsonb_typeof(o.settings->'closures') = 'array' THEN o.settings->'closures' ELSE '[]'::jsonb END
+    ) AS c
+    WHERE o.id = p_organization_id
+  ),
+  ranges AS (
+    -- 毎年繰り返す休業日は前年から始まる期間も含める（年末年始が年をまたぐため）
+    SELECT
+      closures.name,
+      make_date(year, split_part(start_text, '-', 1)::integer, 1) + (split_part(start_text, '-', 2)::integer - 1) AS start_date,
+      make_date(
+        CASE WHEN end_text < start_text THEN year + 1 ELSE year END,
+        split_part(end_text, '-', 1)::integer,
+        1
+      ) + (split_part(end_text, '-', 2)::integer - 1) AS end_date
+    FROM closures
+    CROSS JOIN generate_series(extract(year FROM p_from)::integer - 1, extract(year FROM p_to)::integer) AS year
+    WHERE recurring
+    UNION ALL
+    SELECT closures.name, start_text::date, GREATEST(start_text::date, end_text::date)
+    FROM closures
+    WHERE NOT recurring
+  )
+  SELECT day::date, ranges.name
+  FROM ranges
+  CROSS JOIN LATERAL generate_series(ranges.start_date, ranges.end_date, interval '1 day') AS day
+  WHERE day::date BETWEEN p_from AND p_to
+    AND (
+      auth.uid() IS NULL
+      OR EXISTS (
+        SELECT 1 FROM organization_members
+        WHERE organization_id = p_organization_id AND user_id = auth.uid()
+      )
+    )
+  ORDER BY 1;
+$$;
+
+CREATE OR REPLACE FUNCTION is_organization_business_day(
+  p_organization_id uuid,
+  p_date date,
+  p_exclude_weekends boolean DEFAULT true,
+  p_exclude_holidays boolean DEFAULT true
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT is_business_day(p_date, p_exclude_weekends, p_exclude_holidays)
+    AND NOT (p_exclude_holidays AND EXISTS (
+      SELECT 1 FROM organization_closure_dates(p_organization_id, p_date, p_date)
+    ));
+$$;
+
+CREATE OR REPLACE FUNCTION count_organization_business_days(
+  p_organization_id uuid,
+  p_from date,
+  p_to date,
+  p_exclude_weekends boolean DEFAULT true,
+  p_exclude_holidays boolean DEFAULT true
+)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT count(*)::integer
+  FROM generate_series(p_from + 1, p_to, interval '1 day') AS day
+  WHERE NOT (p_exclude_weekends AND extract(isodow FROM day) IN (6, 7))
+    AND NOT (p_exclude_holidays AND day::date IN (
+      SELECT h.holiday
+      FROM generate_series(extract(year FROM p_from)::integer, extract(year FROM p_to)::integer) AS year
+      CROSS JOIN LATERAL jp_national_holidays(year) h
+      UNION ALL
+      SELECT closure_date FROM organization_closure_dates(p_organization_id, p_from + 1, p_to)
+    ));
+$$;
+
+CREATE OR REPLACE FUNCTION process_approval_reminders(
+  p_organization_id uuid DEFAULT NULL,
+  p_now timestamptz DEFAULT now()
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_local timestamp := p_now AT TIME ZONE 'Asia/Tokyo';
+  v_today date := (p_now AT TIME ZONE 'Asia/Tokyo')::date;
+  v_organization record;
+  v_settings jsonb;
+  v_exclude_weekends boolean;
+  v_exclude_holidays boolean;
+  v_rule reminder_rules%ROWTYPE;
+  v_application record;
+  v_recipient record;
+  v_waiting_since date;
+  v_waiting_days integer;
+  v_last_sent_at timestamptz;
+  v_notification_id uuid;
+  v_message text;
+  v_notified boolean;
+  v_application_count integer := 0;
+  v_notification_count integer := 0;
+  v_email_count integer := 0;
+BEGIN
+  FOR v_organization IN
+    SELECT o.id, COALESCE(o.settings -> 'reminders', '{}'::jsonb) AS settings
+    FROM organizations o
+    WHERE (p_organization_id IS NULL OR o.id = p_organization_id)
+      AND EXISTS (SELECT 1 FROM reminder_rules r WHERE r.organization_id = o.id AND r.enabled)
+  LOOP
+    v_settings := v_organization.settings;
+    CONTINUE WHEN NOT COALESCE((v_settings->>'enabled')::boolean, true);
+
+    v_exclude_weekends := COALESCE((v_settings->>'excludeWeekends')::boolean, true);
+    v_exclude_holidays := COALESCE((v_settings->>'excludeHolidays')::boolean, true);
+
+    -- 休日・組織の休業日・営業時間外は通知しない（営業日・営業時間内の次回実行で通知する）
+    CONTINUE WHEN NOT is_organization_business_day(v_organization.id, v_today, v_exclude_weekends, v_exclude_holidays);
+    IF COALESCE((v_settings->>'businessHoursOnly')::boolean, true) THEN
+      CONTINUE WHEN v_local::time < COALESCE(NULLIF(v_settings->>'startTime', '')::time, '09:00'::time)
+        OR v_local::time >= COALESCE(NULLIF(v_settings->>'endTime', '')::time, '18:00'::time);
+    END IF;
+
+    FOR v_rule IN
+      SELECT * FROM reminder_rules
+      WHERE organization_id = v_organization.id AND enabled
+      ORDER BY trigger_days, created_at
+    LOOP
+      FOR v_application IN
+        SELECT
+          a.id,
+          a.title,
+          a.type,
+          COALESCE(a.total_amount, 0) AS total_amount,
+          COALESCE(a.current_step, 1) AS step,
+          a.approval_steps -> (COALESCE(a.current_step, 1) - 1) AS step_definition,
+          -- 現在のステップで承認待ちになった日時（前のステップの承認日時、なければ提出日時）
+          GREATEST(a.submitted_at, (
+            SELECT max(aa.approved_at) FROM application_approvals aa
+            WHERE aa.application_id = a.id AND aa.status = 'approved'
+          )) AS waiting_since,
+          p.full_name AS applicant_name
+        FROM applications a
+        LEFT JOIN user_profiles p ON p.id = a.user_id
+        WHERE a.organization_id = v_organization.id
+          AND a.status = 'pending'
+          AND a.submitted_at IS NOT NULL
+      LOOP
+        CONTINUE WHEN NOT reminder_rule_targets_step(v_rule.target_roles, v_application.step_definition);
+
+        v_waiting_since := (v_application.waiting_since AT TIME ZONE 'Asia/Tokyo')::date;
+        v_waiting_days := CASE WHEN v_exclude_weekends OR v_exclude_holidays
+          THEN count_organization_business_days(v_organization.id, v_waiting_since, v_today, v_exclude_weekends, v_exclude_holidays)
+          ELSE v_today - v_waiting_since
+        END;
+        CONTINUE WHEN v_waiting_days < v_rule.trigger_days;
+
+        -- 同じステップへの通知は再通知の間隔を空ける（間隔0は1回のみ）
+        SELECT max(sent_at) INTO v_last_sent_at
+        FROM reminder_deliveries
+        WHERE rule_id = v_rule.id AND application_id = v_application.id AND step = v_application.step;
+
+        IF v_last_sent_at IS NOT NULL THEN
+          CONTINUE WHEN v_rule.repeat_interval = 0;
+          CONTINUE WHEN (CASE WHEN v_exclude_weekends OR v_exclude_holidays
+            THEN count_organization_business_days(v_organization.id, (v_last_sent_at AT TIME ZONE 'Asia/Tokyo')::date, v_today, v_exclude_weekends, v_exclude_holidays)
+            ELSE v_today - (v_last_sent_at AT TIME ZONE 'Asia/Tokyo')::date
+          END) < v_rule.repeat_interval;
+        END IF;
+
+        v_message := concat_ws(
+          E'\n',
+          NULLIF(trim(v_rule.custom_message), ''),
+          format(
+            '申請「%s」（%s・¥%s）が%s日間承認待ちです。',
+            v_application.title,
+            COALESCE(v_application.applicant_name, '申請者'),
+            to_char(v_application.total_amount, 'FM999,999,999,990'),
+            v_waiting_days
+          )
+        );
+
+        v_notified := false;
+        FOR v_recipient IN SELECT * FROM reminder_recipients(v_application.id, v_rule.escalate) LOOP
+          INSERT INTO notifications (user_id, type, title, message, data)
+          VALUES (
+            v_recipient.user_id,
+            'reminder',
+            CASE WHEN v_recipient.escalation THEN '【エスカレーション】承認待ちの申請があります' ELSE '承認待ちの申請があります' END,
+            v_message,
+            jsonb_build_object(
+              'application_id', v_application.id,
+              'application_type', v_application.type,
+              'rule_id', v_rule.id,
+              'step', v_application.step,
+              'waiting_days', v_waiting_days,
+              'escalation', v_recipient.escalation
+            )
+          )
+          RETURNING id INTO v_notification_id;
+          v_notification_count := v_notification_count + 1;
+
+          IF 'email' = ANY (v_rule.notification_methods) AND NULLIF(trim(v_recipient.email), '') IS NOT NULL THEN
+            INSERT INTO email_jobs (organization_id, user_id, to_email, template, variables)
+            VALUES (
+              v_organization.id,
+              v_recipient.user_id,
+              v_recipient.email,
+              'approval_reminder',
+              jsonb_build_object(
+                'application_id', v_application.id,
+                'application_type', v_application.type,
+                'title', v_application.title,
+                'applicant', COALESCE(v_application.applicant_name, ''),
+                'amount', v_application.total_amount,
+                'waiting_days', v_waiting_days,
+                'message', v_rule.custom_message,
+                'escalation', v_recipient.escalation
+              )
+            );
+            v_email_count := v_email_count + 1;
+          END IF;
+
+          INSERT INTO reminder_deliveries (rule_id, application_id, step, recipient_id, escalation, notification_id, sent_at)
+          VALUES (v_rule.id, v_application.id, v_application.step, v_recipient.user_id, v_recipient.escalation, v_notification_id, p_now);
+          v_notified := true;
+        END LOOP;
+
+        IF v_notified THEN
+          v_application_count := v_application_count + 1;
+        END IF;
+      END LOOP;
+    END LOOP;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'applications', v_application_count,
+    'notifications', v_notification_count,
+    'emails', v_email_count
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION organization_closure_dates(uuid, date, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_organization_business_day(uuid, date, boolean, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION count_organization_business_days(uuid, date, date, boolean, boolean) TO authenticated;
@@ -0,0 +1,320 @@
+/*
+  # メール通知の配信
+
+  1. New Tables
+    - `notification_preferences`
+      - `user_id` (uuid, primary key) - ユーザーID
+      - `email_enabled` (boolean) - メール通知の有効/無効
+      - `push_enabled` (boolean) - プッシュ通知の有効/無効
+      - `email_events` (text[]) - メールで受け取るイベント
+      - `quiet_hours_enabled` (boolean) - 通知停止時間帯の有効/無効
+      - `quiet_hours_start`, `quiet_hours_end` (time) - 通知停止時間帯（日本時間。開始が終了より後なら日をまたぐ）
+      - `updated_at` (timestamptz)
+
+  2. Changes
+    - `email_jobs.locked_until` - 送信処理中のジョブのロック期限（期限切れは再取得する）
+    - `email_jobs` 登録時に送信先ユーザーの通知設定を適用する
+      （メール通知が無効・対象外のイベントは cancelled、通知停止時間帯は終了時刻まで送信を遅らせる）
+
+  3. Functions
+    - `notify_user(user_id, event, title, message, variables, organization_id)` - アプリ内通知とメール送信ジョブを作成する
+    - 申請の提出・承認ステップの進行で承認者に承認依頼、承認・却下・差し戻しで申請者に通知する
+    - 会計連携の送信ジョブが要対応（error）になったら組織のオーナー・管理者に通知する
+    - `claim_email_jobs(limit)` - 送信期限の来たジョブを取得し送信中にする（配信処理用）
+
+  4. Notes
+    - イベント: approval_request（承認依頼）/ application_approved（承認）/ application_rejected（却下）/
+      application_returned（差し戻し）/ approval_reminder（承認リマインド）/ accounting_error（会計連携エラー）
+    - メールの本文は送信時に supabase/functions/_shared/emailTemplates.ts のテンプレートで作成する
+    - 通知設定が未登録のユーザーはすべてのイベントをメールで受け取る
+
+  5. Security
+    - 通知設定は本人のみ閲覧・変更可能
+    - `notify_user` と `claim_email_jobs` はクライアントから実行できない
+*/
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email_enabled boolean NOT NULL DEFAULT true,
+  push_enabled boolean NOT NULL DEFAULT true,
+  email_events text[] NOT NULL DEFAULT ARRAY[
+    'approval_request', 'application_approved', 'application_rejected',
+    'application_returned', 'approval_reminder', 'accounting_error'
+  ],
+  quiet_hours_enabled boolean NOT NULL DEFAULT false,
+  quiet_hours_start time NOT NULL DEFAULT '22:00',
+  quiet_hours_end time NOT NULL DEFAULT '08:00',
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE email_jobs ADD COLUMN IF NOT EXISTS locked_until timestamptz;
+
+-- RLS有効化
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own notification preferences"
+  ON notification_preferences
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP TRIGGER IF EXISTS handle_notification_preferences_updated_at ON notification_preferences;
+CREATE TRIGGER handle_notification_preferences_updated_at
+  BEFORE UPDATE ON notification_preferences
+  FOR EACH ROW EXECUTE PROCEDURE handle_updated_at();
+
+-- 送信先ユーザーの通知設定を適用する
+CREATE OR REPLACE FUNCTION apply_email_preferences()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_preferences notification_preferences%ROWTYPE;
+  v_local timestamp;
+  v_resume_date date;
+BEGIN
+  IF NEW.user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_preferences FROM notification_preferences WHERE user_id = NEW.user_id;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT v_preferences.email_enabled OR NOT (NEW.template = ANY (v_preferences.email_events)) THEN
+    NEW.status := 'cancelled';
+    NEW.last_error := '通知設定によりメールを送信しません';
+    RETURN NEW;
+  END IF;
+
+  IF v_preferences.quiet_hours_enabled AND v_preferences.quiet_hours_start <> v_preferences.quiet_hours_end THEN
+    v_local := COALESCE(NEW.scheduled_at, now()) AT TIME ZONE 'Asia/Tokyo';
+
+    IF v_preferences.quiet_hours_start < v_preferences.quiet_hours_end THEN
+      IF v_local::time >= v_preferences.quiet_hours_start AND v_local::time < v_preferences.quiet_hours_end THEN
+        v_resume_date := v_local::date;
+      END IF;
+    ELSIF v_local::time >= v_preferences.quiet_hours_start THEN
+      v_resume_date := v_local::date + 1;
+    ELSIF v_local::time < v_preferences.quiet_hours_end THEN
+      v_resume_date := v_local::date;
+    END IF;
+
+    IF v_resume_date IS NOT NULL THEN
+      NEW.scheduled_at := (v_resume_date + v_preferences.quiet_hours_end) AT TIME ZONE 'Asia/Tokyo';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_email_preferences ON email_jobs;
+CREATE TRIGGER apply_email_preferences
+  BEFORE INSERT ON email_jobs
+  FOR EACH ROW EXECUTE PROCEDURE apply_email_preferences();
+
+CREATE OR REPLACE FUNCTION notify_user(
+  p_user_id uuid,
+  p_event text,
+  p_title text,
+  p_message text,
+  p_variables jsonb DEFAULT '{}'::jsonb,
+  p_organization_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_notification_id uuid;
+  v_email text;
+BEGIN
+  INSERT INTO notifications (user_id, type, title, message, data)
+  VALUES (
+    p_user_id,
+    CASE p_event
+      WHEN 'approval_request' THEN 'approval'
+      WHEN 'application_approved' THEN 'approval'
+      WHEN 'approval_reminder' THEN 'reminder'
+      WHEN 'accounting_error' THEN 'system'
+      ELSE 'update'
+    END,
+    p_title,
+    p_message,
+    p_variables || jsonb_build_object('event', p_event)
+  )
+  RETURNING id INTO v_notification_id;
+
+  SELECT email INTO v_email FROM user_profiles WHERE id = p_user_id;
+  IF NULLIF(trim(v_email), '') IS NOT NULL THEN
+    INSERT INTO email_jobs (organization_id, user_id, to_email, template, variables)
+    VALUES (p_organization_id, p_user_id, v_email, p_event, p_variables);
+  END IF;
+
+  RETURN v_notification_id;
+END;
+$$;
+
+-- 申請の状態変化を申請者・承認者に通知する
+CREATE OR REPLACE FUNCTION handle_application_notifications()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_variables jsonb;
+  v_approver record;
+  v_actor_name text;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND OLD.status IS NOT DISTINCT FROM NEW.status
+    AND OLD.current_step IS NOT DISTINCT FROM NEW.current_step THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT full_name INTO v_actor_name FROM user_profiles WHERE id = auth.uid();
+
+  v_variables := jsonb_build_object(
+    'application_id', NEW.id,
+    'application_type', NEW.type,
+    'title', NEW.title,
+    'applicant', COALESCE((SELECT full_name FROM user_profiles WHERE id = NEW.user_id), ''),
+    'amount', COALESCE(NEW.total_amount, 0),
+    'actor', COALESCE(v_actor_name, ''),
+    'reason', COALESCE(NEW.rejection_reason, '')
+  );
+
+  IF NEW.status = 'pending' THEN
+    -- 提出時と承認ステップが進んだときは、現在のステップの承認者に承認依頼を送る
+    IF NEW.organization_id IS NULL THEN
+      RETURN NEW;
+    END IF;
+
+    FOR v_approver IN
+      SELECT m.user_id FROM organization_members m
+      WHERE m.organization_id = NEW.organization_id
+        AND can_approve_application(NEW.id, m.user_id)
+    LOOP
+      PERFORM notify_user(
+        v_approver.user_id,
+        'approval_request',
+        '承認依頼が届きました',
+        format('%sさんの申請「%s」の承認をお願いします。', v_variables->>'applicant', NEW.title),
+        v_variables || jsonb_build_object('step', COALESCE(NEW.current_step, 1)),
+        NEW.organization_id
+      );
+    END LOOP;
+  ELSIF TG_OP = 'UPDATE' AND NEW.status = 'approved' THEN
+    PERFORM notify_user(
+      NEW.user_id,
+      'application_approved',
+      '申請が承認されました',
+      format('申請「%s」が承認されました。', NEW.title),
+      v_variables,
+      NEW.organization_id
+    );
+  ELSIF TG_OP = 'UPDATE' AND NEW.status = 'rejected' THEN
+    PERFORM notify_user(
+      NEW.user_id,
+      'application_rejected',
+      '申請が却下されました',
+      format('申請「%s」が却下されました。%s', NEW.title, COALESCE('理由: ' || NULLIF(NEW.rejection_reason, ''), '')),
+      v_variables,
+      NEW.organization_id
+    );
+  ELSIF TG_OP = 'UPDATE' AND NEW.status = 'returned' THEN
+    PERFORM notify_user(
+      NEW.user_id,
+      'application_returned',
+      '申請が差し戻されました',
+      format('申請「%s」が差し戻されました。内容を修正して再提出してください。', NEW.title),
+      v_variables,
+      NEW.organization_id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS handle_application_notifications ON applications;
+CREATE TRIGGER handle_application_notifications
+  AFTER INSERT OR UPDATE OF status, current_step ON applications
+  FOR EACH ROW EXECUTE PROCEDURE handle_application_notifications();
+
+-- 会計連携の送信が要対応になったら組織のオーナー・管理者に通知する
+CREATE OR REPLACE FUNCTION handle_accounting_sync_error_notifications()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_admin record;
+BEGIN
+  IF NEW.status <> 'error' OR OLD.status = 'error' THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_admin IN
+    SELECT user_id FROM organization_members
+    WHERE organization_id = NEW.organization_id AND role IN ('owner', 'admin')
+  LOOP
+    PERFORM notify_user(
+      v_admin.user_id,
+      'accounting_error',
+      '会計連携でエラーが発生しました',
+      format('申請「%s」の%s連携が失敗しました。%s', COALESCE(NEW.application_title, ''), NEW.provider, COALESCE(NEW.error_message, '')),
+      jsonb_build_object(
+        'application_id', NEW.application_id,
+        'title', COALESCE(NEW.application_title, ''),
+        'amount', COALESCE(NEW.amount, 0),
+        'provider', NEW.provider,
+        'job_id', NEW.id,
+        'error', COALESCE(NEW.error_message, NEW.error_code, '')
+      ),
+      NEW.organization_id
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS handle_accounting_sync_error_notifications ON accounting_sync_jobs;
+CREATE TRIGGER handle_accounting_sync_error_notifications
+  AFTER UPDATE OF status ON accounting_sync_jobs
+  FOR EACH ROW EXECUTE PROCEDURE handle_accounting_sync_error_notifications();
+
+-- 送信期限の来たジョブを取得する（同時に実行されても同じジョブを取得しない）
+CREATE OR REPLACE FUNCTION claim_email_jobs(p_limit integer DEFAULT 20)
+RETURNS SETOF email_jobs
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE email_jobs
+  SET status = 'sending',
+      attempt_count = attempt_count + 1,
+      locked_until = now() + interval '5 minutes'
+  WHERE id IN (
+    SELECT id FROM email_jobs
+    WHERE (status = 'pending' AND scheduled_at <= now())
+      OR (status = 'sending' AND locked_until < now())
+    ORDER BY scheduled_at
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION notify_user(uuid, text, text, text, jsonb, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_email_jobs(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_email_jobs(integer) TO service_role;
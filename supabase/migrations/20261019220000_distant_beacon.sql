@@ -0,0 +1,150 @@
+/*
+  # Web Push 通知
+
+  1. New Tables
+    - `push_subscriptions`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid) - ユーザーID
+      - `endpoint` (text, unique) - プッシュサービスのエンドポイント（端末・ブラウザごと）
+      - `p256dh`, `auth` (text) - 暗号化用の鍵
+      - `user_agent` (text) - 登録した端末の識別用
+      - `created_at`, `last_used_at` (timestamptz)
+    - `push_jobs`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid) - 送信先ユーザー
+      - `notification_id` (uuid) - 元のアプリ内通知
+      - `payload` (jsonb) - 通知の内容（title / body / url / tag）
+      - `status` (text) - pending（送信待ち）/ sending（送信中）/ sent（送信済み）/ failed（失敗）
+      - `attempt_count` (integer), `last_error` (text)
+      - `scheduled_at`, `locked_until`, `sent_at`, `created_at` (timestamptz)
+
+  2. Functions
+    - アプリ内通知の作成時に、プッシュ通知が有効で端末を登録しているユーザーの送信ジョブを作成する
+    - `claim_push_jobs(limit)` - 送信期限の来たジョブを取得し送信中にする（配信処理用）
+
+  3. Notes
+    - url は通知をクリックしたときに開く画面（承認依頼・リマインドは承認画面、承認結果は申請詳細）
+    - 送信は supabase/functions/send-push-jobs が VAPID の鍵で行う
+
+  4. Security
+    - 端末の登録は本人のみ閲覧・登録・削除可能
+    - 送信ジョブはクライアントから参照できない
+*/
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  endpoint text NOT NULL UNIQUE,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  user_agent text,
+  created_at timestamptz DEFAULT now(),
+  last_used_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS push_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  notification_id uuid REFERENCES notifications(id) ON DELETE CASCADE,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempt_count integer NOT NULL DEFAULT 0,
+  last_error text,
+  scheduled_at timestamptz DEFAULT now(),
+  locked_until timestamptz,
+  sent_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON push_subscriptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_push_jobs_due ON push_jobs(status, scheduled_at);
+
+-- RLS有効化
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE push_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own push subscriptions"
+  ON push_subscriptions
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- 通知をクリックしたときに開く画面（Dashboard の ?application= / ?view= で表示する）
+CREATE OR REPLACE FUNCTION notification_push_url(p_type text, p_data jsonb)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_data->>'event' = 'accounting_error' THEN
+      '/?view=accounting-error' || COALESCE('&job=' || (p_data->>'job_id'), '')
+    WHEN p_data->>'application_id' IS NULL THEN '/'
+    WHEN p_type = 'reminder' OR p_data->>'event' = 'approval_request' THEN
+      '/?application=' || (p_data->>'application_id')
+    ELSE
+      '/?application=' || (p_data->>'application_id')
+        || '&detail=' || CASE WHEN p_data->>'application_type' = 'expense' THEN 'expense' ELSE 'business-trip' END
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION handle_notification_push()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT COALESCE((SELECT push_enabled FROM notification_preferences WHERE user_id = NEW.user_id), true) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM push_subscriptions WHERE user_id = NEW.user_id) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO push_jobs (user_id, notification_id, payload)
+  VALUES (
+    NEW.user_id,
+    NEW.id,
+    jsonb_build_object(
+      'title', NEW.title,
+      'body', NEW.message,
+      'url', notification_push_url(NEW.type, COALESCE(NEW.data, '{}'::jsonb)),
+      'tag', NEW.id
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS handle_notification_push ON notifications;
+CREATE TRIGGER handle_notification_push
+  AFTER INSERT ON notifications
+  FOR EACH ROW EXECUTE PROCEDURE handle_notification_push();
+
+-- 送信期限の来たジョブを取得する（同時に実行されても同じジョブを取得しない）
+CREATE OR REPLACE FUNCTION claim_push_jobs(p_limit integer DEFAULT 50)
+RETURNS SETOF push_jobs
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE push_jobs
+  SET status = 'sending',
+      attempt_count = attempt_count + 1,
+      locked_until = now() + interval '5 minutes'
+  WHERE id IN (
+    SELECT id FROM push_jobs
+    WHERE (status = 'pending' AND scheduled_at <= now())
+      OR (status = 'sending' AND locked_until < now())
+    ORDER BY scheduled_at
+    LIMIT LEAST(GREATEST(p_limit, 1), 200)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_push_jobs(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_push_jobs(integer) TO service_role;
@@ -0,0 +1,156 @@
+/*
+  # 通知履歴の保存と保存期間
+
+  1. Changes
+    - `notifications`
+      - `organization_id` (uuid) - 通知の対象組織（保存期間の判定に使う）
+      - 登録時に組織と通知イベント（data.event）を補完する
+      - 履歴の絞り込み・ページ送り用のインデックスを追加
+
+  2. Functions
+    - `notification_organization_id(user_id, data)` - 通知の組織（申請・会計連携ジョブ・ユーザーの既定組織の順）
+    - `mark_all_notifications_read()` - 自分の未読通知をすべて既読にし、件数を返す
+    - `notification_retention_days(settings)` - 組織設定の保存期間（日数、0は無期限）
+    - `purge_expired_notifications(organization_id, now)` - 保存期間を過ぎた通知を削除し、件数を返す
+
+  3. Notes
+    - 保存期間は organizations.settings.notificationRetentionDays（未設定は365日、0は無期限）
+    - 既読・未読にかかわらず、作成日時から保存期間を過ぎた通知を削除する
+    - 組織を特定できない通知は削除しない
+    - pg_cron が利用できる環境では毎日3時（日本時間）に実行する
+
+  4. Security
+    - 通知の閲覧・既読・削除は従来どおり本人のみ
+    - 通知の削除処理は service_role（定期実行）のみ実行可能
+*/
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_type ON notifications (user_id, type);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON notifications (user_id) WHERE read = false;
+CREATE INDEX IF NOT EXISTS idx_notifications_organization_created ON notifications (organization_id, created_at);
+
+CREATE OR REPLACE FUNCTION notification_organization_id(p_user_id uuid, p_data jsonb)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT a.organization_id FROM applications a WHERE a.id::text = p_data->>'application_id'),
+    (SELECT j.organization_id FROM accounting_sync_jobs j WHERE j.id::text = p_data->>'job_id'),
+    (SELECT p.default_organization_id FROM user_profiles p WHERE p.id = p_user_id)
+  );
+$$;
+
+-- 組織と通知イベントを補完する（リマインドは data.event を持たないため種別から決める）
+CREATE OR REPLACE FUNCTION prepare_notification()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.data := COALESCE(NEW.data, '{}'::jsonb);
+  IF NEW.data->>'event' IS NULL AND NEW.type = 'reminder' THEN
+    NEW.data := NEW.data || jsonb_build_object('event', 'approval_reminder');
+  END IF;
+  IF NEW.organization_id IS NULL THEN
+    NEW.organization_id := notification_organization_id(NEW.user_id, NEW.data);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prepare_notification ON notifications;
+CREATE TRIGGER prepare_notification
+  BEFORE INSERT ON notifications
+  FOR EACH ROW EXECUTE PROCEDURE prepare_notification();
+
+-- 既存の通知を補完する
+UPDATE notifications
+SET data = COALESCE(data, '{}'::jsonb) || jsonb_build_object('event', 'approval_reminder')
+WHERE type = 'reminder' AND (data IS NULL OR data->>'event' IS NULL);
+
+UPDATE notifications
+SET organization_id = notification_organization_id(user_id, COALESCE(data, '{}'::jsonb))
+WHERE organization_id IS NULL;
+
+CREATE OR REPLACE FUNCTION mark_all_notifications_read()
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- read_at は handle_notification_read トリガーで設定される
+  UPDATE notifications
+  SET read = true
+  WHERE user_id = auth.uid()
+    AND read = false;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notification_retention_days(p_settings jsonb)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(p_settings->'notificationRetentionDays') = 'number'
+      AND (p_settings->>'notificationRetentionDays')::numeric >= 0
+      THEN floor((p_settings->>'notificationRetentionDays')::numeric)::integer
+    ELSE 365
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION purge_expired_notifications(
+  p_organization_id uuid DEFAULT NULL,
+  p_now timestamptz DEFAULT now()
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  DELETE FROM notifications n
+  USING organizations o
+  WHERE n.organization_id = o.id
+    AND (p_organization_id IS NULL OR o.id = p_organization_id)
+    AND notification_retention_days(o.settings) > 0
+    AND n.created_at < p_now - make_interval(days => notification_retention_days(o.settings));
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION notification_organization_id(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION purge_expired_notifications(uuid, timestamptz) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION mark_all_notifications_read() TO authenticated;
+
+-- 毎日3時（日本時間）に実行する（pg_cron がない環境では手動実行のみ）
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule('purge-expired-notifications', '0 18 * * *', 'SELECT public.purge_expired_notifications()');
+  ELSE
+    RAISE NOTICE 'pg_cron is not available; expired notifications must be purged manually';
+  END IF;
+END;
+$$;
@@ -0,0 +1,548 @@
+/*
+  # 組織管理（招待・メンバーの役割・組織の切り替え）
+
+  1. New Tables
+    - `organization_invitations`
+      - `id` (uuid, primary key)
+      - `organization_id` (uuid) - 招待先の組織
+      - `email` (text) - 招待するメールアドレス
+      - `role` (text) - 参加時の役割（admin / manager / member）
+      - `token` (text) - 招待リンクのトークン
+      - `invited_by` (uuid) - 招待したユーザー
+      - `expires_at` (timestamptz) - 有効期限（7日）
+      - `accepted_at` / `accepted_by` - 参加日時と参加したユーザー
+      - `revoked_at` (timestamptz) - 取り消し日時
+      - `created_at` (timestamptz) - 作成日時
+
+  2. Functions
+    - `current_user_organization_ids()` / `current_user_admin_organization_ids()` - RLS 用（所属組織・管理者の組織）
+    - `create_organization(name, description)` - 組織を作成し、作成者をオーナーにする
+    - `get_my_organizations()` - 所属組織と役割の一覧
+    - `get_organization_members(organization_id)` - メンバーと氏名・メールアドレスの一覧
+    - `invite_organization_member(organization_id, email, role)` - 招待を作成し、招待メールを送信キューに登録する
+    - `revoke_organization_invitation(invitation_id)` - 招待を取り消す
+    - `get_organization_invitation(token)` / `accept_organization_invitation(token)` - 招待の確認と参加
+    - `update_organization_member_role(organization_id, user_id, role)` - 役割の変更
+    - `remove_organization_member(organization_id, user_id)` - メンバーの削除（本人の場合は退会）
+    - `transfer_organization_ownership(organization_id, user_id)` - オーナーの移譲（元のオーナーは管理者になる）
+    - `switch_organization(organization_id)` - 既定の組織（user_profiles.default_organization_id）を切り替える
+
+  3. Notes
+    - 組織メンバーの追加・変更・削除はすべて関数経由で行う
+    - 管理者の任命・解任と管理者の削除はオーナーのみ可能
+    - 招待はログイン中のメールアドレスと招待先のメールアドレスが一致する場合のみ受け付ける
+    - organization_members の RLS が自身を参照して再帰していたため、所属判定を関数に置き換える
+
+  4. Security
+    - 招待は組織のオーナー・管理者のみ閲覧・作成可能
+    - メンバー一覧は同じ組織のメンバーのみ閲覧可能
+*/
+
+-- RLS から参照するため SECURITY DEFINER で organization_members の RLS を通さずに判定する
+CREATE OR REPLACE FUNCTION current_user_organization_ids()
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT organization_id FROM organization_members WHERE user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION current_user_admin_organization_ids()
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT organization_id FROM organization_members
+  WHERE user_id = auth.uid() AND role IN ('owner', 'admin');
+$$;
+
+DROP POLICY IF EXISTS "Users can read organizations they belong to" ON organizations;
+CREATE POLICY "Users can read organizations they belong to"
+  ON organizations
+  FOR SELECT
+  TO authenticated
+  USING (id IN (SELECT current_user_organization_ids()));
+
+DROP POLICY IF EXISTS "Users can read organization members of their organizations" ON organization_members;
+CREATE POLICY "Users can read organization members of their organizations"
+  ON organization_members
+  FOR SELECT
+  TO authenticated
+  USING (organization_id IN (SELECT current_user_organization_ids()));
+
+-- 役割の変更は関数で権限を確認してから行う
+DROP POLICY IF EXISTS "Organization owners and admins can manage members" ON organization_members;
+
+CREATE TABLE IF NOT EXISTS organization_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  email text NOT NULL CHECK (email = lower(trim(email)) AND email <> ''),
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'manager', 'member')),
+  token text NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '7 days',
+  accepted_at timestamptz,
+  accepted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  revoked_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- 同じメールアドレスへの未処理の招待は1件まで
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_invitations_open
+  ON organization_invitations (organization_id, email)
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+ALTER TABLE organization_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Organization admins can read invitations"
+  ON organization_invitations
+  FOR SELECT
+  TO authenticated
+  USING (organization_id IN (SELECT current_user_admin_organization_ids()));
+
+CREATE OR REPLACE FUNCTION organization_member_role(p_organization_id uuid, p_user_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM organization_members
+  WHERE organization_id = p_organization_id AND user_id = p_user_id;
+$$;
+
+CREATE OR REPLACE FUNCTION create_organization(p_name text, p_description text DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_organization_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF NULLIF(trim(p_name), '') IS NULL THEN
+    RAISE EXCEPTION 'Organization name is required';
+  END IF;
+
+  INSERT INTO organizations (name, description, owner_id)
+  VALUES (trim(p_name), NULLIF(trim(p_description), ''), v_user_id)
+  RETURNING id INTO v_organization_id;
+
+  INSERT INTO organization_members (organization_id, user_id, role)
+  VALUES (v_organization_id, v_user_id, 'owner');
+
+  UPDATE user_profiles SET default_organization_id = v_organization_id WHERE id = v_user_id;
+
+  RETURN v_organization_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_my_organizations()
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  role text,
+  joined_at timestamptz,
+  member_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT o.id, o.name, o.description, m.role, m.joined_at,
+    (SELECT count(*) FROM organization_members c WHERE c.organization_id = o.id)
+  FROM organization_members m
+  JOIN organizations o ON o.id = m.organization_id
+  WHERE m.user_id = auth.uid()
+  ORDER BY o.name, o.id;
+$$;
+
+CREATE OR REPLACE FUNCTION get_organization_members(p_organization_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  role text,
+  joined_at timestamptz,
+  full_name text,
+  email text,
+  department text,
+  "position" text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF organization_member_role(p_organization_id, auth.uid()) IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this organization';
+  END IF;
+
+  RETURN QUERY
+  SELECT m.user_id, m.role, m.joined_at, p.full_name, p.email, p.department, p.position
+  FROM organization_members m
+  LEFT JOIN user_profiles p ON p.id = m.user_id
+  WHERE m.organization_id = p_organization_id
+  ORDER BY
+    CASE m.role WHEN 'owner' THEN 0 WHEN 'admin' THEN 1 WHEN 'manager' THEN 2 ELSE 3 END,
+    p.full_name NULLS LAST,
+    m.joined_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION invite_organization_member(
+  p_organization_id uuid,
+  p_email text,
+  p_role text DEFAULT 'member'
+)
+RETURNS organization_invitations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_actor_role text := organization_member_role(p_organization_id, auth.uid());
+  v_email text := lower(trim(COALESCE(p_email, '')));
+  v_invitation organization_invitations;
+BEGIN
+  IF v_actor_role IS NULL OR v_actor_role NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to invite members';
+  END IF;
+
+  IF p_role NOT IN ('admin', 'manager', 'member') THEN
+    RAISE EXCEPTION 'Invalid organization role: %', p_role;
+  END IF;
+
+  IF p_role = 'admin' AND v_actor_role <> 'owner' THEN
+    RAISE EXCEPTION 'Only the owner can invite admins';
+  END IF;
+
+  IF v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Invalid email address';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM organization_members m
+    JOIN user_profiles p ON p.id = m.user_id
+    WHERE m.organization_id = p_organization_id AND lower(p.email) = v_email
+  ) THEN
+    RAISE EXCEPTION 'This user is already a member';
+  END IF;
+
+  -- 未処理の招待がある場合は取り消して新しいリンクを発行する
+  UPDATE organization_invitations
+  SET revoked_at = now()
+  WHERE organization_id = p_organization_id
+    AND email = v_email
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL;
+
+  INSERT INTO organization_invitations (organization_id, email, role, invited_by)
+  VALUES (p_organization_id, v_email, p_role, v_user_id)
+  RETURNING * INTO v_invitation;
+
+  INSERT INTO email_jobs (organization_id, user_id, to_email, template, variables)
+  SELECT
+    p_organization_id,
+    NULL,
+    v_email,
+    'organization_invitation',
+    jsonb_build_object(
+      'organization_name', o.name,
+      'inviter', COALESCE(NULLIF(p.full_name, ''), p.email, '管理者'),
+      'role', p_role,
+      'token', v_invitation.token,
+      'expires_at', to_char(v_invitation.expires_at AT TIME ZONE 'Asia/Tokyo', 'YYYY/MM/DD HH24:MI')
+    )
+  FROM organizations o
+  LEFT JOIN user_profiles p ON p.id = v_user_id
+  WHERE o.id = p_organization_id;
+
+  RETURN v_invitation;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION revoke_organization_invitation(p_invitation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE organization_invitations
+  SET revoked_at = now()
+  WHERE id = p_invitation_id
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL
+    AND organization_id IN (SELECT current_user_admin_organization_ids());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+END;
+$$;
+
+-- 招待リンクの内容（招待先のメールアドレスと一致するかどうかも返す）
+CREATE OR REPLACE FUNCTION get_organization_invitation(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation organization_invitations;
+  v_user_email text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO v_invitation FROM organization_invitations WHERE token = p_token;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT lower(email) INTO v_user_email FROM auth.users WHERE id = auth.uid();
+
+  RETURN (
+    SELECT jsonb_build_object(
+      'organization_id', o.id,
+      'organization_name', o.name,
+      'email', v_invitation.email,
+      'role', v_invitation.role,
+      'inviter', COALESCE(NULLIF(p.full_name, ''), p.email),
+      'expires_at', v_invitation.expires_at,
+      'status', CASE
+        WHEN v_invitation.accepted_at IS NOT NULL THEN 'accepted'
+        WHEN v_invitation.revoked_at IS NOT NULL THEN 'revoked'
+        WHEN v_invitation.expires_at <= now() THEN 'expired'
+        ELSE 'pending'
+      END,
+      'email_matches', v_invitation.email = v_user_email,
+      'already_member', organization_member_role(o.id, auth.uid()) IS NOT NULL
+    )
+    FROM organizations o
+    LEFT JOIN user_profiles p ON p.id = v_invitation.invited_by
+    WHERE o.id = v_invitation.organization_id
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION accept_organization_invitation(p_token text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_invitation organization_invitations;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO v_invitation FROM organization_invitations WHERE token = p_token FOR UPDATE;
+  IF NOT FOUND OR v_invitation.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  IF v_invitation.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Invitation has already been used';
+  END IF;
+
+  IF v_invitation.expires_at <= now() THEN
+    RAISE EXCEPTION 'Invitation has expired';
+  END IF;
+
+  IF v_invitation.email <> (SELECT lower(email) FROM auth.users WHERE id = v_user_id) THEN
+    RAISE EXCEPTION 'This invitation was sent to a different email address';
+  END IF;
+
+  -- 既に参加している場合は役割を変えない
+  INSERT INTO organization_members (organization_id, user_id, role)
+  VALUES (v_invitation.organization_id, v_user_id, v_invitation.role)
+  ON CONFLICT (organization_id, user_id) DO NOTHING;
+
+  UPDATE organization_invitations
+  SET accepted_at = now(), accepted_by = v_user_id
+  WHERE id = v_invitation.id;
+
+  UPDATE user_profiles SET default_organization_id = v_invitation.organization_id WHERE id = v_user_id;
+
+  RETURN v_invitation.organization_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_organization_member_role(
+  p_organization_id uuid,
+  p_user_id uuid,
+  p_role text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_role text := organization_member_role(p_organization_id, auth.uid());
+  v_current_role text := organization_member_role(p_organization_id, p_user_id);
+BEGIN
+  IF v_actor_role IS NULL OR v_actor_role NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to change member roles';
+  END IF;
+
+  IF v_current_role IS NULL THEN
+    RAISE EXCEPTION 'Member not found';
+  END IF;
+
+  IF p_role NOT IN ('admin', 'manager', 'member') THEN
+    RAISE EXCEPTION 'Invalid organization role: %', p_role;
+  END IF;
+
+  IF v_current_role = 'owner' THEN
+    RAISE EXCEPTION 'Transfer ownership before changing the owner''s role';
+  END IF;
+
+  IF (v_current_role = 'admin' OR p_role = 'admin') AND v_actor_role <> 'owner' THEN
+    RAISE EXCEPTION 'Only the owner can assign or remove admins';
+  END IF;
+
+  UPDATE organization_members
+  SET role = p_role
+  WHERE organization_id = p_organization_id AND user_id = p_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION remove_organization_member(p_organization_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_role text := organization_member_role(p_organization_id, auth.uid());
+  v_current_role text := organization_member_role(p_organization_id, p_user_id);
+BEGIN
+  IF v_current_role IS NULL THEN
+    RAISE EXCEPTION 'Member not found';
+  END IF;
+
+  IF v_current_role = 'owner' THEN
+    RAISE EXCEPTION 'The owner cannot be removed. Transfer ownership first';
+  END IF;
+
+  -- 本人の退会は役割にかかわらず可能
+  IF p_user_id <> auth.uid() THEN
+    IF v_actor_role IS NULL OR v_actor_role NOT IN ('owner', 'admin') THEN
+      RAISE EXCEPTION 'Not allowed to remove members';
+    END IF;
+    IF v_current_role = 'admin' AND v_actor_role <> 'owner' THEN
+      RAISE EXCEPTION 'Only the owner can remove admins';
+    END IF;
+  END IF;
+
+  DELETE FROM organization_members
+  WHERE organization_id = p_organization_id AND user_id = p_user_id;
+
+  -- 既定の組織だった場合は残っている組織に切り替える
+  UPDATE user_profiles
+  SET default_organization_id = (
+    SELECT organization_id FROM organization_members
+    WHERE user_id = p_user_id
+    ORDER BY joined_at
+    LIMIT 1
+  )
+  WHERE id = p_user_id AND default_organization_id = p_organization_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION transfer_organization_ownership(p_organization_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF organization_member_role(p_organization_id, v_user_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the owner can transfer ownership';
+  END IF;
+
+  IF p_user_id = v_user_id THEN
+    RAISE EXCEPTION 'You are already the owner';
+  END IF;
+
+  IF organization_member_role(p_organization_id, p_user_id) IS NULL THEN
+    RAISE EXCEPTION 'Member not found';
+  END IF;
+
+  UPDATE organization_members SET role = 'admin'
+  WHERE organization_id = p_organization_id AND user_id = v_user_id;
+
+  UPDATE organization_members SET role = 'owner'
+  WHERE organization_id = p_organization_id AND user_id = p_user_id;
+
+  UPDATE organizations SET owner_id = p_user_id WHERE id = p_organization_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION switch_organization(p_organization_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF organization_member_role(p_organization_id, auth.uid()) IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this organization';
+  END IF;
+
+  UPDATE user_profiles
+  SET default_organization_id = p_organization_id, updated_at = now()
+  WHERE id = auth.uid();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION organization_member_role(uuid, uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION current_user_organization_ids() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION current_user_admin_organization_ids() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION create_organization(text, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION get_my_organizations() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION get_organization_members(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION invite_organization_member(uuid, text, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION revoke_organization_invitation(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION get_organization_invitation(text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION accept_organization_invitation(text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION update_organization_member_role(uuid, uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION remove_organization_member(uuid, uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION transfer_organization_ownership(uuid, uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION switch_organization(uuid) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION organization_member_role(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION current_user_organization_ids() TO authenticated;
+GRANT EXECUTE ON FUNCTION current_user_admin_organization_ids() TO authenticated;
+GRANT EXECUTE ON FUNCTION create_organization(text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_my_organizations() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_organization_members(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION invite_organization_member(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_organization_invitation(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_organization_invitation(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_organization_invitation(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_organization_member_role(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION remove_organization_member(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION transfer_organization_ownership(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION switch_organization(uuid) TO authenticated;
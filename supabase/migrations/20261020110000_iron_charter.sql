@@ -0,0 +1,243 @@
+/*
+  # 組織の役割に基づく権限
+
+  1. Functions
+    - `role_has_permission(role, permission)` - 役割ごとの権限（画面の表示と RLS で共通）
+    - `has_organization_permission(organization_id, permission)` - ログイン中のユーザーが組織で権限を持つか
+    - `get_my_permissions(organization_id)` - ログイン中のユーザーの権限一覧（usePermissions で使う）
+
+  2. Permissions
+    - `view_organization_applications` - 組織の申請の閲覧（オーナー・管理者・マネージャー）
+    - `view_admin_dashboard` - 管理者ダッシュボード（オーナー・管理者）
+    - `manage_regulations` - 出張規程の作成・変更（オーナー・管理者。組織に属さない個人の規程は本人）
+    - `manage_accounting` - 会計ソフト連携の設定と送信（オーナー・管理者）
+    - `manage_organization_settings` - 承認ルート・リマインド・休業日などの組織設定（オーナー・管理者）
+    - `manage_members` - メンバーの招待・役割変更（オーナー・管理者）
+
+  3. Changes
+    - user_profiles.role / profiles.role に依存していた管理者向けポリシーを削除し、組織の役割に基づくポリシーに置き換える
+    - 組織設定（organizations.settings）は管理者も更新できるようにする（オーナーの変更はオーナーのみ）
+    - 承認ルート・出張規程・会計連携・リマインド・タグの管理ポリシーを権限の関数で判定する
+    - 承認履歴（application_approvals）の閲覧を権限の関数で判定する。クライアントからの作成・変更・削除は認めない
+
+  4. Security
+    - 承認者は従来どおり現在のステップの申請を閲覧できる（can_approve_application）
+*/
+
+CREATE OR REPLACE FUNCTION role_has_permission(p_role text, p_permission text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_permission
+    WHEN 'view_organization_applications' THEN p_role IN ('owner', 'admin', 'manager')
+    WHEN 'view_admin_dashboard' THEN p_role IN ('owner', 'admin')
+    WHEN 'manage_regulations' THEN p_role IN ('owner', 'admin')
+    WHEN 'manage_accounting' THEN p_role IN ('owner', 'admin')
+    WHEN 'manage_organization_settings' THEN p_role IN ('owner', 'admin')
+    WHEN 'manage_members' THEN p_role IN ('owner', 'admin')
+    ELSE false
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION has_organization_permission(p_organization_id uuid, p_permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(role_has_permission(organization_member_role(p_organization_id, auth.uid()), p_permission), false);
+$$;
+
+-- 組織を指定しない場合は個人の出張規程の管理のみ
+CREATE OR REPLACE FUNCTION get_my_permissions(p_organization_id uuid)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN auth.uid() IS NULL THEN ARRAY[]::text[]
+    WHEN p_organization_id IS NULL THEN ARRAY['manage_regulations']
+    ELSE ARRAY(
+      SELECT permission
+      FROM unnest(ARRAY[
+        'view_organization_applications',
+        'view_admin_dashboard',
+        'manage_regulations',
+        'manage_accounting',
+        'manage_organization_settings',
+        'manage_members'
+      ]) AS permission
+      WHERE role_has_permission(organization_member_role(p_organization_id, auth.uid()), permission)
+    )
+  END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION has_organization_permission(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION get_my_permissions(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION has_organization_permission(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_my_permissions(uuid) TO authenticated;
+
+-- 申請: プロフィールの role ではなく組織の役割で閲覧を判定する
+DROP POLICY IF EXISTS "Admins can read all applications" ON applications;
+CREATE POLICY "Organization managers can read applications"
+  ON applications
+  FOR SELECT
+  TO authenticated
+  USING (has_organization_permission(organization_id, 'view_organization_applications'));
+
+-- 承認履歴: 閲覧のみ（記録は advance_approval・外部承認リンクの関数で行う）
+-- 申請者本人、現在のステップの承認者、組織の申請を閲覧できる役割に限る
+DROP POLICY IF EXISTS "Approvers can manage approvals" ON application_approvals;
+DROP POLICY IF EXISTS "Users can read approvals for their applications" ON application_approvals;
+DROP POLICY IF EXISTS "Users can read approvals of visible applications" ON application_approvals;
+CREATE POLICY "Users can read approvals of permitted applications"
+  ON application_approvals
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM applications a
+      WHERE a.id = application_id
+        AND (a.user_id = auth.uid() OR has_organization_permission(a.organization_id, 'view_organization_applications'))
+    )
+    OR can_approve_application(application_id, auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Admins can read all profiles" ON profiles;
+
+-- 申請の一覧に申請者・承認者の氏名を表示するため
+DROP POLICY IF EXISTS "Organization managers can read member profiles" ON user_profiles;
+CREATE POLICY "Organization managers can read member profiles"
+  ON user_profiles
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members m
+      WHERE m.user_id = user_profiles.id
+        AND has_organization_permission(m.organization_id, 'view_organization_applications')
+    )
+  );
+
+-- 組織設定: 管理者も更新できる。オーナーの変更はオーナー本人（transfer_organization_ownership）のみ
+CREATE POLICY "Organization admins can update organization settings"
+  ON organizations
+  FOR UPDATE
+  TO authenticated
+  USING (has_organization_permission(id, 'manage_organization_settings'))
+  WITH CHECK (has_organization_permission(id, 'manage_organization_settings'));
+
+CREATE OR REPLACE FUNCTION protect_organization_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.owner_id IS DISTINCT FROM OLD.owner_id AND auth.uid() IS DISTINCT FROM OLD.owner_id THEN
+    RAISE EXCEPTION 'Only the owner can transfer ownership';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_organization_owner ON organizations;
+CREATE TRIGGER protect_organization_owner
+  BEFORE UPDATE OF owner_id ON organizations
+  FOR EACH ROW EXECUTE PROCEDURE protect_organization_owner();
+
+-- 出張規程
+CREATE OR REPLACE FUNCTION can_manage_travel_regulation(p_organization_id uuid, p_created_by uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_organization_id IS NULL THEN p_created_by = auth.uid()
+    ELSE has_organization_permission(p_organization_id, 'manage_regulations')
+  END;
+$$;
+
+DROP POLICY IF EXISTS "Organization admins can manage travel regulations" ON travel_regulations;
+CREATE POLICY "Organization admins can manage travel regulations"
+  ON travel_regulations
+  FOR ALL
+  TO authenticated
+  USING (has_organization_permission(organization_id, 'manage_regulations'))
+  WITH CHECK (has_organization_permission(organization_id, 'manage_regulations'));
+
+-- 承認ルート・リマインド・タグ（組織設定）
+DROP POLICY IF EXISTS "Organization admins can manage approval routes" ON approval_routes;
+CREATE POLICY "Organization admins can manage approval routes"
+  ON approval_routes
+  FOR ALL
+  TO authenticated
+  USING (has_organization_permission(organization_id, 'manage_organization_settings'))
+  WITH CHECK (has_organization_permission(organization_id, 'manage_organization_settings'));
+
+DROP POLICY IF EXISTS "Organization admins can manage reminder rules" ON reminder_rules;
+CREATE POLICY "Organization admins can manage reminder rules"
+  ON reminder_rules
+  FOR ALL
+  TO authenticated
+  USING (has_organization_permission(organization_id, 'manage_organization_settings'))
+  WITH CHECK (has_organization_permission(organization_id, 'manage_organization_settings'));
+
+DROP POLICY IF EXISTS "Organization admins can read reminder deliveries" ON reminder_deliveries;
+CREATE POLICY "Organization admins can read reminder deliveries"
+  ON reminder_deliveries
+  FOR SELECT
+  TO authenticated
+  USING (
+    rule_id IN (
+      SELECT id FROM reminder_rules
+      WHERE has_organization_permission(organization_id, 'manage_organization_settings')
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization admins can read email jobs" ON email_jobs;
+CREATE POLICY "Organization admins can read email jobs"
+  ON email_jobs
+  FOR SELECT
+  TO authenticated
+  USING (has_organization_permission(organization_id, 'manage_organization_settings'));
+
+DROP POLICY IF EXISTS "Organization admins can update application tags" ON application_tags;
+CREATE POLICY "Organization admins can update application tags"
+  ON application_tags
+  FOR UPDATE
+  TO authenticated
+  USING (has_organization_permission(organization_id, 'manage_organization_settings'));
+
+DROP POLICY IF EXISTS "Organization admins can delete application tags" ON application_tags;
+CREATE POLICY "Organization admins can delete application tags"
+  ON application_tags
+  FOR DELETE
+  TO authenticated
+  USING (has_organization_permission(organization_id, 'manage_organization_settings'));
+
+-- 会計連携
+DROP POLICY IF EXISTS "Organization admins can manage accounting sync jobs" ON accounting_sync_jobs;
+CREATE POLICY "Organization admins can manage accounting sync jobs"
+  ON accounting_sync_jobs
+  FOR ALL
+  TO authenticated
+  USING (has_organization_permission(organization_id, 'manage_accounting'))
+  WITH CHECK (has_organization_permission(organization_id, 'manage_accounting'));
+
+DROP POLICY IF EXISTS "Organization admins can record accounting sync attempts" ON accounting_sync_attempts;
+CREATE POLICY "Organization admins can record accounting sync attempts"
+  ON accounting_sync_attempts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    job_id IN (
+      SELECT id FROM accounting_sync_jobs
+      WHERE has_organization_permission(organization_id, 'manage_accounting')
+    )
+  );
@@ -0,0 +1,361 @@
+/*
+  # 申請のステータス遷移と監査履歴
+
+  1. New Tables
+    - `application_status_events` - 申請のステータス遷移の履歴（追記のみ）
+      - `action` - create / submit / approve_step / approve / reject / return / reopen / withdraw / cancel
+      - `from_status`, `to_status`, `step` - 遷移前後のステータスと承認ステップ
+      - `actor_id`, `actor_name` - 操作したユーザー（外部承認リンクの場合は承認者名）
+      - `comment` - 承認コメント・差戻し理由・取消理由など
+
+  2. Changes
+    - applications.status に `withdrawn`（取り下げ）と `cancelled`（承認後の取消）を追加
+    - applications に `withdrawn_at`, `cancelled_at`, `cancellation_reason` を追加
+
+  3. Functions
+    - `application_transition_action(from, to)` - 遷移に対応する操作（許可されない遷移は NULL）
+      - draft → pending（提出）、pending → approved / rejected / returned（承認・否認・差戻し）
+      - returned → draft（再編集）、draft / pending / returned → withdrawn（取り下げ）、approved → cancelled（取消）
+    - `transition_application(application_id, action, comment)` - 申請者による提出・再編集・取り下げと承認後の取消
+    - 遷移の検証と履歴の記録は applications のトリガーで行うため、承認の関数（record_approval_decision）を含むすべての更新に適用される
+
+  4. Security
+    - 履歴は申請を閲覧できるユーザーが閲覧できる。クライアントからの追加・変更・削除は不可
+    - 承認後の取消は申請者と `cancel_applications` 権限（オーナー・管理者）を持つユーザーのみ
+*/
+
+ALTER TABLE applications DROP CONSTRAINT IF EXISTS applications_status_check;
+ALTER TABLE applications ADD CONSTRAINT applications_status_check
+  CHECK (status IN ('draft', 'pending', 'approved', 'rejected', 'returned', 'withdrawn', 'cancelled'));
+
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS withdrawn_at timestamptz;
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS cancelled_at timestamptz;
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS cancellation_reason text;
+
+CREATE TABLE IF NOT EXISTS application_status_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid REFERENCES applications(id) ON DELETE CASCADE NOT NULL,
+  action text NOT NULL CHECK (action IN ('create', 'submit', 'approve_step', 'approve', 'reject', 'return', 'reopen', 'withdraw', 'cancel')),
+  from_status text,
+  to_status text NOT NULL,
+  step integer,
+  actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_name text,
+  comment text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS application_status_events_application_id_idx
+  ON application_status_events (application_id, created_at);
+
+ALTER TABLE application_status_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read status events of visible applications"
+  ON application_status_events
+  FOR SELECT
+  TO authenticated
+  USING (application_id IN (SELECT id FROM applications));
+
+REVOKE INSERT, UPDATE, DELETE ON application_status_events FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION prevent_application_status_event_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Application status events are immutable';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_application_status_events_update ON application_status_events;
+CREATE TRIGGER prevent_application_status_events_update
+  BEFORE UPDATE ON application_status_events
+  FOR EACH ROW EXECUTE PROCEDURE prevent_application_status_event_update();
+
+-- 承認後の取消の権限を追加する
+CREATE OR REPLACE FUNCTION role_has_permission(p_role text, p_permission text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_permission
+    WHEN 'view_organization_applications' THEN p_role IN ('owner', 'admin', 'manager')
+    WHEN 'view_admin_dashboard' THEN p_role IN ('owner', 'admin')
+    WHEN 'manage_regulations' THEN p_role IN ('owner', 'admin')
+    WHEN 'manage_accounting' THEN p_role IN ('owner', 'admin')
+    WHEN 'manage_organization_settings' THEN p_role IN ('owner', 'admin')
+    WHEN 'manage_members' THEN p_role IN ('owner', 'admin')
+    WHEN 'cancel_applications' THEN p_role IN ('owner', 'admin')
+    ELSE false
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_my_permissions(p_organization_id uuid)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN auth.uid() IS NULL THEN ARRAY[]::text[]
+    WHEN p_organization_id IS NULL THEN ARRAY['manage_regulations']
+    ELSE ARRAY(
+      SELECT permission
+      FROM unnest(ARRAY[
+        'view_organization_applications',
+        'view_admin_dashboard',
+        'manage_regulations',
+        'manage_accounting',
+        'manage_organization_settings',
+        'manage_members',
+        'cancel_applications'
+      ]) AS permission
+      WHERE role_has_permission(organization_member_role(p_organization_id, auth.uid()), permission)
+    )
+  END;
+$$;
+
+-- 遷移に対応する操作を返す（許可されない遷移は NULL）
+CREATE OR REPLACE FUNCTION application_transition_action(p_from text, p_to text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_from = 'draft' AND p_to = 'pending' THEN 'submit'
+    WHEN p_from = 'pending' AND p_to = 'approved' THEN 'approve'
+    WHEN p_from = 'pending' AND p_to = 'rejected' THEN 'reject'
+    WHEN p_from = 'pending' AND p_to = 'returned' THEN 'return'
+    WHEN p_from = 'returned' AND p_to = 'draft' THEN 'reopen'
+    WHEN p_from IN ('draft', 'pending', 'returned') AND p_to = 'withdrawn' THEN 'withdraw'
+    WHEN p_from = 'approved' AND p_to = 'cancelled' THEN 'cancel'
+    ELSE NULL
+  END;
+$$;
+
+-- 申請は下書きとして作成し、ステータスは許可された遷移のみ変更できる
+CREATE OR REPLACE FUNCTION enforce_application_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status IS DISTINCT FROM 'draft' THEN
+      RAISE EXCEPTION 'New applications must start as drafts';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF application_transition_action(OLD.status, NEW.status) IS NULL THEN
+    RAISE EXCEPTION 'Invalid status transition: % -> %', OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status = 'pending' THEN
+    NEW.submitted_at := now();
+  ELSIF NEW.status = 'withdrawn' THEN
+    NEW.withdrawn_at := now();
+  ELSIF NEW.status = 'cancelled' THEN
+    NEW.cancelled_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_application_transition ON applications;
+CREATE TRIGGER enforce_application_transition
+  BEFORE INSERT OR UPDATE OF status ON applications
+  FOR EACH ROW EXECUTE PROCEDURE enforce_application_transition();
+
+-- ステータスの遷移と承認ステップの進行を履歴に記録する
+-- 承認・否認・差戻しは直前に記録された承認履歴（application_approvals）から承認者とコメントを取得する
+-- 申請者の操作のコメントは transition_application が app.transition_comment に設定する
+CREATE OR REPLACE FUNCTION record_application_status_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_action text;
+  v_from_status text;
+  v_approval application_approvals%ROWTYPE;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_action := 'create';
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    v_action := application_transition_action(OLD.status, NEW.status);
+    v_from_status := OLD.status;
+  ELSIF NEW.status = 'pending' AND COALESCE(NEW.current_step, 1) > COALESCE(OLD.current_step, 1) THEN
+    v_action := 'approve_step';
+    v_from_status := OLD.status;
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  IF v_action IN ('approve_step', 'approve', 'reject', 'return') THEN
+    SELECT * INTO v_approval
+    FROM application_approvals
+    WHERE application_id = NEW.id
+    ORDER BY created_at DESC, approved_at DESC
+    LIMIT 1;
+
+    INSERT INTO application_status_events (application_id, action, from_status, to_status, step, actor_id, actor_name, comment)
+    VALUES (
+      NEW.id, v_action, v_from_status, NEW.status,
+      COALESCE(v_approval.step, OLD.current_step),
+      COALESCE(v_approval.approver_id, auth.uid()),
+      v_approval.external_approver_name,
+      v_approval.comment
+    );
+  ELSE
+    INSERT INTO application_status_events (application_id, action, from_status, to_status, actor_id, comment)
+    VALUES (
+      NEW.id, v_action, v_from_status, NEW.status,
+      COALESCE(auth.uid(), CASE WHEN TG_OP = 'INSERT' THEN NEW.user_id END),
+      NULLIF(current_setting('app.transition_comment', true), '')
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_application_status_event ON applications;
+CREATE TRIGGER record_application_status_event
+  AFTER INSERT OR UPDATE OF status, current_step ON applications
+  FOR EACH ROW EXECUTE PROCEDURE record_application_status_event();
+
+-- 申請者による提出・再編集・取り下げと、承認後の取消
+CREATE OR REPLACE FUNCTION transition_application(
+  p_application_id uuid,
+  p_action text,
+  p_comment text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_application applications%ROWTYPE;
+  v_status text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  v_status := CASE p_action
+    WHEN 'submit' THEN 'pending'
+    WHEN 'reopen' THEN 'draft'
+    WHEN 'withdraw' THEN 'withdrawn'
+    WHEN 'cancel' THEN 'cancelled'
+  END;
+
+  IF v_status IS NULL THEN
+    RAISE EXCEPTION 'Invalid application action: %', p_action;
+  END IF;
+
+  IF p_action = 'cancel' AND COALESCE(trim(p_comment), '') = '' THEN
+    RAISE EXCEPTION 'A comment is required for % actions', p_action;
+  END IF;
+
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF v_application.user_id <> v_user_id AND NOT (
+    p_action = 'cancel' AND has_organization_permission(v_application.organization_id, 'cancel_applications')
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to change this application';
+  END IF;
+
+  IF application_transition_action(v_application.status, v_status) IS DISTINCT FROM p_action THEN
+    RAISE EXCEPTION 'Cannot % an application in % status', p_action, v_application.status;
+  END IF;
+
+  PERFORM set_config('app.transition_comment', COALESCE(trim(p_comment), ''), true);
+
+  IF p_action = 'submit' THEN
+    -- 承認ルートは提出時点の組織・金額で割り当てる
+    UPDATE applications
+    SET organization_id = COALESCE(
+          organization_id,
+          (SELECT default_organization_id FROM user_profiles WHERE id = v_application.user_id)
+        ),
+        rejection_reason = NULL
+    WHERE id = p_application_id;
+
+    PERFORM assign_approval_route(p_application_id);
+
+    UPDATE applications SET status = 'pending' WHERE id = p_application_id;
+  ELSIF p_action = 'cancel' THEN
+    UPDATE applications
+    SET status = 'cancelled', cancellation_reason = trim(p_comment)
+    WHERE id = p_application_id;
+  ELSE
+    UPDATE applications SET status = v_status WHERE id = p_application_id;
+  END IF;
+
+  PERFORM set_config('app.transition_comment', '', true);
+
+  RETURN jsonb_build_object('success', true, 'status', v_status);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION transition_application(uuid, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION transition_application(uuid, text, text) TO authenticated;
+
+-- 既存の申請の履歴を作成日時・提出日時・承認履歴から作成する
+INSERT INTO application_status_events (application_id, action, from_status, to_status, actor_id, created_at)
+SELECT a.id, 'create', NULL, 'draft', a.user_id, a.created_at
+FROM applications a
+WHERE NOT EXISTS (SELECT 1 FROM application_status_events e WHERE e.application_id = a.id);
+
+INSERT INTO application_status_events (application_id, action, from_status, to_status, actor_id, created_at)
+SELECT a.id, 'submit', 'draft', 'pending', a.user_id, a.submitted_at
+FROM applications a
+WHERE a.submitted_at IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM application_status_events e WHERE e.application_id = a.id AND e.action <> 'create');
+
+INSERT INTO application_status_events (application_id, action, from_status, to_status, step, actor_id, actor_name, comment, created_at)
+SELECT
+  aa.application_id,
+  CASE
+    WHEN aa.status = 'rejected' THEN 'reject'
+    WHEN aa.status = 'returned' THEN 'return'
+    WHEN a.status = 'approved' AND aa.step = (
+      SELECT max(last.step) FROM application_approvals last WHERE last.application_id = aa.application_id
+    ) THEN 'approve'
+    ELSE 'approve_step'
+  END,
+  'pending',
+  CASE
+    WHEN aa.status = 'rejected' THEN 'rejected'
+    WHEN aa.status = 'returned' THEN 'returned'
+    WHEN a.status = 'approved' AND aa.step = (
+      SELECT max(last.step) FROM application_approvals last WHERE last.application_id = aa.application_id
+    ) THEN 'approved'
+    ELSE 'pending'
+  END,
+  aa.step,
+  aa.approver_id,
+  aa.external_approver_name,
+  aa.comment,
+  COALESCE(aa.approved_at, aa.created_at)
+FROM application_approvals aa
+JOIN applications a ON a.id = aa.application_id
+WHERE aa.status IN ('approved', 'rejected', 'returned')
+  AND NOT EXISTS (
+    SELECT 1 FROM application_status_events e
+    WHERE e.application_id = aa.application_id AND e.action NOT IN ('create', 'submit')
+  );
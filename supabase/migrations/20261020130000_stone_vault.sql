@@ -0,0 +1,468 @@
+/*
+  # 電子帳簿保存法に対応した領収書・請求書の保存
+
+  1. New Tables
+    - `stored_documents` - 電子取引・スキャナ保存の対象となる領収書・請求書（追記のみ）
+      - `document_kind` - receipt（領収書）/ invoice（請求書）
+      - `bucket`, `file_path`, `file_name`, `mime_type`, `file_size` - 保存したファイル（パスは `ユーザーID/SHA-256.拡張子`）
+      - `sha256` - ファイルの SHA-256（16進数）
+      - `transaction_date`, `amount`, `counterparty` - 検索要件（取引年月日・取引金額・取引先）
+      - `invoice_number` - 適格請求書発行事業者の登録番号
+      - `timestamp_token`, `timestamp_authority`, `timestamped_at` - RFC 3161 形式のタイムスタンプ
+      - `version`, `supersedes_id`, `superseded_by`, `superseded_at`, `correction_reason` - 訂正履歴
+    - `timestamp_authority_keys` - ローカルのタイムスタンプ局の署名鍵（関数からのみ参照する）
+
+  2. Changes
+    - expense_items に `stored_document_id` を追加
+    - 領収書のストレージ（receipts）の更新・削除のポリシーを削除する（保存したファイルは上書き・削除できない）
+    - 権限 `audit_documents`（保存書類の検索と真実性の確認）を追加する（オーナー・管理者。組織に属さない個人は本人の書類）
+
+  3. Functions
+    - `issue_timestamp_token(sha256, nonce)` - ローカルのタイムスタンプ局でトークンを発行する（HMAC-SHA256 で署名）
+    - `verify_timestamp_token(token, sha256)` - トークンの署名とハッシュ値を検証する
+    - `register_stored_document(...)` - アップロードしたファイルを保存書類として登録する
+    - `correct_stored_document(document_id, ...)` - 検索項目を訂正する（新しい版を追加し、元の版は残す）
+
+  4. Security
+    - 保存書類の削除と、訂正による版の付け替え以外の変更はトリガーで拒否する
+    - 閲覧は登録者本人と、組織で `audit_documents` 権限を持つユーザーのみ
+    - 取引先・取引年月日・金額は登録時に必須とする
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- 署名鍵（1行のみ。RLSを有効にしてポリシーを設定しないことでクライアントから読めないようにする）
+CREATE TABLE IF NOT EXISTS timestamp_authority_keys (
+  id integer PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  secret bytea NOT NULL DEFAULT extensions.gen_random_bytes(32),
+  created_at timestamptz DEFAULT now()
+);
+
+INSERT INTO timestamp_authority_keys (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE timestamp_authority_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE SEQUENCE IF NOT EXISTS timestamp_token_serial;
+
+CREATE TABLE IF NOT EXISTS stored_documents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id),
+  user_id uuid REFERENCES auth.users(id) NOT NULL,
+  document_kind text NOT NULL CHECK (document_kind IN ('receipt', 'invoice')),
+  bucket text NOT NULL DEFAULT 'receipts',
+  file_path text NOT NULL,
+  file_name text,
+  mime_type text,
+  file_size bigint,
+  sha256 text NOT NULL CHECK (sha256 ~ '^[0-9a-f]{64}$'),
+  transaction_date date NOT NULL,
+  amount numeric NOT NULL CHECK (amount >= 0),
+  counterparty text NOT NULL CHECK (length(trim(counterparty)) > 0),
+  invoice_number text,
+  timestamp_token jsonb NOT NULL,
+  timestamp_authority text NOT NULL,
+  timestamped_at timestamptz NOT NULL,
+  version integer NOT NULL DEFAULT 1,
+  supersedes_id uuid REFERENCES stored_documents(id),
+  superseded_by uuid REFERENCES stored_documents(id),
+  superseded_at timestamptz,
+  correction_reason text,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- 検索要件（取引年月日の範囲・金額の範囲・取引先）に対応する索引
+CREATE INDEX IF NOT EXISTS stored_documents_organization_date_idx
+  ON stored_documents (organization_id, transaction_date);
+CREATE INDEX IF NOT EXISTS stored_documents_user_date_idx
+  ON stored_documents (user_id, transaction_date);
+CREATE INDEX IF NOT EXISTS stored_documents_amount_idx
+  ON stored_documents (amount);
+CREATE INDEX IF NOT EXISTS stored_documents_counterparty_idx
+  ON stored_documents USING gin (counterparty extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS stored_documents_sha256_idx
+  ON stored_documents (sha256);
+
+ALTER TABLE expense_items ADD COLUMN IF NOT EXISTS stored_document_id uuid REFERENCES stored_documents(id);
+
+-- 保存書類の権限を追加する
+CREATE OR REPLACE FUNCTION role_has_permission(p_role text, p_permission text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_permission
+    WHEN 'view_organization_applications' THEN p_role IN ('owner', 'admin', 'manager')
+    WHEN 'view_admin_dashboard' THEN p_role IN ('owner', 'admin')
+    WHEN 'manage_regulations' THEN p_role IN ('owner', 'admin')
+    WHEN 'manage_accounting' THEN p_role IN ('owner', 'admin')
+    WHEN 'manage_organization_settings' THEN p_role IN ('owner', 'admin')
+    WHEN 'manage_members' THEN p_role IN ('owner', 'admin')
+    WHEN 'cancel_applications' THEN p_role IN ('owner', 'admin')
+    WHEN 'audit_documents' THEN p_role IN ('owner', 'admin')
+    ELSE false
+  END;
+$$;
+
+-- 組織に属さない個人は本人の書類を確認できるようにする
+CREATE OR REPLACE FUNCTION get_my_permissions(p_organization_id uuid)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN auth.uid() IS NULL THEN ARRAY[]::text[]
+    WHEN p_organization_id IS NULL THEN ARRAY['manage_regulations', 'audit_documents']
+    ELSE ARRAY(
+      SELECT permission
+      FROM unnest(ARRAY[
+        'view_organization_applications',
+        'view_admin_dashboard',
+        'manage_regulations',
+        'manage_accounting',
+        'manage_organization_settings',
+        'manage_members',
+        'cancel_applications',
+        'audit_documents'
+      ]) AS permission
+      WHERE role_has_permission(organization_member_role(p_organization_id, auth.uid()), permission)
+    )
+  END;
+$$;
+
+ALTER TABLE stored_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own stored documents"
+  ON stored_documents
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Organization auditors can read stored documents"
+  ON stored_documents
+  FOR SELECT
+  TO authenticated
+  USING (has_organization_permission(organization_id, 'audit_documents'));
+
+-- 登録・訂正は関数経由のみ
+REVOKE INSERT, UPDATE, DELETE ON stored_documents FROM anon, authenticated;
+
+-- 削除は不可。変更は訂正時に元の版へ新しい版を記録する場合のみ
+CREATE OR REPLACE FUNCTION protect_stored_document()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Stored documents cannot be deleted';
+  END IF;
+
+  IF OLD.superseded_by IS NOT NULL
+    OR (to_jsonb(NEW) - 'superseded_by' - 'superseded_at') IS DISTINCT FROM (to_jsonb(OLD) - 'superseded_by' - 'superseded_at')
+  THEN
+    RAISE EXCEPTION 'Stored documents are immutable';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_stored_documents ON stored_documents;
+CREATE TRIGGER protect_stored_documents
+  BEFORE UPDATE OR DELETE ON stored_documents
+  FOR EACH ROW EXECUTE PROCEDURE protect_stored_document();
+
+-- 保存したファイルは上書き・削除できないようにする
+DROP POLICY IF EXISTS "Users can update their own receipts" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete their own receipts" ON storage.objects;
+
+-- 真実性の確認のため、組織の監査担当者は登録済みのファイルを読み取れる
+CREATE POLICY "Organization auditors can read stored receipts"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'receipts' AND EXISTS (
+      SELECT 1 FROM stored_documents d
+      WHERE d.bucket = 'receipts'
+        AND d.file_path = storage.objects.name
+        AND has_organization_permission(d.organization_id, 'audit_documents')
+    )
+  );
+
+-- トークンの署名（署名以外の項目をすべて含めるため、いずれかが変わると検証に失敗する）
+CREATE OR REPLACE FUNCTION sign_timestamp_token(p_token jsonb)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT encode(
+    extensions.hmac(
+      convert_to(
+        COALESCE(p_token->>'version', '') || '|' ||
+          COALESCE(p_token->>'policy', '') || '|' ||
+          COALESCE(p_token #>> '{messageImprint,hashAlgorithm}', '') || '|' ||
+          COALESCE(p_token #>> '{messageImprint,hashedMessage}', '') || '|' ||
+          COALESCE(p_token->>'serialNumber', '') || '|' ||
+          COALESCE(p_token->>'genTime', '') || '|' ||
+          COALESCE(p_token->>'tsa', '') || '|' ||
+          COALESCE(p_token->>'nonce', ''),
+        'UTF8'
+      ),
+      (SELECT secret FROM timestamp_authority_keys WHERE id = 1),
+      'sha256'
+    ),
+    'hex'
+  );
+$$;
+
+-- RFC 3161 の TSTInfo に相当する項目を JSON で返す
+CREATE OR REPLACE FUNCTION issue_timestamp_token(p_sha256 text, p_nonce text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token jsonb;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF p_sha256 IS NULL OR p_sha256 !~ '^[0-9a-f]{64}$' THEN
+    RAISE EXCEPTION 'Invalid SHA-256 hash';
+  END IF;
+
+  v_token := jsonb_build_object(
+    'version', 1,
+    'policy', 'local-tsa-v1',
+    'messageImprint', jsonb_build_object('hashAlgorithm', 'SHA-256', 'hashedMessage', p_sha256),
+    'serialNumber', nextval('timestamp_token_serial')::text,
+    'genTime', to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+    'accuracy', jsonb_build_object('seconds', 1),
+    'tsa', 'local',
+    'nonce', p_nonce
+  );
+
+  RETURN v_token || jsonb_build_object('signature', sign_timestamp_token(v_token));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION verify_timestamp_token(p_token jsonb, p_sha256 text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    p_token->>'tsa' = 'local'
+      AND p_token #>> '{messageImprint,hashedMessage}' = p_sha256
+      AND p_token->>'signature' = sign_timestamp_token(p_token),
+    false
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION sign_timestamp_token(jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION issue_timestamp_token(text, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION verify_timestamp_token(jsonb, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION issue_timestamp_token(text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION verify_timestamp_token(jsonb, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION check_stored_document_keys(p_transaction_date date, p_amount numeric, p_counterparty text)
+RETURNS void
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF p_transaction_date IS NULL OR p_amount IS NULL OR p_amount < 0 OR COALESCE(trim(p_counterparty), '') = '' THEN
+    RAISE EXCEPTION 'Transaction date, amount and counterparty are required';
+  END IF;
+END;
+$$;
+
+-- アップロード済みのファイルを登録する
+-- ファイルのパスにハッシュ値を含めるため、同じパスに別の内容を登録することはできない
+CREATE OR REPLACE FUNCTION register_stored_document(
+  p_document_kind text,
+  p_file_path text,
+  p_file_name text,
+  p_mime_type text,
+  p_file_size bigint,
+  p_sha256 text,
+  p_transaction_date date,
+  p_amount numeric,
+  p_counterparty text,
+  p_invoice_number text,
+  p_timestamp_token jsonb,
+  p_timestamp_authority text
+)
+RETURNS stored_documents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_timestamped_at timestamptz;
+  v_document stored_documents%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF p_sha256 IS NULL OR p_sha256 !~ '^[0-9a-f]{64}$' THEN
+    RAISE EXCEPTION 'Invalid SHA-256 hash';
+  END IF;
+
+  IF p_file_path IS NULL OR split_part(p_file_path, '.', 1) <> v_user_id::text || '/' || p_sha256 THEN
+    RAISE EXCEPTION 'File path does not match the document hash';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM storage.objects WHERE bucket_id = 'receipts' AND name = p_file_path) THEN
+    RAISE EXCEPTION 'Stored file not found';
+  END IF;
+
+  PERFORM check_stored_document_keys(p_transaction_date, p_amount, p_counterparty);
+
+  -- ローカルのタイムスタンプ局のトークンは署名まで検証する。外部の局はハッシュ値の一致のみ確認する
+  IF p_timestamp_token IS NULL
+    OR p_timestamp_token #>> '{messageImprint,hashedMessage}' IS DISTINCT FROM p_sha256
+    OR (p_timestamp_authority = 'local' AND NOT verify_timestamp_token(p_timestamp_token, p_sha256))
+  THEN
+    RAISE EXCEPTION 'Invalid timestamp token';
+  END IF;
+
+  BEGIN
+    v_timestamped_at := (p_timestamp_token->>'genTime')::timestamptz;
+  EXCEPTION WHEN others THEN
+    RAISE EXCEPTION 'Invalid timestamp token';
+  END;
+
+  IF v_timestamped_at IS NULL THEN
+    RAISE EXCEPTION 'Invalid timestamp token';
+  END IF;
+
+  INSERT INTO stored_documents (
+    organization_id, user_id, document_kind, bucket, file_path, file_name, mime_type, file_size, sha256,
+    transaction_date, amount, counterparty, invoice_number,
+    timestamp_token, timestamp_authority, timestamped_at, created_by
+  )
+  VALUES (
+    (SELECT default_organization_id FROM user_profiles WHERE id = v_user_id),
+    v_user_id,
+    COALESCE(p_document_kind, 'receipt'),
+    'receipts',
+    p_file_path,
+    p_file_name,
+    p_mime_type,
+    p_file_size,
+    p_sha256,
+    p_transaction_date,
+    p_amount,
+    trim(p_counterparty),
+    NULLIF(trim(p_invoice_number), ''),
+    p_timestamp_token,
+    COALESCE(p_timestamp_authority, 'local'),
+    v_timestamped_at,
+    v_user_id
+  )
+  RETURNING * INTO v_document;
+
+  RETURN v_document;
+END;
+$$;
+
+-- 検索項目の訂正（ファイルとタイムスタンプは元の版を引き継ぐ）
+CREATE OR REPLACE FUNCTION correct_stored_document(
+  p_document_id uuid,
+  p_transaction_date date,
+  p_amount numeric,
+  p_counterparty text,
+  p_invoice_number text,
+  p_reason text
+)
+RETURNS stored_documents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_original stored_documents%ROWTYPE;
+  v_document stored_documents%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO v_original FROM stored_documents WHERE id = p_document_id FOR UPDATE;
+
+  IF NOT FOUND OR (
+    v_original.user_id <> v_user_id AND NOT has_organization_permission(v_original.organization_id, 'audit_documents')
+  ) THEN
+    RAISE EXCEPTION 'Stored document not found';
+  END IF;
+
+  IF v_original.superseded_by IS NOT NULL THEN
+    RAISE EXCEPTION 'Only the latest version can be corrected';
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A correction reason is required';
+  END IF;
+
+  PERFORM check_stored_document_keys(p_transaction_date, p_amount, p_counterparty);
+
+  INSERT INTO stored_documents (
+    organization_id, user_id, document_kind, bucket, file_path, file_name, mime_type, file_size, sha256,
+    transaction_date, amount, counterparty, invoice_number,
+    timestamp_token, timestamp_authority, timestamped_at,
+    version, supersedes_id, correction_reason, created_by
+  )
+  VALUES (
+    v_original.organization_id,
+    v_original.user_id,
+    v_original.document_kind,
+    v_original.bucket,
+    v_original.file_path,
+    v_original.file_name,
+    v_original.mime_type,
+    v_original.file_size,
+    v_original.sha256,
+    p_transaction_date,
+    p_amount,
+    trim(p_counterparty),
+    NULLIF(trim(p_invoice_number), ''),
+    v_original.timestamp_token,
+    v_original.timestamp_authority,
+    v_original.timestamped_at,
+    v_original.version + 1,
+    v_original.id,
+    trim(p_reason),
+    v_user_id
+  )
+  RETURNING * INTO v_document;
+
+  UPDATE stored_documents
+  SET superseded_by = v_document.id, superseded_at = now()
+  WHERE id = v_original.id;
+
+  -- 経費項目は最新の版を参照する
+  UPDATE expense_items SET stored_document_id = v_document.id WHERE stored_document_id = v_original.id;
+
+  RETURN v_document;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION check_stored_document_keys(date, numeric, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION register_stored_document(text, text, text, text, bigint, text, date, numeric, text, text, jsonb, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION correct_stored_document(uuid, date, numeric, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION register_stored_document(text, text, text, text, bigint, text, date, numeric, text, text, jsonb, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION correct_stored_document(uuid, date, numeric, text, text, text) TO authenticated;
@@ -0,0 +1,164 @@
+/*
+  # 出張ログ台帳（位置情報の記録）
+
+  1. New Tables
+    - `trip_checkpoints` - 出張中の滞在地点（追記のみ）
+      - `application_id` - 出張申請
+      - `recorded_at` - 記録日時
+      - `latitude`, `longitude`, `accuracy_m` - 位置と精度（メートル）
+      - `place_name` - 地点名
+      - `source` - manual（手入力）/ gpx（GPXファイルの取り込み）/ geolocation（ブラウザの位置情報）
+      - `office_latitude`, `office_longitude`, `distance_from_office_km` - 記録時点の勤務地と、勤務地からの距離
+      - `stored_document_id` - 地点に対応する領収書（保存書類のハッシュ値で裏付ける）
+      - `excluded_at`, `exclusion_reason` - 誤って記録した地点の除外（削除はできない）
+
+  2. Changes
+    - user_profiles に勤務地（`work_location_name`, `work_latitude`, `work_longitude`）を追加
+
+  3. Functions
+    - `distance_km(lat1, lon1, lat2, lon2)` - 2地点間の距離（球面三角法、地球の半径 6371km）
+    - 地点の追加時に申請者の勤務地から距離を計算する（トリガー）
+
+  4. Security
+    - 地点は申請を閲覧できるユーザーが閲覧できる。追加は出張申請の申請者本人のみ
+    - 変更は除外と領収書の紐付けのみ。削除は不可
+*/
+
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS work_location_name text;
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS work_latitude double precision CHECK (work_latitude BETWEEN -90 AND 90);
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS work_longitude double precision CHECK (work_longitude BETWEEN -180 AND 180);
+
+CREATE OR REPLACE FUNCTION distance_km(p_lat1 double precision, p_lon1 double precision, p_lat2 double precision, p_lon2 double precision)
+RETURNS double precision
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 6371 * 2 * asin(sqrt(
+    power(sin(radians(p_lat2 - p_lat1) / 2), 2) +
+      cos(radians(p_lat1)) * cos(radians(p_lat2)) * power(sin(radians(p_lon2 - p_lon1) / 2), 2)
+  ));
+$$;
+
+CREATE TABLE IF NOT EXISTS trip_checkpoints (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid REFERENCES applications(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) NOT NULL DEFAULT auth.uid(),
+  recorded_at timestamptz NOT NULL,
+  latitude double precision NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude double precision NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  accuracy_m numeric,
+  place_name text,
+  source text NOT NULL CHECK (source IN ('manual', 'gpx', 'geolocation')),
+  office_latitude double precision,
+  office_longitude double precision,
+  distance_from_office_km numeric,
+  stored_document_id uuid REFERENCES stored_documents(id),
+  note text,
+  excluded_at timestamptz,
+  exclusion_reason text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS trip_checkpoints_application_id_idx
+  ON trip_checkpoints (application_id, recorded_at);
+
+ALTER TABLE trip_checkpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read checkpoints of visible applications"
+  ON trip_checkpoints
+  FOR SELECT
+  TO authenticated
+  USING (application_id IN (SELECT id FROM applications));
+
+CREATE POLICY "Applicants can record checkpoints"
+  ON trip_checkpoints
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM applications a
+      WHERE a.id = application_id AND a.user_id = auth.uid() AND a.type = 'business_trip'
+    )
+    AND (
+      stored_document_id IS NULL
+      OR EXISTS (SELECT 1 FROM stored_documents d WHERE d.id = stored_document_id AND d.user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Applicants can exclude checkpoints and link receipts"
+  ON trip_checkpoints
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND (
+      stored_document_id IS NULL
+      OR EXISTS (SELECT 1 FROM stored_documents d WHERE d.id = stored_document_id AND d.user_id = auth.uid())
+    )
+  );
+
+REVOKE DELETE ON trip_checkpoints FROM anon, authenticated;
+
+-- 追加時に記録時点の勤務地と距離を設定する（勤務地が未設定の場合は距離なし）
+CREATE OR REPLACE FUNCTION set_trip_checkpoint_distance()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT work_latitude, work_longitude
+  INTO NEW.office_latitude, NEW.office_longitude
+  FROM user_profiles
+  WHERE id = NEW.user_id;
+
+  NEW.distance_from_office_km := CASE
+    WHEN NEW.office_latitude IS NULL OR NEW.office_longitude IS NULL THEN NULL
+    ELSE round(distance_km(NEW.office_latitude, NEW.office_longitude, NEW.latitude, NEW.longitude)::numeric, 2)
+  END;
+  NEW.excluded_at := NULL;
+  NEW.exclusion_reason := NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_trip_checkpoint_distance ON trip_checkpoints;
+CREATE TRIGGER set_trip_checkpoint_distance
+  BEFORE INSERT ON trip_checkpoints
+  FOR EACH ROW EXECUTE PROCEDURE set_trip_checkpoint_distance();
+
+-- 記録した位置は変更できない。除外（理由が必須）と、未設定の領収書の紐付けのみ許可する
+CREATE OR REPLACE FUNCTION protect_trip_checkpoint()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Trip checkpoints cannot be deleted';
+  END IF;
+
+  IF (to_jsonb(NEW) - 'excluded_at' - 'exclusion_reason' - 'stored_document_id')
+      IS DISTINCT FROM (to_jsonb(OLD) - 'excluded_at' - 'exclusion_reason' - 'stored_document_id')
+    OR (OLD.stored_document_id IS NOT NULL AND NEW.stored_document_id IS DISTINCT FROM OLD.stored_document_id)
+    OR (OLD.excluded_at IS NOT NULL AND (
+      NEW.excluded_at IS DISTINCT FROM OLD.excluded_at OR NEW.exclusion_reason IS DISTINCT FROM OLD.exclusion_reason
+    ))
+  THEN
+    RAISE EXCEPTION 'Trip checkpoints are immutable';
+  END IF;
+
+  IF NEW.excluded_at IS NOT NULL AND OLD.excluded_at IS NULL AND COALESCE(trim(NEW.exclusion_reason), '') = '' THEN
+    RAISE EXCEPTION 'An exclusion reason is required';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_trip_checkpoints ON trip_checkpoints;
+CREATE TRIGGER protect_trip_checkpoints
+  BEFORE UPDATE OR DELETE ON trip_checkpoints
+  FOR EACH ROW EXECUTE PROCEDURE protect_trip_checkpoint();
@@ -0,0 +1,358 @@
+/*
+  # 月次・年次レポート
+
+  1. New Tables
+    - `report_schedules` - 組織ごとのレポートの自動作成設定
+      - `monthly_enabled` - 月次レポートを月の締め後に自動作成する
+      - `annual_enabled` - 年次レポートを年度の締め後に自動作成する
+      - `fiscal_year_start_month` - 年度の開始月（1〜12、既定は4月）
+    - `report_jobs` - 自動作成するレポートの作成待ち
+      - `period_type` - monthly（月次）/ annual（年次）
+      - `period_start`, `period_end` - 対象期間（日本時間の日付）
+      - `status` - pending（作成待ち）/ processing（作成中）/ completed（作成済み）/ error（失敗）
+      - `document_ids` - 作成した書類（PDF・Excel）
+      - `locked_until` - 作成処理中のロック期限（期限切れは再取得できる）
+
+  2. Functions
+    - `report_applications(organization_id, start, end, department)` - 集計対象の承認済み申請
+    - `get_expense_report(organization_id, period_start, period_end, department)` - 期間内に承認された申請の集計
+      - summary: 件数・金額
+      - by_person / by_category / by_destination: 申請者別・経費区分別・出張先別の内訳
+      - trips: 出張ごとの日当・交通費・宿泊費（規程の支給額との比較用）
+    - `enqueue_scheduled_reports(now)` - 締めた月・年度のレポートを作成待ちに登録する
+    - `claim_report_jobs(organization_id, limit, lease_seconds)` - 作成待ちのジョブをロックして取得する
+
+  3. Notes
+    - 集計対象は承認日時（日本時間）が期間内の承認済み申請。取消・差戻しの申請は含まない
+    - 経費区分は申請データの集計（analytics_expense_lines）と同じ区分を使う
+    - ファイルの作成は画面（組織のレポート作成画面を開いている管理者のブラウザ）で行う
+    - pg_cron が利用できる環境では毎日0時10分（日本時間）に前月分を登録する（登録済みの期間は登録しない）
+
+  4. Security
+    - レポートの集計・作成待ちの閲覧と更新は管理者ダッシュボードの権限（オーナー・管理者）
+    - 自動作成の設定の変更は組織設定の権限
+    - 作成待ちの登録は service_role（定期実行）のみ実行可能
+    - 集計対象の申請（report_applications）はクライアントから実行できない
+*/
+
+CREATE TABLE IF NOT EXISTS report_schedules (
+  organization_id uuid PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+  monthly_enabled boolean NOT NULL DEFAULT false,
+  annual_enabled boolean NOT NULL DEFAULT false,
+  fiscal_year_start_month integer NOT NULL DEFAULT 4 CHECK (fiscal_year_start_month BETWEEN 1 AND 12),
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS report_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  period_type text NOT NULL CHECK (period_type IN ('monthly', 'annual')),
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'error')),
+  attempt_count integer NOT NULL DEFAULT 0,
+  locked_until timestamptz,
+  document_ids uuid[] NOT NULL DEFAULT '{}',
+  error_message text,
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (organization_id, period_type, period_start),
+  CHECK (period_end >= period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_jobs_due ON report_jobs(organization_id, status, created_at);
+
+ALTER TABLE report_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE report_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Organization admins can read report schedules"
+  ON report_schedules
+  FOR SELECT
+  TO authenticated
+  USING (has_organization_permission(organization_id, 'view_admin_dashboard'));
+
+CREATE POLICY "Organization settings managers can manage report schedules"
+  ON report_schedules
+  FOR ALL
+  TO authenticated
+  USING (has_organization_permission(organization_id, 'manage_organization_settings'))
+  WITH CHECK (has_organization_permission(organization_id, 'manage_organization_settings'));
+
+CREATE POLICY "Organization admins can read report jobs"
+  ON report_jobs
+  FOR SELECT
+  TO authenticated
+  USING (has_organization_permission(organization_id, 'view_admin_dashboard'));
+
+CREATE POLICY "Organization admins can update report jobs"
+  ON report_jobs
+  FOR UPDATE
+  TO authenticated
+  USING (has_organization_permission(organization_id, 'view_admin_dashboard'))
+  WITH CHECK (has_organization_permission(organization_id, 'view_admin_dashboard'));
+
+DROP TRIGGER IF EXISTS update_report_schedules_updated_at ON report_schedules;
+CREATE TRIGGER update_report_schedules_updated_at
+  BEFORE UPDATE ON report_schedules
+  FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_report_jobs_updated_at ON report_jobs;
+CREATE TRIGGER update_report_jobs_updated_at
+  BEFORE UPDATE ON report_jobs
+  FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION report_applications(
+  p_organization_id uuid,
+  p_start timestamptz,
+  p_end timestamptz,
+  p_department text
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  type text,
+  total_amount numeric,
+  user_name text,
+  department text,
+  "position" text,
+  destination text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    a.id,
+    a.user_id,
+    a.type,
+    COALESCE(a.total_amount, 0),
+    COALESCE(p.full_name, ''),
+    COALESCE(NULLIF(trim(p.department), ''), '未設定'),
+    p.position,
+    COALESCE(NULLIF(trim(a.data->'tripDetails'->>'destination'), ''), '未設定')
+  FROM applications a
+  LEFT JOIN user_profiles p ON p.id = a.user_id
+  WHERE a.organization_id = p_organization_id
+    AND a.status = 'approved'
+    AND a.approved_at >= p_start
+    AND a.approved_at < p_end
+    AND (p_department IS NULL OR COALESCE(NULLIF(trim(p.department), ''), '未設定') = p_department);
+$$;
+
+CREATE OR REPLACE FUNCTION get_expense_report(
+  p_organization_id uuid,
+  p_period_start date,
+  p_period_end date,
+  p_department text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_start timestamptz := p_period_start::timestamp AT TIME ZONE 'Asia/Tokyo';
+  v_end timestamptz := (p_period_end + 1)::timestamp AT TIME ZONE 'Asia/Tokyo';
+  v_summary jsonb;
+  v_by_person jsonb;
+  v_by_category jsonb;
+  v_by_destination jsonb;
+  v_trips jsonb;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF NOT has_organization_permission(p_organization_id, 'view_admin_dashboard') THEN
+    RAISE EXCEPTION 'Not allowed to view organization reports';
+  END IF;
+
+  IF p_period_start IS NULL OR p_period_end IS NULL OR p_period_end < p_period_start THEN
+    RAISE EXCEPTION 'Invalid report period';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'application_count', count(*),
+    'business_trip_count', count(*) FILTER (WHERE type = 'business_trip'),
+    'expense_count', count(*) FILTER (WHERE type = 'expense'),
+    'person_count', count(DISTINCT user_id),
+    'total_amount', COALESCE(sum(total_amount), 0),
+    'business_trip_amount', COALESCE(sum(total_amount) FILTER (WHERE type = 'business_trip'), 0),
+    'expense_amount', COALESCE(sum(total_amount) FILTER (WHERE type = 'expense'), 0)
+  )
+  INTO v_summary
+  FROM report_applications(p_organization_id, v_start, v_end, p_department);
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'user_id', user_id,
+    'user_name', user_name,
+    'department', department,
+    'position', position,
+    'application_count', application_count,
+    'business_trip_amount', business_trip_amount,
+    'expense_amount', expense_amount,
+    'total_amount', total_amount
+  ) ORDER BY total_amount DESC), '[]'::jsonb)
+  INTO v_by_person
+  FROM (
+    SELECT user_id, user_name, department, position,
+      count(*) AS application_count,
+      COALESCE(sum(total_amount) FILTER (WHERE type = 'business_trip'), 0) AS business_trip_amount,
+      COALESCE(sum(total_amount) FILTER (WHERE type = 'expense'), 0) AS expense_amount,
+      sum(total_amount) AS total_amount
+    FROM report_applications(p_organization_id, v_start, v_end, p_department)
+    GROUP BY user_id, user_name, department, position
+  ) people;
+
+  -- 承認より前に提出されているため、期間の終わりまでに提出された明細から対象の申請を選ぶ
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'category', category,
+    'line_count', line_count,
+    'amount', amount
+  ) ORDER BY amount DESC), '[]'::jsonb)
+  INTO v_by_category
+  FROM (
+    SELECT lines.category, count(*) AS line_count, sum(lines.amount) AS amount
+    FROM analytics_expense_lines(p_organization_id, NULL, v_end, NULL) lines
+    JOIN report_applications(p_organization_id, v_start, v_end, p_department) apps ON apps.id = lines.application_id
+    GROUP BY lines.category
+  ) categories;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'destination', destination,
+    'trip_count', trip_count,
+    'days', days,
+    'amount', amount
+  ) ORDER BY amount DESC), '[]'::jsonb)
+  INTO v_by_destination
+  FROM (
+    SELECT apps.destination,
+      count(*) AS trip_count,
+      COALESCE(sum(d.end_date - d.start_date + 1), 0) AS days,
+      sum(apps.total_amount) AS amount
+    FROM report_applications(p_organization_id, v_start, v_end, p_department) apps
+    LEFT JOIN business_trip_details d ON d.application_id = apps.id
+    WHERE apps.type = 'business_trip'
+    GROUP BY apps.destination
+  ) destinations;
+
+  -- 精算額がなければ見積額（申請データの集計と同じ）
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'application_id', apps.id,
+    'user_id', apps.user_id,
+    'user_name', apps.user_name,
+    'position', apps.position,
+    'destination', apps.destination,
+    'start_date', d.start_date,
+    'end_date', d.end_date,
+    'daily_allowance', COALESCE(NULLIF(d.actual_daily_allowance, 0), d.estimated_daily_allowance, 0),
+    'transportation', COALESCE(NULLIF(d.actual_transportation, 0), d.estimated_transportation, 0),
+    'accommodation', COALESCE(NULLIF(d.actual_accommodation, 0), d.estimated_accommodation, 0)
+  ) ORDER BY d.start_date), '[]'::jsonb)
+  INTO v_trips
+  FROM report_applications(p_organization_id, v_start, v_end, p_department) apps
+  JOIN business_trip_details d ON d.application_id = apps.id
+  WHERE apps.type = 'business_trip';
+
+  RETURN jsonb_build_object(
+    'period_start', p_period_start,
+    'period_end', p_period_end,
+    'department', p_department,
+    'summary', v_summary,
+    'by_person', v_by_person,
+    'by_category', v_by_category,
+    'by_destination', v_by_destination,
+    'trips', v_trips,
+    'generated_at', now()
+  );
+END;
+$$;
+
+-- 前月（日本時間）の月次レポートと、前月で締めた年度の年次レポートを登録する
+CREATE OR REPLACE FUNCTION enqueue_scheduled_reports(p_now timestamptz DEFAULT now())
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_month_end date := date_trunc('month', p_now AT TIME ZONE 'Asia/Tokyo')::date - 1;
+  v_month_start date := date_trunc('month', v_month_end)::date;
+  v_monthly integer;
+  v_annual integer;
+BEGIN
+  INSERT INTO report_jobs (organization_id, period_type, period_start, period_end)
+  SELECT organization_id, 'monthly', v_month_start, v_month_end
+  FROM report_schedules
+  WHERE monthly_enabled
+  ON CONFLICT (organization_id, period_type, period_start) DO NOTHING;
+  GET DIAGNOSTICS v_monthly = ROW_COUNT;
+
+  INSERT INTO report_jobs (organization_id, period_type, period_start, period_end)
+  SELECT organization_id, 'annual', (v_month_end + 1 - interval '1 year')::date, v_month_end
+  FROM report_schedules
+  WHERE annual_enabled
+    AND fiscal_year_start_month = extract(month FROM v_month_end + 1)
+  ON CONFLICT (organization_id, period_type, period_start) DO NOTHING;
+  GET DIAGNOSTICS v_annual = ROW_COUNT;
+
+  RETURN v_monthly + v_annual;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_report_jobs(
+  p_organization_id uuid,
+  p_limit integer DEFAULT 2,
+  p_lease_seconds integer DEFAULT 300
+)
+RETURNS SETOF report_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_organization_permission(p_organization_id, 'view_admin_dashboard') THEN
+    RAISE EXCEPTION 'Not allowed to process report jobs';
+  END IF;
+
+  RETURN QUERY
+  UPDATE report_jobs
+  SET status = 'processing',
+      attempt_count = attempt_count + 1,
+      locked_until = now() + make_interval(secs => p_lease_seconds),
+      error_message = NULL
+  WHERE id IN (
+    SELECT id FROM report_jobs
+    WHERE organization_id = p_organization_id
+      AND (status = 'pending' OR (status = 'processing' AND locked_until < now()))
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION report_applications(uuid, timestamptz, timestamptz, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_expense_report(uuid, date, date, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION enqueue_scheduled_reports(timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_report_jobs(uuid, integer, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_expense_report(uuid, date, date, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION claim_report_jobs(uuid, integer, integer) TO authenticated;
+
+-- 毎日0時10分（日本時間）に実行する（pg_cron がない環境では手動実行のみ）
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule('enqueue-scheduled-reports', '10 15 * * *', 'SELECT public.enqueue_scheduled_reports()');
+  ELSE
+    RAISE NOTICE 'pg_cron is not available; scheduled reports must be enqueued manually';
+  END IF;
+END;
+$$;
@@ -0,0 +1,98 @@
+/*
+  # 日当支給明細書の自動作成
+
+  1. Changes
+    - `business_trip_details.is_overseas` - 海外出張（日当は国内の1.5倍）
+
+  2. Functions
+    - `get_allowance_statement_trips(user_id, period_start, period_end)` - 明細書の対象となる出張
+      - 出張開始日が期間内の承認済み出張申請
+      - 出張ごとに、出張開始日の時点で施行されていた規程の版（支給基準）を返す
+
+  3. Notes
+    - 規程の版は作成日時（日本時間の日付）から施行されたものとみなす
+    - 出張開始日より前の版がない場合は版を返さない（画面では現在運用中の規程を使う）
+    - 日当の計算は見積もりと同じ計算（allowanceCalculator）を画面で行う
+
+  4. Security
+    - 本人の明細書は本人が作成できる
+    - 他の社員の明細書は組織の申請を閲覧できる権限（オーナー・管理者・経理）が必要
+*/
+
+ALTER TABLE business_trip_details ADD COLUMN IF NOT EXISTS is_overseas boolean NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION get_allowance_statement_trips(
+  p_user_id uuid,
+  p_period_start date,
+  p_period_end date
+)
+RETURNS TABLE (
+  application_id uuid,
+  title text,
+  destination text,
+  start_date date,
+  end_date date,
+  is_overseas boolean,
+  regulation_version_id uuid,
+  regulation_name text,
+  regulation_version text,
+  allowance_settings jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF p_period_start IS NULL OR p_period_end IS NULL OR p_period_end < p_period_start THEN
+    RAISE EXCEPTION 'Invalid statement period';
+  END IF;
+
+  IF p_user_id <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM organization_members m
+    WHERE m.user_id = p_user_id
+      AND has_organization_permission(m.organization_id, 'view_organization_applications')
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view allowance statement';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    a.id,
+    a.title,
+    COALESCE(NULLIF(trim(a.data->'tripDetails'->>'destination'), ''), '未設定'),
+    d.start_date,
+    d.end_date,
+    d.is_overseas,
+    v.id,
+    v.name,
+    v.version,
+    v.allowance_settings
+  FROM applications a
+  JOIN business_trip_details d ON d.application_id = a.id
+  LEFT JOIN LATERAL (
+    SELECT rv.id, rv.name, rv.version, rv.allowance_settings
+    FROM travel_regulation_versions rv
+    WHERE (
+        rv.organization_id = a.organization_id
+        OR (a.organization_id IS NULL AND rv.organization_id IS NULL AND rv.created_by = a.user_id)
+      )
+      AND (rv.created_at AT TIME ZONE 'Asia/Tokyo')::date <= d.start_date
+    ORDER BY rv.created_at DESC
+    LIMIT 1
+  ) v ON true
+  WHERE a.user_id = p_user_id
+    AND a.type = 'business_trip'
+    AND a.status = 'approved'
+    AND d.start_date BETWEEN p_period_start AND p_period_end
+    AND (p_user_id = auth.uid() OR has_organization_permission(a.organization_id, 'view_organization_applications'))
+  ORDER BY d.start_date, a.created_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_allowance_statement_trips(uuid, date, date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_allowance_statement_trips(uuid, date, date) TO authenticated;
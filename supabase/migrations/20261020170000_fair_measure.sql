@@ -0,0 +1,286 @@
+/*
+  # 出張申請の予定経費をサーバー側で再計算する
+
+  1. Functions
+    - `active_travel_regulation_settings(organization_id, user_id)` - 申請に適用する規程の支給基準
+      - 運用中の規程、なければ最新の下書き（画面の selectActiveRegulation と同じ選択）
+      - 組織のない申請は申請者個人の規程を使う。規程がなければ標準値
+    - `find_regulation_position(positions, position)` - 申請者の役職に対応する別表の区分（findPositionAllowance と同じ判定）
+    - `calculate_trip_allowance(settings, position, start_date, end_date, is_overseas, actual_transportation, actual_accommodation, distance_km)`
+      - 日当・交通費・宿泊料（allowanceCalculator の calculateTripAllowance と同じ計算）
+      - 距離基準（distanceThreshold）に満たない移動は日当を支給しない。距離が不明な場合は基準を満たすものとする
+    - `refresh_trip_estimate(application_id)` - 出張詳細の予定経費と申請の合計額を規程から求め直す
+
+  2. Triggers
+    - 出張詳細の作成・変更時、出張申請の作成・変更・提出時に予定経費と合計額を再計算する
+    - 下書き・差戻し中の申請と、提出（下書き → 審査中）の時点のみ。承認ルートは再計算後の合計額で割り当てられる
+
+  3. Notes
+    - クライアントが送った見積もり（data.tripDetails.allowanceEstimate）や合計額は使わない
+    - 規程で実費精算とされている交通費・宿泊料は申請者が入力した予定額（data.tripDetails）を使う
+      - 再計算した予定経費（business_trip_details.estimated_*）を入力額として使い直さない
+    - 移動距離は申請データの data.tripDetails.distanceKm を使う
+*/
+
+CREATE OR REPLACE FUNCTION active_travel_regulation_settings(p_organization_id uuid, p_user_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.allowance_settings
+  FROM travel_regulations r
+  WHERE r.status <> 'archived'
+    AND (
+      r.organization_id = p_organization_id
+      OR (p_organization_id IS NULL AND r.organization_id IS NULL AND r.created_by = p_user_id)
+    )
+  ORDER BY (r.status = 'active') DESC, r.created_at DESC
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION find_regulation_position(p_positions jsonb, p_position text)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_name text := trim(COALESCE(p_position, ''));
+  v_found jsonb;
+  v_category record;
+BEGIN
+  IF v_name <> '' THEN
+    SELECT pos INTO v_found
+    FROM jsonb_array_elements(p_positions) WITH ORDINALITY AS t(pos, idx)
+    WHERE pos->>'name' = v_name
+    ORDER BY idx
+    LIMIT 1;
+    IF v_found IS NOT NULL THEN RETURN v_found; END IF;
+
+    SELECT pos INTO v_found
+    FROM jsonb_array_elements(p_positions) WITH ORDINALITY AS t(pos, idx)
+    WHERE COALESCE(pos->>'name', '') <> ''
+      AND (strpos(v_name, pos->>'name') > 0 OR strpos(pos->>'name', v_name) > 0)
+    ORDER BY idx
+    LIMIT 1;
+    IF v_found IS NOT NULL THEN RETURN v_found; END IF;
+
+    -- 役職名のキーワードから区分を推定する
+    FOR v_category IN
+      SELECT * FROM (VALUES
+        (1, '役員', ARRAY['役員', '取締役', '社長', '代表', '会長', '監査役', '執行役']),
+        (2, '管理職', ARRAY['管理職', '部長', '課長', '次長', '室長', '所長', '支店長', 'マネージャー', 'マネジャー'])
+      ) AS c(ord, category, keywords)
+      ORDER BY ord
+    LOOP
+      IF EXISTS (SELECT 1 FROM unnest(v_category.keywords) k WHERE strpos(v_name, k) > 0) THEN
+        SELECT pos INTO v_found
+        FROM jsonb_array_elements(p_positions) WITH ORDINALITY AS t(pos, idx)
+        WHERE strpos(COALESCE(pos->>'name', ''), v_category.category) > 0
+          OR EXISTS (SELECT 1 FROM unnest(v_category.keywords) k WHERE strpos(COALESCE(pos->>'name', ''), k) > 0)
+        ORDER BY idx
+        LIMIT 1;
+        IF v_found IS NOT NULL THEN RETURN v_found; END IF;
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN p_positions->(jsonb_array_length(p_positions) - 1);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION calculate_trip_allowance(
+  p_settings jsonb,
+  p_position text,
+  p_start_date date,
+  p_end_date date,
+  p_is_overseas boolean DEFAULT false,
+  p_actual_transportation numeric DEFAULT 0,
+  p_actual_accommodation numeric DEFAULT 0,
+  p_distance_km numeric DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_positions jsonb := p_settings->'positions';
+  v_position jsonb;
+  v_nights integer;
+  v_days integer;
+  v_allowance_days integer;
+  v_daily numeric;
+BEGIN
+  -- 規程に別表がなければ標準値（出張規程作成画面の初期値）を使う
+  IF v_positions IS NULL OR jsonb_typeof(v_positions) <> 'array' OR jsonb_array_length(v_positions) = 0 THEN
+    v_positions := '[
+      {"name": "役員", "dailyAllowance": 8000, "transportationAllowance": 3000, "accommodationAllowance": 15000},
+      {"name": "管理職", "dailyAllowance": 6000, "transportationAllowance": 2500, "accommodationAllowance": 12000},
+      {"name": "一般職", "dailyAllowance": 5000, "transportationAllowance": 2000, "accommodationAllowance": 10000}
+    ]'::jsonb;
+  END IF;
+
+  v_nights := p_end_date - p_start_date;
+  IF v_nights IS NULL OR v_nights < 0 THEN
+    RETURN jsonb_build_object('daily_allowance', 0, 'transportation', 0, 'accommodation', 0);
+  END IF;
+  v_days := v_nights + 1;
+
+  -- 第4条：距離基準に満たない移動は出張として扱わない
+  v_allowance_days := CASE
+    WHEN p_distance_km IS NULL OR p_distance_km >= COALESCE((p_settings->>'distanceThreshold')::numeric, 50) THEN v_days
+    ELSE 0
+  END;
+
+  v_position := find_regulation_position(v_positions, p_position);
+  v_daily := COALESCE((v_position->>'dailyAllowance')::numeric, 0);
+  IF p_is_overseas THEN
+    v_daily := round(v_daily * 1.5);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'daily_allowance', v_daily * v_allowance_days,
+    'transportation', CASE
+      WHEN COALESCE((p_settings->>'isTransportationRealExpense')::boolean, false) THEN GREATEST(COALESCE(p_actual_transportation, 0), 0)
+      ELSE COALESCE((v_position->>'transportationAllowance')::numeric, 0) * v_days
+    END,
+    'accommodation', CASE
+      WHEN COALESCE((p_settings->>'isAccommodationRealExpense')::boolean, false) THEN GREATEST(COALESCE(p_actual_accommodation, 0), 0)
+      ELSE COALESCE((v_position->>'accommodationAllowance')::numeric, 0) * v_nights
+    END
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_trip_estimate(p_application_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_application applications%ROWTYPE;
+  v_settings jsonb;
+  v_position text;
+  v_estimate jsonb;
+  v_total numeric;
+  v_requested_transportation numeric;
+  v_requested_accommodation numeric;
+  v_distance_km numeric;
+BEGIN
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id;
+  IF NOT FOUND OR v_application.type <> 'business_trip' THEN
+    RETURN;
+  END IF;
+
+  v_settings := COALESCE(active_travel_regulation_settings(v_application.organization_id, v_application.user_id), '{}'::jsonb);
+  SELECT position INTO v_position FROM user_profiles WHERE id = v_application.user_id;
+
+  -- 申請者が入力した実費の予定額と移動距離（読み取れない値は未入力として扱う）
+  BEGIN
+    v_requested_transportation := (v_application.data->'tripDetails'->>'estimatedTransportation')::numeric;
+    v_requested_accommodation := (v_application.data->'tripDetails'->>'estimatedAccommodation')::numeric;
+    v_distance_km := (v_application.data->'tripDetails'->>'distanceKm')::numeric;
+  EXCEPTION WHEN invalid_text_representation THEN
+    v_requested_transportation := NULL;
+    v_requested_accommodation := NULL;
+    v_distance_km := NULL;
+  END;
+
+  UPDATE business_trip_details d
+  SET (estimated_daily_allowance, estimated_transportation, estimated_accommodation) = (
+    SELECT (e->>'daily_allowance')::numeric, (e->>'transportation')::numeric, (e->>'accommodation')::numeric
+    FROM calculate_trip_allowance(
+      v_settings, v_position, d.start_date, d.end_date, d.is_overseas,
+      v_requested_transportation, v_requested_accommodation, v_distance_km
+    ) AS e
+  )
+  WHERE d.application_id = p_application_id;
+
+  IF EXISTS (SELECT 1 FROM business_trip_details WHERE application_id = p_application_id) THEN
+    SELECT SUM(COALESCE(estimated_daily_allowance, 0) + COALESCE(estimated_transportation, 0) + COALESCE(estimated_accommodation, 0))
+    INTO v_total
+    FROM business_trip_details
+    WHERE application_id = p_application_id;
+  ELSE
+    -- 詳細がまだ登録されていない場合は申請データの出張期間から求める
+    BEGIN
+      v_estimate := calculate_trip_allowance(
+        v_settings, v_position,
+        (v_application.data->'tripDetails'->>'startDate')::date,
+        (v_application.data->'tripDetails'->>'endDate')::date,
+        COALESCE((v_application.data->'tripDetails'->>'isOverseas')::boolean, false),
+        v_requested_transportation,
+        v_requested_accommodation,
+        v_distance_km
+      );
+    EXCEPTION WHEN invalid_datetime_format OR datetime_field_overflow OR invalid_text_representation THEN
+      v_estimate := NULL;
+    END;
+    v_total := COALESCE(
+      (v_estimate->>'daily_allowance')::numeric + (v_estimate->>'transportation')::numeric + (v_estimate->>'accommodation')::numeric,
+      0
+    );
+  END IF;
+
+  UPDATE applications
+  SET total_amount = v_total
+  WHERE id = p_application_id AND total_amount IS DISTINCT FROM v_total;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_trip_estimate(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION active_travel_regulation_settings(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- 再計算による更新で再びトリガーが動かないよう、ネストした呼び出しでは何もしない
+CREATE OR REPLACE FUNCTION refresh_trip_estimate_on_details()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM applications
+    WHERE id = NEW.application_id AND status IN ('draft', 'returned')
+  ) THEN
+    PERFORM refresh_trip_estimate(NEW.application_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_trip_estimate_on_details ON business_trip_details;
+CREATE TRIGGER refresh_trip_estimate_on_details
+  AFTER INSERT OR UPDATE ON business_trip_details
+  FOR EACH ROW EXECUTE PROCEDURE refresh_trip_estimate_on_details();
+
+CREATE OR REPLACE FUNCTION refresh_trip_estimate_on_applications()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 OR NEW.type <> 'business_trip' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR OLD.status IN ('draft', 'returned') THEN
+    PERFORM refresh_trip_estimate(NEW.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_trip_estimate_on_applications ON applications;
+CREATE TRIGGER refresh_trip_estimate_on_applications
+  AFTER INSERT OR UPDATE OF organization_id, status, data, total_amount ON applications
+  FOR EACH ROW EXECUTE PROCEDURE refresh_trip_estimate_on_applications();
@@ -0,0 +1,66 @@
+/*
+  # 申請の組織の設定と承認者による詳細の閲覧
+
+  1. Triggers
+    - `assign_application_organization` - 申請の作成時・組織の変更時に組織を検証する
+      - 組織が指定されていなければ、申請者のデフォルト組織（所属している場合のみ）を設定する
+      - 申請者が所属していない組織は指定できない
+
+  2. Security
+    - 現在のステップの承認者は、対象申請の出張詳細・経費明細を閲覧可能
+
+  3. Notes
+    - 組織のない申請は役職・役割のステップを承認できず、承認が進まなかったため
+    - 組織が設定されていない既存の下書き・差戻し中の申請には、申請者のデフォルト組織（所属している場合のみ）を設定する
+*/
+
+CREATE OR REPLACE FUNCTION assign_application_organization()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.organization_id IS NOT DISTINCT FROM OLD.organization_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.organization_id IS NULL THEN
+    SELECT p.default_organization_id INTO NEW.organization_id
+    FROM user_profiles p
+    WHERE p.id = NEW.user_id
+      AND organization_member_role(p.default_organization_id, NEW.user_id) IS NOT NULL;
+  ELSIF organization_member_role(NEW.organization_id, NEW.user_id) IS NULL THEN
+    RAISE EXCEPTION 'Not a member of the organization';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_application_organization ON applications;
+CREATE TRIGGER assign_application_organization
+  BEFORE INSERT OR UPDATE OF organization_id ON applications
+  FOR EACH ROW EXECUTE PROCEDURE assign_application_organization();
+
+UPDATE applications a
+SET organization_id = p.default_organization_id
+FROM user_profiles p
+WHERE p.id = a.user_id
+  AND a.organization_id IS NULL
+  AND a.status IN ('draft', 'returned')
+  AND organization_member_role(p.default_organization_id, a.user_id) IS NOT NULL;
+
+DROP POLICY IF EXISTS "Current approvers can read trip details" ON business_trip_details;
+CREATE POLICY "Current approvers can read trip details"
+  ON business_trip_details
+  FOR SELECT
+  TO authenticated
+  USING (can_approve_application(application_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Current approvers can read expense items" ON expense_items;
+CREATE POLICY "Current approvers can read expense items"
+  ON expense_items
+  FOR SELECT
+  TO authenticated
+  USING (can_approve_application(application_id, auth.uid()));
@@ -0,0 +1,266 @@
+/*
+  # 出張規程の施行期間と変更履歴の保護
+
+  1. New Tables
+    - `travel_regulation_activations` - 規程の施行期間（どの版がいつからいつまで運用されていたか）
+      - `regulation_id`, `version_id` - 運用された規程と版
+      - `effective_from` - 施行日（日本時間の日付）
+      - `effective_to` - 施行終了日（この日から次の期間。運用中は NULL）
+
+  2. Functions
+    - `set_travel_regulation_status(regulation_id, status)` - 運用開始・運用終了・廃止
+      - 運用開始時は同じ組織（個人の規程は同じ作成者）の他の運用中の規程を廃止し、施行期間を記録する
+    - `save_travel_regulation_version` - 運用中の規程に新しい版を保存した場合は、その日から新しい版を施行する
+
+  3. Changes
+    - 規程の変更・削除はクライアントから直接行えない（版を作成する関数と運用状態を変更する関数のみ）
+    - 版のある規程は削除できない（ON DELETE CASCADE を廃止し、組織の削除に伴う削除のみ可能）
+
+  4. Notes
+    - 既存の運用中の規程は、現在の版の作成日から施行されたものとして記録する
+*/
+
+-- 組織の削除では規程と版が同じ文で削除されるため、文の終わりに検査する NO ACTION にする
+ALTER TABLE travel_regulation_versions DROP CONSTRAINT IF EXISTS travel_regulation_versions_regulation_id_fkey;
+ALTER TABLE travel_regulation_versions
+  ADD CONSTRAINT travel_regulation_versions_regulation_id_fkey
+  FOREIGN KEY (regulation_id) REFERENCES travel_regulations(id) ON DELETE NO ACTION;
+
+DROP POLICY IF EXISTS "Organization admins can manage travel regulations" ON travel_regulations;
+
+CREATE TABLE IF NOT EXISTS travel_regulation_activations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  regulation_id uuid REFERENCES travel_regulations(id) ON DELETE NO ACTION NOT NULL,
+  version_id uuid REFERENCES travel_regulation_versions(id) ON DELETE NO ACTION NOT NULL,
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  effective_from date NOT NULL,
+  effective_to date,
+  activated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_travel_regulation_activations_org ON travel_regulation_activations(organization_id, effective_from);
+CREATE INDEX IF NOT EXISTS idx_travel_regulation_activations_regulation ON travel_regulation_activations(regulation_id, effective_from);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_travel_regulation_activations_open
+  ON travel_regulation_activations(regulation_id) WHERE effective_to IS NULL;
+
+ALTER TABLE travel_regulation_activations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Organization members can read travel regulation activations" ON travel_regulation_activations;
+CREATE POLICY "Organization members can read travel regulation activations"
+  ON travel_regulation_activations
+  FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+    OR (organization_id IS NULL AND EXISTS (
+      SELECT 1 FROM travel_regulations r
+      WHERE r.id = regulation_id AND r.created_by = auth.uid()
+    ))
+  );
+
+-- 施行期間を切り替える（その日に始まった期間は版だけを差し替える）
+CREATE OR REPLACE FUNCTION open_travel_regulation_activation(p_regulation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_regulation travel_regulations%ROWTYPE;
+  v_today date := (now() AT TIME ZONE 'Asia/Tokyo')::date;
+BEGIN
+  SELECT * INTO v_regulation FROM travel_regulations WHERE id = p_regulation_id;
+
+  UPDATE travel_regulation_activations
+  SET version_id = v_regulation.current_version_id
+  WHERE regulation_id = p_regulation_id AND effective_to IS NULL AND effective_from = v_today;
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE travel_regulation_activations
+  SET effective_to = v_today
+  WHERE regulation_id = p_regulation_id AND effective_to IS NULL;
+
+  INSERT INTO travel_regulation_activations (regulation_id, version_id, organization_id, effective_from, activated_by)
+  VALUES (p_regulation_id, v_regulation.current_version_id, v_regulation.organization_id, v_today, auth.uid());
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION close_travel_regulation_activation(p_regulation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today date := (now() AT TIME ZONE 'Asia/Tokyo')::date;
+BEGIN
+  -- 当日に始まった期間は施行されなかったものとして削除する
+  DELETE FROM travel_regulation_activations
+  WHERE regulation_id = p_regulation_id AND effective_to IS NULL AND effective_from = v_today;
+
+  UPDATE travel_regulation_activations
+  SET effective_to = v_today
+  WHERE regulation_id = p_regulation_id AND effective_to IS NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION open_travel_regulation_activation(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION close_travel_regulation_activation(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION set_travel_regulation_status(
+  p_regulation_id uuid,
+  p_status text
+)
+RETURNS travel_regulations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_regulation travel_regulations%ROWTYPE;
+  v_other uuid;
+BEGIN
+  IF p_status NOT IN ('draft', 'active', 'archived') THEN
+    RAISE EXCEPTION 'Invalid travel regulation status: %', p_status;
+  END IF;
+
+  SELECT * INTO v_regulation FROM travel_regulations WHERE id = p_regulation_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Travel regulation not found';
+  END IF;
+
+  IF NOT can_manage_travel_regulation(v_regulation.organization_id, v_regulation.created_by) THEN
+    RAISE EXCEPTION 'Not authorized to update this travel regulation';
+  END IF;
+
+  IF v_regulation.status = p_status THEN
+    RETURN v_regulation;
+  END IF;
+
+  IF p_status = 'active' THEN
+    IF v_regulation.current_version_id IS NULL THEN
+      RAISE EXCEPTION 'Travel regulation has no version';
+    END IF;
+
+    -- 同時に運用できる規程は1つ
+    FOR v_other IN
+      SELECT id FROM travel_regulations
+      WHERE id <> p_regulation_id
+        AND status = 'active'
+        AND (
+          organization_id = v_regulation.organization_id
+          OR (v_regulation.organization_id IS NULL AND organization_id IS NULL AND created_by = v_regulation.created_by)
+        )
+      FOR UPDATE
+    LOOP
+      PERFORM close_travel_regulation_activation(v_other);
+      UPDATE travel_regulations SET status = 'archived' WHERE id = v_other;
+    END LOOP;
+
+    PERFORM open_travel_regulation_activation(p_regulation_id);
+  ELSIF v_regulation.status = 'active' THEN
+    PERFORM close_travel_regulation_activation(p_regulation_id);
+  END IF;
+
+  UPDATE travel_regulations SET status = p_status WHERE id = p_regulation_id
+  RETURNING * INTO v_regulation;
+
+  RETURN v_regulation;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_travel_regulation_status(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_travel_regulation_status(uuid, text) TO authenticated;
+
+-- 規程を保存し、新しい版を作成する
+-- p_regulation_id が NULL の場合は規程を新規作成する
+CREATE OR REPLACE FUNCTION save_travel_regulation_version(
+  p_regulation_id uuid,
+  p_organization_id uuid,
+  p_name text,
+  p_company_info jsonb,
+  p_articles jsonb,
+  p_allowance_settings jsonb,
+  p_change_summary text DEFAULT NULL,
+  p_restored_from uuid DEFAULT NULL
+)
+RETURNS travel_regulation_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_regulation travel_regulations%ROWTYPE;
+  v_version travel_regulation_versions%ROWTYPE;
+  v_version_number integer;
+BEGIN
+  IF p_regulation_id IS NULL THEN
+    IF NOT can_manage_travel_regulation(p_organization_id, auth.uid()) THEN
+      RAISE EXCEPTION 'Not authorized to create travel regulations';
+    END IF;
+
+    INSERT INTO travel_regulations (organization_id, name, version, company_info, articles, allowance_settings, status, created_by)
+    VALUES (p_organization_id, p_name, 'v1.0', p_company_info, p_articles, p_allowance_settings, 'draft', auth.uid())
+    RETURNING * INTO v_regulation;
+  ELSE
+    SELECT * INTO v_regulation FROM travel_regulations WHERE id = p_regulation_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Travel regulation not found';
+    END IF;
+
+    IF NOT can_manage_travel_regulation(v_regulation.organization_id, v_regulation.created_by) THEN
+      RAISE EXCEPTION 'Not authorized to update this travel regulation';
+    END IF;
+  END IF;
+
+  SELECT COALESCE(MAX(version_number), 0) + 1 INTO v_version_number
+  FROM travel_regulation_versions
+  WHERE regulation_id = v_regulation.id;
+
+  INSERT INTO travel_regulation_versions (
+    regulation_id, organization_id, version_number, version, name,
+    company_info, articles, allowance_settings, change_summary, restored_from, created_by
+  )
+  VALUES (
+    v_regulation.id, v_regulation.organization_id, v_version_number, 'v' || v_version_number || '.0', p_name,
+    p_company_info, p_articles, p_allowance_settings, p_change_summary, p_restored_from, auth.uid()
+  )
+  RETURNING * INTO v_version;
+
+  -- 規程本体は常に最新の版の内容を保持する
+  UPDATE travel_regulations
+  SET name = p_name,
+      version = v_version.version,
+      company_info = p_company_info,
+      articles = p_articles,
+      allowance_settings = p_allowance_settings,
+      current_version_id = v_version.id,
+      updated_at = now()
+  WHERE id = v_regulation.id;
+
+  -- 運用中の規程は保存した日から新しい版を施行する
+  IF v_regulation.status = 'active' THEN
+    PERFORM open_travel_regulation_activation(v_regulation.id);
+  END IF;
+
+  RETURN v_version;
+END;
+$$;
+
+-- 既存の運用中の規程の施行期間
+INSERT INTO travel_regulation_activations (regulation_id, version_id, organization_id, effective_from)
+SELECT r.id, r.current_version_id, r.organization_id, (v.created_at AT TIME ZONE 'Asia/Tokyo')::date
+FROM travel_regulations r
+JOIN travel_regulation_versions v ON v.id = r.current_version_id
+WHERE r.status = 'active'
+  AND NOT EXISTS (SELECT 1 FROM travel_regulation_activations a WHERE a.regulation_id = r.id);
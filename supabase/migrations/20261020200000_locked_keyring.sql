@@ -0,0 +1,107 @@
+/*
+  # 会計ソフトの接続情報の分離
+
+  1. New Tables
+    - `accounting_credentials` - 会計ソフトごとの接続情報（アクセストークン・事業所ID）
+      - 組織設定（organizations.settings.accounting）から移す
+
+  2. Functions
+    - `save_accounting_settings(organization_id, provider, mapping, connection)` - 連携設定の保存
+      - 対応表は組織設定の該当する会計ソフトのキーだけをサーバー側で更新する（他の設定を上書きしない）
+      - 接続情報は accounting_credentials に保存する。アクセストークンが空の場合は保存済みのものを使う
+
+  3. Security
+    - 組織設定は全メンバーが閲覧できるため、接続情報は会計連携の権限（オーナー・管理者）を持つユーザーのみ閲覧できる表に置く
+    - 接続情報の変更は関数経由のみ
+*/
+
+CREATE TABLE IF NOT EXISTS accounting_credentials (
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  provider text NOT NULL CHECK (provider IN ('freee', 'moneyforward', 'yayoi')),
+  access_token text,
+  company_id text,
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (organization_id, provider)
+);
+
+ALTER TABLE accounting_credentials ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Accounting managers can read credentials" ON accounting_credentials;
+CREATE POLICY "Accounting managers can read credentials"
+  ON accounting_credentials
+  FOR SELECT
+  TO authenticated
+  USING (has_organization_permission(organization_id, 'manage_accounting'));
+
+DROP TRIGGER IF EXISTS handle_accounting_credentials_updated_at ON accounting_credentials;
+CREATE TRIGGER handle_accounting_credentials_updated_at
+  BEFORE UPDATE ON accounting_credentials
+  FOR EACH ROW EXECUTE PROCEDURE handle_updated_at();
+
+-- 既存の接続情報を移し、組織設定から削除する
+INSERT INTO accounting_credentials (organization_id, provider, access_token, company_id)
+SELECT o.id, p.key, NULLIF(p.value->'connection'->>'accessToken', ''), NULLIF(p.value->'connection'->>'companyId', '')
+FROM organizations o
+CROSS JOIN LATERAL jsonb_each(COALESCE(o.settings->'accounting', '{}'::jsonb)) AS p(key, value)
+WHERE p.key IN ('freee', 'moneyforward', 'yayoi')
+  AND jsonb_typeof(p.value->'connection') = 'object'
+ON CONFLICT (organization_id, provider) DO NOTHING;
+
+UPDATE organizations o
+SET settings = jsonb_set(
+  o.settings,
+  '{accounting}',
+  (
+    SELECT COALESCE(jsonb_object_agg(p.key, p.value - 'connection'), '{}'::jsonb)
+    FROM jsonb_each(o.settings->'accounting') AS p(key, value)
+  )
+)
+WHERE jsonb_typeof(o.settings->'accounting') = 'object';
+
+CREATE OR REPLACE FUNCTION save_accounting_settings(
+  p_organization_id uuid,
+  p_provider text,
+  p_mapping jsonb,
+  p_connection jsonb DEFAULT '{}'::jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_organization_permission(p_organization_id, 'manage_accounting') THEN
+    RAISE EXCEPTION 'Not authorized to manage accounting settings';
+  END IF;
+
+  IF p_provider NOT IN ('freee', 'moneyforward', 'yayoi') THEN
+    RAISE EXCEPTION 'Invalid accounting provider: %', p_provider;
+  END IF;
+
+  UPDATE organizations
+  SET settings = jsonb_set(
+        COALESCE(settings, '{}'::jsonb),
+        '{accounting}',
+        COALESCE(settings->'accounting', '{}'::jsonb) || jsonb_build_object(p_provider, jsonb_build_object('mapping', p_mapping))
+      ),
+      updated_at = now()
+  WHERE id = p_organization_id;
+
+  INSERT INTO accounting_credentials (organization_id, provider, access_token, company_id, updated_by)
+  VALUES (
+    p_organization_id, p_provider,
+    NULLIF(p_connection->>'accessToken', ''),
+    NULLIF(p_connection->>'companyId', ''),
+    auth.uid()
+  )
+  ON CONFLICT (organization_id, provider) DO UPDATE
+  SET access_token = COALESCE(EXCLUDED.access_token, accounting_credentials.access_token),
+      company_id = EXCLUDED.company_id,
+      updated_by = EXCLUDED.updated_by;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_accounting_settings(uuid, text, jsonb, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_accounting_settings(uuid, text, jsonb, jsonb) TO authenticated;
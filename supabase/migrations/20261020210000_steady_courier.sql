@@ -0,0 +1,125 @@
+/*
+  # 会計連携の送信をサーバー側の定期実行に移す
+
+  1. Functions
+    - `claim_due_accounting_sync_jobs(limit, lease_seconds)` - 全組織の送信予定を過ぎたジョブをロックして取得する（Edge Function accounting-sync 用）
+    - `invoke_edge_function(name)` - Edge Function を service_role のキーで呼び出す（pg_net）
+      - 接続先とキーは Vault のシークレット `project_url` / `service_role_key` から読む
+    - `get_accounting_connections(organization_id)` - 接続情報の設定状況（事業所ID・アクセストークンの有無）
+
+  2. Changes
+    - 送信は画面ではなく Edge Function accounting-sync で行う。pg_cron が利用できる環境では毎分実行する
+    - 画面からのジョブの取得（claim_accounting_sync_jobs）と送信履歴の記録は行えない
+
+  3. Security
+    - アクセストークンはクライアントから閲覧できない（accounting_credentials の閲覧ポリシーを削除）
+    - ジョブの取得と Edge Function の呼び出しは service_role のみ実行可能
+*/
+
+-- 送信予定を過ぎたジョブを全組織からロックして取得する
+-- ロック期限が切れたジョブ（処理中に関数が終了したなど）は再取得する
+CREATE OR REPLACE FUNCTION claim_due_accounting_sync_jobs(
+  p_limit integer DEFAULT 20,
+  p_lease_seconds integer DEFAULT 120
+)
+RETURNS SETOF accounting_sync_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE accounting_sync_jobs
+  SET status = 'processing',
+      locked_until = now() + make_interval(secs => p_lease_seconds),
+      updated_at = now()
+  WHERE id IN (
+    SELECT id FROM accounting_sync_jobs
+    WHERE (status IN ('pending', 'retrying') AND next_retry_at <= now())
+       OR (status = 'processing' AND locked_until < now())
+    ORDER BY next_retry_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_due_accounting_sync_jobs(integer, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_accounting_sync_jobs(uuid, integer, integer) FROM PUBLIC, anon, authenticated;
+
+DROP POLICY IF EXISTS "Organization admins can record accounting sync attempts" ON accounting_sync_attempts;
+DROP POLICY IF EXISTS "Accounting managers can read credentials" ON accounting_credentials;
+
+-- 接続情報の設定状況（アクセストークンそのものは返さない）
+CREATE OR REPLACE FUNCTION get_accounting_connections(p_organization_id uuid)
+RETURNS TABLE (provider text, company_id text, has_access_token boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_organization_permission(p_organization_id, 'manage_accounting') THEN
+    RAISE EXCEPTION 'Not authorized to manage accounting settings';
+  END IF;
+
+  RETURN QUERY
+  SELECT c.provider, c.company_id, c.access_token IS NOT NULL
+  FROM accounting_credentials c
+  WHERE c.organization_id = p_organization_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_accounting_connections(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_accounting_connections(uuid) TO authenticated;
+
+-- Edge Function を呼び出す（pg_net がない環境では何もしない）
+CREATE OR REPLACE FUNCTION invoke_edge_function(p_name text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project_url text;
+  v_service_role_key text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    RAISE NOTICE 'pg_net is not installed; % was not invoked', p_name;
+    RETURN;
+  END IF;
+
+  SELECT decrypted_secret INTO v_project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO v_service_role_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF v_project_url IS NULL OR v_service_role_key IS NULL THEN
+    RAISE WARNING 'Vault secrets project_url / service_role_key are not set; % was not invoked', p_name;
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := rtrim(v_project_url, '/') || '/functions/v1/' || p_name,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_service_role_key
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION invoke_edge_function(text) FROM PUBLIC, anon, authenticated;
+
+-- 毎分実行する（pg_cron・pg_net がない環境では手動実行のみ）
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_net') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    CREATE EXTENSION IF NOT EXISTS pg_net;
+    PERFORM cron.schedule('accounting-sync', '* * * * *', 'SELECT public.invoke_edge_function(''accounting-sync'')');
+  ELSE
+    RAISE NOTICE 'pg_cron or pg_net is not available; accounting sync jobs must be run manually';
+  END IF;
+END;
+$$;
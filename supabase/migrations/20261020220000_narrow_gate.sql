@@ -0,0 +1,145 @@
+/*
+  # 外部承認リンクの発行者の制限と署名の比較
+
+  1. Functions
+    - `create_approval_link` - 発行できるのは現在のステップの承認者のみ（組織のオーナー・管理者であっても承認者でなければ発行できない）
+    - `find_approval_link` - 署名を固定時間で比較する。発行者が対象ステップの承認者でなくなったリンクは無効（closed）とする
+    - `approval_link_signature_equals(expected, actual)` - 一致しない位置によらず同じ時間で比較する
+
+  2. Notes
+    - リンクは発行者の承認権限を外部承認者に委ねるもののため、発行者の権限は使用時にも確認する
+*/
+
+CREATE OR REPLACE FUNCTION approval_link_signature_equals(p_expected text, p_actual text)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_expected bytea := convert_to(COALESCE(p_expected, ''), 'UTF8');
+  v_actual bytea := convert_to(COALESCE(p_actual, ''), 'UTF8');
+  v_diff integer;
+BEGIN
+  v_diff := octet_length(v_expected) # octet_length(v_actual);
+  FOR i IN 0 .. octet_length(v_expected) - 1 LOOP
+    v_diff := v_diff | (
+      get_byte(v_expected, i) # CASE WHEN i < octet_length(v_actual) THEN get_byte(v_actual, i) ELSE 0 END
+    );
+  END LOOP;
+  RETURN v_diff = 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION approval_link_signature_equals(text, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION find_approval_link(p_token text, OUT o_link approval_links, OUT o_reason text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_parts text[];
+  v_link_id uuid;
+  v_application applications%ROWTYPE;
+BEGIN
+  v_parts := string_to_array(COALESCE(p_token, ''), '.');
+  IF array_length(v_parts, 1) IS DISTINCT FROM 2 OR v_parts[1] !~* '^[0-9a-f-]{36}$' THEN
+    o_reason := 'invalid';
+    RETURN;
+  END IF;
+  v_link_id := v_parts[1]::uuid;
+
+  SELECT * INTO o_link FROM approval_links WHERE id = v_link_id;
+  IF NOT FOUND OR NOT approval_link_signature_equals(sign_approval_link(o_link), lower(v_parts[2])) THEN
+    o_link := NULL;
+    o_reason := 'invalid';
+    RETURN;
+  END IF;
+
+  IF o_link.revoked_at IS NOT NULL THEN
+    o_reason := 'revoked';
+  ELSIF o_link.used_at IS NOT NULL THEN
+    o_reason := 'used';
+  ELSIF o_link.expires_at <= now() THEN
+    o_reason := 'expired';
+  ELSE
+    SELECT * INTO v_application FROM applications WHERE id = o_link.application_id;
+    IF v_application.status <> 'pending' OR COALESCE(v_application.current_step, 1) <> o_link.step THEN
+      o_reason := 'closed';
+    ELSIF o_link.created_by IS NULL OR NOT can_approve_application(o_link.application_id, o_link.created_by) THEN
+      -- 発行後に承認ルートや役職が変わり、発行者が承認者でなくなった
+      o_reason := 'closed';
+    END IF;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_approval_link(
+  p_application_id uuid,
+  p_approver_name text,
+  p_approver_email text DEFAULT NULL,
+  p_expires_in_hours integer DEFAULT 24
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_application applications%ROWTYPE;
+  v_link approval_links%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF COALESCE(trim(p_approver_name), '') = '' THEN
+    RAISE EXCEPTION 'Approver name is required';
+  END IF;
+
+  IF p_expires_in_hours IS NULL OR p_expires_in_hours < 1 OR p_expires_in_hours > 24 * 30 THEN
+    RAISE EXCEPTION 'Expiry must be between 1 hour and 30 days';
+  END IF;
+
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF v_application.status <> 'pending' THEN
+    RAISE EXCEPTION 'Application is not awaiting approval';
+  END IF;
+
+  IF v_application.approval_steps IS NULL THEN
+    PERFORM assign_approval_route(p_application_id);
+    SELECT * INTO v_application FROM applications WHERE id = p_application_id;
+  END IF;
+
+  -- 現在のステップの承認者のみ（申請者本人は can_approve_application で除かれる）
+  IF NOT can_approve_application(p_application_id, v_user_id) THEN
+    RAISE EXCEPTION 'Not authorized to issue approval links for this application';
+  END IF;
+
+  INSERT INTO approval_links (application_id, step, approver_name, approver_email, expires_at, created_by)
+  VALUES (
+    p_application_id,
+    COALESCE(v_application.current_step, 1),
+    trim(p_approver_name),
+    NULLIF(trim(COALESCE(p_approver_email, '')), ''),
+    date_trunc('second', now()) + make_interval(hours => p_expires_in_hours),
+    v_user_id
+  )
+  RETURNING * INTO v_link;
+
+  RETURN jsonb_build_object(
+    'link_id', v_link.id,
+    'token', v_link.id::text || '.' || sign_approval_link(v_link),
+    'step', v_link.step,
+    'expires_at', v_link.expires_at
+  );
+END;
+$$;
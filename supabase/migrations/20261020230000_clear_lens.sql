@@ -0,0 +1,138 @@
+/*
+  # 申請検索の範囲の修正
+
+  1. Functions
+    - `search_applications`
+      - scope = 'self' は組織に関係なく自分の申請をすべて検索する（組織未設定の下書きも含む）
+      - scope = 'organization' は組織の申請を閲覧する権限（view_organization_applications）を持つユーザーが検索できる
+*/
+
+CREATE OR REPLACE FUNCTION search_applications(
+  p_organization_id uuid,
+  p_keyword text DEFAULT NULL,
+  p_start date DEFAULT NULL,
+  p_end date DEFAULT NULL,
+  p_applicant text DEFAULT NULL,
+  p_department text DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_type text DEFAULT NULL,
+  p_min_amount numeric DEFAULT NULL,
+  p_max_amount numeric DEFAULT NULL,
+  p_tag_ids uuid[] DEFAULT NULL,
+  p_scope text DEFAULT 'organization',
+  p_limit integer DEFAULT 50,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  organization_id uuid,
+  type text,
+  title text,
+  description text,
+  total_amount numeric,
+  status text,
+  submitted_at timestamptz,
+  approved_at timestamptz,
+  approved_by uuid,
+  created_at timestamptz,
+  updated_at timestamptz,
+  applicant_name text,
+  applicant_department text,
+  approver_name text,
+  tags jsonb,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_terms text[];
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF p_scope NOT IN ('organization', 'self') THEN
+    RAISE EXCEPTION 'Invalid search scope: %', p_scope;
+  END IF;
+
+  IF p_scope = 'organization' AND NOT has_organization_permission(p_organization_id, 'view_organization_applications') THEN
+    RAISE EXCEPTION 'Not allowed to search organization applications';
+  END IF;
+
+  -- 全角空白も区切りとして扱い、LIKE の特殊文字はエスケープする
+  v_terms := ARRAY(
+    SELECT '%' || replace(replace(replace(term, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    FROM regexp_split_to_table(trim(COALESCE(p_keyword, '')), '[\s　]+') AS term
+    WHERE term <> ''
+  );
+
+  RETURN QUERY
+  SELECT
+    a.id,
+    a.user_id,
+    a.organization_id,
+    a.type,
+    a.title,
+    a.description,
+    COALESCE(a.total_amount, 0),
+    a.status,
+    a.submitted_at,
+    a.approved_at,
+    a.approved_by,
+    a.created_at,
+    a.updated_at,
+    applicant.full_name,
+    applicant.department,
+    approver.full_name,
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', t.id, 'name', t.name, 'color', t.color) ORDER BY t.name)
+      FROM application_tag_assignments ta
+      JOIN application_tags t ON t.id = ta.tag_id
+      WHERE ta.application_id = a.id
+    ), '[]'::jsonb),
+    count(*) OVER ()
+  FROM applications a
+  LEFT JOIN application_search_index si ON si.application_id = a.id
+  LEFT JOIN user_profiles applicant ON applicant.id = a.user_id
+  LEFT JOIN user_profiles approver ON approver.id = a.approved_by
+  -- 自分の申請は組織に関係なく対象にする（組織未設定の下書きなど）
+  WHERE (
+      (p_scope = 'organization' AND a.organization_id = p_organization_id)
+      OR (p_scope = 'self' AND a.user_id = v_user_id)
+    )
+    -- 他人の下書きは対象外
+    AND (a.status <> 'draft' OR a.user_id = v_user_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM unnest(v_terms) AS pattern
+      WHERE NOT (
+        COALESCE(si.search_text, a.title) ILIKE pattern
+        OR COALESCE(applicant.full_name, '') ILIKE pattern
+      )
+    )
+    AND (p_start IS NULL OR (COALESCE(a.submitted_at, a.created_at) AT TIME ZONE 'Asia/Tokyo')::date >= p_start)
+    AND (p_end IS NULL OR (COALESCE(a.submitted_at, a.created_at) AT TIME ZONE 'Asia/Tokyo')::date <= p_end)
+    AND (NULLIF(trim(p_applicant), '') IS NULL
+      OR applicant.full_name ILIKE '%' || replace(replace(replace(trim(p_applicant), '\', '\\'), '%', '\%'), '_', '\_') || '%')
+    AND (NULLIF(p_department, '') IS NULL OR applicant.department = p_department)
+    AND (NULLIF(p_status, '') IS NULL OR a.status = p_status)
+    AND (NULLIF(p_type, '') IS NULL OR a.type = p_type)
+    AND (p_min_amount IS NULL OR COALESCE(a.total_amount, 0) >= p_min_amount)
+    AND (p_max_amount IS NULL OR COALESCE(a.total_amount, 0) <= p_max_amount)
+    AND (
+      COALESCE(cardinality(p_tag_ids), 0) = 0
+      OR (
+        SELECT count(DISTINCT ta.tag_id)
+        FROM application_tag_assignments ta
+        WHERE ta.application_id = a.id AND ta.tag_id = ANY (p_tag_ids)
+      ) = (SELECT count(DISTINCT tag_id) FROM unnest(p_tag_ids) AS tag_id)
+    )
+  ORDER BY COALESCE(a.submitted_at, a.created_at) DESC, a.id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 50), 1), 500)
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+END;
+$$;
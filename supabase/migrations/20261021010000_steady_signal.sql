@@ -0,0 +1,23 @@
+/*
+  # Web Push 送信ジョブの定期実行
+
+  1. Changes
+    - pg_cron が利用できる環境では、Edge Function send-push-jobs を毎分呼び出して push_jobs を配信する
+      - 呼び出しは invoke_edge_function（Vault の project_url / service_role_key を使う）
+
+  2. Notes
+    - pg_cron・pg_net がない環境では Edge Function を手動または外部のスケジューラーから呼び出す
+*/
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_net') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    CREATE EXTENSION IF NOT EXISTS pg_net;
+    PERFORM cron.schedule('send-push-jobs', '* * * * *', 'SELECT public.invoke_edge_function(''send-push-jobs'')');
+  ELSE
+    RAISE NOTICE 'pg_cron or pg_net is not available; push jobs must be sent manually';
+  END IF;
+END;
+$$;
@@ -0,0 +1,97 @@
+/*
+  # 提出時の組織の所属確認
+
+  1. Functions
+    - `transition_application` - 提出時に申請の組織（未設定の場合は申請者のデフォルト組織）に申請者が所属していることを確認する
+      - 所属していない場合は 'Not a member of the organization' で提出を拒否する
+
+  2. Notes
+    - 組織の変更は assign_application_organization トリガーでも検証しているが、作成後に組織を離れた場合も提出時に拒否する
+*/
+
+CREATE OR REPLACE FUNCTION transition_application(
+  p_application_id uuid,
+  p_action text,
+  p_comment text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_application applications%ROWTYPE;
+  v_status text;
+  v_organization_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  v_status := CASE p_action
+    WHEN 'submit' THEN 'pending'
+    WHEN 'reopen' THEN 'draft'
+    WHEN 'withdraw' THEN 'withdrawn'
+    WHEN 'cancel' THEN 'cancelled'
+  END;
+
+  IF v_status IS NULL THEN
+    RAISE EXCEPTION 'Invalid application action: %', p_action;
+  END IF;
+
+  IF p_action = 'cancel' AND COALESCE(trim(p_comment), '') = '' THEN
+    RAISE EXCEPTION 'A comment is required for % actions', p_action;
+  END IF;
+
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF v_application.user_id <> v_user_id AND NOT (
+    p_action = 'cancel' AND has_organization_permission(v_application.organization_id, 'cancel_applications')
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to change this application';
+  END IF;
+
+  IF application_transition_action(v_application.status, v_status) IS DISTINCT FROM p_action THEN
+    RAISE EXCEPTION 'Cannot % an application in % status', p_action, v_application.status;
+  END IF;
+
+  PERFORM set_config('app.transition_comment', COALESCE(trim(p_comment), ''), true);
+
+  IF p_action = 'submit' THEN
+    v_organization_id := COALESCE(
+      v_application.organization_id,
+      (SELECT default_organization_id FROM user_profiles WHERE id = v_application.user_id)
+    );
+
+    -- デフォルト組織はユーザーが変更できるため、提出時点で所属を確認する
+    IF v_organization_id IS NOT NULL AND organization_member_role(v_organization_id, v_application.user_id) IS NULL THEN
+      RAISE EXCEPTION 'Not a member of the organization';
+    END IF;
+
+    -- 承認ルートは提出時点の組織・金額で割り当てる
+    UPDATE applications
+    SET organization_id = v_organization_id,
+        rejection_reason = NULL
+    WHERE id = p_application_id;
+
+    PERFORM assign_approval_route(p_application_id);
+
+    UPDATE applications SET status = 'pending' WHERE id = p_application_id;
+  ELSIF p_action = 'cancel' THEN
+    UPDATE applications
+    SET status = 'cancelled', cancellation_reason = trim(p_comment)
+    WHERE id = p_application_id;
+  ELSE
+    UPDATE applications SET status = v_status WHERE id = p_application_id;
+  END IF;
+
+  PERFORM set_config('app.transition_comment', '', true);
+
+  RETURN jsonb_build_object('success', true, 'status', v_status);
+END;
+$$;
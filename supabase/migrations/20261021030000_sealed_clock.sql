@@ -0,0 +1,104 @@
+/*
+  # 保存書類のタイムスタンプの検証
+
+  1. Functions
+    - `register_stored_document` - サーバーで署名を検証できるタイムスタンプ局（ローカルの局）のトークンのみ登録できる
+      - 外部の局のトークンは署名を検証できないため 'Unsupported timestamp authority' で拒否する
+      - ローカルの局のトークンは常に署名とハッシュ値を検証する
+
+  2. Notes
+    - 登録済みの外部の局のトークンは、画面では「タイムスタンプ未検証」と表示する（改ざんなしとはしない）
+*/
+
+-- アップロード済みのファイルを登録する
+-- ファイルのパスにハッシュ値を含めるため、同じパスに別の内容を登録することはできない
+CREATE OR REPLACE FUNCTION register_stored_document(
+  p_document_kind text,
+  p_file_path text,
+  p_file_name text,
+  p_mime_type text,
+  p_file_size bigint,
+  p_sha256 text,
+  p_transaction_date date,
+  p_amount numeric,
+  p_counterparty text,
+  p_invoice_number text,
+  p_timestamp_token jsonb,
+  p_timestamp_authority text
+)
+RETURNS stored_documents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_timestamped_at timestamptz;
+  v_document stored_documents%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF p_sha256 IS NULL OR p_sha256 !~ '^[0-9a-f]{64}$' THEN
+    RAISE EXCEPTION 'Invalid SHA-256 hash';
+  END IF;
+
+  IF p_file_path IS NULL OR split_part(p_file_path, '.', 1) <> v_user_id::text || '/' || p_sha256 THEN
+    RAISE EXCEPTION 'File path does not match the document hash';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM storage.objects WHERE bucket_id = 'receipts' AND name = p_file_path) THEN
+    RAISE EXCEPTION 'Stored file not found';
+  END IF;
+
+  PERFORM check_stored_document_keys(p_transaction_date, p_amount, p_counterparty);
+
+  -- サーバーで署名を検証できる局（ローカルの局）のトークンのみ受け付ける
+  IF COALESCE(p_timestamp_authority, 'local') <> 'local' THEN
+    RAISE EXCEPTION 'Unsupported timestamp authority';
+  END IF;
+
+  IF p_timestamp_token IS NULL OR NOT verify_timestamp_token(p_timestamp_token, p_sha256) THEN
+    RAISE EXCEPTION 'Invalid timestamp token';
+  END IF;
+
+  BEGIN
+    v_timestamped_at := (p_timestamp_token->>'genTime')::timestamptz;
+  EXCEPTION WHEN others THEN
+    RAISE EXCEPTION 'Invalid timestamp token';
+  END;
+
+  IF v_timestamped_at IS NULL THEN
+    RAISE EXCEPTION 'Invalid timestamp token';
+  END IF;
+
+  INSERT INTO stored_documents (
+    organization_id, user_id, document_kind, bucket, file_path, file_name, mime_type, file_size, sha256,
+    transaction_date, amount, counterparty, invoice_number,
+    timestamp_token, timestamp_authority, timestamped_at, created_by
+  )
+  VALUES (
+    (SELECT default_organization_id FROM user_profiles WHERE id = v_user_id),
+    v_user_id,
+    COALESCE(p_document_kind, 'receipt'),
+    'receipts',
+    p_file_path,
+    p_file_name,
+    p_mime_type,
+    p_file_size,
+    p_sha256,
+    p_transaction_date,
+    p_amount,
+    trim(p_counterparty),
+    NULLIF(trim(p_invoice_number), ''),
+    p_timestamp_token,
+    'local',
+    v_timestamped_at,
+    v_user_id
+  )
+  RETURNING * INTO v_document;
+
+  RETURN v_document;
+END;
+$$;
@@ -0,0 +1,83 @@
+/*
+  # 出張ログ台帳の勤務地と記録日時の検証
+
+  1. Changes
+    - 勤務地は組織設定（organizations.settings.workLocation）から取得する
+      - 組織の設定を変更できるユーザー（オーナー・管理者）のみ変更可能
+      - user_profiles の勤務地（`work_location_name`, `work_latitude`, `work_longitude`）は削除する
+    - 地点の追加時に以下を拒否する
+      - 承認済み・否認・取り下げ・取消の申請への追加（下書き・承認待ち・差戻し中のみ追加可能）
+      - 出張期間（日本時間の日付）外の記録日時、現在より後の記録日時
+
+  2. Notes
+    - 組織に属さない出張申請は勤務地がないため、距離は記録しない
+*/
+
+ALTER TABLE user_profiles DROP COLUMN IF EXISTS work_location_name;
+ALTER TABLE user_profiles DROP COLUMN IF EXISTS work_latitude;
+ALTER TABLE user_profiles DROP COLUMN IF EXISTS work_longitude;
+
+CREATE OR REPLACE FUNCTION set_trip_checkpoint_distance()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_application applications%ROWTYPE;
+  v_start date;
+  v_end date;
+  v_recorded_on date := (NEW.recorded_at AT TIME ZONE 'Asia/Tokyo')::date;
+  v_location jsonb;
+BEGIN
+  SELECT * INTO v_application FROM applications WHERE id = NEW.application_id;
+
+  IF v_application.status NOT IN ('draft', 'pending', 'returned') THEN
+    RAISE EXCEPTION 'Checkpoints cannot be added to this application';
+  END IF;
+
+  SELECT start_date, end_date INTO v_start, v_end
+  FROM business_trip_details
+  WHERE application_id = NEW.application_id
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF v_start IS NULL THEN
+    BEGIN
+      v_start := NULLIF(v_application.data #>> '{tripDetails,startDate}', '')::date;
+      v_end := NULLIF(v_application.data #>> '{tripDetails,endDate}', '')::date;
+    EXCEPTION WHEN others THEN
+      v_start := NULL;
+    END;
+  END IF;
+
+  IF v_start IS NULL OR v_end IS NULL OR v_recorded_on < v_start OR v_recorded_on > v_end
+    OR NEW.recorded_at > now() + interval '5 minutes'
+  THEN
+    RAISE EXCEPTION 'Checkpoint is outside the trip period';
+  END IF;
+
+  -- 勤務地は申請の組織の設定から取得する（利用者が変更できる値は使わない）
+  SELECT settings->'workLocation' INTO v_location FROM organizations WHERE id = v_application.organization_id;
+
+  IF jsonb_typeof(v_location->'latitude') = 'number' AND jsonb_typeof(v_location->'longitude') = 'number'
+    AND (v_location->>'latitude')::double precision BETWEEN -90 AND 90
+    AND (v_location->>'longitude')::double precision BETWEEN -180 AND 180
+  THEN
+    NEW.office_latitude := (v_location->>'latitude')::double precision;
+    NEW.office_longitude := (v_location->>'longitude')::double precision;
+  ELSE
+    NEW.office_latitude := NULL;
+    NEW.office_longitude := NULL;
+  END IF;
+
+  NEW.distance_from_office_km := CASE
+    WHEN NEW.office_latitude IS NULL OR NEW.office_longitude IS NULL THEN NULL
+    ELSE round(distance_km(NEW.office_latitude, NEW.office_longitude, NEW.latitude, NEW.longitude)::numeric, 2)
+  END;
+  NEW.excluded_at := NULL;
+  NEW.exclusion_reason := NULL;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,209 @@
+/*
+  # 月次・年次レポートのファイル作成をサーバー側の定期実行に移す
+
+  1. Functions
+    - `build_expense_report(organization_id, period_start, period_end, department)` - 期間内に承認された申請の集計（権限の確認なし。Edge Function generate-reports 用）
+    - `get_expense_report` - 権限を確認して build_expense_report の結果を返す（画面の集計用。結果は従来と同じ）
+    - `claim_due_report_jobs(limit, lease_seconds)` - 全組織の作成待ちのジョブをロックして取得する（Edge Function generate-reports 用）
+
+  2. Changes
+    - PDF と Excel の作成は管理者のブラウザではなく Edge Function generate-reports で行う。pg_cron が利用できる環境では毎分実行する
+    - 画面からのジョブの取得（claim_report_jobs）は行えない。失敗したジョブの再作成は作成待ちに戻すのみ
+
+  3. Security
+    - build_expense_report・claim_due_report_jobs は service_role のみ実行可能
+*/
+
+CREATE OR REPLACE FUNCTION build_expense_report(
+  p_organization_id uuid,
+  p_period_start date,
+  p_period_end date,
+  p_department text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_start timestamptz := p_period_start::timestamp AT TIME ZONE 'Asia/Tokyo';
+  v_end timestamptz := (p_period_end + 1)::timestamp AT TIME ZONE 'Asia/Tokyo';
+  v_summary jsonb;
+  v_by_person jsonb;
+  v_by_category jsonb;
+  v_by_destination jsonb;
+  v_trips jsonb;
+BEGIN
+  IF p_period_start IS NULL OR p_period_end IS NULL OR p_period_end < p_period_start THEN
+    RAISE EXCEPTION 'Invalid report period';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'application_count', count(*),
+    'business_trip_count', count(*) FILTER (WHERE type = 'business_trip'),
+    'expense_count', count(*) FILTER (WHERE type = 'expense'),
+    'person_count', count(DISTINCT user_id),
+    'total_amount', COALESCE(sum(total_amount), 0),
+    'business_trip_amount', COALESCE(sum(total_amount) FILTER (WHERE type = 'business_trip'), 0),
+    'expense_amount', COALESCE(sum(total_amount) FILTER (WHERE type = 'expense'), 0)
+  )
+  INTO v_summary
+  FROM report_applications(p_organization_id, v_start, v_end, p_department);
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'user_id', user_id,
+    'user_name', user_name,
+    'department', department,
+    'position', position,
+    'application_count', application_count,
+    'business_trip_amount', business_trip_amount,
+    'expense_amount', expense_amount,
+    'total_amount', total_amount
+  ) ORDER BY total_amount DESC), '[]'::jsonb)
+  INTO v_by_person
+  FROM (
+    SELECT user_id, user_name, department, position,
+      count(*) AS application_count,
+      COALESCE(sum(total_amount) FILTER (WHERE type = 'business_trip'), 0) AS business_trip_amount,
+      COALESCE(sum(total_amount) FILTER (WHERE type = 'expense'), 0) AS expense_amount,
+      sum(total_amount) AS total_amount
+    FROM report_applications(p_organization_id, v_start, v_end, p_department)
+    GROUP BY user_id, user_name, department, position
+  ) people;
+
+  -- 承認より前に提出されているため、期間の終わりまでに提出された明細から対象の申請を選ぶ
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'category', category,
+    'line_count', line_count,
+    'amount', amount
+  ) ORDER BY amount DESC), '[]'::jsonb)
+  INTO v_by_category
+  FROM (
+    SELECT lines.category, count(*) AS line_count, sum(lines.amount) AS amount
+    FROM analytics_expense_lines(p_organization_id, NULL, v_end, NULL) lines
+    JOIN report_applications(p_organization_id, v_start, v_end, p_department) apps ON apps.id = lines.application_id
+    GROUP BY lines.category
+  ) categories;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'destination', destination,
+    'trip_count', trip_count,
+    'days', days,
+    'amount', amount
+  ) ORDER BY amount DESC), '[]'::jsonb)
+  INTO v_by_destination
+  FROM (
+    SELECT apps.destination,
+      count(*) AS trip_count,
+      COALESCE(sum(d.end_date - d.start_date + 1), 0) AS days,
+      sum(apps.total_amount) AS amount
+    FROM report_applications(p_organization_id, v_start, v_end, p_department) apps
+    LEFT JOIN business_trip_details d ON d.application_id = apps.id
+    WHERE apps.type = 'business_trip'
+    GROUP BY apps.destination
+  ) destinations;
+
+  -- 精算額がなければ見積額（申請データの集計と同じ）
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'application_id', apps.id,
+    'user_id', apps.user_id,
+    'user_name', apps.user_name,
+    'position', apps.position,
+    'destination', apps.destination,
+    'start_date', d.start_date,
+    'end_date', d.end_date,
+    'daily_allowance', COALESCE(NULLIF(d.actual_daily_allowance, 0), d.estimated_daily_allowance, 0),
+    'transportation', COALESCE(NULLIF(d.actual_transportation, 0), d.estimated_transportation, 0),
+    'accommodation', COALESCE(NULLIF(d.actual_accommodation, 0), d.estimated_accommodation, 0)
+  ) ORDER BY d.start_date), '[]'::jsonb)
+  INTO v_trips
+  FROM report_applications(p_organization_id, v_start, v_end, p_department) apps
+  JOIN business_trip_details d ON d.application_id = apps.id
+  WHERE apps.type = 'business_trip';
+
+  RETURN jsonb_build_object(
+    'period_start', p_period_start,
+    'period_end', p_period_end,
+    'department', p_department,
+    'summary', v_summary,
+    'by_person', v_by_person,
+    'by_category', v_by_category,
+    'by_destination', v_by_destination,
+    'trips', v_trips,
+    'generated_at', now()
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_expense_report(
+  p_organization_id uuid,
+  p_period_start date,
+  p_period_end date,
+  p_department text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF NOT has_organization_permission(p_organization_id, 'view_admin_dashboard') THEN
+    RAISE EXCEPTION 'Not allowed to view organization reports';
+  END IF;
+
+  RETURN build_expense_report(p_organization_id, p_period_start, p_period_end, p_department);
+END;
+$$;
+
+-- 作成待ちのジョブを全組織からロックして取得する
+-- ロック期限が切れたジョブ（作成中に関数が終了したなど）は再取得する
+CREATE OR REPLACE FUNCTION claim_due_report_jobs(
+  p_limit integer DEFAULT 2,
+  p_lease_seconds integer DEFAULT 300
+)
+RETURNS SETOF report_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE report_jobs
+  SET status = 'processing',
+      attempt_count = attempt_count + 1,
+      locked_until = now() + make_interval(secs => p_lease_seconds),
+      error_message = NULL
+  WHERE id IN (
+    SELECT id FROM report_jobs
+    WHERE status = 'pending' OR (status = 'processing' AND locked_until < now())
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION build_expense_report(uuid, date, date, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_due_report_jobs(integer, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_report_jobs(uuid, integer, integer) FROM PUBLIC, anon, authenticated;
+
+-- 毎分実行する（pg_cron・pg_net がない環境では手動実行のみ）
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_net') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    CREATE EXTENSION IF NOT EXISTS pg_net;
+    PERFORM cron.schedule('generate-reports', '* * * * *', 'SELECT public.invoke_edge_function(''generate-reports'')');
+  ELSE
+    RAISE NOTICE 'pg_cron or pg_net is not available; report jobs must be run manually';
+  END IF;
+END;
+$$;
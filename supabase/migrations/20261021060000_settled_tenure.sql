@@ -0,0 +1,124 @@
+/*
+  # 日当支給明細書の規程の版を施行期間から求める
+
+  1. Functions
+    - `regulation_version_in_effect(organization_id, user_id, on_date)` - その日に施行されていた規程の版
+      - 施行期間（travel_regulation_activations）から求める（effective_from 以上、effective_to 未満）
+      - 組織に属さない申請は、申請者が作成した個人の規程の施行期間から求める
+    - `get_allowance_statement_trips` - 出張ごとの規程の版を施行期間から求める
+      - 出張開始日に施行されていた規程がない出張があれば、明細書を作成せずエラーにする
+
+  2. Notes
+    - 別の規程の版や、運用されていない版（作成日時のみで判断していた）は使わない
+    - 現在運用中の規程で代わりに計算することはしない
+*/
+
+CREATE OR REPLACE FUNCTION regulation_version_in_effect(
+  p_organization_id uuid,
+  p_user_id uuid,
+  p_on_date date
+)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ac.version_id
+  FROM travel_regulation_activations ac
+  JOIN travel_regulations r ON r.id = ac.regulation_id
+  WHERE (
+      ac.organization_id = p_organization_id
+      OR (p_organization_id IS NULL AND ac.organization_id IS NULL AND r.created_by = p_user_id)
+    )
+    AND ac.effective_from <= p_on_date
+    AND (ac.effective_to IS NULL OR p_on_date < ac.effective_to)
+  ORDER BY ac.effective_from DESC, ac.created_at DESC
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION regulation_version_in_effect(uuid, uuid, date) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_allowance_statement_trips(
+  p_user_id uuid,
+  p_period_start date,
+  p_period_end date
+)
+RETURNS TABLE (
+  application_id uuid,
+  title text,
+  destination text,
+  start_date date,
+  end_date date,
+  is_overseas boolean,
+  regulation_version_id uuid,
+  regulation_name text,
+  regulation_version text,
+  allowance_settings jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_trip record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF p_period_start IS NULL OR p_period_end IS NULL OR p_period_end < p_period_start THEN
+    RAISE EXCEPTION 'Invalid statement period';
+  END IF;
+
+  IF p_user_id <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM organization_members m
+    WHERE m.user_id = p_user_id
+      AND has_organization_permission(m.organization_id, 'view_organization_applications')
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view allowance statement';
+  END IF;
+
+  FOR v_trip IN
+    SELECT
+      a.id,
+      a.title,
+      COALESCE(NULLIF(trim(a.data->'tripDetails'->>'destination'), ''), '未設定') AS destination,
+      d.start_date,
+      d.end_date,
+      d.is_overseas,
+      v.id AS version_id,
+      v.name AS version_name,
+      v.version,
+      v.allowance_settings
+    FROM applications a
+    JOIN business_trip_details d ON d.application_id = a.id
+    LEFT JOIN travel_regulation_versions v
+      ON v.id = regulation_version_in_effect(a.organization_id, a.user_id, d.start_date)
+    WHERE a.user_id = p_user_id
+      AND a.type = 'business_trip'
+      AND a.status = 'approved'
+      AND d.start_date BETWEEN p_period_start AND p_period_end
+      AND (p_user_id = auth.uid() OR has_organization_permission(a.organization_id, 'view_organization_applications'))
+    ORDER BY d.start_date, a.created_at
+  LOOP
+    -- 施行されていた規程がわからない出張は、別の規程で計算せずに明細書の作成を中止する
+    IF v_trip.version_id IS NULL THEN
+      RAISE EXCEPTION 'No travel regulation in effect for the trip';
+    END IF;
+
+    application_id := v_trip.id;
+    title := v_trip.title;
+    destination := v_trip.destination;
+    start_date := v_trip.start_date;
+    end_date := v_trip.end_date;
+    is_overseas := v_trip.is_overseas;
+    regulation_version_id := v_trip.version_id;
+    regulation_name := v_trip.version_name;
+    regulation_version := v_trip.version;
+    allowance_settings := v_trip.allowance_settings;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;